@@ -26,6 +26,7 @@ const Signup = lazy(() => import("@/pages/Signup"));
 const Dashboard = lazy(() => import("@/pages/Dashboard"));
 const Construction = lazy(() => import("@/pages/Construction"));
 const Projects = lazy(() => import("@/pages/Projects"));
+const Suppliers = lazy(() => import("@/pages/Suppliers"));
 const Analytics = lazy(() => import("@/pages/Analytics"));
 const UserManagement = lazy(() => import("@/pages/UserManagement"));
 const Profile = lazy(() => import("@/pages/Profile"));
@@ -110,6 +111,16 @@ const App = () => {
                     </ProtectedRoute>
                   } 
                 />
+                <Route 
+                  path="/suppliers" 
+                  element={
+                    <ProtectedRoute>
+                      <Suspense fallback={<div className="flex items-center justify-center min-h-[200px]" role="status" aria-label="Loading suppliers">Loading...</div>}>
+                        <Suppliers />
+                      </Suspense>
+                    </ProtectedRoute>
+                  } 
+                />
                 <Route 
                   path="/analytics" 
                   element={
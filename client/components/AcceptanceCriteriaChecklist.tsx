@@ -0,0 +1,255 @@
+import { useState, useEffect, useRef } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Circle, Loader2, Paperclip, Plus, Trash2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface EvidenceFile {
+  id: string;
+  originalName: string;
+  url: string;
+}
+
+interface AcceptanceCriterion {
+  id: number;
+  phase: string;
+  title: string;
+  description: string | null;
+  sort_order: number;
+  evidence_file_ids: string[];
+  evidence: EvidenceFile[];
+  signed_off_by: string | null;
+  signed_off_at: string | null;
+}
+
+interface AcceptancePhase {
+  phase: string;
+  items: AcceptanceCriterion[];
+  total: number;
+  signedOff: number;
+  percentage: number;
+}
+
+interface AcceptanceProgress {
+  phases: AcceptancePhase[];
+  total: number;
+  signedOff: number;
+  percentage: number;
+}
+
+interface AcceptanceCriteriaChecklistProps {
+  projectId: number;
+  canEdit: boolean;
+  canSignOff: boolean;
+}
+
+const emptyProgress: AcceptanceProgress = { phases: [], total: 0, signedOff: 0, percentage: 0 };
+
+export default function AcceptanceCriteriaChecklist({ projectId, canEdit, canSignOff }: AcceptanceCriteriaChecklistProps) {
+  const { token } = useAuth();
+  const [progress, setProgress] = useState<AcceptanceProgress>(emptyProgress);
+  const [loading, setLoading] = useState(true);
+  const [newItem, setNewItem] = useState({ phase: '', title: '' });
+  const [uploadingFor, setUploadingFor] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTarget = useRef<AcceptanceCriterion | null>(null);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+
+  useEffect(() => {
+    fetchChecklist();
+  }, [projectId]);
+
+  const fetchChecklist = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/acceptance-criteria`, { headers: authHeaders });
+      if (response.ok) {
+        setProgress(await response.json());
+      } else {
+        toast.error('Failed to fetch acceptance criteria');
+      }
+    } catch (error) {
+      toast.error('Error fetching acceptance criteria');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sendRequest = async (url: string, method: string, body?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        toast.error(error.message || error.errors?.[0]?.message || 'Request failed');
+        return false;
+      }
+      await fetchChecklist();
+      return true;
+    } catch (error) {
+      toast.error('Request failed');
+      return false;
+    }
+  };
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await sendRequest(`/api/projects/${projectId}/acceptance-criteria`, 'POST', newItem)) {
+      setNewItem({ phase: newItem.phase, title: '' });
+    }
+  };
+
+  const handleSignOff = (item: AcceptanceCriterion) =>
+    sendRequest(`/api/projects/${projectId}/acceptance-criteria/${item.id}/sign-off`, item.signed_off_at ? 'DELETE' : 'POST');
+
+  const handleDelete = (item: AcceptanceCriterion) => {
+    if (!confirm(`Remove "${item.title}" from the checklist?`)) return;
+    sendRequest(`/api/projects/${projectId}/acceptance-criteria/${item.id}`, 'DELETE');
+  };
+
+  const chooseEvidence = (item: AcceptanceCriterion) => {
+    uploadTarget.current = item;
+    fileInputRef.current?.click();
+  };
+
+  // Upload against the project, then link the file to the item
+  const handleEvidenceSelected = async (files: FileList | null) => {
+    const item = uploadTarget.current;
+    if (!item || !files || files.length === 0) return;
+
+    setUploadingFor(item.id);
+    try {
+      const formData = new FormData();
+      formData.append('file', files[0]);
+      formData.append('projectId', String(projectId));
+
+      const response = await fetch('/api/files/upload', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: formData,
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        toast.error(error.message || 'Upload failed');
+        return;
+      }
+
+      const { file } = await response.json();
+      if (await sendRequest(`/api/projects/${projectId}/acceptance-criteria/${item.id}`, 'PUT', {
+        evidence_file_ids: [...item.evidence_file_ids, file.id],
+      })) {
+        toast.success('Evidence attached');
+      }
+    } catch (error) {
+      toast.error('Upload failed');
+    } finally {
+      setUploadingFor(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <input ref={fileInputRef} type="file" className="hidden" onChange={(e) => handleEvidenceSelected(e.target.files)} />
+
+      <div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">{progress.signedOff}/{progress.total} signed off</span>
+          <span className="text-muted-foreground">{progress.percentage}%</span>
+        </div>
+        <Progress value={progress.percentage} className="mt-2" />
+      </div>
+
+      {progress.phases.length === 0 && (
+        <p className="text-sm text-muted-foreground">No acceptance criteria yet.</p>
+      )}
+
+      {progress.phases.map(phase => (
+        <div key={phase.phase} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">{phase.phase}</h3>
+            <Badge variant={phase.percentage === 100 ? 'default' : 'secondary'}>{phase.signedOff}/{phase.total}</Badge>
+          </div>
+          {phase.items.map(item => (
+            <div key={item.id} className="flex items-start gap-3 rounded-lg border p-3">
+              {item.signed_off_at
+                ? <CheckCircle2 className="mt-0.5 h-4 w-4 text-emerald-600" />
+                : <Circle className="mt-0.5 h-4 w-4 text-muted-foreground" />}
+              <div className="min-w-0 flex-1">
+                <div className="font-medium">{item.title}</div>
+                {item.description && <div className="text-sm text-muted-foreground">{item.description}</div>}
+                {item.evidence.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                    {item.evidence.map(file => (
+                      <a key={file.id} href={file.url} target="_blank" rel="noreferrer" className="text-primary underline">{file.originalName}</a>
+                    ))}
+                  </div>
+                )}
+                {item.signed_off_at && (
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    Signed off {new Date(item.signed_off_at).toLocaleString()}
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-1">
+                {canEdit && !item.signed_off_at && (
+                  <Button size="sm" variant="ghost" onClick={() => chooseEvidence(item)} disabled={uploadingFor === item.id}>
+                    {uploadingFor === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+                  </Button>
+                )}
+                {canSignOff && (
+                  <Button size="sm" variant={item.signed_off_at ? 'outline' : 'default'} onClick={() => handleSignOff(item)}>
+                    {item.signed_off_at ? <><Undo2 className="mr-1 h-4 w-4" /> Revoke</> : 'Sign off'}
+                  </Button>
+                )}
+                {canSignOff && (
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(item)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {canEdit && (
+        <form onSubmit={handleAddItem} className="flex flex-wrap gap-2">
+          <Input
+            className="w-40"
+            placeholder="Phase"
+            value={newItem.phase}
+            onChange={(e) => setNewItem({ ...newItem, phase: e.target.value })}
+            required
+          />
+          <Input
+            className="min-w-[200px] flex-1"
+            placeholder="Acceptance criterion"
+            value={newItem.title}
+            onChange={(e) => setNewItem({ ...newItem, title: e.target.value })}
+            required
+          />
+          <Button type="submit"><Plus className="mr-1 h-4 w-4" /> Add</Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import { Menu, Hammer, X, User, LogOut, Brain, Wifi, Link as LinkIcon } from "lu
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import NotificationBell from "./NotificationBell";
+import SearchCommand from "./SearchCommand";
 
 export default function BrandHeader() {
   const [open, setOpen] = useState(false);
@@ -53,6 +54,7 @@ export default function BrandHeader() {
     if (user) {
       return (
         <div className="flex items-center gap-2">
+          <SearchCommand />
           <NotificationBell />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -0,0 +1,123 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Copy, Link2, RefreshCw, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface FeedStatus {
+  enabled: boolean;
+  createdAt: string | null;
+}
+
+export default function CalendarFeedSettings() {
+  const { token } = useAuth();
+  const [feed, setFeed] = useState<FeedStatus | null>(null);
+  // Only known straight after creating or resetting; the server keeps a hash
+  const [url, setUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+
+  useEffect(() => {
+    fetchFeed();
+  }, []);
+
+  const fetchFeed = async () => {
+    try {
+      const response = await fetch('/api/calendar/feed', { headers: authHeaders });
+      if (response.ok) {
+        setFeed(await response.json());
+      }
+    } catch (error) {
+      toast.error('Error fetching calendar feed');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (feed?.enabled && !confirm('Reset the subscription URL? Calendars using the old one will stop updating.')) return;
+    setBusy(true);
+    try {
+      const response = await fetch('/api/calendar/feed', { method: 'POST', headers: authHeaders });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || 'Failed to create calendar feed');
+        return;
+      }
+      setFeed({ enabled: data.enabled, createdAt: data.createdAt });
+      setUrl(data.url);
+    } catch (error) {
+      toast.error('Failed to create calendar feed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm('Turn off the calendar feed? Subscribed calendars will stop updating.')) return;
+    setBusy(true);
+    try {
+      const response = await fetch('/api/calendar/feed', { method: 'DELETE', headers: authHeaders });
+      if (!response.ok) {
+        toast.error('Failed to revoke calendar feed');
+        return;
+      }
+      setFeed({ enabled: false, createdAt: null });
+      setUrl(null);
+    } catch (error) {
+      toast.error('Failed to revoke calendar feed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Subscription URL copied');
+    } catch (error) {
+      toast.error('Copy the URL manually');
+    }
+  };
+
+  if (!feed) return null;
+
+  return (
+    <div className="space-y-3">
+      {url ? (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input value={url} readOnly onFocus={(e) => e.target.select()} />
+            <Button size="icon" variant="outline" title="Copy" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Add this URL to Outlook, Google Calendar or Apple Calendar as a subscription. It is shown only once and works without signing in, so keep it private.
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {feed.enabled
+            ? `Your feed has been active since ${new Date(feed.createdAt!).toLocaleDateString()}. Reset it to see a new URL.`
+            : 'Publish the milestones, inspections and deliveries of your projects to your own calendar app.'}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button size="sm" disabled={busy} onClick={handleCreate}>
+          {feed.enabled ? <RefreshCw className="mr-2 h-4 w-4" /> : <Link2 className="mr-2 h-4 w-4" />}
+          {feed.enabled ? 'Reset URL' : 'Create feed'}
+        </Button>
+        {feed.enabled && (
+          <Button size="sm" variant="outline" disabled={busy} onClick={handleRevoke}>
+            <X className="mr-2 h-4 w-4" /> Turn off
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
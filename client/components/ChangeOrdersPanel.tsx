@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { formatMoney } from "@/components/CostControlPanel";
+import { Check, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+type ChangeOrderStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+type ApproverRole = 'manager' | 'owner';
+
+interface ApprovalStep {
+  role: ApproverRole;
+  decision: 'approved' | 'rejected' | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  comment: string | null;
+}
+
+interface ChangeOrder {
+  id: number;
+  number: number;
+  title: string;
+  description: string | null;
+  cost_impact: number;
+  time_impact_days: number;
+  status: ChangeOrderStatus;
+  approval_chain: ApprovalStep[];
+  submitted_by: string | null;
+  budget_before: number | null;
+  budget_after: number | null;
+  end_date_before: string | null;
+  end_date_after: string | null;
+}
+
+interface VarianceHistory {
+  original_budget: number;
+  current_budget: number;
+  cost_variance: number;
+  cost_variance_percent: number | null;
+  schedule_variance_days: number | null;
+}
+
+interface ChangeOrdersPanelProps {
+  projectId: number;
+  role: string | null | undefined;
+  currency: string;
+}
+
+const statusVariant: Record<ChangeOrderStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  draft: 'outline',
+  submitted: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+const emptyOrder = { title: '', description: '', cost_impact: '', time_impact_days: '' };
+
+const reference = (number: number) => `CO-${String(number).padStart(3, '0')}`;
+
+const formatDays = (days: number) => `${days > 0 ? '+' : ''}${days} day${Math.abs(days) === 1 ? '' : 's'}`;
+
+export default function ChangeOrdersPanel({ projectId, role, currency }: ChangeOrdersPanelProps) {
+  const { user, token } = useAuth();
+  const [changeOrders, setChangeOrders] = useState<ChangeOrder[]>([]);
+  const [history, setHistory] = useState<VarianceHistory | null>(null);
+  const [newOrder, setNewOrder] = useState(emptyOrder);
+  const [busy, setBusy] = useState(false);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+  const base = `/api/projects/${projectId}/change-orders`;
+  const canEdit = !!role && role !== 'viewer';
+
+  useEffect(() => {
+    fetchChangeOrders();
+  }, [projectId]);
+
+  const fetchChangeOrders = async () => {
+    try {
+      const response = await fetch(base, { headers: authHeaders });
+      if (response.ok) {
+        const data = await response.json();
+        setChangeOrders(data.changeOrders);
+        setHistory(data.history);
+      }
+    } catch (error) {
+      toast.error('Error fetching change orders');
+    }
+  };
+
+  const sendRequest = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.errors?.[0]?.message || 'Request failed');
+        return null;
+      }
+      await fetchChangeOrders();
+      return data;
+    } catch (error) {
+      toast.error('Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await sendRequest(base, 'POST', {
+      title: newOrder.title,
+      description: newOrder.description || null,
+      cost_impact: Number(newOrder.cost_impact) || 0,
+      time_impact_days: Math.round(Number(newOrder.time_impact_days) || 0),
+    })) {
+      setNewOrder(emptyOrder);
+    }
+  };
+
+  const handleDecision = async (order: ChangeOrder, decision: 'approved' | 'rejected') => {
+    const comment = decision === 'rejected' ? prompt('Reason for rejecting?') : null;
+    if (decision === 'rejected' && comment === null) return;
+    const data = await sendRequest(`${base}/${order.id}/decision`, 'POST', { decision, comment });
+    if (data?.changeOrder.status === 'approved') {
+      toast.success(`${reference(order.number)} approved; budget and end date updated`);
+    }
+  };
+
+  const handleDelete = async (order: ChangeOrder) => {
+    if (!confirm(`Delete draft ${reference(order.number)}?`)) return;
+    await sendRequest(`${base}/${order.id}`, 'DELETE');
+  };
+
+  // Owners can act for the manager step unless their own step is still to
+  // come, and nobody decides a change they submitted or already decided a step of
+  const canDecide = (order: ChangeOrder) => {
+    const index = order.status === 'submitted' ? order.approval_chain.findIndex(s => s.decision === null) : -1;
+    const step = order.approval_chain[index];
+    if (!step || !user) return false;
+    const independent = order.submitted_by !== user.id && !order.approval_chain.some(s => s.decided_by === user.id);
+    const ownerStepPending = order.approval_chain.slice(index + 1).some(s => s.role === 'owner' && s.decision === null);
+    return independent && (step.role === 'owner'
+      ? role === 'owner'
+      : role === 'manager' || (role === 'owner' && !ownerStepPending));
+  };
+
+  return (
+    <div className="space-y-4">
+      {history && history.cost_variance_percent !== null && (
+        <div className="grid gap-3 sm:grid-cols-3 text-sm">
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground">Original budget</div>
+            <div className="font-medium">{formatMoney(history.original_budget, currency)}</div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground">Current budget</div>
+            <div className="font-medium">
+              {formatMoney(history.current_budget, currency)}
+              <span className="ml-2 text-xs text-muted-foreground">{history.cost_variance >= 0 ? '+' : ''}{history.cost_variance_percent}%</span>
+            </div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground">Schedule</div>
+            <div className="font-medium">{history.schedule_variance_days === null ? 'No end date' : formatDays(history.schedule_variance_days)}</div>
+          </div>
+        </div>
+      )}
+
+      {changeOrders.length === 0 && <p className="text-sm text-muted-foreground">No change orders raised.</p>}
+      {changeOrders.map(order => (
+        <div key={order.id} className="space-y-2 rounded-lg border p-3 text-sm">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span>
+              <span className="font-medium">{reference(order.number)}</span> · {order.title}
+              <span className="text-muted-foreground"> · {formatMoney(Number(order.cost_impact), currency)} · {formatDays(order.time_impact_days)}</span>
+            </span>
+            <span className="flex items-center gap-2">
+              <Badge variant={statusVariant[order.status]}>{order.status}</Badge>
+              {order.status === 'draft' && canEdit && (
+                <>
+                  <Button size="sm" disabled={busy} onClick={() => sendRequest(`${base}/${order.id}/status`, 'POST', { status: 'submitted' })}>Submit</Button>
+                  <Button size="icon" variant="ghost" disabled={busy} title="Delete" onClick={() => handleDelete(order)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+              {(order.status === 'submitted' || order.status === 'rejected') && canEdit && (
+                <Button size="sm" variant="outline" disabled={busy} onClick={() => sendRequest(`${base}/${order.id}/status`, 'POST', { status: 'draft' })}>
+                  {order.status === 'rejected' ? 'Revise' : 'Withdraw'}
+                </Button>
+              )}
+              {canDecide(order) && (
+                <>
+                  <Button size="icon" variant="ghost" disabled={busy} title="Approve" onClick={() => handleDecision(order, 'approved')}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" disabled={busy} title="Reject" onClick={() => handleDecision(order, 'rejected')}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </span>
+          </div>
+          {order.description && <p className="text-muted-foreground">{order.description}</p>}
+          {order.approval_chain.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {order.approval_chain.map((step, i) => (
+                <span key={i} className="rounded border px-2 py-0.5">
+                  {step.role}: {step.decision ?? 'pending'}
+                  {step.comment && <span className="text-muted-foreground"> · {step.comment}</span>}
+                </span>
+              ))}
+            </div>
+          )}
+          {order.status === 'approved' && order.budget_after !== null && (
+            <p className="text-xs text-muted-foreground">
+              Budget {formatMoney(Number(order.budget_before), currency)} → {formatMoney(Number(order.budget_after), currency)}
+              {order.end_date_after && order.end_date_after !== order.end_date_before && ` · end date ${order.end_date_before} → ${order.end_date_after}`}
+            </p>
+          )}
+        </div>
+      ))}
+
+      {canEdit && (
+        <form onSubmit={handleCreate} className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <Input className="flex-1" placeholder="Title" value={newOrder.title} onChange={(e) => setNewOrder({ ...newOrder, title: e.target.value })} required />
+            <Input className="w-32" type="number" step="0.01" placeholder="Cost impact" value={newOrder.cost_impact} onChange={(e) => setNewOrder({ ...newOrder, cost_impact: e.target.value })} required />
+            <Input className="w-28" type="number" step="1" placeholder="Days" value={newOrder.time_impact_days} onChange={(e) => setNewOrder({ ...newOrder, time_impact_days: e.target.value })} />
+          </div>
+          <Textarea placeholder="Description" value={newOrder.description} onChange={(e) => setNewOrder({ ...newOrder, description: e.target.value })} />
+          <Button type="submit" size="sm" disabled={busy}><Plus className="mr-2 h-4 w-4" /> Raise change order</Button>
+        </form>
+      )}
+    </div>
+  );
+}
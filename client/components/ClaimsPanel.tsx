@@ -0,0 +1,403 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatMoney } from "@/components/CostControlPanel";
+import { Check, Download, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+type ClaimStatus = 'draft' | 'submitted' | 'certified' | 'paid';
+type VariationStatus = 'pending' | 'approved' | 'rejected';
+
+interface ScheduleItem {
+  id: number;
+  item_number: string;
+  description: string;
+  scheduled_value: number;
+}
+
+interface Variation {
+  id: number;
+  reference: string;
+  description: string;
+  amount: number;
+  status: VariationStatus;
+}
+
+interface ClaimLine {
+  source: 'item' | 'variation';
+  source_id: number;
+  reference: string;
+  description: string;
+  scheduled_value: number;
+  percent_complete: number;
+  previous_percent: number;
+  value_to_date: number;
+  this_period: number;
+}
+
+interface Claim {
+  id: number;
+  number: number;
+  period_end: string;
+  status: ClaimStatus;
+  retention_released: number;
+  valuation: {
+    lines: ClaimLine[];
+    contract_sum: number;
+    variations_sum: number;
+    revised_contract_sum: number;
+    gross_to_date: number;
+    percent_complete: number;
+    retention_rate: number;
+    retention_releasable: number;
+    retention_held: number;
+    net_to_date: number;
+    previous_certified: number;
+    amount_due: number;
+  };
+}
+
+interface ClaimsPanelProps {
+  projectId: number;
+  canEdit: boolean;
+  canManage: boolean;
+  currency: string;
+}
+
+const claimVariant: Record<ClaimStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'outline',
+  submitted: 'secondary',
+  certified: 'default',
+  paid: 'default',
+};
+
+const variationVariant: Record<VariationStatus, 'default' | 'secondary' | 'outline'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'outline',
+};
+
+const emptyItem = { item_number: '', description: '', scheduled_value: '' };
+const emptyVariation = { reference: '', description: '', amount: '' };
+
+export default function ClaimsPanel({ projectId, canEdit, canManage, currency }: ClaimsPanelProps) {
+  const { token } = useAuth();
+  const [items, setItems] = useState<ScheduleItem[]>([]);
+  const [variations, setVariations] = useState<Variation[]>([]);
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [newItem, setNewItem] = useState(emptyItem);
+  const [newVariation, setNewVariation] = useState(emptyVariation);
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+  const base = `/api/projects/${projectId}`;
+
+  useEffect(() => {
+    setSelectedId(null);
+    fetchAll();
+  }, [projectId]);
+
+  const fetchAll = async () => {
+    try {
+      const [itemsResponse, variationsResponse, claimsResponse] = await Promise.all([
+        fetch(`${base}/schedule-of-values`, { headers: authHeaders }),
+        fetch(`${base}/variations`, { headers: authHeaders }),
+        fetch(`${base}/claims`, { headers: authHeaders }),
+      ]);
+      if (itemsResponse.ok) setItems((await itemsResponse.json()).items);
+      if (variationsResponse.ok) setVariations((await variationsResponse.json()).variations);
+      if (claimsResponse.ok) {
+        const loaded: Claim[] = (await claimsResponse.json()).claims;
+        setClaims(loaded);
+        setSelectedId(current => current ?? loaded[loaded.length - 1]?.id ?? null);
+      }
+    } catch (error) {
+      toast.error('Error fetching claims');
+    }
+  };
+
+  const sendRequest = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.errors?.[0]?.message || 'Request failed');
+        return null;
+      }
+      await fetchAll();
+      return data;
+    } catch (error) {
+      toast.error('Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await sendRequest(`${base}/schedule-of-values`, 'POST', {
+      item_number: newItem.item_number,
+      description: newItem.description,
+      scheduled_value: Number(newItem.scheduled_value) || 0,
+    })) {
+      setNewItem(emptyItem);
+    }
+  };
+
+  const handleAddVariation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await sendRequest(`${base}/variations`, 'POST', {
+      reference: newVariation.reference,
+      description: newVariation.description,
+      amount: Number(newVariation.amount) || 0,
+    })) {
+      setNewVariation(emptyVariation);
+    }
+  };
+
+  const handleNewClaim = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await sendRequest(`${base}/claims`, 'POST', { period_end: periodEnd });
+    if (data) {
+      setSelectedId(data.claim.id);
+      setPeriodEnd('');
+    }
+  };
+
+  const handlePercent = (claim: Claim, line: ClaimLine, value: string) => {
+    const percent = Number(value);
+    if (value === '' || isNaN(percent) || percent === line.percent_complete) return;
+    sendRequest(`${base}/claims/${claim.id}`, 'PUT', {
+      lines: [{ source: line.source, source_id: line.source_id, percent_complete: percent }],
+    });
+  };
+
+  const handleReleased = (claim: Claim, value: string) => {
+    const released = Number(value);
+    if (value === '' || isNaN(released) || released === claim.retention_released) return;
+    sendRequest(`${base}/claims/${claim.id}`, 'PUT', { retention_released: released });
+  };
+
+  const handleStatus = (claim: Claim, status: ClaimStatus) =>
+    sendRequest(`${base}/claims/${claim.id}/status`, 'POST', { status });
+
+  const handleDeleteClaim = async (claim: Claim) => {
+    if (!confirm(`Delete draft claim ${claim.number}?`)) return;
+    if (await sendRequest(`${base}/claims/${claim.id}`, 'DELETE')) setSelectedId(null);
+  };
+
+  const handleDownload = async (claim: Claim) => {
+    try {
+      const response = await fetch('/api/analytics/report', {
+        method: 'POST',
+        headers: authHeaders,
+        body: JSON.stringify({
+          type: 'progress_claim',
+          format: 'pdf',
+          filters: { projects: [String(projectId)], claimId: claim.id },
+        }),
+      });
+      if (!response.ok) {
+        toast.error('Failed to generate claim PDF');
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `claim-${claim.number}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Failed to generate claim PDF');
+    }
+  };
+
+  const selected = claims.find(claim => claim.id === selectedId) ?? null;
+  const hasOpenClaim = claims.some(claim => claim.status === 'draft' || claim.status === 'submitted');
+  const editable = selected?.status === 'draft' && canEdit;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-2">
+          <h3 className="font-semibold">Schedule of values</h3>
+          {items.length === 0 && <p className="text-sm text-muted-foreground">Break the contract down into items to start claiming.</p>}
+          {items.map(item => (
+            <div key={item.id} className="flex items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+              <span><span className="font-medium">{item.item_number}</span> · {item.description}</span>
+              <span className="flex items-center gap-2">
+                {formatMoney(Number(item.scheduled_value), currency)}
+                {canManage && (
+                  <Button size="icon" variant="ghost" disabled={busy} title="Delete"
+                    onClick={() => sendRequest(`${base}/schedule-of-values/${item.id}`, 'DELETE')}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </span>
+            </div>
+          ))}
+          {canManage && (
+            <form onSubmit={handleAddItem} className="flex flex-wrap gap-2">
+              <Input className="w-20" placeholder="No." value={newItem.item_number} onChange={(e) => setNewItem({ ...newItem, item_number: e.target.value })} required />
+              <Input className="flex-1" placeholder="Description" value={newItem.description} onChange={(e) => setNewItem({ ...newItem, description: e.target.value })} required />
+              <Input className="w-32" type="number" min="0" step="0.01" placeholder="Value" value={newItem.scheduled_value} onChange={(e) => setNewItem({ ...newItem, scheduled_value: e.target.value })} required />
+              <Button type="submit" size="sm" disabled={busy}><Plus className="mr-2 h-4 w-4" /> Add</Button>
+            </form>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="font-semibold">Variations</h3>
+          {variations.length === 0 && <p className="text-sm text-muted-foreground">No variations raised.</p>}
+          {variations.map(variation => (
+            <div key={variation.id} className="flex items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+              <span><span className="font-medium">{variation.reference}</span> · {variation.description} · {formatMoney(Number(variation.amount), currency)}</span>
+              <span className="flex items-center gap-2">
+                <Badge variant={variationVariant[variation.status]}>{variation.status}</Badge>
+                {canManage && variation.status === 'pending' && (
+                  <>
+                    <Button size="icon" variant="ghost" disabled={busy} title="Approve"
+                      onClick={() => sendRequest(`${base}/variations/${variation.id}/status`, 'POST', { status: 'approved' })}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" disabled={busy} title="Reject"
+                      onClick={() => sendRequest(`${base}/variations/${variation.id}/status`, 'POST', { status: 'rejected' })}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </span>
+            </div>
+          ))}
+          {canEdit && (
+            <form onSubmit={handleAddVariation} className="flex flex-wrap gap-2">
+              <Input className="w-20" placeholder="Ref" value={newVariation.reference} onChange={(e) => setNewVariation({ ...newVariation, reference: e.target.value })} required />
+              <Input className="flex-1" placeholder="Description" value={newVariation.description} onChange={(e) => setNewVariation({ ...newVariation, description: e.target.value })} required />
+              <Input className="w-32" type="number" step="0.01" placeholder="Amount" value={newVariation.amount} onChange={(e) => setNewVariation({ ...newVariation, amount: e.target.value })} required />
+              <Button type="submit" size="sm" disabled={busy}><Plus className="mr-2 h-4 w-4" /> Raise</Button>
+            </form>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-semibold">Progress claims</h3>
+          {canEdit && !hasOpenClaim && (
+            <form onSubmit={handleNewClaim} className="flex gap-2">
+              <Input className="w-40" type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} required />
+              <Button type="submit" size="sm" disabled={busy}><Plus className="mr-2 h-4 w-4" /> New claim</Button>
+            </form>
+          )}
+        </div>
+        {claims.length === 0 && <p className="text-sm text-muted-foreground">No claims yet.</p>}
+        <div className="flex flex-wrap gap-2">
+          {claims.map(claim => (
+            <Button key={claim.id} size="sm" variant={claim.id === selectedId ? 'default' : 'outline'} onClick={() => setSelectedId(claim.id)}>
+              No. {claim.number} · {claim.period_end} · {claim.status}
+            </Button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="flex items-center gap-2">
+                <span className="font-semibold">Claim {selected.number}</span>
+                <Badge variant={claimVariant[selected.status]}>{selected.status}</Badge>
+              </span>
+              <span className="flex flex-wrap gap-2">
+                {editable && <Button size="sm" disabled={busy} onClick={() => handleStatus(selected, 'submitted')}>Submit</Button>}
+                {editable && <Button size="sm" variant="ghost" disabled={busy} onClick={() => handleDeleteClaim(selected)}><Trash2 className="h-4 w-4" /></Button>}
+                {selected.status === 'submitted' && canEdit && <Button size="sm" variant="outline" disabled={busy} onClick={() => handleStatus(selected, 'draft')}>Return to draft</Button>}
+                {selected.status === 'submitted' && canManage && <Button size="sm" disabled={busy} onClick={() => handleStatus(selected, 'certified')}>Certify</Button>}
+                {selected.status === 'certified' && canManage && <Button size="sm" disabled={busy} onClick={() => handleStatus(selected, 'paid')}>Mark paid</Button>}
+                <Button size="sm" variant="outline" onClick={() => handleDownload(selected)}><Download className="mr-2 h-4 w-4" /> PDF</Button>
+              </span>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Previous</TableHead>
+                  <TableHead className="text-right">% complete</TableHead>
+                  <TableHead className="text-right">To date</TableHead>
+                  <TableHead className="text-right">This claim</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selected.valuation.lines.map(line => (
+                  <TableRow key={`${line.source}:${line.source_id}`}>
+                    <TableCell>
+                      <span className="font-medium">{line.reference}</span> · {line.description}
+                      {line.source === 'variation' && <span className="text-muted-foreground"> (variation)</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(line.scheduled_value, currency)}</TableCell>
+                    <TableCell className="text-right">{line.previous_percent}%</TableCell>
+                    <TableCell className="text-right">
+                      {editable ? (
+                        <Input
+                          key={line.percent_complete}
+                          className="ml-auto h-8 w-20 text-right"
+                          type="number"
+                          min={line.previous_percent}
+                          max="100"
+                          step="0.1"
+                          defaultValue={line.percent_complete}
+                          disabled={busy}
+                          onBlur={(e) => handlePercent(selected, line, e.target.value)}
+                        />
+                      ) : `${line.percent_complete}%`}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(line.value_to_date, currency)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(line.this_period, currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="ml-auto max-w-sm space-y-1 text-sm">
+              <div className="flex justify-between"><span>Revised contract sum</span><span>{formatMoney(selected.valuation.revised_contract_sum, currency)}</span></div>
+              <div className="flex justify-between"><span>Gross to date ({selected.valuation.percent_complete}%)</span><span>{formatMoney(selected.valuation.gross_to_date, currency)}</span></div>
+              <div className="flex justify-between"><span>Retention held at {selected.valuation.retention_rate}%</span><span>−{formatMoney(selected.valuation.retention_held, currency)}</span></div>
+              <div className="flex items-center justify-between">
+                <span>Retention released</span>
+                {editable ? (
+                  <Input
+                    key={selected.retention_released}
+                    className="h-8 w-28 text-right"
+                    type="number"
+                    min="0"
+                    max={selected.valuation.retention_releasable}
+                    step="0.01"
+                    defaultValue={selected.retention_released}
+                    disabled={busy}
+                    onBlur={(e) => handleReleased(selected, e.target.value)}
+                  />
+                ) : <span>{formatMoney(Number(selected.retention_released), currency)}</span>}
+              </div>
+              <div className="flex justify-between"><span>Previously certified</span><span>−{formatMoney(selected.valuation.previous_certified, currency)}</span></div>
+              <div className="flex justify-between border-t pt-1 font-semibold"><span>Amount due</span><span>{formatMoney(selected.valuation.amount_due, currency)}</span></div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ConflictChoice, FieldConflict } from "@/lib/merge";
+
+interface ConflictDialogProps {
+  entity: 'project' | 'material';
+  // Null closes the dialog
+  conflicts: FieldConflict[] | null;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onDiscard: () => void;
+}
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
+const fieldLabel = (field: string) =>
+  field.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+export default function ConflictDialog({ entity, conflicts, onResolve, onDiscard }: ConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    if (conflicts) {
+      setChoices(Object.fromEntries(conflicts.map(c => [c.field, 'mine' as ConflictChoice])));
+    }
+  }, [conflicts]);
+
+  return (
+    <Dialog open={!!conflicts} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>This {entity} was changed while you were editing</DialogTitle>
+          <DialogDescription>
+            Changes to other fields are kept. Choose which value to keep where you both changed the same field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Yours</TableHead>
+              <TableHead>Theirs</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {conflicts?.map(conflict => (
+              <TableRow key={conflict.field}>
+                <TableCell className="font-medium">{fieldLabel(conflict.field)}</TableCell>
+                <TableCell colSpan={2}>
+                  <RadioGroup
+                    className="grid grid-cols-2 gap-4"
+                    value={choices[conflict.field] ?? 'mine'}
+                    onValueChange={(value) => setChoices({ ...choices, [conflict.field]: value as ConflictChoice })}
+                  >
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="mine" id={`${conflict.field}-mine`} />
+                      <Label htmlFor={`${conflict.field}-mine`}>{formatValue(conflict.mine)}</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="theirs" id={`${conflict.field}-theirs`} />
+                      <Label htmlFor={`${conflict.field}-theirs`}>{formatValue(conflict.theirs)}</Label>
+                    </div>
+                  </RadioGroup>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDiscard}>
+            Discard my changes
+          </Button>
+          <Button onClick={() => onResolve(choices)}>
+            Save merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+export interface CostFigures {
+  budget: number;
+  committed: number;
+  actual_materials: number;
+  actual_subcontracts: number;
+  actual_labour: number;
+  actual: number;
+  open_commitments: number;
+  cost_to_complete: number;
+  forecast_final_cost: number;
+  variance: number;
+  percent_spent: number | null;
+}
+
+export interface CostReportLine extends CostFigures {
+  cost_code_id: number | null;
+  code: string | null;
+  name: string;
+}
+
+export interface CostReport {
+  lines: CostReportLine[];
+  uncoded: CostReportLine | null;
+  totals: CostFigures;
+  missing_rates: string[];
+}
+
+interface Subcontract {
+  id: number;
+  cost_code_id: number;
+  contractor: string;
+  description: string | null;
+  contract_value: number;
+  invoiced_to_date: number;
+  status: 'awarded' | 'complete' | 'cancelled';
+}
+
+interface CostControlPanelProps {
+  projectId: number;
+  report: CostReport | null;
+  canManage: boolean;
+  currency: string;
+  // Called after anything that changes the report
+  onChange: () => void;
+}
+
+const statusVariant: Record<Subcontract['status'], 'default' | 'secondary' | 'outline'> = {
+  awarded: 'default',
+  complete: 'secondary',
+  cancelled: 'outline',
+};
+
+export const formatMoney = (value: number, currency = 'GBP') =>
+  value.toLocaleString(undefined, { style: 'currency', currency, minimumFractionDigits: 0, maximumFractionDigits: 2 });
+
+const emptySubcontract = { cost_code_id: '', contractor: '', contract_value: '' };
+
+export default function CostControlPanel({ projectId, report, canManage, currency, onChange }: CostControlPanelProps) {
+  const { token } = useAuth();
+  const [subcontracts, setSubcontracts] = useState<Subcontract[]>([]);
+  const [newSubcontract, setNewSubcontract] = useState(emptySubcontract);
+  const [busy, setBusy] = useState(false);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+
+  useEffect(() => {
+    fetchSubcontracts();
+  }, [projectId]);
+
+  const fetchSubcontracts = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/subcontracts`, { headers: authHeaders });
+      if (response.ok) {
+        setSubcontracts((await response.json()).subcontracts);
+      }
+    } catch (error) {
+      toast.error('Error fetching subcontracts');
+    }
+  };
+
+  const sendRequest = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        toast.error(error.message || error.errors?.[0]?.message || 'Request failed');
+        return false;
+      }
+      await fetchSubcontracts();
+      onChange();
+      return true;
+    } catch (error) {
+      toast.error('Request failed');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleBudget = (line: CostReportLine, value: string) => {
+    const budget = Number(value);
+    if (line.cost_code_id === null || value === '' || isNaN(budget) || budget === line.budget) return;
+    sendRequest(`/api/projects/${projectId}/cost-codes/${line.cost_code_id}`, 'PUT', { budget });
+  };
+
+  const handleInvoiced = (subcontract: Subcontract) => {
+    const value = prompt(`Invoiced to date for ${subcontract.contractor}`, String(subcontract.invoiced_to_date));
+    if (value === null || value === '' || isNaN(Number(value))) return;
+    sendRequest(`/api/projects/${projectId}/subcontracts/${subcontract.id}`, 'PUT', { invoiced_to_date: Number(value) });
+  };
+
+  const handleStatus = (subcontract: Subcontract, status: Subcontract['status']) =>
+    sendRequest(`/api/projects/${projectId}/subcontracts/${subcontract.id}`, 'PUT', { status });
+
+  const handleDelete = (subcontract: Subcontract) => {
+    if (!confirm(`Delete the subcontract with ${subcontract.contractor}?`)) return;
+    sendRequest(`/api/projects/${projectId}/subcontracts/${subcontract.id}`, 'DELETE');
+  };
+
+  const handleAddSubcontract = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await sendRequest(`/api/projects/${projectId}/subcontracts`, 'POST', {
+      cost_code_id: Number(newSubcontract.cost_code_id),
+      contractor: newSubcontract.contractor,
+      contract_value: Number(newSubcontract.contract_value) || 0,
+    })) {
+      setNewSubcontract(emptySubcontract);
+    }
+  };
+
+  if (!report) {
+    return <p className="text-sm text-muted-foreground">Loading cost report…</p>;
+  }
+
+  const codes = report.lines.filter(line => line.cost_code_id !== null);
+  const codeOf = (id: number) => codes.find(line => line.cost_code_id === id)?.code ?? '—';
+  const rows = report.uncoded ? [...report.lines, report.uncoded] : report.lines;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-3 sm:grid-cols-4 text-sm">
+        <div className="rounded-lg border p-3"><div className="text-lg font-semibold">{formatMoney(report.totals.budget, currency)}</div><div className="text-muted-foreground">Budget</div></div>
+        <div className="rounded-lg border p-3"><div className="text-lg font-semibold">{formatMoney(report.totals.committed, currency)}</div><div className="text-muted-foreground">Committed</div></div>
+        <div className="rounded-lg border p-3"><div className="text-lg font-semibold">{formatMoney(report.totals.actual, currency)}</div><div className="text-muted-foreground">Actual cost</div></div>
+        <div className="rounded-lg border p-3">
+          <div className={`text-lg font-semibold ${report.totals.variance < 0 ? 'text-destructive' : 'text-emerald-600'}`}>{formatMoney(report.totals.variance, currency)}</div>
+          <div className="text-muted-foreground">Forecast variance</div>
+        </div>
+      </div>
+      {report.missing_rates.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Excludes {report.missing_rates.join(', ')} materials with no rate to {currency}
+        </p>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Add cost codes under Time & Labor to build the cost breakdown.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead className="text-right">Budget</TableHead>
+              <TableHead className="text-right">Committed</TableHead>
+              <TableHead className="text-right">Materials</TableHead>
+              <TableHead className="text-right">Subcontracts</TableHead>
+              <TableHead className="text-right">Labour</TableHead>
+              <TableHead className="text-right">Cost to complete</TableHead>
+              <TableHead className="text-right">Forecast</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(line => (
+              <TableRow key={line.cost_code_id ?? 'uncoded'}>
+                <TableCell>
+                  {line.code ? <><span className="font-medium">{line.code}</span> · {line.name}</> : <span className="text-muted-foreground">{line.name}</span>}
+                </TableCell>
+                <TableCell className="text-right">
+                  {canManage && line.cost_code_id !== null ? (
+                    <Input
+                      key={line.budget}
+                      className="ml-auto h-8 w-28 text-right"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      defaultValue={line.budget}
+                      disabled={busy}
+                      onBlur={(e) => handleBudget(line, e.target.value)}
+                    />
+                  ) : formatMoney(line.budget, currency)}
+                </TableCell>
+                <TableCell className="text-right">{formatMoney(line.committed, currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(line.actual_materials, currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(line.actual_subcontracts, currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(line.actual_labour, currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(line.cost_to_complete, currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(line.forecast_final_cost, currency)}</TableCell>
+                <TableCell className={`text-right ${line.variance < 0 ? 'text-destructive' : ''}`}>{formatMoney(line.variance, currency)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total</TableCell>
+              <TableCell className="text-right">{formatMoney(report.totals.budget, currency)}</TableCell>
+              <TableCell className="text-right">{formatMoney(report.totals.committed, currency)}</TableCell>
+              <TableCell className="text-right">{formatMoney(report.totals.actual_materials, currency)}</TableCell>
+              <TableCell className="text-right">{formatMoney(report.totals.actual_subcontracts, currency)}</TableCell>
+              <TableCell className="text-right">{formatMoney(report.totals.actual_labour, currency)}</TableCell>
+              <TableCell className="text-right">{formatMoney(report.totals.cost_to_complete, currency)}</TableCell>
+              <TableCell className="text-right">{formatMoney(report.totals.forecast_final_cost, currency)}</TableCell>
+              <TableCell className={`text-right ${report.totals.variance < 0 ? 'text-destructive' : ''}`}>{formatMoney(report.totals.variance, currency)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Subcontracts</h3>
+        {subcontracts.length === 0 && <p className="text-sm text-muted-foreground">No subcontracts let yet.</p>}
+        {subcontracts.map(subcontract => (
+          <div key={subcontract.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-2 text-sm">
+            <span>
+              <span className="font-medium">{subcontract.contractor}</span> · {codeOf(subcontract.cost_code_id)} · {formatMoney(subcontract.contract_value, currency)}
+              <span className="text-muted-foreground"> · {formatMoney(subcontract.invoiced_to_date, currency)} invoiced</span>
+            </span>
+            <span className="flex items-center gap-2">
+              {canManage ? (
+                <>
+                  <Button size="sm" variant="outline" disabled={busy} onClick={() => handleInvoiced(subcontract)}>Invoiced…</Button>
+                  <Select value={subcontract.status} onValueChange={(v) => handleStatus(subcontract, v as Subcontract['status'])}>
+                    <SelectTrigger className="h-8 w-32"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="awarded">Awarded</SelectItem>
+                      <SelectItem value="complete">Complete</SelectItem>
+                      <SelectItem value="cancelled">Cancelled</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button size="icon" variant="ghost" disabled={busy} title="Delete" onClick={() => handleDelete(subcontract)}><Trash2 className="h-4 w-4" /></Button>
+                </>
+              ) : (
+                <Badge variant={statusVariant[subcontract.status]}>{subcontract.status}</Badge>
+              )}
+            </span>
+          </div>
+        ))}
+        {canManage && codes.length > 0 && (
+          <form onSubmit={handleAddSubcontract} className="flex flex-wrap gap-2">
+            <Select value={newSubcontract.cost_code_id} onValueChange={(v) => setNewSubcontract({ ...newSubcontract, cost_code_id: v })}>
+              <SelectTrigger className="w-48"><SelectValue placeholder="Cost code" /></SelectTrigger>
+              <SelectContent>
+                {codes.map(line => (<SelectItem key={line.cost_code_id} value={String(line.cost_code_id)}>{line.code} · {line.name}</SelectItem>))}
+              </SelectContent>
+            </Select>
+            <Input className="flex-1" placeholder="Contractor" value={newSubcontract.contractor} onChange={(e) => setNewSubcontract({ ...newSubcontract, contractor: e.target.value })} required />
+            <Input className="w-36" type="number" min="0" step="0.01" placeholder="Contract value" value={newSubcontract.contract_value} onChange={(e) => setNewSubcontract({ ...newSubcontract, contract_value: e.target.value })} required />
+            <Button type="submit" size="sm" disabled={busy || !newSubcontract.cost_code_id}><Plus className="mr-2 h-4 w-4" /> Add</Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { useUserData } from "@/hooks/use-user-data";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface ExchangeRate {
+  id: number;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+interface CurrencySettingsProps {
+  // Admins and managers maintain the company's rate table
+  canManage: boolean;
+}
+
+const emptyRate = { base_currency: 'GBP', quote_currency: 'EUR', rate: '', effective_date: new Date().toISOString().split('T')[0] };
+
+export default function CurrencySettings({ canManage }: CurrencySettingsProps) {
+  const { token } = useAuth();
+  const { preferences, getUserPreferences, updateUserPreferences } = useUserData();
+  const [currencies, setCurrencies] = useState<string[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [newRate, setNewRate] = useState(emptyRate);
+  const [busy, setBusy] = useState(false);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+
+  useEffect(() => {
+    fetchRates();
+    getUserPreferences().catch(() => toast.error('Error fetching preferences'));
+  }, []);
+
+  const fetchRates = async () => {
+    try {
+      const response = await fetch('/api/exchange-rates', { headers: authHeaders });
+      if (response.ok) {
+        const data = await response.json();
+        setRates(data.rates);
+        setCurrencies(data.currencies);
+      }
+    } catch (error) {
+      toast.error('Error fetching exchange rates');
+    }
+  };
+
+  const handleReportingCurrency = async (reportingCurrency: string) => {
+    try {
+      await updateUserPreferences({ reportingCurrency });
+      toast.success(`Analytics will be reported in ${reportingCurrency}`);
+    } catch (error) {
+      toast.error('Failed to update reporting currency');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const response = await fetch('/api/exchange-rates', {
+        method: 'POST',
+        headers: authHeaders,
+        body: JSON.stringify({ ...newRate, rate: Number(newRate.rate) }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.errors?.[0]?.message || 'Failed to add exchange rate');
+        return;
+      }
+      setNewRate({ ...newRate, rate: '' });
+      await fetchRates();
+    } catch (error) {
+      toast.error('Failed to add exchange rate');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.base_currency}/${rate.quote_currency} rate from ${rate.effective_date.split('T')[0]}?`)) return;
+    try {
+      const response = await fetch(`/api/exchange-rates/${rate.id}`, { method: 'DELETE', headers: authHeaders });
+      if (!response.ok) {
+        toast.error('Failed to delete exchange rate');
+        return;
+      }
+      setRates(rates.filter(r => r.id !== rate.id));
+    } catch (error) {
+      toast.error('Failed to delete exchange rate');
+    }
+  };
+
+  const currencySelect = (value: string, onChange: (value: string) => void, className = 'w-24') => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={className}><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {currencies.map(c => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Reporting currency</Label>
+        {preferences && currencies.length > 0 && currencySelect(preferences.reportingCurrency, handleReportingCurrency, 'w-32')}
+        <p className="text-xs text-muted-foreground">
+          Portfolio analytics convert each project's budget and costs into this currency at the rates below.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Exchange rates</Label>
+        {rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No exchange rates recorded.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pair</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead>From</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map(rate => (
+                <TableRow key={rate.id}>
+                  <TableCell>1 {rate.base_currency} = {rate.quote_currency}</TableCell>
+                  <TableCell className="text-right">{Number(rate.rate)}</TableCell>
+                  <TableCell>{rate.effective_date.split('T')[0]}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button size="icon" variant="ghost" title="Delete" onClick={() => handleDelete(rate)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {canManage && currencies.length > 0 && (
+        <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2">
+          {currencySelect(newRate.base_currency, v => setNewRate({ ...newRate, base_currency: v }))}
+          {currencySelect(newRate.quote_currency, v => setNewRate({ ...newRate, quote_currency: v }))}
+          <Input className="w-32" type="number" step="any" min="0" placeholder="Rate" value={newRate.rate} onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })} required />
+          <Input className="w-40" type="date" value={newRate.effective_date} onChange={(e) => setNewRate({ ...newRate, effective_date: e.target.value })} required />
+          <Button type="submit" size="sm" disabled={busy}><Plus className="mr-2 h-4 w-4" /> Add rate</Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+interface RowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+interface ImportPreview {
+  headers: string[];
+  fields: ImportField[];
+  mapping: Record<string, number | null>;
+  mapping_errors: string[];
+  total_rows: number;
+  valid_rows: number;
+  errors: RowError[];
+  preview: { row: number; data: Record<string, unknown>; errors: RowError[] }[];
+}
+
+interface ImportDialogProps {
+  // Projects are imported company-wide, materials into one project
+  entity: 'projects' | 'materials';
+  projectId?: number;
+  projectName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const NOT_MAPPED = 'none';
+
+export default function ImportDialog({ entity, projectId, projectName, open, onOpenChange, onImported }: ImportDialogProps) {
+  const { token } = useAuth();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, number | null> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const basePath = entity === 'projects' ? '/api/import/projects' : `/api/projects/${projectId}/import/materials`;
+
+  useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setPreview(null);
+      setMapping(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (file) {
+      fetchPreview(file, mapping);
+    }
+  }, [file, mapping]);
+
+  const formData = (selected: File, selectedMapping: Record<string, number | null> | null) => {
+    const data = new FormData();
+    data.append('file', selected);
+    if (selectedMapping) {
+      data.append('mapping', JSON.stringify(selectedMapping));
+    }
+    return data;
+  };
+
+  const fetchPreview = async (selected: File, selectedMapping: Record<string, number | null> | null) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`${basePath}/preview`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData(selected, selectedMapping),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setPreview(data);
+      } else {
+        setPreview(null);
+        toast.error(data.message || 'Failed to read the file');
+      }
+    } catch (error) {
+      toast.error('Error reading the file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMappingChange = (field: string, value: string) => {
+    if (!preview) return;
+    setMapping({ ...preview.mapping, [field]: value === NOT_MAPPED ? null : parseInt(value) });
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+
+    setImporting(true);
+    try {
+      const response = await fetch(basePath, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+        body: formData(file, preview.mapping),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        toast.success(`Imported ${data.imported} ${entity}`);
+        onImported();
+        onOpenChange(false);
+      } else {
+        toast.error(data.message || 'Import failed');
+      }
+    } catch (error) {
+      toast.error('Error importing');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const canImport = !!preview && preview.mapping_errors.length === 0 && preview.errors.length === 0 && preview.total_rows > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>{entity === 'projects' ? 'Import projects' : `Import materials into ${projectName}`}</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with a header row. Nothing is saved unless every row is valid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => {
+                setMapping(null);
+                setFile(e.target.files?.[0] ?? null);
+              }}
+            />
+          </div>
+
+          {loading && !preview && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {preview.fields.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label>
+                      {field.label}
+                      {field.required && ' *'}
+                    </Label>
+                    <Select
+                      value={preview.mapping[field.key] === null || preview.mapping[field.key] === undefined ? NOT_MAPPED : String(preview.mapping[field.key])}
+                      onValueChange={(value) => handleMappingChange(field.key, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                        {preview.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {preview.mapping_errors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5">
+                  {preview.mapping_errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="secondary">{preview.total_rows} rows</Badge>
+                <Badge variant={preview.errors.length > 0 ? 'destructive' : 'secondary'}>
+                  {preview.total_rows - preview.valid_rows} with errors
+                </Badge>
+                {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    {preview.fields.map(field => <TableHead key={field.key}>{field.label}</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.preview.map(row => (
+                    <TableRow key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : undefined}>
+                      <TableCell>{row.row}</TableCell>
+                      {preview.fields.map(field => {
+                        const error = row.errors.find(e => e.field === field.key || (field.key === 'supplier' && e.field === 'supplier_id'));
+                        const value = field.key === 'supplier' ? row.data.supplier_id ?? row.data.supplier : row.data[field.key];
+                        return (
+                          <TableCell key={field.key} title={error?.message}>
+                            {value !== undefined ? String(value) : ''}
+                            {error && <div className="text-xs text-red-600">{error.message}</div>}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {preview.errors.length > preview.preview.reduce((count, row) => count + row.errors.length, 0) && (
+                <div className="space-y-1 text-sm">
+                  <div className="font-medium">All errors</div>
+                  <ul className="text-red-600 list-disc pl-5">
+                    {preview.errors.map((error, index) => (
+                      <li key={index}>Row {error.row}, {error.field}: {error.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport || importing || loading}>
+            {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import {preview ? preview.total_rows : ''} {entity}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
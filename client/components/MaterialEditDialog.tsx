@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useVersionedSave, type Material } from "@/hooks/use-projects";
+
+interface MaterialEditDialogProps {
+  // Null closes the dialog
+  material: Material | null;
+  onClose: () => void;
+  onSaved: (material: Material) => void;
+}
+
+interface MaterialForm {
+  name: string;
+  total_required: number;
+  cost: number;
+}
+
+const materialForm = (material: Material): MaterialForm => ({
+  name: material.name,
+  total_required: Number(material.total_required),
+  cost: Number(material.cost),
+});
+
+export default function MaterialEditDialog({ material, onClose, onSaved }: MaterialEditDialogProps) {
+  const { saveMaterial, conflictDialog } = useVersionedSave();
+  const [form, setForm] = useState<MaterialForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(material && materialForm(material));
+  }, [material]);
+
+  // Only the fields edited here are sent, so someone else's edits to the rest survive a merge
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!material || !form) return;
+
+    const opened = materialForm(material);
+    const changes = Object.fromEntries(
+      Object.entries(form).filter(([field, value]) => value !== opened[field as keyof MaterialForm])
+    );
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      onSaved(await saveMaterial(material.id, changes, material));
+      toast.success('Material updated');
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update material');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={!!material} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Edit material</DialogTitle>
+            <DialogDescription>
+              Stock levels come from deliveries and usage, not from here.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <form onSubmit={handleSubmit}>
+              <div className="grid gap-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="material-name">Name</Label>
+                  <Input
+                    id="material-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="material-required">Total required</Label>
+                  <Input
+                    id="material-required"
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={form.total_required}
+                    onChange={(e) => setForm({ ...form, total_required: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="material-cost">Unit cost</Label>
+                  <Input
+                    id="material-cost"
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={form.cost}
+                    onChange={(e) => setForm({ ...form, cost: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={saving}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {conflictDialog}
+    </>
+  );
+}
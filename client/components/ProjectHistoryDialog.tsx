@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface AuditEntry {
+  id: number;
+  entity_type: 'project' | 'material';
+  entity_id: string;
+  action: 'create' | 'update' | 'delete';
+  field: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  request_id: string | null;
+  created_at: string;
+  actor: { id: string; name: string; email: string } | null;
+}
+
+// Entries written by one request are shown as a single change
+interface HistoryItem {
+  key: string;
+  entries: AuditEntry[];
+}
+
+interface ProjectHistoryDialogProps {
+  projectId: number;
+  projectName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const actionLabels = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const groupEntries = (entries: AuditEntry[]): HistoryItem[] => {
+  const items: HistoryItem[] = [];
+  for (const entry of entries) {
+    const key = `${entry.request_id ?? entry.id}-${entry.entity_type}-${entry.entity_id}`;
+    const last = items[items.length - 1];
+    if (last && last.key === key) {
+      last.entries.push(entry);
+    } else {
+      items.push({ key, entries: [entry] });
+    }
+  }
+  return items;
+};
+
+export default function ProjectHistoryDialog({ projectId, projectName, open, onOpenChange }: ProjectHistoryDialogProps) {
+  const { token } = useAuth();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextBefore, setNextBefore] = useState<number | null>(null);
+  const [entityType, setEntityType] = useState('all');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchHistory();
+    }
+  }, [open, entityType]);
+
+  const fetchHistory = async (before?: number) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (entityType !== 'all') params.set('entity_type', entityType);
+      if (before) params.set('before', String(before));
+
+      const response = await fetch(`/api/projects/${projectId}/history?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(prev => before ? [...prev, ...data.entries] : data.entries);
+        setNextBefore(data.next_before);
+      } else {
+        toast.error('Failed to load history');
+      }
+    } catch (error) {
+      toast.error('Error loading history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderItem = ({ key, entries: changes }: HistoryItem) => {
+    const first = changes[0];
+    const subject = first.entity_type === 'project' ? 'Project' : `Material #${first.entity_id}`;
+    const fieldChanges = changes.filter(change => change.field);
+
+    return (
+      <div key={key} className="relative border-l-2 border-muted pl-4 pb-4">
+        <div className="absolute -left-[5px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium">{first.actor?.name ?? 'Unknown user'}</span>
+          <span className="text-muted-foreground">{actionLabels[first.action]}</span>
+          <Badge variant="outline">{subject}</Badge>
+        </div>
+        <div className="text-xs text-muted-foreground">{new Date(first.created_at).toLocaleString()}</div>
+        {fieldChanges.length > 0 && (
+          <ul className="mt-1 space-y-0.5 text-xs">
+            {fieldChanges.map(change => (
+              <li key={change.id}>
+                <span className="font-mono">{change.field}</span>:{' '}
+                {first.action === 'create' ? (
+                  formatValue(change.new_value)
+                ) : (
+                  <>
+                    <span className="line-through text-muted-foreground">{formatValue(change.old_value)}</span>
+                    {' → '}
+                    {formatValue(change.new_value)}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>History</DialogTitle>
+          <DialogDescription>
+            Changes to {projectName} and its materials, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={entityType} onValueChange={setEntityType}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All changes</SelectItem>
+            <SelectItem value="project">Project</SelectItem>
+            <SelectItem value="material">Materials</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {loading && entries.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No changes recorded yet.</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto pl-1">
+            {groupEntries(entries).map(renderItem)}
+            {nextBefore && (
+              <Button variant="outline" size="sm" disabled={loading} onClick={() => fetchHistory(nextBefore)}>
+                {loading && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                Load more
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+
+export type ProjectRole = 'owner' | 'manager' | 'editor' | 'viewer';
+
+interface ProjectMember {
+  id: number;
+  project_id: number;
+  user_id: string;
+  role: ProjectRole;
+  created_at: string;
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    avatar?: string | null;
+  } | null;
+}
+
+interface ProjectMembersDialogProps {
+  projectId: number;
+  projectName: string;
+  currentRole?: ProjectRole;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ProjectMembersDialog({ projectId, projectName, currentRole, open, onOpenChange }: ProjectMembersDialogProps) {
+  const { token, user } = useAuth();
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Exclude<ProjectRole, 'owner'>>("viewer");
+  const [inviting, setInviting] = useState(false);
+
+  const canManage = currentRole === 'owner' || currentRole === 'manager';
+
+  useEffect(() => {
+    if (open) {
+      fetchMembers();
+    }
+  }, [open, projectId]);
+
+  const fetchMembers = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setMembers(data.members || []);
+      } else {
+        toast.error('Failed to fetch project members');
+      }
+    } catch (error) {
+      toast.error('Error fetching project members');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+
+      if (response.ok) {
+        toast.success(`${inviteEmail} added to ${projectName}`);
+        setInviteEmail("");
+        fetchMembers();
+      } else {
+        const error = await response.json();
+        toast.error(error.message || 'Failed to add member');
+      }
+    } catch (error) {
+      toast.error('Error adding member');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, role: ProjectRole) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members/${memberId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ role }),
+      });
+
+      if (response.ok) {
+        fetchMembers();
+      } else {
+        const error = await response.json();
+        toast.error(error.message || 'Failed to change role');
+      }
+    } catch (error) {
+      toast.error('Error changing role');
+    }
+  };
+
+  const handleRemove = async (member: ProjectMember) => {
+    const isSelf = member.user_id === user?.id;
+    if (!confirm(isSelf ? `Leave ${projectName}?` : `Remove ${member.user?.name || 'this member'} from ${projectName}?`)) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members/${member.user_id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        if (isSelf) {
+          onOpenChange(false);
+        } else {
+          fetchMembers();
+        }
+      } else {
+        const error = await response.json();
+        toast.error(error.message || 'Failed to remove member');
+      }
+    } catch (error) {
+      toast.error('Error removing member');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Project Team</DialogTitle>
+          <DialogDescription>
+            People who can access {projectName}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {canManage && (
+          <form onSubmit={handleInvite} className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="invite-email">Invite by email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="colleague@example.com"
+                required
+              />
+            </div>
+            <Select value={inviteRole} onValueChange={(value: Exclude<ProjectRole, 'owner'>) => setInviteRole(value)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="viewer">Viewer</SelectItem>
+                <SelectItem value="editor">Editor</SelectItem>
+                {currentRole === 'owner' && <SelectItem value="manager">Manager</SelectItem>}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={inviting}>
+              {inviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {members.map((member) => {
+              const isSelf = member.user_id === user?.id;
+              const canEditMember = member.role !== 'owner' &&
+                (currentRole === 'owner' || (currentRole === 'manager' && member.role !== 'manager'));
+
+              return (
+                <div key={member.user_id} className="flex items-center justify-between gap-3 rounded-md border p-2">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">
+                      {member.user?.name || 'Unknown user'}{isSelf && ' (you)'}
+                    </div>
+                    <div className="text-sm text-muted-foreground truncate">{member.user?.email}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {canEditMember ? (
+                      <Select value={member.role} onValueChange={(value: ProjectRole) => handleRoleChange(member.user_id, value)}>
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                          <SelectItem value="editor">Editor</SelectItem>
+                          {currentRole === 'owner' && <SelectItem value="manager">Manager</SelectItem>}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{member.role}</Badge>
+                    )}
+                    {member.role !== 'owner' && (canEditMember || isSelf) && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(member)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { FileText, FolderKanban, Loader2, MessageSquare, Package, Search } from "lucide-react";
+import { toast } from "sonner";
+
+type SearchEntityType = 'project' | 'material' | 'file' | 'comment';
+
+interface SearchResult {
+  type: SearchEntityType;
+  id: number | string;
+  project_id: number | null;
+  title: string;
+  subtitle: string | null;
+  highlight: { text: string; match: boolean }[];
+}
+
+const GROUPS: { type: SearchEntityType; heading: string; icon: typeof Search }[] = [
+  { type: 'project', heading: 'Projects', icon: FolderKanban },
+  { type: 'material', heading: 'Materials', icon: Package },
+  { type: 'file', heading: 'Files', icon: FileText },
+  { type: 'comment', heading: 'RFI comments', icon: MessageSquare },
+];
+
+export default function SearchCommand() {
+  const { token } = useAuth();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Ctrl+K or Cmd+K opens the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(value => !value);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery('');
+      setResults([]);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/search?${new URLSearchParams({ q: query.trim() })}`, {
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+        });
+        if (response.ok && !cancelled) {
+          const data = await response.json();
+          setResults(data.results);
+        }
+      } catch (error) {
+        console.error('Error searching:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const downloadFile = async (result: SearchResult) => {
+    try {
+      const response = await fetch(`/api/files/${result.id}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+      if (!response.ok) {
+        toast.error('Failed to download file');
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.title;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Error downloading file');
+    }
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+    if (result.type === 'file') {
+      downloadFile(result);
+      return;
+    }
+    // Everything else lives on a project card
+    const projectName = result.type === 'project' ? result.title : result.subtitle;
+    navigate(projectName ? `/projects?${new URLSearchParams({ q: projectName })}` : '/projects');
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 gap-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden lg:inline">Search…</span>
+        <kbd className="hidden lg:inline rounded border bg-muted px-1.5 text-[10px] font-medium">Ctrl K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          {/* Results are ranked by the server, so cmdk mustn't filter them again */}
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+            <CommandInput
+              placeholder="Search projects, materials, files and comments…"
+              value={query}
+              onValueChange={setQuery}
+            />
+            <CommandList>
+              {loading && results.length === 0 && (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                </div>
+              )}
+              {!loading && query.trim() && <CommandEmpty>No results found.</CommandEmpty>}
+              {GROUPS.map(({ type, heading, icon: Icon }) => {
+                const items = results.filter(result => result.type === type);
+                if (items.length === 0) return null;
+                return (
+                  <CommandGroup key={type} heading={heading}>
+                    {items.map(result => (
+                      <CommandItem
+                        key={`${result.type}:${result.id}`}
+                        value={`${result.type}:${result.id}`}
+                        onSelect={() => handleSelect(result)}
+                        className="items-start gap-2"
+                      >
+                        <Icon className="mt-0.5 h-4 w-4 shrink-0" />
+                        <div className="min-w-0 space-y-0.5">
+                          <div className="truncate font-medium">
+                            {result.title}
+                            {result.subtitle && <span className="ml-2 text-xs text-muted-foreground">{result.subtitle}</span>}
+                          </div>
+                          <div className="line-clamp-2 text-xs text-muted-foreground">
+                            {result.highlight.map((segment, index) => segment.match
+                              ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground">{segment.text}</mark>
+                              : <span key={index}>{segment.text}</span>)}
+                          </div>
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,362 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check, ChevronLeft, ChevronRight, Coffee, Download, Loader2, LogIn, LogOut, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface CostCode {
+  id: number;
+  code: string;
+  name: string;
+  labour_rate: number;
+  approved_hours: number;
+  approved_cost: number;
+}
+
+interface TimeEntry {
+  id: number;
+  project_id: number;
+  user_id: string;
+  cost_code_id: number;
+  clock_in: string;
+  clock_out: string | null;
+  breaks: { start: string; end: string | null }[];
+  regular_hours: number;
+  overtime_hours: number;
+  cost: number;
+  status: 'open' | 'submitted' | 'approved' | 'rejected';
+  rejection_reason: string | null;
+}
+
+interface TimesheetSummary {
+  regularHours: number;
+  overtimeHours: number;
+  pendingApproval: number;
+  approvedCost: number;
+}
+
+interface Member {
+  user_id: string;
+  user: { name: string } | null;
+}
+
+interface TimesheetPanelProps {
+  projectId: number;
+  canClock: boolean;
+  canApprove: boolean;
+}
+
+const statusVariant: Record<TimeEntry['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  open: 'outline',
+  submitted: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+const toDate = (value: Date) => value.toISOString().split('T')[0];
+
+// Monday of the week, matching the server's timesheet weeks
+const mondayOf = (value: Date) => {
+  const day = new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  return day;
+};
+
+const formatTime = (value: string) => new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Location is optional; a denied or slow prompt shouldn't block clocking
+const currentPosition = () => new Promise<{ latitude?: number; longitude?: number }>(resolve => {
+  if (!navigator.geolocation) return resolve({});
+  navigator.geolocation.getCurrentPosition(
+    position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+    () => resolve({}),
+    { timeout: 5000 }
+  );
+});
+
+export default function TimesheetPanel({ projectId, canClock, canApprove }: TimesheetPanelProps) {
+  const { token, user } = useAuth();
+  const [week, setWeek] = useState(() => mondayOf(new Date()));
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [summary, setSummary] = useState<TimesheetSummary | null>(null);
+  const [costCodes, setCostCodes] = useState<CostCode[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [current, setCurrent] = useState<TimeEntry | null>(null);
+  const [costCodeId, setCostCodeId] = useState<string>('');
+  const [newCode, setNewCode] = useState({ code: '', name: '', labour_rate: '' });
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+
+  useEffect(() => {
+    fetchTimesheet();
+  }, [projectId, week]);
+
+  const fetchTimesheet = async () => {
+    setLoading(true);
+    try {
+      const [timeResponse, codesResponse, membersResponse, currentResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}/time?week=${toDate(week)}`, { headers: authHeaders }),
+        fetch(`/api/projects/${projectId}/cost-codes`, { headers: authHeaders }),
+        fetch(`/api/projects/${projectId}/members`, { headers: authHeaders }),
+        fetch('/api/time/current', { headers: authHeaders }),
+      ]);
+      if (!timeResponse.ok || !codesResponse.ok) {
+        toast.error('Failed to fetch timesheet');
+        return;
+      }
+
+      const timeData = await timeResponse.json();
+      const codesData = await codesResponse.json();
+      setEntries(timeData.entries);
+      setSummary(timeData.summary);
+      setCostCodes(codesData.costCodes);
+      setCostCodeId(current => current || (codesData.costCodes[0] ? String(codesData.costCodes[0].id) : ''));
+      if (membersResponse.ok) setMembers((await membersResponse.json()).members);
+      if (currentResponse.ok) setCurrent((await currentResponse.json()).entry);
+    } catch (error) {
+      toast.error('Error fetching timesheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sendRequest = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        toast.error(error.message || error.errors?.[0]?.message || 'Request failed');
+        return false;
+      }
+      await fetchTimesheet();
+      return true;
+    } catch (error) {
+      toast.error('Request failed');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClockIn = async () => {
+    const position = await currentPosition();
+    if (await sendRequest(`/api/projects/${projectId}/time/clock-in`, 'POST', { cost_code_id: Number(costCodeId), ...position })) {
+      toast.success('Clocked in');
+    }
+  };
+
+  const handleClockOut = async () => {
+    const position = await currentPosition();
+    if (await sendRequest(`/api/projects/${projectId}/time/clock-out`, 'POST', position)) {
+      toast.success('Clocked out — time sent for approval');
+    }
+  };
+
+  const handleBreak = (onBreak: boolean) =>
+    sendRequest(`/api/projects/${projectId}/time/break/${onBreak ? 'end' : 'start'}`, 'POST');
+
+  const handleApprove = (entry: TimeEntry) =>
+    sendRequest(`/api/projects/${projectId}/time/${entry.id}/approve`, 'POST');
+
+  const handleReject = (entry: TimeEntry) => {
+    const reason = prompt('Reason for rejecting this time?');
+    if (!reason) return;
+    sendRequest(`/api/projects/${projectId}/time/${entry.id}/reject`, 'POST', { reason });
+  };
+
+  const handleAddCostCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await sendRequest(`/api/projects/${projectId}/cost-codes`, 'POST', {
+      code: newCode.code,
+      name: newCode.name,
+      labour_rate: Number(newCode.labour_rate) || 0,
+    })) {
+      setNewCode({ code: '', name: '', labour_rate: '' });
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/time/export?week=${toDate(week)}`, { headers: authHeaders });
+      if (!response.ok) {
+        toast.error('Export failed');
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `timesheet-${toDate(week)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error('Export failed');
+    }
+  };
+
+  const shiftWeek = (weeks: number) => {
+    const next = new Date(week);
+    next.setUTCDate(next.getUTCDate() + weeks * 7);
+    setWeek(next);
+  };
+
+  const nameOf = (userId: string) => members.find(m => m.user_id === userId)?.user?.name ?? userId;
+  const codeOf = (id: number) => costCodes.find(c => c.id === id)?.code ?? '—';
+
+  const today = toDate(new Date());
+  const hoursToday = Object.entries(entries
+    .filter(e => e.clock_out && toDate(new Date(e.clock_in)) === today && e.status !== 'rejected')
+    .reduce<Record<string, number>>((totals, e) => {
+      totals[e.user_id] = (totals[e.user_id] || 0) + e.regular_hours + e.overtime_hours;
+      return totals;
+    }, {}));
+
+  const clockedInHere = current?.project_id === projectId;
+  const onBreak = !!current?.breaks.some(b => !b.end);
+
+  if (loading && !summary) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {canClock && (
+        <div className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
+          {clockedInHere ? (
+            <>
+              <div className="flex-1 text-sm">
+                <div className="font-medium">Clocked in since {formatTime(current!.clock_in)} on {codeOf(current!.cost_code_id)}</div>
+                {onBreak && <div className="text-muted-foreground">On break</div>}
+              </div>
+              <Button size="sm" variant="outline" disabled={busy} onClick={() => handleBreak(onBreak)}>
+                <Coffee className="mr-2 h-4 w-4" /> {onBreak ? 'End break' : 'Start break'}
+              </Button>
+              <Button size="sm" disabled={busy} onClick={handleClockOut}><LogOut className="mr-2 h-4 w-4" /> Clock out</Button>
+            </>
+          ) : current ? (
+            <div className="text-sm text-muted-foreground">You are clocked in to another project. Clock out there first.</div>
+          ) : costCodes.length === 0 ? (
+            <div className="text-sm text-muted-foreground">Add a cost code before clocking in.</div>
+          ) : (
+            <>
+              <Select value={costCodeId} onValueChange={setCostCodeId}>
+                <SelectTrigger className="w-64"><SelectValue placeholder="Cost code" /></SelectTrigger>
+                <SelectContent>
+                  {costCodes.map(c => (<SelectItem key={c.id} value={String(c.id)}>{c.code} · {c.name}</SelectItem>))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" disabled={busy || !costCodeId} onClick={handleClockIn}><LogIn className="mr-2 h-4 w-4" /> Clock in</Button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button size="icon" variant="outline" onClick={() => shiftWeek(-1)}><ChevronLeft className="h-4 w-4" /></Button>
+          <span className="text-sm font-medium">Week of {toDate(week)}</span>
+          <Button size="icon" variant="outline" onClick={() => shiftWeek(1)}><ChevronRight className="h-4 w-4" /></Button>
+        </div>
+        <Button size="sm" variant="outline" onClick={handleExport}><Download className="mr-2 h-4 w-4" /> Export week</Button>
+      </div>
+
+      {summary && (
+        <div className="grid gap-3 sm:grid-cols-4 text-sm">
+          <div className="rounded-lg border p-3"><div className="text-lg font-semibold">{summary.regularHours}h</div><div className="text-muted-foreground">Regular</div></div>
+          <div className="rounded-lg border p-3"><div className="text-lg font-semibold">{summary.overtimeHours}h</div><div className="text-muted-foreground">Overtime</div></div>
+          <div className="rounded-lg border p-3"><div className="text-lg font-semibold">{summary.pendingApproval}</div><div className="text-muted-foreground">Awaiting approval</div></div>
+          <div className="rounded-lg border p-3"><div className="text-lg font-semibold">${summary.approvedCost.toLocaleString()}</div><div className="text-muted-foreground">Approved labour</div></div>
+        </div>
+      )}
+
+      {hoursToday.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {hoursToday.map(([userId, hours]) => (
+            <Badge key={userId} variant="secondary">{nameOf(userId)} · {Math.round(hours * 100) / 100}h today</Badge>
+          ))}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No time recorded this week.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Worker</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Shift</TableHead>
+              <TableHead>Code</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead>Status</TableHead>
+              {canApprove && <TableHead />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell>{nameOf(entry.user_id)}</TableCell>
+                <TableCell>{toDate(new Date(entry.clock_in))}</TableCell>
+                <TableCell>{formatTime(entry.clock_in)}–{entry.clock_out ? formatTime(entry.clock_out) : 'now'}</TableCell>
+                <TableCell>{codeOf(entry.cost_code_id)}</TableCell>
+                <TableCell className="text-right">
+                  {entry.regular_hours}{entry.overtime_hours > 0 && <span className="text-amber-600"> +{entry.overtime_hours} OT</span>}
+                </TableCell>
+                <TableCell className="text-right">${entry.cost.toLocaleString()}</TableCell>
+                <TableCell>
+                  <Badge variant={statusVariant[entry.status]} title={entry.rejection_reason ?? undefined}>{entry.status}</Badge>
+                </TableCell>
+                {canApprove && (
+                  <TableCell className="text-right">
+                    {entry.status === 'submitted' && entry.user_id !== user?.id && (
+                      <div className="flex justify-end gap-1">
+                        <Button size="icon" variant="ghost" disabled={busy} title="Approve" onClick={() => handleApprove(entry)}><Check className="h-4 w-4" /></Button>
+                        <Button size="icon" variant="ghost" disabled={busy} title="Reject" onClick={() => handleReject(entry)}><X className="h-4 w-4" /></Button>
+                      </div>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Cost codes</h3>
+        {costCodes.map(code => (
+          <div key={code.id} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+            <span><span className="font-medium">{code.code}</span> · {code.name} · ${code.labour_rate}/h</span>
+            <span className="text-muted-foreground">{code.approved_hours}h · ${code.approved_cost.toLocaleString()} approved</span>
+          </div>
+        ))}
+        {canApprove && (
+          <form onSubmit={handleAddCostCode} className="flex flex-wrap gap-2">
+            <Input className="w-28" placeholder="Code" value={newCode.code} onChange={(e) => setNewCode({ ...newCode, code: e.target.value })} required />
+            <Input className="flex-1" placeholder="Description" value={newCode.name} onChange={(e) => setNewCode({ ...newCode, name: e.target.value })} required />
+            <Input className="w-28" type="number" min="0" step="0.01" placeholder="Rate/h" value={newCode.labour_rate} onChange={(e) => setNewCode({ ...newCode, labour_rate: e.target.value })} />
+            <Button type="submit" size="sm" disabled={busy}><Plus className="mr-2 h-4 w-4" /> Add</Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface TrashedProject {
+  id: number;
+  name: string;
+  client?: string | null;
+  deleted_at: string;
+  purge_at: string;
+}
+
+interface TrashedMaterial {
+  id: number;
+  name: string;
+  project_id: number;
+  project_name: string;
+  deleted_at: string;
+  purge_at: string;
+}
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: () => void;
+}
+
+const daysLeft = (purgeAt: string) =>
+  Math.max(0, Math.ceil((new Date(purgeAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+export default function TrashDialog({ open, onOpenChange, onRestored }: TrashDialogProps) {
+  const { token, user } = useAuth();
+  const [projects, setProjects] = useState<TrashedProject[]>([]);
+  const [materials, setMaterials] = useState<TrashedMaterial[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (open) {
+      fetchTrash();
+    }
+  }, [open]);
+
+  const fetchTrash = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/trash', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setProjects(data.projects || []);
+        setMaterials(data.materials || []);
+        setRetentionDays(data.retention_days);
+      } else {
+        toast.error('Failed to load trash');
+      }
+    } catch (error) {
+      toast.error('Error loading trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (kind: 'projects' | 'materials', id: number) => {
+    try {
+      const response = await fetch(`/api/trash/${kind}/${id}/restore`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success(kind === 'projects' ? 'Project restored' : 'Material restored');
+        fetchTrash();
+        onRestored();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.message || 'Failed to restore');
+      }
+    } catch (error) {
+      toast.error('Error restoring');
+    }
+  };
+
+  const handlePurge = async (kind: 'projects' | 'materials', id: number, name: string) => {
+    if (!confirm(`Permanently delete "${name}"? This cannot be undone.`)) return;
+
+    try {
+      const response = await fetch(`/api/trash/${kind}/${id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success('Deleted permanently');
+        fetchTrash();
+      } else {
+        toast.error('Failed to delete');
+      }
+    } catch (error) {
+      toast.error('Error deleting');
+    }
+  };
+
+  const renderRow = (kind: 'projects' | 'materials', id: number, name: string, detail: string | null, purgeAt: string) => (
+    <div key={`${kind}-${id}`} className="flex items-center justify-between gap-2 rounded-md border p-2">
+      <div className="min-w-0">
+        <div className="font-medium truncate">{name}</div>
+        <div className="text-xs text-muted-foreground">
+          {detail && `${detail} • `}Deleted for good in {daysLeft(purgeAt)} days
+        </div>
+      </div>
+      <div className="flex gap-1">
+        <Button variant="outline" size="sm" onClick={() => handleRestore(kind, id)}>
+          <RotateCcw className="mr-1 h-3 w-3" />
+          Restore
+        </Button>
+        {isAdmin && (
+          <Button variant="ghost" size="sm" title="Delete permanently" onClick={() => handlePurge(kind, id, name)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted projects and materials are kept for {retentionDays} days before they are removed permanently.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : projects.length === 0 && materials.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">The trash is empty.</p>
+        ) : (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            {projects.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-semibold">
+                  Projects <Badge variant="secondary">{projects.length}</Badge>
+                </div>
+                {projects.map(p => renderRow('projects', p.id, p.name, p.client ?? null, p.purge_at))}
+              </div>
+            )}
+            {materials.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-semibold">
+                  Materials <Badge variant="secondary">{materials.length}</Badge>
+                </div>
+                {materials.map(m => renderRow('materials', m.id, m.name, m.project_name, m.purge_at))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
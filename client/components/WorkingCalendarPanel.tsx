@@ -0,0 +1,282 @@
+import { useState, useEffect, useRef } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Save, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+interface Shift {
+  name: string;
+  start: string;
+  end: string;
+}
+
+interface Closure {
+  id: number;
+  name: string;
+  kind: 'holiday' | 'shutdown';
+  start_date: string;
+  end_date: string;
+  uid: string | null;
+}
+
+interface WorkingHours {
+  start: string;
+  end: string;
+  days?: number[];
+}
+
+interface WorkingCalendarPanelProps {
+  projectId: number;
+  canEdit: boolean;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_DAYS = [1, 2, 3, 4, 5];
+
+const emptyClosure = { name: '', kind: 'holiday' as Closure['kind'], startDate: '', endDate: '' };
+
+const formatRange = (closure: Closure) => {
+  const start = closure.start_date.split('T')[0];
+  const end = closure.end_date.split('T')[0];
+  return start === end ? start : `${start} to ${end}`;
+};
+
+export default function WorkingCalendarPanel({ projectId, canEdit }: WorkingCalendarPanelProps) {
+  const { token } = useAuth();
+  const [workingHours, setWorkingHours] = useState<WorkingHours | null>(null);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [finishDate, setFinishDate] = useState<string | null>(null);
+  const [newClosure, setNewClosure] = useState(emptyClosure);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+  const base = `/api/projects/${projectId}`;
+  const days = workingHours?.days ?? DEFAULT_DAYS;
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [projectId]);
+
+  const fetchCalendar = async () => {
+    try {
+      const response = await fetch(`${base}/schedule`, { headers: authHeaders });
+      if (response.ok) {
+        const data = await response.json();
+        setWorkingHours(data.settings?.working_hours ?? null);
+        setShifts(data.settings?.shifts ?? []);
+        setClosures(data.closures);
+        setFinishDate(data.schedule.tasks.length > 0 ? data.schedule.finishDate : null);
+      }
+    } catch (error) {
+      toast.error('Error fetching working calendar');
+    }
+  };
+
+  const sendRequest = async (url: string, method: string, body?: unknown) => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: authHeaders,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || data.errors?.[0]?.message || 'Request failed');
+        return null;
+      }
+      await fetchCalendar();
+      return data;
+    } catch (error) {
+      toast.error('Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort();
+    setWorkingHours({ start: workingHours?.start ?? '08:00', end: workingHours?.end ?? '17:00', days: next });
+  };
+
+  const updateShift = (index: number, changes: Partial<Shift>) => {
+    setShifts(shifts.map((shift, i) => (i === index ? { ...shift, ...changes } : shift)));
+  };
+
+  const handleSaveCalendar = async () => {
+    if (await sendRequest(`${base}/schedule`, 'PUT', { workingHours, shifts })) {
+      toast.success('Working calendar saved');
+    }
+  };
+
+  const handleCreateClosure = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await sendRequest(`${base}/closures`, 'POST', {
+      name: newClosure.name,
+      kind: newClosure.kind,
+      startDate: newClosure.startDate,
+      endDate: newClosure.endDate || undefined,
+    })) {
+      setNewClosure(emptyClosure);
+    }
+  };
+
+  const handleDeleteClosure = async (closure: Closure) => {
+    if (!confirm(`Remove ${closure.name} from the calendar?`)) return;
+    await sendRequest(`${base}/closures/${closure.id}`, 'DELETE');
+  };
+
+  const handleImport = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch(`${base}/closures/import`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: formData,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        toast.error(data.message || 'Failed to import holidays');
+        return;
+      }
+      toast.success(`Imported ${data.imported} holiday${data.imported === 1 ? '' : 's'}${data.skipped ? `, skipped ${data.skipped}` : ''}`);
+      await fetchCalendar();
+    } catch (error) {
+      toast.error('Failed to import holidays');
+    } finally {
+      setBusy(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Work days</Label>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAYS.map((label, day) => (
+            <Button
+              key={label}
+              size="sm"
+              variant={days.includes(day) ? 'default' : 'outline'}
+              disabled={!canEdit}
+              onClick={() => toggleDay(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Shifts</Label>
+        {shifts.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No shifts; the project works its standard hours ({workingHours?.start ?? '08:00'} to {workingHours?.end ?? '17:00'}).
+          </p>
+        )}
+        {shifts.map((shift, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Input className="w-40" placeholder="Name" value={shift.name} disabled={!canEdit} onChange={(e) => updateShift(index, { name: e.target.value })} />
+            <Input className="w-32" type="time" value={shift.start} disabled={!canEdit} onChange={(e) => updateShift(index, { start: e.target.value })} />
+            <Input className="w-32" type="time" value={shift.end} disabled={!canEdit} onChange={(e) => updateShift(index, { end: e.target.value })} />
+            {canEdit && (
+              <Button size="icon" variant="ghost" title="Remove shift" onClick={() => setShifts(shifts.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {canEdit && (
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={shifts.length >= 3} onClick={() => setShifts([...shifts, { name: `Shift ${shifts.length + 1}`, start: '06:00', end: '14:00' }])}>
+              <Plus className="mr-2 h-4 w-4" /> Add shift
+            </Button>
+            <Button size="sm" disabled={busy} onClick={handleSaveCalendar}>
+              <Save className="mr-2 h-4 w-4" /> Save calendar
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Label>Holidays and shutdowns</Label>
+          {canEdit && (
+            <>
+              <input ref={fileInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={(e) => handleImport(e.target.files)} />
+              <Button size="sm" variant="outline" disabled={busy} onClick={() => fileInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" /> Import ICS
+              </Button>
+            </>
+          )}
+        </div>
+        {closures.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No closures; every work day is available.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Dates</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {closures.map(closure => (
+                <TableRow key={closure.id}>
+                  <TableCell>{closure.name}</TableCell>
+                  <TableCell><Badge variant={closure.kind === 'shutdown' ? 'secondary' : 'outline'}>{closure.kind}</Badge></TableCell>
+                  <TableCell>{formatRange(closure)}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <Button size="icon" variant="ghost" title="Remove" onClick={() => handleDeleteClosure(closure)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {finishDate && (
+          <p className="text-xs text-muted-foreground">Scheduled finish with this calendar: {finishDate.split('T')[0]}</p>
+        )}
+      </div>
+
+      {canEdit && (
+        <form onSubmit={handleCreateClosure} className="flex flex-wrap items-center gap-2">
+          <Input className="w-48" placeholder="Name" value={newClosure.name} onChange={(e) => setNewClosure({ ...newClosure, name: e.target.value })} required />
+          <Select value={newClosure.kind} onValueChange={(kind) => setNewClosure({ ...newClosure, kind: kind as Closure['kind'] })}>
+            <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="holiday">Holiday</SelectItem>
+              <SelectItem value="shutdown">Shutdown</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input className="w-40" type="date" value={newClosure.startDate} onChange={(e) => setNewClosure({ ...newClosure, startDate: e.target.value })} required />
+          <Input className="w-40" type="date" value={newClosure.endDate} min={newClosure.startDate} onChange={(e) => setNewClosure({ ...newClosure, endDate: e.target.value })} />
+          <Button type="submit" size="sm" disabled={busy}><Plus className="mr-2 h-4 w-4" /> Add closure</Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -24,7 +24,6 @@ export type TeamMember = {
   name: string;
   role: string;
   status: "online" | "offline";
-  hoursToday: number;
   productivity: number;
   avatar: string; // initials
 };
@@ -116,11 +115,11 @@ export const constructionData = {
   ] as Project[],
 
   team: [
-    { id: 1, name: "John Smith", role: "Site Manager", status: "online", hoursToday: 7.5, productivity: 94, avatar: "JS" },
-    { id: 2, name: "Sarah Jones", role: "Safety Officer", status: "online", hoursToday: 8.0, productivity: 88, avatar: "SJ" },
-    { id: 3, name: "Mike Wilson", role: "Project Foreman", status: "online", hoursToday: 6.5, productivity: 91, avatar: "MW" },
-    { id: 4, name: "Emma Davis", role: "Quality Inspector", status: "online", hoursToday: 7.0, productivity: 96, avatar: "ED" },
-    { id: 5, name: "Tom Brown", role: "Crane Operator", status: "online", hoursToday: 8.0, productivity: 89, avatar: "TB" },
+    { id: 1, name: "John Smith", role: "Site Manager", status: "online", productivity: 94, avatar: "JS" },
+    { id: 2, name: "Sarah Jones", role: "Safety Officer", status: "online", productivity: 88, avatar: "SJ" },
+    { id: 3, name: "Mike Wilson", role: "Project Foreman", status: "online", productivity: 91, avatar: "MW" },
+    { id: 4, name: "Emma Davis", role: "Quality Inspector", status: "online", productivity: 96, avatar: "ED" },
+    { id: 5, name: "Tom Brown", role: "Crane Operator", status: "online", productivity: 89, avatar: "TB" },
   ] as TeamMember[],
 
   materials: [
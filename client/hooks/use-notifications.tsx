@@ -11,6 +11,7 @@ export interface Notification {
   userId: string;
   projectId?: number;
   materialId?: number;
+  rfiId?: number;
   timestamp: string;
   read: boolean;
 }
@@ -1,10 +1,15 @@
 /**
  * Projects Service Hook
- * Provides project management functionality with authentication
+ * Provides project management functionality with authentication. Project
+ * and material updates made against a loaded record are conditional on its
+ * version; if someone else saved first, render `conflictDialog` to let the
+ * user merge.
  */
 
 import { useState, useEffect, useCallback } from 'react';
 import { api, ApiError } from '@/lib/api';
+import { AskToResolve, ConflictEntity, MergeResult, resolveConflicts, saveWithMerge } from '@/lib/merge';
+import ConflictDialog from '@/components/ConflictDialog';
 import { useAuth } from './use-auth';
 
 export interface Project {
@@ -16,12 +21,15 @@ export interface Project {
   endDate: string;
   budget: number;
   spent: number;
+  currency: string;
   progress: number;
   team: string[];
-  materials: Material[];
+  // Not included in project lists; load them per project
+  materials?: Material[];
   files: File[];
   createdAt: string;
   updatedAt: string;
+  version?: number;
 }
 
 export interface Material {
@@ -31,10 +39,13 @@ export interface Material {
   quantity: number;
   unit: string;
   cost: number;
-  supplier: string;
+  current_stock: number;
+  total_required: number;
+  supplier_id: number | null;
   status: 'ordered' | 'delivered' | 'used' | 'returned';
   deliveryDate?: string;
   projectId: string;
+  version?: number;
 }
 
 export interface ProjectFile {
@@ -47,11 +58,61 @@ export interface ProjectFile {
   projectId: string;
 }
 
+interface PendingConflict {
+  entity: ConflictEntity;
+  merge: MergeResult;
+  resolve: (update: Record<string, unknown> | null) => void;
+}
+
+/**
+ * Project and material saves for edit forms. Passing the record as loaded
+ * makes the save conditional on its version; render `conflictDialog` with
+ * the form so the user can merge if someone else saved first.
+ */
+export function useVersionedSave() {
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+
+  const askToResolve = useCallback<AskToResolve>(
+    (entity, merge) => new Promise(resolve => setConflict({ entity, merge, resolve })),
+    []
+  );
+
+  const saveProject = useCallback(async <T extends { version?: number }>(id: string, changes: Record<string, unknown>, base?: T): Promise<T> => {
+    const save = async (update: Record<string, unknown>, version?: number): Promise<T> =>
+      (await api.updateProject(id, update, version)).project;
+    return base ? saveWithMerge('project', base, changes, save, askToResolve) : save(changes);
+  }, [askToResolve]);
+
+  const saveMaterial = useCallback(async <T extends { version?: number }>(id: string, changes: Record<string, unknown>, base?: T): Promise<T> => {
+    const save = async (update: Record<string, unknown>, version?: number): Promise<T> =>
+      (await api.updateMaterial(id, update, version)).material;
+    return base ? saveWithMerge('material', base, changes, save, askToResolve) : save(changes);
+  }, [askToResolve]);
+
+  const conflictDialog = (
+    <ConflictDialog
+      entity={conflict?.entity ?? 'project'}
+      conflicts={conflict ? conflict.merge.conflicts : null}
+      onResolve={(choices) => {
+        conflict?.resolve(resolveConflicts(conflict.merge, choices));
+        setConflict(null);
+      }}
+      onDiscard={() => {
+        conflict?.resolve(null);
+        setConflict(null);
+      }}
+    />
+  );
+
+  return { saveProject, saveMaterial, conflictDialog };
+}
+
 export function useProjects() {
   const { user, token } = useAuth();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { saveProject, saveMaterial, conflictDialog } = useVersionedSave();
 
   const fetchProjects = useCallback(async () => {
     if (!token) return;
@@ -95,14 +156,15 @@ export function useProjects() {
     }
   }, [token]);
 
-  const updateProject = useCallback(async (id: string, projectData: Partial<Project>) => {
+  // Pass the project as loaded to make the update conditional on its version
+  const updateProject = useCallback(async (id: string, projectData: Partial<Project>, base?: Project) => {
     if (!token) throw new Error('Not authenticated');
     
     setLoading(true);
     setError(null);
     
     try {
-      const updatedProject = await api.updateProject(id, projectData);
+      const updatedProject = await saveProject<Project>(id, projectData, base);
       setProjects(prev => prev.map(p => p.id === id ? updatedProject : p));
       return updatedProject;
     } catch (err) {
@@ -115,7 +177,7 @@ export function useProjects() {
     } finally {
       setLoading(false);
     }
-  }, [token]);
+  }, [token, saveProject]);
 
   const deleteProject = useCallback(async (id: string) => {
     if (!token) throw new Error('Not authenticated');
@@ -185,11 +247,11 @@ export function useProjects() {
     }
   }, [token]);
 
-  const updateMaterial = useCallback(async (materialId: string, materialData: Partial<Material>) => {
+  const updateMaterial = useCallback(async (materialId: string, materialData: Partial<Material>, base?: Material) => {
     if (!token) throw new Error('Not authenticated');
     
     try {
-      return await api.updateMaterial(materialId, materialData);
+      return await saveMaterial<Material>(materialId, materialData, base);
     } catch (err) {
       if (err instanceof ApiError) {
         setError(err.message);
@@ -198,7 +260,7 @@ export function useProjects() {
       }
       throw err;
     }
-  }, [token]);
+  }, [token, saveMaterial]);
 
   const deleteMaterial = useCallback(async (materialId: string) => {
     if (!token) throw new Error('Not authenticated');
@@ -272,6 +334,7 @@ export function useProjects() {
     projects,
     loading,
     error,
+    conflictDialog,
     fetchProjects,
     createProject,
     updateProject,
@@ -110,6 +110,8 @@ export interface UserPreferences {
   language: string;
   timezone: string;
   dateFormat: string;
+  // Portfolio analytics are converted into this currency
+  reportingCurrency: string;
   notifications: {
     email: boolean;
     push: boolean;
@@ -252,9 +254,7 @@ export function useUserData() {
     
     try {
       const data = await api.updateUserPreferences(updateData);
-      if (preferences) {
-        setPreferences({ ...preferences, ...updateData });
-      }
+      setPreferences(data.preferences);
       return data;
     } catch (err) {
       if (err instanceof ApiError) {
@@ -264,7 +264,7 @@ export function useUserData() {
       }
       throw err;
     }
-  }, [token, preferences]);
+  }, [token]);
 
   return {
     userData,
@@ -73,6 +73,14 @@ class ApiService {
             throw createNotFoundError(
               errorData.message || 'Resource not found'
             );
+          case 409:
+            // Carries the current server state so the caller can merge
+            throw createApiError(
+              errorData.message || 'Conflicting update',
+              ErrorCodes.CONFLICT,
+              409,
+              errorData.current
+            );
           case 429:
             throw createApiError(
               errorData.message || 'Too many requests',
@@ -218,8 +226,35 @@ class ApiService {
   }
 
   // Projects & Materials
+  // Every project the user can see, a page at a time; lists come without materials
   async getProjects() {
-    return this.request<any[]>('/projects');
+    const projects: any[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.listProjects({ limit: 100, cursor });
+      projects.push(...page.projects);
+      cursor = page.next_cursor ?? undefined;
+    } while (cursor);
+    return projects;
+  }
+
+  // Filtered, sorted page of projects; pass next_cursor back to get the following page
+  async listProjects(params: {
+    q?: string;
+    status?: string;
+    risk_level?: string;
+    client?: string;
+    contractor?: string;
+    from?: string;
+    to?: string;
+    sort?: string;
+    order?: 'asc' | 'desc';
+    limit?: number;
+    cursor?: string;
+  } = {}) {
+    const query = new URLSearchParams(Object.entries(params).filter(([, value]) => value).map(([key, value]) => [key, String(value)]));
+    const suffix = query.toString() ? `?${query}` : '';
+    return this.request<{ projects: any[]; next_cursor: string | null }>(`/projects${suffix}`);
   }
 
   async createProject(projectData: any) {
@@ -229,9 +264,11 @@ class ApiService {
     });
   }
 
-  async updateProject(id: string, projectData: any) {
+  // With a version the update fails with a CONFLICT error if someone else saved first
+  async updateProject(id: string, projectData: any, version?: number) {
     return this.request<any>(`/projects/${id}`, {
       method: 'PUT',
+      headers: version !== undefined ? { 'If-Match': `"${version}"` } : undefined,
       body: JSON.stringify(projectData),
     });
   }
@@ -242,6 +279,100 @@ class ApiService {
     });
   }
 
+  async getProjectMembers(projectId: string) {
+    return this.request<{ members: any[] }>(`/projects/${projectId}/members`);
+  }
+
+  async addProjectMember(projectId: string, email: string, role: 'manager' | 'editor' | 'viewer') {
+    return this.request<{ member: any }>(`/projects/${projectId}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  }
+
+  async updateProjectMember(projectId: string, userId: string, role: 'manager' | 'editor' | 'viewer') {
+    return this.request<{ member: any }>(`/projects/${projectId}/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  }
+
+  async removeProjectMember(projectId: string, userId: string) {
+    return this.request<void>(`/projects/${projectId}/members/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getProjectSchedule(projectId: string) {
+    return this.request<{ settings: any; schedule: any }>(`/projects/${projectId}/schedule`);
+  }
+
+  async updateScheduleSettings(projectId: string, settings: any) {
+    return this.request<{ settings: any; schedule: any }>(`/projects/${projectId}/schedule`, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+
+  async createProjectTask(projectId: string, taskData: any) {
+    return this.request<{ task: any; schedule: any }>(`/projects/${projectId}/tasks`, {
+      method: 'POST',
+      body: JSON.stringify(taskData),
+    });
+  }
+
+  async updateProjectTask(projectId: string, taskId: string, updates: any) {
+    return this.request<{ task: any; schedule: any }>(`/projects/${projectId}/tasks/${taskId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteProjectTask(projectId: string, taskId: string) {
+    return this.request<void>(`/projects/${projectId}/tasks/${taskId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getProjectClosures(projectId: string) {
+    return this.request<{ closures: any[] }>(`/projects/${projectId}/closures`);
+  }
+
+  async createProjectClosure(projectId: string, closureData: { name: string; kind?: 'holiday' | 'shutdown'; startDate: string; endDate?: string }) {
+    return this.request<{ closure: any; schedule: any }>(`/projects/${projectId}/closures`, {
+      method: 'POST',
+      body: JSON.stringify(closureData),
+    });
+  }
+
+  async importProjectClosures(projectId: string, file: File) {
+    return this.sendFile<{ imported: number; skipped: number; closures: any[]; schedule?: any }>(`/projects/${projectId}/closures/import`, file);
+  }
+
+  async deleteProjectClosure(projectId: string, closureId: string) {
+    return this.request<void>(`/projects/${projectId}/closures/${closureId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getProjectEarnedValue(projectId: string) {
+    return this.request<{ earnedValue: any }>(`/projects/${projectId}/evm`);
+  }
+
+  async createBaseline(projectId: string, baselineData: any) {
+    return this.request<{ baseline: any }>(`/projects/${projectId}/baselines`, {
+      method: 'POST',
+      body: JSON.stringify(baselineData),
+    });
+  }
+
+  async recordEvmSnapshot(projectId: string, snapshotData: any) {
+    return this.request<{ snapshot: any; metrics: any }>(`/projects/${projectId}/evm/snapshots`, {
+      method: 'POST',
+      body: JSON.stringify(snapshotData),
+    });
+  }
+
   async getMaterials(projectId: string) {
     return this.request<any[]>(`/projects/${projectId}/materials`);
   }
@@ -253,9 +384,10 @@ class ApiService {
     });
   }
 
-  async updateMaterial(materialId: string, materialData: any) {
+  async updateMaterial(materialId: string, materialData: any, version?: number) {
     return this.request<any>(`/materials/${materialId}`, {
       method: 'PUT',
+      headers: version !== undefined ? { 'If-Match': `"${version}"` } : undefined,
       body: JSON.stringify(materialData),
     });
   }
@@ -266,6 +398,780 @@ class ApiService {
     });
   }
 
+  async getMaterialTransactions(materialId: string) {
+    return this.request<{ material: any; transactions: any[] }>(`/materials/${materialId}/transactions`);
+  }
+
+  async recordMaterialTransaction(materialId: string, transactionData: any) {
+    return this.request<{ transaction: any; material: any }>(`/materials/${materialId}/transactions`, {
+      method: 'POST',
+      body: JSON.stringify(transactionData),
+    });
+  }
+
+  async getPurchaseOrders(projectId: string, status?: string) {
+    const params = status ? `?status=${status}` : '';
+    return this.request<{ purchaseOrders: any[] }>(`/projects/${projectId}/purchase-orders${params}`);
+  }
+
+  async createPurchaseOrder(projectId: string, orderData: any) {
+    return this.request<{ purchaseOrder: any }>(`/projects/${projectId}/purchase-orders`, {
+      method: 'POST',
+      body: JSON.stringify(orderData),
+    });
+  }
+
+  async updatePurchaseOrder(projectId: string, orderId: string, updates: any) {
+    return this.request<{ purchaseOrder: any }>(`/projects/${projectId}/purchase-orders/${orderId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async receiveGoods(projectId: string, orderId: string, receiptData: any) {
+    return this.request<{ receipt: any; purchaseOrder: any; material: any }>(`/projects/${projectId}/purchase-orders/${orderId}/receipts`, {
+      method: 'POST',
+      body: JSON.stringify(receiptData),
+    });
+  }
+
+  // Site diary
+  async getDiaryEntries(projectId: string, range?: { from?: string; to?: string }) {
+    const query = new URLSearchParams();
+    if (range?.from) query.set('from', range.from);
+    if (range?.to) query.set('to', range.to);
+    const suffix = query.toString() ? `?${query}` : '';
+    return this.request<{ entries: any[] }>(`/projects/${projectId}/diary${suffix}`);
+  }
+
+  async getDiaryEntry(projectId: string, entryId: string) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/diary/${entryId}`);
+  }
+
+  async createDiaryEntry(projectId: string, entryData: any) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/diary`, {
+      method: 'POST',
+      body: JSON.stringify(entryData),
+    });
+  }
+
+  async updateDiaryEntry(projectId: string, entryId: string, updates: any) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/diary/${entryId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteDiaryEntry(projectId: string, entryId: string) {
+    return this.request<void>(`/projects/${projectId}/diary/${entryId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async signOffDiaryEntry(projectId: string, entryId: string) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/diary/${entryId}/sign-off`, {
+      method: 'POST',
+    });
+  }
+
+  // RFIs
+  async getRfis(projectId: string, params?: { status?: string; assignedToMe?: boolean }) {
+    const query = new URLSearchParams();
+    if (params?.status) query.set('status', params.status);
+    if (params?.assignedToMe) query.set('assigned_to', 'me');
+    const suffix = query.toString() ? `?${query}` : '';
+    return this.request<{ rfis: any[] }>(`/projects/${projectId}/rfis${suffix}`);
+  }
+
+  async getRfi(projectId: string, rfiId: string) {
+    return this.request<{ rfi: any; responses: any[] }>(`/projects/${projectId}/rfis/${rfiId}`);
+  }
+
+  async createRfi(projectId: string, rfiData: any) {
+    return this.request<{ rfi: any }>(`/projects/${projectId}/rfis`, {
+      method: 'POST',
+      body: JSON.stringify(rfiData),
+    });
+  }
+
+  async updateRfi(projectId: string, rfiId: string, updates: any) {
+    return this.request<{ rfi: any }>(`/projects/${projectId}/rfis/${rfiId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async updateRfiStatus(projectId: string, rfiId: string, status: 'open' | 'answered' | 'closed') {
+    return this.request<{ rfi: any }>(`/projects/${projectId}/rfis/${rfiId}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status }),
+    });
+  }
+
+  async deleteRfi(projectId: string, rfiId: string) {
+    return this.request<void>(`/projects/${projectId}/rfis/${rfiId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async addRfiResponse(projectId: string, rfiId: string, responseData: any) {
+    return this.request<{ response: any; rfi: any }>(`/projects/${projectId}/rfis/${rfiId}/responses`, {
+      method: 'POST',
+      body: JSON.stringify(responseData),
+    });
+  }
+
+  // Defects (punch list)
+  async getDefects(projectId: string, params?: { status?: string; severity?: string; trade?: string; assignedToMe?: boolean }) {
+    const query = new URLSearchParams();
+    if (params?.status) query.set('status', params.status);
+    if (params?.severity) query.set('severity', params.severity);
+    if (params?.trade) query.set('trade', params.trade);
+    if (params?.assignedToMe) query.set('assigned_to', 'me');
+    const suffix = query.toString() ? `?${query}` : '';
+    return this.request<{ defects: any[]; summary: any }>(`/projects/${projectId}/defects${suffix}`);
+  }
+
+  async getDefect(projectId: string, defectId: string) {
+    return this.request<{ defect: any }>(`/projects/${projectId}/defects/${defectId}`);
+  }
+
+  async createDefect(projectId: string, defectData: any) {
+    return this.request<{ defect: any; summary: any }>(`/projects/${projectId}/defects`, {
+      method: 'POST',
+      body: JSON.stringify(defectData),
+    });
+  }
+
+  async updateDefect(projectId: string, defectId: string, updates: any) {
+    return this.request<{ defect: any; summary: any }>(`/projects/${projectId}/defects/${defectId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async updateDefectStatus(projectId: string, defectId: string, status: 'open' | 'in_progress' | 'fixed') {
+    return this.request<{ defect: any; summary: any }>(`/projects/${projectId}/defects/${defectId}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status }),
+    });
+  }
+
+  async verifyDefect(projectId: string, defectId: string, accepted: boolean, notes?: string) {
+    return this.request<{ defect: any; summary: any }>(`/projects/${projectId}/defects/${defectId}/verify`, {
+      method: 'POST',
+      body: JSON.stringify({ accepted, notes }),
+    });
+  }
+
+  async deleteDefect(projectId: string, defectId: string) {
+    return this.request<void>(`/projects/${projectId}/defects/${defectId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Acceptance criteria
+  async getAcceptanceCriteria(projectId: string) {
+    return this.request<{ phases: any[]; total: number; signedOff: number; percentage: number }>(`/projects/${projectId}/acceptance-criteria`);
+  }
+
+  async createAcceptanceCriterion(projectId: string, criterionData: any) {
+    return this.request<{ criterion: any; percentage: number }>(`/projects/${projectId}/acceptance-criteria`, {
+      method: 'POST',
+      body: JSON.stringify(criterionData),
+    });
+  }
+
+  async updateAcceptanceCriterion(projectId: string, criterionId: string, updates: any) {
+    return this.request<{ criterion: any }>(`/projects/${projectId}/acceptance-criteria/${criterionId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteAcceptanceCriterion(projectId: string, criterionId: string) {
+    return this.request<void>(`/projects/${projectId}/acceptance-criteria/${criterionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async signOffAcceptanceCriterion(projectId: string, criterionId: string) {
+    return this.request<{ criterion: any; percentage: number }>(`/projects/${projectId}/acceptance-criteria/${criterionId}/sign-off`, {
+      method: 'POST',
+    });
+  }
+
+  async revokeAcceptanceSignOff(projectId: string, criterionId: string) {
+    return this.request<{ criterion: any; percentage: number }>(`/projects/${projectId}/acceptance-criteria/${criterionId}/sign-off`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Risk register
+  async getRisks(projectId: string, status?: string) {
+    const suffix = status ? `?status=${encodeURIComponent(status)}` : '';
+    return this.request<{ risks: any[]; summary: any }>(`/projects/${projectId}/risks${suffix}`);
+  }
+
+  async getRisk(projectId: string, riskId: string) {
+    return this.request<{ risk: any }>(`/projects/${projectId}/risks/${riskId}`);
+  }
+
+  async createRisk(projectId: string, riskData: any) {
+    return this.request<{ risk: any; riskLevel: string }>(`/projects/${projectId}/risks`, {
+      method: 'POST',
+      body: JSON.stringify(riskData),
+    });
+  }
+
+  async updateRisk(projectId: string, riskId: string, updates: any) {
+    return this.request<{ risk: any; riskLevel: string }>(`/projects/${projectId}/risks/${riskId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteRisk(projectId: string, riskId: string) {
+    return this.request<void>(`/projects/${projectId}/risks/${riskId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getProjectRiskHeatMap(projectId: string) {
+    return this.request<{ cells: any[]; risks: any[]; riskLevel: string }>(`/projects/${projectId}/risks/heat-map`);
+  }
+
+  async getRiskHeatMap(projectId?: string) {
+    const suffix = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+    return this.request<{ cells: any[]; risks: any[] }>(`/analytics/risk-heat-map${suffix}`);
+  }
+
+  // Cost codes and timesheets
+  async getCostCodes(projectId: string) {
+    return this.request<{ costCodes: any[] }>(`/projects/${projectId}/cost-codes`);
+  }
+
+  async createCostCode(projectId: string, costCodeData: any) {
+    return this.request<{ costCode: any }>(`/projects/${projectId}/cost-codes`, {
+      method: 'POST',
+      body: JSON.stringify(costCodeData),
+    });
+  }
+
+  async updateCostCode(projectId: string, costCodeId: string, updates: any) {
+    return this.request<{ costCode: any }>(`/projects/${projectId}/cost-codes/${costCodeId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteCostCode(projectId: string, costCodeId: string) {
+    return this.request<void>(`/projects/${projectId}/cost-codes/${costCodeId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getCurrentTimeEntry() {
+    return this.request<{ entry: any | null }>('/time/current');
+  }
+
+  async getTimeEntries(projectId: string, filters: { week?: string; status?: string; user_id?: string } = {}) {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value) as [string, string][]);
+    const suffix = params.toString() ? `?${params}` : '';
+    return this.request<{ entries: any[]; summary: any }>(`/projects/${projectId}/time${suffix}`);
+  }
+
+  async clockIn(projectId: string, data: { cost_code_id: number; latitude?: number; longitude?: number; notes?: string }) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/time/clock-in`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async clockOut(projectId: string, data: { latitude?: number; longitude?: number; notes?: string } = {}) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/time/clock-out`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async startBreak(projectId: string) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/time/break/start`, {
+      method: 'POST',
+    });
+  }
+
+  async endBreak(projectId: string) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/time/break/end`, {
+      method: 'POST',
+    });
+  }
+
+  async updateTimeEntry(projectId: string, entryId: string, updates: any) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/time/${entryId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteTimeEntry(projectId: string, entryId: string) {
+    return this.request<void>(`/projects/${projectId}/time/${entryId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async approveTimeEntry(projectId: string, entryId: string) {
+    return this.request<{ entry: any; spent: number | null }>(`/projects/${projectId}/time/${entryId}/approve`, {
+      method: 'POST',
+    });
+  }
+
+  async rejectTimeEntry(projectId: string, entryId: string, reason: string) {
+    return this.request<{ entry: any }>(`/projects/${projectId}/time/${entryId}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  // Cost control (ABCC)
+  async getCostReport(projectId: string) {
+    return this.request<{ report: any }>(`/projects/${projectId}/cost-report`);
+  }
+
+  async getSubcontracts(projectId: string) {
+    return this.request<{ subcontracts: any[] }>(`/projects/${projectId}/subcontracts`);
+  }
+
+  async createSubcontract(projectId: string, subcontractData: any) {
+    return this.request<{ subcontract: any }>(`/projects/${projectId}/subcontracts`, {
+      method: 'POST',
+      body: JSON.stringify(subcontractData),
+    });
+  }
+
+  async updateSubcontract(projectId: string, subcontractId: string, updates: any) {
+    return this.request<{ subcontract: any }>(`/projects/${projectId}/subcontracts/${subcontractId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteSubcontract(projectId: string, subcontractId: string) {
+    return this.request<void>(`/projects/${projectId}/subcontracts/${subcontractId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Progress claims
+  async getScheduleOfValues(projectId: string) {
+    return this.request<{ items: any[] }>(`/projects/${projectId}/schedule-of-values`);
+  }
+
+  async createScheduleOfValuesItem(projectId: string, itemData: any) {
+    return this.request<{ item: any }>(`/projects/${projectId}/schedule-of-values`, {
+      method: 'POST',
+      body: JSON.stringify(itemData),
+    });
+  }
+
+  async updateScheduleOfValuesItem(projectId: string, itemId: string, updates: any) {
+    return this.request<{ item: any }>(`/projects/${projectId}/schedule-of-values/${itemId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteScheduleOfValuesItem(projectId: string, itemId: string) {
+    return this.request<void>(`/projects/${projectId}/schedule-of-values/${itemId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getVariations(projectId: string) {
+    return this.request<{ variations: any[] }>(`/projects/${projectId}/variations`);
+  }
+
+  async createVariation(projectId: string, variationData: any) {
+    return this.request<{ variation: any }>(`/projects/${projectId}/variations`, {
+      method: 'POST',
+      body: JSON.stringify(variationData),
+    });
+  }
+
+  async updateVariation(projectId: string, variationId: string, updates: any) {
+    return this.request<{ variation: any }>(`/projects/${projectId}/variations/${variationId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async updateVariationStatus(projectId: string, variationId: string, status: string) {
+    return this.request<{ variation: any }>(`/projects/${projectId}/variations/${variationId}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status }),
+    });
+  }
+
+  async deleteVariation(projectId: string, variationId: string) {
+    return this.request<void>(`/projects/${projectId}/variations/${variationId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getClaims(projectId: string) {
+    return this.request<{ claims: any[] }>(`/projects/${projectId}/claims`);
+  }
+
+  async getClaim(projectId: string, claimId: string) {
+    return this.request<{ claim: any }>(`/projects/${projectId}/claims/${claimId}`);
+  }
+
+  async createClaim(projectId: string, claimData: any) {
+    return this.request<{ claim: any }>(`/projects/${projectId}/claims`, {
+      method: 'POST',
+      body: JSON.stringify(claimData),
+    });
+  }
+
+  async updateClaim(projectId: string, claimId: string, updates: any) {
+    return this.request<{ claim: any }>(`/projects/${projectId}/claims/${claimId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async updateClaimStatus(projectId: string, claimId: string, status: string) {
+    return this.request<{ claim: any }>(`/projects/${projectId}/claims/${claimId}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status }),
+    });
+  }
+
+  async deleteClaim(projectId: string, claimId: string) {
+    return this.request<void>(`/projects/${projectId}/claims/${claimId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Change orders
+  async getChangeOrders(projectId: string) {
+    return this.request<{ changeOrders: any[]; history: any }>(`/projects/${projectId}/change-orders`);
+  }
+
+  async getChangeOrder(projectId: string, changeOrderId: string) {
+    return this.request<{ changeOrder: any }>(`/projects/${projectId}/change-orders/${changeOrderId}`);
+  }
+
+  async createChangeOrder(projectId: string, changeOrderData: any) {
+    return this.request<{ changeOrder: any }>(`/projects/${projectId}/change-orders`, {
+      method: 'POST',
+      body: JSON.stringify(changeOrderData),
+    });
+  }
+
+  async updateChangeOrder(projectId: string, changeOrderId: string, updates: any) {
+    return this.request<{ changeOrder: any }>(`/projects/${projectId}/change-orders/${changeOrderId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async updateChangeOrderStatus(projectId: string, changeOrderId: string, status: string) {
+    return this.request<{ changeOrder: any }>(`/projects/${projectId}/change-orders/${changeOrderId}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status }),
+    });
+  }
+
+  async decideChangeOrder(projectId: string, changeOrderId: string, decision: string, comment?: string) {
+    return this.request<{ changeOrder: any }>(`/projects/${projectId}/change-orders/${changeOrderId}/decision`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, comment }),
+    });
+  }
+
+  async deleteChangeOrder(projectId: string, changeOrderId: string) {
+    return this.request<void>(`/projects/${projectId}/change-orders/${changeOrderId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Exchange rates
+  async getExchangeRates(filters: { base?: string; quote?: string } = {}) {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value) as [string, string][]);
+    const suffix = params.toString() ? `?${params}` : '';
+    return this.request<{ rates: any[]; currencies: string[] }>(`/exchange-rates${suffix}`);
+  }
+
+  async convertCurrency(amount: number, from: string, to: string, date?: string) {
+    const params = new URLSearchParams({ amount: String(amount), from, to });
+    if (date) params.set('date', date);
+    return this.request<{ amount: number; from: string; to: string; date: string; rate: number; converted: number }>(`/exchange-rates/convert?${params}`);
+  }
+
+  async createExchangeRate(rateData: { base_currency: string; quote_currency: string; rate: number; effective_date: string }) {
+    return this.request<{ rate: any }>('/exchange-rates', {
+      method: 'POST',
+      body: JSON.stringify(rateData),
+    });
+  }
+
+  async updateExchangeRate(rateId: string, updates: { rate?: number; effective_date?: string }) {
+    return this.request<{ rate: any }>(`/exchange-rates/${rateId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteExchangeRate(rateId: string) {
+    return this.request<void>(`/exchange-rates/${rateId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Calendar feed
+  async getCalendarFeed() {
+    return this.request<{ enabled: boolean; createdAt: string | null }>('/calendar/feed');
+  }
+
+  async createCalendarFeed() {
+    return this.request<{ enabled: boolean; createdAt: string; url: string }>('/calendar/feed', {
+      method: 'POST',
+    });
+  }
+
+  async revokeCalendarFeed() {
+    return this.request<void>('/calendar/feed', {
+      method: 'DELETE',
+    });
+  }
+
+  // Equipment register
+  async getEquipmentList(filters: { status?: string; project_id?: string; search?: string } = {}) {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value) as [string, string][]);
+    const suffix = params.toString() ? `?${params}` : '';
+    return this.request<{ equipment: any[] }>(`/equipment${suffix}`);
+  }
+
+  async getEquipment(equipmentId: string) {
+    return this.request<{ equipment: any; readings: any[]; services: any[]; certificates: any[]; utilization: any }>(`/equipment/${equipmentId}`);
+  }
+
+  async createEquipment(equipmentData: any) {
+    return this.request<{ equipment: any }>('/equipment', {
+      method: 'POST',
+      body: JSON.stringify(equipmentData),
+    });
+  }
+
+  async updateEquipment(equipmentId: string, updates: any) {
+    return this.request<{ equipment: any }>(`/equipment/${equipmentId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteEquipment(equipmentId: string) {
+    return this.request<void>(`/equipment/${equipmentId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async recordMeterReading(equipmentId: string, hours: number) {
+    return this.request<{ equipment: any }>(`/equipment/${equipmentId}/readings`, {
+      method: 'POST',
+      body: JSON.stringify({ hours }),
+    });
+  }
+
+  async recordEquipmentService(equipmentId: string, serviceData: { description: string; performed_at?: string; hours?: number }) {
+    return this.request<{ service: any; equipment: any }>(`/equipment/${equipmentId}/services`, {
+      method: 'POST',
+      body: JSON.stringify(serviceData),
+    });
+  }
+
+  async addEquipmentCertificate(equipmentId: string, certificateData: any) {
+    return this.request<{ certificate: any }>(`/equipment/${equipmentId}/certificates`, {
+      method: 'POST',
+      body: JSON.stringify(certificateData),
+    });
+  }
+
+  async deleteEquipmentCertificate(equipmentId: string, certificateId: string) {
+    return this.request<void>(`/equipment/${equipmentId}/certificates/${certificateId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getProjectEquipment(projectId: string) {
+    return this.request<{ equipment: any[] }>(`/projects/${projectId}/equipment`);
+  }
+
+  // Audit trail
+  async getProjectHistory(projectId: string, filters: { entity_type?: string; before?: number; limit?: number } = {}) {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value).map(([key, value]) => [key, String(value)]));
+    const suffix = params.toString() ? `?${params}` : '';
+    return this.request<{ entries: any[]; next_before: number | null }>(`/projects/${projectId}/history${suffix}`);
+  }
+
+  // Bulk import; without a mapping the server suggests one from the headers
+  async previewProjectImport(file: File, mapping?: Record<string, number | null>) {
+    return this.sendFile<any>('/import/projects/preview', file, mapping ? { mapping } : {});
+  }
+
+  async importProjects(file: File, mapping: Record<string, number | null>) {
+    return this.sendFile<{ imported: number; projects: any[] }>('/import/projects', file, { mapping });
+  }
+
+  async previewMaterialImport(projectId: string, file: File, mapping?: Record<string, number | null>) {
+    return this.sendFile<any>(`/projects/${projectId}/import/materials/preview`, file, mapping ? { mapping } : {});
+  }
+
+  async importMaterials(projectId: string, file: File, mapping: Record<string, number | null>) {
+    return this.sendFile<{ imported: number; materials: any[] }>(`/projects/${projectId}/import/materials`, file, { mapping });
+  }
+
+  // Global search
+  async search(q: string, options: { types?: string[]; limit?: number } = {}) {
+    const params = new URLSearchParams({ q });
+    if (options.types?.length) params.set('types', options.types.join(','));
+    if (options.limit) params.set('limit', String(options.limit));
+    return this.request<{ query: string; results: any[] }>(`/search?${params}`);
+  }
+
+  // Trash
+  async getTrash() {
+    return this.request<{ projects: any[]; materials: any[]; retention_days: number }>('/trash');
+  }
+
+  async restoreProject(projectId: string) {
+    return this.request<{ project: any }>(`/trash/projects/${projectId}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  async restoreMaterial(materialId: string) {
+    return this.request<{ material: any }>(`/trash/materials/${materialId}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  async purgeProject(projectId: string) {
+    return this.request<void>(`/trash/projects/${projectId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async purgeMaterial(materialId: string) {
+    return this.request<void>(`/trash/materials/${materialId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Project templates
+  async getTemplates() {
+    return this.request<{ templates: any[] }>('/templates');
+  }
+
+  async getTemplate(templateId: string) {
+    return this.request<{ template: any }>(`/templates/${templateId}`);
+  }
+
+  async deleteTemplate(templateId: string) {
+    return this.request<void>(`/templates/${templateId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async saveProjectAsTemplate(projectId: string, templateData: { name: string; description?: string | null }) {
+    return this.request<{ template: any }>(`/projects/${projectId}/templates`, {
+      method: 'POST',
+      body: JSON.stringify(templateData),
+    });
+  }
+
+  async cloneProject(projectId: string, projectData: any) {
+    return this.request<{ project: any }>(`/projects/${projectId}/clone`, {
+      method: 'POST',
+      body: JSON.stringify(projectData),
+    });
+  }
+
+  async getProjectFolders(projectId: string) {
+    return this.request<{ folders: any[] }>(`/projects/${projectId}/folders`);
+  }
+
+  async createProjectFolder(projectId: string, path: string) {
+    return this.request<{ folder: any; folders: any[] }>(`/projects/${projectId}/folders`, {
+      method: 'POST',
+      body: JSON.stringify({ path }),
+    });
+  }
+
+  async deleteProjectFolder(projectId: string, folderId: string) {
+    return this.request<void>(`/projects/${projectId}/folders/${folderId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Suppliers
+  async getSuppliers(params?: { search?: string; includeInactive?: boolean }) {
+    const query = new URLSearchParams();
+    if (params?.search) query.set('search', params.search);
+    if (params?.includeInactive) query.set('include_inactive', 'true');
+    const suffix = query.toString() ? `?${query}` : '';
+    return this.request<{ suppliers: any[] }>(`/suppliers${suffix}`);
+  }
+
+  async getSupplier(supplierId: string) {
+    return this.request<{ supplier: any; prices: any[] }>(`/suppliers/${supplierId}`);
+  }
+
+  async createSupplier(supplierData: any) {
+    return this.request<{ supplier: any }>('/suppliers', {
+      method: 'POST',
+      body: JSON.stringify(supplierData),
+    });
+  }
+
+  async updateSupplier(supplierId: string, updates: any) {
+    return this.request<{ supplier: any }>(`/suppliers/${supplierId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteSupplier(supplierId: string) {
+    return this.request<void>(`/suppliers/${supplierId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getSupplierPrices(supplierId: string) {
+    return this.request<{ prices: any[] }>(`/suppliers/${supplierId}/prices`);
+  }
+
+  async createSupplierPrice(supplierId: string, priceData: any) {
+    return this.request<{ price: any }>(`/suppliers/${supplierId}/prices`, {
+      method: 'POST',
+      body: JSON.stringify(priceData),
+    });
+  }
+
+  async updateSupplierPrice(supplierId: string, priceId: string, updates: any) {
+    return this.request<{ price: any }>(`/suppliers/${supplierId}/prices/${priceId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteSupplierPrice(supplierId: string, priceId: string) {
+    return this.request<void>(`/suppliers/${supplierId}/prices/${priceId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Files
   async uploadFile(file: File, metadata?: any) {
     return this.sendFile<any>('/files/upload', file, { metadata });
@@ -329,8 +1235,10 @@ class ApiService {
     return this.request<any>(`/integrations/location?address=${encodeURIComponent(address)}`);
   }
 
-  async getCalendarEvents() {
-    return this.request<{ events: any[] }>('/integrations/calendar');
+  async getCalendarEvents(range: { startDate?: string; endDate?: string } = {}) {
+    const params = new URLSearchParams(Object.entries(range).filter(([, value]) => value) as [string, string][]);
+    const suffix = params.toString() ? `?${params}` : '';
+    return this.request<{ events: any[] }>(`/integrations/calendar${suffix}`);
   }
 
   async exportData(exportData: { dataType: string; format: string; data: any }) {
@@ -345,8 +1253,9 @@ class ApiService {
   }
 
   // Analytics
-  async getAdvancedAnalytics() {
-    return this.request<any>('/analytics/advanced');
+  async getAdvancedAnalytics(projectId?: string) {
+    const params = projectId ? `?projectId=${projectId}` : '';
+    return this.request<any>(`/analytics/advanced${params}`);
   }
 
   async getPredictiveAnalytics() {
@@ -53,6 +53,7 @@ export const ErrorCodes = {
   // Business logic errors
   NOT_FOUND: 'NOT_FOUND',
   ALREADY_EXISTS: 'ALREADY_EXISTS',
+  CONFLICT: 'CONFLICT',
   INSUFFICIENT_PERMISSIONS: 'INSUFFICIENT_PERMISSIONS',
   QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
   
@@ -78,6 +79,7 @@ export const ErrorMessages = {
   [ErrorCodes.MISSING_REQUIRED_FIELD]: 'Please fill in all required fields.',
   [ErrorCodes.NOT_FOUND]: 'The requested resource was not found.',
   [ErrorCodes.ALREADY_EXISTS]: 'This resource already exists.',
+  [ErrorCodes.CONFLICT]: 'Someone else changed this while you were editing it.',
   [ErrorCodes.INSUFFICIENT_PERMISSIONS]: 'You do not have sufficient permissions for this action.',
   [ErrorCodes.QUOTA_EXCEEDED]: 'You have exceeded your quota limit.',
   [ErrorCodes.INTERNAL_ERROR]: 'An internal error occurred. Please try again later.',
@@ -134,6 +136,7 @@ export function isOperationalError(error: any): boolean {
     error.code === ErrorCodes.VALIDATION_ERROR ||
     error.code === ErrorCodes.NOT_FOUND ||
     error.code === ErrorCodes.ALREADY_EXISTS ||
+    error.code === ErrorCodes.CONFLICT ||
     error.code === ErrorCodes.INSUFFICIENT_PERMISSIONS ||
     error.code === ErrorCodes.QUOTA_EXCEEDED ||
     error.code === ErrorCodes.INVALID_CREDENTIALS
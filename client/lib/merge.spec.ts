@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { api } from "./api";
+import { mergeChanges, resolveConflicts, saveWithMerge } from "./merge";
+
+// The logger listens on window, which tests don't have
+vi.mock("./error-logger", () => ({ logError: vi.fn() }));
+
+const base = { name: "Tower", budget: 1000, client: "Acme", location: null };
+
+describe("mergeChanges", () => {
+  it("should keep edits to fields nobody else changed", () => {
+    const theirs = { ...base, client: "Acme Ltd", version: 4 };
+    expect(mergeChanges(base, { name: "North Tower", budget: 1000 }, theirs)).toEqual({
+      merged: { name: "North Tower" },
+      conflicts: [],
+    });
+  });
+
+  it("should report fields both sides changed differently", () => {
+    const theirs = { ...base, budget: 1500, location: "Dock 4" };
+    const result = mergeChanges(base, { budget: 1200, location: "Dock 4" }, theirs);
+    expect(result.merged).toEqual({});
+    expect(result.conflicts).toEqual([{ field: "budget", base: 1000, mine: 1200, theirs: 1500 }]);
+  });
+});
+
+describe("resolveConflicts", () => {
+  it("should apply the chosen side of each conflict", () => {
+    const theirs = { ...base, name: "Tower B", budget: 1500 };
+    const result = mergeChanges(base, { name: "Tower A", budget: 1200, client: "Beta" }, theirs);
+    expect(resolveConflicts(result, { name: "mine" })).toEqual({ client: "Beta", name: "Tower A" });
+    expect(resolveConflicts(result, {})).toEqual({ client: "Beta" });
+  });
+});
+
+describe("saveWithMerge", () => {
+  const mine = { id: "7", ...base, version: 3 };
+  const theirs = { ...mine, client: "Acme Ltd", version: 4 };
+  const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+  const save = async (update: Record<string, unknown>, version?: number) =>
+    (await api.updateProject("7", update, version)).project;
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("should retry a clean merge against the other person's version", async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(json(409, { message: "The project was changed by someone else", current: theirs }))
+      .mockResolvedValueOnce(json(200, { project: { ...theirs, name: "North Tower", version: 5 } }));
+    vi.stubGlobal("fetch", fetch);
+    const ask = vi.fn();
+
+    const saved = await saveWithMerge("project", mine, { name: "North Tower" }, save, ask);
+
+    expect(saved).toMatchObject({ name: "North Tower", client: "Acme Ltd", version: 5 });
+    expect(ask).not.toHaveBeenCalled();
+    expect(fetch.mock.calls[0][1].headers.get("If-Match")).toBe('"3"');
+    expect(fetch.mock.calls[1][1].headers.get("If-Match")).toBe('"4"');
+    expect(JSON.parse(fetch.mock.calls[1][1].body)).toEqual({ name: "North Tower" });
+  });
+
+  it("should put clashing fields to the user and retry with their choice", async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(json(409, { current: { ...theirs, budget: 1500 } }))
+      .mockResolvedValueOnce(json(200, { project: { ...theirs, budget: 1200, version: 5 } }));
+    vi.stubGlobal("fetch", fetch);
+    const ask = vi.fn(async (_entity, merge) => resolveConflicts(merge, { budget: "mine" }));
+
+    const saved = await saveWithMerge("project", mine, { budget: 1200 }, save, ask);
+
+    expect(ask.mock.calls[0][1].conflicts).toEqual([{ field: "budget", base: 1000, mine: 1200, theirs: 1500 }]);
+    expect(JSON.parse(fetch.mock.calls[1][1].body)).toEqual({ budget: 1200 });
+    expect(saved).toMatchObject({ budget: 1200, version: 5 });
+  });
+
+  it("should keep their version when the user discards the merge", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValueOnce(json(409, { current: { ...theirs, budget: 1500 } })));
+
+    const saved = await saveWithMerge("project", mine, { budget: 1200 }, save, async () => null);
+
+    expect(saved).toMatchObject({ budget: 1500, version: 4 });
+  });
+});
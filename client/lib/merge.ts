@@ -0,0 +1,96 @@
+/**
+ * Three-way merge for conflicting edits
+ * When an update is refused because someone else saved first, the fields
+ * only one side changed merge cleanly; fields both sides changed to
+ * different values need a choice.
+ */
+
+import { AppError, ErrorCodes } from './error-handler';
+
+export interface FieldConflict {
+  field: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface MergeResult {
+  // Changes that still need saving on top of the other person's version
+  merged: Record<string, unknown>;
+  conflicts: FieldConflict[];
+}
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export function mergeChanges(
+  base: Record<string, unknown>,
+  changes: Record<string, unknown>,
+  theirs: Record<string, unknown>
+): MergeResult {
+  const merged: Record<string, unknown> = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const [field, mine] of Object.entries(changes)) {
+    // Untouched fields, and edits the other person already made, need nothing
+    if (same(mine, base[field]) || same(mine, theirs[field])) continue;
+    if (same(base[field], theirs[field])) {
+      merged[field] = mine;
+    } else {
+      conflicts.push({ field, base: base[field], mine, theirs: theirs[field] });
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+// The update to retry with once every conflict has a choice; unanswered ones keep theirs
+export function resolveConflicts(
+  { merged, conflicts }: MergeResult,
+  choices: Record<string, ConflictChoice>
+): Record<string, unknown> {
+  const update = { ...merged };
+  for (const conflict of conflicts) {
+    if (choices[conflict.field] === 'mine') {
+      update[conflict.field] = conflict.mine;
+    }
+  }
+  return update;
+}
+
+export type ConflictEntity = 'project' | 'material';
+
+// Resolves with the update to retry, or null if the user keeps the other version
+export type AskToResolve = (entity: ConflictEntity, merge: MergeResult) => Promise<Record<string, unknown> | null>;
+
+const isConflict = (err: unknown): err is AppError =>
+  err instanceof AppError && err.code === ErrorCodes.CONFLICT && !!err.details;
+
+/**
+ * Saves changes made to `base`. On a conflict the other person's version is
+ * merged in: a clean merge is retried straight away, clashing fields are put
+ * to the user. Resolves with the saved record, or theirs if nothing of ours
+ * is left to save.
+ */
+export async function saveWithMerge<T extends { version?: number }>(
+  entity: ConflictEntity,
+  base: T,
+  changes: Record<string, unknown>,
+  save: (update: Record<string, unknown>, version?: number) => Promise<T>,
+  ask: AskToResolve
+): Promise<T> {
+  try {
+    return await save(changes, base.version);
+  } catch (err) {
+    if (!isConflict(err) || base.version === undefined) throw err;
+
+    const theirs = err.details as T;
+    const merge = mergeChanges(base as Record<string, unknown>, changes, theirs as Record<string, unknown>);
+    const update = merge.conflicts.length === 0 ? merge.merged : await ask(entity, merge);
+    if (!update || Object.keys(update).length === 0) {
+      return theirs;
+    }
+    return saveWithMerge(entity, theirs, update, save, ask);
+  }
+}
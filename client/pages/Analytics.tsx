@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { api } from "@/lib/api";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
@@ -33,6 +34,7 @@ import {
   Loader2
 } from "lucide-react";
 import { toast } from "sonner";
+import { formatMoney } from "@/components/CostControlPanel";
 
 interface Project {
   id: number;
@@ -50,6 +52,14 @@ interface Project {
   updated_at: string;
 }
 
+// Portfolio totals from the server, converted into the user's reporting currency
+interface PortfolioTotals {
+  totalBudget: number;
+  totalSpent: number;
+  currency: string;
+  missingRates: string[];
+}
+
 interface AnalyticsData {
   projects: Project[];
   totalProjects: number;
@@ -80,18 +90,54 @@ interface AnalyticsData {
   }>;
 }
 
+interface RiskHeatMapCell {
+  probability: number;
+  impact: number;
+  level: 'low' | 'medium' | 'high';
+  count: number;
+  riskIds: number[];
+}
+
+interface RegisterRisk {
+  id: number;
+  project_id: number;
+  project_name?: string;
+  title: string;
+  probability: number;
+  impact: number;
+  score: number;
+  level: 'low' | 'medium' | 'high';
+  review_date: string | null;
+  review_overdue: boolean;
+}
+
+interface RiskHeatMap {
+  cells: RiskHeatMapCell[];
+  risks: RegisterRisk[];
+}
+
+const heatMapCellClass = {
+  low: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+};
+
 export default function Analytics() {
   const { token } = useAuth();
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
+  const [riskHeatMap, setRiskHeatMap] = useState<RiskHeatMap | null>(null);
+  const [portfolio, setPortfolio] = useState<PortfolioTotals | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchAnalytics();
+    fetchRiskHeatMap();
+    fetchPortfolioTotals();
   }, []);
 
-  const fetchAnalytics = async () => {
+  const fetchPortfolioTotals = async () => {
     try {
-      const response = await fetch('/api/projects', {
+      const response = await fetch('/api/analytics/advanced', {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
@@ -99,14 +145,39 @@ export default function Analytics() {
 
       if (response.ok) {
         const data = await response.json();
-        const projects = data.projects || [];
-        
-        // Calculate analytics
-        const analytics = calculateAnalytics(projects);
-        setAnalyticsData(analytics);
-      } else {
-        toast.error('Failed to fetch analytics data');
+        setPortfolio({
+          totalBudget: data.summary.totalBudget,
+          totalSpent: data.summary.totalSpent,
+          currency: data.currency.reporting,
+          missingRates: data.currency.missingRates,
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching portfolio totals:', error);
+    }
+  };
+
+  const fetchRiskHeatMap = async () => {
+    try {
+      const response = await fetch('/api/analytics/risk-heat-map', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        setRiskHeatMap(await response.json());
       }
+    } catch (error) {
+      console.error('Error fetching risk heat map:', error);
+    }
+  };
+
+  const fetchAnalytics = async () => {
+    try {
+      // Every project, not just the first page
+      const projects: Project[] = await api.getProjects();
+      setAnalyticsData(calculateAnalytics(projects));
     } catch (error) {
       toast.error('Error fetching analytics');
     } finally {
@@ -251,7 +322,10 @@ export default function Analytics() {
     progressData,
   } = analyticsData;
 
-  const budgetUtilization = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0;
+  // Mixed-currency portfolios only add up once converted on the server
+  const portfolioBudget = portfolio ? portfolio.totalBudget : totalBudget;
+  const portfolioSpent = portfolio ? portfolio.totalSpent : totalSpent;
+  const budgetUtilization = portfolioBudget > 0 ? (portfolioSpent / portfolioBudget) * 100 : 0;
 
   return (
     <div className="container py-8 md:py-10">
@@ -284,10 +358,15 @@ export default function Analytics() {
               <DollarSign className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">£{totalBudget.toLocaleString()}</div>
+              <div className="text-2xl font-bold">{formatMoney(portfolioBudget, portfolio?.currency)}</div>
               <p className="text-xs text-muted-foreground">
                 {budgetUtilization.toFixed(1)}% utilized
               </p>
+              {portfolio && portfolio.missingRates.length > 0 && (
+                <p className="text-xs text-amber-600">
+                  Excludes {portfolio.missingRates.join(', ')} amounts with no rate to {portfolio.currency}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -498,6 +577,57 @@ export default function Analytics() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Risk Heat Map</CardTitle>
+                <CardDescription>Open risks from project registers by probability and impact</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {riskHeatMap && riskHeatMap.risks.length > 0 ? (
+                  <div className="grid gap-6 lg:grid-cols-2">
+                    <div className="flex gap-2">
+                      <div className="flex items-center">
+                        <span className="text-xs text-muted-foreground [writing-mode:vertical-rl] rotate-180">Probability</span>
+                      </div>
+                      <div className="flex-1">
+                        <div className="grid grid-cols-5 gap-1">
+                          {riskHeatMap.cells.map(cell => (
+                            <div
+                              key={`${cell.probability}-${cell.impact}`}
+                              className={`flex h-12 items-center justify-center rounded text-sm font-semibold ${heatMapCellClass[cell.level]} ${cell.count === 0 ? 'opacity-40' : ''}`}
+                              title={`Probability ${cell.probability}, impact ${cell.impact}`}
+                            >
+                              {cell.count > 0 ? cell.count : ''}
+                            </div>
+                          ))}
+                        </div>
+                        <div className="mt-1 text-center text-xs text-muted-foreground">Impact</div>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      {riskHeatMap.risks.slice(0, 8).map(risk => (
+                        <div key={risk.id} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                          <div className="min-w-0">
+                            <div className="truncate font-medium">{risk.title}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {risk.project_name}
+                              {risk.review_overdue && <span className="text-red-600"> · review overdue</span>}
+                            </div>
+                          </div>
+                          <Badge style={{ backgroundColor: getRiskColor(risk.level) }} className="text-white">
+                            {risk.score}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No open risks in your project registers.</p>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </div>
@@ -1,5 +1,13 @@
 import { useEffect, useMemo, useState } from "react";
 import constructionData, { type Project } from "@/data/construction";
+import { useAuth } from "@/hooks/use-auth";
+import { api } from "@/lib/api";
+import AcceptanceCriteriaChecklist from "@/components/AcceptanceCriteriaChecklist";
+import TimesheetPanel from "@/components/TimesheetPanel";
+import CostControlPanel, { type CostReport } from "@/components/CostControlPanel";
+import ClaimsPanel from "@/components/ClaimsPanel";
+import ChangeOrdersPanel from "@/components/ChangeOrdersPanel";
+import WorkingCalendarPanel from "@/components/WorkingCalendarPanel";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -54,16 +62,69 @@ import {
   Cell,
 } from "recharts";
 
+interface SiteProject {
+  id: number;
+  name: string;
+  currency: string;
+  member_role?: 'owner' | 'manager' | 'editor' | 'viewer';
+}
+
+interface EvmSeriesPoint {
+  date: string;
+  PV: number;
+  EV: number | null;
+  AC: number | null;
+}
+
 const abccColors = ["hsl(var(--primary))", "hsl(var(--accent))", "#B4413C", "#ECEBD5"]; // brand
 
 export default function Construction() {
   const [module, setModule] = useState<string>("dashboard");
   const [projectId, setProjectId] = useState<number>(constructionData.projects[0].id);
   const project = useMemo<Project | undefined>(() => constructionData.projects.find(p => p.id === projectId), [projectId]);
+  const { token } = useAuth();
+  const [siteProjects, setSiteProjects] = useState<SiteProject[]>([]);
+  const [siteProjectId, setSiteProjectId] = useState<number | null>(null);
+  const siteProject = siteProjects.find(p => p.id === siteProjectId);
+
+  // Acceptance criteria, working calendars, timesheets, cost control and claims are real project data, so these modules list the user's own projects
+  useEffect(() => {
+    if (module !== 'acc' && module !== 'projects' && module !== 'time' && module !== 'abcc' && module !== 'budget' && module !== 'dashboard') return;
+    api.getProjects()
+      .then((projects: SiteProject[]) => {
+        setSiteProjects(projects);
+        setSiteProjectId(current => current ?? projects[0]?.id ?? null);
+      })
+      .catch(() => toast.error('Failed to load projects'));
+  }, [module, token]);
+
+  const [costReport, setCostReport] = useState<CostReport | null>(null);
+  const [evmSeries, setEvmSeries] = useState<EvmSeriesPoint[]>([]);
+
+  const fetchCostData = () => {
+    if (!siteProjectId) return;
+    const headers = { 'Authorization': `Bearer ${token}` };
+    fetch(`/api/projects/${siteProjectId}/cost-report`, { headers })
+      .then(response => response.ok ? response.json() : Promise.reject(response))
+      .then(data => setCostReport(data.report))
+      .catch(() => toast.error('Failed to load cost report'));
+    fetch(`/api/projects/${siteProjectId}/evm`, { headers })
+      .then(response => response.ok ? response.json() : Promise.reject(response))
+      .then(data => setEvmSeries(data.earnedValue?.series ?? []))
+      .catch(() => setEvmSeries([]));
+  };
 
-  const costPerfData = [];
+  useEffect(() => {
+    setCostReport(null);
+    if (module === 'abcc' || module === 'dashboard') fetchCostData();
+  }, [module, siteProjectId, token]);
+
+  const costPerfData = evmSeries.map(point => ({ name: point.date, PV: point.PV, EV: point.EV, AC: point.AC }));
 
-  const abccData = [];
+  // Actual cost so far by cost code
+  const abccData = (costReport ? [...costReport.lines, ...(costReport.uncoded ? [costReport.uncoded] : [])] : [])
+    .filter(line => line.actual > 0)
+    .map(line => ({ name: line.code ? `${line.code} ${line.name}` : line.name, value: line.actual }));
 
   useEffect(() => {
     const id = setInterval(() => setNow(new Date()), 30000);
@@ -80,7 +141,7 @@ export default function Construction() {
     monitorWeather: () => toast("Weather monitoring enabled"),
     viewAI: () => { toast("AI insights loading..."); setModule("reports"); },
     startMeeting: () => toast("Starting video conference..."),
-    clock: () => toast.success("Clock-in recorded"),
+    clock: () => setModule("time"),
     scan: () => toast("QR/Barcode scanner activated"),
     call: () => toast("Calling…"),
   };
@@ -177,40 +238,7 @@ export default function Construction() {
               <Kpi title="AI Predictions" value="92% Accuracy" note="Forecast Confidence" trend="right" progress={92} />
             </div>
 
-            <div className="grid gap-6 lg:grid-cols-3">
-              <Card className="lg:col-span-2">
-                <CardHeader><CardTitle>Cost Performance (EVM)</CardTitle></CardHeader>
-                <CardContent className="h-[320px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <RLineChart data={costPerfData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="name" />
-                      <YAxis tickFormatter={(v)=>`£${v/1000}k`} />
-                      <Tooltip formatter={(v:number)=>`£${(v/1000).toFixed(0)}k`} />
-                      <Legend />
-                      <Area type="monotone" dataKey="PV" stroke="hsl(var(--primary))" fill="hsl(var(--primary)/0.15)" />
-                      <Area type="monotone" dataKey="EV" stroke="#FFC185" fill="rgba(255,193,133,0.2)" />
-                      <Line type="monotone" dataKey="AC" stroke="#B4413C" strokeWidth={2} dot={false} />
-                    </RLineChart>
-                  </ResponsiveContainer>
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader><CardTitle>ABCC Distribution</CardTitle></CardHeader>
-                <CardContent className="h-[320px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie data={abccData} dataKey="value" nameKey="name" innerRadius={60} outerRadius={100} paddingAngle={2}>
-                        {abccData.map((_, i) => (<Cell key={i} fill={abccColors[i%abccColors.length]} />))}
-                      </Pie>
-                      <Legend />
-                      <Tooltip formatter={(v:number)=>`£${(v/1000).toFixed(0)}k`} />
-                    </PieChart>
-                  </ResponsiveContainer>
-                </CardContent>
-              </Card>
-            </div>
+            <CostCharts costPerfData={costPerfData} abccData={abccData} />
 
             <div className="grid gap-6 lg:grid-cols-2">
               <Card>
@@ -269,7 +297,173 @@ export default function Construction() {
           </div>
         )}
 
-        {module !== "dashboard" && (
+        {module === "acc" && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <CardTitle>Acceptance Criteria</CardTitle>
+                {siteProjects.length > 0 && (
+                  <Select value={siteProjectId ? String(siteProjectId) : undefined} onValueChange={(v)=>setSiteProjectId(Number(v))}>
+                    <SelectTrigger className="w-64"><SelectValue placeholder="Select project"/></SelectTrigger>
+                    <SelectContent>
+                      {siteProjects.map(p => (<SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {siteProject ? (
+                <AcceptanceCriteriaChecklist
+                  key={siteProject.id}
+                  projectId={siteProject.id}
+                  canEdit={siteProject.member_role !== 'viewer'}
+                  canSignOff={siteProject.member_role === 'owner' || siteProject.member_role === 'manager'}
+                />
+              ) : (
+                <p className="text-muted-foreground">Create a project to start an acceptance checklist.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {module === "projects" && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <CardTitle>Working Calendar</CardTitle>
+                {siteProjects.length > 0 && (
+                  <Select value={siteProjectId ? String(siteProjectId) : undefined} onValueChange={(v)=>setSiteProjectId(Number(v))}>
+                    <SelectTrigger className="w-64"><SelectValue placeholder="Select project"/></SelectTrigger>
+                    <SelectContent>
+                      {siteProjects.map(p => (<SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {siteProject ? (
+                <WorkingCalendarPanel key={siteProject.id} projectId={siteProject.id} canEdit={siteProject.member_role !== 'viewer'} />
+              ) : (
+                <p className="text-muted-foreground">Create a project to set up its working calendar.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {module === "time" && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <CardTitle>Time & Labor</CardTitle>
+                {siteProjects.length > 0 && (
+                  <Select value={siteProjectId ? String(siteProjectId) : undefined} onValueChange={(v)=>setSiteProjectId(Number(v))}>
+                    <SelectTrigger className="w-64"><SelectValue placeholder="Select project"/></SelectTrigger>
+                    <SelectContent>
+                      {siteProjects.map(p => (<SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {siteProject ? (
+                <TimesheetPanel
+                  key={siteProject.id}
+                  projectId={siteProject.id}
+                  canClock={siteProject.member_role !== 'viewer'}
+                  canApprove={siteProject.member_role === 'owner' || siteProject.member_role === 'manager'}
+                />
+              ) : (
+                <p className="text-muted-foreground">Create a project to start recording time.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {module === "abcc" && (
+          <div className="space-y-6">
+            <CostCharts costPerfData={costPerfData} abccData={abccData} />
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <CardTitle>Cost Control (ABCC)</CardTitle>
+                  {siteProjects.length > 0 && (
+                    <Select value={siteProjectId ? String(siteProjectId) : undefined} onValueChange={(v)=>setSiteProjectId(Number(v))}>
+                      <SelectTrigger className="w-64"><SelectValue placeholder="Select project"/></SelectTrigger>
+                      <SelectContent>
+                        {siteProjects.map(p => (<SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {siteProject ? (
+                  <CostControlPanel
+                    key={siteProject.id}
+                    projectId={siteProject.id}
+                    report={costReport}
+                    canManage={siteProject.member_role === 'owner' || siteProject.member_role === 'manager'}
+                    currency={siteProject.currency}
+                    onChange={fetchCostData}
+                  />
+                ) : (
+                  <p className="text-muted-foreground">Create a project to start tracking costs.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {module === "budget" && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <CardTitle>Progress Claims</CardTitle>
+                  {siteProjects.length > 0 && (
+                    <Select value={siteProjectId ? String(siteProjectId) : undefined} onValueChange={(v)=>setSiteProjectId(Number(v))}>
+                      <SelectTrigger className="w-64"><SelectValue placeholder="Select project"/></SelectTrigger>
+                      <SelectContent>
+                        {siteProjects.map(p => (<SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {siteProject ? (
+                  <ClaimsPanel
+                    key={siteProject.id}
+                    projectId={siteProject.id}
+                    canEdit={siteProject.member_role !== 'viewer'}
+                    canManage={siteProject.member_role === 'owner' || siteProject.member_role === 'manager'}
+                    currency={siteProject.currency}
+                  />
+                ) : (
+                  <p className="text-muted-foreground">Create a project to start billing.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Change Orders</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {siteProject ? (
+                  <ChangeOrdersPanel key={siteProject.id} projectId={siteProject.id} role={siteProject.member_role} currency={siteProject.currency} />
+                ) : (
+                  <p className="text-muted-foreground">Create a project to raise change orders.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {module !== "dashboard" && module !== "acc" && module !== "projects" && module !== "time" && module !== "abcc" && module !== "budget" && (
           <Card>
             <CardHeader>
               <CardTitle className="capitalize">{module.replace(/-/g, " ")}</CardTitle>
@@ -284,6 +478,45 @@ export default function Construction() {
   );
 }
 
+function CostCharts({ costPerfData, abccData }:{ costPerfData: { name: string; PV: number; EV: number | null; AC: number | null }[]; abccData: { name: string; value: number }[] }){
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <Card className="lg:col-span-2">
+        <CardHeader><CardTitle>Cost Performance (EVM)</CardTitle></CardHeader>
+        <CardContent className="h-[320px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <RLineChart data={costPerfData} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis tickFormatter={(v)=>`£${v/1000}k`} />
+              <Tooltip formatter={(v:number)=>`£${(v/1000).toFixed(0)}k`} />
+              <Legend />
+              <Area type="monotone" dataKey="PV" stroke="hsl(var(--primary))" fill="hsl(var(--primary)/0.15)" />
+              <Area type="monotone" dataKey="EV" stroke="#FFC185" fill="rgba(255,193,133,0.2)" />
+              <Line type="monotone" dataKey="AC" stroke="#B4413C" strokeWidth={2} dot={false} />
+            </RLineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader><CardTitle>ABCC Distribution</CardTitle></CardHeader>
+        <CardContent className="h-[320px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie data={abccData} dataKey="value" nameKey="name" innerRadius={60} outerRadius={100} paddingAngle={2}>
+                {abccData.map((_, i) => (<Cell key={i} fill={abccColors[i%abccColors.length]} />))}
+              </Pie>
+              <Legend />
+              <Tooltip formatter={(v:number)=>`£${(v/1000).toFixed(0)}k`} />
+            </PieChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 function NavItem({ icon, children, active, onClick }:{ icon: React.ReactNode; children: React.ReactNode; active?: boolean; onClick?: ()=>void }){
   return (
     <button onClick={onClick} className={`flex w-full items-center justify-between rounded-lg border px-3 py-2 text-left text-sm transition-colors ${active ? 'bg-primary/5 border-primary/30 text-foreground' : 'hover:bg-accent'}`}>
@@ -4,17 +4,48 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { TrendingUp, TrendingDown, Thermometer, CloudSun, CloudRain, Hammer, Users, AlertTriangle, PhoneCall, Mail, Loader2 } from "lucide-react";
+import { TrendingUp, TrendingDown, Thermometer, CloudSun, CloudRain, Hammer, Users, AlertTriangle, PhoneCall, Mail, Loader2, Pencil } from "lucide-react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, Area, PieChart, Pie, Cell } from "recharts";
 import { cn } from "@/lib/utils";
-import { useProjects, type Project } from "@/hooks/use-projects";
+import { useProjects, type Material, type Project } from "@/hooks/use-projects";
 import { useUserData } from "@/hooks/use-user-data";
 import { useWeather } from "@/hooks/use-weather";
 import { useNotifications } from "@/hooks/use-notifications";
 import { useAuth } from "@/hooks/use-auth";
+import { formatMoney } from "@/components/CostControlPanel";
+import MaterialEditDialog from "@/components/MaterialEditDialog";
+
+interface EarnedValueMetrics {
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+  cpi: number | null;
+  spi: number | null;
+  eac: number | null;
+  etc: number | null;
+  vac: number | null;
+}
+
+interface ProjectEarnedValue {
+  projectId: number;
+  metrics: EarnedValueMetrics;
+  series: { date: string; PV: number; EV: number | null; AC: number | null }[];
+}
+
+interface VarianceHistory {
+  original_budget: number;
+  current_budget: number;
+  original_end_date: string | null;
+  current_end_date: string | null;
+  cost_variance: number;
+  cost_variance_percent: number | null;
+  schedule_variance_days: number | null;
+  points: { date: string; reference: string; title: string; budget: number; cost_variance: number }[];
+}
 
 export default function Dashboard() {
-  const { user } = useAuth();
+  const { user, token } = useAuth();
   const { projects, loading: projectsLoading, error: projectsError } = useProjects();
   const { userData, statistics, loading: userLoading, error: userError, getUserData, getUserStatistics } = useUserData();
   const { current: weatherCurrent, forecast: weatherForecast, loading: weatherLoading, error: weatherError, getWeather } = useWeather();
@@ -22,6 +53,10 @@ export default function Dashboard() {
   
   const [projectId, setProjectId] = useState<string>('');
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
+  const [earnedValue, setEarnedValue] = useState<ProjectEarnedValue | null>(null);
+  const [variance, setVariance] = useState<VarianceHistory | null>(null);
+  const [materials, setMaterials] = useState<Material[] | null>(null);
+  const [editingMaterial, setEditingMaterial] = useState<Material | null>(null);
 
   // Initialize data on mount
   useEffect(() => {
@@ -48,35 +83,98 @@ export default function Dashboard() {
     }
   }, [projectId, projects]);
 
+  // Earned value is computed server-side from the project's baseline and snapshots
+  useEffect(() => {
+    if (!projectId || !token) return;
+
+    let cancelled = false;
+    fetch(`/api/analytics/advanced?projectId=${projectId}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled) setEarnedValue(data?.earnedValue?.projects?.[0] ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setEarnedValue(null);
+      });
+
+    return () => { cancelled = true; };
+  }, [projectId, token]);
+
+  // Budget and end date movement from approved change orders
+  useEffect(() => {
+    if (!projectId || !token) return;
+
+    let cancelled = false;
+    fetch(`/api/projects/${projectId}/change-orders`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled) setVariance(data?.history ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setVariance(null);
+      });
+
+    return () => { cancelled = true; };
+  }, [projectId, token]);
+
+  // Project lists come without materials
+  useEffect(() => {
+    if (!projectId || !token) return;
+
+    let cancelled = false;
+    fetch(`/api/projects/${projectId}/materials`, {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled) setMaterials(data?.materials ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setMaterials(null);
+      });
+
+    return () => { cancelled = true; };
+  }, [projectId, token]);
+
   const project = selectedProject;
 
-  // Generate cost performance data based on project data
+  const varianceData = useMemo(() => {
+    if (!variance || variance.points.length === 0) return [];
+
+    return [
+      { name: 'Original', budget: variance.original_budget, reference: 'Original budget' },
+      ...variance.points.map(point => ({
+        name: point.reference,
+        budget: point.budget,
+        reference: `${point.reference}: ${point.title}`,
+      })),
+    ];
+  }, [variance]);
+
   const costPerfData = useMemo(() => {
-    if (!project) return [];
-    
-    const weeks = Math.ceil(project.progress / 20); // Approximate weeks based on progress
-    const data = [];
-    
-    for (let i = 1; i <= Math.max(weeks, 4); i++) {
-      const weekProgress = Math.min((i / Math.max(weeks, 4)) * 100, project.progress);
-      const PV = (weekProgress / 100) * project.budget;
-      const EV = PV * 0.95; // Slightly under budget
-      const AC = EV * 1.02; // Slightly over actual cost
-      
-      data.push({
-        name: i === Math.max(weeks, 4) ? "Current" : `Week ${i}`,
-        PV: Math.round(PV),
-        EV: Math.round(EV),
-        AC: Math.round(AC)
-      });
-    }
-    
-    return data;
-  }, [project]);
+    if (!earnedValue) return [];
+
+    return earnedValue.series.map(point => ({
+      ...point,
+      name: new Date(point.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }),
+    }));
+  }, [earnedValue]);
+
+  const evm = earnedValue?.metrics;
 
   // Generate ABC analysis data based on project materials
   const abccData = useMemo(() => {
-    if (!project || !project.materials) {
+    if (!project || !materials) {
       return [
         { name: "Labor", value: 328000 },
         { name: "Materials", value: 284000 },
@@ -85,7 +183,7 @@ export default function Dashboard() {
       ];
     }
     
-    const materialCost = project.materials.reduce((sum, material) => sum + (material.cost || 0), 0);
+    const materialCost = materials.reduce((sum, material) => sum + (material.cost || 0), 0);
     const laborCost = Math.round(project.spent * 0.4);
     const equipmentCost = Math.round(project.spent * 0.2);
     const overheadCost = Math.round(project.spent * 0.15);
@@ -96,7 +194,7 @@ export default function Dashboard() {
       { name: "Equipment", value: equipmentCost },
       { name: "Overhead", value: overheadCost },
     ];
-  }, [project]);
+  }, [project, materials]);
 
   const abccColors = ["hsl(var(--primary))", "hsl(var(--accent))", "#B4413C", "#ECEBD5"]; // brand aligned
 
@@ -159,7 +257,7 @@ export default function Dashboard() {
             <Badge className="bg-primary/10 text-primary border-primary/20 hover-scale animate-in bounce-in">Active project</Badge>
             <h1 className="text-3xl font-bold tracking-tight text-balance">{project.name}</h1>
           </div>
-          <p className="text-base text-muted-foreground text-pretty">Budget £{project.budget.toLocaleString()} • Spent £{project.spent.toLocaleString()} • Status {project.status}</p>
+          <p className="text-base text-muted-foreground text-pretty">Budget {formatMoney(project.budget, project.currency)} • Spent {formatMoney(project.spent, project.currency)} • Status {project.status}</p>
         </div>
 
         <div className="flex items-center gap-4 animate-in slide-up" style={{ animationDelay: '200ms' }}>
@@ -181,10 +279,26 @@ export default function Dashboard() {
         </KpiCard>
         <KpiCard title="Budget used" value={`${budgetUsedPct}%`} className="animate-in slide-up" style={{ animationDelay: '400ms' }}>
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
-            £{project.spent.toLocaleString()} of £{project.budget.toLocaleString()}
+            {formatMoney(project.spent, project.currency)} of {formatMoney(project.budget, project.currency)}
           </div>
         </KpiCard>
-        <KpiCard title="Performance" value={`Progress ${project.progress}%`} icon={project.progress >= 75 ? <TrendingUp className="h-4 w-4 text-emerald-600"/> : <TrendingDown className="h-4 w-4 text-destructive"/>} className="animate-in slide-up" style={{ animationDelay: '500ms' }} />
+        {evm ? (
+          <KpiCard
+            title="Performance (EVM)"
+            value={`CPI ${formatIndex(evm.cpi)} • SPI ${formatIndex(evm.spi)}`}
+            icon={(evm.cpi ?? 1) >= 1 && (evm.spi ?? 1) >= 1 ? <TrendingUp className="h-4 w-4 text-emerald-600"/> : <TrendingDown className="h-4 w-4 text-destructive"/>}
+            className="animate-in slide-up"
+            style={{ animationDelay: '500ms' }}
+          >
+            <div className="text-sm text-muted-foreground">
+              EAC {evm.eac !== null ? formatMoney(evm.eac, project.currency) : '—'} • VAC {evm.vac !== null ? formatMoney(evm.vac, project.currency) : '—'}
+            </div>
+          </KpiCard>
+        ) : (
+          <KpiCard title="Performance (EVM)" value="No baseline" className="animate-in slide-up" style={{ animationDelay: '500ms' }}>
+            <div className="text-sm text-muted-foreground">Set a baseline to compute CPI and SPI</div>
+          </KpiCard>
+        )}
       </div>
 
       <div className="grid gap-6 lg:grid-cols-3">
@@ -193,9 +307,15 @@ export default function Dashboard() {
             <CardTitle className="text-xl">Cost Performance (EVM)</CardTitle>
           </CardHeader>
           <CardContent className="h-[320px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <ComposedCostPerformance data={costPerfData} />
-            </ResponsiveContainer>
+            {costPerfData.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedCostPerformance data={costPerfData} />
+              </ResponsiveContainer>
+            ) : (
+              <div className="flex h-full items-center justify-center text-muted-foreground">
+                No baseline recorded for this project yet
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -224,17 +344,22 @@ export default function Dashboard() {
           <Card>
             <CardHeader><CardTitle>Materials status</CardTitle></CardHeader>
             <CardContent className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
-              {project.materials && project.materials.length > 0 ? (
-                project.materials.map(m => (
+              {materials && materials.length > 0 ? (
+                materials.map(m => (
                   <div key={m.id} className="rounded-xl border p-4">
                     <div className="flex items-center justify-between">
                       <div>
                         <div className="font-medium">{m.name}</div>
                         <div className="text-xs text-muted-foreground">{m.quantity || 0} {m.unit || 'units'}</div>
                       </div>
-                      <Badge className={m.status === 'used' ? 'bg-destructive text-destructive-foreground' : m.status === 'ordered' ? 'bg-amber-500 text-white' : 'bg-emerald-500 text-white'}>
-                        {m.status}
-                      </Badge>
+                      <div className="flex items-center gap-1">
+                        <Badge className={m.status === 'used' ? 'bg-destructive text-destructive-foreground' : m.status === 'ordered' ? 'bg-amber-500 text-white' : 'bg-emerald-500 text-white'}>
+                          {m.status}
+                        </Badge>
+                        <Button variant="ghost" size="sm" title="Edit material" onClick={() => setEditingMaterial(m)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
                   </div>
                 ))
@@ -246,6 +371,63 @@ export default function Dashboard() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader><CardTitle>Budget &amp; schedule changes</CardTitle></CardHeader>
+            <CardContent className="space-y-4">
+              {variance && variance.points.length > 0 ? (
+                <>
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    <div className="rounded-xl border p-4">
+                      <div className="text-xs text-muted-foreground">Original budget</div>
+                      <div className="font-medium">{formatMoney(variance.original_budget, project.currency)}</div>
+                    </div>
+                    <div className="rounded-xl border p-4">
+                      <div className="text-xs text-muted-foreground">Current budget</div>
+                      <div className="font-medium">{formatMoney(variance.current_budget, project.currency)}</div>
+                      {variance.cost_variance_percent !== null && (
+                        <div className={cn("flex items-center gap-1 text-xs", variance.cost_variance > 0 ? "text-destructive" : "text-emerald-600")}>
+                          {variance.cost_variance > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                          {variance.cost_variance > 0 ? '+' : ''}{variance.cost_variance_percent}%
+                        </div>
+                      )}
+                    </div>
+                    <div className="rounded-xl border p-4">
+                      <div className="text-xs text-muted-foreground">Schedule</div>
+                      <div className="font-medium">
+                        {variance.schedule_variance_days === null
+                          ? 'No end date'
+                          : variance.schedule_variance_days === 0
+                            ? 'On original date'
+                            : `${Math.abs(variance.schedule_variance_days)} days ${variance.schedule_variance_days > 0 ? 'later' : 'earlier'}`}
+                      </div>
+                      {variance.current_end_date && (
+                        <div className="text-xs text-muted-foreground">Ends {new Date(variance.current_end_date).toLocaleDateString()}</div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={varianceData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" />
+                        <YAxis tickFormatter={(v: number) => `${(v/1000).toFixed(0)}k`} />
+                        <Tooltip
+                          formatter={(v: number) => formatMoney(v, project.currency)}
+                          labelFormatter={(_, payload) => payload?.[0]?.payload?.reference ?? ''}
+                        />
+                        <Line type="stepAfter" dataKey="budget" name="Budget" stroke="hsl(var(--primary))" strokeWidth={2} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  No approved change orders for this project
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader><CardTitle>Project Overview</CardTitle></CardHeader>
             <CardContent className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
@@ -394,6 +576,12 @@ export default function Dashboard() {
           </Card>
         </div>
       </div>
+
+      <MaterialEditDialog
+        material={editingMaterial}
+        onClose={() => setEditingMaterial(null)}
+        onSaved={(saved) => setMaterials(prev => prev && prev.map(m => m.id === saved.id ? saved : m))}
+      />
     </div>
   );
 }
@@ -422,7 +610,11 @@ function KpiCard({ title, value, icon, children, className, style }: { title: st
   );
 }
 
-function ComposedCostPerformance({ data }: { data: { name: string; PV: number; EV: number; AC: number }[] }) {
+function formatIndex(value: number | null) {
+  return value !== null ? value.toFixed(2) : '—';
+}
+
+function ComposedCostPerformance({ data }: { data: { name: string; PV: number; EV: number | null; AC: number | null }[] }) {
   return (
     <LineChart data={data} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
       <CartesianGrid strokeDasharray="3 3" />
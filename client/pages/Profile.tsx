@@ -7,7 +7,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
-import { Loader2, User, Mail, Calendar, Shield } from "lucide-react";
+import { Loader2, User, Mail, Calendar, Shield, Coins, CalendarClock } from "lucide-react";
+import CurrencySettings from "@/components/CurrencySettings";
+import CalendarFeedSettings from "@/components/CalendarFeedSettings";
 import { toast } from "sonner";
 
 export default function Profile() {
@@ -125,6 +127,36 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Coins className="h-5 w-5" />
+              Currency
+            </CardTitle>
+            <CardDescription>
+              Reporting currency and the exchange rates used to convert into it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CurrencySettings canManage={user.role === 'admin' || user.role === 'manager'} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Calendar Feed
+            </CardTitle>
+            <CardDescription>
+              Subscribe to your projects' milestones, inspections and deliveries from any calendar app
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CalendarFeedSettings />
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Account Actions</CardTitle>
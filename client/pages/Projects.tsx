@@ -1,5 +1,8 @@
 import { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/hooks/use-auth";
+import { api } from "@/lib/api";
+import { useVersionedSave } from "@/hooks/use-projects";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,8 +11,14 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Plus, Edit, Trash2, Package, TrendingUp, TrendingDown } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Edit, Trash2, Package, TrendingUp, TrendingDown, Users, Truck, Copy, LayoutTemplate, History, Upload } from "lucide-react";
 import { toast } from "sonner";
+import ProjectMembersDialog, { ProjectRole } from "@/components/ProjectMembersDialog";
+import TrashDialog from "@/components/TrashDialog";
+import ProjectHistoryDialog from "@/components/ProjectHistoryDialog";
+import ImportDialog from "@/components/ImportDialog";
+import { formatMoney } from "@/components/CostControlPanel";
 
 interface Project {
   id: number;
@@ -30,31 +39,77 @@ interface Project {
   end_date?: string;
   team_size?: number;
   contractor?: string;
+  currency: string;
   created_at: string;
   updated_at: string;
-  materials?: Material[];
+  member_role?: ProjectRole;
+  version?: number;
 }
 
-interface Material {
+interface ProjectFilters {
+  search: string;
+  status: string;
+  risk_level: string;
+  client: string;
+  contractor: string;
+  from: string;
+  to: string;
+  sort: string;
+}
+
+const PAGE_SIZE = 24;
+
+const defaultFilters: ProjectFilters = {
+  search: '',
+  status: 'all',
+  risk_level: 'all',
+  client: '',
+  contractor: '',
+  from: '',
+  to: '',
+  sort: 'created_at',
+};
+
+// The edit form as filled in from a listed project
+const projectForm = (project: Project) => ({
+  name: project.name,
+  budget: project.budget,
+  client: project.client || '',
+  location: project.location || '',
+  start_date: project.start_date || '',
+  end_date: project.end_date || '',
+  contractor: project.contractor || '',
+  currency: project.currency,
+});
+
+interface ProjectTemplate {
   id: number;
   name: string;
-  current_stock: number;
-  total_required: number;
-  status: 'adequate' | 'low' | 'critical';
-  cost: number;
-  supplier: string;
-  project_id: number;
-  created_at: string;
-  updated_at: string;
+  description: string | null;
+  source_budget: number;
+  content: { materials: unknown[]; tasks: unknown[]; acceptance_criteria: unknown[]; folders: string[] };
 }
 
 export default function Projects() {
   const { token } = useAuth();
+  const { saveProject, conflictDialog } = useVersionedSave();
+  const [searchParams] = useSearchParams();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<ProjectFilters>(defaultFilters);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [membersProject, setMembersProject] = useState<Project | null>(null);
+  const [historyProject, setHistoryProject] = useState<Project | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importProject, setImportProject] = useState<Project | null>(null);
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('none');
+  const [currencies, setCurrencies] = useState<string[]>(['GBP']);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     budget: 0,
@@ -63,15 +118,47 @@ export default function Projects() {
     start_date: '',
     end_date: '',
     contractor: '',
+    currency: 'GBP',
   });
 
   useEffect(() => {
-    fetchProjects();
+    fetchTemplates();
+    fetchCurrencies();
   }, []);
 
-  const fetchProjects = async () => {
+  // Global search results link here with the project to look for
+  useEffect(() => {
+    const q = searchParams.get('q');
+    if (q !== null) {
+      setFilters({ ...defaultFilters, search: q });
+    }
+  }, [searchParams]);
+
+  // Typing in the search box shouldn't send a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => fetchProjects(), 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const hasFilters = Object.entries(filters).some(([key, value]) => key !== 'sort' && value !== defaultFilters[key as keyof ProjectFilters]);
+
+  // Blank filters are left out of the request
+  const projectQuery = (cursor?: string) => ({
+    limit: PAGE_SIZE,
+    sort: filters.sort,
+    q: filters.search.trim(),
+    status: filters.status !== 'all' ? filters.status : undefined,
+    risk_level: filters.risk_level !== 'all' ? filters.risk_level : undefined,
+    client: filters.client.trim(),
+    contractor: filters.contractor.trim(),
+    from: filters.from,
+    to: filters.to,
+    cursor,
+  });
+
+  const fetchTemplates = async () => {
     try {
-      const response = await fetch('/api/projects', {
+      const response = await fetch('/api/templates', {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
@@ -79,17 +166,49 @@ export default function Projects() {
 
       if (response.ok) {
         const data = await response.json();
-        setProjects(data.projects || []);
-      } else {
-        toast.error('Failed to fetch projects');
+        setTemplates(data.templates || []);
       }
     } catch (error) {
-      toast.error('Error fetching projects');
+      console.error('Error fetching templates:', error);
+    }
+  };
+
+  const fetchCurrencies = async () => {
+    try {
+      const response = await fetch('/api/exchange-rates', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCurrencies(data.currencies);
+      }
+    } catch (error) {
+      console.error('Error fetching currencies:', error);
+    }
+  };
+
+  // Without a cursor the list starts over, with one the next page is appended
+  const fetchProjects = async (cursor?: string) => {
+    if (cursor) setLoadingMore(true);
+    try {
+      const data = await api.listProjects(projectQuery(cursor));
+      setProjects(prev => cursor ? [...prev, ...data.projects] : data.projects);
+      setNextCursor(data.next_cursor);
+    } catch (error) {
+      toast.error('Failed to fetch projects');
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
+  const updateFilter = (key: keyof ProjectFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
   const handleCreateProject = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -100,13 +219,17 @@ export default function Projects() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          template_id: templateId === 'none' ? undefined : Number(templateId),
+        }),
       });
 
       if (response.ok) {
         const data = await response.json();
         setProjects([data.project, ...projects]);
         setIsCreateDialogOpen(false);
+        setTemplateId('none');
         setFormData({
           name: '',
           budget: 0,
@@ -115,6 +238,7 @@ export default function Projects() {
           start_date: '',
           end_date: '',
           contractor: '',
+          currency: 'GBP',
         });
         toast.success('Project created successfully!');
       } else {
@@ -125,8 +249,82 @@ export default function Projects() {
     }
   };
 
+  const handleSaveAsTemplate = async (project: Project) => {
+    const name = prompt('Template name', project.name);
+    if (!name) return;
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/templates`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates([...templates, data.template].sort((a, b) => a.name.localeCompare(b.name)));
+        toast.success(`Saved "${data.template.name}" as a template`);
+      } else {
+        toast.error('Failed to save template');
+      }
+    } catch (error) {
+      toast.error('Error saving template');
+    }
+  };
+
+  const handleCloneProject = async (project: Project) => {
+    try {
+      const response = await fetch(`/api/projects/${project.id}/clone`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ name: `${project.name} (copy)` }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setProjects([data.project, ...projects]);
+        toast.success('Project duplicated');
+      } else {
+        toast.error('Failed to duplicate project');
+      }
+    } catch (error) {
+      toast.error('Error duplicating project');
+    }
+  };
+
+  // Only the fields edited here are sent, so someone else's edits to the rest survive a merge
+  const handleUpdateProject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingProject) return;
+
+    const opened = projectForm(editingProject);
+    const changes = Object.fromEntries(
+      Object.entries(formData).filter(([field, value]) => value !== opened[field as keyof typeof opened])
+    );
+    if (Object.keys(changes).length === 0) {
+      setIsEditDialogOpen(false);
+      return;
+    }
+
+    try {
+      const project = await saveProject(String(editingProject.id), changes, editingProject);
+      setProjects(prev => prev.map(p => p.id === project.id ? { ...p, ...project } : p));
+      setIsEditDialogOpen(false);
+      setEditingProject(null);
+      toast.success('Project updated');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update project');
+    }
+  };
+
   const handleDeleteProject = async (projectId: number) => {
-    if (!confirm('Are you sure you want to delete this project?')) return;
+    if (!confirm('Move this project to the trash?')) return;
 
     try {
       const response = await fetch(`/api/projects/${projectId}`, {
@@ -138,7 +336,7 @@ export default function Projects() {
 
       if (response.ok) {
         setProjects(projects.filter(p => p.id !== projectId));
-        toast.success('Project deleted successfully!');
+        toast.success('Project moved to the trash');
       } else {
         toast.error('Failed to delete project');
       }
@@ -197,67 +395,201 @@ export default function Projects() {
             </p>
           </div>
           
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                New Project
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[425px]">
-              <DialogHeader>
-                <DialogTitle>Create New Project</DialogTitle>
-                <DialogDescription>
-                  Add a new construction project to track progress and manage resources.
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleCreateProject}>
-                <div className="grid gap-4 py-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="name">Project Name</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="budget">Budget (£)</Label>
-                    <Input
-                      id="budget"
-                      type="number"
-                      value={formData.budget}
-                      onChange={(e) => setFormData({ ...formData, budget: Number(e.target.value) })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="client">Client</Label>
-                    <Input
-                      id="client"
-                      value={formData.client}
-                      onChange={(e) => setFormData({ ...formData, client: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="location">Location</Label>
-                    <Input
-                      id="location"
-                      value={formData.location}
-                      onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                    />
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button variant="outline" onClick={() => setIsTrashOpen(true)}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Trash
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/suppliers">
+                <Truck className="mr-2 h-4 w-4" />
+                Suppliers
+              </Link>
+            </Button>
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Project
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                  <DialogTitle>Create New Project</DialogTitle>
+                  <DialogDescription>
+                    Add a new construction project to track progress and manage resources.
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleCreateProject}>
+                  <div className="grid gap-4 py-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Project Name</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="budget">Budget</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="budget"
+                          type="number"
+                          value={formData.budget}
+                          onChange={(e) => setFormData({ ...formData, budget: Number(e.target.value) })}
+                          required
+                        />
+                        <Select value={formData.currency} onValueChange={(currency) => setFormData({ ...formData, currency })}>
+                          <SelectTrigger className="w-28" aria-label="Currency"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {currencies.map(c => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="client">Client</Label>
+                      <Input
+                        id="client"
+                        value={formData.client}
+                        onChange={(e) => setFormData({ ...formData, client: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="location">Location</Label>
+                      <Input
+                        id="location"
+                        value={formData.location}
+                        onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="start_date">Start Date</Label>
+                      <Input
+                        id="start_date"
+                        type="date"
+                        value={formData.start_date}
+                        onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                      />
+                    </div>
+                    {templates.length > 0 && (
+                      <div className="space-y-2">
+                        <Label>Template</Label>
+                        <Select value={templateId} onValueChange={setTemplateId}>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Empty project</SelectItem>
+                            {templates.map(t => (
+                              <SelectItem key={t.id} value={String(t.id)}>
+                                {t.name} · {t.content.materials.length} materials, {t.content.tasks.length} tasks
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {templateId !== 'none' && (
+                          <p className="text-xs text-muted-foreground">
+                            Quantities are scaled to the budget and dates moved to the start date.
+                          </p>
+                        )}
+                      </div>
+                    )}
                   </div>
-                </div>
-                <DialogFooter>
-                  <Button type="submit">Create Project</Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <DialogFooter>
+                    <Button type="submit">Create Project</Button>
+                  </DialogFooter>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1 flex-1 min-w-[200px]">
+            <Label htmlFor="project-search">Search</Label>
+            <Input
+              id="project-search"
+              placeholder="Name, client, location or contractor"
+              value={filters.search}
+              onChange={(e) => updateFilter('search', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="planning">Planning</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Risk</Label>
+            <Select value={filters.risk_level} onValueChange={(value) => updateFilter('risk_level', value)}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any risk</SelectItem>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-client">Client</Label>
+            <Input id="filter-client" className="w-[150px]" value={filters.client} onChange={(e) => updateFilter('client', e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-contractor">Contractor</Label>
+            <Input id="filter-contractor" className="w-[150px]" value={filters.contractor} onChange={(e) => updateFilter('contractor', e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-from">Running from</Label>
+            <Input id="filter-from" type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="filter-to">to</Label>
+            <Input id="filter-to" type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Sort by</Label>
+            <Select value={filters.sort} onValueChange={(value) => updateFilter('sort', value)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="created_at">Newest</SelectItem>
+                <SelectItem value="updated_at">Recently updated</SelectItem>
+                <SelectItem value="name">Name</SelectItem>
+                <SelectItem value="budget">Budget</SelectItem>
+                <SelectItem value="progress">Progress</SelectItem>
+                <SelectItem value="start_date">Start date</SelectItem>
+                <SelectItem value="end_date">End date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" onClick={() => setFilters({ ...defaultFilters, sort: filters.sort })}>
+              Clear filters
+            </Button>
+          )}
         </div>
 
-        {projects.length === 0 ? (
+        {projects.length === 0 && hasFilters ? (
+          <p className="py-12 text-center text-muted-foreground">No projects match these filters.</p>
+        ) : projects.length === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
               <Package className="h-12 w-12 text-muted-foreground mb-4" />
@@ -288,29 +620,68 @@ export default function Projects() {
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => {
-                          setEditingProject(project);
-                          setFormData({
-                            name: project.name,
-                            budget: project.budget,
-                            client: project.client || '',
-                            location: project.location || '',
-                            start_date: project.start_date || '',
-                            end_date: project.end_date || '',
-                            contractor: project.contractor || '',
-                          });
-                          setIsEditDialogOpen(true);
-                        }}
+                        onClick={() => setMembersProject(project)}
                       >
-                        <Edit className="h-4 w-4" />
+                        <Users className="h-4 w-4" />
                       </Button>
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={() => handleDeleteProject(project.id)}
+                        title="History"
+                        onClick={() => setHistoryProject(project)}
                       >
-                        <Trash2 className="h-4 w-4" />
+                        <History className="h-4 w-4" />
                       </Button>
+                      {project.member_role !== 'viewer' && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Save as template"
+                            onClick={() => handleSaveAsTemplate(project)}
+                          >
+                            <LayoutTemplate className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Duplicate"
+                            onClick={() => handleCloneProject(project)}
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Import materials"
+                            onClick={() => setImportProject(project)}
+                          >
+                            <Upload className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                      {project.member_role !== 'viewer' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditingProject(project);
+                            setFormData(projectForm(project));
+                            setIsEditDialogOpen(true);
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(!project.member_role || project.member_role === 'owner') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteProject(project.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -322,6 +693,9 @@ export default function Projects() {
                     <Badge className={getRiskColor(project.risk_level)}>
                       {project.risk_level} risk
                     </Badge>
+                    {project.member_role && project.member_role !== 'owner' && (
+                      <Badge variant="outline">Shared · {project.member_role}</Badge>
+                    )}
                   </div>
 
                   <div className="space-y-2">
@@ -335,11 +709,11 @@ export default function Projects() {
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
                       <div className="text-muted-foreground">Budget</div>
-                      <div className="font-semibold">£{project.budget.toLocaleString()}</div>
+                      <div className="font-semibold">{formatMoney(project.budget, project.currency)}</div>
                     </div>
                     <div>
                       <div className="text-muted-foreground">Spent</div>
-                      <div className="font-semibold">£{project.spent.toLocaleString()}</div>
+                      <div className="font-semibold">{formatMoney(project.spent, project.currency)}</div>
                     </div>
                   </div>
 
@@ -361,40 +735,155 @@ export default function Projects() {
                       <span>SPI: {project.spi.toFixed(2)}</span>
                     </div>
                   </div>
-
-                  {project.materials && project.materials.length > 0 && (
-                    <div className="pt-2 border-t">
-                      <div className="text-sm text-muted-foreground mb-2">Materials</div>
-                      <div className="space-y-1">
-                        {project.materials.slice(0, 2).map((material) => (
-                          <div key={material.id} className="flex items-center justify-between text-xs">
-                            <span>{material.name}</span>
-                            <Badge
-                              className={
-                                material.status === 'critical'
-                                  ? 'bg-red-100 text-red-800'
-                                  : material.status === 'low'
-                                  ? 'bg-yellow-100 text-yellow-800'
-                                  : 'bg-green-100 text-green-800'
-                              }
-                            >
-                              {material.status}
-                            </Badge>
-                          </div>
-                        ))}
-                        {project.materials.length > 2 && (
-                          <div className="text-xs text-muted-foreground">
-                            +{project.materials.length - 2} more
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  )}
                 </CardContent>
               </Card>
             ))}
           </div>
         )}
+
+        {nextCursor && (
+          <div className="flex justify-center">
+            <Button variant="outline" disabled={loadingMore} onClick={() => fetchProjects(nextCursor)}>
+              {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
+
+        <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>Edit Project</DialogTitle>
+              <DialogDescription>
+                If someone else saves this project first, their changes are merged with yours.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleUpdateProject}>
+              <div className="grid gap-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-name">Project Name</Label>
+                  <Input
+                    id="edit-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-budget">Budget</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="edit-budget"
+                      type="number"
+                      value={formData.budget}
+                      onChange={(e) => setFormData({ ...formData, budget: Number(e.target.value) })}
+                      required
+                    />
+                    <Select value={formData.currency} onValueChange={(currency) => setFormData({ ...formData, currency })}>
+                      <SelectTrigger className="w-28" aria-label="Currency"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {currencies.map(c => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-client">Client</Label>
+                  <Input
+                    id="edit-client"
+                    value={formData.client}
+                    onChange={(e) => setFormData({ ...formData, client: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-contractor">Contractor</Label>
+                  <Input
+                    id="edit-contractor"
+                    value={formData.contractor}
+                    onChange={(e) => setFormData({ ...formData, contractor: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-location">Location</Label>
+                  <Input
+                    id="edit-location"
+                    value={formData.location}
+                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-start-date">Start Date</Label>
+                    <Input
+                      id="edit-start-date"
+                      type="date"
+                      value={formData.start_date}
+                      onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-end-date">End Date</Label>
+                    <Input
+                      id="edit-end-date"
+                      type="date"
+                      value={formData.end_date}
+                      onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                    />
+                  </div>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="submit">Save Changes</Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {conflictDialog}
+
+        <TrashDialog open={isTrashOpen} onOpenChange={setIsTrashOpen} onRestored={() => fetchProjects()} />
+
+        <ImportDialog
+          entity="projects"
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onImported={() => fetchProjects()}
+        />
+
+        {importProject && (
+          <ImportDialog
+            entity="materials"
+            projectId={importProject.id}
+            projectName={importProject.name}
+            open={!!importProject}
+            onOpenChange={(open) => !open && setImportProject(null)}
+            onImported={() => fetchProjects()}
+          />
+        )}
+
+        {historyProject && (
+          <ProjectHistoryDialog
+            projectId={historyProject.id}
+            projectName={historyProject.name}
+            open={!!historyProject}
+            onOpenChange={(open) => !open && setHistoryProject(null)}
+          />
+        )}
+
+        {membersProject && (
+          <ProjectMembersDialog
+            projectId={membersProject.id}
+            projectName={membersProject.name}
+            currentRole={membersProject.member_role}
+            open={!!membersProject}
+            onOpenChange={(open) => {
+              if (!open) {
+                setMembersProject(null);
+                fetchProjects();
+              }
+            }}
+          />
+        )}
       </div>
     </div>
   );
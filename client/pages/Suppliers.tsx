@@ -0,0 +1,690 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Edit, Loader2, Plus, Search, Trash2, Truck } from "lucide-react";
+import { toast } from "sonner";
+import { formatMoney } from "@/components/CostControlPanel";
+
+interface SupplierContact {
+  name: string;
+  role?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  is_primary?: boolean;
+}
+
+interface SupplierPerformance {
+  totalOrders: number;
+  openOrders: number;
+  completedOrders: number;
+  overdueOrders: number;
+  onTimeRate: number | null;
+  averageDelayDays: number | null;
+  averageLeadTimeDays: number | null;
+  // In the reader's reporting currency
+  totalSpend: number;
+  currency: string;
+  missingRates: string[];
+}
+
+interface Supplier {
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  website: string | null;
+  contacts: SupplierContact[];
+  lead_time_days: number;
+  notes: string | null;
+  is_active: boolean;
+  performance: SupplierPerformance;
+}
+
+interface SupplierPrice {
+  id: number;
+  item_name: string;
+  unit: string | null;
+  unit_price: number;
+  currency: string;
+  min_quantity: number;
+  lead_time_days: number | null;
+  valid_from: string;
+  valid_to: string | null;
+  is_current: boolean;
+}
+
+const emptySupplierForm = {
+  name: '',
+  email: '',
+  phone: '',
+  website: '',
+  lead_time_days: 7,
+  notes: '',
+  contact_name: '',
+  contact_email: '',
+  contact_phone: '',
+};
+
+const emptyPriceForm = {
+  item_name: '',
+  unit: '',
+  unit_price: 0,
+  currency: 'GBP',
+  lead_time_days: '',
+};
+
+const onTimeBadge = (rate: number | null) => {
+  if (rate === null) return <Badge variant="outline">No deliveries</Badge>;
+  const variant = rate >= 90 ? 'default' : rate >= 70 ? 'secondary' : 'destructive';
+  return <Badge variant={variant}>{rate}% on time</Badge>;
+};
+
+export default function Suppliers() {
+  const { user, token } = useAuth();
+  // The directory is company-wide, so only admins and managers maintain it
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [formData, setFormData] = useState(emptySupplierForm);
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
+  const [prices, setPrices] = useState<SupplierPrice[]>([]);
+  const [priceForm, setPriceForm] = useState(emptyPriceForm);
+  const [currencies, setCurrencies] = useState<string[]>(['GBP']);
+
+  const authHeaders = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`,
+  };
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [showInactive]);
+
+  useEffect(() => {
+    fetchCurrencies();
+  }, []);
+
+  const fetchCurrencies = async () => {
+    try {
+      const response = await fetch('/api/exchange-rates', { headers: authHeaders });
+      if (response.ok) {
+        const data = await response.json();
+        setCurrencies(data.currencies);
+      }
+    } catch (error) {
+      console.error('Error fetching currencies:', error);
+    }
+  };
+
+  const fetchSuppliers = async () => {
+    try {
+      const params = new URLSearchParams();
+      if (search.trim()) params.set('search', search.trim());
+      if (showInactive) params.set('include_inactive', 'true');
+
+      const response = await fetch(`/api/suppliers?${params}`, { headers: authHeaders });
+      if (response.ok) {
+        const data = await response.json();
+        setSuppliers(data.suppliers || []);
+      } else {
+        toast.error('Failed to fetch suppliers');
+      }
+    } catch (error) {
+      toast.error('Error fetching suppliers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openSupplierForm = (supplier: Supplier | null) => {
+    const primary = supplier?.contacts.find(c => c.is_primary) || supplier?.contacts[0];
+    setEditingSupplier(supplier);
+    setFormData(supplier ? {
+      name: supplier.name,
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      website: supplier.website || '',
+      lead_time_days: supplier.lead_time_days,
+      notes: supplier.notes || '',
+      contact_name: primary?.name || '',
+      contact_email: primary?.email || '',
+      contact_phone: primary?.phone || '',
+    } : emptySupplierForm);
+    setIsFormOpen(true);
+  };
+
+  const handleSaveSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // The form edits the primary contact; any others are kept as they are
+    const existing = editingSupplier?.contacts || [];
+    const edited = existing.find(c => c.is_primary) || existing[0];
+    const otherContacts = existing.filter(c => c !== edited);
+    const contacts = formData.contact_name.trim()
+      ? [{
+          name: formData.contact_name.trim(),
+          email: formData.contact_email.trim() || undefined,
+          phone: formData.contact_phone.trim() || undefined,
+          is_primary: true,
+        }, ...otherContacts]
+      : otherContacts;
+
+    const payload = {
+      name: formData.name,
+      email: formData.email.trim() || null,
+      phone: formData.phone.trim() || null,
+      website: formData.website.trim() || null,
+      lead_time_days: Number(formData.lead_time_days),
+      notes: formData.notes.trim() || null,
+      contacts,
+    };
+
+    try {
+      const response = await fetch(editingSupplier ? `/api/suppliers/${editingSupplier.id}` : '/api/suppliers', {
+        method: editingSupplier ? 'PUT' : 'POST',
+        headers: authHeaders,
+        body: JSON.stringify(payload),
+      });
+
+      if (response.ok) {
+        setIsFormOpen(false);
+        toast.success(editingSupplier ? 'Supplier updated' : 'Supplier added');
+        fetchSuppliers();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.message || data.errors?.[0]?.message || 'Failed to save supplier');
+      }
+    } catch (error) {
+      toast.error('Error saving supplier');
+    }
+  };
+
+  const handleToggleActive = async (supplier: Supplier) => {
+    try {
+      const response = await fetch(`/api/suppliers/${supplier.id}`, {
+        method: 'PUT',
+        headers: authHeaders,
+        body: JSON.stringify({ is_active: !supplier.is_active }),
+      });
+
+      if (response.ok) {
+        toast.success(supplier.is_active ? 'Supplier deactivated' : 'Supplier reactivated');
+        fetchSuppliers();
+      } else {
+        toast.error('Failed to update supplier');
+      }
+    } catch (error) {
+      toast.error('Error updating supplier');
+    }
+  };
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    if (!confirm(`Delete ${supplier.name} from the directory?`)) return;
+
+    try {
+      const response = await fetch(`/api/suppliers/${supplier.id}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+
+      if (response.ok) {
+        setSuppliers(suppliers.filter(s => s.id !== supplier.id));
+        toast.success('Supplier deleted');
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.message || 'Failed to delete supplier');
+      }
+    } catch (error) {
+      toast.error('Error deleting supplier');
+    }
+  };
+
+  const openSupplierDetail = async (supplier: Supplier) => {
+    setSelectedSupplier(supplier);
+    setPrices([]);
+    setPriceForm(emptyPriceForm);
+
+    try {
+      const response = await fetch(`/api/suppliers/${supplier.id}/prices`, { headers: authHeaders });
+      if (response.ok) {
+        const data = await response.json();
+        setPrices(data.prices || []);
+      }
+    } catch (error) {
+      toast.error('Error fetching price list');
+    }
+  };
+
+  const handleAddPrice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedSupplier) return;
+
+    try {
+      const response = await fetch(`/api/suppliers/${selectedSupplier.id}/prices`, {
+        method: 'POST',
+        headers: authHeaders,
+        body: JSON.stringify({
+          item_name: priceForm.item_name,
+          unit: priceForm.unit.trim() || null,
+          unit_price: Number(priceForm.unit_price),
+          currency: priceForm.currency,
+          lead_time_days: priceForm.lead_time_days === '' ? null : Number(priceForm.lead_time_days),
+        }),
+      });
+
+      if (response.ok) {
+        setPriceForm({ ...emptyPriceForm, currency: priceForm.currency });
+        openSupplierDetail(selectedSupplier);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.message || data.errors?.[0]?.message || 'Failed to add price');
+      }
+    } catch (error) {
+      toast.error('Error adding price');
+    }
+  };
+
+  const handleDeletePrice = async (priceId: number) => {
+    if (!selectedSupplier) return;
+
+    try {
+      const response = await fetch(`/api/suppliers/${selectedSupplier.id}/prices/${priceId}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+
+      if (response.ok) {
+        setPrices(prices.filter(p => p.id !== priceId));
+      } else {
+        toast.error('Failed to delete price');
+      }
+    } catch (error) {
+      toast.error('Error deleting price');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container py-8 md:py-10">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8 md:py-10">
+      <div className="flex flex-col gap-6">
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <Button variant="ghost" size="sm" className="mb-2 -ml-2" asChild>
+              <Link to="/projects">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Projects
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold">Supplier Directory</h1>
+            <p className="text-muted-foreground">
+              Contacts, lead times, price lists and delivery performance for your vendors
+            </p>
+          </div>
+          {canManage && (
+            <Button onClick={() => openSupplierForm(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Supplier
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+              <div>
+                <CardTitle>Suppliers</CardTitle>
+                <CardDescription>On-time rate and lead time are measured from goods received</CardDescription>
+              </div>
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => { e.preventDefault(); fetchSuppliers(); }}
+              >
+                <Input
+                  placeholder="Search suppliers"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+                <Button type="submit" variant="outline" size="icon">
+                  <Search className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant={showInactive ? 'secondary' : 'outline'}
+                  onClick={() => setShowInactive(!showInactive)}
+                >
+                  {showInactive ? 'Hide inactive' : 'Show inactive'}
+                </Button>
+              </form>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {suppliers.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12">
+                <Truck className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">No suppliers found</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Primary contact</TableHead>
+                    <TableHead>Lead time</TableHead>
+                    <TableHead>Performance</TableHead>
+                    <TableHead>Orders</TableHead>
+                    <TableHead className="text-right">Spend</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppliers.map((supplier) => {
+                    const primary = supplier.contacts.find(c => c.is_primary) || supplier.contacts[0];
+                    const { performance } = supplier;
+                    return (
+                      <TableRow key={supplier.id} className={supplier.is_active ? '' : 'opacity-60'}>
+                        <TableCell>
+                          <button className="font-medium hover:underline text-left" onClick={() => openSupplierDetail(supplier)}>
+                            {supplier.name}
+                          </button>
+                          {!supplier.is_active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                          <div className="text-xs text-muted-foreground">{supplier.email || supplier.phone}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {primary ? (
+                            <>
+                              <div>{primary.name}</div>
+                              <div className="text-xs text-muted-foreground">{primary.email || primary.phone}</div>
+                            </>
+                          ) : '—'}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{supplier.lead_time_days} days quoted</div>
+                          {performance.averageLeadTimeDays !== null && (
+                            <div className="text-xs text-muted-foreground">{performance.averageLeadTimeDays} days actual</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {onTimeBadge(performance.onTimeRate)}
+                          {performance.averageDelayDays ? (
+                            <div className="text-xs text-muted-foreground mt-1">avg {performance.averageDelayDays} days late</div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{performance.openOrders} open / {performance.completedOrders} delivered</div>
+                          {performance.overdueOrders > 0 && (
+                            <div className="text-xs text-red-600">{performance.overdueOrders} overdue</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatMoney(performance.totalSpend, performance.currency)}
+                          {performance.missingRates.length > 0 && (
+                            <div className="text-xs text-muted-foreground">Excludes {performance.missingRates.join(', ')} orders</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {canManage && (
+                            <div className="flex justify-end gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => openSupplierForm(supplier)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleToggleActive(supplier)}>
+                                {supplier.is_active ? 'Deactivate' : 'Activate'}
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDeleteSupplier(supplier)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? 'Edit Supplier' : 'New Supplier'}</DialogTitle>
+            <DialogDescription>Materials and purchase orders are linked to suppliers in this directory.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveSupplier}>
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplier-name">Name</Label>
+                <Input
+                  id="supplier-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplier-email">Email</Label>
+                  <Input
+                    id="supplier-email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplier-phone">Phone</Label>
+                  <Input
+                    id="supplier-phone"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplier-website">Website</Label>
+                  <Input
+                    id="supplier-website"
+                    value={formData.website}
+                    onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplier-lead-time">Lead time (days)</Label>
+                  <Input
+                    id="supplier-lead-time"
+                    type="number"
+                    min={0}
+                    value={formData.lead_time_days}
+                    onChange={(e) => setFormData({ ...formData, lead_time_days: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Primary contact</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    placeholder="Name"
+                    value={formData.contact_name}
+                    onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Email"
+                    type="email"
+                    value={formData.contact_email}
+                    onChange={(e) => setFormData({ ...formData, contact_email: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Phone"
+                    value={formData.contact_phone}
+                    onChange={(e) => setFormData({ ...formData, contact_phone: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-notes">Notes</Label>
+                <Textarea
+                  id="supplier-notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="submit">{editingSupplier ? 'Save Changes' : 'Add Supplier'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedSupplier} onOpenChange={(open) => !open && setSelectedSupplier(null)}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>{selectedSupplier?.name}</DialogTitle>
+            <DialogDescription>
+              {selectedSupplier?.lead_time_days} day quoted lead time
+              {selectedSupplier?.website && ` • ${selectedSupplier.website}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedSupplier && selectedSupplier.contacts.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-sm font-medium">Contacts</div>
+              {selectedSupplier.contacts.map((contact, index) => (
+                <div key={index} className="text-sm flex justify-between">
+                  <span>
+                    {contact.name}
+                    {contact.role && <span className="text-muted-foreground"> • {contact.role}</span>}
+                    {contact.is_primary && <Badge variant="secondary" className="ml-2">Primary</Badge>}
+                  </span>
+                  <span className="text-muted-foreground">{[contact.email, contact.phone].filter(Boolean).join(' • ')}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Price list</div>
+            {prices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No prices recorded</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Lead time</TableHead>
+                    <TableHead>Valid</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {prices.map((price) => (
+                    <TableRow key={price.id} className={price.is_current ? '' : 'opacity-60'}>
+                      <TableCell>{price.item_name}</TableCell>
+                      <TableCell>
+                        {formatMoney(Number(price.unit_price), price.currency)}{price.unit && ` / ${price.unit}`}
+                      </TableCell>
+                      <TableCell>{price.lead_time_days ?? selectedSupplier?.lead_time_days} days</TableCell>
+                      <TableCell className="text-xs">
+                        {price.valid_from}{price.valid_to ? ` – ${price.valid_to}` : ' onwards'}
+                      </TableCell>
+                      <TableCell>
+                        {canManage && (
+                          <Button variant="ghost" size="sm" onClick={() => handleDeletePrice(price.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {canManage && (
+            <form onSubmit={handleAddPrice} className="grid grid-cols-6 gap-2 items-end">
+              <div className="col-span-2 space-y-1">
+                <Label htmlFor="price-item">Item</Label>
+                <Input
+                  id="price-item"
+                  value={priceForm.item_name}
+                  onChange={(e) => setPriceForm({ ...priceForm, item_name: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="price-unit">Unit</Label>
+                <Input
+                  id="price-unit"
+                  value={priceForm.unit}
+                  onChange={(e) => setPriceForm({ ...priceForm, unit: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="price-amount">Price</Label>
+                <div className="flex gap-1">
+                  <Input
+                    id="price-amount"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={priceForm.unit_price}
+                    onChange={(e) => setPriceForm({ ...priceForm, unit_price: Number(e.target.value) })}
+                    required
+                  />
+                  <Select value={priceForm.currency} onValueChange={(currency) => setPriceForm({ ...priceForm, currency })}>
+                    <SelectTrigger className="w-20" aria-label="Currency"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {currencies.map(c => (<SelectItem key={c} value={c}>{c}</SelectItem>))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="price-lead-time">Days</Label>
+                <Input
+                  id="price-lead-time"
+                  type="number"
+                  min={0}
+                  value={priceForm.lead_time_days}
+                  onChange={(e) => setPriceForm({ ...priceForm, lead_time_days: e.target.value })}
+                />
+              </div>
+              <Button type="submit">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
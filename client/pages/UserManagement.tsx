@@ -36,7 +36,9 @@ import {
   ShieldCheck, 
   ShieldAlert,
   Loader2,
-  Search
+  Search,
+  ChevronLeft,
+  ChevronRight
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -46,16 +48,22 @@ interface User {
   name: string;
   role: 'admin' | 'manager' | 'user';
   avatar?: string;
+  isActive?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+const PAGE_SIZE = 20;
+
 export default function UserManagement() {
-  const { token, user } = useAuth();
+  const { token, user: currentUser } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [roleFilter, setRoleFilter] = useState<string>("all");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalUsers, setTotalUsers] = useState(0);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditingUser, setIsEditingUser] = useState<User | null>(null);
 
@@ -69,12 +77,18 @@ export default function UserManagement() {
   const [formLoading, setFormLoading] = useState(false);
 
   useEffect(() => {
-    fetchUsers();
-  }, []);
+    // Debounce search input so we don't hit the API on every keystroke
+    const timeout = setTimeout(fetchUsers, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, roleFilter, page]);
 
   const fetchUsers = async () => {
     try {
-      const response = await fetch('/api/admin/users', {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (searchTerm) params.set('search', searchTerm);
+      if (roleFilter !== 'all') params.set('role', roleFilter);
+
+      const response = await fetch(`/api/admin/users?${params.toString()}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
@@ -83,6 +97,8 @@ export default function UserManagement() {
       if (response.ok) {
         const data = await response.json();
         setUsers(data.users || []);
+        setTotalPages(data.pagination?.totalPages || 1);
+        setTotalUsers(data.pagination?.total || 0);
       } else if (response.status === 403) {
         toast.error('Access denied. Admin privileges required.');
       } else {
@@ -185,6 +201,32 @@ export default function UserManagement() {
     }
   };
 
+  const handleToggleActive = async (target: User) => {
+    const isActive = target.isActive !== false;
+    if (isActive && !confirm(`Deactivate ${target.name}? They will no longer be able to sign in.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/users/${target.id}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ isActive: !isActive }),
+      });
+
+      if (response.ok) {
+        toast.success(isActive ? 'User deactivated' : 'User reactivated');
+        fetchUsers();
+      } else {
+        const error = await response.json();
+        toast.error(error.message || 'Failed to update user');
+      }
+    } catch (error) {
+      toast.error('Error updating user');
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       name: "",
@@ -226,15 +268,8 @@ export default function UserManagement() {
     }
   };
 
-  const filteredUsers = users.filter(user => {
-    const matchesSearch = user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         user.email.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesRole = roleFilter === "all" || user.role === roleFilter;
-    return matchesSearch && matchesRole;
-  });
-
   // Check if current user is admin
-  if (user?.role !== 'admin') {
+  if (currentUser?.role !== 'admin') {
     return (
       <div className="container py-8 md:py-10">
         <Alert>
@@ -336,11 +371,20 @@ export default function UserManagement() {
             <Input
               placeholder="Search users..."
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                setPage(1);
+              }}
               className="pl-10"
             />
           </div>
-          <Select value={roleFilter} onValueChange={setRoleFilter}>
+          <Select
+            value={roleFilter}
+            onValueChange={(value) => {
+              setRoleFilter(value);
+              setPage(1);
+            }}
+          >
             <SelectTrigger className="w-40">
               <SelectValue placeholder="Filter by role" />
             </SelectTrigger>
@@ -358,7 +402,7 @@ export default function UserManagement() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Users className="h-5 w-5" />
-              Users ({filteredUsers.length})
+              Users ({totalUsers})
             </CardTitle>
             <CardDescription>
               Manage user accounts and their permissions
@@ -375,12 +419,13 @@ export default function UserManagement() {
                   <TableRow>
                     <TableHead>User</TableHead>
                     <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredUsers.map((user) => (
+                  {users.map((user) => (
                     <TableRow key={user.id}>
                       <TableCell>
                         <div className="flex items-center gap-3">
@@ -399,6 +444,11 @@ export default function UserManagement() {
                           {user.role}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <Badge variant={user.isActive === false ? 'outline' : 'secondary'}>
+                          {user.isActive === false ? 'Deactivated' : 'Active'}
+                        </Badge>
+                      </TableCell>
                       <TableCell>
                         {new Date(user.createdAt).toLocaleDateString()}
                       </TableCell>
@@ -411,14 +461,23 @@ export default function UserManagement() {
                           >
                             Edit
                           </Button>
-                          {user.id !== user.id && (
-                            <Button
-                              variant="destructive"
-                              size="sm"
-                              onClick={() => handleDeleteUser(user.id)}
-                            >
-                              Delete
-                            </Button>
+                          {user.id !== currentUser.id && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleToggleActive(user)}
+                              >
+                                {user.isActive === false ? 'Activate' : 'Deactivate'}
+                              </Button>
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                onClick={() => handleDeleteUser(user.id)}
+                              >
+                                Delete
+                              </Button>
+                            </>
                           )}
                         </div>
                       </TableCell>
@@ -427,6 +486,33 @@ export default function UserManagement() {
                 </TableBody>
               </Table>
             )}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-4">
+                <div className="text-sm text-muted-foreground">
+                  Page {page} of {totalPages}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
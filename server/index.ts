@@ -18,6 +18,12 @@ import {
   handleGetUserPreferences,
   handleUpdateUserPreferences
 } from "./routes/user-data";
+import {
+  handleListUsers,
+  handleCreateUser,
+  handleUpdateUser,
+  handleDeleteUser,
+} from "./routes/admin-users";
 import {
   handleGetProjects,
   handleGetProject,
@@ -29,14 +35,204 @@ import {
   handleUpdateMaterial,
   handleDeleteMaterial,
 } from "./routes/projects";
+import {
+  handleGetProjectMembers,
+  handleInviteProjectMember,
+  handleUpdateProjectMember,
+  handleRemoveProjectMember,
+} from "./routes/project-members";
+import {
+  handleGetProjectSchedule,
+  handleUpdateScheduleSettings,
+  handleCreateProjectTask,
+  handleUpdateProjectTask,
+  handleDeleteProjectTask,
+  handleGetProjectClosures,
+  handleCreateProjectClosure,
+  handleImportProjectClosures,
+  handleDeleteProjectClosure,
+} from "./routes/schedule";
+import {
+  handleGetCalendarFeed,
+  handleCreateCalendarFeed,
+  handleDeleteCalendarFeed,
+  handleServeCalendarFeed,
+} from "./routes/calendar";
+import {
+  handleGetProjectEarnedValue,
+  handleGetBaselines,
+  handleCreateBaseline,
+  handleGetSnapshots,
+  handleRecordSnapshot,
+  handleDeleteSnapshot,
+} from "./routes/evm";
+import {
+  handleGetMaterialTransactions,
+  handleRecordMaterialTransaction,
+  handleGetPurchaseOrders,
+  handleGetPurchaseOrder,
+  handleCreatePurchaseOrder,
+  handleUpdatePurchaseOrder,
+  handleReceiveGoods,
+} from "./routes/inventory";
+import {
+  handleGetSuppliers,
+  handleGetSupplier,
+  handleCreateSupplier,
+  handleUpdateSupplier,
+  handleDeleteSupplier,
+  handleGetSupplierPrices,
+  handleCreateSupplierPrice,
+  handleUpdateSupplierPrice,
+  handleDeleteSupplierPrice,
+} from "./routes/suppliers";
+import {
+  handleGetDiaryEntries,
+  handleGetDiaryEntry,
+  handleCreateDiaryEntry,
+  handleUpdateDiaryEntry,
+  handleDeleteDiaryEntry,
+  handleSignOffDiaryEntry,
+} from "./routes/site-diary";
+import {
+  handleGetRfis,
+  handleGetRfi,
+  handleCreateRfi,
+  handleUpdateRfi,
+  handleUpdateRfiStatus,
+  handleDeleteRfi,
+  handleAddRfiResponse,
+} from "./routes/rfis";
+import {
+  handleGetDefects,
+  handleGetDefect,
+  handleCreateDefect,
+  handleUpdateDefect,
+  handleUpdateDefectStatus,
+  handleVerifyDefect,
+  handleDeleteDefect,
+} from "./routes/defects";
+import {
+  handleGetAcceptanceCriteria,
+  handleCreateAcceptanceCriterion,
+  handleUpdateAcceptanceCriterion,
+  handleDeleteAcceptanceCriterion,
+  handleSignOffAcceptanceCriterion,
+  handleRevokeAcceptanceSignOff,
+} from "./routes/acceptance-criteria";
+import {
+  handleGetRisks,
+  handleGetRisk,
+  handleCreateRisk,
+  handleUpdateRisk,
+  handleDeleteRisk,
+  handleGetProjectRiskHeatMap,
+  handleGetRiskHeatMap,
+} from "./routes/risks";
+import {
+  handleGetCostCodes,
+  handleCreateCostCode,
+  handleUpdateCostCode,
+  handleDeleteCostCode,
+  handleGetCurrentTimeEntry,
+  handleClockIn,
+  handleStartBreak,
+  handleEndBreak,
+  handleClockOut,
+  handleGetTimeEntries,
+  handleUpdateTimeEntry,
+  handleApproveTimeEntry,
+  handleRejectTimeEntry,
+  handleDeleteTimeEntry,
+  handleExportTimesheet,
+} from "./routes/timesheets";
+import {
+  handleGetCostReport,
+  handleGetSubcontracts,
+  handleCreateSubcontract,
+  handleUpdateSubcontract,
+  handleDeleteSubcontract,
+} from "./routes/cost-control";
+import {
+  handleGetScheduleOfValues,
+  handleCreateScheduleOfValuesItem,
+  handleUpdateScheduleOfValuesItem,
+  handleDeleteScheduleOfValuesItem,
+  handleGetVariations,
+  handleCreateVariation,
+  handleUpdateVariation,
+  handleUpdateVariationStatus,
+  handleDeleteVariation,
+  handleGetClaims,
+  handleGetClaim,
+  handleCreateClaim,
+  handleUpdateClaim,
+  handleUpdateClaimStatus,
+  handleDeleteClaim,
+} from "./routes/claims";
+import {
+  handleGetChangeOrders,
+  handleGetChangeOrder,
+  handleCreateChangeOrder,
+  handleUpdateChangeOrder,
+  handleUpdateChangeOrderStatus,
+  handleDecideChangeOrder,
+  handleDeleteChangeOrder,
+} from "./routes/change-orders";
+import {
+  handleGetEquipmentList,
+  handleGetProjectEquipment,
+  handleGetEquipment,
+  handleCreateEquipment,
+  handleUpdateEquipment,
+  handleDeleteEquipment,
+  handleRecordMeterReading,
+  handleRecordService,
+  handleCreateCertificate,
+  handleDeleteCertificate,
+  requireEquipmentAccess,
+} from "./routes/equipment";
+import {
+  handleGetExchangeRates,
+  handleConvertCurrency,
+  handleCreateExchangeRate,
+  handleUpdateExchangeRate,
+  handleDeleteExchangeRate,
+} from "./routes/exchange-rates";
 import {
   handleUploadFile,
   handleGetFiles,
   handleGetFile,
   handleDeleteFile,
   handleGetProjectFiles,
+  handleGetProjectFolders,
+  handleCreateProjectFolder,
+  handleDeleteProjectFolder,
   upload,
 } from "./routes/files";
+import {
+  handleGetTemplates,
+  handleGetTemplate,
+  handleSaveProjectAsTemplate,
+  handleDeleteTemplate,
+  handleCloneProject,
+} from "./routes/templates";
+import {
+  handleGetTrash,
+  handleRestoreProject,
+  handleRestoreMaterial,
+  handlePurgeProject,
+  handlePurgeMaterial,
+} from "./routes/trash";
+import { handleGetProjectHistory } from "./routes/audit";
+import {
+  importUpload,
+  handlePreviewProjectImport,
+  handleCommitProjectImport,
+  handlePreviewMaterialImport,
+  handleCommitMaterialImport,
+} from "./routes/import";
+import { handleSearch } from "./routes/search";
 import { NotificationService } from "./lib/notifications";
 import { 
   handleGetWeather,
@@ -76,6 +272,10 @@ import {
   getCacheStats,
   clearCache,
   compressResponse,
+  invalidateCache,
+  lazyLoad,
+  requireRole,
+  requireProjectAccess,
 } from "./middleware";
 import { 
   handleAIProgressAnalysis,
@@ -157,9 +357,6 @@ import { corsOrigins, pingMessage } from "./lib/config";
 
 export function createServer() {
   const app = express();
-  
-  // Initialize notification service (will be overridden in server.ts)
-  let notificationService: NotificationService | null = null;
 
   // Security Middleware
   app.use(securityHeaders);
@@ -221,30 +418,226 @@ export function createServer() {
   app.get("/api/user/activity", authenticateToken, handleGetUserActivity);
   app.get("/api/user/statistics", authenticateToken, handleGetUserStatistics);
   app.get("/api/user/preferences", authenticateToken, handleGetUserPreferences);
-  app.put("/api/user/preferences", authenticateToken, handleUpdateUserPreferences);
+  app.put("/api/user/preferences", authenticateToken, invalidateCache('analytics:'), handleUpdateUserPreferences);
+
+  // Admin user management routes
+  app.get("/api/admin/users", authenticateToken, requireRole(['admin']), lazyLoad(20), handleListUsers);
+  app.post("/api/admin/users", authenticateToken, requireRole(['admin']), handleCreateUser);
+  app.put("/api/admin/users/:id", authenticateToken, requireRole(['admin']), invalidateCache('profile:'), handleUpdateUser);
+  app.delete("/api/admin/users/:id", authenticateToken, requireRole(['admin']), handleDeleteUser);
 
   // Projects routes (with caching)
   app.get("/api/projects", authenticateToken, cacheProjects, handleGetProjects);
-  app.post("/api/projects", authenticateToken, handleCreateProject);
-  app.get("/api/projects/:id", authenticateToken, handleGetProject);
-  app.put("/api/projects/:id", authenticateToken, handleUpdateProject);
-  app.delete("/api/projects/:id", authenticateToken, handleDeleteProject);
+  app.post("/api/projects", authenticateToken, invalidateCache('projects:'), handleCreateProject);
+  app.get("/api/projects/:id", authenticateToken, requireProjectAccess('view'), handleGetProject);
+  app.put("/api/projects/:id", authenticateToken, requireProjectAccess('edit'), invalidateCache('projects:'), handleUpdateProject);
+  app.delete("/api/projects/:id", authenticateToken, requireProjectAccess('delete'), invalidateCache('projects:'), handleDeleteProject);
+  app.get("/api/projects/:id/history", authenticateToken, requireProjectAccess('view'), handleGetProjectHistory);
+
+  // Bulk import from CSV or XLSX: preview with a column mapping, then commit all rows or none
+  app.post("/api/import/projects/preview", authenticateToken, importUpload.single('file'), handlePreviewProjectImport);
+  app.post("/api/import/projects", authenticateToken, importUpload.single('file'), invalidateCache('analytics:'), invalidateCache('projects:'), handleCommitProjectImport);
+  app.post("/api/projects/:id/import/materials/preview", authenticateToken, requireProjectAccess('edit'), importUpload.single('file'), handlePreviewMaterialImport);
+  app.post("/api/projects/:id/import/materials", authenticateToken, requireProjectAccess('edit'), importUpload.single('file'), invalidateCache('projects:'), handleCommitMaterialImport);
+
+  // Global search across projects, materials, files and comments
+  app.get("/api/search", authenticateToken, handleSearch);
+
+  // Trash: deleted projects and materials until they are restored or purged
+  app.get("/api/trash", authenticateToken, handleGetTrash);
+  app.post("/api/trash/projects/:id/restore", authenticateToken, invalidateCache('analytics:'), invalidateCache('projects:'), handleRestoreProject);
+  app.post("/api/trash/materials/:materialId/restore", authenticateToken, invalidateCache('projects:'), handleRestoreMaterial);
+  app.delete("/api/trash/projects/:id", authenticateToken, requireRole(['admin']), handlePurgeProject);
+  app.delete("/api/trash/materials/:materialId", authenticateToken, requireRole(['admin']), handlePurgeMaterial);
+
+  // Project membership routes
+  app.get("/api/projects/:id/members", authenticateToken, requireProjectAccess('view'), handleGetProjectMembers);
+  app.post("/api/projects/:id/members", authenticateToken, requireProjectAccess('manage'), invalidateCache('projects:'), handleInviteProjectMember);
+  app.put("/api/projects/:id/members/:userId", authenticateToken, requireProjectAccess('manage'), invalidateCache('projects:'), handleUpdateProjectMember);
+  app.delete("/api/projects/:id/members/:userId", authenticateToken, requireProjectAccess('view'), invalidateCache('projects:'), handleRemoveProjectMember);
+
+  // Project schedule routes
+  app.get("/api/projects/:id/schedule", authenticateToken, requireProjectAccess('view'), handleGetProjectSchedule);
+  app.put("/api/projects/:id/schedule", authenticateToken, requireProjectAccess('edit'), handleUpdateScheduleSettings);
+  app.post("/api/projects/:id/tasks", authenticateToken, requireProjectAccess('edit'), handleCreateProjectTask);
+  app.put("/api/projects/:id/tasks/:taskId", authenticateToken, requireProjectAccess('edit'), handleUpdateProjectTask);
+  app.delete("/api/projects/:id/tasks/:taskId", authenticateToken, requireProjectAccess('edit'), handleDeleteProjectTask);
+  app.get("/api/projects/:id/closures", authenticateToken, requireProjectAccess('view'), handleGetProjectClosures);
+  app.post("/api/projects/:id/closures", authenticateToken, requireProjectAccess('edit'), handleCreateProjectClosure);
+  app.post("/api/projects/:id/closures/import", authenticateToken, requireProjectAccess('edit'), importUpload.single('file'), handleImportProjectClosures);
+  app.delete("/api/projects/:id/closures/:closureId", authenticateToken, requireProjectAccess('edit'), handleDeleteProjectClosure);
+
+  // Calendar feed routes
+  app.get("/api/calendar/feed", authenticateToken, handleGetCalendarFeed);
+  app.post("/api/calendar/feed", authenticateToken, handleCreateCalendarFeed);
+  app.delete("/api/calendar/feed", authenticateToken, handleDeleteCalendarFeed);
+  app.get("/api/calendar/feeds/:token", handleServeCalendarFeed);
+
+  // Earned value routes
+  app.get("/api/projects/:id/evm", authenticateToken, requireProjectAccess('view'), handleGetProjectEarnedValue);
+  app.get("/api/projects/:id/baselines", authenticateToken, requireProjectAccess('view'), handleGetBaselines);
+  app.post("/api/projects/:id/baselines", authenticateToken, requireProjectAccess('edit'), invalidateCache('analytics:'), invalidateCache('projects:'), handleCreateBaseline);
+  app.get("/api/projects/:id/evm/snapshots", authenticateToken, requireProjectAccess('view'), handleGetSnapshots);
+  app.post("/api/projects/:id/evm/snapshots", authenticateToken, requireProjectAccess('edit'), invalidateCache('analytics:'), invalidateCache('projects:'), handleRecordSnapshot);
+  app.delete("/api/projects/:id/evm/snapshots/:snapshotId", authenticateToken, requireProjectAccess('edit'), invalidateCache('analytics:'), invalidateCache('projects:'), handleDeleteSnapshot);
 
   // Materials routes
-  app.get("/api/projects/:projectId/materials", authenticateToken, handleGetMaterials);
-  app.post("/api/projects/:projectId/materials", authenticateToken, handleCreateMaterial);
-  app.put("/api/materials/:materialId", authenticateToken, handleUpdateMaterial);
-  app.delete("/api/materials/:materialId", authenticateToken, handleDeleteMaterial);
+  app.get("/api/projects/:projectId/materials", authenticateToken, requireProjectAccess('view'), handleGetMaterials);
+  app.post("/api/projects/:projectId/materials", authenticateToken, requireProjectAccess('edit'), invalidateCache('projects:'), handleCreateMaterial);
+  app.put("/api/materials/:materialId", authenticateToken, requireProjectAccess('edit'), invalidateCache('projects:'), handleUpdateMaterial);
+  app.delete("/api/materials/:materialId", authenticateToken, requireProjectAccess('edit'), invalidateCache('projects:'), handleDeleteMaterial);
+
+  // Stock ledger and purchasing routes
+  app.get("/api/materials/:materialId/transactions", authenticateToken, requireProjectAccess('view'), handleGetMaterialTransactions);
+  app.post("/api/materials/:materialId/transactions", authenticateToken, requireProjectAccess('edit'), invalidateCache('projects:'), handleRecordMaterialTransaction);
+  app.get("/api/projects/:id/purchase-orders", authenticateToken, requireProjectAccess('view'), handleGetPurchaseOrders);
+  app.post("/api/projects/:id/purchase-orders", authenticateToken, requireProjectAccess('edit'), handleCreatePurchaseOrder);
+  app.get("/api/projects/:id/purchase-orders/:orderId", authenticateToken, requireProjectAccess('view'), handleGetPurchaseOrder);
+  app.put("/api/projects/:id/purchase-orders/:orderId", authenticateToken, requireProjectAccess('edit'), handleUpdatePurchaseOrder);
+  app.post("/api/projects/:id/purchase-orders/:orderId/receipts", authenticateToken, requireProjectAccess('edit'), invalidateCache('projects:'), handleReceiveGoods);
+
+  // Site diary routes
+  app.get("/api/projects/:id/diary", authenticateToken, requireProjectAccess('view'), handleGetDiaryEntries);
+  app.post("/api/projects/:id/diary", authenticateToken, requireProjectAccess('edit'), handleCreateDiaryEntry);
+  app.get("/api/projects/:id/diary/:entryId", authenticateToken, requireProjectAccess('view'), handleGetDiaryEntry);
+  app.put("/api/projects/:id/diary/:entryId", authenticateToken, requireProjectAccess('edit'), handleUpdateDiaryEntry);
+  app.delete("/api/projects/:id/diary/:entryId", authenticateToken, requireProjectAccess('edit'), handleDeleteDiaryEntry);
+  app.post("/api/projects/:id/diary/:entryId/sign-off", authenticateToken, requireProjectAccess('manage'), handleSignOffDiaryEntry);
+
+  // RFI routes
+  app.get("/api/projects/:id/rfis", authenticateToken, requireProjectAccess('view'), handleGetRfis);
+  app.post("/api/projects/:id/rfis", authenticateToken, requireProjectAccess('edit'), handleCreateRfi);
+  app.get("/api/projects/:id/rfis/:rfiId", authenticateToken, requireProjectAccess('view'), handleGetRfi);
+  app.put("/api/projects/:id/rfis/:rfiId", authenticateToken, requireProjectAccess('edit'), handleUpdateRfi);
+  app.delete("/api/projects/:id/rfis/:rfiId", authenticateToken, requireProjectAccess('edit'), handleDeleteRfi);
+  app.post("/api/projects/:id/rfis/:rfiId/status", authenticateToken, requireProjectAccess('edit'), handleUpdateRfiStatus);
+  app.post("/api/projects/:id/rfis/:rfiId/responses", authenticateToken, requireProjectAccess('edit'), handleAddRfiResponse);
+
+  // Defect (punch list) routes
+  app.get("/api/projects/:id/defects", authenticateToken, requireProjectAccess('view'), handleGetDefects);
+  app.post("/api/projects/:id/defects", authenticateToken, requireProjectAccess('edit'), invalidateCache('analytics:'), invalidateCache('projects:'), handleCreateDefect);
+  app.get("/api/projects/:id/defects/:defectId", authenticateToken, requireProjectAccess('view'), handleGetDefect);
+  app.put("/api/projects/:id/defects/:defectId", authenticateToken, requireProjectAccess('edit'), invalidateCache('analytics:'), invalidateCache('projects:'), handleUpdateDefect);
+  app.delete("/api/projects/:id/defects/:defectId", authenticateToken, requireProjectAccess('manage'), invalidateCache('analytics:'), invalidateCache('projects:'), handleDeleteDefect);
+  app.post("/api/projects/:id/defects/:defectId/status", authenticateToken, requireProjectAccess('edit'), invalidateCache('analytics:'), invalidateCache('projects:'), handleUpdateDefectStatus);
+  app.post("/api/projects/:id/defects/:defectId/verify", authenticateToken, requireProjectAccess('manage'), invalidateCache('analytics:'), invalidateCache('projects:'), handleVerifyDefect);
+
+  // Acceptance criteria routes
+  app.get("/api/projects/:id/acceptance-criteria", authenticateToken, requireProjectAccess('view'), handleGetAcceptanceCriteria);
+  app.post("/api/projects/:id/acceptance-criteria", authenticateToken, requireProjectAccess('edit'), invalidateCache('projects:'), handleCreateAcceptanceCriterion);
+  app.put("/api/projects/:id/acceptance-criteria/:criterionId", authenticateToken, requireProjectAccess('edit'), handleUpdateAcceptanceCriterion);
+  app.delete("/api/projects/:id/acceptance-criteria/:criterionId", authenticateToken, requireProjectAccess('manage'), invalidateCache('projects:'), handleDeleteAcceptanceCriterion);
+  app.post("/api/projects/:id/acceptance-criteria/:criterionId/sign-off", authenticateToken, requireProjectAccess('manage'), invalidateCache('projects:'), handleSignOffAcceptanceCriterion);
+  app.delete("/api/projects/:id/acceptance-criteria/:criterionId/sign-off", authenticateToken, requireProjectAccess('manage'), invalidateCache('projects:'), handleRevokeAcceptanceSignOff);
+
+  // Risk register routes
+  app.get("/api/projects/:id/risks", authenticateToken, requireProjectAccess('view'), handleGetRisks);
+  app.post("/api/projects/:id/risks", authenticateToken, requireProjectAccess('edit'), invalidateCache('analytics:'), invalidateCache('projects:'), handleCreateRisk);
+  app.get("/api/projects/:id/risks/heat-map", authenticateToken, requireProjectAccess('view'), handleGetProjectRiskHeatMap);
+  app.get("/api/projects/:id/risks/:riskId", authenticateToken, requireProjectAccess('view'), handleGetRisk);
+  app.put("/api/projects/:id/risks/:riskId", authenticateToken, requireProjectAccess('edit'), invalidateCache('analytics:'), invalidateCache('projects:'), handleUpdateRisk);
+  app.delete("/api/projects/:id/risks/:riskId", authenticateToken, requireProjectAccess('manage'), invalidateCache('analytics:'), invalidateCache('projects:'), handleDeleteRisk);
+
+  // Cost code and timesheet routes
+  app.get("/api/projects/:id/cost-codes", authenticateToken, requireProjectAccess('view'), handleGetCostCodes);
+  app.post("/api/projects/:id/cost-codes", authenticateToken, requireProjectAccess('manage'), handleCreateCostCode);
+  app.put("/api/projects/:id/cost-codes/:costCodeId", authenticateToken, requireProjectAccess('manage'), handleUpdateCostCode);
+  app.delete("/api/projects/:id/cost-codes/:costCodeId", authenticateToken, requireProjectAccess('manage'), handleDeleteCostCode);
+  app.get("/api/time/current", authenticateToken, handleGetCurrentTimeEntry);
+  app.get("/api/projects/:id/time", authenticateToken, requireProjectAccess('view'), handleGetTimeEntries);
+  app.get("/api/projects/:id/time/export", authenticateToken, requireProjectAccess('view'), handleExportTimesheet);
+  app.post("/api/projects/:id/time/clock-in", authenticateToken, requireProjectAccess('edit'), handleClockIn);
+  app.post("/api/projects/:id/time/break/start", authenticateToken, requireProjectAccess('edit'), handleStartBreak);
+  app.post("/api/projects/:id/time/break/end", authenticateToken, requireProjectAccess('edit'), handleEndBreak);
+  app.post("/api/projects/:id/time/clock-out", authenticateToken, requireProjectAccess('edit'), handleClockOut);
+  app.put("/api/projects/:id/time/:entryId", authenticateToken, requireProjectAccess('edit'), handleUpdateTimeEntry);
+  app.delete("/api/projects/:id/time/:entryId", authenticateToken, requireProjectAccess('manage'), handleDeleteTimeEntry);
+  app.post("/api/projects/:id/time/:entryId/approve", authenticateToken, requireProjectAccess('manage'), invalidateCache('analytics:'), invalidateCache('projects:'), handleApproveTimeEntry);
+  app.post("/api/projects/:id/time/:entryId/reject", authenticateToken, requireProjectAccess('manage'), handleRejectTimeEntry);
+
+  // Cost control (ABCC) routes
+  app.get("/api/projects/:id/cost-report", authenticateToken, requireProjectAccess('view'), handleGetCostReport);
+  app.get("/api/projects/:id/subcontracts", authenticateToken, requireProjectAccess('view'), handleGetSubcontracts);
+  app.post("/api/projects/:id/subcontracts", authenticateToken, requireProjectAccess('manage'), handleCreateSubcontract);
+  app.put("/api/projects/:id/subcontracts/:subcontractId", authenticateToken, requireProjectAccess('manage'), handleUpdateSubcontract);
+  app.delete("/api/projects/:id/subcontracts/:subcontractId", authenticateToken, requireProjectAccess('manage'), handleDeleteSubcontract);
+
+  // Progress claim routes
+  app.get("/api/projects/:id/schedule-of-values", authenticateToken, requireProjectAccess('view'), handleGetScheduleOfValues);
+  app.post("/api/projects/:id/schedule-of-values", authenticateToken, requireProjectAccess('manage'), handleCreateScheduleOfValuesItem);
+  app.put("/api/projects/:id/schedule-of-values/:itemId", authenticateToken, requireProjectAccess('manage'), handleUpdateScheduleOfValuesItem);
+  app.delete("/api/projects/:id/schedule-of-values/:itemId", authenticateToken, requireProjectAccess('manage'), handleDeleteScheduleOfValuesItem);
+  app.get("/api/projects/:id/variations", authenticateToken, requireProjectAccess('view'), handleGetVariations);
+  app.post("/api/projects/:id/variations", authenticateToken, requireProjectAccess('edit'), handleCreateVariation);
+  app.put("/api/projects/:id/variations/:variationId", authenticateToken, requireProjectAccess('edit'), handleUpdateVariation);
+  app.post("/api/projects/:id/variations/:variationId/status", authenticateToken, requireProjectAccess('manage'), handleUpdateVariationStatus);
+  app.delete("/api/projects/:id/variations/:variationId", authenticateToken, requireProjectAccess('manage'), handleDeleteVariation);
+  app.get("/api/projects/:id/claims", authenticateToken, requireProjectAccess('view'), handleGetClaims);
+  app.post("/api/projects/:id/claims", authenticateToken, requireProjectAccess('edit'), handleCreateClaim);
+  app.get("/api/projects/:id/claims/:claimId", authenticateToken, requireProjectAccess('view'), handleGetClaim);
+  app.put("/api/projects/:id/claims/:claimId", authenticateToken, requireProjectAccess('edit'), handleUpdateClaim);
+  app.post("/api/projects/:id/claims/:claimId/status", authenticateToken, requireProjectAccess('edit'), invalidateCache('analytics:'), handleUpdateClaimStatus);
+  app.delete("/api/projects/:id/claims/:claimId", authenticateToken, requireProjectAccess('edit'), handleDeleteClaim);
+
+  // Change order routes
+  app.get("/api/projects/:id/change-orders", authenticateToken, requireProjectAccess('view'), handleGetChangeOrders);
+  app.post("/api/projects/:id/change-orders", authenticateToken, requireProjectAccess('edit'), handleCreateChangeOrder);
+  app.get("/api/projects/:id/change-orders/:changeOrderId", authenticateToken, requireProjectAccess('view'), handleGetChangeOrder);
+  app.put("/api/projects/:id/change-orders/:changeOrderId", authenticateToken, requireProjectAccess('edit'), handleUpdateChangeOrder);
+  app.post("/api/projects/:id/change-orders/:changeOrderId/status", authenticateToken, requireProjectAccess('edit'), handleUpdateChangeOrderStatus);
+  app.post("/api/projects/:id/change-orders/:changeOrderId/decision", authenticateToken, requireProjectAccess('manage'), invalidateCache('analytics:'), invalidateCache('projects:'), handleDecideChangeOrder);
+  app.delete("/api/projects/:id/change-orders/:changeOrderId", authenticateToken, requireProjectAccess('edit'), handleDeleteChangeOrder);
+
+  // Exchange rate routes
+  app.get("/api/exchange-rates", authenticateToken, handleGetExchangeRates);
+  app.get("/api/exchange-rates/convert", authenticateToken, handleConvertCurrency);
+  app.post("/api/exchange-rates", authenticateToken, requireRole(['admin', 'manager']), invalidateCache('analytics:'), handleCreateExchangeRate);
+  app.put("/api/exchange-rates/:rateId", authenticateToken, requireRole(['admin', 'manager']), invalidateCache('analytics:'), handleUpdateExchangeRate);
+  app.delete("/api/exchange-rates/:rateId", authenticateToken, requireRole(['admin', 'manager']), invalidateCache('analytics:'), handleDeleteExchangeRate);
+
+  // Equipment register routes
+  app.get("/api/equipment", authenticateToken, handleGetEquipmentList);
+  app.post("/api/equipment", authenticateToken, requireRole(['admin', 'manager']), handleCreateEquipment);
+  app.get("/api/equipment/:equipmentId", authenticateToken, handleGetEquipment);
+  app.put("/api/equipment/:equipmentId", authenticateToken, requireEquipmentAccess, handleUpdateEquipment);
+  app.delete("/api/equipment/:equipmentId", authenticateToken, requireRole(['admin', 'manager']), handleDeleteEquipment);
+  app.post("/api/equipment/:equipmentId/readings", authenticateToken, requireEquipmentAccess, handleRecordMeterReading);
+  app.post("/api/equipment/:equipmentId/services", authenticateToken, requireEquipmentAccess, handleRecordService);
+  app.post("/api/equipment/:equipmentId/certificates", authenticateToken, requireEquipmentAccess, handleCreateCertificate);
+  app.delete("/api/equipment/:equipmentId/certificates/:certificateId", authenticateToken, requireRole(['admin', 'manager']), handleDeleteCertificate);
+  app.get("/api/projects/:id/equipment", authenticateToken, requireProjectAccess('view'), handleGetProjectEquipment);
+
+  // Supplier directory routes
+  app.get("/api/suppliers", authenticateToken, handleGetSuppliers);
+  app.post("/api/suppliers", authenticateToken, requireRole(['admin', 'manager']), handleCreateSupplier);
+  app.get("/api/suppliers/:supplierId", authenticateToken, handleGetSupplier);
+  app.put("/api/suppliers/:supplierId", authenticateToken, requireRole(['admin', 'manager']), handleUpdateSupplier);
+  app.delete("/api/suppliers/:supplierId", authenticateToken, requireRole(['admin', 'manager']), handleDeleteSupplier);
+  app.get("/api/suppliers/:supplierId/prices", authenticateToken, handleGetSupplierPrices);
+  app.post("/api/suppliers/:supplierId/prices", authenticateToken, requireRole(['admin', 'manager']), handleCreateSupplierPrice);
+  app.put("/api/suppliers/:supplierId/prices/:priceId", authenticateToken, requireRole(['admin', 'manager']), handleUpdateSupplierPrice);
+  app.delete("/api/suppliers/:supplierId/prices/:priceId", authenticateToken, requireRole(['admin', 'manager']), handleDeleteSupplierPrice);
 
   // File upload routes
   app.post("/api/files/upload", authenticateToken, upload.single('file'), handleUploadFile);
   app.get("/api/files", authenticateToken, handleGetFiles);
   app.get("/api/files/:id", authenticateToken, handleGetFile);
   app.delete("/api/files/:id", authenticateToken, handleDeleteFile);
-  app.get("/api/projects/:projectId/files", authenticateToken, handleGetProjectFiles);
+  app.get("/api/projects/:projectId/files", authenticateToken, requireProjectAccess('view'), handleGetProjectFiles);
+  app.get("/api/projects/:projectId/folders", authenticateToken, requireProjectAccess('view'), handleGetProjectFolders);
+  app.post("/api/projects/:projectId/folders", authenticateToken, requireProjectAccess('edit'), handleCreateProjectFolder);
+  app.delete("/api/projects/:projectId/folders/:folderId", authenticateToken, requireProjectAccess('edit'), handleDeleteProjectFolder);
+
+  // Project templates and cloning
+  app.get("/api/templates", authenticateToken, handleGetTemplates);
+  app.get("/api/templates/:templateId", authenticateToken, handleGetTemplate);
+  app.delete("/api/templates/:templateId", authenticateToken, requireRole(['admin', 'manager']), handleDeleteTemplate);
+  app.post("/api/projects/:id/templates", authenticateToken, requireProjectAccess('edit'), handleSaveProjectAsTemplate);
+  app.post("/api/projects/:id/clone", authenticateToken, requireProjectAccess('edit'), invalidateCache('projects:'), handleCloneProject);
 
   // Notifications routes
   app.get("/api/notifications", authenticateToken, (req, res) => {
+    const notificationService: NotificationService | null = req.app.locals.notificationService;
     if (notificationService) {
       const notifications = notificationService.getUserNotifications(req.userId!);
       res.json({ notifications });
@@ -254,6 +647,7 @@ export function createServer() {
   });
 
   app.post("/api/notifications/:id/read", authenticateToken, (req, res) => {
+    const notificationService: NotificationService | null = req.app.locals.notificationService;
     if (notificationService) {
       notificationService.markNotificationAsRead(req.userId!, req.params.id);
     }
@@ -261,6 +655,7 @@ export function createServer() {
   });
 
   app.post("/api/notifications/read-all", authenticateToken, (req, res) => {
+    const notificationService: NotificationService | null = req.app.locals.notificationService;
     if (notificationService) {
       notificationService.markAllAsRead(req.userId!);
     }
@@ -282,6 +677,7 @@ export function createServer() {
   app.post("/api/analytics/report", authenticateToken, handleGenerateReport);
   app.get("/api/analytics/benchmarking", authenticateToken, handleBenchmarking);
   app.get("/api/analytics/performance", authenticateToken, handlePerformanceMonitoring);
+  app.get("/api/analytics/risk-heat-map", authenticateToken, handleGetRiskHeatMap);
 
   // Cache management routes (admin only)
   app.get("/api/cache/stats", authenticateToken, getCacheStats);
@@ -362,8 +758,8 @@ export function createServer() {
   app.get("/api/blockchain/contracts/user", authenticateToken, handleGetUserContracts);
   app.post("/api/blockchain/contracts/compile", authenticateToken, handleCompileContract);
 
-  // Make notification service available to routes
-  app.locals.notificationService = notificationService;
+  // Replaced by startServices once Socket.IO is attached to the HTTP server
+  app.locals.notificationService = null;
 
   return app;
 }
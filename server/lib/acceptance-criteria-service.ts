@@ -0,0 +1,152 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { FileMetadata, FileStorageService } from './file-storage';
+import { AcceptanceProgress, summarizeAcceptanceCriteria } from './acceptance-criteria';
+
+export type AcceptanceCriterion = Database['public']['Tables']['acceptance_criteria']['Row'];
+export type AcceptanceCriterionInput = Pick<AcceptanceCriterion, 'phase' | 'title' | 'description' | 'sort_order' | 'evidence_file_ids' | 'created_by'>;
+export type AcceptanceCriterionUpdate = Partial<Pick<AcceptanceCriterion,
+  'phase' | 'title' | 'description' | 'sort_order' | 'evidence_file_ids' | 'signed_off_by' | 'signed_off_at'>>;
+
+export interface AcceptanceCriterionWithEvidence extends AcceptanceCriterion {
+  evidence: FileMetadata[];
+}
+
+export class AcceptanceCriteriaService {
+  static async getCriteria(projectId: number): Promise<AcceptanceCriterion[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('acceptance_criteria')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('sort_order', { ascending: true })
+        .order('id', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching acceptance criteria:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getAcceptanceCriteria(projectId);
+    }
+  }
+
+  static async getCriterion(projectId: number, id: number): Promise<AcceptanceCriterion | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('acceptance_criteria')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getAcceptanceCriterion(projectId, id);
+    }
+  }
+
+  static async createCriterion(projectId: number, criterionData: AcceptanceCriterionInput): Promise<AcceptanceCriterion | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('acceptance_criteria')
+        .insert({ ...criterionData, project_id: projectId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating acceptance criterion:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createAcceptanceCriterion({ ...criterionData, project_id: projectId });
+    }
+  }
+
+  static async updateCriterion(projectId: number, id: number, updates: AcceptanceCriterionUpdate): Promise<AcceptanceCriterion | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('acceptance_criteria')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating acceptance criterion:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateAcceptanceCriterion(projectId, id, updates);
+    }
+  }
+
+  static async deleteCriterion(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('acceptance_criteria')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting acceptance criterion:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteAcceptanceCriterion(projectId, id);
+    }
+  }
+
+  static async getProgress(projectId: number): Promise<AcceptanceProgress<AcceptanceCriterionWithEvidence>> {
+    const criteria = await this.getCriteria(projectId);
+    return summarizeAcceptanceCriteria(criteria.map(criterion => this.withEvidence(criterion)));
+  }
+
+  /**
+   * Store the computed completion percentage on the project row so list
+   * views and analytics read the checklist rather than a typed-in number.
+   */
+  static async syncProjectCompletion(projectId: number): Promise<AcceptanceProgress<AcceptanceCriterionWithEvidence>> {
+    const progress = await this.getProgress(projectId);
+
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('projects')
+        .update({ acceptance_criteria_complete: progress.percentage })
+        .eq('id', projectId);
+
+      if (error) {
+        console.error('Error syncing acceptance criteria completion:', error);
+      }
+    } else {
+      FallbackDatabase.updateProject(projectId, { acceptance_criteria_complete: progress.percentage });
+    }
+
+    return progress;
+  }
+
+  // Evidence lives in FileStorageService; files deleted since are dropped
+  static withEvidence(criterion: AcceptanceCriterion): AcceptanceCriterionWithEvidence {
+    return {
+      ...criterion,
+      evidence: criterion.evidence_file_ids
+        .map(fileId => FileStorageService.getFileMetadata(fileId))
+        .filter((file): file is FileMetadata => file !== null),
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { summarizeAcceptanceCriteria } from "./acceptance-criteria";
+
+const item = (phase: string, sort_order: number, signed = false) => ({
+  phase,
+  sort_order,
+  signed_off_at: signed ? "2024-06-01T10:00:00Z" : null,
+});
+
+describe("summarizeAcceptanceCriteria", () => {
+  it("should group by phase in checklist order and compute the share signed off", () => {
+    const progress = summarizeAcceptanceCriteria([
+      item("Handover", 3),
+      item("Structure", 0, true),
+      item("Structure", 1),
+      item("Handover", 2, true),
+      item("Structure", 4, true),
+    ]);
+
+    expect(progress.phases.map(p => [p.phase, p.signedOff, p.total, p.percentage])).toEqual([
+      ["Structure", 2, 3, 67],
+      ["Handover", 1, 2, 50],
+    ]);
+    expect(progress.phases[0].items.map(i => i.sort_order)).toEqual([0, 1, 4]);
+    expect(progress.percentage).toBe(60);
+  });
+
+  it("should report zero for an empty checklist", () => {
+    expect(summarizeAcceptanceCriteria([])).toEqual({ phases: [], total: 0, signedOff: 0, percentage: 0 });
+  });
+});
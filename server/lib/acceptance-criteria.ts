@@ -0,0 +1,58 @@
+/**
+ * Acceptance criteria progress: a project's completion percentage is the
+ * share of checklist items that have been signed off, overall and per phase.
+ */
+
+export interface AcceptanceItem {
+  phase: string;
+  sort_order: number;
+  signed_off_at: string | null;
+}
+
+export interface AcceptancePhase<T extends AcceptanceItem> {
+  phase: string;
+  items: T[];
+  total: number;
+  signedOff: number;
+  percentage: number;
+}
+
+export interface AcceptanceProgress<T extends AcceptanceItem> {
+  phases: AcceptancePhase<T>[];
+  total: number;
+  signedOff: number;
+  percentage: number;
+}
+
+const percentage = (signedOff: number, total: number) => total > 0 ? Math.round((signedOff / total) * 100) : 0;
+
+/**
+ * Group items by phase, keeping phases in the order their first item sorts
+ * and items by sort_order within each phase.
+ */
+export function summarizeAcceptanceCriteria<T extends AcceptanceItem>(items: T[]): AcceptanceProgress<T> {
+  const phases = new Map<string, T[]>();
+  const sorted = [...items].sort((a, b) => a.sort_order - b.sort_order);
+  for (const item of sorted) {
+    phases.set(item.phase, [...(phases.get(item.phase) || []), item]);
+  }
+
+  const grouped = Array.from(phases, ([phase, phaseItems]) => {
+    const signedOff = phaseItems.filter(item => item.signed_off_at).length;
+    return {
+      phase,
+      items: phaseItems,
+      total: phaseItems.length,
+      signedOff,
+      percentage: percentage(signedOff, phaseItems.length),
+    };
+  });
+
+  const signedOff = items.filter(item => item.signed_off_at).length;
+  return {
+    phases: grouped,
+    total: items.length,
+    signedOff,
+    percentage: percentage(signedOff, items.length),
+  };
+}
@@ -0,0 +1,109 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database, Json } from './types';
+import { AuditAction, AuditEntityType, AuditMetadata, FieldChange } from './audit';
+
+type DbAuditLogEntry = Database['public']['Tables']['audit_log']['Row'];
+
+export interface AuditLogEntry extends DbAuditLogEntry {
+  actor: { id: string; email: string; name: string } | null;
+}
+
+export interface AuditEntity {
+  type: AuditEntityType;
+  id: string | number;
+  project_id: number | null;
+}
+
+export interface AuditHistoryFilters {
+  entity_type?: AuditEntityType;
+  before?: number;
+  limit: number;
+}
+
+export class AuditService {
+  /**
+   * Append the changes of one mutation to the log. Creates and deletes with
+   * no field changes still get a single entry. Failures are logged rather
+   * than thrown so auditing never blocks the change itself.
+   */
+  static async record(
+    actorId: string | null,
+    entity: AuditEntity,
+    action: AuditAction,
+    changes: FieldChange[],
+    metadata: AuditMetadata
+  ): Promise<boolean> {
+    if (action === 'update' && changes.length === 0) {
+      return true;
+    }
+
+    const base = {
+      actor_id: actorId,
+      entity_type: entity.type,
+      entity_id: String(entity.id),
+      project_id: entity.project_id,
+      action,
+      ...metadata,
+    };
+    const rows = (changes.length > 0 ? changes : [{ field: null, old_value: null, new_value: null }])
+      .map(change => ({
+        ...base,
+        field: change.field,
+        old_value: (change.old_value ?? null) as Json,
+        new_value: (change.new_value ?? null) as Json,
+      }));
+
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('audit_log')
+        .insert(rows);
+
+      if (error) {
+        console.error('Error writing audit log:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      FallbackDatabase.createAuditLogEntries(rows);
+      return true;
+    }
+  }
+
+  // Newest first; `before` pages back from an entry id
+  static async getProjectHistory(projectId: number, filters: AuditHistoryFilters): Promise<AuditLogEntry[]> {
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('audit_log')
+        .select(`
+          *,
+          actor:users!audit_log_actor_id_fkey (id, email, name)
+        `)
+        .eq('project_id', projectId)
+        .order('id', { ascending: false })
+        .limit(filters.limit);
+
+      if (filters.entity_type) {
+        query = query.eq('entity_type', filters.entity_type);
+      }
+      if (filters.before !== undefined) {
+        query = query.lt('id', filters.before);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching audit log:', error);
+        return [];
+      }
+
+      return (data || []) as unknown as AuditLogEntry[];
+    } else {
+      return FallbackDatabase.getProjectAuditLog(projectId)
+        .filter(entry => !filters.entity_type || entry.entity_type === filters.entity_type)
+        .filter(entry => filters.before === undefined || entry.id < filters.before)
+        .slice(0, filters.limit) as AuditLogEntry[];
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { auditMetadata, diffFields, flattenFields, MATERIAL_AUDIT_FIELDS, USER_AUDIT_FIELDS } from "./audit";
+
+describe("diffFields", () => {
+  it("should list only the tracked fields that changed", () => {
+    const before = { id: 1, name: "Rebar", current_stock: 40, cost: "12.50", updated_at: "a" };
+    const after = { id: 1, name: "Rebar", current_stock: 25, cost: 12.5, updated_at: "b" };
+
+    expect(diffFields(before, after, MATERIAL_AUDIT_FIELDS)).toEqual([
+      { field: "current_stock", old_value: 40, new_value: 25 },
+    ]);
+  });
+
+  it("should treat a missing record as a create or delete", () => {
+    expect(diffFields(null, { name: "Rebar", status: undefined }, MATERIAL_AUDIT_FIELDS)).toEqual([
+      { field: "name", old_value: null, new_value: "Rebar" },
+    ]);
+    expect(diffFields({ name: "Rebar" }, null, MATERIAL_AUDIT_FIELDS)).toEqual([
+      { field: "name", old_value: "Rebar", new_value: null },
+    ]);
+  });
+
+  it("should compare nested settings by path", () => {
+    const changes = diffFields(
+      { preferences: { theme: "light", notifications: { email: true, sms: false } } },
+      { preferences: { theme: "dark", notifications: { email: true, sms: false } } },
+      USER_AUDIT_FIELDS
+    );
+    expect(changes).toEqual([{ field: "preferences.theme", old_value: "light", new_value: "dark" }]);
+    expect(flattenFields({ a: { b: [1, 2], c: {} } })).toEqual({ "a.b": [1, 2], "a.c": {} });
+  });
+});
+
+describe("auditMetadata", () => {
+  it("should take the request id from the header when there is one", () => {
+    const req = {
+      method: "PUT",
+      originalUrl: "/api/projects/4?x=1",
+      ip: "10.0.0.1",
+      headers: { "x-request-id": "abc", "user-agent": "curl/8" },
+    };
+    expect(auditMetadata(req, "generated")).toEqual({
+      request_id: "abc", method: "PUT", path: "/api/projects/4", ip: "10.0.0.1", user_agent: "curl/8",
+    });
+    expect(auditMetadata({ headers: {} }, "generated")).toMatchObject({ request_id: "generated", ip: null });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Audit trail
+ * Every change to a project, material or user profile is written to an
+ * append-only log, one entry per changed field.
+ */
+
+import { randomUUID } from 'crypto';
+
+export type AuditEntityType = 'project' | 'material' | 'user';
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface FieldChange {
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+// Who made the change and through which request
+export interface AuditMetadata {
+  request_id: string | null;
+  method: string | null;
+  path: string | null;
+  ip: string | null;
+  user_agent: string | null;
+}
+
+export const PROJECT_AUDIT_FIELDS = [
+  'name', 'status', 'progress', 'budget', 'spent', 'safety_score', 'client',
+  'location', 'start_date', 'end_date', 'team_size', 'contractor', 'currency',
+] as const;
+
+export const MATERIAL_AUDIT_FIELDS = [
+  'name', 'current_stock', 'total_required', 'status', 'cost', 'currency', 'supplier_id', 'cost_code_id',
+] as const;
+
+export const USER_AUDIT_FIELDS = ['name', 'avatar', 'preferences'] as const;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Nested settings are compared leaf by leaf so the log says which one changed
+export const flattenFields = (record: Record<string, unknown>, prefix = ''): Record<string, unknown> => {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      Object.assign(flat, flattenFields(value, path));
+    } else {
+      flat[path] = value;
+    }
+  }
+  return flat;
+};
+
+// Missing and undefined both read as null
+const normalizeValue = (value: unknown): unknown => value === undefined ? null : value;
+
+// DECIMAL columns can come back as strings, so "150.00" and 150 are the same value
+const sameValue = (a: unknown, b: unknown) => {
+  const [x, y] = [normalizeValue(a), normalizeValue(b)];
+  if ((typeof x === 'number' || typeof y === 'number') && x !== null && y !== null && x !== '' && y !== '') {
+    return Number(x) === Number(y);
+  }
+  return JSON.stringify(x) === JSON.stringify(y);
+};
+
+/**
+ * The tracked fields that differ between two versions of a record. Nested
+ * objects are compared by dotted path, e.g. `preferences.theme`. A missing
+ * record stands for a create (`before`) or a delete (`after`).
+ */
+export const diffFields = (
+  before: Record<string, any> | null,
+  after: Record<string, any> | null,
+  fields: readonly string[]
+): FieldChange[] => {
+  const pick = (record: Record<string, any> | null) => {
+    if (!record) return {};
+    const picked: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (field in record) picked[field] = record[field];
+    }
+    return flattenFields(picked);
+  };
+
+  const oldValues = pick(before);
+  const newValues = pick(after);
+  const paths = [...new Set([...Object.keys(oldValues), ...Object.keys(newValues)])].sort();
+
+  return paths
+    .filter(path => !sameValue(oldValues[path], newValues[path]))
+    .map(path => ({
+      field: path,
+      old_value: normalizeValue(oldValues[path]),
+      new_value: normalizeValue(newValues[path]),
+    }));
+};
+
+const firstHeader = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value)?.trim() || null;
+
+// Call once per request so every entry it writes shares the request id
+export const auditMetadata = (req: {
+  method?: string;
+  originalUrl?: string;
+  ip?: string;
+  headers: Record<string, string | string[] | undefined>;
+}, fallbackRequestId: string = randomUUID()): AuditMetadata => ({
+  request_id: firstHeader(req.headers['x-request-id'])?.slice(0, 100) ?? fallbackRequestId,
+  method: req.method ?? null,
+  path: req.originalUrl?.split('?')[0] ?? null,
+  ip: req.ip ?? null,
+  user_agent: firstHeader(req.headers['user-agent'])?.slice(0, 500) ?? null,
+});
@@ -1,17 +1,9 @@
-import { supabase } from './database';
+import { supabase, isSupabaseConfigured } from './database';
 import { FallbackDatabase } from './database-fallback';
 import bcrypt from 'bcryptjs';
-import { User, LoginRequest, SignupRequest } from '@shared/api';
+import { User, LoginRequest, SignupRequest, AdminUpdateUserRequest } from '@shared/api';
 import { Database } from './types';
 
-// Check if Supabase is configured
-const isSupabaseConfigured = () => {
-  return process.env.SUPABASE_URL && 
-         process.env.SUPABASE_URL !== 'https://your-project.supabase.co' &&
-         process.env.SUPABASE_ANON_KEY && 
-         process.env.SUPABASE_ANON_KEY !== 'your-anon-key';
-};
-
 type DbUser = Database['public']['Tables']['users']['Row'];
 
 export class AuthService {
@@ -59,7 +51,7 @@ export class AuthService {
     }
   }
 
-  static async createUser(userData: SignupRequest): Promise<DbUser | User | null> {
+  static async createUser(userData: SignupRequest, role: User['role'] = 'user'): Promise<DbUser | User | null> {
     const passwordHash = await this.hashPassword(userData.password);
 
     if (isSupabaseConfigured()) {
@@ -70,7 +62,7 @@ export class AuthService {
         .insert({
           email: userData.email,
           name: userData.name,
-          role: 'user',
+          role,
           avatar,
           password_hash: passwordHash,
         })
@@ -87,6 +79,7 @@ export class AuthService {
         email: userData.email,
         name: userData.name,
         password_hash: passwordHash,
+        role,
       });
     }
   }
@@ -98,8 +91,7 @@ export class AuthService {
     }
 
     // Handle both Supabase and fallback user types
-    const passwordHash = 'password_hash' in user ? user.password_hash : 
-                         user.email === 'admin@example.com' ? '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi' : null;
+    const passwordHash = 'password_hash' in user ? user.password_hash : FallbackDatabase.getPasswordHash(user.id);
     
     if (!passwordHash) {
       return null;
@@ -136,6 +128,132 @@ export class AuthService {
     }
   }
 
+  // Only what the user has saved; defaults are filled in by the caller
+  static async getPreferences(id: string): Promise<Record<string, unknown>> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('users')
+        .select('preferences')
+        .eq('id', id)
+        .single();
+
+      if (error || !data) {
+        return {};
+      }
+
+      return data.preferences ?? {};
+    } else {
+      return FallbackDatabase.getUserPreferences(id) ?? {};
+    }
+  }
+
+  static async savePreferences(id: string, preferences: Record<string, unknown>): Promise<Record<string, unknown> | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('users')
+        .update({ preferences, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select('preferences')
+        .single();
+
+      if (error || !data) {
+        console.error('Error saving preferences:', error);
+        return null;
+      }
+
+      return data.preferences;
+    } else {
+      return FallbackDatabase.setUserPreferences(id, preferences);
+    }
+  }
+
+  static async listUsers(options: { search?: string; role?: User['role']; offset: number; limit: number }): Promise<{ users: User[]; total: number }> {
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('users')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(options.offset, options.offset + options.limit - 1);
+
+      if (options.role) {
+        query = query.eq('role', options.role);
+      }
+      if (options.search) {
+        const term = options.search.replace(/[%,()]/g, '');
+        query = query.or(`name.ilike.%${term}%,email.ilike.%${term}%`);
+      }
+
+      const { data, error, count } = await query;
+      if (error || !data) {
+        console.error('Error listing users:', error);
+        return { users: [], total: 0 };
+      }
+
+      return {
+        users: data.map(user => this.transformDbUserToUser(user)),
+        total: count ?? data.length,
+      };
+    } else {
+      return FallbackDatabase.listUsers(options);
+    }
+  }
+
+  static async adminUpdateUser(id: string, updateData: AdminUpdateUserRequest): Promise<DbUser | User | null> {
+    const passwordHash = updateData.password ? await this.hashPassword(updateData.password) : undefined;
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('users')
+        .update({
+          email: updateData.email,
+          name: updateData.name,
+          role: updateData.role,
+          is_active: updateData.isActive,
+          password_hash: passwordHash,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.adminUpdateUser(id, {
+        email: updateData.email,
+        name: updateData.name,
+        role: updateData.role,
+        isActive: updateData.isActive,
+        password_hash: passwordHash,
+      });
+    }
+  }
+
+  static async deleteUser(id: string): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('users')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting user:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteUser(id);
+    }
+  }
+
+  static isUserActive(user: DbUser | User): boolean {
+    return 'is_active' in user ? user.is_active !== false : user.isActive !== false;
+  }
+
   static transformDbUserToUser(dbUser: DbUser | User): User {
     // Handle both Supabase and fallback user types
     if ('created_at' in dbUser) {
@@ -146,6 +264,7 @@ export class AuthService {
         name: dbUser.name,
         role: dbUser.role,
         avatar: dbUser.avatar || undefined,
+        isActive: dbUser.is_active !== false,
         createdAt: dbUser.created_at,
         updatedAt: dbUser.updated_at,
       };
@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { ProjectsService } from './projects-service';
+import { ScheduleService } from './schedule-service';
+import { InventoryService } from './inventory-service';
+import { EquipmentRegisterService } from './equipment-service';
+import { IcsFeedEvent } from './ics';
+
+export type CalendarFeed = Database['public']['Tables']['calendar_feeds']['Row'];
+
+export type CalendarEventType = 'milestone' | 'inspection' | 'delivery';
+
+export interface CalendarEvent {
+  id: string;
+  title: string;
+  type: CalendarEventType;
+  // YYYY-MM-DD for all-day events, an ISO timestamp otherwise
+  start: string;
+  end: string;
+  allDay: boolean;
+  projectId: number;
+  projectName: string;
+  location: string | null;
+  description: string | null;
+}
+
+export interface CalendarRange {
+  from?: string | null;
+  to?: string | null;
+}
+
+export const hashFeedToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const OPEN_ORDER_STATUSES = ['ordered', 'partially_received'];
+
+const toDate = (value: string) => value.split('T')[0];
+
+// An event is in range when any of its days fall between from and to
+const inRange = (event: CalendarEvent, range: CalendarRange) =>
+  (!range.from || toDate(event.end) >= toDate(range.from)) &&
+  (!range.to || toDate(event.start) <= toDate(range.to));
+
+export const toIcsEvent = (event: CalendarEvent): IcsFeedEvent => ({
+  // UIDs must stay stable so subscribed calendars update events in place
+  uid: `${event.id}@construction-platform`,
+  summary: `${event.title} (${event.projectName})`,
+  start: event.start,
+  end: event.end,
+  allDay: event.allDay,
+  description: event.description,
+  location: event.location,
+  categories: [event.type],
+});
+
+export class CalendarService {
+  /**
+   * Milestones and inspections from each project's computed schedule,
+   * equipment certificates falling due, and expected deliveries of open
+   * purchase orders, across every project the user is a member of.
+   */
+  static async getUserEvents(userId: string, range: CalendarRange = {}): Promise<CalendarEvent[]> {
+    const projects = await ProjectsService.getUserProjects(userId);
+    const events: CalendarEvent[] = [];
+
+    for (const project of projects) {
+      const base = { projectId: project.id, projectName: project.name, location: project.location || null };
+
+      const [tasks, orders, equipment] = await Promise.all([
+        ScheduleService.getTasks(project.id),
+        InventoryService.getPurchaseOrders(project.id),
+        EquipmentRegisterService.getEquipmentList({ projectId: project.id }),
+      ]);
+
+      for (const task of tasks) {
+        if (!task.scheduled_start || !task.scheduled_end) continue;
+
+        if (task.kind === 'inspection') {
+          const timed = task.duration > 0;
+          events.push({
+            ...base,
+            id: `task-${project.id}-${task.task_key}`,
+            title: task.name,
+            type: 'inspection',
+            start: timed ? task.scheduled_start : toDate(task.scheduled_start),
+            end: timed ? task.scheduled_end : toDate(task.scheduled_start),
+            allDay: !timed,
+            description: task.is_critical ? 'On the critical path' : null,
+          });
+        } else if (task.duration === 0) {
+          events.push({
+            ...base,
+            id: `task-${project.id}-${task.task_key}`,
+            title: task.name,
+            type: 'milestone',
+            start: toDate(task.scheduled_start),
+            end: toDate(task.scheduled_start),
+            allDay: true,
+            description: task.is_critical ? 'On the critical path' : null,
+          });
+        }
+      }
+
+      for (const item of equipment) {
+        const certificates = await EquipmentRegisterService.getCertificates(item.id);
+        for (const certificate of certificates) {
+          if (!certificate.expiry_date) continue;
+          events.push({
+            ...base,
+            id: `certificate-${certificate.id}`,
+            title: `${certificate.certificate_type} due: ${item.name}`,
+            type: 'inspection',
+            start: toDate(certificate.expiry_date),
+            end: toDate(certificate.expiry_date),
+            allDay: true,
+            description: `Asset ${item.asset_tag}${certificate.certificate_number ? `, certificate ${certificate.certificate_number}` : ''}`,
+          });
+        }
+      }
+
+      const materialNames = new Map<number, string>();
+      for (const order of orders) {
+        if (!OPEN_ORDER_STATUSES.includes(order.status)) continue;
+        if (!materialNames.has(order.material_id)) {
+          const material = await InventoryService.getMaterial(order.material_id);
+          materialNames.set(order.material_id, material?.name ?? 'Material');
+        }
+        const outstanding = Number(order.quantity_ordered) - Number(order.quantity_received);
+        events.push({
+          ...base,
+          id: `delivery-${order.id}`,
+          title: `Delivery: ${materialNames.get(order.material_id)}`,
+          type: 'delivery',
+          start: toDate(order.expected_delivery_date),
+          end: toDate(order.expected_delivery_date),
+          allDay: true,
+          description: `Purchase order #${order.id}, ${outstanding} outstanding`,
+        });
+      }
+    }
+
+    return events
+      .filter(event => inRange(event, range))
+      .sort((a, b) => a.start.localeCompare(b.start) || a.id.localeCompare(b.id));
+  }
+
+  static async getFeed(userId: string): Promise<CalendarFeed | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .select('*')
+        .eq('user_id', userId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getCalendarFeed(userId);
+    }
+  }
+
+  static async getFeedByHash(tokenHash: string): Promise<CalendarFeed | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .select('*')
+        .eq('token_hash', tokenHash)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getCalendarFeedByHash(tokenHash);
+    }
+  }
+
+  // Replaces any existing feed, so an old subscription URL stops working
+  static async saveFeed(userId: string, tokenHash: string): Promise<CalendarFeed | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .upsert({ user_id: userId, token_hash: tokenHash, created_at: new Date().toISOString() }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error saving calendar feed:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.saveCalendarFeed(userId, tokenHash);
+    }
+  }
+
+  static async deleteFeed(userId: string): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('calendar_feeds')
+        .delete()
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error deleting calendar feed:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteCalendarFeed(userId);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { insertWithNextNumber, supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { changeOrderReference, reviseBaselinePeriods, shiftDate } from './change-orders';
+import { EvmService } from './evm-service';
+import { Project, ProjectsService } from './projects-service';
+
+export type ChangeOrder = Database['public']['Tables']['change_orders']['Row'];
+export type ChangeOrderInput = Pick<ChangeOrder, 'title' | 'description' | 'cost_impact' | 'time_impact_days'>;
+export type ChangeOrderUpdate = Partial<Omit<ChangeOrder, 'id' | 'project_id' | 'number' | 'created_by' | 'created_at' | 'updated_at'>>;
+
+export class ChangeOrdersService {
+  // In number order per project
+  static async getChangeOrders(projectIds: number[]): Promise<ChangeOrder[]> {
+    if (projectIds.length === 0) return [];
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('change_orders')
+        .select('*')
+        .in('project_id', projectIds)
+        .order('project_id')
+        .order('number');
+
+      if (error) {
+        console.error('Error fetching change orders:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getChangeOrders(projectIds);
+    }
+  }
+
+  static async getChangeOrder(projectId: number, id: number): Promise<ChangeOrder | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('change_orders')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getChangeOrder(projectId, id);
+    }
+  }
+
+  static async createChangeOrder(projectId: number, orderData: ChangeOrderInput, userId: string): Promise<ChangeOrder | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await insertWithNextNumber('change_orders', projectId, number => supabase
+        .from('change_orders')
+        .insert({ ...orderData, project_id: projectId, number, created_by: userId })
+        .select()
+        .single());
+
+      if (error || !data) {
+        console.error('Error creating change order:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createChangeOrder({ ...orderData, project_id: projectId, created_by: userId });
+    }
+  }
+
+  static async updateChangeOrder(projectId: number, id: number, updates: ChangeOrderUpdate): Promise<ChangeOrder | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('change_orders')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating change order:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateChangeOrder(projectId, id, updates);
+    }
+  }
+
+  static async deleteChangeOrder(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('change_orders')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting change order:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteChangeOrder(projectId, id);
+    }
+  }
+
+  /**
+   * Carry an approved change order into the project: budget and end date
+   * move by its impact, and the active baseline (if any) is superseded by a
+   * revised one. Returns the project as updated and the before/after figures
+   * to keep on the change order.
+   */
+  static async applyApproval(
+    projectId: number,
+    order: ChangeOrder,
+    userId: string,
+    now: string
+  ): Promise<{ project: Project; updates: ChangeOrderUpdate } | null> {
+    const project = await ProjectsService.getProjectById(projectId, userId);
+    if (!project) return null;
+
+    const costImpact = Number(order.cost_impact);
+    const budgetBefore = Number(project.budget);
+    const budgetAfter = Math.round((budgetBefore + costImpact) * 100) / 100;
+    const endBefore = project.end_date ? project.end_date.split('T')[0] : null;
+    const endAfter = endBefore && order.time_impact_days !== 0 ? shiftDate(endBefore, order.time_impact_days) : endBefore;
+
+    const updated = await ProjectsService.updateProject(projectId, { budget: budgetAfter, end_date: endAfter }, userId);
+    if (!updated) return null;
+
+    let baselineId: number | null = null;
+    const baseline = await EvmService.getActiveBaseline(projectId);
+    const newBac = Math.round((Number(baseline?.budget_at_completion ?? 0) + costImpact) * 100) / 100;
+    if (baseline && newBac > 0 && (costImpact !== 0 || order.time_impact_days !== 0)) {
+      const revised = await EvmService.createBaseline(projectId, {
+        name: `${changeOrderReference(order.number)}: ${order.title}`.slice(0, 255),
+        budget_at_completion: newBac,
+        periods: reviseBaselinePeriods(baseline.periods, newBac, order.time_impact_days, now),
+        created_by: userId,
+      });
+      baselineId = revised?.id ?? null;
+      await EvmService.syncProjectIndices(projectId);
+    }
+
+    return {
+      project: updated,
+      updates: {
+        approved_at: now,
+        budget_before: budgetBefore,
+        budget_after: budgetAfter,
+        end_date_before: endBefore,
+        end_date_after: endAfter,
+        baseline_id: baselineId,
+      },
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { approvalChain, buildVarianceHistory, canApprove, decideStep, isIndependentApprover, pendingStep, reviseBaselinePeriods } from "./change-orders";
+
+const now = "2026-02-01T10:00:00.000Z";
+
+describe("approval chain", () => {
+  it("should add the owner only for large or long changes", () => {
+    expect(approvalChain(4000, 5, 100000).map(step => step.role)).toEqual(["manager"]);
+    expect(approvalChain(-6000, 0, 100000).map(step => step.role)).toEqual(["manager", "owner"]);
+    expect(approvalChain(0, 15, 100000).map(step => step.role)).toEqual(["manager", "owner"]);
+  });
+
+  it("should approve once every step has approved and stop at a rejection", () => {
+    const chain = approvalChain(10000, 0, 100000);
+
+    const first = decideStep(chain, "approved", "manager-1", null, now);
+    expect(first.status).toBe("submitted");
+    expect(first.chain[0]).toMatchObject({ decision: "approved", decided_by: "manager-1", decided_at: now });
+
+    expect(decideStep(first.chain, "approved", "owner-1", null, now).status).toBe("approved");
+    expect(decideStep(chain, "rejected", "manager-1", "Price too high", now)).toMatchObject({
+      status: "rejected",
+      chain: [{ decision: "rejected", comment: "Price too high" }, { decision: null }],
+    });
+    expect(() => decideStep(decideStep(first.chain, "approved", "owner-1", null, now).chain, "approved", "owner-1", null, now)).toThrow();
+  });
+
+  it("should keep the submitter and earlier approvers off later steps", () => {
+    const first = decideStep(approvalChain(10000, 0, 100000), "approved", "owner-1", null, now);
+
+    expect(isIndependentApprover(first.chain, "manager-1", "manager-1")).toBe(false);
+    expect(isIndependentApprover(first.chain, "manager-1", "owner-1")).toBe(false);
+    expect(isIndependentApprover(first.chain, "manager-1", "owner-2")).toBe(true);
+  });
+
+  it("should keep the owner off the manager step while their own step is to come", () => {
+    const chain = approvalChain(10000, 0, 100000);
+    expect(canApprove("owner", chain, 0)).toBe(false);
+    expect(canApprove("manager", chain, 0)).toBe(true);
+    expect(canApprove("owner", approvalChain(1000, 0, 100000), 0)).toBe(true);
+
+    const first = decideStep(chain, "approved", "manager-1", null, now);
+    expect(canApprove("manager", first.chain, 1)).toBe(false);
+    expect(canApprove("owner", first.chain, 1)).toBe(true);
+    expect(isIndependentApprover(first.chain, "manager-2", "owner-1")).toBe(true);
+  });
+
+  it("should count an owner's submission as the owner sign-off", () => {
+    const chain = approvalChain(10000, 0, 100000, { id: "owner-1", role: "owner", at: now });
+    expect(chain[1]).toMatchObject({ role: "owner", decision: "approved", decided_by: "owner-1", decided_at: now });
+    expect(pendingStep(chain)).toBe(0);
+    expect(canApprove("manager", chain, 0)).toBe(true);
+    expect(isIndependentApprover(chain, "owner-1", "manager-1")).toBe(true);
+    expect(decideStep(chain, "approved", "manager-1", null, now).status).toBe("approved");
+
+    expect(approvalChain(10000, 0, 100000, { id: "manager-1", role: "manager", at: now })[1].decision).toBeNull();
+  });
+});
+
+describe("reviseBaselinePeriods", () => {
+  const periods = [
+    { date: "2026-01-01", plannedValue: 0 },
+    { date: "2026-02-01", plannedValue: 50000 },
+    { date: "2026-03-01", plannedValue: 100000 },
+  ];
+
+  it("should keep planned value to date and stretch the rest to the new budget and end", () => {
+    expect(reviseBaselinePeriods(periods, 110000, 28, now)).toEqual([
+      { date: "2026-01-01", plannedValue: 0 },
+      { date: "2026-02-01", plannedValue: 50000 },
+      { date: "2026-03-29", plannedValue: 110000 },
+    ]);
+  });
+
+  it("should insert a point at the effective date between periods", () => {
+    const revised = reviseBaselinePeriods(periods, 90000, 0, "2026-02-15");
+    expect(revised[2].date).toBe("2026-02-15");
+    expect(revised[2].plannedValue).toBe(75000);
+    expect(revised[revised.length - 1]).toEqual({ date: "2026-03-01", plannedValue: 90000 });
+  });
+
+  it("should extend a plan that has already run out", () => {
+    expect(reviseBaselinePeriods(periods, 120000, 10, "2026-03-10").slice(-1)).toEqual([
+      { date: "2026-03-20", plannedValue: 120000 },
+    ]);
+  });
+});
+
+describe("buildVarianceHistory", () => {
+  const order = (number: number, approvedAt: string | null, before: number, after: number, endBefore: string, endAfter: string) => ({
+    number,
+    title: `Change ${number}`,
+    cost_impact: after - before,
+    time_impact_days: 0,
+    approved_at: approvedAt,
+    budget_before: approvedAt ? before : null,
+    budget_after: approvedAt ? after : null,
+    end_date_before: approvedAt ? endBefore : null,
+    end_date_after: approvedAt ? endAfter : null,
+  });
+
+  it("should measure each approved change against the original budget and end date", () => {
+    const history = buildVarianceHistory({ budget: 115000, end_date: "2026-07-10T00:00:00.000Z" }, [
+      order(2, "2026-03-01T00:00:00.000Z", 110000, 115000, "2026-07-01", "2026-07-10"),
+      order(1, "2026-02-01T00:00:00.000Z", 100000, 110000, "2026-06-01", "2026-07-01"),
+      order(3, null, 115000, 200000, "", ""),
+    ]);
+
+    expect(history).toMatchObject({
+      original_budget: 100000,
+      current_budget: 115000,
+      original_end_date: "2026-06-01",
+      current_end_date: "2026-07-10",
+      cost_variance: 15000,
+      cost_variance_percent: 15,
+      schedule_variance_days: 39,
+    });
+    expect(history.points.map(point => [point.reference, point.cost_variance, point.schedule_variance_days])).toEqual([
+      ["CO-001", 10000, 30],
+      ["CO-002", 15000, 39],
+    ]);
+  });
+
+  it("should report no variance before any change is approved", () => {
+    expect(buildVarianceHistory({ budget: 50000, end_date: null }, [])).toMatchObject({
+      cost_variance: 0,
+      cost_variance_percent: 0,
+      schedule_variance_days: null,
+      points: [],
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Change orders: a priced and timed change to the project's scope. A change
+ * order is drafted, submitted to an approval chain and, once every step has
+ * approved it, moves the project budget, end date and active baseline. A
+ * rejected change order can be revised and resubmitted.
+ */
+
+import { BaselinePeriod, plannedValueAt } from './evm';
+
+export type ChangeOrderStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+export type ApproverRole = 'manager' | 'owner';
+export type ApprovalDecision = 'approved' | 'rejected';
+
+export const CHANGE_ORDER_STATUSES: ChangeOrderStatus[] = ['draft', 'submitted', 'approved', 'rejected'];
+
+// Approval and rejection come from the chain, not from a status change
+export const CHANGE_ORDER_TRANSITIONS: Record<ChangeOrderStatus, ChangeOrderStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['draft'],
+  approved: [],
+  rejected: ['draft'],
+};
+
+export const canTransitionChangeOrder = (from: ChangeOrderStatus, to: ChangeOrderStatus) =>
+  CHANGE_ORDER_TRANSITIONS[from].includes(to);
+
+// Above either threshold the owner signs off after the project manager
+export const OWNER_APPROVAL_SHARE = 0.05;
+export const OWNER_APPROVAL_DAYS = 14;
+
+export interface ApprovalStep {
+  role: ApproverRole;
+  decision: ApprovalDecision | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  comment: string | null;
+}
+
+export interface ApprovedChangeOrder {
+  number: number;
+  title: string;
+  cost_impact: number;
+  time_impact_days: number;
+  approved_at: string | null;
+  budget_before: number | null;
+  budget_after: number | null;
+  end_date_before: string | null;
+  end_date_after: string | null;
+}
+
+export interface VariancePoint {
+  date: string;
+  reference: string;
+  title: string;
+  cost_impact: number;
+  time_impact_days: number;
+  budget: number;
+  end_date: string | null;
+  cost_variance: number;
+  cost_variance_percent: number | null;
+  schedule_variance_days: number | null;
+}
+
+export interface VarianceHistory {
+  original_budget: number;
+  current_budget: number;
+  original_end_date: string | null;
+  current_end_date: string | null;
+  cost_variance: number;
+  cost_variance_percent: number | null;
+  schedule_variance_days: number | null;
+  points: VariancePoint[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const dayOf = (value: string) => new Date(value.split('T')[0]).getTime();
+
+const toDate = (time: number) => new Date(time).toISOString().split('T')[0];
+
+export const changeOrderReference = (number: number) => `CO-${String(number).padStart(3, '0')}`;
+
+export const shiftDate = (date: string, days: number) => toDate(dayOf(date) + days * DAY_MS);
+
+const daysBetween = (from: string, to: string) => Math.round((dayOf(to) - dayOf(from)) / DAY_MS);
+
+export interface ChainSubmitter {
+  id: string;
+  role: string | null | undefined;
+  at: string;
+}
+
+/**
+ * The sign-offs a change order needs, fixed when it is submitted. An owner
+ * submitting a change has signed it off, so their own step starts approved.
+ */
+export function approvalChain(costImpact: number, timeImpactDays: number, budget: number, submitter?: ChainSubmitter): ApprovalStep[] {
+  const roles: ApproverRole[] = ['manager'];
+  if (Math.abs(costImpact) > budget * OWNER_APPROVAL_SHARE || Math.abs(timeImpactDays) > OWNER_APPROVAL_DAYS) {
+    roles.push('owner');
+  }
+  return roles.map(role => role === 'owner' && submitter?.role === 'owner'
+    ? { role, decision: 'approved', decided_by: submitter.id, decided_at: submitter.at, comment: null }
+    : { role, decision: null, decided_by: null, decided_at: null, comment: null });
+}
+
+export const pendingStep = (chain: ApprovalStep[]) => chain.findIndex(step => step.decision === null);
+
+// Owners can act for the manager step unless their own step is still to
+// come, which they could then no longer decide; nobody else can approve
+export const canApprove = (role: string | null, chain: ApprovalStep[], index: number) => {
+  if (chain[index].role === 'owner') return role === 'owner';
+  return role === 'manager' ||
+    (role === 'owner' && !chain.slice(index + 1).some(step => step.role === 'owner' && step.decision === null));
+};
+
+// Nobody decides a change they submitted, or more than one step of it
+export const isIndependentApprover = (chain: ApprovalStep[], submittedBy: string | null, userId: string) =>
+  userId !== submittedBy && !chain.some(step => step.decided_by === userId);
+
+/**
+ * Record a decision on the next pending step. Any rejection ends the chain;
+ * the change order is approved once the last step approves.
+ */
+export function decideStep(
+  chain: ApprovalStep[],
+  decision: ApprovalDecision,
+  userId: string,
+  comment: string | null,
+  now: string
+): { chain: ApprovalStep[]; status: ChangeOrderStatus } {
+  const index = pendingStep(chain);
+  if (index === -1) {
+    throw new Error('Every approval step has already been decided');
+  }
+
+  const decided = chain.map((step, i) =>
+    i === index ? { ...step, decision, decided_by: userId, decided_at: now, comment } : step
+  );
+  const status = decision === 'rejected' ? 'rejected' : pendingStep(decided) === -1 ? 'approved' : 'submitted';
+  return { chain: decided, status };
+}
+
+/**
+ * Rebaseline for an approved change: planned value up to the effective date
+ * stays as it was, and the remaining curve is stretched by the time impact
+ * and rescaled so it finishes at the new budget at completion.
+ */
+export function reviseBaselinePeriods(
+  periods: BaselinePeriod[],
+  newBac: number,
+  timeImpactDays: number,
+  effectiveDate: string
+): BaselinePeriod[] {
+  if (periods.length === 0) return [];
+
+  const sorted = [...periods].sort((a, b) => dayOf(a.date) - dayOf(b.date));
+  const effective = dayOf(effectiveDate);
+  const last = sorted[sorted.length - 1];
+  const past = sorted.filter(period => dayOf(period.date) <= effective);
+  const future = sorted.filter(period => dayOf(period.date) > effective);
+
+  if (future.length === 0) {
+    // The plan has already run out; the change lands at its new end
+    const end = Math.max(dayOf(last.date), effective + timeImpactDays * DAY_MS);
+    return end > dayOf(last.date)
+      ? [...sorted, { date: toDate(end), plannedValue: round2(newBac) }]
+      : [...sorted.slice(0, -1), { ...last, plannedValue: round2(newBac) }];
+  }
+
+  const pvAtEffective = plannedValueAt(sorted, effectiveDate);
+  const remainingDays = (dayOf(last.date) - effective) / DAY_MS;
+  const timeScale = Math.max(1, remainingDays + timeImpactDays) / remainingDays;
+  const remainingValue = last.plannedValue - pvAtEffective;
+  const valueScale = remainingValue > 0 ? Math.max(0, newBac - pvAtEffective) / remainingValue : 0;
+
+  const revised = [
+    ...past,
+    ...(past.length > 0 && dayOf(past[past.length - 1].date) === effective
+      ? []
+      : [{ date: toDate(effective), plannedValue: round2(pvAtEffective) }]),
+    ...future.map(period => ({
+      date: toDate(effective + Math.round((dayOf(period.date) - effective) / DAY_MS * timeScale) * DAY_MS),
+      plannedValue: round2(pvAtEffective + (period.plannedValue - pvAtEffective) * valueScale),
+    })),
+  ];
+
+  // Compressing the schedule can round two periods onto the same day
+  return revised.filter((period, i) => i === revised.length - 1 || period.date !== revised[i + 1].date);
+}
+
+/**
+ * Budget and end date after each approved change order, measured against
+ * where the project stood before the first one.
+ */
+export function buildVarianceHistory(
+  project: { budget: number; end_date?: string | null },
+  changeOrders: ApprovedChangeOrder[]
+): VarianceHistory {
+  const approved = changeOrders
+    .filter(order => order.approved_at && order.budget_after !== null)
+    .sort((a, b) => a.approved_at!.localeCompare(b.approved_at!) || a.number - b.number);
+
+  const originalBudget = Number(approved[0]?.budget_before ?? project.budget);
+  const currentEnd = project.end_date ? project.end_date.split('T')[0] : null;
+  const originalEnd = approved.length > 0 ? approved[0].end_date_before : currentEnd;
+  const percentOf = (variance: number) => (originalBudget > 0 ? round2(variance / originalBudget * 100) : null);
+  const slip = (end: string | null) => (originalEnd && end ? daysBetween(originalEnd, end) : null);
+
+  const points = approved.map(order => {
+    const variance = round2(Number(order.budget_after) - originalBudget);
+    return {
+      date: order.approved_at!,
+      reference: changeOrderReference(order.number),
+      title: order.title,
+      cost_impact: Number(order.cost_impact),
+      time_impact_days: order.time_impact_days,
+      budget: Number(order.budget_after),
+      end_date: order.end_date_after,
+      cost_variance: variance,
+      cost_variance_percent: percentOf(variance),
+      schedule_variance_days: slip(order.end_date_after),
+    };
+  });
+
+  const currentBudget = Number(project.budget);
+  const costVariance = round2(currentBudget - originalBudget);
+  return {
+    original_budget: originalBudget,
+    current_budget: currentBudget,
+    original_end_date: originalEnd,
+    current_end_date: currentEnd,
+    cost_variance: costVariance,
+    cost_variance_percent: percentOf(costVariance),
+    schedule_variance_days: slip(currentEnd),
+    points,
+  };
+}
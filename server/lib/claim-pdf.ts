@@ -0,0 +1,133 @@
+/**
+ * Progress claim as a PDF: the claim's lines grouped into the schedule of
+ * values and approved variations, then the certificate summary from gross
+ * value to the amount due.
+ */
+
+import { A4_WIDTH, A4_HEIGHT, PdfDocument, fitText } from './pdf';
+import { ClaimLineValuation, ClaimStatus, ClaimValuation } from './claims';
+
+export interface ClaimDocument {
+  projectName: string;
+  currency: string;
+  number: number;
+  period_end: string;
+  status: ClaimStatus;
+  submitted_at: string | null;
+  certified_at: string | null;
+  paid_at: string | null;
+  notes: string | null;
+  valuation: ClaimValuation;
+}
+
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+const BOTTOM = A4_HEIGHT - 60;
+
+// Right edges of the numeric columns, after the reference and description
+const COLUMNS = [
+  { title: 'Value', right: 330 },
+  { title: 'Prev %', right: 375 },
+  { title: '%', right: 410 },
+  { title: 'To date', right: 485 },
+  { title: 'This claim', right: A4_WIDTH - MARGIN },
+];
+const DESCRIPTION_X = 95;
+const DESCRIPTION_WIDTH = 170;
+
+const percent = (value: number) => `${Math.round(value * 10) / 10}%`;
+
+const day = (value: string) => value.split('T')[0];
+
+export function renderClaimPdf(claim: ClaimDocument): Buffer {
+  const doc = new PdfDocument();
+  // Amounts in the project's currency, to its usual number of decimals
+  const money = new Intl.NumberFormat('en-GB', { style: 'currency', currency: claim.currency }).format;
+  let y = MARGIN;
+
+  const header = () => {
+    COLUMNS.forEach(column => doc.text(column.title, column.right, y, { size: 8, bold: true, align: 'right' }));
+    doc.text('Ref', MARGIN, y, { size: 8, bold: true });
+    doc.text('Description', DESCRIPTION_X, y, { size: 8, bold: true });
+    doc.rule(MARGIN, y + 4, A4_WIDTH - MARGIN, y + 4);
+    y += ROW_HEIGHT;
+  };
+
+  const ensureRoom = (height: number) => {
+    if (y + height <= BOTTOM) return;
+    doc.addPage();
+    y = MARGIN;
+    header();
+  };
+
+  doc.text(`Progress Claim No. ${claim.number}`, MARGIN, y + 10, { size: 18, bold: true });
+  doc.text(claim.projectName, MARGIN, y + 30, { size: 12 });
+  y += 52;
+  const dates = [
+    `Period ending ${day(claim.period_end)}`,
+    `Status: ${claim.status}`,
+    claim.submitted_at && `Submitted ${day(claim.submitted_at)}`,
+    claim.certified_at && `Certified ${day(claim.certified_at)}`,
+    claim.paid_at && `Paid ${day(claim.paid_at)}`,
+  ].filter(Boolean).join('   ');
+  doc.text(dates, MARGIN, y, { size: 9 });
+  y += 24;
+  header();
+
+  const section = (title: string, lines: ClaimLineValuation[]) => {
+    if (lines.length === 0) return;
+    ensureRoom(ROW_HEIGHT * 2);
+    doc.text(title, MARGIN, y, { size: 9, bold: true });
+    y += ROW_HEIGHT;
+    for (const line of lines) {
+      ensureRoom(ROW_HEIGHT);
+      doc.text(fitText(line.reference, DESCRIPTION_X - MARGIN - 6, 8), MARGIN, y, { size: 8 });
+      doc.text(fitText(line.description, DESCRIPTION_WIDTH, 8), DESCRIPTION_X, y, { size: 8 });
+      [
+        money(line.scheduled_value),
+        percent(line.previous_percent),
+        percent(line.percent_complete),
+        money(line.value_to_date),
+        money(line.this_period),
+      ].forEach((value, index) => doc.text(value, COLUMNS[index].right, y, { size: 8, align: 'right' }));
+      y += ROW_HEIGHT;
+    }
+  };
+
+  const { valuation } = claim;
+  section('Schedule of values', valuation.lines.filter(line => line.source === 'item'));
+  section('Approved variations', valuation.lines.filter(line => line.source === 'variation'));
+
+  // Retention held is already net of anything released
+  const retentionLabel = valuation.retention_released > 0
+    ? `Less retention at ${percent(valuation.retention_rate)}, after ${money(valuation.retention_released)} released`
+    : `Less retention held at ${percent(valuation.retention_rate)}`;
+  const summary: [string, number, boolean?][] = [
+    ['Original contract sum', valuation.contract_sum],
+    ['Approved variations', valuation.variations_sum],
+    ['Revised contract sum', valuation.revised_contract_sum, true],
+    [`Gross value of work to date (${percent(valuation.percent_complete)})`, valuation.gross_to_date],
+    [retentionLabel, -valuation.retention_held],
+    ['Net value to date', valuation.net_to_date, true],
+    ['Less previously certified', -valuation.previous_certified],
+    ['Amount due this claim', valuation.amount_due, true],
+  ];
+
+  ensureRoom(ROW_HEIGHT * (summary.length + 2));
+  y += 8;
+  doc.rule(MARGIN, y - 10, A4_WIDTH - MARGIN, y - 10);
+  for (const [label, value, bold] of summary) {
+    doc.text(label, 440, y, { size: 9, bold, align: 'right' });
+    doc.text(money(value), A4_WIDTH - MARGIN, y, { size: 9, bold, align: 'right' });
+    y += ROW_HEIGHT;
+  }
+
+  if (claim.notes) {
+    ensureRoom(ROW_HEIGHT * 2);
+    y += 8;
+    doc.text('Notes', MARGIN, y, { size: 9, bold: true });
+    doc.text(fitText(claim.notes, A4_WIDTH - MARGIN * 2 - 40, 9), MARGIN + 40, y, { size: 9 });
+  }
+
+  return doc.toBuffer();
+}
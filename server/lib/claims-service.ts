@@ -0,0 +1,349 @@
+import { insertWithNextNumber, supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { ClaimValuation, valueClaims } from './claims';
+
+export type ScheduleOfValuesItem = Database['public']['Tables']['schedule_of_values']['Row'];
+export type ScheduleOfValuesInput = Pick<ScheduleOfValuesItem, 'item_number' | 'description' | 'scheduled_value' | 'position'>;
+export type Variation = Database['public']['Tables']['variations']['Row'];
+export type VariationInput = Pick<Variation, 'reference' | 'description' | 'amount'>;
+export type VariationUpdate = Partial<VariationInput & Pick<Variation, 'status' | 'approved_by' | 'approved_at'>>;
+export type ProgressClaim = Database['public']['Tables']['progress_claims']['Row'];
+export type ProgressClaimInput = Pick<ProgressClaim, 'period_end' | 'retention_rate' | 'notes' | 'lines'>;
+export type ProgressClaimUpdate = Partial<Omit<ProgressClaim, 'id' | 'project_id' | 'number' | 'created_by' | 'created_at' | 'updated_at'>>;
+export type ValuedClaim = ProgressClaim & { valuation: ClaimValuation };
+
+export class ClaimsService {
+  // Schedule of values
+  static async getScheduleOfValues(projectId: number): Promise<ScheduleOfValuesItem[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('schedule_of_values')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('position')
+        .order('id');
+
+      if (error) {
+        console.error('Error fetching schedule of values:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getScheduleOfValues(projectId);
+    }
+  }
+
+  static async getScheduleOfValuesItem(projectId: number, id: number): Promise<ScheduleOfValuesItem | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('schedule_of_values')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getScheduleOfValuesItem(projectId, id);
+    }
+  }
+
+  static async createScheduleOfValuesItem(projectId: number, itemData: ScheduleOfValuesInput): Promise<ScheduleOfValuesItem | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('schedule_of_values')
+        .insert({ ...itemData, project_id: projectId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating schedule of values item:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createScheduleOfValuesItem({ ...itemData, project_id: projectId });
+    }
+  }
+
+  static async updateScheduleOfValuesItem(
+    projectId: number,
+    id: number,
+    updates: Partial<ScheduleOfValuesInput>
+  ): Promise<ScheduleOfValuesItem | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('schedule_of_values')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating schedule of values item:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateScheduleOfValuesItem(projectId, id, updates);
+    }
+  }
+
+  static async deleteScheduleOfValuesItem(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('schedule_of_values')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting schedule of values item:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteScheduleOfValuesItem(projectId, id);
+    }
+  }
+
+  // Variations
+  static async getVariations(projectId: number): Promise<Variation[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('variations')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching variations:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getVariations(projectId);
+    }
+  }
+
+  static async getVariation(projectId: number, id: number): Promise<Variation | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('variations')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getVariation(projectId, id);
+    }
+  }
+
+  static async createVariation(projectId: number, variationData: VariationInput, userId: string): Promise<Variation | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('variations')
+        .insert({ ...variationData, project_id: projectId, created_by: userId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating variation:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createVariation({ ...variationData, project_id: projectId, created_by: userId });
+    }
+  }
+
+  static async updateVariation(projectId: number, id: number, updates: VariationUpdate): Promise<Variation | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('variations')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating variation:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateVariation(projectId, id, updates);
+    }
+  }
+
+  static async deleteVariation(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('variations')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting variation:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteVariation(projectId, id);
+    }
+  }
+
+  // Progress claims, in number order per project
+  static async getClaims(projectIds: number[]): Promise<ProgressClaim[]> {
+    if (projectIds.length === 0) return [];
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('progress_claims')
+        .select('*')
+        .in('project_id', projectIds)
+        .order('project_id')
+        .order('number');
+
+      if (error) {
+        console.error('Error fetching progress claims:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getProgressClaims(projectIds);
+    }
+  }
+
+  static async getClaim(projectId: number, id: number): Promise<ProgressClaim | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('progress_claims')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getProgressClaim(projectId, id);
+    }
+  }
+
+  static async createClaim(projectId: number, claimData: ProgressClaimInput, userId: string): Promise<ProgressClaim | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await insertWithNextNumber('progress_claims', projectId, number => supabase
+        .from('progress_claims')
+        .insert({ ...claimData, project_id: projectId, number, created_by: userId })
+        .select()
+        .single());
+
+      if (error || !data) {
+        console.error('Error creating progress claim:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createProgressClaim({ ...claimData, project_id: projectId, created_by: userId });
+    }
+  }
+
+  static async updateClaim(projectId: number, id: number, updates: ProgressClaimUpdate): Promise<ProgressClaim | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('progress_claims')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating progress claim:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateProgressClaim(projectId, id, updates);
+    }
+  }
+
+  static async deleteClaim(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('progress_claims')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting progress claim:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteProgressClaim(projectId, id);
+    }
+  }
+
+  /**
+   * Every claim on a project with its valuation. Drafts are valued against
+   * the current schedule and approved variations; later claims use the lines
+   * frozen when they were submitted. Pass a revised draft to value it in
+   * place of the stored one before saving.
+   */
+  static async getValuedClaims(projectId: number, revised?: ProgressClaim): Promise<ValuedClaim[]> {
+    const [claims, items, variations] = await Promise.all([
+      this.getClaims([projectId]),
+      this.getScheduleOfValues(projectId),
+      this.getVariations(projectId),
+    ]);
+
+    return valueClaims(
+      revised ? claims.map(claim => (claim.id === revised.id ? revised : claim)) : claims,
+      items,
+      variations
+    );
+  }
+
+  static async getValuedClaim(projectId: number, id: number, revised?: ProgressClaim): Promise<ValuedClaim | null> {
+    return (await this.getValuedClaims(projectId, revised)).find(claim => claim.id === id) ?? null;
+  }
+
+  // Whether any submitted, certified or paid claim carries a line for this item or variation
+  static async isClaimed(projectId: number, source: 'item' | 'variation', sourceId: number): Promise<boolean> {
+    const claims = await this.getClaims([projectId]);
+    return claims.some(claim => claim.status !== 'draft' &&
+      claim.lines.some(line => line.source === source && line.source_id === sourceId));
+  }
+}
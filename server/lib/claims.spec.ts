@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { buildCashFlow, ClaimRecord, valueClaims } from "./claims";
+import { renderClaimPdf } from "./claim-pdf";
+import { extractText } from "./document-text";
+import { fixture } from "../test-utils";
+
+const items = [
+  { id: 2, item_number: "2", description: "Frame", scheduled_value: 60000, position: 1 },
+  { id: 1, item_number: "1", description: "Substructure", scheduled_value: 40000, position: 0 },
+];
+
+const variations = [
+  { id: 1, reference: "V1", description: "Extra drainage", amount: 5000, status: "approved" as const },
+  { id: 2, reference: "V2", description: "Canopy", amount: 8000, status: "pending" as const },
+];
+
+const claim = fixture<ClaimRecord>({
+  number: 1,
+  status: "draft",
+  retention_rate: 5,
+  retention_released: 0,
+  lines: [],
+  amount_due: null,
+});
+
+describe("valueClaims", () => {
+  it("should value a first draft from the schedule and approved variations", () => {
+    const [first] = valueClaims([
+      claim({ lines: [{ source: "item", source_id: 1, reference: "1", description: "Substructure", scheduled_value: 40000, percent_complete: 50 }] }),
+    ], items, variations);
+
+    expect(first.valuation.lines.map(line => line.reference)).toEqual(["1", "2", "V1"]);
+    expect(first.valuation.revised_contract_sum).toBe(105000);
+    expect(first.valuation.gross_to_date).toBe(20000);
+    expect(first.valuation.retention_held).toBe(1000);
+    expect(first.valuation.amount_due).toBe(19000);
+  });
+
+  it("should bill the difference from certified claims and release retention", () => {
+    const certifiedLines = [
+      { source: "item" as const, source_id: 1, reference: "1", description: "Substructure", scheduled_value: 40000, percent_complete: 100 },
+      { source: "item" as const, source_id: 2, reference: "2", description: "Frame", scheduled_value: 60000, percent_complete: 0 },
+    ];
+    const [, second] = valueClaims([
+      claim({ status: "certified", lines: certifiedLines, amount_due: 38000 }),
+      claim({
+        number: 2,
+        retention_released: 1500,
+        lines: [{ ...certifiedLines[1], percent_complete: 50 }],
+      }),
+    ], items, variations);
+
+    const frame = second.valuation.lines.find(line => line.reference === "2")!;
+    expect(frame.previous_percent).toBe(0);
+    expect(frame.this_period).toBe(30000);
+    // Lines not touched on the draft carry forward what was already claimed
+    expect(second.valuation.lines.find(line => line.reference === "1")!.percent_complete).toBe(100);
+    expect(second.valuation.gross_to_date).toBe(70000);
+    expect(second.valuation.retention_releasable).toBe(3500);
+    expect(second.valuation.retention_held).toBe(2000);
+    expect(second.valuation.previous_certified).toBe(38000);
+    expect(second.valuation.amount_due).toBe(30000);
+  });
+});
+
+describe("buildCashFlow", () => {
+  it("should total certified and paid claims by month, filling gaps", () => {
+    const flow = buildCashFlow([
+      { status: "paid", amount_due: 19000, certified_at: "2026-01-28T10:00:00Z", paid_at: "2026-03-02T09:00:00Z" },
+      { status: "certified", amount_due: 30000, certified_at: "2026-03-30T10:00:00Z", paid_at: null },
+      { status: "submitted", amount_due: 12000, certified_at: null, paid_at: null },
+    ]);
+
+    expect(flow.map(point => point.month)).toEqual(["2026-01", "2026-02", "2026-03"]);
+    expect(flow[1]).toMatchObject({ certified: 0, paid: 0, cumulative_certified: 19000 });
+    expect(flow[2]).toMatchObject({ certified: 30000, paid: 19000, cumulative_certified: 49000, cumulative_paid: 19000 });
+  });
+});
+
+describe("renderClaimPdf", () => {
+  it("should render the claim lines and amount due", () => {
+    const [valued] = valueClaims([claim({})], items, variations);
+    const pdf = renderClaimPdf({
+      ...valued,
+      projectName: "Riverside (Block A)",
+      currency: "GBP",
+      period_end: "2026-01-31",
+      submitted_at: null,
+      certified_at: null,
+      paid_at: null,
+      notes: null,
+    });
+
+    expect(pdf.subarray(0, 8).toString()).toBe("%PDF-1.4");
+    const text = extractText(pdf, "application/pdf");
+    expect(text).toContain("Progress Claim No. 1");
+    expect(text).toContain("Riverside (Block A)");
+    expect(text).toContain("Extra drainage");
+    expect(text).toContain("Amount due this claim");
+    expect(text).toContain("£");
+  });
+
+  it("should show amounts in the project's currency", () => {
+    const [valued] = valueClaims([claim({})], items, variations);
+    const pdf = renderClaimPdf({
+      ...valued,
+      projectName: "Harbour Tower",
+      currency: "USD",
+      period_end: "2026-01-31",
+      submitted_at: null,
+      certified_at: null,
+      paid_at: null,
+      notes: null,
+    });
+
+    const text = extractText(pdf, "application/pdf");
+    expect(text).toContain(`US$${valued.valuation.amount_due.toLocaleString("en-GB", { minimumFractionDigits: 2 })}`);
+    expect(text).not.toContain("£");
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Progress claims: each claim values the work done to date against the
+ * schedule of values and approved variations, holds back retention, and
+ * asks for the difference from what was certified before. A claim moves
+ * draft → submitted → certified → paid; a submitted claim can be returned
+ * to draft. Its figures are frozen when it is submitted.
+ */
+
+export type ClaimStatus = 'draft' | 'submitted' | 'certified' | 'paid';
+export type VariationStatus = 'pending' | 'approved' | 'rejected';
+export type ClaimLineSource = 'item' | 'variation';
+
+export const CLAIM_STATUSES: ClaimStatus[] = ['draft', 'submitted', 'certified', 'paid'];
+
+export const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['certified', 'draft'],
+  certified: ['paid'],
+  paid: [],
+};
+
+export const canTransitionClaim = (from: ClaimStatus, to: ClaimStatus) => CLAIM_TRANSITIONS[from].includes(to);
+
+export const VARIATION_STATUSES: VariationStatus[] = ['pending', 'approved', 'rejected'];
+
+// An approved variation is part of the contract sum and stays approved
+export const VARIATION_TRANSITIONS: Record<VariationStatus, VariationStatus[]> = {
+  pending: ['approved', 'rejected'],
+  approved: [],
+  rejected: ['pending'],
+};
+
+export const canTransitionVariation = (from: VariationStatus, to: VariationStatus) => VARIATION_TRANSITIONS[from].includes(to);
+
+// Retention held back from each claim unless the claim sets its own rate
+export const DEFAULT_RETENTION_RATE = 5;
+
+export interface ClaimLine {
+  source: ClaimLineSource;
+  source_id: number;
+  reference: string;
+  description: string;
+  scheduled_value: number;
+  percent_complete: number;
+}
+
+export interface ScheduleItem {
+  id: number;
+  item_number: string;
+  description: string;
+  scheduled_value: number;
+  position: number;
+}
+
+export interface ClaimVariation {
+  id: number;
+  reference: string;
+  description: string;
+  amount: number;
+  status: VariationStatus;
+}
+
+export interface ClaimLineValuation extends ClaimLine {
+  previous_percent: number;
+  previous_value: number;
+  value_to_date: number;
+  this_period: number;
+}
+
+export interface ClaimTerms {
+  retention_rate: number;
+  // Retention released by this claim and by the claims before it
+  retention_released: number;
+  retention_released_before: number;
+  // Sum of what was due on every earlier claim
+  previous_certified: number;
+}
+
+export interface ClaimValuation {
+  lines: ClaimLineValuation[];
+  contract_sum: number;
+  variations_sum: number;
+  revised_contract_sum: number;
+  gross_to_date: number;
+  percent_complete: number;
+  retention_rate: number;
+  retention_released: number;
+  // Retention this claim could still release
+  retention_releasable: number;
+  retention_held: number;
+  net_to_date: number;
+  previous_certified: number;
+  amount_due: number;
+}
+
+export interface ClaimRecord {
+  number: number;
+  status: ClaimStatus;
+  retention_rate: number;
+  retention_released: number;
+  lines: ClaimLine[];
+  amount_due: number | null;
+}
+
+export interface CashFlowClaim {
+  status: ClaimStatus;
+  amount_due: number | null;
+  certified_at: string | null;
+  paid_at: string | null;
+}
+
+export interface CashFlowPoint {
+  month: string;
+  certified: number;
+  paid: number;
+  cumulative_certified: number;
+  cumulative_paid: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const lineKey = (line: Pick<ClaimLine, 'source' | 'source_id'>) => `${line.source}:${line.source_id}`;
+
+/**
+ * Lines for a draft claim: every schedule item in order, then every approved
+ * variation. Percentages already entered on the draft are kept; new lines
+ * start from what the previous claim reached.
+ */
+export function draftClaimLines(
+  items: ScheduleItem[],
+  variations: ClaimVariation[],
+  current: ClaimLine[],
+  previous: ClaimLine[]
+): ClaimLine[] {
+  const entered = new Map(current.map(line => [lineKey(line), line.percent_complete]));
+  const claimed = new Map(previous.map(line => [lineKey(line), line.percent_complete]));
+  const percentFor = (source: ClaimLineSource, id: number) =>
+    entered.get(`${source}:${id}`) ?? claimed.get(`${source}:${id}`) ?? 0;
+
+  return [
+    ...[...items]
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+      .map(item => ({
+        source: 'item' as const,
+        source_id: item.id,
+        reference: item.item_number,
+        description: item.description,
+        scheduled_value: Number(item.scheduled_value),
+        percent_complete: percentFor('item', item.id),
+      })),
+    ...variations
+      .filter(variation => variation.status === 'approved')
+      .sort((a, b) => a.id - b.id)
+      .map(variation => ({
+        source: 'variation' as const,
+        source_id: variation.id,
+        reference: variation.reference,
+        description: variation.description,
+        scheduled_value: Number(variation.amount),
+        percent_complete: percentFor('variation', variation.id),
+      })),
+  ];
+}
+
+/** Lines whose percentage is below what an earlier claim already reached. */
+export function regressedLines(lines: ClaimLine[], previous: ClaimLine[]): ClaimLine[] {
+  const claimed = new Map(previous.map(line => [lineKey(line), line.percent_complete]));
+  return lines.filter(line => line.percent_complete < (claimed.get(lineKey(line)) ?? 0));
+}
+
+export function valueClaim(lines: ClaimLine[], previous: ClaimLine[], terms: ClaimTerms): ClaimValuation {
+  const claimed = new Map(previous.map(line => [lineKey(line), line.percent_complete]));
+
+  const valued = lines.map(line => {
+    const value = Number(line.scheduled_value);
+    const previousPercent = claimed.get(lineKey(line)) ?? 0;
+    const previousValue = round2(value * previousPercent / 100);
+    const valueToDate = round2(value * line.percent_complete / 100);
+    return {
+      ...line,
+      previous_percent: previousPercent,
+      previous_value: previousValue,
+      value_to_date: valueToDate,
+      this_period: round2(valueToDate - previousValue),
+    };
+  });
+
+  const sum = (source: ClaimLineSource) =>
+    round2(valued.filter(line => line.source === source).reduce((total, line) => total + line.scheduled_value, 0));
+  const contractSum = sum('item');
+  const variationsSum = sum('variation');
+  const revisedSum = round2(contractSum + variationsSum);
+  const gross = round2(valued.reduce((total, line) => total + line.value_to_date, 0));
+
+  // Releases can't give back more than has been held
+  const retained = round2(gross * terms.retention_rate / 100);
+  const released = Math.min(retained, round2(terms.retention_released_before + terms.retention_released));
+  const retentionHeld = round2(retained - released);
+  const netToDate = round2(gross - retentionHeld);
+
+  return {
+    lines: valued,
+    contract_sum: contractSum,
+    variations_sum: variationsSum,
+    revised_contract_sum: revisedSum,
+    gross_to_date: gross,
+    percent_complete: revisedSum > 0 ? round2(gross / revisedSum * 100) : 0,
+    retention_rate: terms.retention_rate,
+    retention_released: terms.retention_released,
+    retention_releasable: Math.max(0, round2(retained - terms.retention_released_before)),
+    retention_held: retentionHeld,
+    net_to_date: netToDate,
+    previous_certified: round2(terms.previous_certified),
+    amount_due: round2(netToDate - terms.previous_certified),
+  };
+}
+
+const isSettled = (claim: ClaimRecord) => claim.status === 'certified' || claim.status === 'paid';
+
+/**
+ * Value every claim on a project. Each is measured against the certified
+ * claims before it; drafts pick up the current schedule and variations.
+ */
+export function valueClaims<T extends ClaimRecord>(
+  claims: T[],
+  items: ScheduleItem[],
+  variations: ClaimVariation[]
+): (T & { valuation: ClaimValuation })[] {
+  const ordered = [...claims].sort((a, b) => a.number - b.number);
+  return ordered.map(claim => {
+    const settled = ordered.filter(other => other.number < claim.number && isSettled(other));
+    const previousLines = settled.length > 0 ? settled[settled.length - 1].lines : [];
+    const lines = claim.status === 'draft'
+      ? draftClaimLines(items, variations, claim.lines, previousLines)
+      : claim.lines;
+
+    return {
+      ...claim,
+      valuation: valueClaim(lines, previousLines, {
+        retention_rate: Number(claim.retention_rate),
+        retention_released: Number(claim.retention_released),
+        retention_released_before: settled.reduce((total, other) => total + Number(other.retention_released), 0),
+        previous_certified: settled.reduce((total, other) => total + Number(other.amount_due ?? 0), 0),
+      }),
+    };
+  });
+}
+
+const monthOf = (value: string) => value.slice(0, 7);
+
+const nextMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return monthIndex === 12 ? `${year + 1}-01` : `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Monthly cash flow from certified claims: what was certified each month and
+ * what was paid, with running totals. Months with no activity are included so
+ * the series charts evenly.
+ */
+export function buildCashFlow(claims: CashFlowClaim[]): CashFlowPoint[] {
+  const certified = new Map<string, number>();
+  const paid = new Map<string, number>();
+  for (const claim of claims) {
+    const amount = Number(claim.amount_due ?? 0);
+    if ((claim.status === 'certified' || claim.status === 'paid') && claim.certified_at) {
+      const month = monthOf(claim.certified_at);
+      certified.set(month, (certified.get(month) ?? 0) + amount);
+    }
+    if (claim.status === 'paid' && claim.paid_at) {
+      const month = monthOf(claim.paid_at);
+      paid.set(month, (paid.get(month) ?? 0) + amount);
+    }
+  }
+
+  const months = [...certified.keys(), ...paid.keys()].sort();
+  if (months.length === 0) return [];
+
+  const points: CashFlowPoint[] = [];
+  let cumulativeCertified = 0;
+  let cumulativePaid = 0;
+  for (let month = months[0]; month <= months[months.length - 1]; month = nextMonth(month)) {
+    cumulativeCertified += certified.get(month) ?? 0;
+    cumulativePaid += paid.get(month) ?? 0;
+    points.push({
+      month,
+      certified: round2(certified.get(month) ?? 0),
+      paid: round2(paid.get(month) ?? 0),
+      cumulative_certified: round2(cumulativeCertified),
+      cumulative_paid: round2(cumulativePaid),
+    });
+  }
+  return points;
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { parseIfMatch } from "./concurrency";
+
+describe("parseIfMatch", () => {
+  it("should read quoted and bare versions", () => {
+    expect(parseIfMatch('"3"')).toBe(3);
+    expect(parseIfMatch(" 12 ")).toBe(12);
+  });
+
+  it("should treat a missing header or * as unconditional", () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch("")).toBeUndefined();
+    expect(parseIfMatch("*")).toBeUndefined();
+  });
+
+  it("should reject anything that isn't a version", () => {
+    expect(parseIfMatch('W/"3"')).toBeNull();
+    expect(parseIfMatch('"3", "4"')).toBeNull();
+    expect(parseIfMatch("abc")).toBeNull();
+  });
+});
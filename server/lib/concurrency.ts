@@ -0,0 +1,25 @@
+/**
+ * Optimistic concurrency
+ * Projects and materials carry a version that goes up on every update. An
+ * edit sends the version it started from in If-Match; if the record has
+ * moved on since, the update is refused instead of overwriting someone
+ * else's change.
+ */
+
+export class VersionConflictError extends Error {
+  constructor() {
+    super('The record was changed by someone else');
+  }
+}
+
+/**
+ * The version in an If-Match header, written `"3"` or `3`. Undefined when
+ * the update is unconditional (no header, or `*`), null when the header
+ * isn't a version.
+ */
+export const parseIfMatch = (header: string | undefined): number | null | undefined => {
+  const value = header?.trim();
+  if (!value || value === '*') return undefined;
+  const match = value.match(/^"?(\d{1,9})"?$/);
+  return match ? parseInt(match[1]) : null;
+};
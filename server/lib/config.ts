@@ -1,4 +1,5 @@
 import "dotenv/config";
+import { parseRetentionDays } from "./trash";
 
 export type AppEnvironment = "development" | "test" | "production";
 
@@ -16,4 +17,5 @@ export const socketOrigins: string[] = nodeEnv === "production"
   ? [publicSiteUrl || "https://fusion-starter-1758821892.netlify.app"]
   : ["http://localhost:8080", "http://localhost:5173"];
 
-
+// Days a deleted project or material stays in the trash before it is purged
+export const trashRetentionDays: number = parseRetentionDays(process.env.TRASH_RETENTION_DAYS);
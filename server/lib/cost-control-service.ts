@@ -0,0 +1,155 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { buildCostReport, CostReport } from './cost-control';
+import { TimesheetService } from './timesheets-service';
+import { ExchangeRatesService } from './exchange-rates-service';
+import { DEFAULT_CURRENCY } from './currency';
+
+export type Subcontract = Database['public']['Tables']['subcontracts']['Row'];
+export type SubcontractInput = Pick<Subcontract, 'cost_code_id' | 'contractor' | 'description' | 'contract_value' |
+  'invoiced_to_date' | 'status'>;
+export type SubcontractUpdate = Partial<SubcontractInput>;
+
+export class CostControlService {
+  static async getSubcontracts(projectId: number): Promise<Subcontract[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('subcontracts')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at');
+
+      if (error) {
+        console.error('Error fetching subcontracts:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getSubcontracts(projectId);
+    }
+  }
+
+  static async getSubcontract(projectId: number, id: number): Promise<Subcontract | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('subcontracts')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getSubcontract(projectId, id);
+    }
+  }
+
+  static async createSubcontract(projectId: number, subcontractData: SubcontractInput, userId: string): Promise<Subcontract | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('subcontracts')
+        .insert({ ...subcontractData, project_id: projectId, created_by: userId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating subcontract:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createSubcontract({ ...subcontractData, project_id: projectId, created_by: userId });
+    }
+  }
+
+  static async updateSubcontract(projectId: number, id: number, updates: SubcontractUpdate): Promise<Subcontract | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('subcontracts')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating subcontract:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateSubcontract(projectId, id, updates);
+    }
+  }
+
+  static async deleteSubcontract(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('subcontracts')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting subcontract:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteSubcontract(projectId, id);
+    }
+  }
+
+  /**
+   * Budget, commitments, actuals and forecast per cost code, in the project's
+   * currency. Materials in the trash are still counted, as their deliveries
+   * were still paid for.
+   */
+  static async getCostReport(projectId: number): Promise<CostReport> {
+    const [costCodes, timeEntries, { currency, ...records }] = await Promise.all([
+      TimesheetService.getCostCodes(projectId),
+      TimesheetService.getTimeEntries({ projectId, status: 'approved' }),
+      this.getCostRecords(projectId),
+    ]);
+    const converter = await ExchangeRatesService.getConverter(currency);
+
+    return buildCostReport({ costCodes, timeEntries, ...records, converter });
+  }
+
+  private static async getCostRecords(projectId: number) {
+    if (!isSupabaseConfigured()) {
+      const currency = FallbackDatabase.getProjectById(projectId)?.currency || DEFAULT_CURRENCY;
+      return { currency, ...FallbackDatabase.getCostControlRecords(projectId) };
+    }
+
+    const [project, materials, purchaseOrders, transactions, subcontracts] = await Promise.all([
+      supabase.from('projects').select('currency').eq('id', projectId).single(),
+      supabase.from('materials').select('id, cost_code_id, currency').eq('project_id', projectId),
+      supabase.from('purchase_orders').select('*').eq('project_id', projectId),
+      supabase.from('material_transactions').select('*').eq('project_id', projectId).in('type', ['received', 'returned']),
+      this.getSubcontracts(projectId),
+    ]);
+
+    const error = materials.error || purchaseOrders.error || transactions.error;
+    if (error) {
+      console.error('Error fetching cost records:', error);
+    }
+
+    return {
+      currency: project.data?.currency || DEFAULT_CURRENCY,
+      materials: materials.data || [],
+      purchaseOrders: purchaseOrders.data || [],
+      transactions: transactions.data || [],
+      subcontracts,
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { buildCostReport, CostReportInput } from "./cost-control";
+import { createConverter } from "./currency";
+import { fixture } from "../test-utils";
+
+const input = fixture<CostReportInput>({
+  costCodes: [
+    { id: 2, code: "03-300", name: "Concrete", budget: 50000 },
+    { id: 1, code: "02-100", name: "Groundworks", budget: 20000 },
+  ],
+  materials: [
+    { id: 10, cost_code_id: 2 },
+    { id: 11, cost_code_id: null },
+  ],
+  purchaseOrders: [],
+  transactions: [],
+  subcontracts: [],
+  timeEntries: [],
+});
+
+describe("buildCostReport", () => {
+  it("should split commitments from actuals per code", () => {
+    const report = buildCostReport(input({
+      purchaseOrders: [
+        { id: 1, cost_code_id: 2, quantity_ordered: 100, quantity_received: 40, unit_cost: 100, status: "partially_received" },
+      ],
+      transactions: [
+        { material_id: 10, type: "received", quantity: 40, unit_cost: 100, purchase_order_id: 1 },
+        { material_id: 10, type: "consumed", quantity: 30, unit_cost: null, purchase_order_id: null },
+      ],
+      subcontracts: [
+        { cost_code_id: 1, contract_value: 15000, invoiced_to_date: 5000, status: "awarded" },
+      ],
+      timeEntries: [
+        { cost_code_id: 1, cost: 800, status: "approved" },
+        { cost_code_id: 1, cost: 400, status: "submitted" },
+      ],
+    }));
+
+    expect(report.lines.map(line => line.code)).toEqual(["02-100", "03-300"]);
+    const [groundworks, concrete] = report.lines;
+    expect(concrete).toMatchObject({ committed: 10000, actual_materials: 4000, actual: 4000, open_commitments: 6000 });
+    expect(groundworks).toMatchObject({
+      committed: 15000,
+      actual_subcontracts: 5000,
+      actual_labour: 800,
+      actual: 5800,
+      open_commitments: 10000,
+      cost_to_complete: 14200,
+      forecast_final_cost: 20000,
+      variance: 0,
+      percent_spent: 29,
+    });
+    expect(report.uncoded).toBeNull();
+  });
+
+  it("should forecast an overrun when open commitments exceed the remaining budget", () => {
+    const report = buildCostReport(input({
+      subcontracts: [
+        { cost_code_id: 1, contract_value: 18000, invoiced_to_date: 6000, status: "awarded" },
+        { cost_code_id: 1, contract_value: 9000, invoiced_to_date: 1000, status: "cancelled" },
+      ],
+    }));
+
+    const groundworks = report.lines[0];
+    expect(groundworks.committed).toBe(19000);
+    expect(groundworks.open_commitments).toBe(12000);
+    expect(groundworks.cost_to_complete).toBe(13000);
+    expect(groundworks.forecast_final_cost).toBe(20000);
+
+    const tight = buildCostReport(input({
+      costCodes: [{ id: 1, code: "02-100", name: "Groundworks", budget: 10000 }],
+      subcontracts: [{ cost_code_id: 1, contract_value: 18000, invoiced_to_date: 6000, status: "awarded" }],
+    })).lines[0];
+    expect(tight.cost_to_complete).toBe(12000);
+    expect(tight.variance).toBe(-8000);
+  });
+
+  it("should keep cancelled orders, returns and uncoded materials in the totals", () => {
+    const report = buildCostReport(input({
+      purchaseOrders: [
+        { id: 1, cost_code_id: 2, quantity_ordered: 10, quantity_received: 4, unit_cost: 50, status: "cancelled" },
+      ],
+      transactions: [
+        { material_id: 10, type: "received", quantity: 4, unit_cost: 50, purchase_order_id: 1 },
+        { material_id: 11, type: "received", quantity: 10, unit_cost: 12.5, purchase_order_id: null },
+        { material_id: 11, type: "returned", quantity: 2, unit_cost: 12.5, purchase_order_id: null },
+      ],
+    }));
+
+    expect(report.lines[1]).toMatchObject({ committed: 200, actual: 200, open_commitments: 0 });
+    expect(report.uncoded).toMatchObject({ code: null, budget: 0, actual: 100, variance: -100, percent_spent: null });
+    expect(report.totals).toMatchObject({ budget: 70000, actual: 300, forecast_final_cost: 70100, variance: -100 });
+  });
+
+  it("should convert materials priced in another currency at the order or receipt date", () => {
+    const rates = [
+      { base_currency: "EUR", quote_currency: "GBP", rate: 0.8, effective_date: "2024-01-01" },
+      { base_currency: "EUR", quote_currency: "GBP", rate: 0.9, effective_date: "2024-03-01" },
+    ];
+    const report = buildCostReport(input({
+      materials: [
+        { id: 10, cost_code_id: 2, currency: "EUR" },
+        { id: 11, cost_code_id: 2, currency: "USD" },
+      ],
+      purchaseOrders: [
+        { id: 1, material_id: 10, cost_code_id: 2, quantity_ordered: 10, quantity_received: 5, unit_cost: 100, status: "partially_received", order_date: "2024-02-01" },
+        { id: 2, material_id: 11, cost_code_id: 2, quantity_ordered: 10, quantity_received: 0, unit_cost: 100, status: "ordered", order_date: "2024-02-01" },
+      ],
+      transactions: [
+        { material_id: 10, type: "received", quantity: 5, unit_cost: 100, purchase_order_id: 1, created_at: "2024-03-15T09:00:00Z" },
+      ],
+      converter: createConverter(rates, "GBP", "2024-06-01"),
+    }));
+
+    expect(report.lines[1]).toMatchObject({ committed: 800, open_commitments: 400, actual_materials: 450 });
+    expect(report.missing_rates).toEqual(["USD"]);
+  });
+});
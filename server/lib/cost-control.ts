@@ -0,0 +1,245 @@
+/**
+ * Activity-based cost control: each cost code's budget against what has been
+ * committed (purchase orders and subcontracts) and what has actually been
+ * incurred (goods received, subcontract invoices and approved labour).
+ */
+
+import { Converter } from './currency';
+import { MaterialTransactionType, PurchaseOrderStatus } from './inventory';
+import { TimeEntryStatus } from './timesheets';
+
+export type SubcontractStatus = 'awarded' | 'complete' | 'cancelled';
+
+export const SUBCONTRACT_STATUSES: SubcontractStatus[] = ['awarded', 'complete', 'cancelled'];
+
+export interface CostCodeBudget {
+  id: number;
+  code: string;
+  name: string;
+  budget: number;
+}
+
+export interface CostedMaterial {
+  id: number;
+  cost_code_id: number | null;
+  // Orders and receipts are priced in it; the project's when absent
+  currency?: string;
+}
+
+export interface CostedOrder {
+  id: number;
+  material_id?: number;
+  cost_code_id: number | null;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  status: PurchaseOrderStatus;
+  order_date?: string;
+}
+
+export interface CostedTransaction {
+  material_id: number;
+  type: MaterialTransactionType;
+  quantity: number;
+  unit_cost: number | null;
+  purchase_order_id: number | null;
+  created_at?: string;
+}
+
+export interface CostedSubcontract {
+  cost_code_id: number;
+  contract_value: number;
+  invoiced_to_date: number;
+  status: SubcontractStatus;
+}
+
+export interface CostedTimeEntry {
+  cost_code_id: number;
+  cost: number;
+  status: TimeEntryStatus;
+}
+
+export interface CostReportInput {
+  costCodes: CostCodeBudget[];
+  materials: CostedMaterial[];
+  purchaseOrders: CostedOrder[];
+  transactions: CostedTransaction[];
+  subcontracts: CostedSubcontract[];
+  timeEntries: CostedTimeEntry[];
+  // Into the project's currency, for materials priced in another one
+  converter?: Converter;
+}
+
+export interface CostFigures {
+  budget: number;
+  committed: number;
+  actual_materials: number;
+  actual_subcontracts: number;
+  actual_labour: number;
+  actual: number;
+  // Ordered or contracted but not yet delivered or invoiced
+  open_commitments: number;
+  cost_to_complete: number;
+  forecast_final_cost: number;
+  // Budget less forecast final cost; negative is an overrun
+  variance: number;
+  percent_spent: number | null;
+}
+
+export interface CostReportLine extends CostFigures {
+  cost_code_id: number | null;
+  code: string | null;
+  name: string;
+}
+
+export interface CostReport {
+  lines: CostReportLine[];
+  // Materials and orders not yet charged to a code, so totals still reconcile
+  uncoded: CostReportLine | null;
+  totals: CostFigures;
+  // Material currencies with no rate to the project's, left out of the figures
+  missing_rates: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+interface Tally {
+  budget: number;
+  committed: number;
+  materials: number;
+  subcontracts: number;
+  labour: number;
+  open: number;
+}
+
+const emptyTally = (budget = 0): Tally => ({ budget, committed: 0, materials: 0, subcontracts: 0, labour: 0, open: 0 });
+
+/**
+ * Whatever isn't yet spent of the budget is still expected to be needed, and
+ * open commitments will be spent whatever the budget says.
+ */
+function figures(tally: Tally): CostFigures {
+  const actual = tally.materials + tally.subcontracts + tally.labour;
+  const costToComplete = Math.max(0, tally.budget - actual, tally.open);
+  const forecast = actual + costToComplete;
+  return {
+    budget: round2(tally.budget),
+    committed: round2(tally.committed),
+    actual_materials: round2(tally.materials),
+    actual_subcontracts: round2(tally.subcontracts),
+    actual_labour: round2(tally.labour),
+    actual: round2(actual),
+    open_commitments: round2(tally.open),
+    cost_to_complete: round2(costToComplete),
+    forecast_final_cost: round2(forecast),
+    variance: round2(tally.budget - forecast),
+    percent_spent: tally.budget > 0 ? round2((actual / tally.budget) * 100) : null,
+  };
+}
+
+// Value a ledger entry adds to material actuals; entries without a unit cost carry none
+const receiptValue = (transaction: CostedTransaction) => {
+  const value = Number(transaction.quantity) * Number(transaction.unit_cost ?? 0);
+  switch (transaction.type) {
+    case 'received':
+      return value;
+    case 'returned':
+      return -value;
+    default:
+      return 0;
+  }
+};
+
+export function buildCostReport(input: CostReportInput): CostReport {
+  const tallies = new Map<number, Tally>(input.costCodes.map(code => [code.id, emptyTally(Number(code.budget))]));
+  const uncoded = emptyTally();
+  // Codes from another project, or since deleted, count as uncoded
+  const tallyFor = (costCodeId: number | null) => (costCodeId !== null && tallies.get(costCodeId)) || uncoded;
+
+  const materialCodes = new Map(input.materials.map(m => [m.id, m.cost_code_id]));
+  const materialCurrencies = new Map(input.materials.map(m => [m.id, m.currency]));
+  const orders = new Map(input.purchaseOrders.map(o => [o.id, o]));
+
+  // A material amount in the project's currency, at the rate on the day it was
+  // ordered or received; null when there is no rate for the material's currency
+  const inProjectCurrency = (amount: number, materialId: number | undefined, date: string | undefined) => {
+    const currency = materialId !== undefined ? materialCurrencies.get(materialId) : undefined;
+    if (!input.converter || !currency) return amount;
+    return input.converter.convert(amount, currency, date);
+  };
+
+  for (const order of input.purchaseOrders) {
+    const tally = tallyFor(order.cost_code_id);
+    const unitCost = Number(order.unit_cost);
+    // A cancelled order only ever commits what was delivered before it was cancelled
+    const quantity = order.status === 'cancelled' ? Number(order.quantity_received) : Number(order.quantity_ordered);
+    const committed = inProjectCurrency(quantity * unitCost, order.material_id, order.order_date);
+    if (committed === null) continue;
+    tally.committed += committed;
+    if (order.status === 'ordered' || order.status === 'partially_received') {
+      const open = Math.max(0, Number(order.quantity_ordered) - Number(order.quantity_received)) * unitCost;
+      tally.open += inProjectCurrency(open, order.material_id, order.order_date) ?? 0;
+    }
+  }
+
+  // Goods received against an order are charged where the order was
+  for (const transaction of input.transactions) {
+    const order = transaction.purchase_order_id !== null ? orders.get(transaction.purchase_order_id) : undefined;
+    const costCodeId = order ? order.cost_code_id : materialCodes.get(transaction.material_id) ?? null;
+    tallyFor(costCodeId).materials += inProjectCurrency(receiptValue(transaction), transaction.material_id, transaction.created_at) ?? 0;
+  }
+
+  for (const subcontract of input.subcontracts) {
+    const tally = tallyFor(subcontract.cost_code_id);
+    const value = Number(subcontract.contract_value);
+    const invoiced = Number(subcontract.invoiced_to_date);
+    tally.subcontracts += invoiced;
+    if (subcontract.status === 'cancelled') {
+      tally.committed += invoiced;
+    } else {
+      tally.committed += Math.max(value, invoiced);
+      tally.open += Math.max(0, value - invoiced);
+    }
+  }
+
+  for (const entry of input.timeEntries) {
+    if (entry.status === 'approved') {
+      tallyFor(entry.cost_code_id).labour += Number(entry.cost);
+    }
+  }
+
+  const lines: CostReportLine[] = [...input.costCodes]
+    .sort((a, b) => a.code.localeCompare(b.code))
+    .map(code => ({ cost_code_id: code.id, code: code.code, name: code.name, ...figures(tallies.get(code.id)!) }));
+
+  const hasUncoded = uncoded.committed !== 0 || uncoded.materials !== 0 || uncoded.subcontracts !== 0 ||
+    uncoded.labour !== 0 || uncoded.open !== 0;
+  const uncodedLine = hasUncoded ? { cost_code_id: null, code: null, name: 'Uncoded', ...figures(uncoded) } : null;
+
+  return {
+    lines,
+    uncoded: uncodedLine,
+    totals: sumFigures(uncodedLine ? [...lines, uncodedLine] : lines),
+    missing_rates: input.converter?.missing() ?? [],
+  };
+}
+
+// Summed per code, so one code's underspend doesn't hide another's overrun
+function sumFigures(lines: CostFigures[]): CostFigures {
+  const sum = (field: keyof CostFigures) => round2(lines.reduce((total, line) => total + (line[field] ?? 0), 0));
+  const budget = sum('budget');
+  const actual = sum('actual');
+  return {
+    budget,
+    committed: sum('committed'),
+    actual_materials: sum('actual_materials'),
+    actual_subcontracts: sum('actual_subcontracts'),
+    actual_labour: sum('actual_labour'),
+    actual,
+    open_commitments: sum('open_commitments'),
+    cost_to_complete: sum('cost_to_complete'),
+    forecast_final_cost: sum('forecast_final_cost'),
+    variance: sum('variance'),
+    percent_spent: budget > 0 ? round2((actual / budget) * 100) : null,
+  };
+}
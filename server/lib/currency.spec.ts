@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { createConverter, rateOn } from "./currency";
+
+const rates = [
+  { base_currency: "GBP", quote_currency: "EUR", rate: 1.15, effective_date: "2026-01-01" },
+  { base_currency: "GBP", quote_currency: "EUR", rate: 1.2, effective_date: "2026-03-01T00:00:00.000Z" },
+  { base_currency: "USD", quote_currency: "GBP", rate: 0.8, effective_date: "2026-01-01" },
+];
+
+describe("rateOn", () => {
+  it("should use the latest rate in effect on the date", () => {
+    expect(rateOn(rates, "GBP", "EUR", "2026-02-15")).toBe(1.15);
+    expect(rateOn(rates, "GBP", "EUR", "2026-03-01")).toBe(1.2);
+    expect(rateOn(rates, "GBP", "EUR", "2025-12-31")).toBeNull();
+  });
+
+  it("should read a pair in either direction", () => {
+    expect(rateOn(rates, "EUR", "GBP", "2026-03-10")).toBeCloseTo(1 / 1.2);
+    expect(rateOn(rates, "GBP", "GBP", "2020-01-01")).toBe(1);
+  });
+
+  it("should cross a pair without its own rate through another currency", () => {
+    expect(rateOn(rates, "USD", "EUR", "2026-03-10")).toBeCloseTo(0.96);
+    expect(rateOn(rates, "USD", "JPY", "2026-03-10")).toBeNull();
+  });
+});
+
+describe("createConverter", () => {
+  it("should convert to two places and list currencies it couldn't convert", () => {
+    const converter = createConverter(rates, "GBP", "2026-03-10");
+
+    expect(converter.convert(1000, "EUR")).toBe(833.33);
+    expect(converter.convert(1000, "EUR", "2026-02-01")).toBe(869.57);
+    expect(converter.convert(50, "GBP")).toBe(50);
+    expect(converter.convert(10, "JPY")).toBeNull();
+    expect(converter.convert(10, "AUD")).toBeNull();
+    expect(converter.missing()).toEqual(["AUD", "JPY"]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Currencies and conversion. Projects and material cost lines carry an ISO
+ * 4217 code; exchange rates are kept locally with the date each takes effect,
+ * and an amount is converted at the latest rate in effect on the day asked.
+ */
+
+export const DEFAULT_CURRENCY = 'GBP';
+
+export const CURRENCIES = ['GBP', 'EUR', 'USD', 'AUD', 'CAD', 'CHF', 'JPY', 'NZD', 'SEK', 'NOK', 'DKK', 'PLN', 'AED', 'SGD'] as const;
+
+export type Currency = typeof CURRENCIES[number];
+
+export const isCurrency = (value: string): value is Currency => (CURRENCIES as readonly string[]).includes(value);
+
+// One base_currency is worth `rate` of quote_currency from effective_date on
+export interface ExchangeRate {
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+const dayOf = (value: string) => value.split('T')[0];
+
+// The latest rate for the pair in effect on the date, read in either direction
+function directRate(rates: ExchangeRate[], from: string, to: string, date: string): { rate: number; effective_date: string } | null {
+  let best: { rate: number; effective_date: string } | null = null;
+  for (const r of rates) {
+    const effective = dayOf(r.effective_date);
+    if (effective > date || (best && effective <= best.effective_date)) continue;
+    if (r.base_currency === from && r.quote_currency === to) {
+      best = { rate: Number(r.rate), effective_date: effective };
+    } else if (r.base_currency === to && r.quote_currency === from) {
+      best = { rate: 1 / Number(r.rate), effective_date: effective };
+    }
+  }
+  return best;
+}
+
+/**
+ * Units of `to` per unit of `from` on the date, or null without a rate.
+ * A pair with no rate of its own is crossed through one other currency.
+ */
+export function rateOn(rates: ExchangeRate[], from: string, to: string, date: string): number | null {
+  if (from === to) return 1;
+
+  const day = dayOf(date);
+  const direct = directRate(rates, from, to, day);
+  if (direct) return direct.rate;
+
+  const via = new Set(rates.flatMap(r => [r.base_currency, r.quote_currency]));
+  for (const currency of via) {
+    if (currency === from || currency === to) continue;
+    const first = directRate(rates, from, currency, day);
+    const second = first && directRate(rates, currency, to, day);
+    if (first && second) return first.rate * second.rate;
+  }
+  return null;
+}
+
+export interface Converter {
+  currency: string;
+  // Null when there is no rate from the currency on that date
+  convert(amount: number, from: string, date?: string): number | null;
+  // Currencies that couldn't be converted, for the caller to report
+  missing(): string[];
+}
+
+/** Converts into one currency, at rates on `date` unless a call gives its own. */
+export function createConverter(rates: ExchangeRate[], currency: string, date: string): Converter {
+  const missing = new Set<string>();
+  return {
+    currency,
+    convert(amount, from, on = date) {
+      const rate = rateOn(rates, from, currency, on);
+      if (rate === null) {
+        missing.add(from);
+        return null;
+      }
+      return Math.round(Number(amount) * rate * 100) / 100;
+    },
+    missing: () => [...missing].sort(),
+  };
+}
@@ -2,6 +2,18 @@
 // This allows the app to work without Supabase configuration
 
 import { User } from '@shared/api';
+import { deriveMaterialStatus, MaterialTransactionType, PurchaseOrderStatus } from './inventory';
+import { SiteConditions } from './weather';
+import { RfiStatus } from './rfi';
+import { DefectSeverity, DefectStatus } from './defects';
+import { RiskResponseStrategy, RiskStatus } from './risks';
+import { BreakPeriod, TimeEntryStatus } from './timesheets';
+import { EquipmentStatus, MeterReadingSource } from './equipment';
+import { TemplateContent } from './templates';
+import { SubcontractStatus } from './cost-control';
+import { ClaimLine, ClaimStatus, VariationStatus } from './claims';
+import { ApprovalStep, ChangeOrderStatus } from './change-orders';
+import { DEFAULT_CURRENCY } from './currency';
 
 interface Project {
   id: number;
@@ -22,7 +34,11 @@ interface Project {
   end_date?: string;
   team_size?: number;
   contractor?: string;
+  currency: string;
   user_id: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  version: number;
   created_at: string;
   updated_at: string;
   materials?: Material[];
@@ -35,12 +51,531 @@ interface Material {
   total_required: number;
   status: 'adequate' | 'low' | 'critical';
   cost: number;
-  supplier: string;
+  supplier_id: number | null;
+  cost_code_id: number | null;
+  currency: string;
   project_id: number;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  version: number;
   created_at: string;
   updated_at: string;
 }
 
+interface ProjectMember {
+  id: number;
+  project_id: number;
+  user_id: string;
+  role: 'owner' | 'manager' | 'editor' | 'viewer';
+  invited_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ProjectSchedule {
+  project_id: number;
+  start_date: string | null;
+  end_date: string | null;
+  working_hours: { start: string; end: string; days?: number[] } | null;
+  resource_limits: Record<string, number>;
+  shifts: { name: string; start: string; end: string }[];
+  created_at: string;
+  updated_at: string;
+}
+
+interface ProjectTask {
+  id: number;
+  project_id: number;
+  task_key: string;
+  name: string;
+  duration: number;
+  dependencies: string[];
+  resources: string[];
+  constraints: Record<string, any>;
+  kind: 'task' | 'inspection';
+  early_start: number | null;
+  early_finish: number | null;
+  late_start: number | null;
+  late_finish: number | null;
+  total_float: number | null;
+  free_float: number | null;
+  is_critical: boolean;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ProjectBaseline {
+  id: number;
+  project_id: number;
+  name: string;
+  budget_at_completion: number;
+  periods: { date: string; plannedValue: number }[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface EvmSnapshot {
+  id: number;
+  project_id: number;
+  snapshot_date: string;
+  actual_cost: number;
+  percent_complete: number;
+  notes: string | null;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+interface PurchaseOrder {
+  id: number;
+  project_id: number;
+  material_id: number;
+  supplier_id: number | null;
+  cost_code_id: number | null;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_delivery_date: string;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MaterialTransaction {
+  id: number;
+  material_id: number;
+  project_id: number;
+  type: MaterialTransactionType;
+  quantity: number;
+  unit_cost: number | null;
+  purchase_order_id: number | null;
+  reference: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface GoodsReceived {
+  id: number;
+  purchase_order_id: number;
+  transaction_id: number | null;
+  quantity: number;
+  received_date: string;
+  delivery_note: string | null;
+  received_by: string | null;
+  created_at: string;
+}
+
+interface SupplierContact {
+  name: string;
+  role?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  is_primary?: boolean;
+}
+
+interface Supplier {
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  website: string | null;
+  contacts: SupplierContact[];
+  lead_time_days: number;
+  notes: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SupplierPrice {
+  id: number;
+  supplier_id: number;
+  item_name: string;
+  unit: string | null;
+  unit_price: number;
+  currency: string;
+  min_quantity: number;
+  lead_time_days: number | null;
+  valid_from: string;
+  valid_to: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SiteDiaryEntry {
+  id: number;
+  project_id: number;
+  entry_date: string;
+  crews: { trade: string; company?: string | null; headcount: number; hours?: number | null }[];
+  work_performed: string | null;
+  delays: { description: string; cause?: string | null; hours_lost?: number | null }[];
+  visitors: { name: string; company?: string | null; purpose?: string | null; time_in?: string | null; time_out?: string | null }[];
+  notes: string | null;
+  weather: SiteConditions | null;
+  file_ids: string[];
+  status: 'draft' | 'signed_off';
+  signed_off_by: string | null;
+  signed_off_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Rfi {
+  id: number;
+  project_id: number;
+  number: number;
+  subject: string;
+  question: string;
+  status: RfiStatus;
+  assigned_to: string | null;
+  due_date: string | null;
+  cost_impact: boolean;
+  schedule_impact: boolean;
+  file_ids: string[];
+  raised_by: string | null;
+  opened_at: string | null;
+  answered_at: string | null;
+  closed_at: string | null;
+  overdue_notified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RfiResponse {
+  id: number;
+  rfi_id: number;
+  parent_id: number | null;
+  body: string;
+  is_answer: boolean;
+  file_ids: string[];
+  author_id: string | null;
+  created_at: string;
+}
+
+interface Defect {
+  id: number;
+  project_id: number;
+  number: number;
+  title: string;
+  description: string | null;
+  location: string;
+  pin: { file_id: string; x: number; y: number } | null;
+  trade: string;
+  severity: DefectSeverity;
+  status: DefectStatus;
+  photo_ids: string[];
+  assigned_to: string | null;
+  due_date: string | null;
+  raised_by: string | null;
+  fixed_at: string | null;
+  verified_by: string | null;
+  verified_at: string | null;
+  verification_notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AcceptanceCriterion {
+  id: number;
+  project_id: number;
+  phase: string;
+  title: string;
+  description: string | null;
+  sort_order: number;
+  evidence_file_ids: string[];
+  signed_off_by: string | null;
+  signed_off_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ProjectRisk {
+  id: number;
+  project_id: number;
+  title: string;
+  description: string | null;
+  category: string | null;
+  probability: number;
+  impact: number;
+  owner_id: string | null;
+  response_strategy: RiskResponseStrategy;
+  mitigation_actions: { description: string; owner_id: string | null; due_date: string | null; completed_at: string | null }[];
+  status: RiskStatus;
+  review_date: string | null;
+  closed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CostCode {
+  id: number;
+  project_id: number;
+  code: string;
+  name: string;
+  labour_rate: number;
+  budget: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Subcontract {
+  id: number;
+  project_id: number;
+  cost_code_id: number;
+  contractor: string;
+  description: string | null;
+  contract_value: number;
+  invoiced_to_date: number;
+  status: SubcontractStatus;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ScheduleOfValuesItem {
+  id: number;
+  project_id: number;
+  item_number: string;
+  description: string;
+  scheduled_value: number;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Variation {
+  id: number;
+  project_id: number;
+  reference: string;
+  description: string;
+  amount: number;
+  status: VariationStatus;
+  approved_by: string | null;
+  approved_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ProgressClaim {
+  id: number;
+  project_id: number;
+  number: number;
+  period_end: string;
+  status: ClaimStatus;
+  retention_rate: number;
+  retention_released: number;
+  lines: ClaimLine[];
+  gross_to_date: number | null;
+  retention_held: number | null;
+  previous_certified: number | null;
+  amount_due: number | null;
+  notes: string | null;
+  submitted_at: string | null;
+  certified_at: string | null;
+  certified_by: string | null;
+  paid_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ChangeOrder {
+  id: number;
+  project_id: number;
+  number: number;
+  title: string;
+  description: string | null;
+  cost_impact: number;
+  time_impact_days: number;
+  status: ChangeOrderStatus;
+  approval_chain: ApprovalStep[];
+  submitted_by: string | null;
+  submitted_at: string | null;
+  approved_at: string | null;
+  budget_before: number | null;
+  budget_after: number | null;
+  end_date_before: string | null;
+  end_date_after: string | null;
+  baseline_id: number | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ExchangeRate {
+  id: number;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ProjectClosure {
+  id: number;
+  project_id: number;
+  name: string;
+  kind: 'holiday' | 'shutdown';
+  start_date: string;
+  end_date: string;
+  uid: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface CalendarFeed {
+  user_id: string;
+  token_hash: string;
+  created_at: string;
+}
+
+interface TimeEntry {
+  id: number;
+  project_id: number;
+  user_id: string;
+  cost_code_id: number;
+  clock_in: string;
+  clock_out: string | null;
+  breaks: BreakPeriod[];
+  clock_in_latitude: number | null;
+  clock_in_longitude: number | null;
+  clock_out_latitude: number | null;
+  clock_out_longitude: number | null;
+  regular_hours: number;
+  overtime_hours: number;
+  hourly_rate: number;
+  cost: number;
+  status: TimeEntryStatus;
+  notes: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejection_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface IotDevice {
+  device_id: string;
+  name: string | null;
+  device_type: 'sensor' | 'camera' | 'equipment' | 'wearable' | 'environmental';
+  location: { lat: number; lon: number; zone?: string } | null;
+  capabilities: string[];
+  status: 'active' | 'inactive' | 'maintenance' | 'error';
+  ingest_key_hash: string;
+  last_seen_at: string | null;
+  registered_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface Equipment {
+  id: number;
+  asset_tag: string;
+  name: string;
+  category: string | null;
+  make: string | null;
+  model: string | null;
+  serial_number: string | null;
+  status: EquipmentStatus;
+  project_id: number | null;
+  assigned_at: string | null;
+  iot_device_id: string | null;
+  hour_meter: number;
+  service_interval_hours: number | null;
+  service_interval_days: number | null;
+  last_service_hours: number;
+  last_service_date: string | null;
+  maintenance_notified_at: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface EquipmentMeterReading {
+  id: number;
+  equipment_id: number;
+  hours: number;
+  source: MeterReadingSource;
+  recorded_by: string | null;
+  recorded_at: string;
+}
+
+interface EquipmentService {
+  id: number;
+  equipment_id: number;
+  performed_at: string;
+  hours: number;
+  description: string;
+  performed_by: string | null;
+  created_at: string;
+}
+
+interface EquipmentCertificate {
+  id: number;
+  equipment_id: number;
+  certificate_type: string;
+  certificate_number: string | null;
+  issued_date: string | null;
+  expiry_date: string | null;
+  file_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface ProjectFolder {
+  id: number;
+  project_id: number;
+  path: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface ProjectTemplate {
+  id: number;
+  name: string;
+  description: string | null;
+  source_project_id: number | null;
+  source_budget: number;
+  source_start_date: string | null;
+  content: TemplateContent;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AuditLogEntry {
+  id: number;
+  actor_id: string | null;
+  entity_type: 'project' | 'material' | 'user';
+  entity_id: string;
+  project_id: number | null;
+  action: 'create' | 'update' | 'delete';
+  field: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  request_id: string | null;
+  method: string | null;
+  path: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
 // In-memory storage
 const users: User[] = [
   {
@@ -49,16 +584,91 @@ const users: User[] = [
     name: "Admin User",
     role: "admin",
     avatar: "AU",
+    isActive: true,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   }
 ];
 
+// Password hashes are kept apart from the user records so they never leak into API responses
+const passwordHashes = new Map<string, string>([
+  ["1", "$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi"],
+]);
+
+// Preferences are kept apart for the same reason, and only once a user saves some
+const userPreferences = new Map<string, Record<string, unknown>>();
+
 const projects: Project[] = [];
 const materials: Material[] = [];
+const projectMembers: ProjectMember[] = [];
+const projectSchedules: ProjectSchedule[] = [];
+const projectTasks: ProjectTask[] = [];
+const projectBaselines: ProjectBaseline[] = [];
+const evmSnapshots: EvmSnapshot[] = [];
+const purchaseOrders: PurchaseOrder[] = [];
+const materialTransactions: MaterialTransaction[] = [];
+const goodsReceived: GoodsReceived[] = [];
+const suppliers: Supplier[] = [];
+const supplierPrices: SupplierPrice[] = [];
+const siteDiaryEntries: SiteDiaryEntry[] = [];
+const rfis: Rfi[] = [];
+const rfiResponses: RfiResponse[] = [];
+const defects: Defect[] = [];
+const acceptanceCriteria: AcceptanceCriterion[] = [];
+const projectRisks: ProjectRisk[] = [];
+const costCodes: CostCode[] = [];
+const timeEntries: TimeEntry[] = [];
+const subcontracts: Subcontract[] = [];
+const scheduleOfValues: ScheduleOfValuesItem[] = [];
+const variations: Variation[] = [];
+const progressClaims: ProgressClaim[] = [];
+const changeOrders: ChangeOrder[] = [];
+const exchangeRates: ExchangeRate[] = [];
+const projectClosures: ProjectClosure[] = [];
+const calendarFeeds: CalendarFeed[] = [];
+const iotDevices: IotDevice[] = [];
+const equipment: Equipment[] = [];
+const equipmentMeterReadings: EquipmentMeterReading[] = [];
+const equipmentServices: EquipmentService[] = [];
+const equipmentCertificates: EquipmentCertificate[] = [];
+const projectFolders: ProjectFolder[] = [];
+const projectTemplates: ProjectTemplate[] = [];
+const auditLog: AuditLogEntry[] = [];
 
+let nextUserId = 2;
 let nextProjectId = 1;
 let nextMaterialId = 1;
+let nextProjectMemberId = 1;
+let nextProjectTaskId = 1;
+let nextBaselineId = 1;
+let nextEvmSnapshotId = 1;
+let nextPurchaseOrderId = 1;
+let nextMaterialTransactionId = 1;
+let nextGoodsReceivedId = 1;
+let nextSupplierId = 1;
+let nextSupplierPriceId = 1;
+let nextSiteDiaryEntryId = 1;
+let nextRfiId = 1;
+let nextRfiResponseId = 1;
+let nextDefectId = 1;
+let nextAcceptanceCriterionId = 1;
+let nextProjectRiskId = 1;
+let nextCostCodeId = 1;
+let nextTimeEntryId = 1;
+let nextSubcontractId = 1;
+let nextScheduleOfValuesId = 1;
+let nextVariationId = 1;
+let nextProgressClaimId = 1;
+let nextChangeOrderId = 1;
+let nextExchangeRateId = 1;
+let nextProjectClosureId = 1;
+let nextEquipmentId = 1;
+let nextEquipmentMeterReadingId = 1;
+let nextEquipmentServiceId = 1;
+let nextEquipmentCertificateId = 1;
+let nextProjectFolderId = 1;
+let nextProjectTemplateId = 1;
+let nextAuditLogId = 1;
 
 export class FallbackDatabase {
   // Users
@@ -70,20 +680,26 @@ export class FallbackDatabase {
     return users.find(u => u.id === id) || null;
   }
 
-  static createUser(userData: { email: string; name: string; password_hash: string }): User {
+  static createUser(userData: { email: string; name: string; password_hash: string; role?: User['role'] }): User {
     const newUser: User = {
-      id: String(users.length + 1),
+      id: String(nextUserId++),
       email: userData.email,
       name: userData.name,
-      role: 'user',
+      role: userData.role || 'user',
       avatar: userData.name.split(' ').map(n => n[0]).join('').toUpperCase(),
+      isActive: true,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
     users.push(newUser);
+    passwordHashes.set(newUser.id, userData.password_hash);
     return newUser;
   }
 
+  static getPasswordHash(id: string): string | null {
+    return passwordHashes.get(id) || null;
+  }
+
   static updateUser(id: string, updateData: { name?: string; avatar?: string; preferences?: any }): User | null {
     const userIndex = users.findIndex(u => u.id === id);
     if (userIndex === -1) return null;
@@ -100,19 +716,83 @@ export class FallbackDatabase {
     return user;
   }
 
+  static listUsers(filters: { search?: string; role?: User['role']; offset: number; limit: number }): { users: User[]; total: number } {
+    const search = filters.search?.toLowerCase();
+    const matching = users
+      .filter(u => !filters.role || u.role === filters.role)
+      .filter(u => !search || u.name.toLowerCase().includes(search) || u.email.toLowerCase().includes(search))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+    return {
+      users: matching.slice(filters.offset, filters.offset + filters.limit),
+      total: matching.length,
+    };
+  }
+
+  static adminUpdateUser(id: string, updateData: { email?: string; name?: string; role?: User['role']; password_hash?: string; isActive?: boolean }): User | null {
+    const user = users.find(u => u.id === id);
+    if (!user) return null;
+
+    if (updateData.email !== undefined) user.email = updateData.email;
+    if (updateData.name !== undefined) user.name = updateData.name;
+    if (updateData.role !== undefined) user.role = updateData.role;
+    if (updateData.isActive !== undefined) user.isActive = updateData.isActive;
+    if (updateData.password_hash) passwordHashes.set(id, updateData.password_hash);
+    user.updatedAt = new Date().toISOString();
+
+    return user;
+  }
+
+  static deleteUser(id: string): boolean {
+    const userIndex = users.findIndex(u => u.id === id);
+    if (userIndex === -1) return false;
+
+    // Mirror ON DELETE CASCADE: remove the user's projects and their materials
+    const ownedProjectIds = projects.filter(p => p.user_id === id).map(p => p.id);
+    for (let i = materials.length - 1; i >= 0; i--) {
+      if (ownedProjectIds.includes(materials[i].project_id)) materials.splice(i, 1);
+    }
+    for (let i = projects.length - 1; i >= 0; i--) {
+      if (projects[i].user_id === id) projects.splice(i, 1);
+    }
+    for (let i = projectMembers.length - 1; i >= 0; i--) {
+      if (projectMembers[i].user_id === id || ownedProjectIds.includes(projectMembers[i].project_id)) {
+        projectMembers.splice(i, 1);
+      }
+    }
+
+    users.splice(userIndex, 1);
+    passwordHashes.delete(id);
+    userPreferences.delete(id);
+    const feedIndex = calendarFeeds.findIndex(f => f.user_id === id);
+    if (feedIndex !== -1) calendarFeeds.splice(feedIndex, 1);
+    return true;
+  }
+
   // Projects
+  // Access control is enforced by ProjectsService through project memberships
   static getUserProjects(userId: string): Project[] {
-    return projects.filter(p => p.user_id === userId);
+    const projectIds = projectMembers.filter(m => m.user_id === userId).map(m => m.project_id);
+    return projects.filter(p => projectIds.includes(p.id) && !p.deleted_at);
   }
 
-  static getProjectById(id: number, userId: string): Project | null {
-    const project = projects.find(p => p.id === id && p.user_id === userId);
+  static getProjectById(id: number): Project | null {
+    const project = projects.find(p => p.id === id);
     if (project) {
-      project.materials = materials.filter(m => m.project_id === id);
+      project.materials = materials.filter(m => m.project_id === id && !m.deleted_at);
     }
     return project || null;
   }
 
+  // Everything in the trash; ProjectsService narrows this down to what a user may see
+  static getTrashedProjects(): Project[] {
+    return projects.filter(p => p.deleted_at);
+  }
+
+  static getTrashedMaterials(): Material[] {
+    return materials.filter(m => m.deleted_at);
+  }
+
   static createProject(projectData: any, userId: string): Project {
     const newProject: Project = {
       id: nextProjectId++,
@@ -123,7 +803,7 @@ export class FallbackDatabase {
       spent: 0,
       cpi: 1.0,
       spi: 1.0,
-      quality_score: 0,
+      quality_score: 100,
       safety_score: 0,
       acceptance_criteria_complete: 0,
       risk_level: 'low',
@@ -132,7 +812,11 @@ export class FallbackDatabase {
       start_date: projectData.start_date,
       end_date: projectData.end_date,
       contractor: projectData.contractor,
+      currency: projectData.currency || DEFAULT_CURRENCY,
       user_id: userId,
+      deleted_at: null,
+      deleted_by: null,
+      version: 1,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
       materials: [],
@@ -141,47 +825,111 @@ export class FallbackDatabase {
     return newProject;
   }
 
-  static updateProject(id: number, updates: any, userId: string): Project | null {
-    const projectIndex = projects.findIndex(p => p.id === id && p.user_id === userId);
+  static updateProject(id: number, updates: any): Project | null {
+    const projectIndex = projects.findIndex(p => p.id === id);
     if (projectIndex === -1) return null;
 
     projects[projectIndex] = {
       ...projects[projectIndex],
       ...updates,
+      version: projects[projectIndex].version + 1,
       updated_at: new Date().toISOString(),
     };
 
     return projects[projectIndex];
   }
 
-  static deleteProject(id: number, userId: string): boolean {
-    const projectIndex = projects.findIndex(p => p.id === id && p.user_id === userId);
+  static deleteProject(id: number): boolean {
+    const projectIndex = projects.findIndex(p => p.id === id);
     if (projectIndex === -1) return false;
 
-    // Also delete associated materials
-    const materialIndices = materials
-      .map((m, i) => m.project_id === id ? i : -1)
-      .filter(i => i !== -1)
-      .reverse();
-
-    materialIndices.forEach(i => materials.splice(i, 1));
+    // Also delete associated materials, memberships, schedule, EVM data, diary and RFIs
+    for (let i = materials.length - 1; i >= 0; i--) {
+      if (materials[i].project_id === id) {
+        this.deleteMaterialRecords(materials[i].id);
+        materials.splice(i, 1);
+      }
+    }
+    for (let i = projectMembers.length - 1; i >= 0; i--) {
+      if (projectMembers[i].project_id === id) projectMembers.splice(i, 1);
+    }
+    for (let i = projectTasks.length - 1; i >= 0; i--) {
+      if (projectTasks[i].project_id === id) projectTasks.splice(i, 1);
+    }
+    const scheduleIndex = projectSchedules.findIndex(s => s.project_id === id);
+    if (scheduleIndex !== -1) projectSchedules.splice(scheduleIndex, 1);
+    for (let i = projectBaselines.length - 1; i >= 0; i--) {
+      if (projectBaselines[i].project_id === id) projectBaselines.splice(i, 1);
+    }
+    for (let i = evmSnapshots.length - 1; i >= 0; i--) {
+      if (evmSnapshots[i].project_id === id) evmSnapshots.splice(i, 1);
+    }
+    for (let i = siteDiaryEntries.length - 1; i >= 0; i--) {
+      if (siteDiaryEntries[i].project_id === id) siteDiaryEntries.splice(i, 1);
+    }
+    for (let i = rfis.length - 1; i >= 0; i--) {
+      if (rfis[i].project_id === id) this.deleteRfi(id, rfis[i].id);
+    }
+    for (let i = defects.length - 1; i >= 0; i--) {
+      if (defects[i].project_id === id) defects.splice(i, 1);
+    }
+    for (let i = acceptanceCriteria.length - 1; i >= 0; i--) {
+      if (acceptanceCriteria[i].project_id === id) acceptanceCriteria.splice(i, 1);
+    }
+    for (let i = projectRisks.length - 1; i >= 0; i--) {
+      if (projectRisks[i].project_id === id) projectRisks.splice(i, 1);
+    }
+    for (let i = timeEntries.length - 1; i >= 0; i--) {
+      if (timeEntries[i].project_id === id) timeEntries.splice(i, 1);
+    }
+    for (let i = subcontracts.length - 1; i >= 0; i--) {
+      if (subcontracts[i].project_id === id) subcontracts.splice(i, 1);
+    }
+    for (let i = progressClaims.length - 1; i >= 0; i--) {
+      if (progressClaims[i].project_id === id) progressClaims.splice(i, 1);
+    }
+    for (let i = changeOrders.length - 1; i >= 0; i--) {
+      if (changeOrders[i].project_id === id) changeOrders.splice(i, 1);
+    }
+    for (let i = projectClosures.length - 1; i >= 0; i--) {
+      if (projectClosures[i].project_id === id) projectClosures.splice(i, 1);
+    }
+    for (let i = variations.length - 1; i >= 0; i--) {
+      if (variations[i].project_id === id) variations.splice(i, 1);
+    }
+    for (let i = scheduleOfValues.length - 1; i >= 0; i--) {
+      if (scheduleOfValues[i].project_id === id) scheduleOfValues.splice(i, 1);
+    }
+    for (let i = costCodes.length - 1; i >= 0; i--) {
+      if (costCodes[i].project_id === id) costCodes.splice(i, 1);
+    }
+    for (let i = projectFolders.length - 1; i >= 0; i--) {
+      if (projectFolders[i].project_id === id) projectFolders.splice(i, 1);
+    }
+    projectTemplates.filter(t => t.source_project_id === id).forEach(t => {
+      t.source_project_id = null;
+    });
+    // Equipment outlives the project it was assigned to
+    equipment.filter(e => e.project_id === id).forEach(e => {
+      e.project_id = null;
+      e.assigned_at = null;
+    });
     projects.splice(projectIndex, 1);
 
     return true;
   }
 
   // Materials
-  static getProjectMaterials(projectId: number, userId: string): Material[] {
-    // Verify user owns the project
-    const project = projects.find(p => p.id === projectId && p.user_id === userId);
-    if (!project) return [];
+  static getProjectMaterials(projectId: number): Material[] {
+    return materials.filter(m => m.project_id === projectId && !m.deleted_at);
+  }
 
-    return materials.filter(m => m.project_id === projectId);
+  static getMaterialById(id: number): Material | null {
+    return materials.find(m => m.id === id) || null;
   }
 
-  static createMaterial(materialData: any, projectId: number, userId: string): Material | null {
-    // Verify user owns the project
-    const project = projects.find(p => p.id === projectId && p.user_id === userId);
+  static createMaterial(materialData: any, projectId: number): Material | null {
+    const project = projects.find(p => p.id === projectId);
     if (!project) return null;
 
     const newMaterial: Material = {
@@ -189,11 +937,15 @@ export class FallbackDatabase {
       name: materialData.name,
       current_stock: materialData.current_stock,
       total_required: materialData.total_required,
-      status: materialData.current_stock / materialData.total_required < 0.1 ? 'critical' : 
-              materialData.current_stock / materialData.total_required < 0.3 ? 'low' : 'adequate',
+      status: deriveMaterialStatus(materialData.current_stock, materialData.total_required),
       cost: materialData.cost,
-      supplier: materialData.supplier,
+      supplier_id: materialData.supplier_id ?? null,
+      cost_code_id: materialData.cost_code_id ?? null,
+      currency: materialData.currency ?? project.currency,
       project_id: projectId,
+      deleted_at: null,
+      deleted_by: null,
+      version: 1,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     };
@@ -201,17 +953,14 @@ export class FallbackDatabase {
     return newMaterial;
   }
 
-  static updateMaterial(id: number, updates: any, userId: string): Material | null {
+  static updateMaterial(id: number, updates: any): Material | null {
     const materialIndex = materials.findIndex(m => m.id === id);
     if (materialIndex === -1) return null;
 
-    const material = materials[materialIndex];
-    const project = projects.find(p => p.id === material.project_id && p.user_id === userId);
-    if (!project) return null;
-
     materials[materialIndex] = {
       ...materials[materialIndex],
       ...updates,
+      version: materials[materialIndex].version + 1,
       updated_at: new Date().toISOString(),
     };
 
@@ -220,28 +969,1562 @@ export class FallbackDatabase {
       const currentStock = updates.current_stock ?? materials[materialIndex].current_stock;
       const totalRequired = updates.total_required ?? materials[materialIndex].total_required;
       
-      materials[materialIndex].status = currentStock / totalRequired < 0.1 ? 'critical' : 
-                                        currentStock / totalRequired < 0.3 ? 'low' : 'adequate';
+      materials[materialIndex].status = deriveMaterialStatus(currentStock, totalRequired);
     }
 
     return materials[materialIndex];
   }
 
-  static deleteMaterial(id: number, userId: string): boolean {
+  static deleteMaterial(id: number): boolean {
     const materialIndex = materials.findIndex(m => m.id === id);
     if (materialIndex === -1) return false;
 
-    const material = materials[materialIndex];
-    const project = projects.find(p => p.id === material.project_id && p.user_id === userId);
-    if (!project) return false;
-
+    this.deleteMaterialRecords(id);
     materials.splice(materialIndex, 1);
     return true;
   }
 
+  // Ledger entries, purchase orders and their receipts go with the material
+  private static deleteMaterialRecords(materialId: number) {
+    for (let i = materialTransactions.length - 1; i >= 0; i--) {
+      if (materialTransactions[i].material_id === materialId) materialTransactions.splice(i, 1);
+    }
+    for (let i = purchaseOrders.length - 1; i >= 0; i--) {
+      if (purchaseOrders[i].material_id !== materialId) continue;
+      const orderId = purchaseOrders[i].id;
+      for (let j = goodsReceived.length - 1; j >= 0; j--) {
+        if (goodsReceived[j].purchase_order_id === orderId) goodsReceived.splice(j, 1);
+      }
+      purchaseOrders.splice(i, 1);
+    }
+  }
+
   static getUserMaterials(userId: string): Material[] {
-    const userProjects = projects.filter(p => p.user_id === userId);
-    const projectIds = userProjects.map(p => p.id);
-    return materials.filter(m => projectIds.includes(m.project_id));
+    const projectIds = this.getUserProjects(userId).map(p => p.id);
+    return materials.filter(m => projectIds.includes(m.project_id) && !m.deleted_at);
+  }
+
+  // Project members
+  static getProjectMembers(projectId: number): (ProjectMember & { user: Pick<User, 'id' | 'email' | 'name' | 'avatar'> | null })[] {
+    return projectMembers
+      .filter(m => m.project_id === projectId)
+      .map(m => {
+        const user = users.find(u => u.id === m.user_id);
+        return {
+          ...m,
+          user: user ? { id: user.id, email: user.email, name: user.name, avatar: user.avatar } : null,
+        };
+      });
+  }
+
+  static getUserMemberships(userId: string): ProjectMember[] {
+    return projectMembers.filter(m => m.user_id === userId);
+  }
+
+  static getProjectMember(projectId: number, userId: string): ProjectMember | null {
+    return projectMembers.find(m => m.project_id === projectId && m.user_id === userId) || null;
+  }
+
+  static addProjectMember(projectId: number, userId: string, role: ProjectMember['role'], invitedBy: string | null): ProjectMember | null {
+    if (!projects.some(p => p.id === projectId)) return null;
+    if (this.getProjectMember(projectId, userId)) return null;
+
+    const member: ProjectMember = {
+      id: nextProjectMemberId++,
+      project_id: projectId,
+      user_id: userId,
+      role,
+      invited_by: invitedBy,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    projectMembers.push(member);
+    return member;
+  }
+
+  static updateProjectMemberRole(projectId: number, userId: string, role: ProjectMember['role']): ProjectMember | null {
+    const member = this.getProjectMember(projectId, userId);
+    if (!member) return null;
+
+    member.role = role;
+    member.updated_at = new Date().toISOString();
+    return member;
+  }
+
+  static removeProjectMember(projectId: number, userId: string): boolean {
+    const memberIndex = projectMembers.findIndex(m => m.project_id === projectId && m.user_id === userId);
+    if (memberIndex === -1) return false;
+
+    projectMembers.splice(memberIndex, 1);
+    return true;
+  }
+
+  // Project schedules
+  static getProjectSchedule(projectId: number): ProjectSchedule | null {
+    return projectSchedules.find(s => s.project_id === projectId) || null;
+  }
+
+  static upsertProjectSchedule(projectId: number, settings: Partial<Pick<ProjectSchedule, 'start_date' | 'end_date' | 'working_hours' | 'resource_limits' | 'shifts'>>): ProjectSchedule | null {
+    if (!projects.some(p => p.id === projectId)) return null;
+
+    const existing = this.getProjectSchedule(projectId);
+    if (existing) {
+      Object.assign(existing, settings, { updated_at: new Date().toISOString() });
+      return existing;
+    }
+
+    const schedule: ProjectSchedule = {
+      project_id: projectId,
+      start_date: settings.start_date ?? null,
+      end_date: settings.end_date ?? null,
+      working_hours: settings.working_hours ?? null,
+      resource_limits: settings.resource_limits ?? {},
+      shifts: settings.shifts ?? [],
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    projectSchedules.push(schedule);
+    return schedule;
+  }
+
+  // Project tasks
+  static getProjectTasks(projectId: number): ProjectTask[] {
+    return projectTasks.filter(t => t.project_id === projectId);
+  }
+
+  static getProjectTask(projectId: number, taskKey: string): ProjectTask | null {
+    return projectTasks.find(t => t.project_id === projectId && t.task_key === taskKey) || null;
+  }
+
+  static createProjectTask(projectId: number, taskData: Pick<ProjectTask, 'task_key' | 'name'> & Partial<ProjectTask>): ProjectTask | null {
+    if (!projects.some(p => p.id === projectId)) return null;
+    if (this.getProjectTask(projectId, taskData.task_key)) return null;
+
+    const task: ProjectTask = {
+      duration: 0,
+      dependencies: [],
+      resources: [],
+      constraints: {},
+      kind: 'task',
+      early_start: null,
+      early_finish: null,
+      late_start: null,
+      late_finish: null,
+      total_float: null,
+      free_float: null,
+      is_critical: false,
+      scheduled_start: null,
+      scheduled_end: null,
+      ...taskData,
+      id: nextProjectTaskId++,
+      project_id: projectId,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    projectTasks.push(task);
+    return task;
+  }
+
+  static updateProjectTask(projectId: number, taskKey: string, updates: Partial<ProjectTask>): ProjectTask | null {
+    const task = this.getProjectTask(projectId, taskKey);
+    if (!task) return null;
+
+    Object.assign(task, updates, {
+      id: task.id,
+      project_id: task.project_id,
+      updated_at: new Date().toISOString(),
+    });
+    return task;
+  }
+
+  static deleteProjectTask(projectId: number, taskKey: string): boolean {
+    const taskIndex = projectTasks.findIndex(t => t.project_id === projectId && t.task_key === taskKey);
+    if (taskIndex === -1) return false;
+
+    projectTasks.splice(taskIndex, 1);
+    return true;
+  }
+
+  static replaceProjectTasks(projectId: number, tasks: (Pick<ProjectTask, 'task_key' | 'name'> & Partial<ProjectTask>)[]): ProjectTask[] {
+    for (let i = projectTasks.length - 1; i >= 0; i--) {
+      if (projectTasks[i].project_id === projectId) projectTasks.splice(i, 1);
+    }
+    return tasks
+      .map(task => this.createProjectTask(projectId, task))
+      .filter((task): task is ProjectTask => task !== null);
+  }
+
+  // Earned value baselines
+  static getProjectBaselines(projectId: number): ProjectBaseline[] {
+    return projectBaselines
+      .filter(b => b.project_id === projectId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  static getActiveBaseline(projectId: number): ProjectBaseline | null {
+    return projectBaselines.find(b => b.project_id === projectId && b.is_active) || null;
+  }
+
+  static createProjectBaseline(projectId: number, baselineData: Pick<ProjectBaseline, 'name' | 'budget_at_completion' | 'periods' | 'created_by'>): ProjectBaseline | null {
+    if (!projects.some(p => p.id === projectId)) return null;
+
+    // A new baseline supersedes the current one
+    projectBaselines
+      .filter(b => b.project_id === projectId)
+      .forEach(b => { b.is_active = false; });
+
+    const baseline: ProjectBaseline = {
+      ...baselineData,
+      id: nextBaselineId++,
+      project_id: projectId,
+      is_active: true,
+      created_at: new Date().toISOString(),
+    };
+    projectBaselines.push(baseline);
+    return baseline;
+  }
+
+  // Earned value snapshots
+  static getEvmSnapshots(projectId: number): EvmSnapshot[] {
+    return evmSnapshots
+      .filter(s => s.project_id === projectId)
+      .sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date));
+  }
+
+  static upsertEvmSnapshot(projectId: number, snapshotData: Pick<EvmSnapshot, 'snapshot_date' | 'actual_cost' | 'percent_complete' | 'notes' | 'recorded_by'>): EvmSnapshot | null {
+    if (!projects.some(p => p.id === projectId)) return null;
+
+    const existing = evmSnapshots.find(s => s.project_id === projectId && s.snapshot_date === snapshotData.snapshot_date);
+    if (existing) {
+      Object.assign(existing, snapshotData);
+      return existing;
+    }
+
+    const snapshot: EvmSnapshot = {
+      ...snapshotData,
+      id: nextEvmSnapshotId++,
+      project_id: projectId,
+      created_at: new Date().toISOString(),
+    };
+    evmSnapshots.push(snapshot);
+    return snapshot;
+  }
+
+  static deleteEvmSnapshot(projectId: number, id: number): boolean {
+    const snapshotIndex = evmSnapshots.findIndex(s => s.project_id === projectId && s.id === id);
+    if (snapshotIndex === -1) return false;
+
+    evmSnapshots.splice(snapshotIndex, 1);
+    return true;
+  }
+
+  // Material ledger
+  static getMaterialTransactions(materialId: number): MaterialTransaction[] {
+    return materialTransactions.filter(t => t.material_id === materialId);
+  }
+
+  static addMaterialTransaction(transactionData: Omit<MaterialTransaction, 'id' | 'created_at'>): MaterialTransaction | null {
+    if (!materials.some(m => m.id === transactionData.material_id)) return null;
+
+    const transaction: MaterialTransaction = {
+      ...transactionData,
+      id: nextMaterialTransactionId++,
+      created_at: new Date().toISOString(),
+    };
+    materialTransactions.push(transaction);
+    return transaction;
+  }
+
+  // Purchase orders
+  static getPurchaseOrders(projectId: number): PurchaseOrder[] {
+    return purchaseOrders
+      .filter(o => o.project_id === projectId)
+      .sort((a, b) => a.expected_delivery_date.localeCompare(b.expected_delivery_date));
+  }
+
+  static getPurchaseOrderById(id: number): PurchaseOrder | null {
+    return purchaseOrders.find(o => o.id === id) || null;
+  }
+
+  static createPurchaseOrder(orderData: Omit<PurchaseOrder, 'id' | 'quantity_received' | 'status' | 'created_at' | 'updated_at'>): PurchaseOrder | null {
+    if (!materials.some(m => m.id === orderData.material_id && m.project_id === orderData.project_id)) return null;
+
+    const order: PurchaseOrder = {
+      ...orderData,
+      id: nextPurchaseOrderId++,
+      quantity_received: 0,
+      status: 'ordered',
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    purchaseOrders.push(order);
+    return order;
+  }
+
+  static updatePurchaseOrder(id: number, updates: Partial<PurchaseOrder>): PurchaseOrder | null {
+    const order = this.getPurchaseOrderById(id);
+    if (!order) return null;
+
+    Object.assign(order, updates, {
+      id: order.id,
+      project_id: order.project_id,
+      material_id: order.material_id,
+      updated_at: new Date().toISOString(),
+    });
+    return order;
+  }
+
+  // Goods received
+  static getGoodsReceived(purchaseOrderId: number): GoodsReceived[] {
+    return goodsReceived.filter(g => g.purchase_order_id === purchaseOrderId);
+  }
+
+  static addGoodsReceived(receiptData: Omit<GoodsReceived, 'id' | 'created_at'>): GoodsReceived | null {
+    if (!this.getPurchaseOrderById(receiptData.purchase_order_id)) return null;
+
+    const receipt: GoodsReceived = {
+      ...receiptData,
+      id: nextGoodsReceivedId++,
+      created_at: new Date().toISOString(),
+    };
+    goodsReceived.push(receipt);
+    return receipt;
+  }
+
+  // Suppliers
+  static getSuppliers(): Supplier[] {
+    return [...suppliers].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  static getSupplierById(id: number): Supplier | null {
+    return suppliers.find(s => s.id === id) || null;
+  }
+
+  static findSupplierByName(name: string): Supplier | null {
+    const key = name.trim().toLowerCase();
+    return suppliers.find(s => s.name.toLowerCase() === key) || null;
+  }
+
+  static createSupplier(supplierData: Pick<Supplier, 'name'> & Partial<Omit<Supplier, 'id' | 'created_at' | 'updated_at'>>): Supplier | null {
+    if (this.findSupplierByName(supplierData.name)) return null;
+
+    const supplier: Supplier = {
+      email: null,
+      phone: null,
+      address: null,
+      website: null,
+      contacts: [],
+      lead_time_days: 7,
+      notes: null,
+      is_active: true,
+      created_by: null,
+      ...supplierData,
+      id: nextSupplierId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    suppliers.push(supplier);
+    return supplier;
+  }
+
+  static updateSupplier(id: number, updates: Partial<Supplier>): Supplier | null {
+    const supplier = this.getSupplierById(id);
+    if (!supplier) return null;
+
+    const duplicate = updates.name ? this.findSupplierByName(updates.name) : null;
+    if (duplicate && duplicate.id !== id) return null;
+
+    Object.assign(supplier, updates, {
+      id: supplier.id,
+      created_at: supplier.created_at,
+      updated_at: new Date().toISOString(),
+    });
+    return supplier;
+  }
+
+  static deleteSupplier(id: number): boolean {
+    const supplierIndex = suppliers.findIndex(s => s.id === id);
+    if (supplierIndex === -1) return false;
+
+    for (let i = supplierPrices.length - 1; i >= 0; i--) {
+      if (supplierPrices[i].supplier_id === id) supplierPrices.splice(i, 1);
+    }
+    suppliers.splice(supplierIndex, 1);
+    return true;
+  }
+
+  static countProjectMoneyRecords(projectId: number): number {
+    return [projectBaselines, evmSnapshots, costCodes, timeEntries, subcontracts, scheduleOfValues, variations, progressClaims, changeOrders]
+      .reduce((total, records: { project_id: number }[]) => total + records.filter(r => r.project_id === projectId).length, 0);
+  }
+
+  static countSupplierReferences(id: number): number {
+    return materials.filter(m => m.supplier_id === id).length +
+      purchaseOrders.filter(o => o.supplier_id === id).length;
+  }
+
+  static getSupplierPurchaseOrders(supplierId: number): PurchaseOrder[] {
+    return purchaseOrders.filter(o => o.supplier_id === supplierId);
+  }
+
+  // Supplier price lists
+  static getSupplierPrices(supplierId: number): SupplierPrice[] {
+    return supplierPrices
+      .filter(p => p.supplier_id === supplierId)
+      .sort((a, b) => a.item_name.localeCompare(b.item_name) || b.valid_from.localeCompare(a.valid_from));
+  }
+
+  static createSupplierPrice(priceData: Omit<SupplierPrice, 'id' | 'created_at' | 'updated_at'>): SupplierPrice | null {
+    if (!this.getSupplierById(priceData.supplier_id)) return null;
+
+    const price: SupplierPrice = {
+      ...priceData,
+      id: nextSupplierPriceId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    supplierPrices.push(price);
+    return price;
+  }
+
+  static updateSupplierPrice(supplierId: number, id: number, updates: Partial<SupplierPrice>): SupplierPrice | null {
+    const price = supplierPrices.find(p => p.id === id && p.supplier_id === supplierId);
+    if (!price) return null;
+
+    Object.assign(price, updates, {
+      id: price.id,
+      supplier_id: price.supplier_id,
+      updated_at: new Date().toISOString(),
+    });
+    return price;
+  }
+
+  static deleteSupplierPrice(supplierId: number, id: number): boolean {
+    const priceIndex = supplierPrices.findIndex(p => p.id === id && p.supplier_id === supplierId);
+    if (priceIndex === -1) return false;
+
+    supplierPrices.splice(priceIndex, 1);
+    return true;
+  }
+
+  // Site diary
+  static getSiteDiaryEntries(projectId: number): SiteDiaryEntry[] {
+    return siteDiaryEntries
+      .filter(e => e.project_id === projectId)
+      .sort((a, b) => b.entry_date.localeCompare(a.entry_date));
+  }
+
+  static getSiteDiaryEntry(projectId: number, id: number): SiteDiaryEntry | null {
+    return siteDiaryEntries.find(e => e.id === id && e.project_id === projectId) || null;
+  }
+
+  static createSiteDiaryEntry(entryData: Pick<SiteDiaryEntry, 'project_id' | 'entry_date'> & Partial<SiteDiaryEntry>): SiteDiaryEntry | null {
+    if (!projects.some(p => p.id === entryData.project_id)) return null;
+    if (siteDiaryEntries.some(e => e.project_id === entryData.project_id && e.entry_date === entryData.entry_date)) return null;
+
+    const entry: SiteDiaryEntry = {
+      crews: [],
+      work_performed: null,
+      delays: [],
+      visitors: [],
+      notes: null,
+      weather: null,
+      file_ids: [],
+      status: 'draft',
+      signed_off_by: null,
+      signed_off_at: null,
+      created_by: null,
+      ...entryData,
+      id: nextSiteDiaryEntryId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    siteDiaryEntries.push(entry);
+    return entry;
+  }
+
+  static updateSiteDiaryEntry(projectId: number, id: number, updates: Partial<SiteDiaryEntry>): SiteDiaryEntry | null {
+    const entry = this.getSiteDiaryEntry(projectId, id);
+    if (!entry) return null;
+
+    Object.assign(entry, updates, {
+      id: entry.id,
+      project_id: entry.project_id,
+      updated_at: new Date().toISOString(),
+    });
+    return entry;
+  }
+
+  static deleteSiteDiaryEntry(projectId: number, id: number): boolean {
+    const entryIndex = siteDiaryEntries.findIndex(e => e.id === id && e.project_id === projectId);
+    if (entryIndex === -1) return false;
+
+    siteDiaryEntries.splice(entryIndex, 1);
+    return true;
+  }
+
+  // RFIs
+  static getRfis(projectId: number): Rfi[] {
+    return rfis
+      .filter(r => r.project_id === projectId)
+      .sort((a, b) => b.number - a.number);
+  }
+
+  static getRfi(projectId: number, id: number): Rfi | null {
+    return rfis.find(r => r.id === id && r.project_id === projectId) || null;
+  }
+
+  static getOpenRfis(): Rfi[] {
+    return rfis.filter(r => r.status === 'open');
+  }
+
+  static createRfi(rfiData: Pick<Rfi, 'project_id' | 'subject' | 'question'> & Partial<Rfi>): Rfi | null {
+    if (!projects.some(p => p.id === rfiData.project_id)) return null;
+
+    const number = rfis
+      .filter(r => r.project_id === rfiData.project_id)
+      .reduce((max, r) => Math.max(max, r.number), 0) + 1;
+
+    const rfi: Rfi = {
+      status: 'draft',
+      assigned_to: null,
+      due_date: null,
+      cost_impact: false,
+      schedule_impact: false,
+      file_ids: [],
+      raised_by: null,
+      opened_at: null,
+      answered_at: null,
+      closed_at: null,
+      overdue_notified_at: null,
+      ...rfiData,
+      id: nextRfiId++,
+      number,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    rfis.push(rfi);
+    return rfi;
+  }
+
+  static updateRfi(projectId: number, id: number, updates: Partial<Rfi>): Rfi | null {
+    const rfi = this.getRfi(projectId, id);
+    if (!rfi) return null;
+
+    Object.assign(rfi, updates, {
+      id: rfi.id,
+      project_id: rfi.project_id,
+      number: rfi.number,
+      updated_at: new Date().toISOString(),
+    });
+    return rfi;
+  }
+
+  static deleteRfi(projectId: number, id: number): boolean {
+    const rfiIndex = rfis.findIndex(r => r.id === id && r.project_id === projectId);
+    if (rfiIndex === -1) return false;
+
+    for (let i = rfiResponses.length - 1; i >= 0; i--) {
+      if (rfiResponses[i].rfi_id === id) rfiResponses.splice(i, 1);
+    }
+    rfis.splice(rfiIndex, 1);
+    return true;
+  }
+
+  static getRfiResponses(rfiId: number): RfiResponse[] {
+    return rfiResponses.filter(r => r.rfi_id === rfiId);
+  }
+
+  static addRfiResponse(responseData: Omit<RfiResponse, 'id' | 'created_at'>): RfiResponse | null {
+    if (!rfis.some(r => r.id === responseData.rfi_id)) return null;
+
+    const response: RfiResponse = {
+      ...responseData,
+      id: nextRfiResponseId++,
+      created_at: new Date().toISOString(),
+    };
+    rfiResponses.push(response);
+    return response;
+  }
+
+  // Defects
+  static getDefects(projectId: number): Defect[] {
+    return defects
+      .filter(d => d.project_id === projectId)
+      .sort((a, b) => b.number - a.number);
+  }
+
+  static getDefect(projectId: number, id: number): Defect | null {
+    return defects.find(d => d.id === id && d.project_id === projectId) || null;
+  }
+
+  static createDefect(defectData: Pick<Defect, 'project_id' | 'title' | 'location' | 'trade'> & Partial<Defect>): Defect | null {
+    if (!projects.some(p => p.id === defectData.project_id)) return null;
+
+    const number = defects
+      .filter(d => d.project_id === defectData.project_id)
+      .reduce((max, d) => Math.max(max, d.number), 0) + 1;
+
+    const defect: Defect = {
+      description: null,
+      pin: null,
+      severity: 'minor',
+      status: 'open',
+      photo_ids: [],
+      assigned_to: null,
+      due_date: null,
+      raised_by: null,
+      fixed_at: null,
+      verified_by: null,
+      verified_at: null,
+      verification_notes: null,
+      ...defectData,
+      id: nextDefectId++,
+      number,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    defects.push(defect);
+    return defect;
+  }
+
+  static updateDefect(projectId: number, id: number, updates: Partial<Defect>): Defect | null {
+    const defect = this.getDefect(projectId, id);
+    if (!defect) return null;
+
+    Object.assign(defect, updates, {
+      id: defect.id,
+      project_id: defect.project_id,
+      number: defect.number,
+      updated_at: new Date().toISOString(),
+    });
+    return defect;
+  }
+
+  static deleteDefect(projectId: number, id: number): boolean {
+    const defectIndex = defects.findIndex(d => d.id === id && d.project_id === projectId);
+    if (defectIndex === -1) return false;
+
+    defects.splice(defectIndex, 1);
+    return true;
+  }
+
+  // Acceptance criteria
+  static getAcceptanceCriteria(projectId: number): AcceptanceCriterion[] {
+    return acceptanceCriteria
+      .filter(c => c.project_id === projectId)
+      .sort((a, b) => a.sort_order - b.sort_order || a.id - b.id);
+  }
+
+  static getAcceptanceCriterion(projectId: number, id: number): AcceptanceCriterion | null {
+    return acceptanceCriteria.find(c => c.id === id && c.project_id === projectId) || null;
+  }
+
+  static createAcceptanceCriterion(
+    criterionData: Pick<AcceptanceCriterion, 'project_id' | 'phase' | 'title'> & Partial<AcceptanceCriterion>
+  ): AcceptanceCriterion | null {
+    if (!projects.some(p => p.id === criterionData.project_id)) return null;
+
+    const criterion: AcceptanceCriterion = {
+      description: null,
+      sort_order: 0,
+      evidence_file_ids: [],
+      signed_off_by: null,
+      signed_off_at: null,
+      created_by: null,
+      ...criterionData,
+      id: nextAcceptanceCriterionId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    acceptanceCriteria.push(criterion);
+    return criterion;
+  }
+
+  static updateAcceptanceCriterion(projectId: number, id: number, updates: Partial<AcceptanceCriterion>): AcceptanceCriterion | null {
+    const criterion = this.getAcceptanceCriterion(projectId, id);
+    if (!criterion) return null;
+
+    Object.assign(criterion, updates, {
+      id: criterion.id,
+      project_id: criterion.project_id,
+      updated_at: new Date().toISOString(),
+    });
+    return criterion;
+  }
+
+  static deleteAcceptanceCriterion(projectId: number, id: number): boolean {
+    const criterionIndex = acceptanceCriteria.findIndex(c => c.id === id && c.project_id === projectId);
+    if (criterionIndex === -1) return false;
+
+    acceptanceCriteria.splice(criterionIndex, 1);
+    return true;
+  }
+
+  // Risk register
+  static getProjectRisks(projectId: number): ProjectRisk[] {
+    return projectRisks
+      .filter(r => r.project_id === projectId)
+      .sort((a, b) => b.probability * b.impact - a.probability * a.impact || a.id - b.id);
+  }
+
+  static getProjectRisk(projectId: number, id: number): ProjectRisk | null {
+    return projectRisks.find(r => r.id === id && r.project_id === projectId) || null;
+  }
+
+  static createProjectRisk(
+    riskData: Pick<ProjectRisk, 'project_id' | 'title' | 'probability' | 'impact'> & Partial<ProjectRisk>
+  ): ProjectRisk | null {
+    if (!projects.some(p => p.id === riskData.project_id)) return null;
+
+    const risk: ProjectRisk = {
+      description: null,
+      category: null,
+      owner_id: null,
+      response_strategy: 'mitigate',
+      mitigation_actions: [],
+      status: 'open',
+      review_date: null,
+      closed_at: null,
+      created_by: null,
+      ...riskData,
+      id: nextProjectRiskId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    projectRisks.push(risk);
+    return risk;
+  }
+
+  static updateProjectRisk(projectId: number, id: number, updates: Partial<ProjectRisk>): ProjectRisk | null {
+    const risk = this.getProjectRisk(projectId, id);
+    if (!risk) return null;
+
+    Object.assign(risk, updates, {
+      id: risk.id,
+      project_id: risk.project_id,
+      updated_at: new Date().toISOString(),
+    });
+    return risk;
+  }
+
+  static deleteProjectRisk(projectId: number, id: number): boolean {
+    const riskIndex = projectRisks.findIndex(r => r.id === id && r.project_id === projectId);
+    if (riskIndex === -1) return false;
+
+    projectRisks.splice(riskIndex, 1);
+    return true;
+  }
+
+  // Cost codes
+  static getCostCodes(projectId: number): CostCode[] {
+    return costCodes
+      .filter(c => c.project_id === projectId)
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  static getCostCode(projectId: number, id: number): CostCode | null {
+    return costCodes.find(c => c.id === id && c.project_id === projectId) || null;
+  }
+
+  static createCostCode(
+    codeData: Pick<CostCode, 'project_id' | 'code' | 'name'> & Partial<CostCode>
+  ): CostCode | null {
+    if (!projects.some(p => p.id === codeData.project_id)) return null;
+    if (costCodes.some(c => c.project_id === codeData.project_id && c.code === codeData.code)) return null;
+
+    const costCode: CostCode = {
+      labour_rate: 0,
+      budget: 0,
+      ...codeData,
+      id: nextCostCodeId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    costCodes.push(costCode);
+    return costCode;
+  }
+
+  static updateCostCode(projectId: number, id: number, updates: Partial<CostCode>): CostCode | null {
+    const costCode = this.getCostCode(projectId, id);
+    if (!costCode) return null;
+    if (updates.code && costCodes.some(c => c.project_id === projectId && c.code === updates.code && c.id !== id)) {
+      return null;
+    }
+
+    Object.assign(costCode, updates, {
+      id: costCode.id,
+      project_id: costCode.project_id,
+      updated_at: new Date().toISOString(),
+    });
+    return costCode;
+  }
+
+  // Time entries and subcontracts reference their cost code, so a code in use
+  // can't be removed; materials and orders just lose theirs
+  static deleteCostCode(projectId: number, id: number): boolean {
+    const codeIndex = costCodes.findIndex(c => c.id === id && c.project_id === projectId);
+    if (codeIndex === -1) return false;
+    if (timeEntries.some(e => e.cost_code_id === id)) return false;
+    if (subcontracts.some(s => s.cost_code_id === id)) return false;
+
+    materials.filter(m => m.cost_code_id === id).forEach(m => { m.cost_code_id = null; });
+    purchaseOrders.filter(o => o.cost_code_id === id).forEach(o => { o.cost_code_id = null; });
+    costCodes.splice(codeIndex, 1);
+    return true;
+  }
+
+  // Time entries
+  static getTimeEntries(filters: {
+    projectId?: number;
+    userId?: string;
+    status?: TimeEntryStatus;
+    from?: string;
+    to?: string;
+  }): TimeEntry[] {
+    return timeEntries
+      .filter(e => filters.projectId === undefined || e.project_id === filters.projectId)
+      .filter(e => !filters.userId || e.user_id === filters.userId)
+      .filter(e => !filters.status || e.status === filters.status)
+      .filter(e => !filters.from || e.clock_in >= filters.from)
+      .filter(e => !filters.to || e.clock_in < filters.to)
+      .sort((a, b) => a.clock_in.localeCompare(b.clock_in));
+  }
+
+  static getTimeEntry(projectId: number, id: number): TimeEntry | null {
+    return timeEntries.find(e => e.id === id && e.project_id === projectId) || null;
+  }
+
+  static getOpenTimeEntry(userId: string): TimeEntry | null {
+    return timeEntries.find(e => e.user_id === userId && e.status === 'open') || null;
+  }
+
+  static createTimeEntry(
+    entryData: Pick<TimeEntry, 'project_id' | 'user_id' | 'cost_code_id' | 'clock_in'> & Partial<TimeEntry>
+  ): TimeEntry | null {
+    if (!projects.some(p => p.id === entryData.project_id)) return null;
+    if (this.getOpenTimeEntry(entryData.user_id)) return null;
+
+    const entry: TimeEntry = {
+      clock_out: null,
+      breaks: [],
+      clock_in_latitude: null,
+      clock_in_longitude: null,
+      clock_out_latitude: null,
+      clock_out_longitude: null,
+      regular_hours: 0,
+      overtime_hours: 0,
+      hourly_rate: 0,
+      cost: 0,
+      status: 'open',
+      notes: null,
+      approved_by: null,
+      approved_at: null,
+      rejection_reason: null,
+      ...entryData,
+      id: nextTimeEntryId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    timeEntries.push(entry);
+    return entry;
+  }
+
+  static updateTimeEntry(projectId: number, id: number, updates: Partial<TimeEntry>): TimeEntry | null {
+    const entry = this.getTimeEntry(projectId, id);
+    if (!entry) return null;
+
+    Object.assign(entry, updates, {
+      id: entry.id,
+      project_id: entry.project_id,
+      user_id: entry.user_id,
+      updated_at: new Date().toISOString(),
+    });
+    return entry;
+  }
+
+  static deleteTimeEntry(projectId: number, id: number): boolean {
+    const entryIndex = timeEntries.findIndex(e => e.id === id && e.project_id === projectId);
+    if (entryIndex === -1) return false;
+
+    timeEntries.splice(entryIndex, 1);
+    return true;
+  }
+
+  // IoT devices
+  static getIotDevice(deviceId: string): IotDevice | null {
+    return iotDevices.find(d => d.device_id === deviceId) || null;
+  }
+
+  static createIotDevice(
+    deviceData: Pick<IotDevice, 'device_id' | 'device_type' | 'ingest_key_hash'> & Partial<IotDevice>
+  ): IotDevice | null {
+    if (this.getIotDevice(deviceData.device_id)) return null;
+
+    const device: IotDevice = {
+      name: null,
+      location: null,
+      capabilities: [],
+      status: 'active',
+      last_seen_at: null,
+      registered_by: null,
+      ...deviceData,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    iotDevices.push(device);
+    return device;
+  }
+
+  static updateIotDevice(deviceId: string, updates: Partial<IotDevice>): IotDevice | null {
+    const device = this.getIotDevice(deviceId);
+    if (!device) return null;
+
+    Object.assign(device, updates, {
+      device_id: device.device_id,
+      updated_at: new Date().toISOString(),
+    });
+    return device;
+  }
+
+  // Equipment
+  static getEquipmentList(): Equipment[] {
+    return [...equipment].sort((a, b) => a.asset_tag.localeCompare(b.asset_tag));
+  }
+
+  static getEquipment(id: number): Equipment | null {
+    return equipment.find(e => e.id === id) || null;
+  }
+
+  static getEquipmentByDevice(deviceId: string): Equipment | null {
+    return equipment.find(e => e.iot_device_id === deviceId) || null;
+  }
+
+  static createEquipment(equipmentData: Pick<Equipment, 'asset_tag' | 'name'> & Partial<Equipment>): Equipment | null {
+    if (equipment.some(e => e.asset_tag === equipmentData.asset_tag)) return null;
+    if (equipmentData.iot_device_id && this.getEquipmentByDevice(equipmentData.iot_device_id)) return null;
+
+    const item: Equipment = {
+      category: null,
+      make: null,
+      model: null,
+      serial_number: null,
+      status: 'available',
+      project_id: null,
+      assigned_at: null,
+      iot_device_id: null,
+      hour_meter: 0,
+      service_interval_hours: null,
+      service_interval_days: null,
+      last_service_hours: 0,
+      last_service_date: null,
+      maintenance_notified_at: null,
+      notes: null,
+      created_by: null,
+      ...equipmentData,
+      id: nextEquipmentId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    equipment.push(item);
+    return item;
+  }
+
+  static updateEquipment(id: number, updates: Partial<Equipment>): Equipment | null {
+    const item = this.getEquipment(id);
+    if (!item) return null;
+    if (updates.asset_tag && equipment.some(e => e.asset_tag === updates.asset_tag && e.id !== id)) return null;
+    if (updates.iot_device_id && equipment.some(e => e.iot_device_id === updates.iot_device_id && e.id !== id)) return null;
+
+    Object.assign(item, updates, {
+      id: item.id,
+      updated_at: new Date().toISOString(),
+    });
+    return item;
+  }
+
+  static deleteEquipment(id: number): boolean {
+    const itemIndex = equipment.findIndex(e => e.id === id);
+    if (itemIndex === -1) return false;
+
+    equipment.splice(itemIndex, 1);
+    for (const records of [equipmentMeterReadings, equipmentServices, equipmentCertificates] as { equipment_id: number }[][]) {
+      for (let i = records.length - 1; i >= 0; i--) {
+        if (records[i].equipment_id === id) records.splice(i, 1);
+      }
+    }
+    return true;
+  }
+
+  static getEquipmentMeterReadings(equipmentId: number, since?: string): EquipmentMeterReading[] {
+    return equipmentMeterReadings
+      .filter(r => r.equipment_id === equipmentId && (!since || r.recorded_at >= since))
+      .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+  }
+
+  static createEquipmentMeterReading(
+    readingData: Pick<EquipmentMeterReading, 'equipment_id' | 'hours'> & Partial<EquipmentMeterReading>
+  ): EquipmentMeterReading | null {
+    if (!this.getEquipment(readingData.equipment_id)) return null;
+
+    const reading: EquipmentMeterReading = {
+      source: 'manual',
+      recorded_by: null,
+      recorded_at: new Date().toISOString(),
+      ...readingData,
+      id: nextEquipmentMeterReadingId++,
+    };
+    equipmentMeterReadings.push(reading);
+    return reading;
+  }
+
+  static getEquipmentServices(equipmentId: number): EquipmentService[] {
+    return equipmentServices
+      .filter(s => s.equipment_id === equipmentId)
+      .sort((a, b) => b.performed_at.localeCompare(a.performed_at) || b.id - a.id);
+  }
+
+  static createEquipmentService(
+    serviceData: Pick<EquipmentService, 'equipment_id' | 'performed_at' | 'hours' | 'description'> & Partial<EquipmentService>
+  ): EquipmentService | null {
+    if (!this.getEquipment(serviceData.equipment_id)) return null;
+
+    const service: EquipmentService = {
+      performed_by: null,
+      ...serviceData,
+      id: nextEquipmentServiceId++,
+      created_at: new Date().toISOString(),
+    };
+    equipmentServices.push(service);
+    return service;
+  }
+
+  static getEquipmentCertificates(equipmentId: number): EquipmentCertificate[] {
+    return equipmentCertificates
+      .filter(c => c.equipment_id === equipmentId)
+      .sort((a, b) => (a.expiry_date || '9999').localeCompare(b.expiry_date || '9999'));
+  }
+
+  static createEquipmentCertificate(
+    certificateData: Pick<EquipmentCertificate, 'equipment_id' | 'certificate_type'> & Partial<EquipmentCertificate>
+  ): EquipmentCertificate | null {
+    if (!this.getEquipment(certificateData.equipment_id)) return null;
+
+    const certificate: EquipmentCertificate = {
+      certificate_number: null,
+      issued_date: null,
+      expiry_date: null,
+      file_id: null,
+      created_by: null,
+      ...certificateData,
+      id: nextEquipmentCertificateId++,
+      created_at: new Date().toISOString(),
+    };
+    equipmentCertificates.push(certificate);
+    return certificate;
+  }
+
+  static deleteEquipmentCertificate(equipmentId: number, id: number): boolean {
+    const certificateIndex = equipmentCertificates.findIndex(c => c.id === id && c.equipment_id === equipmentId);
+    if (certificateIndex === -1) return false;
+
+    equipmentCertificates.splice(certificateIndex, 1);
+    return true;
+  }
+
+  // Project folders
+  static getProjectFolders(projectId: number): ProjectFolder[] {
+    return projectFolders
+      .filter(f => f.project_id === projectId)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  static createProjectFolder(folderData: Pick<ProjectFolder, 'project_id' | 'path'> & Partial<ProjectFolder>): ProjectFolder {
+    const existing = projectFolders.find(f => f.project_id === folderData.project_id && f.path === folderData.path);
+    if (existing) return existing;
+
+    const folder: ProjectFolder = {
+      created_by: null,
+      ...folderData,
+      id: nextProjectFolderId++,
+      created_at: new Date().toISOString(),
+    };
+    projectFolders.push(folder);
+    return folder;
+  }
+
+  static deleteProjectFolder(projectId: number, id: number): boolean {
+    const folderIndex = projectFolders.findIndex(f => f.id === id && f.project_id === projectId);
+    if (folderIndex === -1) return false;
+
+    projectFolders.splice(folderIndex, 1);
+    return true;
+  }
+
+  // Project templates
+  static getProjectTemplates(): ProjectTemplate[] {
+    return [...projectTemplates].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  static getProjectTemplate(id: number): ProjectTemplate | null {
+    return projectTemplates.find(t => t.id === id) || null;
+  }
+
+  static createProjectTemplate(
+    templateData: Pick<ProjectTemplate, 'name' | 'source_budget' | 'content'> & Partial<ProjectTemplate>
+  ): ProjectTemplate {
+    const template: ProjectTemplate = {
+      description: null,
+      source_project_id: null,
+      source_start_date: null,
+      created_by: null,
+      ...templateData,
+      id: nextProjectTemplateId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    projectTemplates.push(template);
+    return template;
+  }
+
+  static deleteProjectTemplate(id: number): boolean {
+    const templateIndex = projectTemplates.findIndex(t => t.id === id);
+    if (templateIndex === -1) return false;
+
+    projectTemplates.splice(templateIndex, 1);
+    return true;
+  }
+
+  // Audit log, append-only
+  static createAuditLogEntries(entries: Omit<AuditLogEntry, 'id' | 'created_at'>[]): AuditLogEntry[] {
+    const created = entries.map(entry => ({
+      ...entry,
+      id: nextAuditLogId++,
+      created_at: new Date().toISOString(),
+    }));
+    auditLog.push(...created);
+    return created;
+  }
+
+  static getProjectAuditLog(projectId: number): (AuditLogEntry & { actor: Pick<User, 'id' | 'email' | 'name'> | null })[] {
+    return auditLog
+      .filter(entry => entry.project_id === projectId)
+      .map(entry => {
+        const actor = users.find(u => u.id === entry.actor_id);
+        return { ...entry, actor: actor ? { id: actor.id, email: actor.email, name: actor.name } : null };
+      })
+      .sort((a, b) => b.id - a.id);
+  }
+
+  // What the global search indexes: projects and their materials and RFI responses, trash left out
+  static getSearchableRecords() {
+    const active = new Set(projects.filter(p => !p.deleted_at).map(p => p.id));
+    const activeRfis = rfis.filter(r => active.has(r.project_id));
+    const rfiIds = new Set(activeRfis.map(r => r.id));
+    return {
+      projects: projects.filter(p => active.has(p.id)),
+      materials: materials.filter(m => active.has(m.project_id) && !m.deleted_at),
+      rfis: activeRfis,
+      rfiResponses: rfiResponses.filter(r => rfiIds.has(r.rfi_id)),
+    };
+  }
+
+  // Subcontracts
+  static getSubcontracts(projectId: number): Subcontract[] {
+    return subcontracts.filter(s => s.project_id === projectId);
+  }
+
+  static getSubcontract(projectId: number, id: number): Subcontract | null {
+    return subcontracts.find(s => s.id === id && s.project_id === projectId) || null;
+  }
+
+  static createSubcontract(
+    subcontractData: Pick<Subcontract, 'project_id' | 'cost_code_id' | 'contractor' | 'contract_value'> & Partial<Subcontract>
+  ): Subcontract | null {
+    if (!this.getCostCode(subcontractData.project_id, subcontractData.cost_code_id)) return null;
+
+    const subcontract: Subcontract = {
+      description: null,
+      invoiced_to_date: 0,
+      status: 'awarded',
+      created_by: null,
+      ...subcontractData,
+      id: nextSubcontractId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    subcontracts.push(subcontract);
+    return subcontract;
+  }
+
+  static updateSubcontract(projectId: number, id: number, updates: Partial<Subcontract>): Subcontract | null {
+    const subcontract = this.getSubcontract(projectId, id);
+    if (!subcontract) return null;
+
+    Object.assign(subcontract, updates, {
+      id: subcontract.id,
+      project_id: subcontract.project_id,
+      updated_at: new Date().toISOString(),
+    });
+    return subcontract;
+  }
+
+  static deleteSubcontract(projectId: number, id: number): boolean {
+    const subcontractIndex = subcontracts.findIndex(s => s.id === id && s.project_id === projectId);
+    if (subcontractIndex === -1) return false;
+
+    subcontracts.splice(subcontractIndex, 1);
+    return true;
+  }
+
+  // What a project's cost report is built from; trashed materials still cost what they cost
+  static getCostControlRecords(projectId: number) {
+    return {
+      materials: materials.filter(m => m.project_id === projectId),
+      purchaseOrders: purchaseOrders.filter(o => o.project_id === projectId),
+      transactions: materialTransactions.filter(t => t.project_id === projectId),
+      subcontracts: this.getSubcontracts(projectId),
+    };
+  }
+
+  // Schedule of values
+  static getScheduleOfValues(projectId: number): ScheduleOfValuesItem[] {
+    return scheduleOfValues
+      .filter(i => i.project_id === projectId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  static getScheduleOfValuesItem(projectId: number, id: number): ScheduleOfValuesItem | null {
+    return scheduleOfValues.find(i => i.id === id && i.project_id === projectId) || null;
+  }
+
+  static createScheduleOfValuesItem(
+    itemData: Pick<ScheduleOfValuesItem, 'project_id' | 'item_number' | 'description' | 'scheduled_value'> & Partial<ScheduleOfValuesItem>
+  ): ScheduleOfValuesItem | null {
+    if (!projects.some(p => p.id === itemData.project_id)) return null;
+
+    const item: ScheduleOfValuesItem = {
+      position: 0,
+      ...itemData,
+      id: nextScheduleOfValuesId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    scheduleOfValues.push(item);
+    return item;
+  }
+
+  static updateScheduleOfValuesItem(projectId: number, id: number, updates: Partial<ScheduleOfValuesItem>): ScheduleOfValuesItem | null {
+    const item = this.getScheduleOfValuesItem(projectId, id);
+    if (!item) return null;
+
+    Object.assign(item, updates, {
+      id: item.id,
+      project_id: item.project_id,
+      updated_at: new Date().toISOString(),
+    });
+    return item;
+  }
+
+  static deleteScheduleOfValuesItem(projectId: number, id: number): boolean {
+    const itemIndex = scheduleOfValues.findIndex(i => i.id === id && i.project_id === projectId);
+    if (itemIndex === -1) return false;
+
+    scheduleOfValues.splice(itemIndex, 1);
+    return true;
+  }
+
+  // Variations
+  static getVariations(projectId: number): Variation[] {
+    return variations.filter(v => v.project_id === projectId);
+  }
+
+  static getVariation(projectId: number, id: number): Variation | null {
+    return variations.find(v => v.id === id && v.project_id === projectId) || null;
+  }
+
+  static createVariation(
+    variationData: Pick<Variation, 'project_id' | 'reference' | 'description' | 'amount'> & Partial<Variation>
+  ): Variation | null {
+    if (!projects.some(p => p.id === variationData.project_id)) return null;
+
+    const variation: Variation = {
+      status: 'pending',
+      approved_by: null,
+      approved_at: null,
+      created_by: null,
+      ...variationData,
+      id: nextVariationId++,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    variations.push(variation);
+    return variation;
+  }
+
+  static updateVariation(projectId: number, id: number, updates: Partial<Variation>): Variation | null {
+    const variation = this.getVariation(projectId, id);
+    if (!variation) return null;
+
+    Object.assign(variation, updates, {
+      id: variation.id,
+      project_id: variation.project_id,
+      updated_at: new Date().toISOString(),
+    });
+    return variation;
+  }
+
+  static deleteVariation(projectId: number, id: number): boolean {
+    const variationIndex = variations.findIndex(v => v.id === id && v.project_id === projectId);
+    if (variationIndex === -1) return false;
+
+    variations.splice(variationIndex, 1);
+    return true;
+  }
+
+  // Progress claims
+  static getProgressClaims(projectIds: number[]): ProgressClaim[] {
+    return progressClaims
+      .filter(c => projectIds.includes(c.project_id))
+      .sort((a, b) => a.project_id - b.project_id || a.number - b.number);
+  }
+
+  static getProgressClaim(projectId: number, id: number): ProgressClaim | null {
+    return progressClaims.find(c => c.id === id && c.project_id === projectId) || null;
+  }
+
+  static createProgressClaim(
+    claimData: Pick<ProgressClaim, 'project_id' | 'period_end'> & Partial<ProgressClaim>
+  ): ProgressClaim | null {
+    if (!projects.some(p => p.id === claimData.project_id)) return null;
+
+    const number = progressClaims
+      .filter(c => c.project_id === claimData.project_id)
+      .reduce((max, c) => Math.max(max, c.number), 0) + 1;
+
+    const claim: ProgressClaim = {
+      status: 'draft',
+      retention_rate: 5,
+      retention_released: 0,
+      lines: [],
+      gross_to_date: null,
+      retention_held: null,
+      previous_certified: null,
+      amount_due: null,
+      notes: null,
+      submitted_at: null,
+      certified_at: null,
+      certified_by: null,
+      paid_at: null,
+      created_by: null,
+      ...claimData,
+      id: nextProgressClaimId++,
+      number,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    progressClaims.push(claim);
+    return claim;
+  }
+
+  static updateProgressClaim(projectId: number, id: number, updates: Partial<ProgressClaim>): ProgressClaim | null {
+    const claim = this.getProgressClaim(projectId, id);
+    if (!claim) return null;
+
+    Object.assign(claim, updates, {
+      id: claim.id,
+      project_id: claim.project_id,
+      number: claim.number,
+      updated_at: new Date().toISOString(),
+    });
+    return claim;
+  }
+
+  static deleteProgressClaim(projectId: number, id: number): boolean {
+    const claimIndex = progressClaims.findIndex(c => c.id === id && c.project_id === projectId);
+    if (claimIndex === -1) return false;
+
+    progressClaims.splice(claimIndex, 1);
+    return true;
+  }
+
+  // Change orders
+  static getChangeOrders(projectIds: number[]): ChangeOrder[] {
+    return changeOrders
+      .filter(o => projectIds.includes(o.project_id))
+      .sort((a, b) => a.project_id - b.project_id || a.number - b.number);
+  }
+
+  static getChangeOrder(projectId: number, id: number): ChangeOrder | null {
+    return changeOrders.find(o => o.id === id && o.project_id === projectId) || null;
+  }
+
+  static createChangeOrder(
+    orderData: Pick<ChangeOrder, 'project_id' | 'title'> & Partial<ChangeOrder>
+  ): ChangeOrder | null {
+    if (!projects.some(p => p.id === orderData.project_id)) return null;
+
+    const number = changeOrders
+      .filter(o => o.project_id === orderData.project_id)
+      .reduce((max, o) => Math.max(max, o.number), 0) + 1;
+
+    const order: ChangeOrder = {
+      description: null,
+      cost_impact: 0,
+      time_impact_days: 0,
+      status: 'draft',
+      approval_chain: [],
+      submitted_by: null,
+      submitted_at: null,
+      approved_at: null,
+      budget_before: null,
+      budget_after: null,
+      end_date_before: null,
+      end_date_after: null,
+      baseline_id: null,
+      created_by: null,
+      ...orderData,
+      id: nextChangeOrderId++,
+      number,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+    changeOrders.push(order);
+    return order;
+  }
+
+  static updateChangeOrder(projectId: number, id: number, updates: Partial<ChangeOrder>): ChangeOrder | null {
+    const order = this.getChangeOrder(projectId, id);
+    if (!order) return null;
+
+    Object.assign(order, updates, {
+      id: order.id,
+      project_id: order.project_id,
+      number: order.number,
+      updated_at: new Date().toISOString(),
+    });
+    return order;
+  }
+
+  static deleteChangeOrder(projectId: number, id: number): boolean {
+    const orderIndex = changeOrders.findIndex(o => o.id === id && o.project_id === projectId);
+    if (orderIndex === -1) return false;
+
+    changeOrders.splice(orderIndex, 1);
+    return true;
+  }
+
+  // User preferences
+  static getUserPreferences(userId: string): Record<string, unknown> | null {
+    return userPreferences.get(userId) ?? null;
+  }
+
+  static setUserPreferences(userId: string, preferences: Record<string, unknown>): Record<string, unknown> | null {
+    if (!users.some(u => u.id === userId)) return null;
+    userPreferences.set(userId, preferences);
+    return preferences;
+  }
+
+  // Exchange rates
+  static getExchangeRates(filters: { base?: string; quote?: string } = {}): ExchangeRate[] {
+    return exchangeRates
+      .filter(r => !filters.base || r.base_currency === filters.base)
+      .filter(r => !filters.quote || r.quote_currency === filters.quote)
+      .sort((a, b) => a.base_currency.localeCompare(b.base_currency) ||
+        a.quote_currency.localeCompare(b.quote_currency) ||
+        b.effective_date.localeCompare(a.effective_date));
+  }
+
+  static getExchangeRate(id: number): ExchangeRate | null {
+    return exchangeRates.find(r => r.id === id) || null;
+  }
+
+  static createExchangeRate(rateData: Pick<ExchangeRate, 'base_currency' | 'quote_currency' | 'rate' | 'effective_date' | 'created_by'>): ExchangeRate | null {
+    const duplicate = exchangeRates.some(r => r.base_currency === rateData.base_currency &&
+      r.quote_currency === rateData.quote_currency && r.effective_date === rateData.effective_date);
+    if (duplicate) return null;
+
+    const now = new Date().toISOString();
+    const rate: ExchangeRate = { id: nextExchangeRateId++, ...rateData, created_at: now, updated_at: now };
+    exchangeRates.push(rate);
+    return rate;
+  }
+
+  static updateExchangeRate(id: number, updates: Partial<Pick<ExchangeRate, 'rate' | 'effective_date'>>): ExchangeRate | null {
+    const rate = exchangeRates.find(r => r.id === id);
+    if (!rate) return null;
+
+    Object.assign(rate, updates, { updated_at: new Date().toISOString() });
+    return rate;
+  }
+
+  static deleteExchangeRate(id: number): boolean {
+    const index = exchangeRates.findIndex(r => r.id === id);
+    if (index === -1) return false;
+
+    exchangeRates.splice(index, 1);
+    return true;
+  }
+
+  // Working calendar closures
+  static getProjectClosures(projectId: number): ProjectClosure[] {
+    return projectClosures
+      .filter(c => c.project_id === projectId)
+      .sort((a, b) => a.start_date.localeCompare(b.start_date) || a.id - b.id);
+  }
+
+  static getProjectClosure(projectId: number, id: number): ProjectClosure | null {
+    return projectClosures.find(c => c.id === id && c.project_id === projectId) || null;
+  }
+
+  static createProjectClosure(projectId: number, closureData: Pick<ProjectClosure, 'name' | 'kind' | 'start_date' | 'end_date' | 'uid' | 'created_by'>): ProjectClosure | null {
+    if (!projects.some(p => p.id === projectId)) return null;
+    if (closureData.uid && projectClosures.some(c => c.project_id === projectId && c.uid === closureData.uid)) return null;
+
+    const closure: ProjectClosure = {
+      ...closureData,
+      id: nextProjectClosureId++,
+      project_id: projectId,
+      created_at: new Date().toISOString(),
+    };
+    projectClosures.push(closure);
+    return closure;
+  }
+
+  static deleteProjectClosure(projectId: number, id: number): boolean {
+    const index = projectClosures.findIndex(c => c.id === id && c.project_id === projectId);
+    if (index === -1) return false;
+
+    projectClosures.splice(index, 1);
+    return true;
+  }
+
+  // Calendar feeds
+  static getCalendarFeed(userId: string): CalendarFeed | null {
+    return calendarFeeds.find(f => f.user_id === userId) || null;
+  }
+
+  static getCalendarFeedByHash(tokenHash: string): CalendarFeed | null {
+    return calendarFeeds.find(f => f.token_hash === tokenHash) || null;
+  }
+
+  static saveCalendarFeed(userId: string, tokenHash: string): CalendarFeed {
+    const existing = this.getCalendarFeed(userId);
+    if (existing) {
+      Object.assign(existing, { token_hash: tokenHash, created_at: new Date().toISOString() });
+      return existing;
+    }
+
+    const feed: CalendarFeed = { user_id: userId, token_hash: tokenHash, created_at: new Date().toISOString() };
+    calendarFeeds.push(feed);
+    return feed;
+  }
+
+  static deleteCalendarFeed(userId: string): boolean {
+    const index = calendarFeeds.findIndex(f => f.user_id === userId);
+    if (index === -1) return false;
+
+    calendarFeeds.splice(index, 1);
+    return true;
   }
 }
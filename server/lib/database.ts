@@ -6,6 +6,14 @@ const supabaseKey = process.env.SUPABASE_ANON_KEY || 'your-anon-key';
 
 export const supabase = createClient<Database>(supabaseUrl, supabaseKey);
 
+// Without real credentials the services use the in-memory FallbackDatabase
+export const isSupabaseConfigured = () => {
+  return process.env.SUPABASE_URL &&
+         process.env.SUPABASE_URL !== 'https://your-project.supabase.co' &&
+         process.env.SUPABASE_ANON_KEY &&
+         process.env.SUPABASE_ANON_KEY !== 'your-anon-key';
+};
+
 // Database initialization function
 export async function initializeDatabase() {
   try {
@@ -24,3 +32,35 @@ export async function initializeDatabase() {
     return false;
   }
 }
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+const NUMBERING_ATTEMPTS = 5;
+
+type NumberedTable = 'rfis' | 'defects' | 'progress_claims' | 'change_orders';
+
+/**
+ * Insert a record numbered one past the project's last in `table`. Numbers
+ * run per project and UNIQUE(project_id, number) rejects a concurrent
+ * duplicate, so the insert is retried with a fresh number when that happens.
+ */
+export async function insertWithNextNumber<T>(
+  table: NumberedTable,
+  projectId: number,
+  insert: (number: number) => PromiseLike<{ data: T | null; error: { code: string } | null }>
+): Promise<{ data: T | null; error: { code: string } | null }> {
+  let result: { data: T | null; error: { code: string } | null } = { data: null, error: null };
+  for (let attempt = 0; attempt < NUMBERING_ATTEMPTS; attempt++) {
+    const { data: last } = await supabase
+      .from(table)
+      .select('number')
+      .eq('project_id', projectId)
+      .order('number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    result = await insert((last?.number ?? 0) + 1);
+    if (result.error?.code !== UNIQUE_VIOLATION) break;
+  }
+  return result;
+}
@@ -0,0 +1,173 @@
+import { insertWithNextNumber, supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { FileMetadata, FileStorageService } from './file-storage';
+import { DefectSeverity, DefectStatus, DefectSummary, summarizeDefects } from './defects';
+
+export type Defect = Database['public']['Tables']['defects']['Row'];
+export type DefectInput = Pick<Defect, 'title' | 'description' | 'location' | 'pin' | 'trade' | 'severity' | 'photo_ids' | 'assigned_to' | 'due_date' | 'raised_by'>;
+export type DefectUpdate = Partial<Omit<Defect, 'id' | 'project_id' | 'number' | 'raised_by' | 'created_at' | 'updated_at'>>;
+
+export interface DefectFilters {
+  status?: DefectStatus;
+  severity?: DefectSeverity;
+  trade?: string;
+  assignedTo?: string;
+}
+
+export interface DefectWithPhotos extends Defect {
+  photos: FileMetadata[];
+}
+
+export class DefectsService {
+  static async getDefects(projectId: number, filters: DefectFilters = {}): Promise<Defect[]> {
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('defects')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('number', { ascending: false });
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.severity) {
+        query = query.eq('severity', filters.severity);
+      }
+      if (filters.trade) {
+        query = query.ilike('trade', filters.trade);
+      }
+      if (filters.assignedTo) {
+        query = query.eq('assigned_to', filters.assignedTo);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching defects:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getDefects(projectId)
+        .filter(d => !filters.status || d.status === filters.status)
+        .filter(d => !filters.severity || d.severity === filters.severity)
+        .filter(d => !filters.trade || d.trade.toLowerCase() === filters.trade.toLowerCase())
+        .filter(d => !filters.assignedTo || d.assigned_to === filters.assignedTo);
+    }
+  }
+
+  static async getDefect(projectId: number, id: number): Promise<Defect | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('defects')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getDefect(projectId, id);
+    }
+  }
+
+  static async createDefect(projectId: number, defectData: DefectInput): Promise<Defect | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await insertWithNextNumber('defects', projectId, number => supabase
+        .from('defects')
+        .insert({ ...defectData, project_id: projectId, number })
+        .select()
+        .single());
+
+      if (error || !data) {
+        console.error('Error creating defect:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createDefect({ ...defectData, project_id: projectId });
+    }
+  }
+
+  static async updateDefect(projectId: number, id: number, updates: DefectUpdate): Promise<Defect | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('defects')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating defect:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateDefect(projectId, id, updates);
+    }
+  }
+
+  static async deleteDefect(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('defects')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting defect:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteDefect(projectId, id);
+    }
+  }
+
+  static async getSummary(projectId: number): Promise<DefectSummary> {
+    return summarizeDefects(await this.getDefects(projectId));
+  }
+
+  /**
+   * Store the derived quality score on the project row so list views and
+   * analytics read the defect log rather than a typed-in number.
+   */
+  static async syncQualityScore(projectId: number): Promise<DefectSummary> {
+    const summary = await this.getSummary(projectId);
+
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('projects')
+        .update({ quality_score: summary.qualityScore })
+        .eq('id', projectId);
+
+      if (error) {
+        console.error('Error syncing quality score:', error);
+      }
+    } else {
+      FallbackDatabase.updateProject(projectId, { quality_score: summary.qualityScore });
+    }
+
+    return summary;
+  }
+
+  // Photos live in FileStorageService; ones deleted since are dropped
+  static withPhotos(defect: Defect): DefectWithPhotos {
+    return {
+      ...defect,
+      photos: defect.photo_ids
+        .map(fileId => FileStorageService.getFileMetadata(fileId))
+        .filter((file): file is FileMetadata => file !== null),
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { calculateQualityScore, canTransitionDefect, DefectRecord, summarizeDefects } from "./defects";
+import { fixture } from "../test-utils";
+
+const defect = fixture<DefectRecord>({
+  status: "open",
+  severity: "minor",
+  due_date: null,
+});
+
+describe("calculateQualityScore", () => {
+  it("should score a clean project 100 and weight open defects by severity", () => {
+    expect(calculateQualityScore([])).toBe(100);
+    expect(calculateQualityScore([defect({})])).toBe(91);
+    expect(calculateQualityScore([defect({ severity: "critical" })])).toBe(67);
+    expect(calculateQualityScore([defect({ severity: "critical", status: "verified" })])).toBe(100);
+  });
+
+  it("should only credit a fix once it is verified", () => {
+    const fixed = calculateQualityScore([defect({ severity: "major", status: "fixed" })]);
+    expect(fixed).toBe(calculateQualityScore([defect({ severity: "major" })]));
+  });
+});
+
+describe("summarizeDefects", () => {
+  it("should count open, awaiting verification and overdue defects", () => {
+    const summary = summarizeDefects([
+      defect({ due_date: "2024-05-01" }),
+      defect({ status: "in_progress", severity: "critical" }),
+      defect({ status: "fixed", due_date: "2024-05-01" }),
+      defect({ status: "verified", due_date: "2024-05-01" }),
+    ], "2024-06-01");
+
+    expect(summary).toMatchObject({ total: 4, open: 2, awaitingVerification: 1, verified: 1, overdue: 2 });
+    expect(summary.bySeverity).toEqual({ minor: 1, major: 0, critical: 1 });
+  });
+});
+
+describe("canTransitionDefect", () => {
+  it("should not close a defect without verification", () => {
+    expect(canTransitionDefect("open", "verified")).toBe(false);
+    expect(canTransitionDefect("fixed", "verified")).toBe(true);
+    expect(canTransitionDefect("verified", "open")).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Punch list rules: a defect moves open → in_progress → fixed and is only
+ * closed once someone verifies the fix. A rejected fix goes back to open.
+ * The project's quality score is derived from the defect log.
+ */
+
+export type DefectStatus = 'open' | 'in_progress' | 'fixed' | 'verified';
+export type DefectSeverity = 'minor' | 'major' | 'critical';
+
+export const DEFECT_TRANSITIONS: Record<DefectStatus, DefectStatus[]> = {
+  open: ['in_progress', 'fixed'],
+  in_progress: ['open', 'fixed'],
+  fixed: ['verified', 'open'],
+  verified: [],
+};
+
+export const canTransitionDefect = (from: DefectStatus, to: DefectStatus) => DEFECT_TRANSITIONS[from].includes(to);
+
+export interface DefectRecord {
+  status: DefectStatus;
+  severity: DefectSeverity;
+  due_date: string | null;
+}
+
+export interface DefectSummary {
+  total: number;
+  open: number;
+  awaitingVerification: number;
+  verified: number;
+  overdue: number;
+  bySeverity: Record<DefectSeverity, number>;
+  qualityScore: number;
+}
+
+// A critical defect weighs as much as five minor ones
+const SEVERITY_WEIGHTS: Record<DefectSeverity, number> = { minor: 1, major: 3, critical: 5 };
+// Weight of clean work credited to every project, so a single minor defect
+// does not drop a project to zero
+const QUALITY_SCORE_PRIOR = 10;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const isDefectOverdue = (defect: DefectRecord, asOf: string = today()) =>
+  defect.status !== 'verified' && !!defect.due_date && defect.due_date < asOf;
+
+/**
+ * Quality score (0–100): the share of severity-weighted defects that have
+ * been verified closed. A project with no defects scores 100. Only status
+ * and severity count, so the stored score changes only when a defect does.
+ */
+export function calculateQualityScore(defects: Pick<DefectRecord, 'status' | 'severity'>[]): number {
+  let closedWeight = 0;
+  let openWeight = 0;
+
+  for (const defect of defects) {
+    const weight = SEVERITY_WEIGHTS[defect.severity];
+    if (defect.status === 'verified') {
+      closedWeight += weight;
+    } else {
+      openWeight += weight;
+    }
+  }
+
+  return Math.round(100 * (closedWeight + QUALITY_SCORE_PRIOR) / (closedWeight + openWeight + QUALITY_SCORE_PRIOR));
+}
+
+export function summarizeDefects(defects: DefectRecord[], asOf: string = today()): DefectSummary {
+  const open = defects.filter(d => d.status === 'open' || d.status === 'in_progress');
+
+  return {
+    total: defects.length,
+    open: open.length,
+    awaitingVerification: defects.filter(d => d.status === 'fixed').length,
+    verified: defects.filter(d => d.status === 'verified').length,
+    overdue: defects.filter(d => isDefectOverdue(d, asOf)).length,
+    bySeverity: {
+      minor: open.filter(d => d.severity === 'minor').length,
+      major: open.filter(d => d.severity === 'major').length,
+      critical: open.filter(d => d.severity === 'critical').length,
+    },
+    qualityScore: calculateQualityScore(defects),
+  };
+}
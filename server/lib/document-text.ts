@@ -0,0 +1,84 @@
+/**
+ * Document text extraction
+ * Pulls searchable text out of uploaded files: plain text, Word and Excel
+ * documents, and PDFs whose text is stored as plain or deflated content
+ * streams. Anything else, or anything unreadable, has no text.
+ */
+
+import { inflateSync } from 'zlib';
+import { decodeXml, MAX_ENTRY_SIZE, readXlsx, readZip } from './xlsx';
+
+// Enough for any document people search by; the rest is dropped
+export const MAX_EXTRACTED_TEXT = 100_000;
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const docxText = (buffer: Buffer) => {
+  const xml = readZip(buffer).get('word/document.xml')?.().toString('utf8') ?? '';
+  return [...xml.matchAll(/<w:p\b[^>]*>([\s\S]*?)<\/w:p>/g)]
+    .map(paragraph => [...paragraph[1].matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>/g)].map(m => decodeXml(m[1])).join(''))
+    .filter(Boolean)
+    .join('\n');
+};
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// A PDF literal string, without its parentheses
+const pdfString = (literal: string) =>
+  literal.replace(/\\([0-7]{1,3}|[\s\S])/g, (_, escape: string) => {
+    if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+    if (escape === '\n' || escape === '\r') return '';
+    return PDF_ESCAPES[escape] ?? escape;
+  });
+
+const LITERAL = /\((?:\\[\s\S]|[^\\)])*\)/g;
+
+// Text shown by Tj, TJ, ' and " operators, one line per text object
+const contentText = (content: string) =>
+  [...content.matchAll(/BT([\s\S]*?)ET/g)]
+    .map(block => [...block[1].matchAll(/(\[(?:[^\]\\]|\\[\s\S])*\]|\((?:\\[\s\S]|[^\\)])*\))\s*(?:Tj|TJ|'|")/g)]
+      .map(show => (show[1].match(LITERAL) ?? []).map(literal => pdfString(literal.slice(1, -1))).join(''))
+      .join(' '))
+    .filter(line => line.trim())
+    .join('\n');
+
+const pdfText = (buffer: Buffer) => {
+  const source = buffer.toString('latin1');
+  const lines: string[] = [];
+  let length = 0;
+  for (const match of source.matchAll(/<<([\s\S]*?)>>\s*stream\r?\n/g)) {
+    const start = match.index! + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) continue;
+    let data = buffer.subarray(start, end);
+    if (/\/FlateDecode/.test(match[1])) {
+      try {
+        data = inflateSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+      } catch {
+        continue;
+      }
+    } else if (/\/Filter/.test(match[1])) {
+      continue;
+    }
+    const text = contentText(data.toString('latin1'));
+    if (text) lines.push(text);
+    // Past the limit the rest would be dropped anyway
+    length += text.length;
+    if (length >= MAX_EXTRACTED_TEXT) break;
+  }
+  return lines.join('\n');
+};
+
+export const extractText = (buffer: Buffer, mimeType: string): string => {
+  let text = '';
+  try {
+    if (mimeType === 'text/plain') text = buffer.toString('utf8');
+    else if (mimeType === DOCX) text = docxText(buffer);
+    else if (mimeType === XLSX) text = readXlsx(buffer).map(row => row.join(' ')).join('\n');
+    else if (mimeType === 'application/pdf') text = pdfText(buffer);
+  } catch {
+    text = '';
+  }
+  return text.slice(0, MAX_EXTRACTED_TEXT);
+};
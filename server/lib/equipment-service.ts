@@ -0,0 +1,406 @@
+import { createHash } from 'crypto';
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { NotificationService } from './notifications';
+import { ProjectMembersService } from './project-members-service';
+import { EquipmentStatus, MeterReadingSource, serviceStatus, ServiceStatus } from './equipment';
+
+export type IotDevice = Database['public']['Tables']['iot_devices']['Row'];
+export type IotDeviceInput = Database['public']['Tables']['iot_devices']['Insert'];
+
+export type Equipment = Database['public']['Tables']['equipment']['Row'];
+export type EquipmentInput = Pick<Equipment, 'asset_tag' | 'name' | 'category' | 'make' | 'model' | 'serial_number' |
+  'status' | 'project_id' | 'assigned_at' | 'iot_device_id' | 'hour_meter' | 'service_interval_hours' |
+  'service_interval_days' | 'last_service_hours' | 'last_service_date' | 'notes' | 'created_by'>;
+export type EquipmentUpdate = Partial<Omit<Equipment, 'id' | 'created_by' | 'created_at' | 'updated_at'>>;
+
+export type MeterReading = Database['public']['Tables']['equipment_meter_readings']['Row'];
+export type ServiceRecord = Database['public']['Tables']['equipment_services']['Row'];
+export type ServiceRecordInput = Pick<ServiceRecord, 'performed_at' | 'hours' | 'description' | 'performed_by'>;
+export type EquipmentCertificate = Database['public']['Tables']['equipment_certificates']['Row'];
+export type EquipmentCertificateInput = Pick<EquipmentCertificate, 'certificate_type' | 'certificate_number' |
+  'issued_date' | 'expiry_date' | 'file_id' | 'created_by'>;
+
+export interface EquipmentWithService extends Equipment {
+  service: ServiceStatus;
+}
+
+export const hashIngestKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+export class EquipmentRegisterService {
+  static async getEquipmentList(filters: { status?: EquipmentStatus; projectId?: number; search?: string } = {}): Promise<Equipment[]> {
+    let items: Equipment[];
+
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('equipment')
+        .select('*')
+        .order('asset_tag');
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.projectId !== undefined) {
+        query = query.eq('project_id', filters.projectId);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching equipment:', error);
+        return [];
+      }
+
+      items = data || [];
+    } else {
+      items = FallbackDatabase.getEquipmentList()
+        .filter(e => !filters.status || e.status === filters.status)
+        .filter(e => filters.projectId === undefined || e.project_id === filters.projectId);
+    }
+
+    const search = filters.search?.toLowerCase();
+    return search
+      ? items.filter(e => [e.asset_tag, e.name, e.make, e.model, e.serial_number].some(v => v?.toLowerCase().includes(search)))
+      : items;
+  }
+
+  static async getEquipment(id: number): Promise<Equipment | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('equipment')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getEquipment(id);
+    }
+  }
+
+  static async getEquipmentByDevice(deviceId: string): Promise<Equipment | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('equipment')
+        .select('*')
+        .eq('iot_device_id', deviceId)
+        .maybeSingle();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getEquipmentByDevice(deviceId);
+    }
+  }
+
+  static async createEquipment(equipmentData: EquipmentInput): Promise<Equipment | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('equipment')
+        .insert(equipmentData)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating equipment:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createEquipment(equipmentData);
+    }
+  }
+
+  static async updateEquipment(id: number, updates: EquipmentUpdate): Promise<Equipment | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('equipment')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating equipment:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateEquipment(id, updates);
+    }
+  }
+
+  static async deleteEquipment(id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('equipment')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting equipment:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteEquipment(id);
+    }
+  }
+
+  static async getMeterReadings(equipmentId: number, since?: string): Promise<MeterReading[]> {
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('equipment_meter_readings')
+        .select('*')
+        .eq('equipment_id', equipmentId)
+        .order('recorded_at');
+      if (since) {
+        query = query.gte('recorded_at', since);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching meter readings:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getEquipmentMeterReadings(equipmentId, since);
+    }
+  }
+
+  static async getServices(equipmentId: number): Promise<ServiceRecord[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('equipment_services')
+        .select('*')
+        .eq('equipment_id', equipmentId)
+        .order('performed_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching service history:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getEquipmentServices(equipmentId);
+    }
+  }
+
+  static async createService(equipmentId: number, serviceData: ServiceRecordInput): Promise<ServiceRecord | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('equipment_services')
+        .insert({ ...serviceData, equipment_id: equipmentId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error recording service:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createEquipmentService({ ...serviceData, equipment_id: equipmentId });
+    }
+  }
+
+  static async getCertificates(equipmentId: number): Promise<EquipmentCertificate[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('equipment_certificates')
+        .select('*')
+        .eq('equipment_id', equipmentId)
+        .order('expiry_date', { nullsFirst: false });
+
+      if (error) {
+        console.error('Error fetching certificates:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getEquipmentCertificates(equipmentId);
+    }
+  }
+
+  static async createCertificate(equipmentId: number, certificateData: EquipmentCertificateInput): Promise<EquipmentCertificate | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('equipment_certificates')
+        .insert({ ...certificateData, equipment_id: equipmentId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating certificate:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createEquipmentCertificate({ ...certificateData, equipment_id: equipmentId });
+    }
+  }
+
+  static async deleteCertificate(equipmentId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('equipment_certificates')
+        .delete()
+        .eq('id', id)
+        .eq('equipment_id', equipmentId);
+
+      if (error) {
+        console.error('Error deleting certificate:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteEquipmentCertificate(equipmentId, id);
+    }
+  }
+
+  // IoT devices
+  static async getIotDevice(deviceId: string): Promise<IotDevice | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('iot_devices')
+        .select('*')
+        .eq('device_id', deviceId)
+        .maybeSingle();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getIotDevice(deviceId);
+    }
+  }
+
+  static async createIotDevice(deviceData: IotDeviceInput): Promise<IotDevice | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('iot_devices')
+        .insert(deviceData)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error registering IoT device:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createIotDevice(deviceData);
+    }
+  }
+
+  static async touchIotDevice(deviceId: string): Promise<void> {
+    const updates = { last_seen_at: new Date().toISOString() };
+
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('iot_devices')
+        .update(updates)
+        .eq('device_id', deviceId);
+
+      if (error) {
+        console.error('Error updating IoT device:', error);
+      }
+    } else {
+      FallbackDatabase.updateIotDevice(deviceId, updates);
+    }
+  }
+
+  /**
+   * Record a cumulative hour-meter reading and move the equipment's meter
+   * forward, then check whether that brings it due for service.
+   */
+  static async recordHours(
+    item: Equipment,
+    hours: number,
+    source: MeterReadingSource,
+    recordedBy: string | null,
+    notificationService: NotificationService | null,
+    recordedAt = new Date().toISOString()
+  ): Promise<Equipment | null> {
+    const reading = { hours, source, recorded_by: recordedBy, recorded_at: recordedAt };
+
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('equipment_meter_readings')
+        .insert({ ...reading, equipment_id: item.id });
+
+      if (error) {
+        console.error('Error recording meter reading:', error);
+        return null;
+      }
+    } else if (!FallbackDatabase.createEquipmentMeterReading({ ...reading, equipment_id: item.id })) {
+      return null;
+    }
+
+    const updated = await this.updateEquipment(item.id, { hour_meter: Math.max(item.hour_meter, hours) });
+    if (updated && notificationService) {
+      await this.checkMaintenance(updated, notificationService);
+    }
+    return updated;
+  }
+
+  // Notify once per service interval; recording a service clears the flag
+  static async checkMaintenance(item: Equipment, notificationService: NotificationService): Promise<boolean> {
+    if (item.status === 'retired' || item.maintenance_notified_at) return false;
+
+    const { state } = serviceStatus(item);
+    if (state === 'ok') return false;
+
+    const recipients = new Set<string>(item.created_by ? [item.created_by] : []);
+    if (item.project_id !== null) {
+      const members = await ProjectMembersService.getProjectMembers(item.project_id);
+      members
+        .filter(m => m.role === 'owner' || m.role === 'manager')
+        .forEach(m => recipients.add(m.user_id));
+    }
+
+    for (const userId of recipients) {
+      notificationService.notifyMaintenanceDue(userId, item.name, item.asset_tag, state === 'overdue', item.id, item.project_id ?? undefined);
+    }
+
+    await this.updateEquipment(item.id, { maintenance_notified_at: new Date().toISOString() });
+    return true;
+  }
+
+  // Calendar intervals fall due without any new readings, so they're checked on a timer
+  static async notifyMaintenanceDue(notificationService: NotificationService): Promise<number> {
+    const items = await this.getEquipmentList();
+    let notified = 0;
+
+    for (const item of items) {
+      if (await this.checkMaintenance(item, notificationService)) {
+        notified++;
+      }
+    }
+
+    return notified;
+  }
+
+  static withService(item: Equipment): EquipmentWithService {
+    return { ...item, service: serviceStatus(item) };
+  }
+}
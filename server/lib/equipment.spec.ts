@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { calculateUtilization, certificateStatus, serviceStatus, ServiceSchedule } from "./equipment";
+import { fixture } from "../test-utils";
+
+const schedule = fixture<ServiceSchedule>({
+  hour_meter: 0,
+  service_interval_hours: 250,
+  service_interval_days: null,
+  last_service_hours: 0,
+  last_service_date: null,
+});
+
+describe("serviceStatus", () => {
+  it("should count hours since the last service against the interval", () => {
+    expect(serviceStatus(schedule({ hour_meter: 1100, last_service_hours: 1000 }))).toMatchObject({
+      hoursSinceService: 100,
+      hoursRemaining: 150,
+      state: "ok",
+    });
+    expect(serviceStatus(schedule({ hour_meter: 1230, last_service_hours: 1000 })).state).toBe("due_soon");
+    expect(serviceStatus(schedule({ hour_meter: 1260, last_service_hours: 1000 })).state).toBe("overdue");
+  });
+
+  it("should fall due on the calendar interval when that comes first", () => {
+    const status = serviceStatus(
+      schedule({ hour_meter: 10, service_interval_days: 90, last_service_date: "2024-01-01" }),
+      "2024-03-28"
+    );
+    expect(status.nextServiceDate).toBe("2024-03-31");
+    expect(status.state).toBe("due_soon");
+    expect(serviceStatus(schedule({ service_interval_days: 90, last_service_date: "2024-01-01" }), "2024-04-01").state).toBe("overdue");
+  });
+
+  it("should be ok with no interval set", () => {
+    expect(serviceStatus(schedule({ service_interval_hours: null, hour_meter: 5000 })).state).toBe("ok");
+  });
+});
+
+describe("certificateStatus", () => {
+  it("should warn within 30 days of expiry", () => {
+    expect(certificateStatus("2024-06-30", "2024-05-01")).toBe("valid");
+    expect(certificateStatus("2024-05-20", "2024-05-01")).toBe("expiring");
+    expect(certificateStatus("2024-04-30", "2024-05-01")).toBe("expired");
+    expect(certificateStatus(null, "2024-05-01")).toBe("valid");
+  });
+});
+
+describe("calculateUtilization", () => {
+  it("should divide metered hours by the working hours in the period", () => {
+    const readings = [
+      { hours: 100, recorded_at: "2024-03-09T17:00:00Z" },
+      { hours: 106, recorded_at: "2024-03-10T17:00:00Z" },
+      { hours: 112, recorded_at: "2024-03-11T17:00:00Z" },
+    ];
+    expect(calculateUtilization(readings, "2024-03-10", "2024-03-11")).toBe(0.75);
+    expect(calculateUtilization(readings, "2024-03-12", "2024-03-13")).toBe(0);
+  });
+});
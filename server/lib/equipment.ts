@@ -0,0 +1,97 @@
+/**
+ * Plant and equipment rules: service falls due by hour-meter or calendar
+ * interval, whichever comes first; inspection certificates warn before they
+ * expire; utilization is metered hours over an 8-hour working day.
+ */
+
+export type EquipmentStatus = 'available' | 'in_use' | 'maintenance' | 'retired';
+export type MeterReadingSource = 'manual' | 'telemetry' | 'service';
+export type ServiceState = 'ok' | 'due_soon' | 'overdue';
+export type CertificateState = 'valid' | 'expiring' | 'expired';
+
+// Warn when less than this share of the hour interval is left
+export const SERVICE_DUE_SOON_RATIO = 0.1;
+export const SERVICE_DUE_SOON_DAYS = 7;
+export const CERTIFICATE_EXPIRY_WARNING_DAYS = 30;
+export const WORKING_HOURS_PER_DAY = 8;
+
+export interface ServiceSchedule {
+  hour_meter: number;
+  service_interval_hours: number | null;
+  service_interval_days: number | null;
+  last_service_hours: number;
+  last_service_date: string | null;
+}
+
+export interface ServiceStatus {
+  hoursSinceService: number;
+  hoursRemaining: number | null;
+  nextServiceDate: string | null;
+  state: ServiceState;
+}
+
+export interface MeterReading {
+  hours: number;
+  recorded_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const toDate = (value: string | Date) => new Date(value).toISOString().split('T')[0];
+
+const addDays = (date: string, days: number) => toDate(new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS));
+
+const daysUntil = (date: string, today: string) =>
+  Math.round((new Date(`${date}T00:00:00Z`).getTime() - new Date(`${today}T00:00:00Z`).getTime()) / DAY_MS);
+
+const worse = (a: ServiceState, b: ServiceState): ServiceState => {
+  const order: ServiceState[] = ['ok', 'due_soon', 'overdue'];
+  return order[Math.max(order.indexOf(a), order.indexOf(b))];
+};
+
+export function serviceStatus(equipment: ServiceSchedule, today: string | Date = new Date()): ServiceStatus {
+  const hoursSinceService = round1(Math.max(0, equipment.hour_meter - equipment.last_service_hours));
+  let state: ServiceState = 'ok';
+
+  let hoursRemaining: number | null = null;
+  if (equipment.service_interval_hours) {
+    hoursRemaining = round1(equipment.service_interval_hours - hoursSinceService);
+    state = hoursRemaining <= 0 ? 'overdue'
+      : hoursRemaining <= equipment.service_interval_hours * SERVICE_DUE_SOON_RATIO ? 'due_soon'
+      : 'ok';
+  }
+
+  let nextServiceDate: string | null = null;
+  if (equipment.service_interval_days && equipment.last_service_date) {
+    nextServiceDate = addDays(toDate(equipment.last_service_date), equipment.service_interval_days);
+    const days = daysUntil(nextServiceDate, toDate(today));
+    state = worse(state, days <= 0 ? 'overdue' : days <= SERVICE_DUE_SOON_DAYS ? 'due_soon' : 'ok');
+  }
+
+  return { hoursSinceService, hoursRemaining, nextServiceDate, state };
+}
+
+export function certificateStatus(expiryDate: string | null, today: string | Date = new Date()): CertificateState {
+  if (!expiryDate) return 'valid';
+  const days = daysUntil(toDate(expiryDate), toDate(today));
+  return days < 0 ? 'expired' : days <= CERTIFICATE_EXPIRY_WARNING_DAYS ? 'expiring' : 'valid';
+}
+
+/**
+ * Metered hours between two dates as a share of the working hours in that
+ * period. Readings are cumulative hour-meter values, so usage is the rise
+ * from the last reading before the period to the last reading in it.
+ */
+export function calculateUtilization(readings: MeterReading[], from: string, to: string): number | null {
+  const days = daysUntil(toDate(to), toDate(from)) + 1;
+  if (days <= 0) return null;
+
+  const sorted = [...readings].sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+  const before = sorted.filter(r => toDate(r.recorded_at) < toDate(from));
+  const within = sorted.filter(r => toDate(r.recorded_at) >= toDate(from) && toDate(r.recorded_at) <= toDate(to));
+  if (within.length === 0) return 0;
+
+  const start = before.length > 0 ? before[before.length - 1].hours : within[0].hours;
+  const used = Math.max(0, within[within.length - 1].hours - start);
+  return Math.round((used / (days * WORKING_HOURS_PER_DAY)) * 100) / 100;
+}
@@ -0,0 +1,217 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { buildEvmSeries, calculateEarnedValue, EarnedValueMetrics, EvmSeriesPoint } from './evm';
+
+export type ProjectBaseline = Database['public']['Tables']['project_baselines']['Row'];
+export type EvmSnapshotRecord = Database['public']['Tables']['project_evm_snapshots']['Row'];
+
+export interface ProjectEarnedValue {
+  projectId: number;
+  baseline: Pick<ProjectBaseline, 'id' | 'name' | 'budget_at_completion' | 'created_at'>;
+  metrics: EarnedValueMetrics;
+  series: EvmSeriesPoint[];
+  snapshotCount: number;
+}
+
+export class EvmService {
+  static async getBaselines(projectId: number): Promise<ProjectBaseline[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_baselines')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching baselines:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getProjectBaselines(projectId);
+    }
+  }
+
+  static async getActiveBaseline(projectId: number): Promise<ProjectBaseline | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_baselines')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('is_active', true)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getActiveBaseline(projectId);
+    }
+  }
+
+  static async createBaseline(
+    projectId: number,
+    baselineData: Pick<ProjectBaseline, 'name' | 'budget_at_completion' | 'periods' | 'created_by'>
+  ): Promise<ProjectBaseline | null> {
+    if (isSupabaseConfigured()) {
+      // A new baseline supersedes the current one
+      const { error: deactivateError } = await supabase
+        .from('project_baselines')
+        .update({ is_active: false })
+        .eq('project_id', projectId)
+        .eq('is_active', true);
+
+      if (deactivateError) {
+        console.error('Error superseding baseline:', deactivateError);
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('project_baselines')
+        .insert({ ...baselineData, project_id: projectId, is_active: true })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating baseline:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createProjectBaseline(projectId, baselineData);
+    }
+  }
+
+  static async getSnapshots(projectId: number): Promise<EvmSnapshotRecord[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_evm_snapshots')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('snapshot_date', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching EVM snapshots:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getEvmSnapshots(projectId);
+    }
+  }
+
+  static async recordSnapshot(
+    projectId: number,
+    snapshotData: Pick<EvmSnapshotRecord, 'snapshot_date' | 'actual_cost' | 'percent_complete' | 'notes' | 'recorded_by'>
+  ): Promise<EvmSnapshotRecord | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_evm_snapshots')
+        .upsert({ ...snapshotData, project_id: projectId }, { onConflict: 'project_id,snapshot_date' })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error recording EVM snapshot:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.upsertEvmSnapshot(projectId, snapshotData);
+    }
+  }
+
+  static async deleteSnapshot(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('project_evm_snapshots')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting EVM snapshot:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteEvmSnapshot(projectId, id);
+    }
+  }
+
+  /**
+   * Earned value for a project against its active baseline, using the
+   * latest snapshot. Null when the project has no baseline yet.
+   */
+  static async getProjectEarnedValue(projectId: number): Promise<ProjectEarnedValue | null> {
+    const [baseline, snapshots] = await Promise.all([
+      this.getActiveBaseline(projectId),
+      this.getSnapshots(projectId),
+    ]);
+
+    if (!baseline) {
+      return null;
+    }
+
+    const bac = Number(baseline.budget_at_completion);
+    const latest = snapshots.length > 0 ? snapshots[snapshots.length - 1] : null;
+
+    return {
+      projectId,
+      baseline: {
+        id: baseline.id,
+        name: baseline.name,
+        budget_at_completion: bac,
+        created_at: baseline.created_at,
+      },
+      metrics: calculateEarnedValue(bac, baseline.periods, latest),
+      series: buildEvmSeries(bac, baseline.periods, snapshots),
+      snapshotCount: snapshots.length,
+    };
+  }
+
+  /**
+   * Store the computed CPI/SPI on the project row so list views and
+   * portfolio rollups use derived indices rather than typed-in ones.
+   */
+  static async syncProjectIndices(projectId: number): Promise<EarnedValueMetrics | null> {
+    const earnedValue = await this.getProjectEarnedValue(projectId);
+    if (!earnedValue) {
+      return null;
+    }
+
+    const { metrics, snapshotCount } = earnedValue;
+    const updates: Partial<Database['public']['Tables']['projects']['Update']> = {
+      cpi: metrics.cpi ?? 1,
+      spi: metrics.spi ?? 1,
+    };
+    // Spent is left alone: it is the running total of booked costs such as
+    // approved labour, while a snapshot's actual cost is a point-in-time figure
+    if (snapshotCount > 0) {
+      updates.progress = Math.round(metrics.percentComplete);
+    }
+
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('projects')
+        .update(updates)
+        .eq('id', projectId);
+
+      if (error) {
+        console.error('Error syncing project indices:', error);
+      }
+    } else {
+      FallbackDatabase.updateProject(projectId, updates);
+    }
+
+    return metrics;
+  }
+}
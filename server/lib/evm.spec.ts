@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { calculateEarnedValue, plannedValueAt, generateBaselinePeriods } from "./evm";
+import { EvmService } from "./evm-service";
+import { TimesheetService } from "./timesheets-service";
+import { FallbackDatabase } from "./database-fallback";
+
+const periods = [
+  { date: "2024-01-01", plannedValue: 0 },
+  { date: "2024-01-11", plannedValue: 50000 },
+  { date: "2024-01-21", plannedValue: 100000 },
+];
+
+describe("plannedValueAt", () => {
+  it("should interpolate between baseline periods", () => {
+    expect(plannedValueAt(periods, "2023-12-01")).toBe(0);
+    expect(plannedValueAt(periods, "2024-01-06")).toBe(25000);
+    expect(plannedValueAt(periods, "2024-03-01")).toBe(100000);
+  });
+});
+
+describe("calculateEarnedValue", () => {
+  it("should derive indices and forecasts from the snapshot", () => {
+    const metrics = calculateEarnedValue(100000, periods, {
+      snapshot_date: "2024-01-11",
+      actual_cost: 50000,
+      percent_complete: 40,
+    });
+
+    expect(metrics.pv).toBe(50000);
+    expect(metrics.ev).toBe(40000);
+    expect(metrics.cpi).toBe(0.8);
+    expect(metrics.spi).toBe(0.8);
+    expect(metrics.eac).toBe(125000);
+    expect(metrics.etc).toBe(75000);
+    expect(metrics.vac).toBe(-25000);
+  });
+
+  it("should leave indices empty without actuals", () => {
+    const metrics = calculateEarnedValue(100000, periods, null, "2024-01-11");
+    expect(metrics.cpi).toBeNull();
+    expect(metrics.eac).toBeNull();
+  });
+});
+
+describe("generateBaselinePeriods", () => {
+  it("should end at the budget at completion", () => {
+    const generated = generateBaselinePeriods(70000, { startDate: "2024-01-01", endDate: "2024-01-14" });
+    expect(generated[0]).toEqual({ date: "2024-01-01", plannedValue: 0 });
+    expect(generated[1]).toEqual({ date: "2024-01-08", plannedValue: 35000 });
+    expect(generated[generated.length - 1]).toEqual({ date: "2024-01-15", plannedValue: 70000 });
+  });
+});
+
+describe("EvmService.syncProjectIndices", () => {
+  it("should keep approved labour in spent when a snapshot is recorded", async () => {
+    const project = FallbackDatabase.createProject({ name: "Depot", budget: 100000, start_date: "2024-01-01", end_date: "2024-01-21" }, "user-1");
+    await EvmService.createBaseline(project.id, { name: "Original", budget_at_completion: 100000, periods, created_by: "user-1" });
+
+    expect(await TimesheetService.addLabourToProjectSpent(project.id, 1200.5)).toBe(1200.5);
+    await EvmService.recordSnapshot(project.id, { snapshot_date: "2024-01-11", actual_cost: 40000, percent_complete: 45, notes: null, recorded_by: "user-1" });
+    const metrics = await EvmService.syncProjectIndices(project.id);
+
+    expect(metrics?.ac).toBe(40000);
+    const synced = FallbackDatabase.getProjectById(project.id)!;
+    expect(synced.spent).toBe(1200.5);
+    expect(synced.progress).toBe(45);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Earned Value Management
+ * Derives PV, EV, AC and the performance indices from a time-phased
+ * baseline and the latest actual-cost/progress snapshot.
+ */
+
+export interface BaselinePeriod {
+  date: string;
+  plannedValue: number;
+}
+
+export interface EvmSnapshot {
+  snapshot_date: string;
+  actual_cost: number;
+  percent_complete: number;
+}
+
+export interface EarnedValueMetrics {
+  asOf: string;
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+  cv: number;
+  sv: number;
+  cpi: number | null;
+  spi: number | null;
+  eac: number | null;
+  etc: number | null;
+  vac: number | null;
+  tcpi: number | null;
+  percentComplete: number;
+  percentPlanned: number;
+}
+
+export interface EvmSeriesPoint {
+  date: string;
+  PV: number;
+  EV: number | null;
+  AC: number | null;
+}
+
+const round = (value: number, places = 2) => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+const dayOf = (value: string) => new Date(value.split('T')[0]).getTime();
+
+/**
+ * Cumulative planned value at a date, interpolating linearly between
+ * baseline periods. Zero before the first period, flat after the last.
+ */
+export function plannedValueAt(periods: BaselinePeriod[], date: string): number {
+  if (periods.length === 0) return 0;
+
+  const sorted = [...periods].sort((a, b) => dayOf(a.date) - dayOf(b.date));
+  const target = dayOf(date);
+
+  if (target < dayOf(sorted[0].date)) return 0;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const current = sorted[i];
+    const next = sorted[i + 1];
+    if (!next || target < dayOf(next.date)) {
+      if (!next) return current.plannedValue;
+      const span = dayOf(next.date) - dayOf(current.date);
+      const fraction = span > 0 ? (target - dayOf(current.date)) / span : 0;
+      return current.plannedValue + (next.plannedValue - current.plannedValue) * fraction;
+    }
+  }
+
+  return sorted[sorted.length - 1].plannedValue;
+}
+
+export function calculateEarnedValue(
+  bac: number,
+  periods: BaselinePeriod[],
+  snapshot: EvmSnapshot | null,
+  asOf?: string
+): EarnedValueMetrics {
+  const date = snapshot?.snapshot_date || asOf || new Date().toISOString();
+  const pv = plannedValueAt(periods, date);
+  const ev = snapshot ? bac * (snapshot.percent_complete / 100) : 0;
+  const ac = snapshot ? snapshot.actual_cost : 0;
+
+  const cpi = ac > 0 ? ev / ac : null;
+  const spi = pv > 0 ? ev / pv : null;
+  // Typical EAC: remaining work continues at the current cost efficiency
+  const eac = cpi ? bac / cpi : null;
+  const remainingBudget = bac - ac;
+
+  return {
+    asOf: date.split('T')[0],
+    bac: round(bac),
+    pv: round(pv),
+    ev: round(ev),
+    ac: round(ac),
+    cv: round(ev - ac),
+    sv: round(ev - pv),
+    cpi: cpi !== null ? round(cpi, 3) : null,
+    spi: spi !== null ? round(spi, 3) : null,
+    eac: eac !== null ? round(eac) : null,
+    etc: eac !== null ? round(eac - ac) : null,
+    vac: eac !== null ? round(bac - eac) : null,
+    tcpi: remainingBudget > 0 ? round((bac - ev) / remainingBudget, 3) : null,
+    percentComplete: snapshot ? snapshot.percent_complete : 0,
+    percentPlanned: bac > 0 ? round((pv / bac) * 100, 1) : 0,
+  };
+}
+
+/**
+ * Chart series: planned value at every baseline period, with EV and AC
+ * filled in from the snapshot in effect on each date.
+ */
+export function buildEvmSeries(bac: number, periods: BaselinePeriod[], snapshots: EvmSnapshot[]): EvmSeriesPoint[] {
+  const sortedSnapshots = [...snapshots].sort((a, b) => dayOf(a.snapshot_date) - dayOf(b.snapshot_date));
+  const dates = Array.from(new Set([
+    ...periods.map(period => period.date.split('T')[0]),
+    ...sortedSnapshots.map(snapshot => snapshot.snapshot_date.split('T')[0]),
+  ])).sort((a, b) => dayOf(a) - dayOf(b));
+
+  const lastSnapshot = sortedSnapshots[sortedSnapshots.length - 1];
+
+  return dates.map(date => {
+    const inEffect = sortedSnapshots.filter(snapshot => dayOf(snapshot.snapshot_date) <= dayOf(date)).pop();
+    // Actuals stop at the latest snapshot; the rest of the baseline is plan only
+    const hasActuals = !!inEffect && dayOf(date) <= dayOf(lastSnapshot.snapshot_date);
+
+    return {
+      date,
+      PV: Math.round(plannedValueAt(periods, date)),
+      EV: hasActuals ? Math.round(bac * (inEffect.percent_complete / 100)) : null,
+      AC: hasActuals ? Math.round(inEffect.actual_cost) : null,
+    };
+  });
+}
+
+/**
+ * Spread a budget into a weekly cumulative planned-value curve. Each
+ * scheduled task contributes in proportion to its duration, spread evenly
+ * across its scheduled dates; without tasks the budget is spread linearly
+ * between the start and end dates.
+ */
+export function generateBaselinePeriods(
+  bac: number,
+  source:
+    | { tasks: { scheduled_start: string | null; scheduled_end: string | null; duration: number }[] }
+    | { startDate: string; endDate: string }
+): BaselinePeriod[] {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const dailyPlan = new Map<number, number>();
+
+  if ('tasks' in source) {
+    const scheduled = source.tasks.filter(task => task.scheduled_start && task.scheduled_end && task.duration > 0);
+    const totalDuration = scheduled.reduce((sum, task) => sum + task.duration, 0);
+    for (const task of scheduled) {
+      const share = bac * (task.duration / totalDuration);
+      const start = dayOf(task.scheduled_start!);
+      const end = dayOf(task.scheduled_end!);
+      const days = Math.round((end - start) / DAY_MS) + 1;
+      for (let i = 0; i < days; i++) {
+        const day = start + i * DAY_MS;
+        dailyPlan.set(day, (dailyPlan.get(day) || 0) + share / days);
+      }
+    }
+  } else {
+    const start = dayOf(source.startDate);
+    const end = dayOf(source.endDate);
+    const days = Math.max(1, Math.round((end - start) / DAY_MS) + 1);
+    for (let i = 0; i < days; i++) {
+      dailyPlan.set(start + i * DAY_MS, bac / days);
+    }
+  }
+
+  if (dailyPlan.size === 0) return [];
+
+  const days = Array.from(dailyPlan.keys()).sort((a, b) => a - b);
+  const first = days[0];
+  const last = days[days.length - 1];
+  const periods: BaselinePeriod[] = [{ date: new Date(first).toISOString().split('T')[0], plannedValue: 0 }];
+
+  let cumulative = 0;
+  let periodEnd = first + 7 * DAY_MS;
+  for (let day = first; day <= last; day += DAY_MS) {
+    cumulative += dailyPlan.get(day) || 0;
+    if (day + DAY_MS >= periodEnd || day === last) {
+      periods.push({
+        date: new Date(Math.min(periodEnd, last + DAY_MS)).toISOString().split('T')[0],
+        plannedValue: round(day === last ? bac : cumulative),
+      });
+      periodEnd += 7 * DAY_MS;
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * Portfolio rollup. Indices are ratios of the summed values, so larger
+ * projects weigh more than a plain average of per-project CPI/SPI would.
+ */
+export function aggregateEarnedValue(metrics: EarnedValueMetrics[]) {
+  const sum = (pick: (m: EarnedValueMetrics) => number) => metrics.reduce((total, m) => total + pick(m), 0);
+
+  const bac = sum(m => m.bac);
+  const pv = sum(m => m.pv);
+  const ev = sum(m => m.ev);
+  const ac = sum(m => m.ac);
+  // Projects without actuals yet are expected to land on budget
+  const eac = sum(m => m.eac ?? m.bac);
+
+  return {
+    projectCount: metrics.length,
+    bac: round(bac),
+    pv: round(pv),
+    ev: round(ev),
+    ac: round(ac),
+    cv: round(ev - ac),
+    sv: round(ev - pv),
+    cpi: ac > 0 ? round(ev / ac, 3) : null,
+    spi: pv > 0 ? round(ev / pv, 3) : null,
+    eac: round(eac),
+    etc: round(eac - ac),
+    vac: round(bac - eac),
+  };
+}
@@ -0,0 +1,118 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { Converter, createConverter } from './currency';
+
+export type ExchangeRate = Database['public']['Tables']['exchange_rates']['Row'];
+export type ExchangeRateInput = Pick<ExchangeRate, 'base_currency' | 'quote_currency' | 'rate' | 'effective_date' | 'created_by'>;
+export type ExchangeRateUpdate = Partial<Pick<ExchangeRate, 'rate' | 'effective_date'>>;
+
+export class ExchangeRatesService {
+  // By pair, newest first
+  static async getExchangeRates(filters: { base?: string; quote?: string } = {}): Promise<ExchangeRate[]> {
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('base_currency')
+        .order('quote_currency')
+        .order('effective_date', { ascending: false });
+      if (filters.base) {
+        query = query.eq('base_currency', filters.base);
+      }
+      if (filters.quote) {
+        query = query.eq('quote_currency', filters.quote);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching exchange rates:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getExchangeRates(filters);
+    }
+  }
+
+  static async getExchangeRate(id: number): Promise<ExchangeRate | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getExchangeRate(id);
+    }
+  }
+
+  static async createExchangeRate(rateData: ExchangeRateInput): Promise<ExchangeRate | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .insert(rateData)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating exchange rate:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createExchangeRate(rateData);
+    }
+  }
+
+  static async updateExchangeRate(id: number, updates: ExchangeRateUpdate): Promise<ExchangeRate | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating exchange rate:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateExchangeRate(id, updates);
+    }
+  }
+
+  static async deleteExchangeRate(id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting exchange rate:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteExchangeRate(id);
+    }
+  }
+
+  /** Converts into `currency` at the rates in effect on `date` (today by default). */
+  static async getConverter(currency: string, date = new Date().toISOString()): Promise<Converter> {
+    return createConverter(await this.getExchangeRates(), currency, date);
+  }
+}
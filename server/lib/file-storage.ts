@@ -4,6 +4,7 @@
 import path from 'path';
 import fs from 'fs/promises';
 import { v4 as uuidv4 } from 'uuid';
+import { extractText } from './document-text';
 
 export interface FileMetadata {
   id: string;
@@ -13,6 +14,7 @@ export interface FileMetadata {
   size: number;
   userId: string;
   projectId?: number;
+  folder?: string;
   uploadedAt: string;
   url: string;
 }
@@ -36,6 +38,8 @@ export class FileStorageService {
   ];
 
   private static files: Map<string, FileMetadata> = new Map();
+  // Searchable text of documents, extracted once on upload
+  private static texts: Map<string, string> = new Map();
 
   static async initialize() {
     try {
@@ -51,7 +55,8 @@ export class FileStorageService {
     originalName: string,
     mimeType: string,
     userId: string,
-    projectId?: number
+    projectId?: number,
+    folder?: string
   ): Promise<FileMetadata> {
     // Validate file
     if (buffer.length > this.maxFileSize) {
@@ -80,12 +85,14 @@ export class FileStorageService {
       size: buffer.length,
       userId,
       projectId,
+      folder,
       uploadedAt: new Date().toISOString(),
       url: `/api/files/${fileId}`,
     };
 
     // Store metadata
     this.files.set(fileId, metadata);
+    this.texts.set(fileId, extractText(buffer, mimeType));
 
     return metadata;
   }
@@ -107,9 +114,14 @@ export class FileStorageService {
     }
   }
 
-  static async deleteFile(fileId: string, userId: string): Promise<boolean> {
+  static getFileMetadata(fileId: string): FileMetadata | null {
+    return this.files.get(fileId) || null;
+  }
+
+  // Callers are responsible for checking the user may delete this file
+  static async deleteFile(fileId: string): Promise<boolean> {
     const metadata = this.files.get(fileId);
-    if (!metadata || metadata.userId !== userId) {
+    if (!metadata) {
       return false;
     }
 
@@ -117,6 +129,7 @@ export class FileStorageService {
       const filePath = path.join(this.uploadDir, metadata.fileName);
       await fs.unlink(filePath);
       this.files.delete(fileId);
+      this.texts.delete(fileId);
       return true;
     } catch (error) {
       console.error('Error deleting file:', error);
@@ -138,7 +151,18 @@ export class FileStorageService {
     );
   }
 
-  static getProjectFiles(projectId: number, userId: string): FileMetadata[] {
-    return this.getUserFiles(userId, projectId);
+  // All files attached to a project, regardless of who uploaded them
+  static getProjectFiles(projectId: number): FileMetadata[] {
+    return Array.from(this.files.values())
+      .filter(file => file.projectId === projectId)
+      .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+  }
+
+  static getAllFiles(): FileMetadata[] {
+    return Array.from(this.files.values());
+  }
+
+  static getFileText(fileId: string): string {
+    return this.texts.get(fileId) ?? '';
   }
 }
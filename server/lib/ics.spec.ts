@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { buildIcs, IcsError, parseIcs } from "./ics";
+
+describe("parseIcs", () => {
+  it("should read all-day events as inclusive day ranges", () => {
+    const file = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "BEGIN:VEVENT",
+      "UID:boxing-day-2024@gov.uk",
+      "DTSTART;VALUE=DATE:20241226",
+      "DTEND;VALUE=DATE:20241227",
+      "SUMMARY:Boxing Day",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;TZID=\"Europe/London\":20241223T000000",
+      "DURATION:P3D",
+      "SUMMARY:Site shutdown\\, Christmas",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    expect(parseIcs(file)).toEqual([
+      { uid: "boxing-day-2024@gov.uk", summary: "Boxing Day", start_date: "2024-12-26", end_date: "2024-12-26" },
+      { uid: null, summary: "Site shutdown, Christmas", start_date: "2024-12-23", end_date: "2024-12-25" },
+    ]);
+  });
+
+  it("should unfold long lines and reject files that aren't calendars", () => {
+    const file = "BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART:20250101\nSUMMARY:New Year\n 's Day\nEND:VEVENT\nEND:VCALENDAR";
+    expect(parseIcs(file)[0].summary).toBe("New Year's Day");
+    expect(() => parseIcs("name,date\nNew Year,2025-01-01")).toThrow(IcsError);
+  });
+});
+
+describe("buildIcs", () => {
+  it("should escape text, fold long lines and make all-day ends exclusive", () => {
+    const ics = buildIcs("Tower; milestones", [
+      { uid: "task-1@example", summary: "Topping out, level 12", start: "2025-03-14", end: "2025-03-14", allDay: true },
+      {
+        uid: "task-2@example",
+        summary: "Fire inspection",
+        start: "2025-03-17T08:00:00.000Z",
+        end: "2025-03-17T17:00:00.000Z",
+        allDay: false,
+        description: "x".repeat(100),
+      },
+    ], new Date("2025-01-01T00:00:00.000Z"));
+    const lines = ics.split("\r\n");
+
+    expect(lines).toContain("X-WR-CALNAME:Tower\\; milestones");
+    expect(lines).toContain("SUMMARY:Topping out\\, level 12");
+    expect(lines).toContain("DTEND;VALUE=DATE:20250315");
+    expect(lines).toContain("DTSTART:20250317T080000Z");
+    expect(lines).toContain("DTSTAMP:20250101T000000Z");
+    expect(lines.every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(parseIcs(ics).map(event => [event.summary, event.start_date, event.end_date])).toEqual([
+      ["Topping out, level 12", "2025-03-14", "2025-03-14"],
+      ["Fire inspection", "2025-03-17", "2025-03-17"],
+    ]);
+  });
+});
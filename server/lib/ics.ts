@@ -0,0 +1,186 @@
+/**
+ * iCalendar (RFC 5545)
+ * Just enough of the format to publish events as a subscription feed and to
+ * read public holidays out of the ICS files that government and payroll
+ * calendars export.
+ */
+
+export class IcsError extends Error {}
+
+// An event read from a file; dates are whole days, end inclusive
+export interface IcsEvent {
+  uid: string | null;
+  summary: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface IcsFeedEvent {
+  uid: string;
+  summary: string;
+  // YYYY-MM-DD for all-day events, an ISO timestamp otherwise
+  start: string;
+  end: string;
+  allDay: boolean;
+  description?: string | null;
+  location?: string | null;
+  categories?: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LINE_OCTETS = 75;
+
+const shiftDay = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+
+// Long lines continue on the next line after a single space or tab
+const unfold = (text: string): string[] =>
+  text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// NAME;PARAM=x:VALUE, where a quoted parameter may itself contain a colon
+const parseLine = (line: string): { name: string; value: string } | null => {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      return { name: line.slice(0, i).split(';')[0].toUpperCase(), value: line.slice(i + 1) };
+    }
+  }
+  return null;
+};
+
+// The calendar day of a DATE or DATE-TIME value; times and zones don't matter for whole days
+const parseDay = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z?)?$/.exec(value.trim());
+  if (!match) return null;
+  const day = `${match[1]}-${match[2]}-${match[3]}`;
+  return new Date(`${day}T00:00:00Z`).toISOString().startsWith(day) ? day : null;
+};
+
+/**
+ * Read the events of a calendar file as whole-day ranges. An all-day DTEND
+ * is exclusive, so a one-day holiday ends on the day it starts.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  const lines = unfold(text);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new IcsError('The file is not an iCalendar (.ics) file');
+  }
+
+  const events: IcsEvent[] = [];
+  let current: { uid: string | null; summary: string; start: string | null; end: string | null; endIsDate: boolean; duration: string | null } | null = null;
+
+  for (const [index, line] of lines.entries()) {
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = { uid: null, summary: '', start: null, end: null, endIsDate: false, duration: null };
+      continue;
+    }
+    if (!current) continue;
+
+    if (upper === 'END:VEVENT') {
+      if (!current.start) throw new IcsError(`An event ending on line ${index + 1} has no valid DTSTART`);
+      let end = current.end;
+      if (end && current.endIsDate) {
+        end = shiftDay(end, -1);
+      } else if (!end && current.duration) {
+        const days = /^P(\d+)D$/.exec(current.duration)?.[1];
+        end = days ? shiftDay(current.start, Math.max(Number(days) - 1, 0)) : null;
+      }
+      events.push({
+        uid: current.uid,
+        summary: current.summary,
+        start_date: current.start,
+        end_date: end && end >= current.start ? end : current.start,
+      });
+      current = null;
+      continue;
+    }
+
+    const property = parseLine(line);
+    if (!property) continue;
+    switch (property.name) {
+      case 'UID':
+        current.uid = property.value.trim() || null;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(property.value).trim();
+        break;
+      case 'DTSTART':
+        current.start = parseDay(property.value);
+        break;
+      case 'DTEND':
+        current.end = parseDay(property.value);
+        // A bare date is a DATE value, whether or not VALUE=DATE says so
+        current.endIsDate = /^\d{8}$/.test(property.value.trim());
+        break;
+      case 'DURATION':
+        current.duration = property.value.trim().toUpperCase();
+        break;
+    }
+  }
+
+  return events;
+}
+
+// Fold at 75 octets without splitting a multi-byte character
+const fold = (line: string): string => {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+};
+
+const formatDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const formatDateTime = (value: string) =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** Render events as a calendar a client can subscribe to. */
+export function buildIcs(name: string, events: IcsFeedEvent[], now: Date = new Date()): string {
+  const stamp = formatDateTime(now.toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Construction Platform//Project Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+    if (event.allDay) {
+      // All-day ends are exclusive
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(shiftDay(event.end.slice(0, 10), 1))}`);
+    } else {
+      lines.push(`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
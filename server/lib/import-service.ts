@@ -0,0 +1,64 @@
+import { Database } from './types';
+import { Material, Project, ProjectsService } from './projects-service';
+import { TrashService } from './trash-service';
+
+type DbProject = Database['public']['Tables']['projects']['Row'];
+
+export type ProjectImportRow = Pick<DbProject, 'name' | 'budget'> & Partial<Pick<DbProject, 'client' | 'location' | 'start_date' | 'end_date' | 'contractor' | 'currency'>>;
+
+export interface MaterialImportRow {
+  name: string;
+  current_stock: number;
+  total_required: number;
+  cost: number;
+  supplier_id: number;
+  // Defaults to the project's currency
+  currency?: string;
+}
+
+/**
+ * Creates imported rows all or nothing. The database client can't hold a
+ * transaction across inserts, so a failed row purges everything created
+ * before it.
+ */
+export class ImportService {
+  static async importProjects(rows: ProjectImportRow[], userId: string): Promise<Project[] | null> {
+    return this.createAll(
+      rows,
+      row => ProjectsService.createProject(row, userId),
+      id => TrashService.purgeProject(id)
+    );
+  }
+
+  static async importMaterials(projectId: number, rows: MaterialImportRow[], userId: string): Promise<Material[] | null> {
+    return this.createAll(
+      rows,
+      row => ProjectsService.createMaterial(row, projectId, userId),
+      id => TrashService.purgeMaterial(id)
+    );
+  }
+
+  private static async createAll<Row, T extends { id: number }>(
+    rows: Row[],
+    create: (row: Row) => Promise<T | null>,
+    purge: (id: number) => Promise<boolean>
+  ): Promise<T[] | null> {
+    const created: T[] = [];
+    try {
+      for (const [index, row] of rows.entries()) {
+        const item = await create(row);
+        if (!item) {
+          throw new Error(`Row ${index + 1} could not be created`);
+        }
+        created.push(item);
+      }
+      return created;
+    } catch (error) {
+      console.error('Error importing rows, rolling back:', error);
+      for (const item of created) {
+        await purge(item.id);
+      }
+      return null;
+    }
+  }
+}
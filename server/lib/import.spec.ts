@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { deflateRawSync } from "zlib";
+import { parseCsv } from "./csv";
+import { MAX_ENTRY_SIZE, readXlsx } from "./xlsx";
+import { mapRows, mappingErrors, parseDate, parseNumber, parseSpreadsheet, suggestMapping } from "./import";
+
+// A zip with the sheet deflated and everything else stored, as spreadsheet apps write them
+const buildXlsx = (files: Record<string, string>, declaredSheetSize?: number): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content, "utf8");
+    const deflate = name.includes("worksheets");
+    const data = deflate ? deflateRawSync(raw) : raw;
+    const nameBuffer = Buffer.from(name, "utf8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    locals.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(deflate && declaredSheetSize !== undefined ? declaredSheetSize : raw.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+describe("spreadsheet parsing", () => {
+  it("should read quoted CSV cells and skip blank lines", () => {
+    expect(parseCsv('\uFEFFName,Notes\r\n"Rebar, 12mm","Say ""hi""\nthere"\r\n\r\nSand,\n')).toEqual([
+      ["Name", "Notes"],
+      ["Rebar, 12mm", 'Say "hi"\nthere'],
+      ["Sand", ""],
+    ]);
+    expect(parseCsv("Name;Cost\nSand;12,5")).toEqual([["Name", "Cost"], ["Sand", "12,5"]]);
+  });
+
+  it("should read the first worksheet of an XLSX file", () => {
+    const buffer = buildXlsx({
+      "xl/workbook.xml": '<workbook><sheets><sheet name="Data" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels": '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      "xl/sharedStrings.xml": '<sst><si><t>Name</t></si><si><t>Budget</t></si><si><r><t>Tower </t></r><r><t>&amp; Annex</t></r></si></sst>',
+      "xl/worksheets/sheet1.xml":
+        '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>45306</v></c><c r="B2"><v>250000</v></c></row>' +
+        '<row r="3"><c r="A3" t="inlineStr"><is><t>Depot</t></is></c><c r="B3"/></row></sheetData></worksheet>',
+    });
+
+    expect(readXlsx(buffer)).toEqual([
+      ["Name", "Budget"],
+      ["Tower & Annex", "250000", "45306"],
+      ["Depot", ""],
+    ]);
+  });
+
+  it("should refuse to inflate an entry past the size limit", () => {
+    const buffer = buildXlsx({
+      "xl/worksheets/sheet1.xml": '<worksheet><sheetData><row r="1"><c r="A1"><v>1</v></c></row></sheetData></worksheet>',
+    }, MAX_ENTRY_SIZE + 1);
+
+    expect(() => parseSpreadsheet(buffer, "projects.xlsx")).toThrow("too large");
+  });
+
+  it("should reject other file types", () => {
+    expect(() => parseSpreadsheet(Buffer.from("x"), "projects.xls")).toThrow("Only CSV and XLSX");
+    expect(() => parseSpreadsheet(Buffer.from("not a zip"), "projects.xlsx")).toThrow("Not a valid XLSX file");
+  });
+});
+
+describe("column mapping", () => {
+  it("should suggest columns from headers and aliases", () => {
+    expect(suggestMapping("materials", ["Item", "Qty Required", "On hand", "Unit price", "Vendor"])).toEqual({
+      name: 0, total_required: 1, current_stock: 2, cost: 3, supplier: 4, currency: null,
+    });
+    expect(mappingErrors("projects", { name: 0, budget: null, colour: 1 }, 2)).toEqual([
+      'Unknown field "colour"', "Budget must be mapped to a column",
+    ]);
+  });
+
+  it("should convert cells and report per-row errors", () => {
+    const rows = mapRows("projects", [
+      ["Tower", "$1,250,000", "2024-03-01"],
+      ["", "12,5", "45306"],
+      ["Depot", "lots", "2024-02-30"],
+    ], { name: 0, budget: 1, start_date: 2 });
+
+    expect(rows[0]).toEqual({ row: 2, data: { name: "Tower", budget: 1250000, start_date: "2024-03-01" }, errors: [] });
+    expect(rows[1].data).toEqual({ budget: 12.5, start_date: "2024-01-15" });
+    expect(rows[1].errors).toEqual([{ row: 3, field: "name", message: "Project name is required" }]);
+    expect(rows[2].errors.map(e => e.field)).toEqual(["budget", "start_date"]);
+  });
+
+  it("should read numbers and dates as people write them", () => {
+    expect(parseNumber("1,234")).toBe(1234);
+    expect(parseNumber("€ 99.90")).toBe(99.9);
+    expect(parseNumber("1.2.3")).toBeNull();
+    expect(parseDate("2024-05-01T00:00:00Z")).toBe("2024-05-01");
+    expect(parseDate("01/05/2024")).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Spreadsheet import
+ * Reads CSV and XLSX files, suggests which column feeds which field and
+ * turns each row into typed values ready for the existing zod schemas.
+ */
+
+import { parseCsv } from './csv';
+import { readXlsx, XlsxError } from './xlsx';
+
+export type ImportEntity = 'projects' | 'materials';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'date';
+  required: boolean;
+  aliases: string[];
+}
+
+// Column index per field key; null leaves the field empty
+export type ImportMapping = Record<string, number | null>;
+
+export interface RowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface MappedRow {
+  row: number;
+  data: Record<string, string | number>;
+  errors: RowError[];
+}
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  projects: [
+    { key: 'name', label: 'Project name', type: 'text', required: true, aliases: ['project', 'project name', 'title'] },
+    { key: 'budget', label: 'Budget', type: 'number', required: true, aliases: ['total budget', 'contract value', 'value'] },
+    { key: 'client', label: 'Client', type: 'text', required: false, aliases: ['customer', 'owner'] },
+    { key: 'location', label: 'Location', type: 'text', required: false, aliases: ['site', 'address'] },
+    { key: 'start_date', label: 'Start date', type: 'date', required: false, aliases: ['start', 'commencement'] },
+    { key: 'end_date', label: 'End date', type: 'date', required: false, aliases: ['end', 'finish', 'completion', 'completion date'] },
+    { key: 'contractor', label: 'Contractor', type: 'text', required: false, aliases: ['main contractor', 'builder'] },
+    { key: 'currency', label: 'Currency', type: 'text', required: false, aliases: ['ccy', 'currency code'] },
+  ],
+  materials: [
+    { key: 'name', label: 'Material name', type: 'text', required: true, aliases: ['material', 'item', 'description'] },
+    { key: 'current_stock', label: 'Current stock', type: 'number', required: true, aliases: ['stock', 'on hand', 'qty on hand'] },
+    { key: 'total_required', label: 'Total required', type: 'number', required: true, aliases: ['required', 'quantity', 'qty', 'qty required'] },
+    { key: 'cost', label: 'Unit cost', type: 'number', required: true, aliases: ['price', 'unit price', 'rate'] },
+    { key: 'supplier', label: 'Supplier (name or ID)', type: 'text', required: true, aliases: ['supplier name', 'supplier id', 'vendor'] },
+    { key: 'currency', label: 'Currency', type: 'text', required: false, aliases: ['ccy', 'currency code'] },
+  ],
+};
+
+export class ImportError extends Error {}
+
+export const parseSpreadsheet = (buffer: Buffer, fileName: string): Spreadsheet => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  let rows: string[][];
+  if (extension === 'csv') {
+    rows = parseCsv(buffer.toString('utf8'));
+  } else if (extension === 'xlsx') {
+    try {
+      rows = readXlsx(buffer);
+    } catch (error) {
+      throw new ImportError(error instanceof XlsxError ? error.message : 'Could not read the XLSX file');
+    }
+  } else {
+    throw new ImportError('Only CSV and XLSX files can be imported');
+  }
+
+  if (rows.length === 0) {
+    throw new ImportError('The file is empty');
+  }
+  if (rows.length - 1 > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const [headers, ...data] = rows;
+  return { headers: headers.map(h => h.trim()), rows: data };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Match headers to fields by key, label or a known alias
+export const suggestMapping = (entity: ImportEntity, headers: string[]): ImportMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ImportMapping = {};
+  const used = new Set<number>();
+
+  for (const field of IMPORT_FIELDS[entity]) {
+    const candidates = [field.key.replace(/_/g, ' '), field.label, ...field.aliases].map(normalizeHeader);
+    const index = normalized.findIndex((header, i) => !used.has(i) && candidates.includes(header));
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+
+  return mapping;
+};
+
+// Unknown fields and columns that don't exist in the file
+export const mappingErrors = (entity: ImportEntity, mapping: ImportMapping, columnCount: number): string[] => {
+  const keys = new Set(IMPORT_FIELDS[entity].map(f => f.key));
+  const errors: string[] = [];
+  for (const [key, index] of Object.entries(mapping)) {
+    if (!keys.has(key)) {
+      errors.push(`Unknown field "${key}"`);
+    } else if (index !== null && (!Number.isInteger(index) || index < 0 || index >= columnCount)) {
+      errors.push(`Column ${index} for "${key}" is not in the file`);
+    }
+  }
+  for (const field of IMPORT_FIELDS[entity]) {
+    if (field.required && (mapping[field.key] === undefined || mapping[field.key] === null)) {
+      errors.push(`${field.label} must be mapped to a column`);
+    }
+  }
+  return errors;
+};
+
+/**
+ * Numbers as people type them: currency symbols and spaces are dropped,
+ * "1,234.50" has a thousands separator and "12,5" a decimal comma.
+ */
+export const parseNumber = (value: string): number | null => {
+  let text = value.replace(/[\s$€£]/g, '');
+  if (text.includes('.') || /^-?\d{1,3}(,\d{3})+$/.test(text)) {
+    text = text.replace(/,/g, '');
+  } else {
+    text = text.replace(',', '.');
+  }
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  return Number(text);
+};
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ISO dates, or Excel serial day numbers as XLSX stores them
+export const parseDate = (value: string): string | null => {
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return new Date(EXCEL_EPOCH + Math.floor(Number(text)) * MS_PER_DAY).toISOString().split('T')[0];
+  }
+  const iso = text.match(/^(\d{4}-\d{2}-\d{2})(?:[T ].*)?$/)?.[1];
+  if (!iso) return null;
+  // Rejects dates that don't exist, like 2024-02-30
+  const date = new Date(`${iso}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(iso) ? iso : null;
+};
+
+// Row numbers count the header as row 1, as a spreadsheet shows them
+export const mapRows = (entity: ImportEntity, rows: string[][], mapping: ImportMapping): MappedRow[] =>
+  rows.map((values, index) => {
+    const row = index + 2;
+    const data: Record<string, string | number> = {};
+    const errors: RowError[] = [];
+
+    for (const field of IMPORT_FIELDS[entity]) {
+      const column = mapping[field.key];
+      const raw = column === null || column === undefined ? '' : (values[column] ?? '').trim();
+      if (raw === '') {
+        if (field.required) errors.push({ row, field: field.key, message: `${field.label} is required` });
+        continue;
+      }
+
+      if (field.type === 'number') {
+        const number = parseNumber(raw);
+        if (number === null) errors.push({ row, field: field.key, message: `"${raw}" is not a number` });
+        else data[field.key] = number;
+      } else if (field.type === 'date') {
+        const date = parseDate(raw);
+        if (date === null) errors.push({ row, field: field.key, message: `"${raw}" is not a date (use YYYY-MM-DD)` });
+        else data[field.key] = date;
+      } else {
+        data[field.key] = raw;
+      }
+    }
+
+    return { row, data, errors };
+  });
@@ -0,0 +1,353 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import {
+  deriveMaterialStatus,
+  derivePurchaseOrderStatus,
+  deriveStock,
+  MaterialStatus,
+  MaterialTransactionType,
+} from './inventory';
+
+type DbMaterial = Database['public']['Tables']['materials']['Row'];
+export type MaterialTransaction = Database['public']['Tables']['material_transactions']['Row'];
+export type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row'];
+export type GoodsReceived = Database['public']['Tables']['goods_received']['Row'];
+
+export interface PurchaseOrderWithReceipts extends PurchaseOrder {
+  receipts: GoodsReceived[];
+  is_overdue: boolean;
+}
+
+export interface StockChange {
+  material: DbMaterial;
+  previousStatus: MaterialStatus;
+}
+
+export interface TransactionInput {
+  type: MaterialTransactionType;
+  quantity: number;
+  unit_cost?: number | null;
+  purchase_order_id?: number | null;
+  reference?: string | null;
+  notes?: string | null;
+}
+
+const isOverdue = (order: PurchaseOrder) => {
+  const today = new Date().toISOString().split('T')[0];
+  return (order.status === 'ordered' || order.status === 'partially_received') &&
+    order.expected_delivery_date < today;
+};
+
+export class InventoryService {
+  static async getMaterial(materialId: number): Promise<DbMaterial | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('materials')
+        .select('*')
+        .eq('id', materialId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getMaterialById(materialId);
+    }
+  }
+
+  static async getTransactions(materialId: number): Promise<MaterialTransaction[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('material_transactions')
+        .select('*')
+        .eq('material_id', materialId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching material transactions:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getMaterialTransactions(materialId);
+    }
+  }
+
+  /**
+   * Re-derive stock on hand and status from the ledger and store them on
+   * the material row.
+   */
+  static async refreshMaterialStock(materialId: number): Promise<StockChange | null> {
+    const [material, transactions] = await Promise.all([
+      this.getMaterial(materialId),
+      this.getTransactions(materialId),
+    ]);
+    if (!material) {
+      return null;
+    }
+
+    const currentStock = deriveStock(transactions);
+    const updates = {
+      current_stock: currentStock,
+      status: deriveMaterialStatus(currentStock, Number(material.total_required)),
+    };
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('materials')
+        .update(updates)
+        .eq('id', materialId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating material stock:', error);
+        return null;
+      }
+
+      return { material: data, previousStatus: material.status };
+    } else {
+      const updated = FallbackDatabase.updateMaterial(materialId, updates);
+      return updated ? { material: updated, previousStatus: material.status } : null;
+    }
+  }
+
+  static async recordTransaction(
+    material: Pick<DbMaterial, 'id' | 'project_id'>,
+    transactionData: TransactionInput,
+    userId: string | null
+  ): Promise<(StockChange & { transaction: MaterialTransaction }) | null> {
+    const record = {
+      material_id: material.id,
+      project_id: material.project_id,
+      type: transactionData.type,
+      quantity: transactionData.quantity,
+      unit_cost: transactionData.unit_cost ?? null,
+      purchase_order_id: transactionData.purchase_order_id ?? null,
+      reference: transactionData.reference ?? null,
+      notes: transactionData.notes ?? null,
+      created_by: userId,
+    };
+
+    let transaction: MaterialTransaction | null;
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('material_transactions')
+        .insert(record)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error recording material transaction:', error);
+        return null;
+      }
+      transaction = data;
+    } else {
+      transaction = FallbackDatabase.addMaterialTransaction(record);
+    }
+
+    if (!transaction) {
+      return null;
+    }
+
+    const change = await this.refreshMaterialStock(material.id);
+    return change ? { ...change, transaction } : null;
+  }
+
+  static async getPurchaseOrders(projectId: number, status?: PurchaseOrder['status']): Promise<PurchaseOrderWithReceipts[]> {
+    let orders: PurchaseOrder[];
+
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('purchase_orders')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('expected_delivery_date', { ascending: true });
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching purchase orders:', error);
+        return [];
+      }
+      orders = data || [];
+    } else {
+      orders = FallbackDatabase.getPurchaseOrders(projectId)
+        .filter(order => !status || order.status === status);
+    }
+
+    return Promise.all(orders.map(async order => ({
+      ...order,
+      receipts: await this.getReceipts(order.id),
+      is_overdue: isOverdue(order),
+    })));
+  }
+
+  static async getPurchaseOrder(projectId: number, orderId: number): Promise<PurchaseOrderWithReceipts | null> {
+    let order: PurchaseOrder | null;
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*')
+        .eq('id', orderId)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+      order = data;
+    } else {
+      order = FallbackDatabase.getPurchaseOrderById(orderId);
+      if (order && order.project_id !== projectId) {
+        order = null;
+      }
+    }
+
+    if (!order) {
+      return null;
+    }
+
+    return {
+      ...order,
+      receipts: await this.getReceipts(order.id),
+      is_overdue: isOverdue(order),
+    };
+  }
+
+  static async createPurchaseOrder(
+    projectId: number,
+    orderData: Pick<PurchaseOrder, 'material_id' | 'supplier_id' | 'cost_code_id' | 'quantity_ordered' | 'unit_cost' | 'order_date' | 'expected_delivery_date' | 'notes'>,
+    userId: string
+  ): Promise<PurchaseOrder | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .insert({ ...orderData, project_id: projectId, created_by: userId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating purchase order:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createPurchaseOrder({ ...orderData, project_id: projectId, created_by: userId });
+    }
+  }
+
+  static async updatePurchaseOrder(
+    orderId: number,
+    updates: Partial<Pick<PurchaseOrder, 'supplier_id' | 'cost_code_id' | 'unit_cost' | 'expected_delivery_date' | 'notes' | 'status' | 'quantity_received'>>
+  ): Promise<PurchaseOrder | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .update(updates)
+        .eq('id', orderId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating purchase order:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updatePurchaseOrder(orderId, updates);
+    }
+  }
+
+  static async getReceipts(orderId: number): Promise<GoodsReceived[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('goods_received')
+        .select('*')
+        .eq('purchase_order_id', orderId)
+        .order('received_date', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching goods received:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getGoodsReceived(orderId);
+    }
+  }
+
+  /**
+   * Book a delivery against a purchase order: a 'received' ledger entry,
+   * the goods-received record, and the order's received quantity/status.
+   */
+  static async receiveGoods(
+    order: PurchaseOrder,
+    receiptData: Pick<GoodsReceived, 'quantity' | 'received_date' | 'delivery_note'>,
+    userId: string
+  ): Promise<(StockChange & { receipt: GoodsReceived; purchaseOrder: PurchaseOrder }) | null> {
+    const booked = await this.recordTransaction(
+      { id: order.material_id, project_id: order.project_id },
+      {
+        type: 'received',
+        quantity: receiptData.quantity,
+        unit_cost: order.unit_cost,
+        purchase_order_id: order.id,
+        reference: receiptData.delivery_note || `PO-${order.id}`,
+      },
+      userId
+    );
+    if (!booked) {
+      return null;
+    }
+
+    const record = {
+      ...receiptData,
+      purchase_order_id: order.id,
+      transaction_id: booked.transaction.id,
+      received_by: userId,
+    };
+
+    let receipt: GoodsReceived | null;
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('goods_received')
+        .insert(record)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error recording goods received:', error);
+        return null;
+      }
+      receipt = data;
+    } else {
+      receipt = FallbackDatabase.addGoodsReceived(record);
+    }
+
+    if (!receipt) {
+      return null;
+    }
+
+    const quantityReceived = Number(order.quantity_received) + Number(receiptData.quantity);
+    const purchaseOrder = await this.updatePurchaseOrder(order.id, {
+      quantity_received: quantityReceived,
+      status: derivePurchaseOrderStatus(Number(order.quantity_ordered), quantityReceived),
+    });
+    if (!purchaseOrder) {
+      return null;
+    }
+
+    return { material: booked.material, previousStatus: booked.previousStatus, receipt, purchaseOrder };
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Stock rules shared by the ledger service and the in-memory database
+ */
+
+export type MaterialStatus = 'adequate' | 'low' | 'critical';
+export type MaterialTransactionType = 'received' | 'consumed' | 'returned' | 'adjusted';
+export type PurchaseOrderStatus = 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['ordered', 'partially_received', 'received', 'cancelled'];
+
+// Share of the required quantity below which stock is low / critical
+export const LOW_STOCK_RATIO = 0.3;
+export const CRITICAL_STOCK_RATIO = 0.1;
+
+// Signed effect of a ledger entry on stock on hand
+export const stockEffect = (type: MaterialTransactionType, quantity: number): number => {
+  switch (type) {
+    case 'received':
+      return Math.abs(quantity);
+    case 'consumed':
+    case 'returned':
+      return -Math.abs(quantity);
+    case 'adjusted':
+      return quantity;
+  }
+};
+
+export const deriveStock = (transactions: { type: MaterialTransactionType; quantity: number }[]): number => {
+  const total = transactions.reduce((sum, t) => sum + stockEffect(t.type, Number(t.quantity)), 0);
+  return Math.round(total * 100) / 100;
+};
+
+export const deriveMaterialStatus = (currentStock: number, totalRequired: number): MaterialStatus => {
+  if (totalRequired <= 0) return 'adequate';
+  const ratio = currentStock / totalRequired;
+  return ratio < CRITICAL_STOCK_RATIO ? 'critical' : ratio < LOW_STOCK_RATIO ? 'low' : 'adequate';
+};
+
+export const derivePurchaseOrderStatus = (
+  quantityOrdered: number,
+  quantityReceived: number,
+  cancelled = false
+): PurchaseOrderStatus => {
+  if (cancelled) return 'cancelled';
+  if (quantityReceived >= quantityOrdered) return 'received';
+  return quantityReceived > 0 ? 'partially_received' : 'ordered';
+};
+
+/**
+ * The alert to raise when a material's status changes, if any. Only a move
+ * into a worse band alerts; recovering or staying put does not.
+ */
+export const stockAlert = (previous: MaterialStatus, next: MaterialStatus): 'low' | 'critical' | null => {
+  if (next === 'critical' && previous !== 'critical') return 'critical';
+  if (next === 'low' && previous === 'adequate') return 'low';
+  return null;
+};
@@ -10,6 +10,8 @@ export interface Notification {
   userId: string;
   projectId?: number;
   materialId?: number;
+  rfiId?: number;
+  equipmentId?: number;
   timestamp: string;
   read: boolean;
 }
@@ -85,6 +87,7 @@ export class NotificationService {
     if (userNotifications.length > 50) {
       userNotifications.splice(50);
     }
+    this.notifications.set(notification.userId, userNotifications);
 
     // Send real-time notification
     this.io.to(`user:${notification.userId}`).emit('new-notification', newNotification);
@@ -151,6 +154,16 @@ export class NotificationService {
     });
   }
 
+  public notifyProjectShared(userId: string, projectName: string, projectId: number, role: string) {
+    return this.createNotification({
+      type: 'info',
+      title: 'Project Shared',
+      message: `You have been added to project "${projectName}" as ${role}.`,
+      userId,
+      projectId,
+    });
+  }
+
   // Material-related notifications
   public notifyMaterialLowStock(userId: string, materialName: string, projectName: string, projectId: number, materialId: number) {
     return this.createNotification({
@@ -185,6 +198,52 @@ export class NotificationService {
     });
   }
 
+  // RFI notifications
+  public notifyRfiAssigned(userId: string, rfiNumber: number, subject: string, projectName: string, projectId: number, rfiId: number, dueDate: string | null) {
+    return this.createNotification({
+      type: 'info',
+      title: 'RFI Assigned',
+      message: `RFI #${rfiNumber} "${subject}" in project "${projectName}" is waiting for your answer${dueDate ? ` by ${dueDate}` : ''}.`,
+      userId,
+      projectId,
+      rfiId,
+    });
+  }
+
+  public notifyRfiAnswered(userId: string, rfiNumber: number, subject: string, projectName: string, projectId: number, rfiId: number) {
+    return this.createNotification({
+      type: 'success',
+      title: 'RFI Answered',
+      message: `RFI #${rfiNumber} "${subject}" in project "${projectName}" has a new answer.`,
+      userId,
+      projectId,
+      rfiId,
+    });
+  }
+
+  public notifyRfiOverdue(userId: string, rfiNumber: number, subject: string, projectName: string, projectId: number, rfiId: number) {
+    return this.createNotification({
+      type: 'warning',
+      title: 'RFI Overdue',
+      message: `RFI #${rfiNumber} "${subject}" in project "${projectName}" is past its due date.`,
+      userId,
+      projectId,
+      rfiId,
+    });
+  }
+
+  // Equipment notifications
+  public notifyMaintenanceDue(userId: string, equipmentName: string, assetTag: string, overdue: boolean, equipmentId: number, projectId?: number) {
+    return this.createNotification({
+      type: overdue ? 'error' : 'warning',
+      title: overdue ? 'Maintenance Overdue' : 'Maintenance Due',
+      message: `${equipmentName} (${assetTag}) ${overdue ? 'is past its service interval' : 'is due for service soon'}.`,
+      userId,
+      projectId,
+      equipmentId,
+    });
+  }
+
   // System notifications
   public notifySystemMessage(userId: string, title: string, message: string) {
     return this.createNotification({
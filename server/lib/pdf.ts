@@ -0,0 +1,119 @@
+/**
+ * Minimal PDF writer
+ * Text in the standard Helvetica faces and ruled lines on A4 pages; enough
+ * for tabular documents without a layout engine. Coordinates are in points
+ * from the top-left corner. Text is WinAnsi encoded, so characters outside
+ * Latin-1 other than the euro sign print as "?".
+ */
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+// Advance widths per 1000 units of font size; anything unlisted uses the default
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, ':': 278, '-': 333, '(': 333, ')': 333, '/': 278, '%': 889, '#': 556, '£': 556, '$': 556, '€': 556,
+  i: 222, j: 222, l: 222, f: 278, t: 278, r: 333, m: 833, w: 722, I: 278, M: 833, W: 944,
+};
+const HELVETICA_BOLD_WIDTHS: Record<string, number> = {
+  ...HELVETICA_WIDTHS, i: 278, j: 278, l: 278, f: 333, t: 333, r: 389, ':': 333,
+};
+const DEFAULT_WIDTH = 556;
+
+// Width of a string in points; exact for digits and common punctuation
+export const textWidth = (text: string, size: number, bold = false) => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return Array.from(text).reduce((sum, char) => sum + (widths[char] ?? DEFAULT_WIDTH), 0) * size / 1000;
+};
+
+// Shorten with an ellipsis to fit a column
+export const fitText = (text: string, maxWidth: number, size: number, bold = false) => {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+};
+
+// WinAnsi puts the euro sign at 0x80
+const escapeText = (text: string) => Array.from(text)
+  .map(char => (char === '€' ? '\x80' : char.charCodeAt(0) > 0xff ? '?' : char))
+  .join('')
+  .replace(/[\\()]/g, match => `\\${match}`)
+  .replace(/[\r\n]+/g, ' ');
+
+const number = (value: number) => (Math.round(value * 100) / 100).toString();
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(readonly width = A4_WIDTH, readonly height = A4_HEIGHT) {
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    return this;
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}) {
+    const size = options.size ?? 10;
+    const left = options.align === 'right' ? x - textWidth(text, size, options.bold) : x;
+    const font = options.bold ? 'F2' : 'F1';
+    this.current.push(`BT /${font} ${number(size)} Tf ${number(left)} ${number(this.height - y)} Td (${escapeText(text)}) Tj ET`);
+    return this;
+  }
+
+  rule(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5) {
+    this.current.push(`${number(lineWidth)} w ${number(x1)} ${number(this.height - y1)} m ${number(x2)} ${number(this.height - y2)} l S`);
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const reserve = () => objects.push('');
+    const catalog = reserve();
+    const pageTree = reserve();
+    const regular = reserve();
+    const bold = reserve();
+    objects[regular - 1] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[bold - 1] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    const pageIds = this.pages.map(operations => {
+      const content = Buffer.from(operations.join('\n'), 'latin1');
+      const contentId = objects.push(`<< /Length ${content.length} >>\nstream\n${content.toString('latin1')}\nendstream`);
+      return objects.push(
+        `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${number(this.width)} ${number(this.height)}] ` +
+        `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+    objects[catalog - 1] = `<< /Type /Catalog /Pages ${pageTree} 0 R >>`;
+    objects[pageTree - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((body, index) => {
+      const offset = Buffer.byteLength(output, 'latin1');
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(output, 'latin1');
+  }
+
+  private get current() {
+    return this.pages[this.pages.length - 1];
+  }
+}
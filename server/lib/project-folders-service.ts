@@ -0,0 +1,71 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { withParentFolders } from './templates';
+
+export type ProjectFolder = Database['public']['Tables']['project_folders']['Row'];
+
+export class ProjectFoldersService {
+  static async getFolders(projectId: number): Promise<ProjectFolder[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_folders')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('path');
+
+      if (error) {
+        console.error('Error fetching project folders:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getProjectFolders(projectId);
+    }
+  }
+
+  /**
+   * Create folders along with any missing parents. Paths must already be
+   * normalised; existing folders are left as they are.
+   */
+  static async createFolders(projectId: number, paths: string[], createdBy: string | null): Promise<ProjectFolder[] | null> {
+    const rows = withParentFolders(paths).map(path => ({ project_id: projectId, path, created_by: createdBy }));
+    if (rows.length === 0) return [];
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_folders')
+        .upsert(rows, { onConflict: 'project_id,path', ignoreDuplicates: true })
+        .select();
+
+      if (error) {
+        console.error('Error creating project folders:', error);
+        return null;
+      }
+
+      return data || [];
+    } else {
+      return rows.map(row => FallbackDatabase.createProjectFolder(row));
+    }
+  }
+
+  static async deleteFolder(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('project_folders')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting project folder:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteProjectFolder(projectId, id);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+
+type DbProjectMember = Database['public']['Tables']['project_members']['Row'];
+
+export type ProjectRole = DbProjectMember['role'];
+export type ProjectAction = 'view' | 'edit' | 'manage' | 'delete';
+
+// What each project role is allowed to do
+const projectPermissions: Record<ProjectRole, ProjectAction[]> = {
+  owner: ['view', 'edit', 'manage', 'delete'],
+  manager: ['view', 'edit', 'manage'],
+  editor: ['view', 'edit'],
+  viewer: ['view'],
+};
+
+export const canPerformProjectAction = (role: ProjectRole | null, action: ProjectAction): boolean => {
+  return !!role && projectPermissions[role].includes(action);
+};
+
+export interface ProjectMember extends DbProjectMember {
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    avatar?: string | null;
+  } | null;
+}
+
+export class ProjectMembersService {
+  // Projects in the trash are treated as missing unless includeTrashed is set
+  static async getMemberRole(projectId: number, userId: string, includeTrashed = false): Promise<ProjectRole | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_members')
+        .select('role, projects!inner(deleted_at)')
+        .eq('project_id', projectId)
+        .eq('user_id', userId)
+        .single();
+
+      if (error || !data || (data.projects.deleted_at && !includeTrashed)) {
+        return null;
+      }
+
+      return data.role;
+    } else {
+      const project = FallbackDatabase.getProjectById(projectId);
+      if (!project || (project.deleted_at && !includeTrashed)) {
+        return null;
+      }
+      return FallbackDatabase.getProjectMember(projectId, userId)?.role ?? null;
+    }
+  }
+
+  static async hasAccess(projectId: number, userId: string, action: ProjectAction): Promise<boolean> {
+    const role = await this.getMemberRole(projectId, userId);
+    return canPerformProjectAction(role, action);
+  }
+
+  static async getUserMemberships(userId: string): Promise<Pick<DbProjectMember, 'project_id' | 'role'>[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_members')
+        .select('project_id, role')
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error fetching project memberships:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getUserMemberships(userId);
+    }
+  }
+
+  static async getProjectMembers(projectId: number): Promise<ProjectMember[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_members')
+        .select(`
+          *,
+          user:users!project_members_user_id_fkey (id, email, name, avatar)
+        `)
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching project members:', error);
+        return [];
+      }
+
+      return (data || []) as unknown as ProjectMember[];
+    } else {
+      return FallbackDatabase.getProjectMembers(projectId);
+    }
+  }
+
+  static async addMember(projectId: number, userId: string, role: ProjectRole, invitedBy: string | null): Promise<DbProjectMember | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_members')
+        .insert({
+          project_id: projectId,
+          user_id: userId,
+          role,
+          invited_by: invitedBy,
+        })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error adding project member:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.addProjectMember(projectId, userId, role, invitedBy);
+    }
+  }
+
+  static async updateMemberRole(projectId: number, userId: string, role: ProjectRole): Promise<DbProjectMember | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_members')
+        .update({ role })
+        .eq('project_id', projectId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating project member:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateProjectMemberRole(projectId, userId, role);
+    }
+  }
+
+  static async removeMember(projectId: number, userId: string): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('project_members')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error removing project member:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.removeProjectMember(projectId, userId);
+    }
+  }
+}
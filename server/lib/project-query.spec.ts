@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareProjects,
+  cursorFilter,
+  cursorFor,
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+  isAfterCursor,
+  matchesProjectFilters,
+  projectListCacheKey,
+  projectListQuerySchema,
+} from "./project-query";
+
+const project = (id: number, fields: Record<string, unknown> = {}) => ({
+  id,
+  name: `Project ${id}`,
+  status: "active",
+  risk_level: "low",
+  client: null,
+  location: null,
+  contractor: null,
+  start_date: null,
+  end_date: null,
+  budget: 1000,
+  ...fields,
+});
+
+describe("projectListQuerySchema", () => {
+  it("should parse filters, sort and paging from a query string", () => {
+    const result = projectListQuerySchema.parse({ status: "planning,active", q: " tower ", sort: "name", limit: "20" });
+    expect(result).toEqual({
+      filters: { status: ["planning", "active"], risk_level: undefined, client: undefined, contractor: undefined, from: undefined, to: undefined, search: "tower" },
+      sort: "name",
+      order: "asc",
+      limit: 20,
+      cursor: undefined,
+    });
+    expect(projectListQuerySchema.parse({}).limit).toBe(DEFAULT_PAGE_SIZE);
+  });
+
+  it("should reject unknown values and bad cursors", () => {
+    expect(projectListQuerySchema.safeParse({ status: "done" }).success).toBe(false);
+    expect(projectListQuerySchema.safeParse({ sort: "password" }).success).toBe(false);
+    expect(projectListQuerySchema.safeParse({ cursor: "not-a-cursor" }).success).toBe(false);
+    expect(projectListQuerySchema.safeParse({ limit: "500" }).success).toBe(false);
+  });
+});
+
+describe("cursor paging", () => {
+  it("should sort by the key then id with missing values last", () => {
+    const projects = [
+      project(1, { start_date: "2024-03-01" }),
+      project(2, { start_date: null }),
+      project(3, { start_date: "2024-01-01" }),
+      project(4, { start_date: "2024-03-01" }),
+    ];
+    expect([...projects].sort(compareProjects("start_date", "asc")).map(p => p.id)).toEqual([3, 1, 4, 2]);
+    expect([...projects].sort(compareProjects("start_date", "desc")).map(p => p.id)).toEqual([4, 1, 3, 2]);
+  });
+
+  it("should continue after the last project of a page", () => {
+    const projects = [project(1, { budget: "500.00" }), project(2, { budget: 750 }), project(3, { budget: 750 }), project(4, { budget: null })];
+    const cursor = decodeCursor(encodeCursor(cursorFor(projects[1], "budget")))!;
+    expect(cursor).toEqual({ value: 750, id: 2 });
+    expect(projects.filter(p => isAfterCursor(p, cursor, "budget", "asc")).map(p => p.id)).toEqual([3, 4]);
+    expect(projects.filter(p => isAfterCursor(p, cursor, "budget", "desc")).map(p => p.id)).toEqual([1, 4]);
+  });
+
+  it("should build the same condition as a database filter", () => {
+    expect(cursorFilter({ value: "Smith, Co", id: 7 }, "name", "asc"))
+      .toBe('name.gt."Smith, Co",and(name.eq."Smith, Co",id.gt.7),name.is.null');
+    expect(cursorFilter({ value: null, id: 7 }, "end_date", "desc")).toBe("and(end_date.is.null,id.lt.7)");
+  });
+});
+
+describe("matchesProjectFilters", () => {
+  it("should match projects running within the date range", () => {
+    const running = project(1, { start_date: "2024-02-01", end_date: "2024-06-30" });
+    expect(matchesProjectFilters(running, { from: "2024-06-01", to: "2024-12-31" })).toBe(true);
+    expect(matchesProjectFilters(running, { from: "2024-07-01" })).toBe(false);
+    expect(matchesProjectFilters(project(2), { to: "2024-12-31" })).toBe(false);
+  });
+
+  it("should search names, clients, locations and contractors", () => {
+    const tower = project(1, { name: "North Tower", client: "Acme", risk_level: "high" });
+    expect(matchesProjectFilters(tower, { search: "acme", risk_level: ["high"] })).toBe(true);
+    expect(matchesProjectFilters(tower, { search: "acme", status: ["completed"] })).toBe(false);
+    expect(matchesProjectFilters(tower, { client: "acm", contractor: "bob" })).toBe(false);
+  });
+});
+
+describe("projectListCacheKey", () => {
+  it("should give equivalent queries the same key", () => {
+    const a = projectListQuerySchema.parse({ status: "active,planning", sort: "name", client: "" });
+    const b = projectListQuerySchema.parse({ sort: "name", order: "asc", status: "planning,active" });
+    const c = projectListQuerySchema.parse({ sort: "name", status: "planning" });
+    expect(projectListCacheKey(a)).toBe(projectListCacheKey(b));
+    expect(projectListCacheKey(a)).not.toBe(projectListCacheKey(c));
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Project list queries
+ * Filters, sort order and cursor paging for the projects list. The cursor
+ * holds the sort value and id of the last project on a page, so pages stay
+ * stable while projects are added or edited.
+ */
+
+import { z } from 'zod';
+
+export const PROJECT_SORT_KEYS = ['created_at', 'updated_at', 'name', 'budget', 'spent', 'progress', 'start_date', 'end_date'] as const;
+export type ProjectSortKey = typeof PROJECT_SORT_KEYS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export interface ProjectFilters {
+  status?: ('active' | 'planning' | 'completed')[];
+  risk_level?: ('low' | 'medium' | 'high')[];
+  client?: string;
+  contractor?: string;
+  // Projects running at any point between these dates
+  from?: string;
+  to?: string;
+  search?: string;
+}
+
+export interface ProjectCursor {
+  value: string | number | null;
+  id: number;
+}
+
+export interface ProjectListQuery {
+  filters: ProjectFilters;
+  sort: ProjectSortKey;
+  order: SortOrder;
+  limit: number;
+  cursor?: ProjectCursor;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+// Comma-separated values, e.g. `status=active,planning`
+const csvEnum = <T extends string>(values: readonly [T, ...T[]]) =>
+  z.string().transform(value => value.split(',').map(v => v.trim()).filter(Boolean)).pipe(z.array(z.enum(values)).min(1));
+
+const optionalText = z.string().trim().max(200).optional().transform(value => value || undefined);
+
+export const projectListQuerySchema = z.object({
+  status: csvEnum(['active', 'planning', 'completed']).optional(),
+  risk_level: csvEnum(['low', 'medium', 'high']).optional(),
+  client: optionalText,
+  contractor: optionalText,
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  q: optionalText,
+  sort: z.enum(PROJECT_SORT_KEYS).default('created_at'),
+  order: z.enum(['asc', 'desc']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().optional(),
+}).transform((query, ctx): ProjectListQuery => {
+  const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (cursor === null) {
+    ctx.addIssue({ code: 'custom', message: 'Invalid cursor', path: ['cursor'] });
+    return z.NEVER;
+  }
+  return {
+    filters: {
+      status: query.status,
+      risk_level: query.risk_level,
+      client: query.client,
+      contractor: query.contractor,
+      from: query.from,
+      to: query.to,
+      search: query.q,
+    },
+    sort: query.sort,
+    // Names read best A-Z, everything else newest or largest first
+    order: query.order ?? (query.sort === 'name' ? 'asc' : 'desc'),
+    limit: query.limit,
+    cursor,
+  };
+});
+
+type ProjectRow = {
+  id: number;
+  name: string;
+  status: string;
+  risk_level: string;
+  client?: string | null;
+  location?: string | null;
+  contractor?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+} & Partial<Record<ProjectSortKey, unknown>>;
+
+export const encodeCursor = (cursor: ProjectCursor): string =>
+  Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+
+export const decodeCursor = (token: string): ProjectCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2 || !Number.isInteger(decoded[1])) return null;
+    const [value, id] = decoded;
+    if (value !== null && typeof value !== 'string' && typeof value !== 'number') return null;
+    return { value, id };
+  } catch {
+    return null;
+  }
+};
+
+// DECIMAL columns can come back as strings
+const sortValue = (project: ProjectRow, sort: ProjectSortKey): string | number | null => {
+  const value = project[sort];
+  if (value === null || value === undefined) return null;
+  if (sort === 'budget' || sort === 'spent' || sort === 'progress') return Number(value);
+  return String(value);
+};
+
+export const cursorFor = (project: ProjectRow, sort: ProjectSortKey): ProjectCursor => ({
+  value: sortValue(project, sort),
+  id: project.id,
+});
+
+const compareValues = (a: string | number, b: string | number) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+
+/**
+ * Sorts by the sort key, then by id in the same direction. Missing values
+ * go last either way, as with NULLS LAST in the database.
+ */
+export const compareProjects = (sort: ProjectSortKey, order: SortOrder) =>
+  (a: ProjectRow, b: ProjectRow): number => cursorCompare(cursorFor(a, sort), cursorFor(b, sort), order);
+
+const cursorCompare = (a: ProjectCursor, b: ProjectCursor, order: SortOrder): number => {
+  const direction = order === 'asc' ? 1 : -1;
+  if (a.value === null && b.value !== null) return 1;
+  if (a.value !== null && b.value === null) return -1;
+  const byValue = a.value === null || b.value === null ? 0 : compareValues(a.value, b.value) * direction;
+  return byValue !== 0 ? byValue : (a.id - b.id) * direction;
+};
+
+export const isAfterCursor = (project: ProjectRow, cursor: ProjectCursor, sort: ProjectSortKey, order: SortOrder) =>
+  cursorCompare(cursorFor(project, sort), cursor, order) > 0;
+
+const contains = (value: string | null | undefined, term: string) =>
+  !!value && value.toLowerCase().includes(term.toLowerCase());
+
+export const matchesProjectFilters = (project: ProjectRow, filters: ProjectFilters): boolean => {
+  if (filters.status && !filters.status.includes(project.status as any)) return false;
+  if (filters.risk_level && !filters.risk_level.includes(project.risk_level as any)) return false;
+  if (filters.client && !contains(project.client, filters.client)) return false;
+  if (filters.contractor && !contains(project.contractor, filters.contractor)) return false;
+  if (filters.from && (!project.end_date || project.end_date < filters.from)) return false;
+  if (filters.to && (!project.start_date || project.start_date > filters.to)) return false;
+  if (filters.search) {
+    const fields = [project.name, project.client, project.location, project.contractor];
+    if (!fields.some(field => contains(field, filters.search!))) return false;
+  }
+  return true;
+};
+
+// The same list query always gets the same cache key, however its parameters were written
+export const projectListCacheKey = (query: ProjectListQuery): string => {
+  const filters = Object.entries(query.filters)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]): [string, unknown] => [key, Array.isArray(value) ? [...value].sort() : value])
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return JSON.stringify({
+    filters,
+    sort: query.sort,
+    order: query.order,
+    limit: query.limit,
+    cursor: query.cursor ? encodeCursor(query.cursor) : null,
+  });
+};
+
+// PostgREST filter values with dots, commas or colons need quoting
+const filterValue = (value: string | number) =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+/**
+ * The rows after a cursor as a PostgREST `or` filter, matching the order
+ * and NULLS LAST placement of compareProjects.
+ */
+export const cursorFilter = (cursor: ProjectCursor, sort: ProjectSortKey, order: SortOrder): string => {
+  const op = order === 'asc' ? 'gt' : 'lt';
+  if (cursor.value === null) {
+    return `and(${sort}.is.null,id.${op}.${cursor.id})`;
+  }
+  const value = filterValue(cursor.value);
+  return `${sort}.${op}.${value},and(${sort}.eq.${value},id.${op}.${cursor.id}),${sort}.is.null`;
+};
+
+export const searchFilter = (search: string): string | null => {
+  const term = search.replace(/[%,()*"\\]/g, '').trim();
+  if (!term) return null;
+  return ['name', 'client', 'location', 'contractor'].map(column => `${column}.ilike.%${term}%`).join(',');
+};
@@ -1,14 +1,21 @@
-import { supabase } from './database';
+import { supabase, isSupabaseConfigured } from './database';
 import { FallbackDatabase } from './database-fallback';
 import { Database } from './types';
-
-// Check if Supabase is configured
-const isSupabaseConfigured = () => {
-  return process.env.SUPABASE_URL && 
-         process.env.SUPABASE_URL !== 'https://your-project.supabase.co' &&
-         process.env.SUPABASE_ANON_KEY && 
-         process.env.SUPABASE_ANON_KEY !== 'your-anon-key';
-};
+import { ProjectMembersService, ProjectRole, canPerformProjectAction } from './project-members-service';
+import { InventoryService } from './inventory-service';
+import { deriveMaterialStatus } from './inventory';
+import { VersionConflictError } from './concurrency';
+import { DEFAULT_CURRENCY } from './currency';
+import {
+  compareProjects,
+  cursorFilter,
+  cursorFor,
+  encodeCursor,
+  isAfterCursor,
+  matchesProjectFilters,
+  ProjectListQuery,
+  searchFilter,
+} from './project-query';
 
 type DbProject = Database['public']['Tables']['projects']['Row'];
 type DbMaterial = Database['public']['Tables']['materials']['Row'];
@@ -32,25 +39,46 @@ export interface Project {
   end_date?: string | null;
   team_size?: number | null;
   contractor?: string | null;
+  currency: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
   created_at: string;
   updated_at: string;
   materials?: Material[];
+  member_role?: ProjectRole;
 }
 
 export interface Material extends DbMaterial {
   // Additional fields if needed
 }
 
+// Embedded material lists come back with trashed rows included
+const withoutTrashedMaterials = <T extends { materials?: Material[] }>(project: T): T =>
+  project.materials ? { ...project, materials: project.materials.filter(m => !m.deleted_at) } : project;
+
+const PROJECT_MONEY_TABLES = [
+  'project_baselines', 'project_evm_snapshots', 'cost_codes', 'time_entries', 'subcontracts',
+  'schedule_of_values', 'variations', 'progress_claims', 'change_orders',
+] as const;
+
 export class ProjectsService {
   static async getUserProjects(userId: string): Promise<Project[]> {
+    const memberships = await ProjectMembersService.getUserMemberships(userId);
+    if (memberships.length === 0) {
+      return [];
+    }
+    const roles = new Map(memberships.map(m => [m.project_id, m.role]));
+
+    let projects: Project[];
     if (isSupabaseConfigured()) {
-      const { data: projects, error } = await supabase
+      const { data, error } = await supabase
         .from('projects')
         .select(`
           *,
           materials (*)
         `)
-        .eq('user_id', userId)
+        .in('id', Array.from(roles.keys()))
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -58,37 +86,113 @@ export class ProjectsService {
         return [];
       }
 
-      return projects || [];
+      projects = (data || []).map(withoutTrashedMaterials);
     } else {
-      return FallbackDatabase.getUserProjects(userId);
+      projects = FallbackDatabase.getUserProjects(userId);
     }
+
+    return projects.map(project => ({ ...project, member_role: roles.get(project.id) }));
+  }
+
+  // One page of a user's projects; next_cursor is null on the last page
+  static async listUserProjects(userId: string, query: ProjectListQuery): Promise<{ projects: Project[]; next_cursor: string | null }> {
+    const memberships = await ProjectMembersService.getUserMemberships(userId);
+    if (memberships.length === 0) {
+      return { projects: [], next_cursor: null };
+    }
+    const roles = new Map(memberships.map(m => [m.project_id, m.role]));
+    const { filters, sort, order, limit, cursor } = query;
+
+    let projects: Project[];
+    if (isSupabaseConfigured()) {
+      // Materials are left out of lists; the project page loads its own
+      let request = supabase
+        .from('projects')
+        .select('*')
+        .in('id', Array.from(roles.keys()))
+        .is('deleted_at', null);
+
+      if (filters.status) request = request.in('status', filters.status);
+      if (filters.risk_level) request = request.in('risk_level', filters.risk_level);
+      if (filters.client) request = request.ilike('client', `%${filters.client.replace(/[%_]/g, '')}%`);
+      if (filters.contractor) request = request.ilike('contractor', `%${filters.contractor.replace(/[%_]/g, '')}%`);
+      if (filters.from) request = request.gte('end_date', filters.from);
+      if (filters.to) request = request.lte('start_date', filters.to);
+
+      // Both are `or` filters, so they go in one and(...) to apply together
+      const conditions = [
+        filters.search ? searchFilter(filters.search) : null,
+        cursor ? cursorFilter(cursor, sort, order) : null,
+      ].filter((condition): condition is string => !!condition);
+      if (conditions.length === 1) {
+        request = request.or(conditions[0]);
+      } else if (conditions.length === 2) {
+        request = request.or(`and(or(${conditions[0]}),or(${conditions[1]}))`);
+      }
+
+      request = request
+        .order(sort, { ascending: order === 'asc', nullsFirst: false })
+        .order('id', { ascending: order === 'asc' })
+        .limit(limit + 1);
+
+      const { data, error } = await request;
+
+      if (error) {
+        console.error('Error fetching projects:', error);
+        return { projects: [], next_cursor: null };
+      }
+
+      projects = data || [];
+    } else {
+      projects = FallbackDatabase.getUserProjects(userId)
+        .map(({ materials, ...project }) => project)
+        .filter(project => matchesProjectFilters(project, filters))
+        .filter(project => !cursor || isAfterCursor(project, cursor, sort, order))
+        .sort(compareProjects(sort, order))
+        .slice(0, limit + 1);
+    }
+
+    const hasMore = projects.length > limit;
+    const page = hasMore ? projects.slice(0, limit) : projects;
+    return {
+      projects: page.map(project => ({ ...project, member_role: roles.get(project.id) })),
+      next_cursor: hasMore ? encodeCursor(cursorFor(page[page.length - 1], sort)) : null,
+    };
   }
 
   static async getProjectById(id: number, userId: string): Promise<Project | null> {
+    const role = await ProjectMembersService.getMemberRole(id, userId);
+    if (!role) {
+      return null;
+    }
+
+    let project: Project | null;
     if (isSupabaseConfigured()) {
-      const { data: project, error } = await supabase
+      const { data, error } = await supabase
         .from('projects')
         .select(`
           *,
           materials (*)
         `)
         .eq('id', id)
-        .eq('user_id', userId)
         .single();
 
-      if (error || !project) {
+      if (error || !data) {
         return null;
       }
 
-      return project;
+      project = withoutTrashedMaterials(data);
     } else {
-      return FallbackDatabase.getProjectById(id, userId);
+      project = FallbackDatabase.getProjectById(id);
     }
+
+    return project ? { ...project, member_role: role } : null;
   }
 
   static async createProject(projectData: Partial<DbProject>, userId: string): Promise<Project | null> {
+    let project: Project | null;
     if (isSupabaseConfigured()) {
-      const { data: project, error } = await supabase
+      const { data, error } = await supabase
         .from('projects')
         .insert({
           name: projectData.name || '',
@@ -98,6 +202,7 @@ export class ProjectsService {
           start_date: projectData.start_date || null,
           end_date: projectData.end_date || null,
           contractor: projectData.contractor || null,
+          currency: projectData.currency || DEFAULT_CURRENCY,
           user_id: userId,
         })
         .select(`
@@ -106,48 +211,82 @@ export class ProjectsService {
         `)
         .single();
 
-      if (error || !project) {
+      if (error || !data) {
         console.error('Error creating project:', error);
         return null;
       }
 
-      return project;
+      project = data;
     } else {
-      return FallbackDatabase.createProject(projectData, userId);
+      project = FallbackDatabase.createProject(projectData, userId);
     }
+
+    // The creator owns the project
+    await ProjectMembersService.addMember(project.id, userId, 'owner', userId);
+
+    return { ...project, member_role: 'owner' };
   }
 
-  static async updateProject(id: number, updates: Partial<DbProject>, userId: string): Promise<Project | null> {
+  /**
+   * With an expected version the update only applies if nobody has changed
+   * the project since; otherwise it throws a VersionConflictError.
+   */
+  static async updateProject(id: number, updates: Partial<DbProject>, userId: string, expectedVersion?: number): Promise<Project | null> {
+    const role = await ProjectMembersService.getMemberRole(id, userId);
+    if (!canPerformProjectAction(role, 'edit')) {
+      return null;
+    }
+
+    let project: Project | null;
     if (isSupabaseConfigured()) {
-      const { data: project, error } = await supabase
+      let request = supabase
         .from('projects')
         .update(updates)
-        .eq('id', id)
-        .eq('user_id', userId)
+        .eq('id', id);
+      if (expectedVersion !== undefined) {
+        request = request.eq('version', expectedVersion);
+      }
+      const { data, error } = await request
         .select(`
           *,
           materials (*)
         `)
-        .single();
+        .maybeSingle();
 
-      if (error || !project) {
+      if (error) {
         console.error('Error updating project:', error);
         return null;
       }
+      if (!data) {
+        // No row matched: either it's gone or its version moved on
+        if (expectedVersion !== undefined) throw new VersionConflictError();
+        return null;
+      }
 
-      return project;
+      project = data;
     } else {
-      return FallbackDatabase.updateProject(id, updates, userId);
+      const current = FallbackDatabase.getProjectById(id);
+      if (current && expectedVersion !== undefined && current.version !== expectedVersion) {
+        throw new VersionConflictError();
+      }
+      project = FallbackDatabase.updateProject(id, updates);
     }
+
+    return project ? { ...project, member_role: role } : null;
   }
 
+  // Moves the project to the trash; TrashService restores or purges it
   static async deleteProject(id: number, userId: string): Promise<boolean> {
+    if (!(await ProjectMembersService.hasAccess(id, userId, 'delete'))) {
+      return false;
+    }
+
+    const trashed = { deleted_at: new Date().toISOString(), deleted_by: userId };
     if (isSupabaseConfigured()) {
       const { error } = await supabase
         .from('projects')
-        .delete()
-        .eq('id', id)
-        .eq('user_id', userId);
+        .update(trashed)
+        .eq('id', id);
 
       if (error) {
         console.error('Error deleting project:', error);
@@ -156,29 +295,39 @@ export class ProjectsService {
 
       return true;
     } else {
-      return FallbackDatabase.deleteProject(id, userId);
+      return FallbackDatabase.updateProject(id, trashed) !== null;
     }
   }
 
-  // Materials CRUD operations
-  static async getProjectMaterials(projectId: number, userId: string): Promise<Material[]> {
+  /**
+   * Number of records holding amounts in the project's currency: baselines,
+   * snapshots, cost code budgets, labour, subcontracts, claims and change
+   * orders. Materials and their orders carry their own currency.
+   */
+  static async countMoneyRecords(projectId: number): Promise<number> {
     if (isSupabaseConfigured()) {
-      // First verify user owns the project
-      const { data: project } = await supabase
-        .from('projects')
-        .select('id')
-        .eq('id', projectId)
-        .eq('user_id', userId)
-        .single();
+      const counts = await Promise.all(PROJECT_MONEY_TABLES.map(table =>
+        supabase.from(table).select('id', { count: 'exact', head: true }).eq('project_id', projectId)
+      ));
 
-      if (!project) {
-        return [];
-      }
+      return counts.reduce((total, { count }) => total + (count || 0), 0);
+    } else {
+      return FallbackDatabase.countProjectMoneyRecords(projectId);
+    }
+  }
 
+  // Materials CRUD operations
+  static async getProjectMaterials(projectId: number, userId: string): Promise<Material[]> {
+    if (!(await ProjectMembersService.hasAccess(projectId, userId, 'view'))) {
+      return [];
+    }
+
+    if (isSupabaseConfigured()) {
       const { data: materials, error } = await supabase
         .from('materials')
         .select('*')
         .eq('project_id', projectId)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -188,102 +337,127 @@ export class ProjectsService {
 
       return materials || [];
     } else {
-      return FallbackDatabase.getProjectMaterials(projectId, userId);
+      return FallbackDatabase.getProjectMaterials(projectId);
     }
   }
 
-  static async createMaterial(materialData: Omit<DbMaterial, 'id' | 'project_id' | 'created_at' | 'updated_at' | 'status'>, projectId: number, userId: string): Promise<Material | null> {
+  // Resolves which project a material belongs to, for permission checks
+  static async getMaterialProjectId(id: number): Promise<number | null> {
     if (isSupabaseConfigured()) {
-      // First verify user owns the project
-      const { data: project } = await supabase
-        .from('projects')
-        .select('id')
-        .eq('id', projectId)
-        .eq('user_id', userId)
+      const { data: material } = await supabase
+        .from('materials')
+        .select('project_id')
+        .eq('id', id)
+        .is('deleted_at', null)
         .single();
 
-      if (!project) {
-        return null;
-      }
+      return material?.project_id ?? null;
+    } else {
+      const material = FallbackDatabase.getMaterialById(id);
+      return material && !material.deleted_at ? material.project_id : null;
+    }
+  }
+
+  static async createMaterial(materialData: Omit<DbMaterial, 'id' | 'project_id' | 'created_at' | 'updated_at' | 'status' | 'deleted_at' | 'deleted_by' | 'version' | 'cost_code_id' | 'currency'> & Partial<Pick<DbMaterial, 'cost_code_id' | 'currency'>>, projectId: number, userId: string): Promise<Material | null> {
+    if (!(await ProjectMembersService.hasAccess(projectId, userId, 'edit'))) {
+      return null;
+    }
 
-      const { data: material, error } = await supabase
+    let material: Material | null;
+    if (isSupabaseConfigured()) {
+      // A material is costed in its project's currency unless it says otherwise
+      const { data: project } = materialData.currency
+        ? { data: null }
+        : await supabase.from('projects').select('currency').eq('id', projectId).single();
+
+      const { data, error } = await supabase
         .from('materials')
         .insert({
           name: materialData.name,
           current_stock: materialData.current_stock,
           total_required: materialData.total_required,
-          status: 'adequate',
+          status: deriveMaterialStatus(materialData.current_stock, materialData.total_required),
           cost: materialData.cost,
-          supplier: materialData.supplier,
+          supplier_id: materialData.supplier_id,
+          cost_code_id: materialData.cost_code_id ?? null,
+          currency: materialData.currency ?? project?.currency ?? DEFAULT_CURRENCY,
           project_id: projectId,
         })
         .select()
         .single();
 
-      if (error || !material) {
+      if (error || !data) {
         console.error('Error creating material:', error);
         return null;
       }
-
-      return material;
+      material = data;
     } else {
-      return FallbackDatabase.createMaterial(materialData, projectId, userId);
+      material = FallbackDatabase.createMaterial(materialData, projectId);
     }
-  }
 
-  static async updateMaterial(id: number, updates: Partial<DbMaterial>, userId: string): Promise<Material | null> {
-    if (isSupabaseConfigured()) {
-      // First verify user owns the project that contains this material
-      const { data: material } = await supabase
-        .from('materials')
-        .select(`
-          *,
-          projects!inner (user_id)
-        `)
-        .eq('id', id)
-        .single();
+    // Starting stock goes into the ledger so later movements add up
+    if (material && material.current_stock !== 0) {
+      const opening = await InventoryService.recordTransaction(material, {
+        type: 'adjusted',
+        quantity: material.current_stock,
+        reference: 'Opening balance',
+      }, userId);
+      material = opening?.material ?? material;
+    }
 
-      if (!material || material.projects.user_id !== userId) {
-        return null;
-      }
+    return material;
+  }
+
+  // Throws a VersionConflictError if the material is no longer at the expected version
+  static async updateMaterial(id: number, updates: Partial<DbMaterial>, userId: string, expectedVersion?: number): Promise<Material | null> {
+    const projectId = await this.getMaterialProjectId(id);
+    if (!projectId || !(await ProjectMembersService.hasAccess(projectId, userId, 'edit'))) {
+      return null;
+    }
 
-      const { data: updatedMaterial, error } = await supabase
+    if (isSupabaseConfigured()) {
+      let request = supabase
         .from('materials')
         .update(updates)
-        .eq('id', id)
+        .eq('id', id);
+      if (expectedVersion !== undefined) {
+        request = request.eq('version', expectedVersion);
+      }
+      const { data: updatedMaterial, error } = await request
         .select()
-        .single();
+        .maybeSingle();
 
-      if (error || !updatedMaterial) {
+      if (error) {
         console.error('Error updating material:', error);
         return null;
       }
+      if (!updatedMaterial) {
+        if (expectedVersion !== undefined) throw new VersionConflictError();
+        return null;
+      }
 
       return updatedMaterial;
     } else {
-      return FallbackDatabase.updateMaterial(id, updates, userId);
+      const current = FallbackDatabase.getMaterialById(id);
+      if (current && expectedVersion !== undefined && current.version !== expectedVersion) {
+        throw new VersionConflictError();
+      }
+      return FallbackDatabase.updateMaterial(id, updates);
     }
   }
 
+  // Moves the material to the trash; its ledger and orders are kept for a restore
   static async deleteMaterial(id: number, userId: string): Promise<boolean> {
-    if (isSupabaseConfigured()) {
-      // First verify user owns the project that contains this material
-      const { data: material } = await supabase
-        .from('materials')
-        .select(`
-          *,
-          projects!inner (user_id)
-        `)
-        .eq('id', id)
-        .single();
-
-      if (!material || material.projects.user_id !== userId) {
-        return false;
-      }
+    const projectId = await this.getMaterialProjectId(id);
+    if (!projectId || !(await ProjectMembersService.hasAccess(projectId, userId, 'edit'))) {
+      return false;
+    }
 
+    const trashed = { deleted_at: new Date().toISOString(), deleted_by: userId };
+    if (isSupabaseConfigured()) {
       const { error } = await supabase
         .from('materials')
-        .delete()
+        .update(trashed)
         .eq('id', id);
 
       if (error) {
@@ -293,26 +467,30 @@ export class ProjectsService {
 
       return true;
     } else {
-      return FallbackDatabase.deleteMaterial(id, userId);
+      return FallbackDatabase.updateMaterial(id, trashed) !== null;
     }
   }
 
   static async getUserMaterials(userId: string): Promise<Material[]> {
     if (isSupabaseConfigured()) {
+      const memberships = await ProjectMembersService.getUserMemberships(userId);
+      if (memberships.length === 0) {
+        return [];
+      }
+
       const { data: materials, error } = await supabase
         .from('materials')
-        .select(`
-          *,
-          projects!inner (user_id)
-        `)
-        .eq('projects.user_id', userId);
+        .select('*, projects!inner(deleted_at)')
+        .in('project_id', memberships.map(m => m.project_id))
+        .is('deleted_at', null)
+        .is('projects.deleted_at', null);
 
       if (error) {
         console.error('Error fetching user materials:', error);
         return [];
       }
 
-      return materials || [];
+      return (materials || []).map(({ projects: _project, ...material }) => material);
     } else {
       return FallbackDatabase.getUserMaterials(userId);
     }
@@ -0,0 +1,252 @@
+import { insertWithNextNumber, supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { NotificationService } from './notifications';
+import { ProjectsService } from './projects-service';
+import { RfiStatus } from './rfi';
+
+export type Rfi = Database['public']['Tables']['rfis']['Row'];
+export type RfiResponse = Database['public']['Tables']['rfi_responses']['Row'];
+export type RfiInput = Pick<Rfi, 'subject' | 'question' | 'assigned_to' | 'due_date' | 'cost_impact' | 'schedule_impact' | 'file_ids' | 'raised_by'>;
+export type RfiUpdate = Partial<Omit<Rfi, 'id' | 'project_id' | 'number' | 'raised_by' | 'created_at' | 'updated_at'>>;
+
+export interface RfiResponseThread extends RfiResponse {
+  replies: RfiResponseThread[];
+}
+
+// Nest replies under the response they answer, oldest first
+export const threadResponses = (responses: RfiResponse[]): RfiResponseThread[] => {
+  const nodes = new Map<number, RfiResponseThread>();
+  const sorted = [...responses].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id);
+  sorted.forEach(response => nodes.set(response.id, { ...response, replies: [] }));
+
+  const roots: RfiResponseThread[] = [];
+  for (const response of sorted) {
+    const node = nodes.get(response.id)!;
+    const parent = response.parent_id !== null ? nodes.get(response.parent_id) : undefined;
+    (parent ? parent.replies : roots).push(node);
+  }
+  return roots;
+};
+
+export class RfiService {
+  static async getRfis(projectId: number, filters: { status?: RfiStatus; assignedTo?: string } = {}): Promise<Rfi[]> {
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('rfis')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('number', { ascending: false });
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.assignedTo) {
+        query = query.eq('assigned_to', filters.assignedTo);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching RFIs:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getRfis(projectId)
+        .filter(r => !filters.status || r.status === filters.status)
+        .filter(r => !filters.assignedTo || r.assigned_to === filters.assignedTo);
+    }
+  }
+
+  static async getRfi(projectId: number, id: number): Promise<Rfi | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('rfis')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getRfi(projectId, id);
+    }
+  }
+
+  static async createRfi(projectId: number, rfiData: RfiInput & Partial<Pick<Rfi, 'status' | 'opened_at'>>): Promise<Rfi | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await insertWithNextNumber('rfis', projectId, number => supabase
+        .from('rfis')
+        .insert({ ...rfiData, project_id: projectId, number })
+        .select()
+        .single());
+
+      if (error || !data) {
+        console.error('Error creating RFI:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createRfi({ ...rfiData, project_id: projectId });
+    }
+  }
+
+  static async updateRfi(projectId: number, id: number, updates: RfiUpdate): Promise<Rfi | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('rfis')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating RFI:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateRfi(projectId, id, updates);
+    }
+  }
+
+  static async deleteRfi(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('rfis')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting RFI:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteRfi(projectId, id);
+    }
+  }
+
+  static async getResponses(rfiId: number): Promise<RfiResponse[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('rfi_responses')
+        .select('*')
+        .eq('rfi_id', rfiId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching RFI responses:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getRfiResponses(rfiId);
+    }
+  }
+
+  static async addResponse(
+    responseData: Pick<RfiResponse, 'rfi_id' | 'parent_id' | 'body' | 'is_answer' | 'file_ids' | 'author_id'>
+  ): Promise<RfiResponse | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('rfi_responses')
+        .insert(responseData)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error adding RFI response:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.addRfiResponse(responseData);
+    }
+  }
+
+  /**
+   * Open RFIs that carry a cost or schedule impact, across projects. These
+   * feed the risk alerts in analytics.
+   */
+  static async getImpactRfis(projectIds: number[]): Promise<Rfi[]> {
+    if (projectIds.length === 0) {
+      return [];
+    }
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('rfis')
+        .select('*')
+        .in('project_id', projectIds)
+        .in('status', ['open', 'answered'])
+        .or('cost_impact.eq.true,schedule_impact.eq.true');
+
+      if (error) {
+        console.error('Error fetching impact RFIs:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return projectIds
+        .flatMap(projectId => FallbackDatabase.getRfis(projectId))
+        .filter(r => (r.status === 'open' || r.status === 'answered') && (r.cost_impact || r.schedule_impact));
+    }
+  }
+
+  private static async getUnnotifiedOverdueRfis(): Promise<Rfi[]> {
+    const today = new Date().toISOString().split('T')[0];
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('rfis')
+        .select('*')
+        .eq('status', 'open')
+        .lt('due_date', today)
+        .is('overdue_notified_at', null);
+
+      if (error) {
+        console.error('Error fetching overdue RFIs:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getOpenRfis()
+        .filter(r => r.due_date && r.due_date < today && !r.overdue_notified_at);
+    }
+  }
+
+  /**
+   * Remind the assignee and the person who raised each RFI that has passed
+   * its due date. Each RFI is reminded once per due date.
+   */
+  static async notifyOverdue(notificationService: NotificationService): Promise<number> {
+    const overdue = await this.getUnnotifiedOverdueRfis();
+
+    for (const rfi of overdue) {
+      const project = await ProjectsService.getProjectById(rfi.project_id, rfi.raised_by || rfi.assigned_to || '');
+      const recipients = new Set([rfi.assigned_to, rfi.raised_by].filter((id): id is string => !!id));
+
+      for (const userId of recipients) {
+        notificationService.notifyRfiOverdue(userId, rfi.number, rfi.subject, project?.name || 'a project', rfi.project_id, rfi.id);
+      }
+
+      await this.updateRfi(rfi.project_id, rfi.id, { overdue_notified_at: new Date().toISOString() });
+    }
+
+    return overdue.length;
+  }
+}
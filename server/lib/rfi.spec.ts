@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { canTransitionRfi, rfiRiskSeverity } from "./rfi";
+import { threadResponses } from "./rfi-service";
+
+describe("canTransitionRfi", () => {
+  it("should follow draft → open → answered → closed and allow reopening", () => {
+    expect(canTransitionRfi("draft", "open")).toBe(true);
+    expect(canTransitionRfi("draft", "answered")).toBe(false);
+    expect(canTransitionRfi("open", "closed")).toBe(false);
+    expect(canTransitionRfi("answered", "open")).toBe(true);
+    expect(canTransitionRfi("closed", "open")).toBe(false);
+  });
+});
+
+describe("rfiRiskSeverity", () => {
+  const rfi = { status: "open" as const, due_date: "2024-06-10", cost_impact: true, schedule_impact: false };
+
+  it("should escalate overdue or doubly-impacting RFIs", () => {
+    expect(rfiRiskSeverity(rfi, "2024-06-01")).toBe("medium");
+    expect(rfiRiskSeverity(rfi, "2024-06-11")).toBe("high");
+    expect(rfiRiskSeverity({ ...rfi, schedule_impact: true }, "2024-06-01")).toBe("high");
+    expect(rfiRiskSeverity({ ...rfi, status: "answered" }, "2024-06-11")).toBe("low");
+    expect(rfiRiskSeverity({ ...rfi, status: "closed" }, "2024-06-11")).toBeNull();
+    expect(rfiRiskSeverity({ ...rfi, cost_impact: false }, "2024-06-11")).toBeNull();
+  });
+});
+
+describe("threadResponses", () => {
+  it("should nest replies under their parent in posting order", () => {
+    const response = (id: number, parent_id: number | null, created_at: string) => ({
+      id, rfi_id: 1, parent_id, body: `#${id}`, is_answer: false, file_ids: [], author_id: "1", created_at,
+    });
+    const threads = threadResponses([
+      response(3, 1, "2024-06-03T00:00:00Z"),
+      response(1, null, "2024-06-01T00:00:00Z"),
+      response(2, null, "2024-06-02T00:00:00Z"),
+      response(4, 3, "2024-06-04T00:00:00Z"),
+    ]);
+
+    expect(threads.map(t => t.id)).toEqual([1, 2]);
+    expect(threads[0].replies.map(r => r.id)).toEqual([3]);
+    expect(threads[0].replies[0].replies.map(r => r.id)).toEqual([4]);
+  });
+});
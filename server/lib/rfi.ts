@@ -0,0 +1,36 @@
+/**
+ * RFI workflow rules: draft → open → answered → closed. An answered RFI can
+ * be reopened when the answer does not resolve the question.
+ */
+
+export type RfiStatus = 'draft' | 'open' | 'answered' | 'closed';
+
+export const RFI_TRANSITIONS: Record<RfiStatus, RfiStatus[]> = {
+  draft: ['open'],
+  open: ['answered'],
+  answered: ['closed', 'open'],
+  closed: [],
+};
+
+export const canTransitionRfi = (from: RfiStatus, to: RfiStatus) => RFI_TRANSITIONS[from].includes(to);
+
+export const isRfiOverdue = (
+  rfi: { status: RfiStatus; due_date: string | null },
+  today: string = new Date().toISOString().split('T')[0]
+) => rfi.status === 'open' && !!rfi.due_date && rfi.due_date < today;
+
+/**
+ * Severity an unresolved RFI contributes to project risk: impact on both
+ * cost and schedule, or one impact while overdue, is high.
+ */
+export const rfiRiskSeverity = (
+  rfi: { status: RfiStatus; due_date: string | null; cost_impact: boolean; schedule_impact: boolean },
+  today?: string
+): 'high' | 'medium' | 'low' | null => {
+  if (rfi.status === 'draft' || rfi.status === 'closed') return null;
+
+  const impacts = Number(rfi.cost_impact) + Number(rfi.schedule_impact);
+  if (impacts === 0) return null;
+  if (impacts === 2 || isRfiOverdue(rfi, today)) return 'high';
+  return rfi.status === 'answered' ? 'low' : 'medium';
+};
@@ -0,0 +1,183 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import {
+  calculateProjectRiskLevel,
+  isRiskReviewOverdue,
+  RiskLevel,
+  riskLevelForScore,
+  riskScore,
+  RiskStatus,
+} from './risks';
+
+export type ProjectRisk = Database['public']['Tables']['project_risks']['Row'];
+export type ProjectRiskInput = Pick<ProjectRisk, 'title' | 'description' | 'category' | 'probability' | 'impact' | 'owner_id' |
+  'response_strategy' | 'mitigation_actions' | 'review_date' | 'created_by'>;
+export type ProjectRiskUpdate = Partial<Omit<ProjectRisk, 'id' | 'project_id' | 'created_by' | 'created_at' | 'updated_at'>>;
+
+export interface ScoredRisk extends ProjectRisk {
+  score: number;
+  level: RiskLevel;
+  review_overdue: boolean;
+}
+
+// Highest score first, so the register reads worst-first
+const byScore = (a: ProjectRisk, b: ProjectRisk) => riskScore(b) - riskScore(a) || a.id - b.id;
+
+export class RiskRegisterService {
+  static async getRisks(projectId: number, filters: { status?: RiskStatus } = {}): Promise<ProjectRisk[]> {
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('project_risks')
+        .select('*')
+        .eq('project_id', projectId);
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching project risks:', error);
+        return [];
+      }
+
+      return (data || []).sort(byScore);
+    } else {
+      return FallbackDatabase.getProjectRisks(projectId)
+        .filter(r => !filters.status || r.status === filters.status);
+    }
+  }
+
+  static async getRisksForProjects(projectIds: number[]): Promise<ProjectRisk[]> {
+    if (projectIds.length === 0) {
+      return [];
+    }
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_risks')
+        .select('*')
+        .in('project_id', projectIds);
+
+      if (error) {
+        console.error('Error fetching project risks:', error);
+        return [];
+      }
+
+      return (data || []).sort(byScore);
+    } else {
+      return projectIds.flatMap(projectId => FallbackDatabase.getProjectRisks(projectId)).sort(byScore);
+    }
+  }
+
+  static async getRisk(projectId: number, id: number): Promise<ProjectRisk | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_risks')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getProjectRisk(projectId, id);
+    }
+  }
+
+  static async createRisk(projectId: number, riskData: ProjectRiskInput): Promise<ProjectRisk | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_risks')
+        .insert({ ...riskData, project_id: projectId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating project risk:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createProjectRisk({ ...riskData, project_id: projectId });
+    }
+  }
+
+  static async updateRisk(projectId: number, id: number, updates: ProjectRiskUpdate): Promise<ProjectRisk | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_risks')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating project risk:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateProjectRisk(projectId, id, updates);
+    }
+  }
+
+  static async deleteRisk(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('project_risks')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting project risk:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteProjectRisk(projectId, id);
+    }
+  }
+
+  /**
+   * Store the computed risk level on the project row so list views and
+   * analytics read the register rather than a typed-in rating.
+   */
+  static async syncProjectRiskLevel(projectId: number): Promise<RiskLevel> {
+    const riskLevel = calculateProjectRiskLevel(await this.getRisks(projectId));
+
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('projects')
+        .update({ risk_level: riskLevel })
+        .eq('id', projectId);
+
+      if (error) {
+        console.error('Error syncing project risk level:', error);
+      }
+    } else {
+      FallbackDatabase.updateProject(projectId, { risk_level: riskLevel });
+    }
+
+    return riskLevel;
+  }
+
+  static withScore(risk: ProjectRisk): ScoredRisk {
+    const score = riskScore(risk);
+    return {
+      ...risk,
+      score,
+      level: riskLevelForScore(score),
+      review_overdue: isRiskReviewOverdue(risk),
+    };
+  }
+}
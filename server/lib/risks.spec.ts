@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { buildRiskHeatMap, calculateProjectRiskLevel, riskLevelForScore, RiskRecord } from "./risks";
+import { fixture } from "../test-utils";
+
+const riskRecord = fixture<RiskRecord & { id: number }>({
+  id: 1,
+  probability: 1,
+  impact: 1,
+  status: "open",
+  review_date: null,
+});
+
+const risk = (id: number, probability: number, impact: number, overrides: Partial<RiskRecord> = {}) =>
+  riskRecord({ id, probability, impact, ...overrides });
+
+describe("riskLevelForScore", () => {
+  it("should band the 5×5 matrix into low, medium and high", () => {
+    expect(riskLevelForScore(4)).toBe("low");
+    expect(riskLevelForScore(5)).toBe("medium");
+    expect(riskLevelForScore(12)).toBe("medium");
+    expect(riskLevelForScore(15)).toBe("high");
+  });
+});
+
+describe("calculateProjectRiskLevel", () => {
+  it("should take the highest level among live risks", () => {
+    expect(calculateProjectRiskLevel([])).toBe("low");
+    expect(calculateProjectRiskLevel([risk(1, 2, 3), risk(2, 1, 2)])).toBe("medium");
+    expect(calculateProjectRiskLevel([risk(1, 2, 3), risk(2, 5, 4, { status: "closed" })])).toBe("medium");
+    expect(calculateProjectRiskLevel([risk(1, 4, 4, { status: "monitoring" })])).toBe("high");
+  });
+});
+
+describe("buildRiskHeatMap", () => {
+  it("should place live risks in their cell, highest probability first", () => {
+    const cells = buildRiskHeatMap([risk(1, 5, 1), risk(2, 5, 1), risk(3, 1, 5), risk(4, 3, 3, { status: "closed" })]);
+
+    expect(cells).toHaveLength(25);
+    expect(cells[0]).toEqual({ probability: 5, impact: 1, level: "medium", count: 2, riskIds: [1, 2] });
+    expect(cells[24]).toMatchObject({ probability: 1, impact: 5, count: 1 });
+    expect(cells.find(c => c.probability === 3 && c.impact === 3)?.count).toBe(0);
+  });
+});
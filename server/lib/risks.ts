@@ -0,0 +1,69 @@
+/**
+ * Risk register scoring on a 5×5 probability/impact matrix. A risk's score is
+ * probability × impact; the project's risk level is the highest level among
+ * its risks that are still live.
+ */
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type RiskStatus = 'open' | 'monitoring' | 'closed';
+export type RiskResponseStrategy = 'avoid' | 'mitigate' | 'transfer' | 'accept';
+
+export const RISK_SCALE = [1, 2, 3, 4, 5] as const;
+
+export interface RiskRecord {
+  probability: number;
+  impact: number;
+  status: RiskStatus;
+  review_date: string | null;
+}
+
+export interface RiskHeatMapCell {
+  probability: number;
+  impact: number;
+  level: RiskLevel;
+  count: number;
+  riskIds: number[];
+}
+
+const LEVEL_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const riskScore = (risk: Pick<RiskRecord, 'probability' | 'impact'>) => risk.probability * risk.impact;
+
+// 1–4 low, 5–12 medium, 15–25 high
+export const riskLevelForScore = (score: number): RiskLevel => score >= 15 ? 'high' : score >= 5 ? 'medium' : 'low';
+
+export const isRiskLive = (risk: Pick<RiskRecord, 'status'>) => risk.status !== 'closed';
+
+export const isRiskReviewOverdue = (risk: RiskRecord, asOf: string = today()) =>
+  isRiskLive(risk) && !!risk.review_date && risk.review_date < asOf;
+
+/** Highest level among live risks; a project with none is low risk. */
+export function calculateProjectRiskLevel(risks: RiskRecord[]): RiskLevel {
+  return risks
+    .filter(isRiskLive)
+    .map(risk => riskLevelForScore(riskScore(risk)))
+    .reduce<RiskLevel>((highest, level) => LEVEL_RANK[level] > LEVEL_RANK[highest] ? level : highest, 'low');
+}
+
+/**
+ * Every cell of the matrix with the live risks that fall in it, ordered from
+ * the highest probability row down so it renders top to bottom.
+ */
+export function buildRiskHeatMap<T extends RiskRecord & { id: number }>(risks: T[]): RiskHeatMapCell[] {
+  const live = risks.filter(isRiskLive);
+
+  return [...RISK_SCALE].reverse().flatMap(probability => RISK_SCALE.map(impact => {
+    const riskIds = live
+      .filter(risk => risk.probability === probability && risk.impact === impact)
+      .map(risk => risk.id);
+    return {
+      probability,
+      impact,
+      level: riskLevelForScore(probability * impact),
+      count: riskIds.length,
+      riskIds,
+    };
+  }));
+}
@@ -0,0 +1,318 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { calculateSchedule, Closure, ScheduleOptions, ScheduleResult, ScheduleTaskInput } from './scheduler';
+
+export type ProjectSchedule = Database['public']['Tables']['project_schedules']['Row'];
+export type ProjectTask = Database['public']['Tables']['project_tasks']['Row'];
+export type ProjectClosure = Database['public']['Tables']['project_closures']['Row'];
+
+export type ProjectScheduleSettings = Pick<ProjectSchedule, 'start_date' | 'end_date' | 'working_hours' | 'resource_limits' | 'shifts'>;
+export type ProjectTaskInput = Pick<ProjectTask, 'task_key' | 'name' | 'duration' | 'dependencies' | 'resources' | 'constraints'> &
+  Partial<Pick<ProjectTask, 'kind'>>;
+export type ProjectClosureInput = Pick<ProjectClosure, 'name' | 'kind' | 'start_date' | 'end_date' | 'uid' | 'created_by'>;
+export type ProjectTaskUpdate = Partial<Omit<ProjectTaskInput, 'task_key'>>;
+
+export const toScheduleInput = (task: Pick<ProjectTask, 'task_key' | 'name' | 'duration' | 'dependencies' | 'resources' | 'constraints'>): ScheduleTaskInput => ({
+  id: task.task_key,
+  name: task.name,
+  duration: task.duration,
+  dependencies: task.dependencies || [],
+  resources: task.resources || [],
+  constraints: task.constraints || {},
+});
+
+export const toScheduleOptions = (
+  settings: Partial<ProjectScheduleSettings> | null,
+  defaultStartDate?: string | null,
+  closures: Closure[] = []
+): ScheduleOptions => ({
+  startDate: settings?.start_date || defaultStartDate || new Date().toISOString().split('T')[0],
+  endDate: settings?.end_date ?? null,
+  workingHours: settings?.working_hours ?? null,
+  shifts: settings?.shifts ?? [],
+  closures: closures.map(closure => ({
+    start_date: closure.start_date.split('T')[0],
+    end_date: closure.end_date.split('T')[0],
+  })),
+  resourceLimits: settings?.resource_limits ?? {},
+});
+
+export class ScheduleService {
+  static async getSettings(projectId: number): Promise<ProjectSchedule | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_schedules')
+        .select('*')
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getProjectSchedule(projectId);
+    }
+  }
+
+  static async saveSettings(projectId: number, settings: Partial<ProjectScheduleSettings>): Promise<ProjectSchedule | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_schedules')
+        .upsert({ project_id: projectId, ...settings }, { onConflict: 'project_id' })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error saving schedule settings:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.upsertProjectSchedule(projectId, settings);
+    }
+  }
+
+  static async getTasks(projectId: number): Promise<ProjectTask[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('id', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching project tasks:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getProjectTasks(projectId);
+    }
+  }
+
+  static async createTask(projectId: number, taskData: ProjectTaskInput): Promise<ProjectTask | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .insert({ ...taskData, project_id: projectId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating project task:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createProjectTask(projectId, taskData);
+    }
+  }
+
+  static async updateTask(projectId: number, taskKey: string, updates: ProjectTaskUpdate): Promise<ProjectTask | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .update(updates)
+        .eq('project_id', projectId)
+        .eq('task_key', taskKey)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating project task:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateProjectTask(projectId, taskKey, updates);
+    }
+  }
+
+  static async deleteTask(projectId: number, taskKey: string): Promise<boolean> {
+    // Drop the task from its successors' dependency lists first
+    const tasks = await this.getTasks(projectId);
+    for (const task of tasks) {
+      if (task.dependencies.includes(taskKey)) {
+        await this.updateTask(projectId, task.task_key, {
+          dependencies: task.dependencies.filter(dependency => dependency !== taskKey),
+        });
+      }
+    }
+
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('project_tasks')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('task_key', taskKey);
+
+      if (error) {
+        console.error('Error deleting project task:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteProjectTask(projectId, taskKey);
+    }
+  }
+
+  static async replaceTasks(projectId: number, tasks: ProjectTaskInput[]): Promise<ProjectTask[] | null> {
+    if (isSupabaseConfigured()) {
+      const { error: deleteError } = await supabase
+        .from('project_tasks')
+        .delete()
+        .eq('project_id', projectId);
+
+      if (deleteError) {
+        console.error('Error clearing project tasks:', deleteError);
+        return null;
+      }
+
+      if (tasks.length === 0) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .insert(tasks.map(task => ({ ...task, project_id: projectId })))
+        .select();
+
+      if (error) {
+        console.error('Error saving project tasks:', error);
+        return null;
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.replaceProjectTasks(projectId, tasks);
+    }
+  }
+
+  static async getClosures(projectId: number): Promise<ProjectClosure[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_closures')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('start_date', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching project closures:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getProjectClosures(projectId);
+    }
+  }
+
+  static async getClosure(projectId: number, closureId: number): Promise<ProjectClosure | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_closures')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('id', closureId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getProjectClosure(projectId, closureId);
+    }
+  }
+
+  static async createClosure(projectId: number, closureData: ProjectClosureInput): Promise<ProjectClosure | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_closures')
+        .insert({ ...closureData, project_id: projectId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating project closure:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createProjectClosure(projectId, closureData);
+    }
+  }
+
+  static async deleteClosure(projectId: number, closureId: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('project_closures')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('id', closureId);
+
+      if (error) {
+        console.error('Error deleting project closure:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteProjectClosure(projectId, closureId);
+    }
+  }
+
+  /**
+   * Recompute the project's schedule from its stored tasks, settings and closures and
+   * write the resulting dates and float back onto each task.
+   */
+  static async recalculate(projectId: number, defaultStartDate?: string | null): Promise<ScheduleResult> {
+    const [settings, tasks, closures] = await Promise.all([
+      this.getSettings(projectId),
+      this.getTasks(projectId),
+      this.getClosures(projectId),
+    ]);
+
+    const result = calculateSchedule(tasks.map(toScheduleInput), toScheduleOptions(settings, defaultStartDate, closures));
+
+    await Promise.all(result.tasks.map(task => {
+      const computed = {
+        early_start: task.earlyStart,
+        early_finish: task.earlyFinish,
+        late_start: task.lateStart,
+        late_finish: task.lateFinish,
+        total_float: task.totalFloat,
+        free_float: task.freeFloat,
+        is_critical: task.isCritical,
+        scheduled_start: task.scheduledStart,
+        scheduled_end: task.scheduledEnd,
+      };
+
+      if (isSupabaseConfigured()) {
+        return supabase
+          .from('project_tasks')
+          .update(computed)
+          .eq('project_id', projectId)
+          .eq('task_key', task.id)
+          .then(({ error }) => {
+            if (error) console.error('Error saving computed schedule:', error);
+          });
+      }
+
+      FallbackDatabase.updateProjectTask(projectId, task.id, computed);
+      return Promise.resolve();
+    }));
+
+    return result;
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { calculateSchedule, validateScheduleInput, ScheduleTaskInput } from "./scheduler";
+
+// 2024-01-01 is a Monday
+const options = { startDate: "2024-01-01" };
+
+const network: ScheduleTaskInput[] = [
+  { id: "foundation", name: "Foundation", duration: 5 },
+  { id: "framing", name: "Framing", duration: 10, dependencies: ["foundation"] },
+  { id: "plumbing", name: "Plumbing", duration: 3, dependencies: ["foundation"] },
+  { id: "finishing", name: "Finishing", duration: 4, dependencies: ["framing", "plumbing"] },
+];
+
+describe("calculateSchedule", () => {
+  it("should compute early and late dates with float", () => {
+    const result = calculateSchedule(network, options);
+    const plumbing = result.tasks.find((task) => task.id === "plumbing")!;
+
+    expect(result.cpmDuration).toBe(19);
+    expect(plumbing.earlyStart).toBe(5);
+    expect(plumbing.lateStart).toBe(12);
+    expect(plumbing.totalFloat).toBe(7);
+    expect(plumbing.freeFloat).toBe(7);
+    expect(result.criticalPath).toEqual(["foundation", "framing", "finishing"]);
+  });
+
+  it("should skip non-working days", () => {
+    const result = calculateSchedule(network, {
+      ...options,
+      workingHours: { start: "07:00", end: "15:00" },
+    });
+    const framing = result.tasks.find((task) => task.id === "framing")!;
+
+    expect(framing.scheduledStart).toBe("2024-01-08T07:00:00.000Z");
+    expect(framing.scheduledEnd).toBe("2024-01-19T15:00:00.000Z");
+    expect(result.hoursPerDay).toBe(8);
+  });
+
+  it("should skip closures and report the work days they took", () => {
+    const result = calculateSchedule(network, {
+      ...options,
+      closures: [
+        { start_date: "2024-01-01", end_date: "2024-01-01" },
+        { start_date: "2024-01-12", end_date: "2024-01-16" },
+      ],
+    });
+    const foundation = result.tasks.find((task) => task.id === "foundation")!;
+    const framing = result.tasks.find((task) => task.id === "framing")!;
+
+    expect(foundation.scheduledStart).toBe("2024-01-02T08:00:00.000Z");
+    expect(framing.scheduledStart).toBe("2024-01-09T08:00:00.000Z");
+    expect(framing.scheduledEnd).toBe("2024-01-25T17:00:00.000Z");
+    expect(result.closedDays).toEqual(["2024-01-01", "2024-01-12", "2024-01-15", "2024-01-16"]);
+  });
+
+  it("should work shifts instead of the working hours", () => {
+    const result = calculateSchedule([{ id: "pour", name: "Pour", duration: 1 }], {
+      ...options,
+      shifts: [
+        { name: "Late", start: "14:00", end: "22:00" },
+        { name: "Early", start: "06:00", end: "14:00" },
+      ],
+    });
+
+    expect(result.tasks[0].scheduledStart).toBe("2024-01-01T06:00:00.000Z");
+    expect(result.tasks[0].scheduledEnd).toBe("2024-01-01T22:00:00.000Z");
+    expect(result.hoursPerDay).toBe(16);
+  });
+
+  it("should delay tasks that exceed resource limits", () => {
+    const tasks: ScheduleTaskInput[] = [
+      { id: "a", name: "A", duration: 3, resources: ["crane"] },
+      { id: "b", name: "B", duration: 2, resources: ["crane"] },
+    ];
+    const result = calculateSchedule(tasks, { ...options, resourceLimits: { crane: 1 } });
+    const b = result.tasks.find((task) => task.id === "b")!;
+
+    expect(result.cpmDuration).toBe(3);
+    expect(result.leveledDuration).toBe(5);
+    expect(b.leveledStart).toBe(3);
+    expect(b.resourceDelay).toBe(3);
+    expect(result.resourceUsage.crane).toEqual({ limit: 1, peak: 1, utilization: 1 });
+  });
+
+  it("should report slack against the requested end date", () => {
+    const result = calculateSchedule(network, { ...options, endDate: "2024-01-26" });
+    expect(result.deadlineVariance).toBe(1);
+  });
+});
+
+describe("validateScheduleInput", () => {
+  it("should reject dependency cycles", () => {
+    const tasks: ScheduleTaskInput[] = [
+      { id: "a", name: "A", duration: 1, dependencies: ["b"] },
+      { id: "b", name: "B", duration: 1, dependencies: ["a"] },
+    ];
+    expect(validateScheduleInput(tasks, options)).toBe("Task dependencies contain a cycle");
+  });
+
+  it("should reject unknown dependencies", () => {
+    const tasks: ScheduleTaskInput[] = [{ id: "a", name: "A", duration: 1, dependencies: ["x"] }];
+    expect(validateScheduleInput(tasks, options)).toMatch(/unknown task "x"/);
+  });
+
+  it("should reject overlapping shifts and backwards closures", () => {
+    expect(validateScheduleInput([], {
+      ...options,
+      shifts: [{ name: "Day", start: "07:00", end: "15:00" }, { name: "Night", start: "14:00", end: "22:00" }],
+    })).toBe('Shift "Night" overlaps shift "Day"');
+    expect(validateScheduleInput([], {
+      ...options,
+      closures: [{ start_date: "2024-12-27", end_date: "2024-12-24" }],
+    })).toBe("A closure cannot end before it starts");
+  });
+
+  it("should reject dates and durations too far from the schedule start", () => {
+    expect(validateScheduleInput(
+      [{ id: "a", name: "A", duration: 1, constraints: { startNoEarlierThan: "9999-01-01" } }],
+      options
+    )).toBe('Task "a" must start within 20 years of the schedule start');
+    expect(validateScheduleInput([], { ...options, endDate: "1900-01-01" }))
+      .toBe("Schedule end date must be within 20 years of the start");
+    expect(validateScheduleInput([{ id: "a", name: "A", duration: 1_000_000 }], options))
+      .toMatch(/cannot add up to more than/);
+    expect(validateScheduleInput(
+      [{ id: "a", name: "A", duration: 5, constraints: { startNoEarlierThan: "2030-06-01" } }],
+      { ...options, endDate: "2031-01-01" }
+    )).toBeNull();
+  });
+});
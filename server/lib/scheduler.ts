@@ -0,0 +1,496 @@
+/**
+ * Critical Path Method scheduler
+ * Forward/backward pass, float, critical path, working calendars and
+ * serial resource leveling. Durations are expressed in working days.
+ */
+
+export interface ScheduleTaskInput {
+  id: string;
+  name: string;
+  duration: number;
+  dependencies?: string[];
+  resources?: string[];
+  constraints?: Record<string, any>;
+}
+
+export interface WorkingHours {
+  start: string;
+  end: string;
+  days?: number[];
+}
+
+// A shift within the working day; shifts replace the working hours' start and end
+export interface Shift {
+  name: string;
+  start: string;
+  end: string;
+}
+
+// Whole days off, start and end inclusive
+export interface Closure {
+  start_date: string;
+  end_date: string;
+}
+
+export interface ScheduleOptions {
+  startDate: string;
+  endDate?: string | null;
+  workingHours?: WorkingHours | null;
+  shifts?: Shift[] | null;
+  closures?: Closure[] | null;
+  resourceLimits?: Record<string, number> | null;
+}
+
+export interface ScheduledTask extends ScheduleTaskInput {
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  totalFloat: number;
+  freeFloat: number;
+  isCritical: boolean;
+  leveledStart: number;
+  leveledFinish: number;
+  resourceDelay: number;
+  scheduledStart: string;
+  scheduledEnd: string;
+}
+
+export interface ResourceUsage {
+  limit: number | null;
+  peak: number;
+  utilization: number | null;
+}
+
+export interface ScheduleResult {
+  tasks: ScheduledTask[];
+  criticalPath: string[];
+  cpmDuration: number;
+  leveledDuration: number;
+  startDate: string;
+  finishDate: string;
+  deadlineVariance: number | null;
+  hoursPerDay: number;
+  // Work days between the start and finish lost to closures
+  closedDays: string[];
+  resourceUsage: Record<string, ResourceUsage>;
+}
+
+const DEFAULT_WORKING_HOURS: Required<WorkingHours> = {
+  start: '08:00',
+  end: '17:00',
+  days: [1, 2, 3, 4, 5],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest closure accepted, so a typo in a year can't close a decade
+const MAX_CLOSURE_DAYS = 366;
+
+// Furthest a date may sit from the schedule start, and the most working days
+// the tasks may add up to, so the calendar never walks further than twice this
+export const MAX_SCHEDULE_YEARS = 20;
+const MAX_SCHEDULE_DAYS = MAX_SCHEDULE_YEARS * 366;
+
+const parseTime = (value: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return NaN;
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 24 || minutes > 59) return NaN;
+  return hours * 60 + minutes;
+};
+
+const toUtcDay = (value: string): Date => {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+const dayKey = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Check a task network before scheduling. Returns a message describing the
+ * first problem found, or null when the network can be scheduled.
+ */
+export function validateScheduleInput(tasks: ScheduleTaskInput[], options: ScheduleOptions): string | null {
+  const ids = new Set<string>();
+  for (const task of tasks) {
+    if (ids.has(task.id)) return `Duplicate task id "${task.id}"`;
+    ids.add(task.id);
+    if (!Number.isInteger(task.duration) || task.duration < 0) {
+      return `Task "${task.id}" must have a whole, non-negative duration in working days`;
+    }
+  }
+
+  for (const task of tasks) {
+    for (const dependency of task.dependencies || []) {
+      if (dependency === task.id) return `Task "${task.id}" cannot depend on itself`;
+      if (!ids.has(dependency)) return `Task "${task.id}" depends on unknown task "${dependency}"`;
+    }
+    const notBefore = task.constraints?.startNoEarlierThan;
+    if (notBefore !== undefined && isNaN(new Date(notBefore).getTime())) {
+      return `Task "${task.id}" has an invalid startNoEarlierThan date`;
+    }
+  }
+
+  if (topologicalOrder(tasks) === null) {
+    return 'Task dependencies contain a cycle';
+  }
+
+  if (isNaN(new Date(options.startDate).getTime())) return 'Invalid schedule start date';
+  if (options.endDate && isNaN(new Date(options.endDate).getTime())) return 'Invalid schedule end date';
+
+  const origin = toUtcDay(options.startDate).getTime();
+  const withinRange = (value: string) => Math.abs(toUtcDay(value).getTime() - origin) <= MAX_SCHEDULE_DAYS * DAY_MS;
+  for (const task of tasks) {
+    const notBefore = task.constraints?.startNoEarlierThan;
+    if (notBefore !== undefined && !withinRange(notBefore)) {
+      return `Task "${task.id}" must start within ${MAX_SCHEDULE_YEARS} years of the schedule start`;
+    }
+  }
+  if (options.endDate && !withinRange(options.endDate)) {
+    return `Schedule end date must be within ${MAX_SCHEDULE_YEARS} years of the start`;
+  }
+  if (tasks.reduce((sum, task) => sum + task.duration, 0) > MAX_SCHEDULE_DAYS) {
+    return `Tasks cannot add up to more than ${MAX_SCHEDULE_DAYS} working days`;
+  }
+
+  if (options.workingHours) {
+    const start = parseTime(options.workingHours.start);
+    const end = parseTime(options.workingHours.end);
+    if (isNaN(start) || isNaN(end) || end <= start) {
+      return 'Working hours must be HH:mm with the end after the start';
+    }
+    const days = options.workingHours.days;
+    if (days && (days.length === 0 || days.some(day => !Number.isInteger(day) || day < 0 || day > 6))) {
+      return 'Working days must be a non-empty list of weekdays 0-6';
+    }
+  }
+
+  const shifts = [...(options.shifts || [])].sort((a, b) => parseTime(a.start) - parseTime(b.start));
+  for (const [i, shift] of shifts.entries()) {
+    const start = parseTime(shift.start);
+    const end = parseTime(shift.end);
+    if (isNaN(start) || isNaN(end) || end <= start) {
+      return `Shift "${shift.name}" must be HH:mm with the end after the start`;
+    }
+    if (i > 0 && start < parseTime(shifts[i - 1].end)) {
+      return `Shift "${shift.name}" overlaps shift "${shifts[i - 1].name}"`;
+    }
+  }
+
+  for (const closure of options.closures || []) {
+    const start = new Date(closure.start_date).getTime();
+    const end = new Date(closure.end_date).getTime();
+    if (isNaN(start) || isNaN(end)) return 'Closures need valid start and end dates';
+    if (end < start) return 'A closure cannot end before it starts';
+    if ((end - start) / DAY_MS >= MAX_CLOSURE_DAYS) return `A closure cannot be longer than ${MAX_CLOSURE_DAYS} days`;
+  }
+
+  for (const [resource, limit] of Object.entries(options.resourceLimits || {})) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      return `Resource limit for "${resource}" must be a whole number of at least 1`;
+    }
+  }
+
+  return null;
+}
+
+// Kahn's algorithm; returns null when the graph has a cycle
+function topologicalOrder(tasks: ScheduleTaskInput[]): ScheduleTaskInput[] | null {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const inDegree = new Map(tasks.map(task => [task.id, 0]));
+  const successors = new Map<string, string[]>(tasks.map(task => [task.id, []]));
+
+  for (const task of tasks) {
+    for (const dependency of task.dependencies || []) {
+      if (!byId.has(dependency)) continue;
+      inDegree.set(task.id, inDegree.get(task.id)! + 1);
+      successors.get(dependency)!.push(task.id);
+    }
+  }
+
+  const queue = tasks.filter(task => inDegree.get(task.id) === 0).map(task => task.id);
+  const order: ScheduleTaskInput[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(byId.get(id)!);
+    for (const successor of successors.get(id)!) {
+      const remaining = inDegree.get(successor)! - 1;
+      inDegree.set(successor, remaining);
+      if (remaining === 0) queue.push(successor);
+    }
+  }
+
+  return order.length === tasks.length ? order : null;
+}
+
+/**
+ * Maps working-day offsets onto calendar dates. Offset 0 is the first working
+ * day on or after the schedule start. A working day is one of the working
+ * week's days that no closure covers.
+ */
+class WorkingCalendar {
+  private readonly days: Set<number>;
+  private readonly closed = new Set<string>();
+  private readonly startMinutes: number;
+  private readonly endMinutes: number;
+  private readonly minutesPerDay: number;
+  private readonly start: Date;
+  private readonly origin: Date;
+  private readonly cache: Date[] = [];
+
+  constructor(startDate: string, workingHours?: WorkingHours | null, shifts?: Shift[] | null, closures?: Closure[] | null) {
+    const hours = { ...DEFAULT_WORKING_HOURS, ...(workingHours || {}) };
+    this.days = new Set(hours.days);
+
+    // Shifts, when set, decide when the day starts and ends and how much of it is worked
+    if (shifts && shifts.length > 0) {
+      const spans = shifts.map(shift => [parseTime(shift.start), parseTime(shift.end)]);
+      this.startMinutes = Math.min(...spans.map(([start]) => start));
+      this.endMinutes = Math.max(...spans.map(([, end]) => end));
+      this.minutesPerDay = spans.reduce((sum, [start, end]) => sum + end - start, 0);
+    } else {
+      this.startMinutes = parseTime(hours.start);
+      this.endMinutes = parseTime(hours.end);
+      this.minutesPerDay = this.endMinutes - this.startMinutes;
+    }
+
+    for (const closure of closures || []) {
+      const last = toUtcDay(closure.end_date).getTime();
+      for (let day = toUtcDay(closure.start_date).getTime(); day <= last; day += DAY_MS) {
+        this.closed.add(dayKey(new Date(day)));
+      }
+    }
+
+    this.start = toUtcDay(startDate);
+    let origin = this.start;
+    while (!this.isWorkingDay(origin)) {
+      origin = new Date(origin.getTime() + DAY_MS);
+    }
+    this.origin = origin;
+  }
+
+  get hoursPerDay(): number {
+    return this.minutesPerDay / 60;
+  }
+
+  private isWorkingDay(date: Date): boolean {
+    return this.days.has(date.getUTCDay()) && !this.closed.has(dayKey(date));
+  }
+
+  dateAt(offset: number): Date {
+    // Validated input stays well inside this; it stops anything else growing the cache without end
+    if (offset > 2 * MAX_SCHEDULE_DAYS) {
+      throw new RangeError(`Schedule runs more than ${2 * MAX_SCHEDULE_DAYS} working days past its start`);
+    }
+    if (this.cache.length === 0) this.cache.push(this.origin);
+    while (this.cache.length <= offset) {
+      let next = new Date(this.cache[this.cache.length - 1].getTime() + DAY_MS);
+      while (!this.isWorkingDay(next)) {
+        next = new Date(next.getTime() + DAY_MS);
+      }
+      this.cache.push(next);
+    }
+    return this.cache[offset];
+  }
+
+  // Days in the working week from the start up to the given offset that a closure took out
+  closedUntil(offset: number): string[] {
+    const last = this.dateAt(offset).getTime();
+    const closed: string[] = [];
+    for (let day = this.start.getTime(); day <= last; day += DAY_MS) {
+      const date = new Date(day);
+      if (this.days.has(date.getUTCDay()) && this.closed.has(dayKey(date))) closed.push(dayKey(date));
+    }
+    return closed;
+  }
+
+  // Number of working days before the given date, i.e. the offset of the
+  // first working day on or after it
+  offsetOf(value: string): number {
+    const target = toUtcDay(value);
+    if (target <= this.origin) return 0;
+    let offset = 0;
+    while (this.dateAt(offset) < target) offset++;
+    return offset;
+  }
+
+  startOfDay(offset: number): string {
+    return new Date(this.dateAt(offset).getTime() + this.startMinutes * 60 * 1000).toISOString();
+  }
+
+  endOfDay(offset: number): string {
+    return new Date(this.dateAt(offset).getTime() + this.endMinutes * 60 * 1000).toISOString();
+  }
+}
+
+/**
+ * Run CPM over the task network, then level it against resource limits.
+ * Assumes the input has passed validateScheduleInput.
+ */
+export function calculateSchedule(tasks: ScheduleTaskInput[], options: ScheduleOptions): ScheduleResult {
+  const calendar = new WorkingCalendar(options.startDate, options.workingHours, options.shifts, options.closures);
+  const order = topologicalOrder(tasks) || [];
+  const successors = new Map<string, string[]>(tasks.map(task => [task.id, []]));
+  for (const task of tasks) {
+    for (const dependency of task.dependencies || []) {
+      successors.get(dependency)?.push(task.id);
+    }
+  }
+
+  const notBefore = (task: ScheduleTaskInput): number => {
+    const date = task.constraints?.startNoEarlierThan;
+    return date ? calendar.offsetOf(date) : 0;
+  };
+
+  // Forward pass
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  for (const task of order) {
+    const start = Math.max(
+      notBefore(task),
+      ...(task.dependencies || []).map(dependency => earlyFinish.get(dependency)!)
+    );
+    earlyStart.set(task.id, start);
+    earlyFinish.set(task.id, start + task.duration);
+  }
+
+  const cpmDuration = Math.max(0, ...Array.from(earlyFinish.values()));
+
+  // Backward pass
+  const lateStart = new Map<string, number>();
+  const lateFinish = new Map<string, number>();
+  for (const task of [...order].reverse()) {
+    const finish = Math.min(
+      cpmDuration,
+      ...successors.get(task.id)!.map(successor => lateStart.get(successor)!)
+    );
+    lateFinish.set(task.id, finish);
+    lateStart.set(task.id, finish - task.duration);
+  }
+
+  // Serial resource leveling: repeatedly take the eligible task with the
+  // least late start and place it at the first slot that fits every limit
+  const limits = options.resourceLimits || {};
+  const usage = new Map<string, number[]>();
+  const leveledStart = new Map<string, number>();
+  const leveledFinish = new Map<string, number>();
+  const pending = new Set(order.map(task => task.id));
+  const byId = new Map(tasks.map(task => [task.id, task]));
+
+  const fits = (task: ScheduleTaskInput, start: number): boolean => {
+    for (const resource of task.resources || []) {
+      const limit = limits[resource];
+      if (limit === undefined) continue;
+      const load = usage.get(resource) || [];
+      for (let day = start; day < start + task.duration; day++) {
+        if ((load[day] || 0) + 1 > limit) return false;
+      }
+    }
+    return true;
+  };
+
+  while (pending.size > 0) {
+    const eligible = Array.from(pending)
+      .map(id => byId.get(id)!)
+      .filter(task => (task.dependencies || []).every(dependency => leveledFinish.has(dependency)))
+      .sort((a, b) =>
+        lateStart.get(a.id)! - lateStart.get(b.id)! ||
+        earlyStart.get(a.id)! - earlyStart.get(b.id)! ||
+        a.id.localeCompare(b.id)
+      );
+    const task = eligible[0];
+
+    let start = Math.max(
+      earlyStart.get(task.id)!,
+      ...(task.dependencies || []).map(dependency => leveledFinish.get(dependency)!)
+    );
+    while (!fits(task, start)) start++;
+
+    for (const resource of task.resources || []) {
+      const load = usage.get(resource) || [];
+      for (let day = start; day < start + task.duration; day++) {
+        load[day] = (load[day] || 0) + 1;
+      }
+      usage.set(resource, load);
+    }
+
+    leveledStart.set(task.id, start);
+    leveledFinish.set(task.id, start + task.duration);
+    pending.delete(task.id);
+  }
+
+  const leveledDuration = Math.max(0, ...Array.from(leveledFinish.values()));
+
+  const scheduledTasks: ScheduledTask[] = tasks.map(task => {
+    const es = earlyStart.get(task.id)!;
+    const ef = earlyFinish.get(task.id)!;
+    const ls = lateStart.get(task.id)!;
+    const totalFloat = ls - es;
+    const nextStarts = successors.get(task.id)!.map(successor => earlyStart.get(successor)!);
+    const freeFloat = (nextStarts.length > 0 ? Math.min(...nextStarts) : cpmDuration) - ef;
+    const start = leveledStart.get(task.id)!;
+    const finish = leveledFinish.get(task.id)!;
+
+    return {
+      ...task,
+      dependencies: task.dependencies || [],
+      resources: task.resources || [],
+      earlyStart: es,
+      earlyFinish: ef,
+      lateStart: ls,
+      lateFinish: lateFinish.get(task.id)!,
+      totalFloat,
+      freeFloat,
+      isCritical: totalFloat === 0,
+      leveledStart: start,
+      leveledFinish: finish,
+      resourceDelay: start - es,
+      scheduledStart: calendar.startOfDay(start),
+      // A zero-duration milestone finishes at the moment it starts
+      scheduledEnd: task.duration > 0 ? calendar.endOfDay(finish - 1) : calendar.startOfDay(start),
+    };
+  });
+
+  const criticalPath = scheduledTasks
+    .filter(task => task.isCritical)
+    .sort((a, b) => a.earlyStart - b.earlyStart || a.earlyFinish - b.earlyFinish)
+    .map(task => task.id);
+
+  const resourceUsage: Record<string, ResourceUsage> = {};
+  const resourceNames = new Set([
+    ...Object.keys(limits),
+    ...tasks.flatMap(task => task.resources || []),
+  ]);
+  for (const resource of resourceNames) {
+    const load = usage.get(resource) || [];
+    const busyDays = load.reduce((sum, units) => sum + (units || 0), 0);
+    const limit = limits[resource] ?? null;
+    resourceUsage[resource] = {
+      limit,
+      peak: Math.max(0, ...load.map(units => units || 0)),
+      utilization: limit !== null && leveledDuration > 0
+        ? Math.round((busyDays / (limit * leveledDuration)) * 100) / 100
+        : null,
+    };
+  }
+
+  const deadlineVariance = options.endDate
+    ? calendar.offsetOf(new Date(toUtcDay(options.endDate).getTime() + DAY_MS).toISOString()) - leveledDuration
+    : null;
+
+  return {
+    tasks: scheduledTasks,
+    criticalPath,
+    cpmDuration,
+    leveledDuration,
+    startDate: calendar.startOfDay(0),
+    finishDate: leveledDuration > 0 ? calendar.endOfDay(leveledDuration - 1) : calendar.startOfDay(0),
+    deadlineVariance,
+    hoursPerDay: calendar.hoursPerDay,
+    closedDays: calendar.closedUntil(Math.max(leveledDuration - 1, 0)),
+    resourceUsage,
+  };
+}
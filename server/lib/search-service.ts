@@ -0,0 +1,144 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { FileStorageService } from './file-storage';
+import { ProjectsService } from './projects-service';
+import {
+  headlineSegments,
+  highlight,
+  queryTerms,
+  SEARCH_ENTITY_TYPES,
+  SearchDocument,
+  SearchEntityType,
+  SearchIndex,
+  SearchQuery,
+  SearchResult,
+  toPrefixTsQuery,
+} from './search';
+
+const typeOrder = (type: SearchEntityType) => SEARCH_ENTITY_TYPES.indexOf(type);
+
+export class SearchService {
+  // Files always; projects, materials and comments too without Supabase
+  private static index = new SearchIndex();
+
+  /**
+   * Matches in the projects the user is a member of, plus files they
+   * uploaded outside any project. Results are grouped by type, best first.
+   */
+  static async search(userId: string, query: SearchQuery): Promise<SearchResult[]> {
+    const projects = await ProjectsService.getUserProjects(userId);
+    const projectNames = new Map(projects.map(p => [p.id, p.name]));
+    const visible = (document: SearchDocument) =>
+      document.project_id !== null ? projectNames.has(document.project_id) : document.owner_id === userId;
+
+    this.syncFiles();
+    let indexTypes = query.types;
+    const results: SearchResult[] = [];
+
+    if (isSupabaseConfigured()) {
+      indexTypes = query.types.filter(type => type === 'file');
+      const databaseTypes = query.types.filter(type => type !== 'file');
+      if (databaseTypes.length > 0) {
+        results.push(...await this.searchDatabase(query, databaseTypes, Array.from(projectNames.keys())));
+      }
+    } else {
+      this.syncFallbackRecords();
+    }
+
+    if (indexTypes.length > 0) {
+      results.push(...this.index.search(query.q, { types: indexTypes, limit: query.limit, filter: visible })
+        .map(result => result.type === 'file' && result.project_id !== null
+          ? { ...result, subtitle: projectNames.get(result.project_id) ?? null }
+          : result));
+    }
+
+    return results.sort((a, b) => typeOrder(a.type) - typeOrder(b.type) || b.score - a.score);
+  }
+
+  private static async searchDatabase(query: SearchQuery, types: SearchEntityType[], projectIds: number[]): Promise<SearchResult[]> {
+    const tsquery = toPrefixTsQuery(query.q);
+    if (!tsquery || projectIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase.rpc('search_entities', {
+      search_query: tsquery,
+      project_ids: projectIds,
+      max_results: query.limit,
+    });
+
+    if (error) {
+      console.error('Error searching:', error);
+      return [];
+    }
+
+    const terms = queryTerms(query.q);
+    return (data || [])
+      .filter(row => types.includes(row.entity_type as SearchEntityType))
+      .map(row => {
+        const segments = headlineSegments(row.headline);
+        return {
+          type: row.entity_type as SearchEntityType,
+          id: row.entity_id,
+          project_id: row.project_id,
+          title: row.title,
+          subtitle: row.subtitle,
+          // Headlines come from the body, so title-only matches highlight the title
+          highlight: segments.some(segment => segment.match) ? segments : highlight(row.title, terms),
+          score: Math.round(row.rank * 1000) / 1000,
+        };
+      });
+  }
+
+  private static syncFiles() {
+    this.index.sync('file', FileStorageService.getAllFiles().map(file => ({
+      type: 'file',
+      id: file.id,
+      project_id: file.projectId ?? null,
+      owner_id: file.userId,
+      title: file.originalName,
+      subtitle: null,
+      heading: file.originalName,
+      body: FileStorageService.getFileText(file.id),
+    })));
+  }
+
+  private static syncFallbackRecords() {
+    const { projects, materials, rfis, rfiResponses } = FallbackDatabase.getSearchableRecords();
+    const projectNames = new Map(projects.map(p => [p.id, p.name]));
+    const rfisById = new Map(rfis.map(r => [r.id, r]));
+
+    this.index.sync('project', projects.map(project => ({
+      type: 'project',
+      id: project.id,
+      project_id: project.id,
+      title: project.name,
+      heading: project.name,
+      body: [project.client, project.location, project.contractor].filter(Boolean).join(' '),
+    })));
+
+    this.index.sync('material', materials.map(material => ({
+      type: 'material',
+      id: material.id,
+      project_id: material.project_id,
+      title: material.name,
+      subtitle: projectNames.get(material.project_id) ?? null,
+      heading: material.name,
+      body: '',
+    })));
+
+    // RFI responses are the comment threads on a project
+    this.index.sync('comment', rfiResponses.map(response => {
+      const rfi = rfisById.get(response.rfi_id)!;
+      return {
+        type: 'comment',
+        id: response.id,
+        project_id: rfi.project_id,
+        title: `RFI #${rfi.number}: ${rfi.subject}`,
+        subtitle: projectNames.get(rfi.project_id) ?? null,
+        heading: '',
+        body: response.body,
+      };
+    }));
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { deflateSync } from "zlib";
+import { extractText } from "./document-text";
+import {
+  headlineSegments,
+  highlight,
+  SearchDocument,
+  SearchIndex,
+  searchQuerySchema,
+  tokenize,
+  toPrefixTsQuery,
+} from "./search";
+
+const document = (fields: Partial<SearchDocument> & Pick<SearchDocument, "type" | "id">): SearchDocument => ({
+  project_id: 1,
+  title: "",
+  heading: "",
+  body: "",
+  ...fields,
+});
+
+describe("tokenize", () => {
+  it("should fold case, accents and plurals and drop stop words", () => {
+    expect(tokenize("The Café's steel Beams, 12mm & boxes")).toEqual(["cafe", "s", "steel", "beam", "12mm", "box"]);
+    expect(toPrefixTsQuery("steel beams steel")).toBe("steel:* & beam:*");
+    expect(toPrefixTsQuery("the & of")).toBeNull();
+  });
+});
+
+describe("SearchIndex", () => {
+  const build = () => {
+    const index = new SearchIndex();
+    index.add(document({ type: "project", id: 1, title: "North Tower", heading: "North Tower", body: "Acme Harbour Builders" }));
+    index.add(document({ type: "material", id: 1, title: "Steel beams", heading: "Steel beams" }));
+    index.add(document({ type: "material", id: 2, title: "Rebar", heading: "Rebar", project_id: 2 }));
+    index.add(document({ type: "comment", id: 7, title: "RFI #1: Beam sizes", body: "Use the steel beam schedule in rev B for the tower core." }));
+    return index;
+  };
+
+  it("should match every term as a prefix and rank heading matches first", () => {
+    const results = build().search("steel bea", { limit: 5 });
+    expect(results.map(r => `${r.type}:${r.id}`)).toEqual(["material:1", "comment:7"]);
+    expect(results[1].highlight.filter(s => s.match).map(s => s.text)).toEqual(["steel", "beam"]);
+  });
+
+  it("should filter by type and visibility and cap each type", () => {
+    const index = build();
+    expect(index.search("tower", { types: ["comment"], limit: 5 }).map(r => r.id)).toEqual([7]);
+    expect(index.search("rebar", { limit: 5, filter: d => d.project_id === 1 })).toEqual([]);
+    index.add(document({ type: "material", id: 3, title: "Steel plate", heading: "Steel plate" }));
+    expect(index.search("steel", { types: ["material"], limit: 1 })).toHaveLength(1);
+  });
+
+  it("should drop documents that are gone and re-index changed ones", () => {
+    const index = build();
+    index.sync("material", [document({ type: "material", id: 1, title: "Timber joists", heading: "Timber joists" })]);
+    expect(index.search("rebar", { limit: 5 })).toEqual([]);
+    expect(index.search("steel", { types: ["material"], limit: 5 })).toEqual([]);
+    expect(index.search("joist", { limit: 5 }).map(r => r.title)).toEqual(["Timber joists"]);
+    expect(index.size).toBe(3);
+  });
+});
+
+describe("highlight", () => {
+  it("should cut a snippet around the densest matches", () => {
+    const text = `${"Preamble text. ".repeat(20)}The slab pour needs the pump on site. ${"Trailing notes. ".repeat(20)}`;
+    const segments = highlight(text, ["pump", "slab"], 80);
+    expect(segments[0].text.startsWith("…")).toBe(true);
+    expect(segments.filter(s => s.match).map(s => s.text)).toEqual(["slab", "pump"]);
+    expect(segments.map(s => s.text).join("").length).toBeLessThanOrEqual(82);
+  });
+
+  it("should split database headlines into segments", () => {
+    expect(headlineSegments("the \u0002steel\u0003 \u0002beam\u0003 list")).toEqual([
+      { text: "the ", match: false },
+      { text: "steel", match: true },
+      { text: " ", match: false },
+      { text: "beam", match: true },
+      { text: " list", match: false },
+    ]);
+  });
+});
+
+describe("searchQuerySchema", () => {
+  it("should default to every type and reject unknown ones", () => {
+    expect(searchQuerySchema.parse({ q: " beam " })).toEqual({ q: "beam", types: ["project", "material", "file", "comment"], limit: 5 });
+    expect(searchQuerySchema.parse({ q: "beam", types: "file,file", limit: "10" }).types).toEqual(["file"]);
+    expect(searchQuerySchema.safeParse({ q: "beam", types: "user" }).success).toBe(false);
+    expect(searchQuerySchema.safeParse({ q: "  " }).success).toBe(false);
+  });
+});
+
+describe("extractText", () => {
+  it("should read plain text and PDF content streams", () => {
+    expect(extractText(Buffer.from("Pour schedule"), "text/plain")).toBe("Pour schedule");
+
+    const content = "BT /F1 12 Tf (Method statement) Tj ET BT [(Crane ) -250 (lift \\(tower\\))] TJ ET";
+    const stream = deflateSync(Buffer.from(content, "latin1"));
+    const pdf = Buffer.concat([
+      Buffer.from(`%PDF-1.4\n1 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+      stream,
+      Buffer.from("\nendstream\nendobj\n%%EOF", "latin1"),
+    ]);
+    expect(extractText(pdf, "application/pdf")).toBe("Method statement\nCrane lift (tower)");
+  });
+
+  it("should give no text for unreadable files", () => {
+    expect(extractText(Buffer.from("not a zip"), "application/vnd.openxmlformats-officedocument.wordprocessingml.document")).toBe("");
+    expect(extractText(Buffer.from("GIF89a"), "image/gif")).toBe("");
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Full-text search
+ * Tokenising, an in-process inverted index and highlighting for the global
+ * search. The database does the same job with Postgres full-text search when
+ * Supabase is configured; files always live in this index because their
+ * metadata is kept in process.
+ */
+
+import { z } from 'zod';
+
+export const SEARCH_ENTITY_TYPES = ['project', 'material', 'file', 'comment'] as const;
+export type SearchEntityType = typeof SEARCH_ENTITY_TYPES[number];
+
+export interface SearchDocument {
+  type: SearchEntityType;
+  id: number | string;
+  project_id: number | null;
+  // Files without a project are only visible to their uploader
+  owner_id?: string | null;
+  title: string;
+  subtitle?: string | null;
+  // The searchable text; heading words rank above body words
+  heading: string;
+  body: string;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: number | string;
+  project_id: number | null;
+  title: string;
+  subtitle: string | null;
+  highlight: HighlightSegment[];
+  score: number;
+}
+
+export interface SearchQuery {
+  q: string;
+  types: SearchEntityType[];
+  // Per type, so one busy type can't crowd out the others
+  limit: number;
+}
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, { error: 'Search text is required' }).max(200),
+  types: z.string()
+    .transform(value => value.split(',').map(v => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(SEARCH_ENTITY_TYPES)).min(1))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+}).transform((query): SearchQuery => ({
+  q: query.q,
+  types: query.types ? [...new Set(query.types)] : [...SEARCH_ENTITY_TYPES],
+  limit: query.limit,
+}));
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// Plurals fold onto their singular so "beams" finds "beam"
+const stem = (word: string) => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+const fold = (text: string) => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export const tokenize = (text: string): string[] =>
+  (fold(text).match(WORD) ?? []).filter(word => !STOP_WORDS.has(word)).map(stem);
+
+/**
+ * Query terms. Every term is matched as a prefix, so results keep up with
+ * someone typing in the command palette.
+ */
+export const queryTerms = (query: string): string[] => [...new Set(tokenize(query))];
+
+// The same prefix query for Postgres, e.g. "steel:* & beam:*"
+export const toPrefixTsQuery = (query: string): string | null => {
+  const terms = queryTerms(query);
+  return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null;
+};
+
+const HEADING_WEIGHT = 3;
+
+interface IndexedDocument {
+  document: SearchDocument;
+  length: number;
+  terms: Map<string, number>;
+}
+
+const documentKey = (type: SearchEntityType, id: number | string) => `${type}:${id}`;
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  // term -> document key -> weighted term frequency
+  private postings = new Map<string, Map<string, number>>();
+
+  get size() {
+    return this.documents.size;
+  }
+
+  add(document: SearchDocument) {
+    const key = documentKey(document.type, document.id);
+    const existing = this.documents.get(key);
+    // Unchanged text keeps its tokens, so syncing an unchanged source is cheap
+    if (existing && existing.document.heading === document.heading && existing.document.body === document.body) {
+      existing.document = document;
+      return;
+    }
+    this.remove(document.type, document.id);
+
+    const terms = new Map<string, number>();
+    const count = (text: string, weight: number) => {
+      for (const term of tokenize(text)) {
+        terms.set(term, (terms.get(term) ?? 0) + weight);
+      }
+    };
+    count(document.heading, HEADING_WEIGHT);
+    count(document.body, 1);
+
+    for (const [term, frequency] of terms) {
+      if (!this.postings.has(term)) this.postings.set(term, new Map());
+      this.postings.get(term)!.set(key, frequency);
+    }
+    const length = [...terms.values()].reduce((sum, frequency) => sum + frequency, 0);
+    this.documents.set(key, { document, length, terms });
+  }
+
+  remove(type: SearchEntityType, id: number | string) {
+    const key = documentKey(type, id);
+    const existing = this.documents.get(key);
+    if (!existing) return;
+    for (const term of existing.terms.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(key);
+      if (posting && posting.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(key);
+  }
+
+  /**
+   * Brings one type in line with its source: adds new and changed
+   * documents and drops the ones that are gone.
+   */
+  sync(type: SearchEntityType, documents: SearchDocument[]) {
+    const current = new Set(documents.map(document => documentKey(type, document.id)));
+    for (const [key, indexed] of this.documents) {
+      if (indexed.document.type === type && !current.has(key)) {
+        this.remove(type, indexed.document.id);
+      }
+    }
+    documents.forEach(document => this.add(document));
+  }
+
+  /**
+   * Documents containing every query term, ranked by TF-IDF with heading
+   * matches counting extra and long documents damped.
+   */
+  search(query: string, options: { types?: SearchEntityType[]; limit: number; filter?: (document: SearchDocument) => boolean }): SearchResult[] {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const term of terms) {
+      const matches = new Map<string, number>();
+      for (const [indexed, posting] of this.postings) {
+        if (!indexed.startsWith(term)) continue;
+        const idf = Math.log(1 + this.documents.size / posting.size);
+        // Exact words rank above words that only share the prefix
+        const exactness = indexed === term ? 1 : 0.5;
+        for (const [key, frequency] of posting) {
+          if (scores && !scores.has(key)) continue;
+          matches.set(key, (matches.get(key) ?? 0) + frequency * idf * exactness);
+        }
+      }
+      scores = new Map([...matches].map(([key, score]) => [key, (scores?.get(key) ?? 0) + score]));
+      if (scores.size === 0) return [];
+    }
+
+    const perType = new Map<SearchEntityType, number>();
+    return [...scores!]
+      .map(([key, score]) => {
+        const indexed = this.documents.get(key)!;
+        return { indexed, score: score / Math.sqrt(indexed.length) };
+      })
+      .filter(({ indexed }) => !options.types || options.types.includes(indexed.document.type))
+      .filter(({ indexed }) => !options.filter || options.filter(indexed.document))
+      .sort((a, b) => b.score - a.score || String(a.indexed.document.id).localeCompare(String(b.indexed.document.id)))
+      .filter(({ indexed }) => {
+        const count = perType.get(indexed.document.type) ?? 0;
+        perType.set(indexed.document.type, count + 1);
+        return count < options.limit;
+      })
+      .map(({ indexed, score }) => {
+        const { document } = indexed;
+        const text = highlight(document.body, terms);
+        return {
+          type: document.type,
+          id: document.id,
+          project_id: document.project_id,
+          title: document.title,
+          subtitle: document.subtitle ?? null,
+          highlight: text.some(segment => segment.match) ? text : highlight(document.heading, terms),
+          score: Math.round(score * 1000) / 1000,
+        };
+      });
+  }
+}
+
+const SNIPPET_LENGTH = 160;
+
+/**
+ * The stretch of text with the most matching words, split into plain and
+ * matched segments so clients never have to render markup from the server.
+ */
+export const highlight = (text: string, terms: string[], maxLength = SNIPPET_LENGTH): HighlightSegment[] => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  const words = [...clean.matchAll(WORD)].map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    match: terms.some(term => stem(fold(match[0])).startsWith(term) || fold(match[0]).startsWith(term)),
+  }));
+  const matched = words.filter(word => word.match);
+
+  let start = 0;
+  if (matched.length > 0 && clean.length > maxLength) {
+    let best = 0;
+    for (const first of matched) {
+      const count = matched.filter(word => word.start >= first.start && word.end <= first.start + maxLength).length;
+      if (count > best) {
+        best = count;
+        start = first.start;
+      }
+    }
+    // Lead in with a little context, starting on a word boundary
+    const lead = Math.max(0, start - 30);
+    start = lead === 0 ? 0 : words.find(word => word.start >= lead)?.start ?? start;
+  }
+  const end = Math.min(clean.length, start + maxLength);
+
+  const segments: HighlightSegment[] = [];
+  const push = (value: string, match: boolean) => {
+    if (!value) return;
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) last.text += value;
+    else segments.push({ text: value, match });
+  };
+
+  if (start > 0) push('…', false);
+  let position = start;
+  for (const word of matched) {
+    if (word.start < start || word.end > end) continue;
+    push(clean.slice(position, word.start), false);
+    push(clean.slice(word.start, word.end), true);
+    position = word.end;
+  }
+  push(clean.slice(position, end), false);
+  if (end < clean.length) push('…', false);
+  return segments;
+};
+
+// Postgres ts_headline wraps matches in these control characters
+export const HEADLINE_START = '\u0002';
+export const HEADLINE_STOP = '\u0003';
+
+export const headlineSegments = (headline: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  const pattern = new RegExp(`${HEADLINE_START}([^${HEADLINE_STOP}]*)${HEADLINE_STOP}`, 'g');
+  let position = 0;
+  for (const match of headline.matchAll(pattern)) {
+    if (match.index! > position) segments.push({ text: headline.slice(position, match.index), match: false });
+    segments.push({ text: match[1], match: true });
+    position = match.index! + match[0].length;
+  }
+  if (position < headline.length) segments.push({ text: headline.slice(position), match: false });
+  return segments;
+};
@@ -0,0 +1,167 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { FileMetadata, FileStorageService } from './file-storage';
+
+export type SiteDiaryEntry = Database['public']['Tables']['site_diary_entries']['Row'];
+export type SiteDiaryEntryInput = Omit<Database['public']['Tables']['site_diary_entries']['Insert'],
+  'id' | 'project_id' | 'status' | 'signed_off_by' | 'signed_off_at' | 'created_at' | 'updated_at'>;
+export type SiteDiaryEntryUpdate = Pick<Database['public']['Tables']['site_diary_entries']['Update'],
+  'crews' | 'work_performed' | 'delays' | 'visitors' | 'notes' | 'file_ids'>;
+
+export interface SiteDiaryEntryWithFiles extends SiteDiaryEntry {
+  files: FileMetadata[];
+}
+
+export class SiteDiaryService {
+  static async getEntries(projectId: number, range: { from?: string; to?: string } = {}): Promise<SiteDiaryEntry[]> {
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('site_diary_entries')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('entry_date', { ascending: false });
+      if (range.from) {
+        query = query.gte('entry_date', range.from);
+      }
+      if (range.to) {
+        query = query.lte('entry_date', range.to);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching site diary entries:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getSiteDiaryEntries(projectId)
+        .filter(e => (!range.from || e.entry_date >= range.from) && (!range.to || e.entry_date <= range.to));
+    }
+  }
+
+  static async getEntry(projectId: number, id: number): Promise<SiteDiaryEntry | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('site_diary_entries')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getSiteDiaryEntry(projectId, id);
+    }
+  }
+
+  static async getEntryByDate(projectId: number, entryDate: string): Promise<SiteDiaryEntry | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('site_diary_entries')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('entry_date', entryDate)
+        .maybeSingle();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getSiteDiaryEntries(projectId).find(e => e.entry_date === entryDate) || null;
+    }
+  }
+
+  static async createEntry(projectId: number, entryData: SiteDiaryEntryInput): Promise<SiteDiaryEntry | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('site_diary_entries')
+        .insert({ ...entryData, project_id: projectId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating site diary entry:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createSiteDiaryEntry({ ...entryData, project_id: projectId });
+    }
+  }
+
+  static async updateEntry(
+    projectId: number,
+    id: number,
+    updates: SiteDiaryEntryUpdate | Pick<SiteDiaryEntry, 'status' | 'signed_off_by' | 'signed_off_at'>
+  ): Promise<SiteDiaryEntry | null> {
+    if (isSupabaseConfigured()) {
+      // Only drafts can change; the status filter guards against a concurrent sign-off
+      const { data, error } = await supabase
+        .from('site_diary_entries')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .eq('status', 'draft')
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating site diary entry:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      const entry = FallbackDatabase.getSiteDiaryEntry(projectId, id);
+      if (!entry || entry.status !== 'draft') return null;
+      return FallbackDatabase.updateSiteDiaryEntry(projectId, id, updates);
+    }
+  }
+
+  static async deleteEntry(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('site_diary_entries')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .eq('status', 'draft');
+
+      if (error) {
+        console.error('Error deleting site diary entry:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteSiteDiaryEntry(projectId, id);
+    }
+  }
+
+  static async signOff(projectId: number, id: number, userId: string): Promise<SiteDiaryEntry | null> {
+    return this.updateEntry(projectId, id, {
+      status: 'signed_off',
+      signed_off_by: userId,
+      signed_off_at: new Date().toISOString(),
+    });
+  }
+
+  // Linked files live in FileStorageService; ones deleted since are dropped
+  static withFiles(entry: SiteDiaryEntry): SiteDiaryEntryWithFiles {
+    return {
+      ...entry,
+      files: entry.file_ids
+        .map(fileId => FileStorageService.getFileMetadata(fileId))
+        .filter((file): file is FileMetadata => file !== null),
+    };
+  }
+}
@@ -0,0 +1,303 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { InventoryService, PurchaseOrder } from './inventory-service';
+import { calculateSupplierPerformance, SupplierPerformance } from './suppliers';
+import { Converter, DEFAULT_CURRENCY } from './currency';
+
+export type Supplier = Database['public']['Tables']['suppliers']['Row'];
+export type SupplierPrice = Database['public']['Tables']['supplier_prices']['Row'];
+export type SupplierInput = Omit<Database['public']['Tables']['suppliers']['Insert'], 'id' | 'created_at' | 'updated_at'>;
+export type SupplierUpdate = Omit<Database['public']['Tables']['suppliers']['Update'], 'id' | 'created_by' | 'created_at' | 'updated_at'>;
+export type SupplierPriceInput = Omit<Database['public']['Tables']['supplier_prices']['Insert'], 'id' | 'supplier_id' | 'created_at' | 'updated_at'>;
+export type SupplierPriceUpdate = Omit<Database['public']['Tables']['supplier_prices']['Update'], 'id' | 'supplier_id' | 'created_at' | 'updated_at'>;
+
+export interface SupplierWithPerformance extends Supplier {
+  performance: SupplierPerformance;
+}
+
+export interface SupplierPriceWithStatus extends SupplierPrice {
+  is_current: boolean;
+}
+
+const isCurrentPrice = (price: SupplierPrice) => {
+  const today = new Date().toISOString().split('T')[0];
+  return price.valid_from <= today && (!price.valid_to || price.valid_to >= today);
+};
+
+export class SuppliersService {
+  static async getSuppliers(filters: { search?: string; includeInactive?: boolean } = {}): Promise<Supplier[]> {
+    let suppliers: Supplier[];
+
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('suppliers')
+        .select('*')
+        .order('name', { ascending: true });
+      if (!filters.includeInactive) {
+        query = query.eq('is_active', true);
+      }
+      if (filters.search) {
+        query = query.ilike('name', `%${filters.search}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching suppliers:', error);
+        return [];
+      }
+      suppliers = data || [];
+    } else {
+      const search = filters.search?.toLowerCase();
+      suppliers = FallbackDatabase.getSuppliers()
+        .filter(s => filters.includeInactive || s.is_active)
+        .filter(s => !search || s.name.toLowerCase().includes(search));
+    }
+
+    return suppliers;
+  }
+
+  static async getSupplier(id: number): Promise<Supplier | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getSupplierById(id);
+    }
+  }
+
+  static async findSupplierByName(name: string): Promise<Supplier | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('*')
+        .ilike('name', name.trim())
+        .maybeSingle();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.findSupplierByName(name);
+    }
+  }
+
+  static async createSupplier(supplierData: SupplierInput): Promise<Supplier | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .insert(supplierData)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating supplier:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createSupplier(supplierData);
+    }
+  }
+
+  static async updateSupplier(id: number, updates: SupplierUpdate): Promise<Supplier | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating supplier:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateSupplier(id, updates);
+    }
+  }
+
+  static async deleteSupplier(id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('suppliers')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting supplier:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteSupplier(id);
+    }
+  }
+
+  /**
+   * Number of materials and purchase orders pointing at a supplier. A
+   * supplier that is still referenced can be deactivated but not deleted.
+   */
+  static async countReferences(id: number): Promise<number> {
+    if (isSupabaseConfigured()) {
+      const [materials, orders] = await Promise.all([
+        supabase.from('materials').select('id', { count: 'exact', head: true }).eq('supplier_id', id),
+        supabase.from('purchase_orders').select('id', { count: 'exact', head: true }).eq('supplier_id', id),
+      ]);
+
+      return (materials.count || 0) + (orders.count || 0);
+    } else {
+      return FallbackDatabase.countSupplierReferences(id);
+    }
+  }
+
+  // Spend is converted with the converter given, from each ordered material's currency
+  static async getPerformance(supplierId: number, converter?: Converter): Promise<SupplierPerformance> {
+    let orders: PurchaseOrder[];
+    let currencies: Map<number, string>;
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*')
+        .eq('supplier_id', supplierId);
+
+      if (error) {
+        console.error('Error fetching supplier purchase orders:', error);
+      }
+      orders = data || [];
+
+      const materialIds = [...new Set(orders.map(order => order.material_id))];
+      const { data: materials } = materialIds.length > 0
+        ? await supabase.from('materials').select('id, currency').in('id', materialIds)
+        : { data: [] };
+      currencies = new Map((materials || []).map(material => [material.id, material.currency]));
+    } else {
+      orders = FallbackDatabase.getSupplierPurchaseOrders(supplierId);
+      currencies = new Map(orders.flatMap(order => {
+        const material = FallbackDatabase.getMaterialById(order.material_id);
+        return material ? [[order.material_id, material.currency] as const] : [];
+      }));
+    }
+
+    const deliveries = await Promise.all(orders.map(async order => ({
+      ...order,
+      currency: currencies.get(order.material_id),
+      receipts: await InventoryService.getReceipts(order.id),
+    })));
+
+    return calculateSupplierPerformance(deliveries, undefined, converter);
+  }
+
+  static async withPerformance(supplier: Supplier, converter?: Converter): Promise<SupplierWithPerformance> {
+    return { ...supplier, performance: await this.getPerformance(supplier.id, converter) };
+  }
+
+  // Price lists
+  static async getPrices(supplierId: number): Promise<SupplierPriceWithStatus[]> {
+    let prices: SupplierPrice[];
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('supplier_prices')
+        .select('*')
+        .eq('supplier_id', supplierId)
+        .order('item_name', { ascending: true })
+        .order('valid_from', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching supplier prices:', error);
+        return [];
+      }
+      prices = data || [];
+    } else {
+      prices = FallbackDatabase.getSupplierPrices(supplierId);
+    }
+
+    return prices.map(price => ({ ...price, is_current: isCurrentPrice(price) }));
+  }
+
+  static async createPrice(supplierId: number, priceData: SupplierPriceInput): Promise<SupplierPrice | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('supplier_prices')
+        .insert({ ...priceData, supplier_id: supplierId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating supplier price:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createSupplierPrice({
+        unit: null,
+        currency: DEFAULT_CURRENCY,
+        min_quantity: 0,
+        lead_time_days: null,
+        valid_from: new Date().toISOString().split('T')[0],
+        valid_to: null,
+        ...priceData,
+        supplier_id: supplierId,
+      });
+    }
+  }
+
+  static async updatePrice(supplierId: number, id: number, updates: SupplierPriceUpdate): Promise<SupplierPrice | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('supplier_prices')
+        .update(updates)
+        .eq('id', id)
+        .eq('supplier_id', supplierId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating supplier price:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateSupplierPrice(supplierId, id, updates);
+    }
+  }
+
+  static async deletePrice(supplierId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('supplier_prices')
+        .delete()
+        .eq('id', id)
+        .eq('supplier_id', supplierId);
+
+      if (error) {
+        console.error('Error deleting supplier price:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteSupplierPrice(supplierId, id);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { calculateSupplierPerformance, DeliveryRecord } from "./suppliers";
+import { createConverter } from "./currency";
+import { fixture } from "../test-utils";
+
+const order = fixture<DeliveryRecord>({
+  status: "received",
+  order_date: "2024-03-01",
+  expected_delivery_date: "2024-03-08",
+  quantity_ordered: 10,
+  unit_cost: 100,
+  receipts: [],
+});
+
+describe("calculateSupplierPerformance", () => {
+  it("should judge delivery by the final receipt of each order", () => {
+    const performance = calculateSupplierPerformance([
+      order({ receipts: [{ quantity: 10, received_date: "2024-03-07" }] }),
+      order({
+        receipts: [
+          { quantity: 4, received_date: "2024-03-05" },
+          { quantity: 6, received_date: "2024-03-12" },
+        ],
+      }),
+    ], "2024-04-01");
+
+    expect(performance.completedOrders).toBe(2);
+    expect(performance.onTimeDeliveries).toBe(1);
+    expect(performance.lateDeliveries).toBe(1);
+    expect(performance.onTimeRate).toBe(50);
+    expect(performance.averageDelayDays).toBe(2);
+    expect(performance.averageLeadTimeDays).toBe(8.5);
+    expect(performance.totalSpend).toBe(2000);
+  });
+
+  it("should count open orders past their date as overdue", () => {
+    const performance = calculateSupplierPerformance([
+      order({ status: "partially_received", receipts: [{ quantity: 3, received_date: "2024-03-06" }] }),
+      order({ status: "ordered", expected_delivery_date: "2024-05-01" }),
+      order({ status: "cancelled" }),
+    ], "2024-04-01");
+
+    expect(performance.totalOrders).toBe(2);
+    expect(performance.openOrders).toBe(2);
+    expect(performance.overdueOrders).toBe(1);
+    expect(performance.onTimeRate).toBeNull();
+    expect(performance.totalSpend).toBe(300);
+  });
+
+  it("should total spend in the converter's currency at the rate on the order date", () => {
+    const rates = [
+      { base_currency: "EUR", quote_currency: "USD", rate: 1.1, effective_date: "2024-01-01" },
+      { base_currency: "EUR", quote_currency: "USD", rate: 1.2, effective_date: "2024-03-05" },
+    ];
+    const performance = calculateSupplierPerformance([
+      order({ currency: "EUR", receipts: [{ quantity: 10, received_date: "2024-03-07" }] }),
+      order({ currency: "USD", receipts: [{ quantity: 5, received_date: "2024-03-07" }] }),
+      order({ currency: "SEK", receipts: [{ quantity: 5, received_date: "2024-03-07" }] }),
+    ], "2024-04-01", createConverter(rates, "USD", "2024-04-01"));
+
+    expect(performance.currency).toBe("USD");
+    expect(performance.totalSpend).toBe(1600);
+    expect(performance.missingRates).toEqual(["SEK"]);
+  });
+});
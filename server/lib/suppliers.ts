@@ -0,0 +1,110 @@
+/**
+ * Supplier delivery performance, derived from purchase orders and the
+ * goods received against them
+ */
+
+import { PurchaseOrderStatus } from './inventory';
+import { Converter, DEFAULT_CURRENCY } from './currency';
+
+export interface DeliveryRecord {
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_delivery_date: string;
+  quantity_ordered: number;
+  unit_cost: number;
+  // The ordered material's currency
+  currency?: string;
+  receipts: { quantity: number; received_date: string }[];
+}
+
+export interface SupplierPerformance {
+  totalOrders: number;
+  openOrders: number;
+  completedOrders: number;
+  cancelledOrders: number;
+  overdueOrders: number;
+  onTimeDeliveries: number;
+  lateDeliveries: number;
+  onTimeRate: number | null;
+  averageDelayDays: number | null;
+  averageLeadTimeDays: number | null;
+  totalSpend: number;
+  currency: string;
+  // Order currencies with no rate into `currency`, left out of the spend
+  missingRates: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to.split('T')[0]).getTime() - new Date(from.split('T')[0]).getTime()) / DAY_MS);
+
+const round = (value: number, places = 1) => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * An order is delivered on time when its final receipt lands on or before
+ * the expected date. Only fully received orders count towards the rate,
+ * delay and lead time; open orders past their date count as overdue. With a
+ * converter, spend is totalled in its currency at the rate on the order date.
+ */
+export const calculateSupplierPerformance = (
+  orders: DeliveryRecord[],
+  asOf: string = new Date().toISOString(),
+  converter?: Converter
+): SupplierPerformance => {
+  const today = asOf.split('T')[0];
+  let onTime = 0;
+  let late = 0;
+  let overdue = 0;
+  let totalDelay = 0;
+  let totalLeadTime = 0;
+  let totalSpend = 0;
+  const missingRates = new Set<string>();
+
+  for (const order of orders) {
+    const received = order.receipts.reduce((sum, r) => sum + Number(r.quantity) * Number(order.unit_cost), 0);
+    const spend = converter && order.currency && received > 0
+      ? converter.convert(received, order.currency, order.order_date)
+      : received;
+    if (spend === null) missingRates.add(order.currency!);
+    else totalSpend += spend;
+
+    if (order.status === 'ordered' || order.status === 'partially_received') {
+      if (order.expected_delivery_date < today) overdue++;
+      continue;
+    }
+    if (order.status !== 'received' || order.receipts.length === 0) continue;
+
+    const delivered = order.receipts
+      .map(r => r.received_date.split('T')[0])
+      .reduce((latest, date) => (date > latest ? date : latest));
+    const delay = daysBetween(order.expected_delivery_date, delivered);
+
+    if (delay <= 0) onTime++;
+    else late++;
+    totalDelay += Math.max(0, delay);
+    totalLeadTime += daysBetween(order.order_date, delivered);
+  }
+
+  const completed = onTime + late;
+  const count = (status: PurchaseOrderStatus) => orders.filter(o => o.status === status).length;
+
+  return {
+    totalOrders: orders.length - count('cancelled'),
+    openOrders: count('ordered') + count('partially_received'),
+    completedOrders: count('received'),
+    cancelledOrders: count('cancelled'),
+    overdueOrders: overdue,
+    onTimeDeliveries: onTime,
+    lateDeliveries: late,
+    onTimeRate: completed > 0 ? round((onTime / completed) * 100) : null,
+    averageDelayDays: completed > 0 ? round(totalDelay / completed) : null,
+    averageLeadTimeDays: completed > 0 ? round(totalLeadTime / completed) : null,
+    totalSpend: round(totalSpend, 2),
+    currency: converter?.currency ?? DEFAULT_CURRENCY,
+    missingRates: [...missingRates].sort(),
+  };
+};
@@ -0,0 +1,171 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { Project, ProjectsService } from './projects-service';
+import { AcceptanceCriteriaService } from './acceptance-criteria-service';
+import { ScheduleService } from './schedule-service';
+import { ProjectFoldersService } from './project-folders-service';
+import { TrashService } from './trash-service';
+import { rescaleTemplate, TemplateBasis, TemplateContent } from './templates';
+
+type DbProject = Database['public']['Tables']['projects']['Row'];
+
+export type ProjectTemplate = Database['public']['Tables']['project_templates']['Row'];
+export type ProjectTemplateInput = Pick<ProjectTemplate, 'name' | 'description' | 'source_project_id' |
+  'source_budget' | 'source_start_date' | 'content' | 'created_by'>;
+
+export class ProjectTemplatesService {
+  static async getTemplates(): Promise<ProjectTemplate[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_templates')
+        .select('*')
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching project templates:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getProjectTemplates();
+    }
+  }
+
+  static async getTemplate(id: number): Promise<ProjectTemplate | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_templates')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getProjectTemplate(id);
+    }
+  }
+
+  static async createTemplate(templateData: ProjectTemplateInput): Promise<ProjectTemplate | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('project_templates')
+        .insert(templateData)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating project template:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createProjectTemplate(templateData);
+    }
+  }
+
+  static async deleteTemplate(id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('project_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting project template:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteProjectTemplate(id);
+    }
+  }
+
+  // Copy the reusable structure of a project; stock, progress and sign-offs stay behind
+  static async snapshotProject(projectId: number, userId: string): Promise<TemplateContent> {
+    const [materials, criteria, tasks, settings, folders] = await Promise.all([
+      ProjectsService.getProjectMaterials(projectId, userId),
+      AcceptanceCriteriaService.getCriteria(projectId),
+      ScheduleService.getTasks(projectId),
+      ScheduleService.getSettings(projectId),
+      ProjectFoldersService.getFolders(projectId),
+    ]);
+
+    return {
+      materials: materials.map(({ name, total_required, cost, currency, supplier_id }) => ({ name, total_required, cost, currency, supplier_id })),
+      acceptance_criteria: criteria.map(({ phase, title, description, sort_order }) => ({ phase, title, description, sort_order })),
+      tasks: tasks.map(({ task_key, name, duration, dependencies, resources, constraints, kind }) => ({
+        task_key, name, duration, dependencies, resources, constraints, kind,
+      })),
+      schedule: settings && {
+        start_date: settings.start_date,
+        end_date: settings.end_date,
+        working_hours: settings.working_hours,
+        shifts: settings.shifts,
+        resource_limits: settings.resource_limits,
+      },
+      folders: folders.map(f => f.path),
+    };
+  }
+
+  /**
+   * Create a project and fill it from template content rescaled to the new
+   * project's budget and start date. If any part fails to copy the new
+   * project is removed again, so callers never see a half-built project.
+   */
+  static async createProjectFromTemplate(
+    projectData: Partial<DbProject>,
+    content: TemplateContent,
+    source: TemplateBasis,
+    userId: string
+  ): Promise<Project | null> {
+    const project = await ProjectsService.createProject(projectData, userId);
+    if (!project) {
+      return null;
+    }
+
+    const target = { budget: project.budget, start_date: project.start_date };
+    if (await this.applyContent(project, rescaleTemplate(content, source, target), userId)) {
+      return project;
+    }
+
+    // Nothing to restore, so skip the trash
+    await TrashService.purgeProject(project.id);
+    return null;
+  }
+
+  private static async applyContent(project: Project, content: TemplateContent, userId: string): Promise<boolean> {
+    const projectId = project.id;
+
+    for (const material of content.materials) {
+      const created = await ProjectsService.createMaterial({ ...material, current_stock: 0 }, projectId, userId);
+      if (!created) return false;
+    }
+
+    for (const criterion of content.acceptance_criteria) {
+      const created = await AcceptanceCriteriaService.createCriterion(projectId, {
+        ...criterion,
+        evidence_file_ids: [],
+        created_by: userId,
+      });
+      if (!created) return false;
+    }
+
+    if (content.schedule && !(await ScheduleService.saveSettings(projectId, content.schedule))) {
+      return false;
+    }
+    if (content.tasks.length > 0) {
+      if (!(await ScheduleService.replaceTasks(projectId, content.tasks))) return false;
+      await ScheduleService.recalculate(projectId, project.start_date);
+    }
+
+    return (await ProjectFoldersService.createFolders(projectId, content.folders, userId)) !== null;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { normalizeFolderPath, rescaleTemplate, TemplateContent, withParentFolders } from "./templates";
+
+const content: TemplateContent = {
+  materials: [{ name: "Concrete", total_required: 120, cost: 150, supplier_id: 1 }],
+  acceptance_criteria: [{ phase: "handover", title: "As-built drawings", description: null, sort_order: 0 }],
+  tasks: [
+    { task_key: "A", name: "Excavate", duration: 5, dependencies: [], resources: ["crew"], constraints: {} },
+    { task_key: "B", name: "Pour", duration: 3, dependencies: ["A"], resources: [], constraints: { startNoEarlierThan: "2024-03-15" } },
+  ],
+  schedule: { start_date: "2024-03-01", end_date: "2024-06-30", working_hours: null, resource_limits: { crew: 2 } },
+  folders: ["Drawings", "Drawings/Structural"],
+};
+
+describe("rescaleTemplate", () => {
+  it("should scale quantities by budget and move dates by the start offset", () => {
+    const result = rescaleTemplate(
+      content,
+      { budget: 100000, start_date: "2024-03-01" },
+      { budget: 250000, start_date: "2025-01-10" }
+    );
+
+    expect(result.materials[0]).toEqual({ name: "Concrete", total_required: 300, cost: 150, supplier_id: 1 });
+    expect(result.tasks[1].constraints.startNoEarlierThan).toBe("2025-01-24");
+    expect(result.tasks[0].duration).toBe(5);
+    expect(result.schedule).toMatchObject({ start_date: "2025-01-10", end_date: "2025-05-11" });
+    expect(result.folders).toEqual(content.folders);
+  });
+
+  it("should leave dates alone when either start date is missing", () => {
+    const result = rescaleTemplate(content, { budget: 100000, start_date: null }, { budget: 100000, start_date: "2025-01-10" });
+    expect(result.tasks[1].constraints.startNoEarlierThan).toBe("2024-03-15");
+    expect(result.materials[0].total_required).toBe(120);
+  });
+
+  it("should not share arrays with the template", () => {
+    const result = rescaleTemplate(content, { budget: 1, start_date: null }, { budget: 1, start_date: null });
+    result.tasks[1].dependencies.push("C");
+    expect(content.tasks[1].dependencies).toEqual(["A"]);
+  });
+});
+
+describe("folder paths", () => {
+  it("should normalise separators and reject relative segments", () => {
+    expect(normalizeFolderPath(" /Drawings//Structural/ ")).toBe("Drawings/Structural");
+    expect(normalizeFolderPath("Drawings/../Secrets")).toBeNull();
+    expect(normalizeFolderPath("//")).toBeNull();
+  });
+
+  it("should include every parent folder", () => {
+    expect(withParentFolders(["Site/Photos/Week 1", "Contracts"])).toEqual([
+      "Contracts", "Site", "Site/Photos", "Site/Photos/Week 1",
+    ]);
+  });
+});
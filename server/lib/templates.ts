@@ -0,0 +1,135 @@
+/**
+ * Project templates
+ * A template is a snapshot of a project's reusable structure: materials,
+ * acceptance criteria, schedule tasks and folders. Applying it to a new
+ * project scales material quantities by the ratio of the two budgets and
+ * moves every date by the difference between the two start dates.
+ */
+
+export interface TemplateMaterial {
+  name: string;
+  total_required: number;
+  cost: number;
+  // Absent in templates saved before materials had a currency
+  currency?: string;
+  supplier_id: number | null;
+}
+
+export interface TemplateCriterion {
+  phase: string;
+  title: string;
+  description: string | null;
+  sort_order: number;
+}
+
+export interface TemplateTask {
+  task_key: string;
+  name: string;
+  duration: number;
+  dependencies: string[];
+  resources: string[];
+  constraints: Record<string, any>;
+  // Older templates predate inspection tasks
+  kind?: 'task' | 'inspection';
+}
+
+export interface TemplateSchedule {
+  start_date: string | null;
+  end_date: string | null;
+  working_hours: { start: string; end: string; days?: number[] } | null;
+  shifts?: { name: string; start: string; end: string }[];
+  resource_limits: Record<string, number>;
+}
+
+export interface TemplateContent {
+  materials: TemplateMaterial[];
+  acceptance_criteria: TemplateCriterion[];
+  tasks: TemplateTask[];
+  schedule: TemplateSchedule | null;
+  folders: string[];
+}
+
+// The budget and start date the template's quantities and dates are relative to
+export interface TemplateBasis {
+  budget: number;
+  start_date: string | null;
+}
+
+// Task constraints that hold calendar dates and move with the start date
+const DATE_CONSTRAINTS = ['startNoEarlierThan'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MAX_FOLDER_DEPTH = 8;
+
+const round = (value: number, places = 2) => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) / MS_PER_DAY);
+
+export const shiftDate = (date: string, days: number): string => {
+  const shifted = new Date(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + days * MS_PER_DAY);
+  return shifted.toISOString().split('T')[0];
+};
+
+/**
+ * Normalise a folder path to `a/b/c` form. Returns null for empty paths,
+ * relative segments and paths nested deeper than we allow.
+ */
+export const normalizeFolderPath = (path: string): string | null => {
+  const segments = path.split('/').map(s => s.trim()).filter(Boolean);
+  if (segments.length === 0 || segments.length > MAX_FOLDER_DEPTH) return null;
+  if (segments.some(s => s === '.' || s === '..' || s.length > 100)) return null;
+  return segments.join('/');
+};
+
+// Every folder along with its parents, so `a/b` also yields `a`
+export const withParentFolders = (paths: string[]): string[] => {
+  const all = new Set<string>();
+  for (const path of paths) {
+    const segments = path.split('/');
+    for (let depth = 1; depth <= segments.length; depth++) {
+      all.add(segments.slice(0, depth).join('/'));
+    }
+  }
+  return Array.from(all).sort();
+};
+
+export const budgetScale = (source: TemplateBasis, target: TemplateBasis): number =>
+  source.budget > 0 && target.budget > 0 ? target.budget / source.budget : 1;
+
+/**
+ * Rescale template content for a project with a different budget and start
+ * date. Material quantities follow the budget; unit costs, durations and
+ * crew assignments are left as they are.
+ */
+export function rescaleTemplate(content: TemplateContent, source: TemplateBasis, target: TemplateBasis): TemplateContent {
+  const scale = budgetScale(source, target);
+  const offset = source.start_date && target.start_date ? daysBetween(source.start_date, target.start_date) : 0;
+  const moveDate = (date: string | null) => (date ? shiftDate(date, offset) : date);
+
+  return {
+    materials: content.materials.map(material => ({
+      ...material,
+      total_required: Math.max(round(material.total_required * scale), 0.01),
+    })),
+    acceptance_criteria: content.acceptance_criteria.map(criterion => ({ ...criterion })),
+    tasks: content.tasks.map(task => {
+      const constraints = { ...task.constraints };
+      for (const key of DATE_CONSTRAINTS) {
+        if (typeof constraints[key] === 'string') {
+          constraints[key] = shiftDate(constraints[key], offset);
+        }
+      }
+      return { ...task, dependencies: [...task.dependencies], resources: [...task.resources], constraints };
+    }),
+    schedule: content.schedule && {
+      ...content.schedule,
+      start_date: target.start_date ?? moveDate(content.schedule.start_date),
+      end_date: moveDate(content.schedule.end_date),
+    },
+    folders: [...content.folders],
+  };
+}
@@ -0,0 +1,317 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Database } from './types';
+import { TimeEntryStatus } from './timesheets';
+import { VersionConflictError } from './concurrency';
+
+export type CostCode = Database['public']['Tables']['cost_codes']['Row'];
+export type CostCodeInput = Pick<CostCode, 'code' | 'name' | 'labour_rate' | 'budget'>;
+export type CostCodeUpdate = Partial<CostCodeInput>;
+
+export type TimeEntry = Database['public']['Tables']['time_entries']['Row'];
+export type TimeEntryInput = Pick<TimeEntry, 'user_id' | 'cost_code_id' | 'clock_in' | 'clock_in_latitude' |
+  'clock_in_longitude' | 'notes'>;
+export type TimeEntryUpdate = Partial<Omit<TimeEntry, 'id' | 'project_id' | 'user_id' | 'created_at' | 'updated_at'>>;
+
+export interface TimeEntryFilters {
+  projectId?: number;
+  userId?: string;
+  status?: TimeEntryStatus;
+  from?: string;
+  to?: string;
+}
+
+export interface CostCodeWithActuals extends CostCode {
+  approved_hours: number;
+  approved_cost: number;
+}
+
+export class TimesheetService {
+  static async getCostCodes(projectId: number): Promise<CostCode[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('cost_codes')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('code');
+
+      if (error) {
+        console.error('Error fetching cost codes:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getCostCodes(projectId);
+    }
+  }
+
+  static async getCostCode(projectId: number, id: number): Promise<CostCode | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('cost_codes')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getCostCode(projectId, id);
+    }
+  }
+
+  static async createCostCode(projectId: number, codeData: CostCodeInput): Promise<CostCode | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('cost_codes')
+        .insert({ ...codeData, project_id: projectId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating cost code:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createCostCode({ ...codeData, project_id: projectId });
+    }
+  }
+
+  static async updateCostCode(projectId: number, id: number, updates: CostCodeUpdate): Promise<CostCode | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('cost_codes')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error updating cost code:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateCostCode(projectId, id, updates);
+    }
+  }
+
+  static async deleteCostCode(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('cost_codes')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting cost code:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteCostCode(projectId, id);
+    }
+  }
+
+  static async getTimeEntries(filters: TimeEntryFilters): Promise<TimeEntry[]> {
+    if (isSupabaseConfigured()) {
+      let query = supabase
+        .from('time_entries')
+        .select('*')
+        .order('clock_in');
+      if (filters.projectId !== undefined) {
+        query = query.eq('project_id', filters.projectId);
+      }
+      if (filters.userId) {
+        query = query.eq('user_id', filters.userId);
+      }
+      if (filters.status) {
+        query = query.eq('status', filters.status);
+      }
+      if (filters.from) {
+        query = query.gte('clock_in', filters.from);
+      }
+      if (filters.to) {
+        query = query.lt('clock_in', filters.to);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error fetching time entries:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getTimeEntries(filters);
+    }
+  }
+
+  static async getTimeEntry(projectId: number, id: number): Promise<TimeEntry | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select('*')
+        .eq('id', id)
+        .eq('project_id', projectId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getTimeEntry(projectId, id);
+    }
+  }
+
+  // A worker is clocked in to at most one project at a time
+  static async getOpenEntry(userId: string): Promise<TimeEntry | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('time_entries')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('status', 'open')
+        .maybeSingle();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.getOpenTimeEntry(userId);
+    }
+  }
+
+  static async createTimeEntry(projectId: number, entryData: TimeEntryInput): Promise<TimeEntry | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('time_entries')
+        .insert({ ...entryData, project_id: projectId })
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error creating time entry:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.createTimeEntry({ ...entryData, project_id: projectId });
+    }
+  }
+
+  /**
+   * With an expected status the update only applies if the entry is still
+   * in it, so two people deciding the same entry can't both succeed; the
+   * loser gets a VersionConflictError.
+   */
+  static async updateTimeEntry(
+    projectId: number,
+    id: number,
+    updates: TimeEntryUpdate,
+    expectedStatus?: TimeEntryStatus
+  ): Promise<TimeEntry | null> {
+    if (isSupabaseConfigured()) {
+      let request = supabase
+        .from('time_entries')
+        .update(updates)
+        .eq('id', id)
+        .eq('project_id', projectId);
+      if (expectedStatus) {
+        request = request.eq('status', expectedStatus);
+      }
+      const { data, error } = await request
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating time entry:', error);
+        return null;
+      }
+      if (!data) {
+        if (expectedStatus) throw new VersionConflictError();
+        return null;
+      }
+
+      return data;
+    } else {
+      const current = FallbackDatabase.getTimeEntry(projectId, id);
+      if (current && expectedStatus && current.status !== expectedStatus) {
+        throw new VersionConflictError();
+      }
+      return FallbackDatabase.updateTimeEntry(projectId, id, updates);
+    }
+  }
+
+  static async deleteTimeEntry(projectId: number, id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('time_entries')
+        .delete()
+        .eq('id', id)
+        .eq('project_id', projectId);
+
+      if (error) {
+        console.error('Error deleting time entry:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteTimeEntry(projectId, id);
+    }
+  }
+
+  /**
+   * Approved labour is charged to the project as it is approved, so spent
+   * picks it up alongside whatever else has been booked against the budget.
+   * The increment happens in the database so concurrent approvals all count.
+   */
+  static async addLabourToProjectSpent(projectId: number, amount: number): Promise<number | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase.rpc('add_project_spent', {
+        target_project_id: projectId,
+        amount,
+      });
+
+      if (error || data === null) {
+        console.error('Error adding labour to project spent:', error);
+        return null;
+      }
+
+      return Number(data);
+    } else {
+      const project = FallbackDatabase.getProjectById(projectId);
+      if (!project) return null;
+
+      const spent = Math.round((project.spent + amount) * 100) / 100;
+      FallbackDatabase.updateProject(projectId, { spent });
+      return spent;
+    }
+  }
+
+  static withActuals(costCode: CostCode, entries: TimeEntry[]): CostCodeWithActuals {
+    const approved = entries.filter(e => e.cost_code_id === costCode.id && e.status === 'approved');
+    return {
+      ...costCode,
+      approved_hours: Math.round(approved.reduce((sum, e) => sum + e.regular_hours + e.overtime_hours, 0) * 100) / 100,
+      approved_cost: Math.round(approved.reduce((sum, e) => sum + e.cost, 0) * 100) / 100,
+    };
+  }
+}
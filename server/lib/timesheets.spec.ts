@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { buildWeeklyTimesheet, labourCost, splitOvertime, weekStart, workedHours } from "./timesheets";
+import { TimesheetService } from "./timesheets-service";
+import { FallbackDatabase } from "./database-fallback";
+import { VersionConflictError } from "./concurrency";
+
+describe("weekStart", () => {
+  it("should return the Monday of the week", () => {
+    expect(weekStart("2024-03-13")).toBe("2024-03-11");
+    expect(weekStart("2024-03-11T23:00:00Z")).toBe("2024-03-11");
+    expect(weekStart("2024-03-17")).toBe("2024-03-11");
+  });
+});
+
+describe("workedHours", () => {
+  it("should subtract completed breaks from the shift", () => {
+    const breaks = [
+      { start: "2024-03-11T12:00:00Z", end: "2024-03-11T12:30:00Z" },
+      { start: "2024-03-11T15:00:00Z", end: null },
+    ];
+    expect(workedHours("2024-03-11T07:00:00Z", "2024-03-11T16:00:00Z", breaks)).toBe(8.5);
+  });
+});
+
+describe("splitOvertime", () => {
+  it("should treat hours past 8 in a day as overtime", () => {
+    expect(splitOvertime(10, 0, 0)).toEqual({ regular: 8, overtime: 2 });
+    expect(splitOvertime(4, 6, 6)).toEqual({ regular: 2, overtime: 2 });
+  });
+
+  it("should treat hours past 40 in a week as overtime", () => {
+    expect(splitOvertime(8, 0, 36)).toEqual({ regular: 4, overtime: 4 });
+    expect(splitOvertime(6, 0, 40)).toEqual({ regular: 0, overtime: 6 });
+  });
+});
+
+describe("labourCost", () => {
+  it("should pay overtime at time and a half", () => {
+    expect(labourCost({ regular: 8, overtime: 2 }, 40)).toBe(440);
+  });
+});
+
+describe("buildWeeklyTimesheet", () => {
+  it("should total each worker's hours by day", () => {
+    const rows = buildWeeklyTimesheet([
+      { user_id: "1", clock_in: "2024-03-11T07:00:00Z", regular_hours: 8, overtime_hours: 1, cost: 380 },
+      { user_id: "1", clock_in: "2024-03-12T07:00:00Z", regular_hours: 7.5, overtime_hours: 0, cost: 300 },
+      { user_id: "2", clock_in: "2024-03-12T07:00:00Z", regular_hours: 4, overtime_hours: 0, cost: 120 },
+    ], "2024-03-11");
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].days["2024-03-11"]).toBe(9);
+    expect(rows[0].days["2024-03-12"]).toBe(7.5);
+    expect(rows[0].days["2024-03-17"]).toBe(0);
+    expect(rows[0]).toMatchObject({ regular: 15.5, overtime: 1, total: 16.5, cost: 680 });
+    expect(rows[1]).toMatchObject({ total: 4, cost: 120 });
+  });
+});
+
+describe("TimesheetService.updateTimeEntry", () => {
+  it("should only decide an entry that is still in the expected status", async () => {
+    const project = FallbackDatabase.createProject({ name: "Depot", budget: 100000 }, "user-1");
+    const entry = FallbackDatabase.createTimeEntry({
+      project_id: project.id,
+      user_id: "worker-1",
+      cost_code_id: 1,
+      clock_in: "2024-03-11T08:00:00Z",
+      status: "submitted",
+      cost: 250,
+    })!;
+
+    const approved = await TimesheetService.updateTimeEntry(project.id, entry.id, { status: "approved" }, "submitted");
+    expect(approved?.status).toBe("approved");
+
+    await expect(TimesheetService.updateTimeEntry(project.id, entry.id, { status: "approved" }, "submitted"))
+      .rejects.toBeInstanceOf(VersionConflictError);
+    await expect(TimesheetService.updateTimeEntry(project.id, entry.id, { status: "rejected" }, "submitted"))
+      .rejects.toBeInstanceOf(VersionConflictError);
+    expect(FallbackDatabase.getTimeEntry(project.id, entry.id)?.status).toBe("approved");
+  });
+});
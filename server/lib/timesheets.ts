@@ -0,0 +1,108 @@
+/**
+ * Labour time rules: worked hours are clock-out minus clock-in less breaks.
+ * Hours past 8 in a day or 40 in a week (Monday–Sunday) are overtime, paid
+ * at time and a half.
+ */
+
+export const DAILY_REGULAR_HOURS = 8;
+export const WEEKLY_REGULAR_HOURS = 40;
+export const OVERTIME_MULTIPLIER = 1.5;
+
+export type TimeEntryStatus = 'open' | 'submitted' | 'approved' | 'rejected';
+
+export interface BreakPeriod {
+  start: string;
+  end: string | null;
+}
+
+export interface HoursSplit {
+  regular: number;
+  overtime: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const toDateString = (value: string | Date) => new Date(value).toISOString().split('T')[0];
+
+/** Monday of the week containing the date, as YYYY-MM-DD (UTC). */
+export function weekStart(date: string | Date): string {
+  const day = new Date(`${toDateString(date)}T00:00:00Z`);
+  const offset = (day.getUTCDay() + 6) % 7;
+  day.setUTCDate(day.getUTCDate() - offset);
+  return toDateString(day);
+}
+
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return toDateString(day);
+}
+
+/** Hours between clock-in and clock-out, less completed breaks. */
+export function workedHours(clockIn: string, clockOut: string, breaks: BreakPeriod[] = []): number {
+  const breakMs = breaks
+    .filter(b => b.end)
+    .reduce((sum, b) => sum + Math.max(0, new Date(b.end!).getTime() - new Date(b.start).getTime()), 0);
+  const worked = new Date(clockOut).getTime() - new Date(clockIn).getTime() - breakMs;
+  return round2(Math.max(0, worked) / HOUR_MS);
+}
+
+/**
+ * Split a shift's hours given what the worker has already logged that day
+ * and the regular hours already used that week.
+ */
+export function splitOvertime(hours: number, priorDayHours: number, priorWeekRegularHours: number): HoursSplit {
+  const dailyAllowance = Math.max(0, DAILY_REGULAR_HOURS - priorDayHours);
+  const weeklyAllowance = Math.max(0, WEEKLY_REGULAR_HOURS - priorWeekRegularHours);
+  const regular = Math.min(hours, dailyAllowance, weeklyAllowance);
+  return { regular: round2(regular), overtime: round2(hours - regular) };
+}
+
+export const labourCost = (split: HoursSplit, hourlyRate: number) =>
+  round2((split.regular + split.overtime * OVERTIME_MULTIPLIER) * hourlyRate);
+
+export interface TimesheetEntry {
+  user_id: string;
+  clock_in: string;
+  regular_hours: number;
+  overtime_hours: number;
+  cost: number;
+}
+
+export interface TimesheetRow {
+  user_id: string;
+  days: Record<string, number>;
+  regular: number;
+  overtime: number;
+  total: number;
+  cost: number;
+}
+
+/** One row per worker with hours for each day of the week starting `from`. */
+export function buildWeeklyTimesheet(entries: TimesheetEntry[], from: string): TimesheetRow[] {
+  const dates = Array.from({ length: 7 }, (_, i) => addDays(from, i));
+  const rows = new Map<string, TimesheetRow>();
+
+  for (const entry of entries) {
+    const row = rows.get(entry.user_id) ?? {
+      user_id: entry.user_id,
+      days: Object.fromEntries(dates.map(date => [date, 0])),
+      regular: 0,
+      overtime: 0,
+      total: 0,
+      cost: 0,
+    };
+    const date = toDateString(entry.clock_in);
+    if (date in row.days) {
+      row.days[date] = round2(row.days[date] + entry.regular_hours + entry.overtime_hours);
+    }
+    row.regular = round2(row.regular + entry.regular_hours);
+    row.overtime = round2(row.overtime + entry.overtime_hours);
+    row.total = round2(row.regular + row.overtime);
+    row.cost = round2(row.cost + entry.cost);
+    rows.set(entry.user_id, row);
+  }
+
+  return Array.from(rows.values());
+}
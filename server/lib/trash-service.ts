@@ -0,0 +1,201 @@
+import { supabase, isSupabaseConfigured } from './database';
+import { FallbackDatabase } from './database-fallback';
+import { Material, Project } from './projects-service';
+import { FileStorageService } from './file-storage';
+import { isPurgeDue } from './trash';
+
+export interface TrashedMaterial extends Material {
+  project_name: string;
+}
+
+export class TrashService {
+  static async getTrashedProjects(): Promise<Project[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching trashed projects:', error);
+        return [];
+      }
+
+      return data || [];
+    } else {
+      return FallbackDatabase.getTrashedProjects()
+        .sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || ''));
+    }
+  }
+
+  // Materials of a trashed project go and come back with the project, so they aren't listed
+  static async getTrashedMaterials(): Promise<TrashedMaterial[]> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('materials')
+        .select('*, projects!inner(name, deleted_at)')
+        .not('deleted_at', 'is', null)
+        .is('projects.deleted_at', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching trashed materials:', error);
+        return [];
+      }
+
+      return (data || []).map(({ projects: project, ...material }) => ({ ...material, project_name: project.name }));
+    } else {
+      return FallbackDatabase.getTrashedMaterials()
+        .map(material => ({ material, project: FallbackDatabase.getProjectById(material.project_id) }))
+        .filter(({ project }) => project && !project.deleted_at)
+        .map(({ material, project }) => ({ ...material, project_name: project!.name }))
+        .sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || ''));
+    }
+  }
+
+  static async getTrashedProject(id: number): Promise<Project | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('id', id)
+        .not('deleted_at', 'is', null)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      const project = FallbackDatabase.getProjectById(id);
+      return project?.deleted_at ? project : null;
+    }
+  }
+
+  static async getTrashedMaterial(id: number): Promise<Material | null> {
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('materials')
+        .select('*')
+        .eq('id', id)
+        .not('deleted_at', 'is', null)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data;
+    } else {
+      const material = FallbackDatabase.getMaterialById(id);
+      return material?.deleted_at ? material : null;
+    }
+  }
+
+  static async restoreProject(id: number): Promise<Project | null> {
+    const restored = { deleted_at: null, deleted_by: null };
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('projects')
+        .update(restored)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error restoring project:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateProject(id, restored);
+    }
+  }
+
+  static async restoreMaterial(id: number): Promise<Material | null> {
+    const restored = { deleted_at: null, deleted_by: null };
+
+    if (isSupabaseConfigured()) {
+      const { data, error } = await supabase
+        .from('materials')
+        .update(restored)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Error restoring material:', error);
+        return null;
+      }
+
+      return data;
+    } else {
+      return FallbackDatabase.updateMaterial(id, restored);
+    }
+  }
+
+  /**
+   * Permanently delete a project. Everything that belongs to it goes too,
+   * including uploaded files, so this can't be undone.
+   */
+  static async purgeProject(id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('projects')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error purging project:', error);
+        return false;
+      }
+    } else if (!FallbackDatabase.deleteProject(id)) {
+      return false;
+    }
+
+    for (const file of FileStorageService.getProjectFiles(id)) {
+      await FileStorageService.deleteFile(file.id);
+    }
+    return true;
+  }
+
+  static async purgeMaterial(id: number): Promise<boolean> {
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase
+        .from('materials')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error purging material:', error);
+        return false;
+      }
+
+      return true;
+    } else {
+      return FallbackDatabase.deleteMaterial(id);
+    }
+  }
+
+  // Purge everything that has been in the trash longer than the retention period
+  static async purgeExpired(retentionDays: number): Promise<{ projects: number; materials: number }> {
+    const purged = { projects: 0, materials: 0 };
+
+    for (const project of await this.getTrashedProjects()) {
+      if (isPurgeDue(project.deleted_at!, retentionDays) && await this.purgeProject(project.id)) {
+        purged.projects++;
+      }
+    }
+    for (const material of await this.getTrashedMaterials()) {
+      if (isPurgeDue(material.deleted_at!, retentionDays) && await this.purgeMaterial(material.id)) {
+        purged.materials++;
+      }
+    }
+
+    return purged;
+  }
+}
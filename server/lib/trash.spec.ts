@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_TRASH_RETENTION_DAYS, isPurgeDue, parseRetentionDays, purgeAt } from "./trash";
+
+describe("trash retention", () => {
+  it("should purge once the retention period has passed", () => {
+    expect(purgeAt("2024-05-01T10:00:00.000Z", 30)).toBe("2024-05-31T10:00:00.000Z");
+    expect(isPurgeDue("2024-05-01T10:00:00.000Z", 30, new Date("2024-05-31T09:59:00Z"))).toBe(false);
+    expect(isPurgeDue("2024-05-01T10:00:00+00:00", 30, new Date("2024-05-31T10:00:00Z"))).toBe(true);
+  });
+
+  it("should fall back to the default for invalid settings", () => {
+    expect(parseRetentionDays("7")).toBe(7);
+    expect(parseRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(parseRetentionDays("0")).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(parseRetentionDays("1.5")).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+});
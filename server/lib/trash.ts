@@ -0,0 +1,21 @@
+/**
+ * Trash retention
+ * Deleted projects and materials stay restorable for a retention period,
+ * after which they are purged for good.
+ */
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const parseRetentionDays = (value: string | undefined): number => {
+  const days = Number(value);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+// When an item deleted at `deletedAt` is purged
+export const purgeAt = (deletedAt: string, retentionDays: number): string =>
+  new Date(new Date(deletedAt).getTime() + retentionDays * MS_PER_DAY).toISOString();
+
+export const isPurgeDue = (deletedAt: string, retentionDays: number, now = new Date()): boolean =>
+  new Date(purgeAt(deletedAt, retentionDays)).getTime() <= now.getTime();
@@ -1,3 +1,5 @@
+import type { TemplateContent } from './templates'
+
 export type Json =
   | string
   | number
@@ -17,6 +19,8 @@ export interface Database {
           role: 'admin' | 'manager' | 'user'
           avatar: string | null
           password_hash: string
+          is_active: boolean
+          preferences: Record<string, unknown>
           created_at: string
           updated_at: string
         }
@@ -27,6 +31,8 @@ export interface Database {
           role?: 'admin' | 'manager' | 'user'
           avatar?: string | null
           password_hash: string
+          is_active?: boolean
+          preferences?: Record<string, unknown>
           created_at?: string
           updated_at?: string
         }
@@ -37,6 +43,8 @@ export interface Database {
           role?: 'admin' | 'manager' | 'user'
           avatar?: string | null
           password_hash?: string
+          is_active?: boolean
+          preferences?: Record<string, unknown>
           created_at?: string
           updated_at?: string
         }
@@ -62,7 +70,11 @@ export interface Database {
           end_date: string | null
           team_size: number | null
           contractor: string | null
+          currency: string
           user_id: string
+          deleted_at: string | null
+          deleted_by: string | null
+          version: number
           created_at: string
           updated_at: string
         }
@@ -85,7 +97,11 @@ export interface Database {
           end_date?: string | null
           team_size?: number | null
           contractor?: string | null
+          currency?: string
           user_id: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          version?: number
           created_at?: string
           updated_at?: string
         }
@@ -108,7 +124,11 @@ export interface Database {
           end_date?: string | null
           team_size?: number | null
           contractor?: string | null
+          currency?: string
           user_id?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          version?: number
           created_at?: string
           updated_at?: string
         }
@@ -130,8 +150,13 @@ export interface Database {
           total_required: number
           status: 'adequate' | 'low' | 'critical'
           cost: number
-          supplier: string
+          supplier_id: number | null
+          cost_code_id: number | null
+          currency: string
           project_id: number
+          deleted_at: string | null
+          deleted_by: string | null
+          version: number
           created_at: string
           updated_at: string
         }
@@ -142,8 +167,13 @@ export interface Database {
           total_required: number
           status?: 'adequate' | 'low' | 'critical'
           cost: number
-          supplier: string
+          supplier_id?: number | null
+          cost_code_id?: number | null
+          currency?: string
           project_id: number
+          deleted_at?: string | null
+          deleted_by?: string | null
+          version?: number
           created_at?: string
           updated_at?: string
         }
@@ -154,8 +184,13 @@ export interface Database {
           total_required?: number
           status?: 'adequate' | 'low' | 'critical'
           cost?: number
-          supplier?: string
+          supplier_id?: number | null
+          cost_code_id?: number | null
+          currency?: string
           project_id?: number
+          deleted_at?: string | null
+          deleted_by?: string | null
+          version?: number
           created_at?: string
           updated_at?: string
         }
@@ -166,15 +201,1968 @@ export interface Database {
             isOneToOne: false
             referencedRelation: "projects"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "materials_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "materials_cost_code_id_fkey"
+            columns: ["cost_code_id"]
+            isOneToOne: false
+            referencedRelation: "cost_codes"
+            referencedColumns: ["id"]
           }
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      project_members: {
+        Row: {
+          id: number
+          project_id: number
+          user_id: string
+          role: 'owner' | 'manager' | 'editor' | 'viewer'
+          invited_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          user_id: string
+          role?: 'owner' | 'manager' | 'editor' | 'viewer'
+          invited_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          user_id?: string
+          role?: 'owner' | 'manager' | 'editor' | 'viewer'
+          invited_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      project_schedules: {
+        Row: {
+          project_id: number
+          start_date: string | null
+          end_date: string | null
+          working_hours: { start: string; end: string; days?: number[] } | null
+          resource_limits: Record<string, number>
+          shifts: { name: string; start: string; end: string }[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          project_id: number
+          start_date?: string | null
+          end_date?: string | null
+          working_hours?: { start: string; end: string; days?: number[] } | null
+          resource_limits?: Record<string, number>
+          shifts?: { name: string; start: string; end: string }[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          project_id?: number
+          start_date?: string | null
+          end_date?: string | null
+          working_hours?: { start: string; end: string; days?: number[] } | null
+          resource_limits?: Record<string, number>
+          shifts?: { name: string; start: string; end: string }[]
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_schedules_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      project_tasks: {
+        Row: {
+          id: number
+          project_id: number
+          task_key: string
+          name: string
+          duration: number
+          dependencies: string[]
+          resources: string[]
+          constraints: Record<string, any>
+          kind: 'task' | 'inspection'
+          early_start: number | null
+          early_finish: number | null
+          late_start: number | null
+          late_finish: number | null
+          total_float: number | null
+          free_float: number | null
+          is_critical: boolean
+          scheduled_start: string | null
+          scheduled_end: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          task_key: string
+          name: string
+          duration?: number
+          dependencies?: string[]
+          resources?: string[]
+          constraints?: Record<string, any>
+          kind?: 'task' | 'inspection'
+          early_start?: number | null
+          early_finish?: number | null
+          late_start?: number | null
+          late_finish?: number | null
+          total_float?: number | null
+          free_float?: number | null
+          is_critical?: boolean
+          scheduled_start?: string | null
+          scheduled_end?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          task_key?: string
+          name?: string
+          duration?: number
+          dependencies?: string[]
+          resources?: string[]
+          constraints?: Record<string, any>
+          kind?: 'task' | 'inspection'
+          early_start?: number | null
+          early_finish?: number | null
+          late_start?: number | null
+          late_finish?: number | null
+          total_float?: number | null
+          free_float?: number | null
+          is_critical?: boolean
+          scheduled_start?: string | null
+          scheduled_end?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      project_baselines: {
+        Row: {
+          id: number
+          project_id: number
+          name: string
+          budget_at_completion: number
+          periods: { date: string; plannedValue: number }[]
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          name: string
+          budget_at_completion: number
+          periods?: { date: string; plannedValue: number }[]
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          name?: string
+          budget_at_completion?: number
+          periods?: { date: string; plannedValue: number }[]
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_baselines_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      project_evm_snapshots: {
+        Row: {
+          id: number
+          project_id: number
+          snapshot_date: string
+          actual_cost: number
+          percent_complete: number
+          notes: string | null
+          recorded_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          snapshot_date: string
+          actual_cost: number
+          percent_complete: number
+          notes?: string | null
+          recorded_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          snapshot_date?: string
+          actual_cost?: number
+          percent_complete?: number
+          notes?: string | null
+          recorded_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_evm_snapshots_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          id: number
+          project_id: number
+          material_id: number
+          supplier_id: number | null
+          cost_code_id: number | null
+          quantity_ordered: number
+          quantity_received: number
+          unit_cost: number
+          status: 'ordered' | 'partially_received' | 'received' | 'cancelled'
+          order_date: string
+          expected_delivery_date: string
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          material_id: number
+          supplier_id?: number | null
+          cost_code_id?: number | null
+          quantity_ordered: number
+          quantity_received?: number
+          unit_cost: number
+          status?: 'ordered' | 'partially_received' | 'received' | 'cancelled'
+          order_date?: string
+          expected_delivery_date: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          material_id?: number
+          supplier_id?: number | null
+          cost_code_id?: number | null
+          quantity_ordered?: number
+          quantity_received?: number
+          unit_cost?: number
+          status?: 'ordered' | 'partially_received' | 'received' | 'cancelled'
+          order_date?: string
+          expected_delivery_date?: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "materials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_cost_code_id_fkey"
+            columns: ["cost_code_id"]
+            isOneToOne: false
+            referencedRelation: "cost_codes"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      material_transactions: {
+        Row: {
+          id: number
+          material_id: number
+          project_id: number
+          type: 'received' | 'consumed' | 'returned' | 'adjusted'
+          quantity: number
+          unit_cost: number | null
+          purchase_order_id: number | null
+          reference: string | null
+          notes: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          material_id: number
+          project_id: number
+          type: 'received' | 'consumed' | 'returned' | 'adjusted'
+          quantity: number
+          unit_cost?: number | null
+          purchase_order_id?: number | null
+          reference?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          material_id?: number
+          project_id?: number
+          type?: 'received' | 'consumed' | 'returned' | 'adjusted'
+          quantity?: number
+          unit_cost?: number | null
+          purchase_order_id?: number | null
+          reference?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "material_transactions_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "materials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_transactions_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      goods_received: {
+        Row: {
+          id: number
+          purchase_order_id: number
+          transaction_id: number | null
+          quantity: number
+          received_date: string
+          delivery_note: string | null
+          received_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          purchase_order_id: number
+          transaction_id?: number | null
+          quantity: number
+          received_date?: string
+          delivery_note?: string | null
+          received_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          purchase_order_id?: number
+          transaction_id?: number | null
+          quantity?: number
+          received_date?: string
+          delivery_note?: string | null
+          received_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_received_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "material_transactions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      suppliers: {
+        Row: {
+          id: number
+          name: string
+          email: string | null
+          phone: string | null
+          address: string | null
+          website: string | null
+          contacts: { name: string; role?: string | null; email?: string | null; phone?: string | null; is_primary?: boolean }[]
+          lead_time_days: number
+          notes: string | null
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          name: string
+          email?: string | null
+          phone?: string | null
+          address?: string | null
+          website?: string | null
+          contacts?: { name: string; role?: string | null; email?: string | null; phone?: string | null; is_primary?: boolean }[]
+          lead_time_days?: number
+          notes?: string | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          name?: string
+          email?: string | null
+          phone?: string | null
+          address?: string | null
+          website?: string | null
+          contacts?: { name: string; role?: string | null; email?: string | null; phone?: string | null; is_primary?: boolean }[]
+          lead_time_days?: number
+          notes?: string | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suppliers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      supplier_prices: {
+        Row: {
+          id: number
+          supplier_id: number
+          item_name: string
+          unit: string | null
+          unit_price: number
+          currency: string
+          min_quantity: number
+          lead_time_days: number | null
+          valid_from: string
+          valid_to: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          supplier_id: number
+          item_name: string
+          unit?: string | null
+          unit_price: number
+          currency?: string
+          min_quantity?: number
+          lead_time_days?: number | null
+          valid_from?: string
+          valid_to?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          supplier_id?: number
+          item_name?: string
+          unit?: string | null
+          unit_price?: number
+          currency?: string
+          min_quantity?: number
+          lead_time_days?: number | null
+          valid_from?: string
+          valid_to?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_prices_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      site_diary_entries: {
+        Row: {
+          id: number
+          project_id: number
+          entry_date: string
+          crews: { trade: string; company?: string | null; headcount: number; hours?: number | null }[]
+          work_performed: string | null
+          delays: { description: string; cause?: string | null; hours_lost?: number | null }[]
+          visitors: { name: string; company?: string | null; purpose?: string | null; time_in?: string | null; time_out?: string | null }[]
+          notes: string | null
+          weather: { temperature: number; humidity: number; windSpeed: number; condition: string; units: 'metric' | 'imperial'; source: 'openweathermap' | 'demo'; capturedAt: string } | null
+          file_ids: string[]
+          status: 'draft' | 'signed_off'
+          signed_off_by: string | null
+          signed_off_at: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          entry_date: string
+          crews?: { trade: string; company?: string | null; headcount: number; hours?: number | null }[]
+          work_performed?: string | null
+          delays?: { description: string; cause?: string | null; hours_lost?: number | null }[]
+          visitors?: { name: string; company?: string | null; purpose?: string | null; time_in?: string | null; time_out?: string | null }[]
+          notes?: string | null
+          weather?: { temperature: number; humidity: number; windSpeed: number; condition: string; units: 'metric' | 'imperial'; source: 'openweathermap' | 'demo'; capturedAt: string } | null
+          file_ids?: string[]
+          status?: 'draft' | 'signed_off'
+          signed_off_by?: string | null
+          signed_off_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          entry_date?: string
+          crews?: { trade: string; company?: string | null; headcount: number; hours?: number | null }[]
+          work_performed?: string | null
+          delays?: { description: string; cause?: string | null; hours_lost?: number | null }[]
+          visitors?: { name: string; company?: string | null; purpose?: string | null; time_in?: string | null; time_out?: string | null }[]
+          notes?: string | null
+          weather?: { temperature: number; humidity: number; windSpeed: number; condition: string; units: 'metric' | 'imperial'; source: 'openweathermap' | 'demo'; capturedAt: string } | null
+          file_ids?: string[]
+          status?: 'draft' | 'signed_off'
+          signed_off_by?: string | null
+          signed_off_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "site_diary_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      rfis: {
+        Row: {
+          id: number
+          project_id: number
+          number: number
+          subject: string
+          question: string
+          status: 'draft' | 'open' | 'answered' | 'closed'
+          assigned_to: string | null
+          due_date: string | null
+          cost_impact: boolean
+          schedule_impact: boolean
+          file_ids: string[]
+          raised_by: string | null
+          opened_at: string | null
+          answered_at: string | null
+          closed_at: string | null
+          overdue_notified_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          number: number
+          subject: string
+          question: string
+          status?: 'draft' | 'open' | 'answered' | 'closed'
+          assigned_to?: string | null
+          due_date?: string | null
+          cost_impact?: boolean
+          schedule_impact?: boolean
+          file_ids?: string[]
+          raised_by?: string | null
+          opened_at?: string | null
+          answered_at?: string | null
+          closed_at?: string | null
+          overdue_notified_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          number?: number
+          subject?: string
+          question?: string
+          status?: 'draft' | 'open' | 'answered' | 'closed'
+          assigned_to?: string | null
+          due_date?: string | null
+          cost_impact?: boolean
+          schedule_impact?: boolean
+          file_ids?: string[]
+          raised_by?: string | null
+          opened_at?: string | null
+          answered_at?: string | null
+          closed_at?: string | null
+          overdue_notified_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rfis_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      rfi_responses: {
+        Row: {
+          id: number
+          rfi_id: number
+          parent_id: number | null
+          body: string
+          is_answer: boolean
+          file_ids: string[]
+          author_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          rfi_id: number
+          parent_id?: number | null
+          body: string
+          is_answer?: boolean
+          file_ids?: string[]
+          author_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          rfi_id?: number
+          parent_id?: number | null
+          body?: string
+          is_answer?: boolean
+          file_ids?: string[]
+          author_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rfi_responses_rfi_id_fkey"
+            columns: ["rfi_id"]
+            isOneToOne: false
+            referencedRelation: "rfis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rfi_responses_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "rfi_responses"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      defects: {
+        Row: {
+          id: number
+          project_id: number
+          number: number
+          title: string
+          description: string | null
+          location: string
+          pin: { file_id: string; x: number; y: number } | null
+          trade: string
+          severity: 'minor' | 'major' | 'critical'
+          status: 'open' | 'in_progress' | 'fixed' | 'verified'
+          photo_ids: string[]
+          assigned_to: string | null
+          due_date: string | null
+          raised_by: string | null
+          fixed_at: string | null
+          verified_by: string | null
+          verified_at: string | null
+          verification_notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          number: number
+          title: string
+          description?: string | null
+          location: string
+          pin?: { file_id: string; x: number; y: number } | null
+          trade: string
+          severity?: 'minor' | 'major' | 'critical'
+          status?: 'open' | 'in_progress' | 'fixed' | 'verified'
+          photo_ids?: string[]
+          assigned_to?: string | null
+          due_date?: string | null
+          raised_by?: string | null
+          fixed_at?: string | null
+          verified_by?: string | null
+          verified_at?: string | null
+          verification_notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          number?: number
+          title?: string
+          description?: string | null
+          location?: string
+          pin?: { file_id: string; x: number; y: number } | null
+          trade?: string
+          severity?: 'minor' | 'major' | 'critical'
+          status?: 'open' | 'in_progress' | 'fixed' | 'verified'
+          photo_ids?: string[]
+          assigned_to?: string | null
+          due_date?: string | null
+          raised_by?: string | null
+          fixed_at?: string | null
+          verified_by?: string | null
+          verified_at?: string | null
+          verification_notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "defects_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      acceptance_criteria: {
+        Row: {
+          id: number
+          project_id: number
+          phase: string
+          title: string
+          description: string | null
+          sort_order: number
+          evidence_file_ids: string[]
+          signed_off_by: string | null
+          signed_off_at: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          phase: string
+          title: string
+          description?: string | null
+          sort_order?: number
+          evidence_file_ids?: string[]
+          signed_off_by?: string | null
+          signed_off_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          phase?: string
+          title?: string
+          description?: string | null
+          sort_order?: number
+          evidence_file_ids?: string[]
+          signed_off_by?: string | null
+          signed_off_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "acceptance_criteria_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      project_risks: {
+        Row: {
+          id: number
+          project_id: number
+          title: string
+          description: string | null
+          category: string | null
+          probability: number
+          impact: number
+          owner_id: string | null
+          response_strategy: 'avoid' | 'mitigate' | 'transfer' | 'accept'
+          mitigation_actions: { description: string; owner_id: string | null; due_date: string | null; completed_at: string | null }[]
+          status: 'open' | 'monitoring' | 'closed'
+          review_date: string | null
+          closed_at: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          title: string
+          description?: string | null
+          category?: string | null
+          probability: number
+          impact: number
+          owner_id?: string | null
+          response_strategy?: 'avoid' | 'mitigate' | 'transfer' | 'accept'
+          mitigation_actions?: { description: string; owner_id: string | null; due_date: string | null; completed_at: string | null }[]
+          status?: 'open' | 'monitoring' | 'closed'
+          review_date?: string | null
+          closed_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          title?: string
+          description?: string | null
+          category?: string | null
+          probability?: number
+          impact?: number
+          owner_id?: string | null
+          response_strategy?: 'avoid' | 'mitigate' | 'transfer' | 'accept'
+          mitigation_actions?: { description: string; owner_id: string | null; due_date: string | null; completed_at: string | null }[]
+          status?: 'open' | 'monitoring' | 'closed'
+          review_date?: string | null
+          closed_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_risks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      cost_codes: {
+        Row: {
+          id: number
+          project_id: number
+          code: string
+          name: string
+          labour_rate: number
+          budget: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          code: string
+          name: string
+          labour_rate?: number
+          budget?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          code?: string
+          name?: string
+          labour_rate?: number
+          budget?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_codes_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      time_entries: {
+        Row: {
+          id: number
+          project_id: number
+          user_id: string
+          cost_code_id: number
+          clock_in: string
+          clock_out: string | null
+          breaks: { start: string; end: string | null }[]
+          clock_in_latitude: number | null
+          clock_in_longitude: number | null
+          clock_out_latitude: number | null
+          clock_out_longitude: number | null
+          regular_hours: number
+          overtime_hours: number
+          hourly_rate: number
+          cost: number
+          status: 'open' | 'submitted' | 'approved' | 'rejected'
+          notes: string | null
+          approved_by: string | null
+          approved_at: string | null
+          rejection_reason: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          user_id: string
+          cost_code_id: number
+          clock_in: string
+          clock_out?: string | null
+          breaks?: { start: string; end: string | null }[]
+          clock_in_latitude?: number | null
+          clock_in_longitude?: number | null
+          clock_out_latitude?: number | null
+          clock_out_longitude?: number | null
+          regular_hours?: number
+          overtime_hours?: number
+          hourly_rate?: number
+          cost?: number
+          status?: 'open' | 'submitted' | 'approved' | 'rejected'
+          notes?: string | null
+          approved_by?: string | null
+          approved_at?: string | null
+          rejection_reason?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          user_id?: string
+          cost_code_id?: number
+          clock_in?: string
+          clock_out?: string | null
+          breaks?: { start: string; end: string | null }[]
+          clock_in_latitude?: number | null
+          clock_in_longitude?: number | null
+          clock_out_latitude?: number | null
+          clock_out_longitude?: number | null
+          regular_hours?: number
+          overtime_hours?: number
+          hourly_rate?: number
+          cost?: number
+          status?: 'open' | 'submitted' | 'approved' | 'rejected'
+          notes?: string | null
+          approved_by?: string | null
+          approved_at?: string | null
+          rejection_reason?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_cost_code_id_fkey"
+            columns: ["cost_code_id"]
+            isOneToOne: false
+            referencedRelation: "cost_codes"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      iot_devices: {
+        Row: {
+          device_id: string
+          name: string | null
+          device_type: 'sensor' | 'camera' | 'equipment' | 'wearable' | 'environmental'
+          location: { lat: number; lon: number; zone?: string } | null
+          capabilities: string[]
+          status: 'active' | 'inactive' | 'maintenance' | 'error'
+          ingest_key_hash: string
+          last_seen_at: string | null
+          registered_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          device_id: string
+          name?: string | null
+          device_type: 'sensor' | 'camera' | 'equipment' | 'wearable' | 'environmental'
+          location?: { lat: number; lon: number; zone?: string } | null
+          capabilities?: string[]
+          status?: 'active' | 'inactive' | 'maintenance' | 'error'
+          ingest_key_hash: string
+          last_seen_at?: string | null
+          registered_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          device_id?: string
+          name?: string | null
+          device_type?: 'sensor' | 'camera' | 'equipment' | 'wearable' | 'environmental'
+          location?: { lat: number; lon: number; zone?: string } | null
+          capabilities?: string[]
+          status?: 'active' | 'inactive' | 'maintenance' | 'error'
+          ingest_key_hash?: string
+          last_seen_at?: string | null
+          registered_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+
+        ]
+      }
+      equipment: {
+        Row: {
+          id: number
+          asset_tag: string
+          name: string
+          category: string | null
+          make: string | null
+          model: string | null
+          serial_number: string | null
+          status: 'available' | 'in_use' | 'maintenance' | 'retired'
+          project_id: number | null
+          assigned_at: string | null
+          iot_device_id: string | null
+          hour_meter: number
+          service_interval_hours: number | null
+          service_interval_days: number | null
+          last_service_hours: number
+          last_service_date: string | null
+          maintenance_notified_at: string | null
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          asset_tag: string
+          name: string
+          category?: string | null
+          make?: string | null
+          model?: string | null
+          serial_number?: string | null
+          status?: 'available' | 'in_use' | 'maintenance' | 'retired'
+          project_id?: number | null
+          assigned_at?: string | null
+          iot_device_id?: string | null
+          hour_meter?: number
+          service_interval_hours?: number | null
+          service_interval_days?: number | null
+          last_service_hours?: number
+          last_service_date?: string | null
+          maintenance_notified_at?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          asset_tag?: string
+          name?: string
+          category?: string | null
+          make?: string | null
+          model?: string | null
+          serial_number?: string | null
+          status?: 'available' | 'in_use' | 'maintenance' | 'retired'
+          project_id?: number | null
+          assigned_at?: string | null
+          iot_device_id?: string | null
+          hour_meter?: number
+          service_interval_hours?: number | null
+          service_interval_days?: number | null
+          last_service_hours?: number
+          last_service_date?: string | null
+          maintenance_notified_at?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "equipment_iot_device_id_fkey"
+            columns: ["iot_device_id"]
+            isOneToOne: true
+            referencedRelation: "iot_devices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      equipment_meter_readings: {
+        Row: {
+          id: number
+          equipment_id: number
+          hours: number
+          source: 'manual' | 'telemetry' | 'service'
+          recorded_by: string | null
+          recorded_at: string
+        }
+        Insert: {
+          id?: number
+          equipment_id: number
+          hours: number
+          source?: 'manual' | 'telemetry' | 'service'
+          recorded_by?: string | null
+          recorded_at?: string
+        }
+        Update: {
+          id?: number
+          equipment_id?: number
+          hours?: number
+          source?: 'manual' | 'telemetry' | 'service'
+          recorded_by?: string | null
+          recorded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_meter_readings_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      equipment_services: {
+        Row: {
+          id: number
+          equipment_id: number
+          performed_at: string
+          hours: number
+          description: string
+          performed_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          equipment_id: number
+          performed_at: string
+          hours: number
+          description: string
+          performed_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          equipment_id?: number
+          performed_at?: string
+          hours?: number
+          description?: string
+          performed_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_services_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      equipment_certificates: {
+        Row: {
+          id: number
+          equipment_id: number
+          certificate_type: string
+          certificate_number: string | null
+          issued_date: string | null
+          expiry_date: string | null
+          file_id: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          equipment_id: number
+          certificate_type: string
+          certificate_number?: string | null
+          issued_date?: string | null
+          expiry_date?: string | null
+          file_id?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          equipment_id?: number
+          certificate_type?: string
+          certificate_number?: string | null
+          issued_date?: string | null
+          expiry_date?: string | null
+          file_id?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "equipment_certificates_equipment_id_fkey"
+            columns: ["equipment_id"]
+            isOneToOne: false
+            referencedRelation: "equipment"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      project_folders: {
+        Row: {
+          id: number
+          project_id: number
+          path: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          path: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          path?: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_folders_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      project_templates: {
+        Row: {
+          id: number
+          name: string
+          description: string | null
+          source_project_id: number | null
+          source_budget: number
+          source_start_date: string | null
+          content: TemplateContent
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          name: string
+          description?: string | null
+          source_project_id?: number | null
+          source_budget: number
+          source_start_date?: string | null
+          content: TemplateContent
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          name?: string
+          description?: string | null
+          source_project_id?: number | null
+          source_budget?: number
+          source_start_date?: string | null
+          content?: TemplateContent
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_templates_source_project_id_fkey"
+            columns: ["source_project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      audit_log: {
+        Row: {
+          id: number
+          actor_id: string | null
+          entity_type: 'project' | 'material' | 'user'
+          entity_id: string
+          project_id: number | null
+          action: 'create' | 'update' | 'delete'
+          field: string | null
+          old_value: Json | null
+          new_value: Json | null
+          request_id: string | null
+          method: string | null
+          path: string | null
+          ip: string | null
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          actor_id?: string | null
+          entity_type: 'project' | 'material' | 'user'
+          entity_id: string
+          project_id?: number | null
+          action: 'create' | 'update' | 'delete'
+          field?: string | null
+          old_value?: Json | null
+          new_value?: Json | null
+          request_id?: string | null
+          method?: string | null
+          path?: string | null
+          ip?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          actor_id?: string | null
+          entity_type?: 'project' | 'material' | 'user'
+          entity_id?: string
+          project_id?: number | null
+          action?: 'create' | 'update' | 'delete'
+          field?: string | null
+          old_value?: Json | null
+          new_value?: Json | null
+          request_id?: string | null
+          method?: string | null
+          path?: string | null
+          ip?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      subcontracts: {
+        Row: {
+          id: number
+          project_id: number
+          cost_code_id: number
+          contractor: string
+          description: string | null
+          contract_value: number
+          invoiced_to_date: number
+          status: 'awarded' | 'complete' | 'cancelled'
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          cost_code_id: number
+          contractor: string
+          description?: string | null
+          contract_value: number
+          invoiced_to_date?: number
+          status?: 'awarded' | 'complete' | 'cancelled'
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          cost_code_id?: number
+          contractor?: string
+          description?: string | null
+          contract_value?: number
+          invoiced_to_date?: number
+          status?: 'awarded' | 'complete' | 'cancelled'
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subcontracts_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subcontracts_cost_code_id_fkey"
+            columns: ["cost_code_id"]
+            isOneToOne: false
+            referencedRelation: "cost_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subcontracts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      schedule_of_values: {
+        Row: {
+          id: number
+          project_id: number
+          item_number: string
+          description: string
+          scheduled_value: number
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          item_number: string
+          description: string
+          scheduled_value: number
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          item_number?: string
+          description?: string
+          scheduled_value?: number
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_of_values_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      variations: {
+        Row: {
+          id: number
+          project_id: number
+          reference: string
+          description: string
+          amount: number
+          status: 'pending' | 'approved' | 'rejected'
+          approved_by: string | null
+          approved_at: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          reference: string
+          description: string
+          amount: number
+          status?: 'pending' | 'approved' | 'rejected'
+          approved_by?: string | null
+          approved_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          reference?: string
+          description?: string
+          amount?: number
+          status?: 'pending' | 'approved' | 'rejected'
+          approved_by?: string | null
+          approved_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "variations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "variations_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "variations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      progress_claims: {
+        Row: {
+          id: number
+          project_id: number
+          number: number
+          period_end: string
+          status: 'draft' | 'submitted' | 'certified' | 'paid'
+          retention_rate: number
+          retention_released: number
+          lines: { source: 'item' | 'variation'; source_id: number; reference: string; description: string; scheduled_value: number; percent_complete: number }[]
+          gross_to_date: number | null
+          retention_held: number | null
+          previous_certified: number | null
+          amount_due: number | null
+          notes: string | null
+          submitted_at: string | null
+          certified_at: string | null
+          certified_by: string | null
+          paid_at: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          number: number
+          period_end: string
+          status?: 'draft' | 'submitted' | 'certified' | 'paid'
+          retention_rate?: number
+          retention_released?: number
+          lines?: { source: 'item' | 'variation'; source_id: number; reference: string; description: string; scheduled_value: number; percent_complete: number }[]
+          gross_to_date?: number | null
+          retention_held?: number | null
+          previous_certified?: number | null
+          amount_due?: number | null
+          notes?: string | null
+          submitted_at?: string | null
+          certified_at?: string | null
+          certified_by?: string | null
+          paid_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          number?: number
+          period_end?: string
+          status?: 'draft' | 'submitted' | 'certified' | 'paid'
+          retention_rate?: number
+          retention_released?: number
+          lines?: { source: 'item' | 'variation'; source_id: number; reference: string; description: string; scheduled_value: number; percent_complete: number }[]
+          gross_to_date?: number | null
+          retention_held?: number | null
+          previous_certified?: number | null
+          amount_due?: number | null
+          notes?: string | null
+          submitted_at?: string | null
+          certified_at?: string | null
+          certified_by?: string | null
+          paid_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "progress_claims_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "progress_claims_certified_by_fkey"
+            columns: ["certified_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "progress_claims_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      change_orders: {
+        Row: {
+          id: number
+          project_id: number
+          number: number
+          title: string
+          description: string | null
+          cost_impact: number
+          time_impact_days: number
+          status: 'draft' | 'submitted' | 'approved' | 'rejected'
+          approval_chain: { role: 'manager' | 'owner'; decision: 'approved' | 'rejected' | null; decided_by: string | null; decided_at: string | null; comment: string | null }[]
+          submitted_by: string | null
+          submitted_at: string | null
+          approved_at: string | null
+          budget_before: number | null
+          budget_after: number | null
+          end_date_before: string | null
+          end_date_after: string | null
+          baseline_id: number | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          number: number
+          title: string
+          description?: string | null
+          cost_impact?: number
+          time_impact_days?: number
+          status?: 'draft' | 'submitted' | 'approved' | 'rejected'
+          approval_chain?: { role: 'manager' | 'owner'; decision: 'approved' | 'rejected' | null; decided_by: string | null; decided_at: string | null; comment: string | null }[]
+          submitted_by?: string | null
+          submitted_at?: string | null
+          approved_at?: string | null
+          budget_before?: number | null
+          budget_after?: number | null
+          end_date_before?: string | null
+          end_date_after?: string | null
+          baseline_id?: number | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          number?: number
+          title?: string
+          description?: string | null
+          cost_impact?: number
+          time_impact_days?: number
+          status?: 'draft' | 'submitted' | 'approved' | 'rejected'
+          approval_chain?: { role: 'manager' | 'owner'; decision: 'approved' | 'rejected' | null; decided_by: string | null; decided_at: string | null; comment: string | null }[]
+          submitted_by?: string | null
+          submitted_at?: string | null
+          approved_at?: string | null
+          budget_before?: number | null
+          budget_after?: number | null
+          end_date_before?: string | null
+          end_date_after?: string | null
+          baseline_id?: number | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "change_orders_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_orders_baseline_id_fkey"
+            columns: ["baseline_id"]
+            isOneToOne: false
+            referencedRelation: "project_baselines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_orders_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "change_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          id: number
+          base_currency: string
+          quote_currency: string
+          rate: number
+          effective_date: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          base_currency: string
+          quote_currency: string
+          rate: number
+          effective_date: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          base_currency?: string
+          quote_currency?: string
+          rate?: number
+          effective_date?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      project_closures: {
+        Row: {
+          id: number
+          project_id: number
+          name: string
+          kind: 'holiday' | 'shutdown'
+          start_date: string
+          end_date: string
+          uid: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          project_id: number
+          name: string
+          kind?: 'holiday' | 'shutdown'
+          start_date: string
+          end_date: string
+          uid?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          project_id?: number
+          name?: string
+          kind?: 'holiday' | 'shutdown'
+          start_date?: string
+          end_date?: string
+          uid?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_closures_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_closures_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      calendar_feeds: {
+        Row: {
+          user_id: string
+          token_hash: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          token_hash: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          token_hash?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      add_project_spent: {
+        Args: {
+          target_project_id: number
+          amount: number
+        }
+        Returns: number
+      }
+      search_entities: {
+        Args: {
+          search_query: string
+          project_ids: number[]
+          max_results?: number
+        }
+        Returns: {
+          entity_type: string
+          entity_id: number
+          project_id: number
+          title: string
+          subtitle: string | null
+          headline: string
+          rank: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,17 @@
+/**
+ * Request validation helpers shared by the route handlers.
+ */
+
+import { z } from 'zod';
+
+// Zod issues in the `errors` shape routes send back with a 400
+export const validationErrors = (error: z.ZodError) => error.issues.map(err => ({
+  message: err.message,
+  field: err.path.join('.'),
+}));
+
+// A numeric route parameter, or null when it isn't a number
+export const parseId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
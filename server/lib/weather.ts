@@ -0,0 +1,94 @@
+/**
+ * Weather lookups shared by the weather integration route and features
+ * that record site conditions
+ */
+
+const WEATHER_API_KEY = process.env.WEATHER_API_KEY || 'demo-key';
+const WEATHER_BASE_URL = 'https://api.openweathermap.org/data/2.5';
+
+export type WeatherUnits = 'metric' | 'imperial';
+export type WeatherLocation = { lat: number; lon: number } | { query: string };
+
+export interface SiteConditions {
+  temperature: number;
+  humidity: number;
+  windSpeed: number;
+  condition: string;
+  units: WeatherUnits;
+  source: 'openweathermap' | 'demo';
+  capturedAt: string;
+}
+
+export const isDemoWeather = () => WEATHER_API_KEY === 'demo-key';
+
+// Mock weather data for development
+const demoWeather = (location: WeatherLocation) => ({
+  location: 'query' in location ? { name: location.query } : location,
+  current: {
+    temperature: Math.round(Math.random() * 30 + 10),
+    humidity: Math.round(Math.random() * 40 + 30),
+    windSpeed: Math.round(Math.random() * 20 + 5),
+    condition: ['Clear', 'Cloudy', 'Rain', 'Sunny'][Math.floor(Math.random() * 4)],
+    icon: '01d'
+  },
+  forecast: Array.from({ length: 5 }, (_, i) => ({
+    date: new Date(Date.now() + i * 24 * 60 * 60 * 1000).toISOString(),
+    temperature: Math.round(Math.random() * 30 + 10),
+    condition: ['Clear', 'Cloudy', 'Rain', 'Sunny'][Math.floor(Math.random() * 4)],
+    precipitation: Math.round(Math.random() * 100)
+  })),
+  alerts: []
+});
+
+/**
+ * Current weather for a location, in the provider's own response shape
+ * (or the demo shape when no API key is configured).
+ */
+export async function fetchWeather(location: WeatherLocation, units: WeatherUnits = 'metric') {
+  if (isDemoWeather()) {
+    return demoWeather(location);
+  }
+
+  const where = 'query' in location
+    ? `q=${encodeURIComponent(location.query)}`
+    : `lat=${location.lat}&lon=${location.lon}`;
+  const weatherResponse = await fetch(`${WEATHER_BASE_URL}/weather?${where}&units=${units}&appid=${WEATHER_API_KEY}`);
+
+  if (!weatherResponse.ok) {
+    throw new Error('Weather API request failed');
+  }
+
+  return weatherResponse.json();
+}
+
+/**
+ * A normalised snapshot of current conditions, or null when the lookup
+ * fails. Callers store it as a record of the day, so failures never throw.
+ */
+export async function captureSiteConditions(
+  location: WeatherLocation,
+  units: WeatherUnits = 'metric'
+): Promise<SiteConditions | null> {
+  try {
+    const data: any = await fetchWeather(location, units);
+    const capturedAt = new Date().toISOString();
+
+    if (isDemoWeather()) {
+      const { icon, ...current } = data.current;
+      return { ...current, units, source: 'demo', capturedAt };
+    }
+
+    return {
+      temperature: Math.round(data.main?.temp ?? 0),
+      humidity: Math.round(data.main?.humidity ?? 0),
+      windSpeed: Math.round(data.wind?.speed ?? 0),
+      condition: data.weather?.[0]?.main ?? 'Unknown',
+      units,
+      source: 'openweathermap',
+      capturedAt,
+    };
+  } catch (error) {
+    console.error('Error capturing site conditions:', error);
+    return null;
+  }
+}
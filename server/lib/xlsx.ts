@@ -0,0 +1,153 @@
+/**
+ * Minimal XLSX reader
+ * Reads the cell values of the first worksheet. Formulas come back as their
+ * cached results and dates as Excel serial numbers; styles are ignored.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+// Uncompressed limit per entry; a spreadsheet that fits an upload is far smaller
+export const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+
+export class XlsxError extends Error {}
+
+// Zip entries by name, decompressed on demand
+export const readZip = (buffer: Buffer): Map<string, () => Buffer> => {
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new XlsxError('Not a valid XLSX file');
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new XlsxError('Not a valid XLSX file');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      if (size > MAX_ENTRY_SIZE) {
+        throw new XlsxError('The XLSX file is too large to read');
+      }
+      if (buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+        throw new XlsxError('Not a valid XLSX file');
+      }
+      const start = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) {
+        // The directory's size can lie, so the inflater enforces the limit too
+        try {
+          return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+        } catch {
+          throw new XlsxError('The XLSX file is too large to read');
+        }
+      }
+      throw new XlsxError('Unsupported XLSX compression');
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+export const decodeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10));
+    }
+  });
+
+// Text of every <t> run, so rich text comes back as one string
+const textRuns = (xml: string) =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(m => decodeXml(m[1])).join('');
+
+const columnIndex = (ref: string) => {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const firstSheetPath = (entries: Map<string, () => Buffer>) => {
+  const workbook = entries.get('xl/workbook.xml')?.().toString('utf8');
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.().toString('utf8');
+  const relId = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (relId && rels) {
+    const rel = [...rels.matchAll(/<Relationship\b[^>]*>/g)]
+      .map(m => m[0])
+      .find(tag => tag.includes(`Id="${relId}"`));
+    const target = rel?.match(/Target="([^"]+)"/)?.[1];
+    if (target) {
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+};
+
+export const readXlsx = (buffer: Buffer): string[][] => {
+  const entries = readZip(buffer);
+  const sheet = entries.get(firstSheetPath(entries));
+  if (!sheet) {
+    throw new XlsxError('The workbook has no worksheets');
+  }
+
+  const sharedXml = entries.get('xl/sharedStrings.xml')?.().toString('utf8') ?? '';
+  const shared = [...sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => textRuns(m[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet().toString('utf8').matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    let next = 0;
+    for (const cell of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1];
+      const body = cell[2] ?? '';
+      const ref = attrs.match(/\br="([A-Z]+\d*)"/i)?.[1];
+      const index = ref ? columnIndex(ref) : next;
+      const type = attrs.match(/\bt="(\w+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's') value = raw !== undefined ? shared[parseInt(raw)] ?? '' : '';
+      else if (type === 'inlineStr') value = textRuns(body);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (raw !== undefined) value = decodeXml(raw);
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+      next = index + 1;
+    }
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
@@ -1,5 +1,6 @@
 import { RequestHandler, Response, NextFunction } from "express";
 import NodeCache from "node-cache";
+import { projectListCacheKey, projectListQuerySchema } from "../lib/project-query";
 
 // Cache configurations
 const defaultCache = new NodeCache({ 
@@ -41,9 +42,11 @@ export const createCacheMiddleware = (
     
     // Override res.json to cache the response
     res.json = function(body: any) {
-      // Cache the response
-      defaultCache.set(cacheKey, body, ttl);
-      console.log(`💾 Cached response for key: ${cacheKey} (TTL: ${ttl}s)`);
+      // Only successful responses; a cache hit is always answered with 200
+      if (res.statusCode < 300) {
+        defaultCache.set(cacheKey, body, ttl);
+        console.log(`💾 Cached response for key: ${cacheKey} (TTL: ${ttl}s)`);
+      }
       
       // Call original json method
       return originalJson(body);
@@ -65,7 +68,11 @@ const generateCacheKey = (req: any): string => {
 // Specific cache middlewares
 export const cacheProjects: RequestHandler = createCacheMiddleware(
   300, // 5 minutes
-  (req) => `projects:${req.userId}:${JSON.stringify(req.query)}`
+  (req) => {
+    // Keyed on the parsed list query so equivalent URLs share an entry
+    const query = projectListQuerySchema.safeParse(req.query);
+    return `projects:${req.userId}:${query.success ? projectListCacheKey(query.data) : JSON.stringify(req.query)}`;
+  }
 );
 
 export const cacheAnalytics: RequestHandler = createCacheMiddleware(
@@ -86,9 +93,10 @@ export const cacheUserProfile: RequestHandler = createCacheMiddleware(
 // Cache invalidation middleware
 export const invalidateCache = (pattern: string): RequestHandler => {
   return (req, res, next) => {
-    const originalJson = res.json.bind(res);
-    
-    res.json = function(body: any) {
+    // On finish rather than res.json, so 204 responses invalidate too
+    res.on('finish', () => {
+      if (res.statusCode >= 400) return;
+
       // Invalidate cache based on pattern
       const keys = defaultCache.keys();
       const matchingKeys = keys.filter(key => key.includes(pattern));
@@ -97,9 +105,7 @@ export const invalidateCache = (pattern: string): RequestHandler => {
         defaultCache.del(key);
         console.log(`🗑️ Invalidated cache key: ${key}`);
       });
-      
-      return originalJson(body);
-    };
+    });
 
     next();
   };
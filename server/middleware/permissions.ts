@@ -1,5 +1,12 @@
 import { RequestHandler } from "express";
 import { AuthService } from "../lib/auth-service";
+import { ProjectsService } from "../lib/projects-service";
+import {
+  ProjectMembersService,
+  ProjectAction,
+  ProjectRole,
+  canPerformProjectAction,
+} from "../lib/project-members-service";
 
 export type UserRole = 'admin' | 'manager' | 'user';
 
@@ -142,11 +149,61 @@ export const requireOwnership = (resourceType: 'project' | 'material'): RequestH
   };
 };
 
-// Extend Request interface to include userRole
+// Project membership check middleware
+// Resolves the project from :id / :projectId, or from the material behind :materialId
+export const requireProjectAccess = (action: ProjectAction): RequestHandler => {
+  return async (req, res, next) => {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      let projectId: number | null;
+      if (req.params.materialId) {
+        const materialId = parseInt(req.params.materialId);
+        if (isNaN(materialId)) {
+          return res.status(400).json({ message: 'Invalid material ID' });
+        }
+        projectId = await ProjectsService.getMaterialProjectId(materialId);
+        if (!projectId) {
+          return res.status(404).json({ message: 'Material not found' });
+        }
+      } else {
+        projectId = parseInt(req.params.id || req.params.projectId);
+        if (isNaN(projectId)) {
+          return res.status(400).json({ message: 'Invalid project ID' });
+        }
+      }
+
+      const role = await ProjectMembersService.getMemberRole(projectId, userId);
+      if (!role) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      if (!canPerformProjectAction(role, action)) {
+        return res.status(403).json({
+          message: 'Insufficient project permissions',
+          required: action,
+          current: role
+        });
+      }
+
+      req.projectRole = role;
+      next();
+    } catch (error) {
+      console.error('Project access check error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+};
+
+// Extend Request interface to include userRole and projectRole
 declare global {
   namespace Express {
     interface Request {
       userRole?: UserRole;
+      projectRole?: ProjectRole;
     }
   }
 }
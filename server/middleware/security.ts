@@ -82,9 +82,9 @@ export const sanitizeInput: RequestHandler = (req, res, next) => {
     req.body = sanitizeValue(req.body);
   }
 
-  // Sanitize query parameters
+  // Sanitize query parameters; Express 5 exposes req.query as a getter, so shadow it on the request
   if (req.query) {
-    req.query = sanitizeValue(req.query);
+    Object.defineProperty(req, 'query', { value: sanitizeValue(req.query), writable: true, configurable: true });
   }
 
   // Sanitize URL parameters
@@ -0,0 +1,6 @@
+-- Allow administrators to deactivate accounts without deleting them
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Indexes for the admin user list (role filter and name/email search)
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+CREATE INDEX IF NOT EXISTS idx_users_name ON users(name);
@@ -0,0 +1,42 @@
+-- Persisted project schedules: calendar settings and the CPM task network
+CREATE TABLE IF NOT EXISTS project_schedules (
+    project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+    start_date DATE,
+    end_date DATE,
+    working_hours JSONB,
+    resource_limits JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS project_tasks (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    task_key VARCHAR(100) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    duration INTEGER NOT NULL DEFAULT 0 CHECK (duration >= 0),
+    dependencies TEXT[] NOT NULL DEFAULT '{}',
+    resources TEXT[] NOT NULL DEFAULT '{}',
+    constraints JSONB NOT NULL DEFAULT '{}',
+    -- Results of the last recalculation, in working days from the schedule start
+    early_start INTEGER,
+    early_finish INTEGER,
+    late_start INTEGER,
+    late_finish INTEGER,
+    total_float INTEGER,
+    free_float INTEGER,
+    is_critical BOOLEAN NOT NULL DEFAULT FALSE,
+    scheduled_start TIMESTAMP WITH TIME ZONE,
+    scheduled_end TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (project_id, task_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_tasks_project_id ON project_tasks(project_id);
+
+CREATE TRIGGER update_project_schedules_updated_at BEFORE UPDATE ON project_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_project_tasks_updated_at BEFORE UPDATE ON project_tasks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
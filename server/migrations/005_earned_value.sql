@@ -0,0 +1,28 @@
+-- Earned value management: time-phased baselines and progress snapshots
+CREATE TABLE IF NOT EXISTS project_baselines (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    budget_at_completion DECIMAL(15,2) NOT NULL CHECK (budget_at_completion > 0),
+    -- Cumulative planned value: [{ "date": "YYYY-MM-DD", "plannedValue": 0 }, ...]
+    periods JSONB NOT NULL DEFAULT '[]',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS project_evm_snapshots (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    snapshot_date DATE NOT NULL,
+    actual_cost DECIMAL(15,2) NOT NULL CHECK (actual_cost >= 0),
+    percent_complete DECIMAL(5,2) NOT NULL CHECK (percent_complete >= 0 AND percent_complete <= 100),
+    notes TEXT,
+    recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (project_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_baselines_project_id ON project_baselines(project_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_baselines_active ON project_baselines(project_id) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_project_evm_snapshots_project_date ON project_evm_snapshots(project_id, snapshot_date);
@@ -0,0 +1,59 @@
+-- Material stock ledger, purchase orders and goods received.
+-- materials.current_stock and materials.status are maintained from the ledger.
+CREATE TABLE IF NOT EXISTS purchase_orders (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    material_id INTEGER NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    supplier VARCHAR(255) NOT NULL,
+    quantity_ordered DECIMAL(12,2) NOT NULL CHECK (quantity_ordered > 0),
+    quantity_received DECIMAL(12,2) NOT NULL DEFAULT 0,
+    unit_cost DECIMAL(12,2) NOT NULL CHECK (unit_cost >= 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'ordered' CHECK (status IN ('ordered', 'partially_received', 'received', 'cancelled')),
+    order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    expected_delivery_date DATE NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- received: delivered to site (+), consumed: used in the works (-),
+-- returned: sent back to the supplier (-), adjusted: stocktake correction (signed)
+CREATE TABLE IF NOT EXISTS material_transactions (
+    id SERIAL PRIMARY KEY,
+    material_id INTEGER NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('received', 'consumed', 'returned', 'adjusted')),
+    quantity DECIMAL(12,2) NOT NULL,
+    unit_cost DECIMAL(12,2),
+    purchase_order_id INTEGER REFERENCES purchase_orders(id) ON DELETE SET NULL,
+    reference VARCHAR(255),
+    notes TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (type = 'adjusted' OR quantity > 0)
+);
+
+CREATE TABLE IF NOT EXISTS goods_received (
+    id SERIAL PRIMARY KEY,
+    purchase_order_id INTEGER NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+    transaction_id INTEGER REFERENCES material_transactions(id) ON DELETE SET NULL,
+    quantity DECIMAL(12,2) NOT NULL CHECK (quantity > 0),
+    received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    delivery_note VARCHAR(255),
+    received_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_transactions_material_id ON material_transactions(material_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_project_id ON purchase_orders(project_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_material_id ON purchase_orders(material_id);
+CREATE INDEX IF NOT EXISTS idx_goods_received_purchase_order_id ON goods_received(purchase_order_id);
+
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Existing stock levels become opening balances
+INSERT INTO material_transactions (material_id, project_id, type, quantity, reference)
+SELECT id, project_id, 'adjusted', current_stock, 'Opening balance' FROM materials
+WHERE current_stock <> 0;
@@ -0,0 +1,64 @@
+-- Supplier directory. Materials and purchase orders reference a supplier by
+-- ID instead of a free-text name; performance is derived from deliveries.
+CREATE TABLE IF NOT EXISTS suppliers (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    email VARCHAR(255),
+    phone VARCHAR(50),
+    address TEXT,
+    website VARCHAR(255),
+    -- [{ name, role, email, phone, is_primary }]
+    contacts JSONB NOT NULL DEFAULT '[]',
+    lead_time_days INTEGER NOT NULL DEFAULT 7 CHECK (lead_time_days >= 0),
+    notes TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Quoted prices; lead_time_days overrides the supplier default for the item
+CREATE TABLE IF NOT EXISTS supplier_prices (
+    id SERIAL PRIMARY KEY,
+    supplier_id INTEGER NOT NULL REFERENCES suppliers(id) ON DELETE CASCADE,
+    item_name VARCHAR(255) NOT NULL,
+    unit VARCHAR(50),
+    unit_price DECIMAL(12,2) NOT NULL CHECK (unit_price >= 0),
+    min_quantity DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (min_quantity >= 0),
+    lead_time_days INTEGER CHECK (lead_time_days >= 0),
+    valid_from DATE NOT NULL DEFAULT CURRENT_DATE,
+    valid_to DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (valid_to IS NULL OR valid_to >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supplier_prices_supplier_id ON supplier_prices(supplier_id);
+
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON suppliers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_supplier_prices_updated_at BEFORE UPDATE ON supplier_prices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Every distinct free-text supplier becomes a directory entry
+INSERT INTO suppliers (name)
+SELECT DISTINCT TRIM(supplier) FROM materials WHERE TRIM(supplier) <> ''
+UNION
+SELECT DISTINCT TRIM(supplier) FROM purchase_orders WHERE TRIM(supplier) <> ''
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS supplier_id INTEGER REFERENCES suppliers(id) ON DELETE RESTRICT;
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS supplier_id INTEGER REFERENCES suppliers(id) ON DELETE RESTRICT;
+
+UPDATE materials m SET supplier_id = s.id FROM suppliers s WHERE s.name = TRIM(m.supplier);
+UPDATE purchase_orders o SET supplier_id = s.id FROM suppliers s WHERE s.name = TRIM(o.supplier);
+-- Orders without a usable name fall back to their material's supplier
+UPDATE purchase_orders o SET supplier_id = m.supplier_id
+FROM materials m WHERE o.material_id = m.id AND o.supplier_id IS NULL;
+
+ALTER TABLE materials DROP COLUMN IF EXISTS supplier;
+ALTER TABLE purchase_orders DROP COLUMN IF EXISTS supplier;
+
+CREATE INDEX IF NOT EXISTS idx_materials_supplier_id ON materials(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
@@ -0,0 +1,30 @@
+-- Daily site diary: one entry per project per day. Weather is snapshotted
+-- when the entry is created; signed-off entries are locked.
+CREATE TABLE IF NOT EXISTS site_diary_entries (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    entry_date DATE NOT NULL,
+    -- [{ trade, company, headcount, hours }]
+    crews JSONB NOT NULL DEFAULT '[]',
+    work_performed TEXT,
+    -- [{ description, cause, hours_lost }]
+    delays JSONB NOT NULL DEFAULT '[]',
+    -- [{ name, company, purpose, time_in, time_out }]
+    visitors JSONB NOT NULL DEFAULT '[]',
+    notes TEXT,
+    weather JSONB,
+    -- IDs of files held by the file storage service (photos, delivery notes)
+    file_ids TEXT[] NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'signed_off')),
+    signed_off_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    signed_off_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(project_id, entry_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_diary_entries_project_date ON site_diary_entries(project_id, entry_date);
+
+CREATE TRIGGER update_site_diary_entries_updated_at BEFORE UPDATE ON site_diary_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
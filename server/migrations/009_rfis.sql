@@ -0,0 +1,42 @@
+-- Requests for information, numbered per project, with threaded responses
+CREATE TABLE IF NOT EXISTS rfis (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    number INTEGER NOT NULL,
+    subject VARCHAR(255) NOT NULL,
+    question TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'open', 'answered', 'closed')),
+    assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+    due_date DATE,
+    -- Impact flags feed the project's risk data
+    cost_impact BOOLEAN NOT NULL DEFAULT false,
+    schedule_impact BOOLEAN NOT NULL DEFAULT false,
+    file_ids TEXT[] NOT NULL DEFAULT '{}',
+    raised_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    opened_at TIMESTAMP WITH TIME ZONE,
+    answered_at TIMESTAMP WITH TIME ZONE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    -- Set once the overdue reminder has gone out; cleared when the due date moves
+    overdue_notified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(project_id, number)
+);
+
+CREATE TABLE IF NOT EXISTS rfi_responses (
+    id SERIAL PRIMARY KEY,
+    rfi_id INTEGER NOT NULL REFERENCES rfis(id) ON DELETE CASCADE,
+    parent_id INTEGER REFERENCES rfi_responses(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    is_answer BOOLEAN NOT NULL DEFAULT false,
+    file_ids TEXT[] NOT NULL DEFAULT '{}',
+    author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfis_project_id ON rfis(project_id);
+CREATE INDEX IF NOT EXISTS idx_rfis_open_due_date ON rfis(due_date) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_rfi_responses_rfi_id ON rfi_responses(rfi_id);
+
+CREATE TRIGGER update_rfis_updated_at BEFORE UPDATE ON rfis
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,36 @@
+-- Punch list: defects numbered per project, pinned to a drawing or photo and
+-- closed only after verification
+CREATE TABLE IF NOT EXISTS defects (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    number INTEGER NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    location VARCHAR(255) NOT NULL,
+    -- Position on an uploaded drawing or photo: { file_id, x, y } with x/y as fractions of width/height
+    pin JSONB,
+    trade VARCHAR(100) NOT NULL,
+    severity VARCHAR(20) NOT NULL DEFAULT 'minor' CHECK (severity IN ('minor', 'major', 'critical')),
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'fixed', 'verified')),
+    photo_ids TEXT[] NOT NULL DEFAULT '{}',
+    assigned_to UUID REFERENCES users(id) ON DELETE SET NULL,
+    due_date DATE,
+    raised_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    fixed_at TIMESTAMP WITH TIME ZONE,
+    verified_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    verification_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(project_id, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_defects_project_id ON defects(project_id);
+CREATE INDEX IF NOT EXISTS idx_defects_assigned_to ON defects(assigned_to) WHERE status <> 'verified';
+
+CREATE TRIGGER update_defects_updated_at BEFORE UPDATE ON defects
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- quality_score is now derived from the defect log; no defects means a clean score
+ALTER TABLE projects ALTER COLUMN quality_score SET DEFAULT 100;
+UPDATE projects SET quality_score = 100;
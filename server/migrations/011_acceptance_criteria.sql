@@ -0,0 +1,24 @@
+-- Acceptance criteria checklist items grouped by phase; a signed-off item
+-- records who accepted it and when, backed by evidence files
+CREATE TABLE IF NOT EXISTS acceptance_criteria (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    phase VARCHAR(100) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    evidence_file_ids TEXT[] NOT NULL DEFAULT '{}',
+    signed_off_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    signed_off_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_acceptance_criteria_project_id ON acceptance_criteria(project_id, phase, sort_order);
+
+CREATE TRIGGER update_acceptance_criteria_updated_at BEFORE UPDATE ON acceptance_criteria
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- acceptance_criteria_complete is now computed from the checklist
+UPDATE projects SET acceptance_criteria_complete = 0;
@@ -0,0 +1,38 @@
+-- Risk register: probability and impact on a 1–5 scale, with an owner,
+-- response strategy, mitigation actions and a review date
+CREATE TABLE IF NOT EXISTS project_risks (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    category VARCHAR(50),
+    probability SMALLINT NOT NULL CHECK (probability BETWEEN 1 AND 5),
+    impact SMALLINT NOT NULL CHECK (impact BETWEEN 1 AND 5),
+    owner_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    response_strategy VARCHAR(20) NOT NULL DEFAULT 'mitigate' CHECK (response_strategy IN ('avoid', 'mitigate', 'transfer', 'accept')),
+    -- [{ description, owner_id, due_date, completed_at }]
+    mitigation_actions JSONB NOT NULL DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'monitoring', 'closed')),
+    review_date DATE,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_risks_project_id ON project_risks(project_id);
+
+CREATE TRIGGER update_project_risks_updated_at BEFORE UPDATE ON project_risks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- risk_level is now computed from the register. Carry existing medium/high
+-- ratings over as a register entry that scores at the same level.
+INSERT INTO project_risks (project_id, title, description, probability, impact, response_strategy)
+SELECT id,
+       'Previous project risk rating',
+       'Carried over from the project''s manual risk level; replace with specific risks',
+       CASE risk_level WHEN 'high' THEN 4 ELSE 3 END,
+       CASE risk_level WHEN 'high' THEN 4 ELSE 3 END,
+       'accept'
+FROM projects
+WHERE risk_level IN ('medium', 'high');
@@ -0,0 +1,52 @@
+-- Cost codes: labour is charged to a project through a code with an hourly rate
+CREATE TABLE IF NOT EXISTS cost_codes (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    code VARCHAR(50) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    labour_rate DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (labour_rate >= 0),
+    budget DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (budget >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(project_id, code)
+);
+
+-- Clock-in/clock-out records. Hours and cost are fixed at clock-out;
+-- approved cost is added to the project's spent.
+CREATE TABLE IF NOT EXISTS time_entries (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    cost_code_id INTEGER NOT NULL REFERENCES cost_codes(id) ON DELETE RESTRICT,
+    clock_in TIMESTAMP WITH TIME ZONE NOT NULL,
+    clock_out TIMESTAMP WITH TIME ZONE,
+    -- [{ start, end }]
+    breaks JSONB NOT NULL DEFAULT '[]',
+    clock_in_latitude DECIMAL(9,6),
+    clock_in_longitude DECIMAL(9,6),
+    clock_out_latitude DECIMAL(9,6),
+    clock_out_longitude DECIMAL(9,6),
+    regular_hours DECIMAL(6,2) NOT NULL DEFAULT 0,
+    overtime_hours DECIMAL(6,2) NOT NULL DEFAULT 0,
+    hourly_rate DECIMAL(10,2) NOT NULL DEFAULT 0,
+    cost DECIMAL(12,2) NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'submitted', 'approved', 'rejected')),
+    notes TEXT,
+    approved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    rejection_reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_codes_project_id ON cost_codes(project_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_project_clock_in ON time_entries(project_id, clock_in);
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_clock_in ON time_entries(user_id, clock_in);
+-- A worker can only be clocked in once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_open ON time_entries(user_id) WHERE status = 'open';
+
+CREATE TRIGGER update_cost_codes_updated_at BEFORE UPDATE ON cost_codes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_time_entries_updated_at BEFORE UPDATE ON time_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,84 @@
+-- Registered IoT devices. Telemetry from a device is only trusted when it
+-- carries the device's ingest key, which is stored hashed.
+CREATE TABLE IF NOT EXISTS iot_devices (
+    device_id VARCHAR(100) PRIMARY KEY,
+    name VARCHAR(255),
+    device_type VARCHAR(20) NOT NULL CHECK (device_type IN ('sensor', 'camera', 'equipment', 'wearable', 'environmental')),
+    -- { lat, lon, zone }
+    location JSONB,
+    capabilities JSONB NOT NULL DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive', 'maintenance', 'error')),
+    ingest_key_hash VARCHAR(64) NOT NULL,
+    last_seen_at TIMESTAMP WITH TIME ZONE,
+    registered_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Company-wide plant and equipment register
+CREATE TABLE IF NOT EXISTS equipment (
+    id SERIAL PRIMARY KEY,
+    asset_tag VARCHAR(50) NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    category VARCHAR(100),
+    make VARCHAR(100),
+    model VARCHAR(100),
+    serial_number VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'in_use', 'maintenance', 'retired')),
+    project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    iot_device_id VARCHAR(100) UNIQUE REFERENCES iot_devices(device_id) ON DELETE SET NULL,
+    hour_meter DECIMAL(10,1) NOT NULL DEFAULT 0 CHECK (hour_meter >= 0),
+    service_interval_hours INTEGER CHECK (service_interval_hours > 0),
+    service_interval_days INTEGER CHECK (service_interval_days > 0),
+    last_service_hours DECIMAL(10,1) NOT NULL DEFAULT 0,
+    last_service_date DATE,
+    maintenance_notified_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Cumulative hour-meter readings, from people or telemetry
+CREATE TABLE IF NOT EXISTS equipment_meter_readings (
+    id SERIAL PRIMARY KEY,
+    equipment_id INTEGER NOT NULL REFERENCES equipment(id) ON DELETE CASCADE,
+    hours DECIMAL(10,1) NOT NULL CHECK (hours >= 0),
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'telemetry', 'service')),
+    recorded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS equipment_services (
+    id SERIAL PRIMARY KEY,
+    equipment_id INTEGER NOT NULL REFERENCES equipment(id) ON DELETE CASCADE,
+    performed_at DATE NOT NULL,
+    hours DECIMAL(10,1) NOT NULL,
+    description TEXT NOT NULL,
+    performed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS equipment_certificates (
+    id SERIAL PRIMARY KEY,
+    equipment_id INTEGER NOT NULL REFERENCES equipment(id) ON DELETE CASCADE,
+    certificate_type VARCHAR(100) NOT NULL,
+    certificate_number VARCHAR(100),
+    issued_date DATE,
+    expiry_date DATE,
+    file_id VARCHAR(100),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_equipment_project_id ON equipment(project_id);
+CREATE INDEX IF NOT EXISTS idx_equipment_meter_readings_equipment ON equipment_meter_readings(equipment_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_equipment_services_equipment ON equipment_services(equipment_id);
+CREATE INDEX IF NOT EXISTS idx_equipment_certificates_equipment ON equipment_certificates(equipment_id);
+
+CREATE TRIGGER update_iot_devices_updated_at BEFORE UPDATE ON iot_devices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_equipment_updated_at BEFORE UPDATE ON equipment
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
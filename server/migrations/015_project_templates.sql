@@ -0,0 +1,31 @@
+-- Folder structure for project documents. Files reference a folder by path.
+CREATE TABLE IF NOT EXISTS project_folders (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    path VARCHAR(900) NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(project_id, path)
+);
+
+-- Reusable project structure. Quantities and dates in the content are
+-- relative to source_budget and source_start_date and get rescaled when a
+-- new project is created from the template.
+CREATE TABLE IF NOT EXISTS project_templates (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    source_project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+    source_budget DECIMAL(15,2) NOT NULL CHECK (source_budget > 0),
+    source_start_date DATE,
+    -- { materials, acceptance_criteria, tasks, schedule, folders }
+    content JSONB NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_folders_project_id ON project_folders(project_id);
+
+CREATE TRIGGER update_project_templates_updated_at BEFORE UPDATE ON project_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,35 @@
+-- Field-level audit trail for projects, materials and user profiles.
+-- One row per changed field; creates and deletes without field changes
+-- get a single row with a NULL field. Entity ids are not foreign keys so
+-- the history outlives purged projects and materials.
+CREATE TABLE IF NOT EXISTS audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('project', 'material', 'user')),
+    entity_id VARCHAR(64) NOT NULL,
+    project_id INTEGER,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    field VARCHAR(255),
+    old_value JSONB,
+    new_value JSONB,
+    request_id VARCHAR(100),
+    method VARCHAR(10),
+    path VARCHAR(500),
+    ip VARCHAR(64),
+    user_agent VARCHAR(500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_project_id ON audit_log(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+
+-- Append-only: entries can't be edited or removed
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_append_only BEFORE UPDATE OR DELETE ON audit_log
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
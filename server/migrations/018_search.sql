@@ -0,0 +1,63 @@
+-- Full-text search over projects, materials and RFI comments. GIN expression
+-- indexes are the inverted index; search_entities ranks and highlights matches
+-- in the projects a user can see.
+
+-- Titles weigh more than body text
+CREATE OR REPLACE FUNCTION search_vector(title TEXT, body TEXT)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector('english', coalesce(title, '')), 'A')
+        || setweight(to_tsvector('english', coalesce(body, '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_projects_search ON projects USING GIN (
+    search_vector(name, coalesce(client, '') || ' ' || coalesce(location, '') || ' ' || coalesce(contractor, ''))
+);
+CREATE INDEX IF NOT EXISTS idx_materials_search ON materials USING GIN (search_vector(name, NULL));
+CREATE INDEX IF NOT EXISTS idx_rfi_responses_search ON rfi_responses USING GIN (search_vector(NULL, body));
+
+-- Matches are wrapped in chr(2) and chr(3) so clients never render markup
+CREATE OR REPLACE FUNCTION search_entities(search_query TEXT, project_ids INTEGER[], max_results INTEGER DEFAULT 5)
+RETURNS TABLE (
+    entity_type TEXT,
+    entity_id INTEGER,
+    project_id INTEGER,
+    title TEXT,
+    subtitle TEXT,
+    headline TEXT,
+    rank REAL
+) AS $$
+    WITH query AS (
+        SELECT to_tsquery('english', search_query) AS q,
+               'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MinWords=10, MaxWords=30' AS options
+    ),
+    matches AS (
+        SELECT 'project'::TEXT AS entity_type, p.id AS entity_id, p.id AS project_id, p.name::TEXT AS title,
+               NULL::TEXT AS subtitle,
+               ts_headline('english', coalesce(p.client, '') || ' ' || coalesce(p.location, '') || ' ' || coalesce(p.contractor, ''), query.q, query.options) AS headline,
+               ts_rank(search_vector(p.name, coalesce(p.client, '') || ' ' || coalesce(p.location, '') || ' ' || coalesce(p.contractor, '')), query.q) AS rank
+        FROM projects p, query
+        WHERE p.id = ANY(project_ids) AND p.deleted_at IS NULL
+          AND search_vector(p.name, coalesce(p.client, '') || ' ' || coalesce(p.location, '') || ' ' || coalesce(p.contractor, '')) @@ query.q
+        UNION ALL
+        SELECT 'material', m.id, m.project_id, m.name::TEXT, p.name::TEXT,
+               ts_headline('english', m.name, query.q, query.options),
+               ts_rank(search_vector(m.name, NULL), query.q)
+        FROM materials m JOIN projects p ON p.id = m.project_id, query
+        WHERE m.project_id = ANY(project_ids) AND m.deleted_at IS NULL AND p.deleted_at IS NULL
+          AND search_vector(m.name, NULL) @@ query.q
+        UNION ALL
+        SELECT 'comment', r.id, f.project_id, 'RFI #' || f.number || ': ' || f.subject, p.name::TEXT,
+               ts_headline('english', r.body, query.q, query.options),
+               ts_rank(search_vector(NULL, r.body), query.q)
+        FROM rfi_responses r JOIN rfis f ON f.id = r.rfi_id JOIN projects p ON p.id = f.project_id, query
+        WHERE f.project_id = ANY(project_ids) AND p.deleted_at IS NULL
+          AND search_vector(NULL, r.body) @@ query.q
+    )
+    SELECT entity_type, entity_id, project_id, title, subtitle, headline, rank
+    FROM (
+        SELECT matches.*, row_number() OVER (PARTITION BY matches.entity_type ORDER BY matches.rank DESC, matches.entity_id) AS position
+        FROM matches
+    ) ranked
+    WHERE position <= max_results
+    ORDER BY entity_type, rank DESC, entity_id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,19 @@
+-- Version numbers for optimistic concurrency. Every update bumps the version;
+-- edits send the version they started from in If-Match and are refused with
+-- a 409 if the row has changed since.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION bump_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.version = OLD.version + 1;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_projects_version BEFORE UPDATE ON projects
+    FOR EACH ROW EXECUTE FUNCTION bump_version();
+
+CREATE TRIGGER bump_materials_version BEFORE UPDATE ON materials
+    FOR EACH ROW EXECUTE FUNCTION bump_version();
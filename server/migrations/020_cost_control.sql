@@ -0,0 +1,28 @@
+-- Activity-based cost control. Materials and purchase orders are charged to a
+-- cost code, and subcontracts commit part of a code's budget. Actuals per code
+-- are goods received, subcontract invoices and approved labour.
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS cost_code_id INTEGER REFERENCES cost_codes(id) ON DELETE SET NULL;
+-- Copied from the material when the order is raised, so recoding a material
+-- doesn't move what has already been ordered
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS cost_code_id INTEGER REFERENCES cost_codes(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS subcontracts (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    cost_code_id INTEGER NOT NULL REFERENCES cost_codes(id) ON DELETE RESTRICT,
+    contractor VARCHAR(255) NOT NULL,
+    description TEXT,
+    contract_value DECIMAL(15,2) NOT NULL CHECK (contract_value >= 0),
+    invoiced_to_date DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (invoiced_to_date >= 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'awarded' CHECK (status IN ('awarded', 'complete', 'cancelled')),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_materials_cost_code_id ON materials(cost_code_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_cost_code_id ON purchase_orders(cost_code_id);
+CREATE INDEX IF NOT EXISTS idx_subcontracts_project_id ON subcontracts(project_id);
+
+CREATE TRIGGER update_subcontracts_updated_at BEFORE UPDATE ON subcontracts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
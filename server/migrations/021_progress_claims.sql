@@ -0,0 +1,68 @@
+-- Progress claims. The contract is broken down into a schedule of values;
+-- approved variations add to it. Each claim records the percent complete per
+-- line, retention held and released, and is certified and paid by the client.
+CREATE TABLE IF NOT EXISTS schedule_of_values (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    item_number VARCHAR(50) NOT NULL,
+    description TEXT NOT NULL,
+    scheduled_value DECIMAL(15,2) NOT NULL CHECK (scheduled_value >= 0),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS variations (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    reference VARCHAR(50) NOT NULL,
+    description TEXT NOT NULL,
+    -- Omissions are negative
+    amount DECIMAL(15,2) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    approved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS progress_claims (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    number INTEGER NOT NULL,
+    period_end DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'certified', 'paid')),
+    retention_rate DECIMAL(5,2) NOT NULL DEFAULT 5 CHECK (retention_rate >= 0 AND retention_rate <= 100),
+    retention_released DECIMAL(15,2) NOT NULL DEFAULT 0 CHECK (retention_released >= 0),
+    -- Schedule items and approved variations with their percent complete
+    lines JSONB NOT NULL DEFAULT '[]',
+    -- Frozen when the claim is submitted; drafts are valued live
+    gross_to_date DECIMAL(15,2),
+    retention_held DECIMAL(15,2),
+    previous_certified DECIMAL(15,2),
+    amount_due DECIMAL(15,2),
+    notes TEXT,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    certified_at TIMESTAMP WITH TIME ZONE,
+    certified_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(project_id, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_of_values_project_id ON schedule_of_values(project_id);
+CREATE INDEX IF NOT EXISTS idx_variations_project_id ON variations(project_id);
+CREATE INDEX IF NOT EXISTS idx_progress_claims_project_id ON progress_claims(project_id);
+CREATE INDEX IF NOT EXISTS idx_progress_claims_certified_at ON progress_claims(certified_at) WHERE status IN ('certified', 'paid');
+
+CREATE TRIGGER update_schedule_of_values_updated_at BEFORE UPDATE ON schedule_of_values
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_variations_updated_at BEFORE UPDATE ON variations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_progress_claims_updated_at BEFORE UPDATE ON progress_claims
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,34 @@
+-- Change orders, numbered per project. Each is approved through a chain of
+-- sign-offs fixed at submission; approval moves the project budget, end date
+-- and active baseline, and the before/after figures form the variance history.
+CREATE TABLE IF NOT EXISTS change_orders (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    number INTEGER NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    -- Savings and time recovered are negative
+    cost_impact DECIMAL(15,2) NOT NULL DEFAULT 0,
+    time_impact_days INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+    -- [{ "role": "manager" | "owner", "decision", "decided_by", "decided_at", "comment" }, ...]
+    approval_chain JSONB NOT NULL DEFAULT '[]',
+    submitted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    approved_at TIMESTAMP WITH TIME ZONE,
+    budget_before DECIMAL(15,2),
+    budget_after DECIMAL(15,2),
+    end_date_before DATE,
+    end_date_after DATE,
+    baseline_id INTEGER REFERENCES project_baselines(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(project_id, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_change_orders_project_id ON change_orders(project_id);
+CREATE INDEX IF NOT EXISTS idx_change_orders_approved ON change_orders(project_id, approved_at) WHERE status = 'approved';
+
+CREATE TRIGGER update_change_orders_updated_at BEFORE UPDATE ON change_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,26 @@
+-- Multi-currency. Budgets and spend are in the project's currency and each
+-- material's cost in its own; roll-ups across projects convert at locally
+-- maintained exchange rates into the reader's reporting currency, which is
+-- kept with their other preferences.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'GBP';
+ALTER TABLE materials ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'GBP';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS preferences JSONB NOT NULL DEFAULT '{}';
+
+-- One base_currency buys `rate` of quote_currency from effective_date until
+-- a later rate for the pair takes over
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id SERIAL PRIMARY KEY,
+    base_currency CHAR(3) NOT NULL,
+    quote_currency CHAR(3) NOT NULL CHECK (quote_currency <> base_currency),
+    rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+    effective_date DATE NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (base_currency, quote_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair ON exchange_rates(base_currency, quote_currency, effective_date);
+
+CREATE TRIGGER update_exchange_rates_updated_at BEFORE UPDATE ON exchange_rates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
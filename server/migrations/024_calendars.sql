@@ -0,0 +1,32 @@
+-- Working calendars. Work days and hours stay in project_schedules; shifts
+-- split the working day, and closures (public holidays, site shutdowns) take
+-- whole days out of it. The scheduler only counts days that are left.
+ALTER TABLE project_schedules ADD COLUMN IF NOT EXISTS shifts JSONB NOT NULL DEFAULT '[]';
+
+-- Inspections are scheduled like any other task and published to calendars
+ALTER TABLE project_tasks ADD COLUMN IF NOT EXISTS kind VARCHAR(20) NOT NULL DEFAULT 'task' CHECK (kind IN ('task', 'inspection'));
+
+CREATE TABLE IF NOT EXISTS project_closures (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    kind VARCHAR(20) NOT NULL DEFAULT 'holiday' CHECK (kind IN ('holiday', 'shutdown')),
+    start_date DATE NOT NULL,
+    -- Inclusive; a single day closes start_date only
+    end_date DATE NOT NULL CHECK (end_date >= start_date),
+    -- The VEVENT UID for closures imported from an ICS file, so re-importing skips them
+    uid VARCHAR(255),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(project_id, uid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_closures_project_id ON project_closures(project_id, start_date);
+
+-- One private ICS subscription per user. Only a hash of the token is kept;
+-- the URL is shown once when the feed is created or reset.
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -0,0 +1,9 @@
+-- Approved labour is added to a project's spent in one statement, so two
+-- approvals landing together can't overwrite each other's increment.
+CREATE OR REPLACE FUNCTION add_project_spent(target_project_id INTEGER, amount DECIMAL)
+RETURNS DECIMAL AS $$
+    UPDATE projects
+    SET spent = ROUND(spent + amount, 2)
+    WHERE id = target_project_id
+    RETURNING spent;
+$$ LANGUAGE sql VOLATILE;
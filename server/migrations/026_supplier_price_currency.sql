@@ -0,0 +1,3 @@
+-- Price list entries are quoted in a currency of their own, as suppliers
+-- may price in something other than the projects they supply.
+ALTER TABLE supplier_prices ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'GBP';
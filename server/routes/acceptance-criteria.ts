@@ -0,0 +1,222 @@
+/**
+ * Acceptance Criteria Routes
+ * Per-project checklist items grouped by phase. Each item carries evidence
+ * files and is signed off by a project manager; the project's completion
+ * percentage is recomputed from the checklist on every change.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { FileStorageService } from "../lib/file-storage";
+import { AcceptanceCriteriaService, AcceptanceCriterionUpdate } from "../lib/acceptance-criteria-service";
+import { validationErrors } from "../lib/validation";
+
+// Validation schemas
+const criterionFields = {
+  phase: z.string().min(1, "Phase is required").max(100),
+  title: z.string().min(1, "Title is required").max(255),
+  description: z.string().nullable().optional(),
+  sort_order: z.number().int().min(0).optional(),
+  evidence_file_ids: z.array(z.string().min(1)).optional(),
+};
+
+const createCriterionSchema = z.object(criterionFields);
+const updateCriterionSchema = z.object(criterionFields).partial();
+
+const parseCriterionId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+// Evidence must already be stored against this project
+const findForeignFiles = (projectId: number, fileIds: string[]) =>
+  fileIds.filter(fileId => FileStorageService.getFileMetadata(fileId)?.projectId !== projectId);
+
+export const handleGetAcceptanceCriteria: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const progress = await AcceptanceCriteriaService.getProgress(projectId);
+    res.json(progress);
+  } catch (error) {
+    console.error('Error fetching acceptance criteria:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateAcceptanceCriterion: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createCriterionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const criterionData = validation.data;
+    const foreignFiles = findForeignFiles(projectId, criterionData.evidence_file_ids || []);
+    if (foreignFiles.length > 0) {
+      return res.status(400).json({ message: `Files not found on this project: ${foreignFiles.join(', ')}` });
+    }
+
+    // New items go to the end of the checklist unless placed explicitly
+    let sortOrder = criterionData.sort_order;
+    if (sortOrder === undefined) {
+      const existing = await AcceptanceCriteriaService.getCriteria(projectId);
+      sortOrder = existing.reduce((max, c) => Math.max(max, c.sort_order + 1), 0);
+    }
+
+    const criterion = await AcceptanceCriteriaService.createCriterion(projectId, {
+      phase: criterionData.phase,
+      title: criterionData.title,
+      description: criterionData.description ?? null,
+      sort_order: sortOrder,
+      evidence_file_ids: criterionData.evidence_file_ids ?? [],
+      created_by: userId,
+    });
+    if (!criterion) {
+      return res.status(500).json({ message: 'Failed to create acceptance criterion' });
+    }
+
+    const { percentage } = await AcceptanceCriteriaService.syncProjectCompletion(projectId);
+
+    res.status(201).json({ criterion: AcceptanceCriteriaService.withEvidence(criterion), percentage });
+  } catch (error) {
+    console.error('Error creating acceptance criterion:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateAcceptanceCriterion: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const criterionId = parseCriterionId(req.params.criterionId);
+    if (criterionId === null) {
+      return res.status(400).json({ message: 'Invalid acceptance criterion ID' });
+    }
+
+    const validation = updateCriterionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await AcceptanceCriteriaService.getCriterion(projectId, criterionId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Acceptance criterion not found' });
+    }
+    if (existing.signed_off_at) {
+      return res.status(409).json({ message: 'Acceptance criterion is signed off; revoke the sign-off to change it' });
+    }
+
+    const foreignFiles = findForeignFiles(projectId, validation.data.evidence_file_ids || []);
+    if (foreignFiles.length > 0) {
+      return res.status(400).json({ message: `Files not found on this project: ${foreignFiles.join(', ')}` });
+    }
+
+    const criterion = await AcceptanceCriteriaService.updateCriterion(projectId, criterionId, validation.data);
+    if (!criterion) {
+      return res.status(500).json({ message: 'Failed to update acceptance criterion' });
+    }
+
+    res.json({ criterion: AcceptanceCriteriaService.withEvidence(criterion) });
+  } catch (error) {
+    console.error('Error updating acceptance criterion:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteAcceptanceCriterion: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const criterionId = parseCriterionId(req.params.criterionId);
+    if (criterionId === null) {
+      return res.status(400).json({ message: 'Invalid acceptance criterion ID' });
+    }
+
+    const success = await AcceptanceCriteriaService.deleteCriterion(projectId, criterionId);
+    if (!success) {
+      return res.status(404).json({ message: 'Acceptance criterion not found' });
+    }
+
+    await AcceptanceCriteriaService.syncProjectCompletion(projectId);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting acceptance criterion:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+async function setSignOff(projectId: number, criterionId: number, updates: AcceptanceCriterionUpdate) {
+  const criterion = await AcceptanceCriteriaService.updateCriterion(projectId, criterionId, updates);
+  if (!criterion) {
+    return null;
+  }
+
+  const { percentage } = await AcceptanceCriteriaService.syncProjectCompletion(projectId);
+  return { criterion: AcceptanceCriteriaService.withEvidence(criterion), percentage };
+}
+
+export const handleSignOffAcceptanceCriterion: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const criterionId = parseCriterionId(req.params.criterionId);
+    if (criterionId === null) {
+      return res.status(400).json({ message: 'Invalid acceptance criterion ID' });
+    }
+
+    const existing = await AcceptanceCriteriaService.getCriterion(projectId, criterionId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Acceptance criterion not found' });
+    }
+    if (existing.signed_off_at) {
+      return res.status(409).json({ message: 'Acceptance criterion is already signed off' });
+    }
+    // Sign-off is only as good as what it was checked against
+    if (AcceptanceCriteriaService.withEvidence(existing).evidence.length === 0) {
+      return res.status(400).json({ message: 'Attach evidence before signing off' });
+    }
+
+    const result = await setSignOff(projectId, criterionId, {
+      signed_off_by: userId,
+      signed_off_at: new Date().toISOString(),
+    });
+    if (!result) {
+      return res.status(500).json({ message: 'Failed to sign off acceptance criterion' });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error signing off acceptance criterion:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleRevokeAcceptanceSignOff: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const criterionId = parseCriterionId(req.params.criterionId);
+    if (criterionId === null) {
+      return res.status(400).json({ message: 'Invalid acceptance criterion ID' });
+    }
+
+    const existing = await AcceptanceCriteriaService.getCriterion(projectId, criterionId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Acceptance criterion not found' });
+    }
+    if (!existing.signed_off_at) {
+      return res.status(409).json({ message: 'Acceptance criterion is not signed off' });
+    }
+
+    const result = await setSignOff(projectId, criterionId, { signed_off_by: null, signed_off_at: null });
+    if (!result) {
+      return res.status(500).json({ message: 'Failed to revoke sign-off' });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error revoking acceptance sign-off:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,173 @@
+/**
+ * Admin User Management Routes
+ * Lets administrators list, create, edit, deactivate and delete user accounts
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { UserListResponse } from "@shared/api";
+import { AuthService } from "../lib/auth-service";
+import { validationErrors } from "../lib/validation";
+
+// Validation schemas
+const listUsersSchema = z.object({
+  search: z.string().trim().optional(),
+  role: z.enum(['admin', 'manager', 'user']).optional(),
+});
+
+const createUserSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  name: z.string().min(1, "Name is required"),
+  role: z.enum(['admin', 'manager', 'user']).default('user'),
+});
+
+const updateUserSchema = z.object({
+  email: z.string().email("Invalid email address").optional(),
+  password: z.string().min(6, "Password must be at least 6 characters").optional(),
+  name: z.string().min(1, "Name is required").optional(),
+  role: z.enum(['admin', 'manager', 'user']).optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * List users with optional search, role filter and pagination
+ */
+export const handleListUsers: RequestHandler = async (req, res) => {
+  try {
+    const validation = listUsersSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        errors: validationErrors(validation.error)
+      });
+    }
+
+    const { search, role } = validation.data;
+    const { page, limit, offset } = req.pagination || { page: 1, limit: 20, offset: 0 };
+
+    const { users, total } = await AuthService.listUsers({
+      search: search || undefined,
+      role,
+      offset,
+      limit,
+    });
+
+    const response: UserListResponse = {
+      users,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / limit)),
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('List users error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Create a user with an explicit role
+ */
+export const handleCreateUser: RequestHandler = async (req, res) => {
+  try {
+    const validation = createUserSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        errors: validationErrors(validation.error)
+      });
+    }
+
+    const { role, ...userData } = validation.data;
+
+    const existingUser = await AuthService.findUserByEmail(userData.email);
+    if (existingUser) {
+      return res.status(400).json({ message: 'User with this email already exists' });
+    }
+
+    const dbUser = await AuthService.createUser(userData, role);
+    if (!dbUser) {
+      return res.status(500).json({ message: 'Failed to create user' });
+    }
+
+    res.status(201).json({ user: AuthService.transformDbUserToUser(dbUser) });
+  } catch (error) {
+    console.error('Create user error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Update a user's profile, role, password or active state
+ */
+export const handleUpdateUser: RequestHandler = async (req, res) => {
+  try {
+    const targetId = req.params.id;
+    const validation = updateUserSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        errors: validationErrors(validation.error)
+      });
+    }
+
+    const updates = validation.data;
+
+    // Prevent administrators from locking themselves out
+    if (targetId === req.userId) {
+      if (updates.role && updates.role !== 'admin') {
+        return res.status(400).json({ message: 'You cannot remove your own admin role' });
+      }
+      if (updates.isActive === false) {
+        return res.status(400).json({ message: 'You cannot deactivate your own account' });
+      }
+    }
+
+    const existingUser = await AuthService.findUserById(targetId);
+    if (!existingUser) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (updates.email && updates.email !== existingUser.email) {
+      const emailOwner = await AuthService.findUserByEmail(updates.email);
+      if (emailOwner) {
+        return res.status(400).json({ message: 'User with this email already exists' });
+      }
+    }
+
+    const dbUser = await AuthService.adminUpdateUser(targetId, updates);
+    if (!dbUser) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.json({ user: AuthService.transformDbUserToUser(dbUser) });
+  } catch (error) {
+    console.error('Update user error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Permanently delete a user and everything they own
+ */
+export const handleDeleteUser: RequestHandler = async (req, res) => {
+  try {
+    const targetId = req.params.id;
+
+    if (targetId === req.userId) {
+      return res.status(400).json({ message: 'You cannot delete your own account' });
+    }
+
+    const success = await AuthService.deleteUser(targetId);
+    if (!success) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete user error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -2,6 +2,22 @@ import { RequestHandler } from "express";
 import { z } from "zod";
 import { authenticateToken } from "./auth";
 import { ProjectsService } from "../lib/projects-service";
+import { EvmService, ProjectEarnedValue } from "../lib/evm-service";
+import { aggregateEarnedValue } from "../lib/evm";
+import { SiteDiaryService } from "../lib/site-diary-service";
+import { toCsv } from "../lib/csv";
+import { RfiService } from "../lib/rfi-service";
+import { rfiRiskSeverity } from "../lib/rfi";
+import { ClaimsService, ProgressClaim } from "../lib/claims-service";
+import { buildCashFlow } from "../lib/claims";
+import { renderClaimPdf } from "../lib/claim-pdf";
+import { ChangeOrdersService } from "../lib/change-orders-service";
+import { buildVarianceHistory, VarianceHistory } from "../lib/change-orders";
+import { ExchangeRatesService } from "../lib/exchange-rates-service";
+import { Converter, DEFAULT_CURRENCY } from "../lib/currency";
+import { EarnedValueMetrics } from "../lib/evm";
+import { validationErrors } from "../lib/validation";
+import { getUserPreferences } from "./user-data";
 
 // Validation schemas
 const analyticsQuerySchema = z.object({
@@ -13,7 +29,7 @@ const analyticsQuerySchema = z.object({
 });
 
 const reportSchema = z.object({
-  type: z.enum(['project_summary', 'financial_report', 'performance_analysis', 'risk_assessment', 'team_productivity']),
+  type: z.enum(['project_summary', 'financial_report', 'performance_analysis', 'risk_assessment', 'team_productivity', 'site_diary', 'progress_claim']),
   format: z.enum(['pdf', 'excel', 'csv', 'json']).default('json'),
   includeCharts: z.boolean().default(true),
   filters: z.object({
@@ -22,7 +38,9 @@ const reportSchema = z.object({
       end: z.string()
     }).optional(),
     projects: z.array(z.string()).optional(),
-    teams: z.array(z.string()).optional()
+    teams: z.array(z.string()).optional(),
+    // A progress claim report renders one claim on the first listed project
+    claimId: z.number().int().positive().optional()
   }).optional()
 });
 
@@ -34,10 +52,7 @@ export const handleAdvancedAnalytics: RequestHandler = async (req, res) => {
     
     if (!validation.success) {
       return res.status(400).json({
-        errors: validation.error.issues.map(err => ({
-          message: err.message,
-          field: err.path[0] as string,
-        }))
+        errors: validationErrors(validation.error)
       });
     }
 
@@ -51,8 +66,20 @@ export const handleAdvancedAnalytics: RequestHandler = async (req, res) => {
       ? projects.filter(p => p.id.toString() === projectId)
       : projects;
 
+    // Earned value against each project's active baseline
+    const earnedValue = (await Promise.all(
+      filteredProjects.map(p => EvmService.getProjectEarnedValue(p.id))
+    )).filter((ev): ev is ProjectEarnedValue => ev !== null);
+
+    // Certified claims drive cash flow
+    const claims = await ClaimsService.getClaims(filteredProjects.map(p => p.id));
+
+    // Portfolio totals are converted into the user's reporting currency
+    const { reportingCurrency } = await getUserPreferences(userId);
+    const converter = await ExchangeRatesService.getConverter(reportingCurrency);
+
     // Calculate advanced metrics
-    const analytics = await calculateAdvancedAnalytics(filteredProjects, {
+    const analytics = await calculateAdvancedAnalytics(filteredProjects, earnedValue, claims, converter, {
       startDate,
       endDate,
       granularity,
@@ -98,17 +125,23 @@ export const handleGenerateReport: RequestHandler = async (req, res) => {
     
     if (!validation.success) {
       return res.status(400).json({
-        errors: validation.error.issues.map(err => ({
-          message: err.message,
-          field: err.path[0] as string,
-        }))
+        errors: validationErrors(validation.error)
       });
     }
 
     const { type, format, includeCharts, filters } = validation.data;
+
+    if (type === 'progress_claim' && (!filters?.projects?.length || !filters.claimId)) {
+      return res.status(400).json({
+        errors: [{ message: 'A progress claim report needs a project and a claim', field: 'filters' }]
+      });
+    }
     
     // Generate report data
     const reportData = await generateReportData(userId, type, filters);
+    if (!reportData) {
+      return res.status(404).json({ message: 'Claim not found' });
+    }
     
     // Format report based on requested format
     const formattedReport = await formatReport(reportData, format, includeCharts);
@@ -157,14 +190,23 @@ export const handleBenchmarking: RequestHandler = async (req, res) => {
       averageSPI: 0.98
     };
     
+    // Budget and schedule movement from approved change orders
+    const changeOrders = await ChangeOrdersService.getChangeOrders(projects.map(p => p.id));
+    const variance = projects.map(p => ({
+      projectId: p.id,
+      projectName: p.name,
+      history: buildVarianceHistory(p, changeOrders.filter(order => order.project_id === p.id))
+    }));
+
     // Calculate user's performance vs industry benchmarks
-    const userPerformance = calculateUserPerformance(projects);
+    const userPerformance = calculateUserPerformance(projects, variance.map(v => v.history));
     const comparison = compareToBenchmarks(userPerformance, industryBenchmarks);
     
     res.json({
       userPerformance,
       industryBenchmarks,
       comparison,
+      changeOrders: variance,
       recommendations: generateRecommendations(comparison)
     });
 
@@ -199,8 +241,9 @@ export const handlePerformanceMonitoring: RequestHandler = async (req, res) => {
 };
 
 // Helper functions
-async function calculateAdvancedAnalytics(projects: any[], options: any) {
+async function calculateAdvancedAnalytics(projects: any[], earnedValue: ProjectEarnedValue[], claims: ProgressClaim[], converter: Converter, options: any) {
   const { startDate, endDate, granularity, metrics } = options;
+  const { priced, pricedEarnedValue, pricedClaims } = toReportingCurrency(projects, earnedValue, claims, converter);
   
   // Time series data
   const timeSeriesData = generateTimeSeriesData(projects, granularity);
@@ -208,9 +251,9 @@ async function calculateAdvancedAnalytics(projects: any[], options: any) {
   // Advanced metrics
   const advancedMetrics = {
     portfolioHealth: calculatePortfolioHealth(projects),
-    resourceEfficiency: calculateResourceEfficiency(projects),
-    costPerformance: calculateCostPerformance(projects),
-    schedulePerformance: calculateSchedulePerformance(projects),
+    resourceEfficiency: calculateResourceEfficiency(priced),
+    costPerformance: calculateCostPerformance(priced, pricedEarnedValue),
+    schedulePerformance: calculateSchedulePerformance(projects, pricedEarnedValue),
     qualityTrends: calculateQualityTrends(projects),
     riskDistribution: calculateRiskDistribution(projects),
     teamProductivity: calculateTeamProductivity(projects),
@@ -218,14 +261,88 @@ async function calculateAdvancedAnalytics(projects: any[], options: any) {
   };
   
   return {
+    currency: {
+      reporting: converter.currency,
+      asOf: new Date().toISOString().split('T')[0],
+      // Amounts in these currencies are left out of the portfolio figures
+      missingRates: converter.missing()
+    },
     timeSeriesData,
     advancedMetrics,
-    summary: generateAnalyticsSummary(projects),
+    earnedValue: {
+      portfolio: aggregateEarnedValue(pricedEarnedValue.map(ev => ev.metrics)),
+      projects: earnedValue.map(ev => ({
+        ...ev,
+        projectName: projects.find(p => p.id === ev.projectId)?.name,
+        currency: currencyOf(projects.find(p => p.id === ev.projectId))
+      }))
+    },
+    cashFlow: {
+      portfolio: buildCashFlow(pricedClaims),
+      projects: projects
+        .filter(p => claims.some(claim => claim.project_id === p.id))
+        .map(p => ({
+          projectId: p.id,
+          projectName: p.name,
+          currency: currencyOf(p),
+          series: buildCashFlow(claims.filter(claim => claim.project_id === p.id))
+        }))
+    },
+    summary: generateAnalyticsSummary(projects, priced),
     insights: generateInsights(projects),
     recommendations: generateRecommendations(advancedMetrics)
   };
 }
 
+const currencyOf = (project: any): string => project?.currency || DEFAULT_CURRENCY;
+
+const EVM_MONEY_FIELDS = ['bac', 'pv', 'ev', 'ac', 'cv', 'sv', 'eac', 'etc', 'vac'] as const;
+
+/**
+ * Project money in the reporting currency, for portfolio roll-ups. Budgets,
+ * spend, planned material cost and earned value convert at today's rate and
+ * a claim at the rate on the day it was certified. Projects in a currency
+ * with no rate are left out, and the converter records which.
+ */
+function toReportingCurrency(projects: any[], earnedValue: ProjectEarnedValue[], claims: ProgressClaim[], converter: Converter) {
+  const priced = projects.flatMap(p => {
+    const budget = converter.convert(p.budget, currencyOf(p));
+    const spent = converter.convert(p.spent, currencyOf(p));
+    if (budget === null || spent === null) return [];
+
+    // Material cost lines carry their own currency
+    const materialCost = (p.materials || [])
+      .filter((m: any) => !m.deleted_at)
+      .map((m: any) => converter.convert(Number(m.cost) * Number(m.total_required), m.currency || currencyOf(p)))
+      .reduce((sum: number, cost: number | null) => sum + (cost ?? 0), 0);
+    return [{ ...p, budget, spent, materialCost }];
+  });
+  const currencies = new Map(priced.map(p => [p.id, currencyOf(p)]));
+
+  const pricedEarnedValue = earnedValue.flatMap(ev => {
+    const currency = currencies.get(ev.projectId);
+    if (!currency) return [];
+
+    const metrics: EarnedValueMetrics = { ...ev.metrics };
+    for (const field of EVM_MONEY_FIELDS) {
+      const value = ev.metrics[field];
+      if (value !== null) metrics[field] = converter.convert(value, currency)!;
+    }
+    return [{ ...ev, metrics }];
+  });
+
+  const pricedClaims = claims.flatMap(claim => {
+    const currency = currencies.get(claim.project_id);
+    if (!currency) return [];
+    if (claim.amount_due === null || !claim.certified_at) return [claim];
+
+    const amountDue = converter.convert(Number(claim.amount_due), currency, claim.certified_at);
+    return amountDue === null ? [] : [{ ...claim, amount_due: amountDue }];
+  });
+
+  return { priced, pricedEarnedValue, pricedClaims };
+}
+
 async function predictProjectTimelines(projects: any[]) {
   // Mock prediction algorithm
   return projects.map(project => ({
@@ -332,19 +449,31 @@ function calculateResourceEfficiency(projects: any[]) {
   };
 }
 
-function calculateCostPerformance(projects: any[]) {
+function calculateCostPerformance(projects: any[], earnedValue: ProjectEarnedValue[]) {
+  const portfolio = aggregateEarnedValue(earnedValue.map(ev => ev.metrics));
+
   return {
-    averageCPI: projects.reduce((sum, p) => sum + p.cpi, 0) / projects.length,
+    averageCPI: portfolio.cpi,
+    costVariance: portfolio.cv,
+    estimateAtCompletion: portfolio.eac,
+    varianceAtCompletion: portfolio.vac,
     budgetVariance: projects.reduce((sum, p) => sum + (p.spent - p.budget), 0) / projects.length,
-    costTrend: 'decreasing'
+    projectsOverBudget: earnedValue.filter(ev => ev.metrics.cpi !== null && ev.metrics.cpi < 1).length,
+    measuredProjects: earnedValue.length
   };
 }
 
-function calculateSchedulePerformance(projects: any[]) {
+function calculateSchedulePerformance(projects: any[], earnedValue: ProjectEarnedValue[]) {
+  const portfolio = aggregateEarnedValue(earnedValue.map(ev => ev.metrics));
+  const measured = earnedValue.filter(ev => ev.metrics.spi !== null);
+
   return {
-    averageSPI: projects.reduce((sum, p) => sum + p.spi, 0) / projects.length,
-    onTimeDelivery: projects.filter(p => p.spi >= 0.95).length / projects.length,
-    scheduleTrend: 'improving'
+    averageSPI: portfolio.spi,
+    scheduleVariance: portfolio.sv,
+    onTimeDelivery: measured.length > 0
+      ? measured.filter(ev => ev.metrics.spi! >= 0.95).length / measured.length
+      : null,
+    measuredProjects: measured.length
   };
 }
 
@@ -386,13 +515,15 @@ function calculateClientSatisfaction(projects: any[]) {
   };
 }
 
-function generateAnalyticsSummary(projects: any[]) {
+function generateAnalyticsSummary(projects: any[], priced: any[]) {
   return {
     totalProjects: projects.length,
     activeProjects: projects.filter(p => p.status === 'active').length,
     completedProjects: projects.filter(p => p.status === 'completed').length,
-    totalBudget: projects.reduce((sum, p) => sum + p.budget, 0),
-    totalSpent: projects.reduce((sum, p) => sum + p.spent, 0),
+    // Money totals are in the reporting currency
+    totalBudget: priced.reduce((sum, p) => sum + p.budget, 0),
+    totalSpent: priced.reduce((sum, p) => sum + p.spent, 0),
+    totalMaterialCost: Math.round(priced.reduce((sum, p) => sum + p.materialCost, 0) * 100) / 100,
     averageProgress: projects.reduce((sum, p) => sum + p.progress, 0) / projects.length
   };
 }
@@ -444,6 +575,19 @@ function generateRecommendations(metrics: any) {
 }
 
 async function generateReportData(userId: string, type: string, filters: any) {
+  if (type === 'progress_claim') {
+    const data = await generateProgressClaimReport(userId, filters);
+    return data && { type, generatedAt: new Date().toISOString(), data };
+  }
+
+  if (type === 'site_diary') {
+    return {
+      type,
+      generatedAt: new Date().toISOString(),
+      data: await generateSiteDiaryReport(userId, filters),
+    };
+  }
+
   // Mock report data generation
   return {
     type,
@@ -456,25 +600,120 @@ async function generateReportData(userId: string, type: string, filters: any) {
   };
 }
 
+// Diary entries for the user's projects, optionally narrowed by project and date range
+async function generateSiteDiaryReport(userId: string, filters: any) {
+  const projectIds: string[] | undefined = filters?.projects;
+  const projects = (await ProjectsService.getUserProjects(userId))
+    .filter(project => !projectIds || projectIds.includes(String(project.id)));
+  const range = {
+    from: filters?.dateRange?.start?.split('T')[0],
+    to: filters?.dateRange?.end?.split('T')[0],
+  };
+
+  const diaries = await Promise.all(projects.map(async project => ({
+    projectId: project.id,
+    projectName: project.name,
+    entries: (await SiteDiaryService.getEntries(project.id, range))
+      .map(entry => SiteDiaryService.withFiles(entry)),
+  })));
+  const entries = diaries.flatMap(diary => diary.entries);
+
+  return {
+    projects: diaries,
+    summary: {
+      entries: entries.length,
+      signedOff: entries.filter(entry => entry.status === 'signed_off').length,
+      personDays: entries.reduce((sum, entry) => sum + entry.crews.reduce((n, crew) => n + crew.headcount, 0), 0),
+      hoursLost: entries.reduce((sum, entry) => sum + entry.delays.reduce((n, delay) => n + (delay.hours_lost || 0), 0), 0),
+    },
+  };
+}
+
+// One claim with its valuation, if the user can see the project it belongs to
+async function generateProgressClaimReport(userId: string, filters: any) {
+  const project = (await ProjectsService.getUserProjects(userId))
+    .find(p => String(p.id) === filters.projects[0]);
+  if (!project) return null;
+
+  const claim = await ClaimsService.getValuedClaim(project.id, filters.claimId);
+  return claim && { ...claim, projectName: project.name, currency: currencyOf(project) };
+}
+
+function formatProgressClaimCsv(data: any) {
+  const claim = data.data;
+  return toCsv(
+    ['Claim', 'Source', 'Reference', 'Description', 'Scheduled value', 'Previous %', '% complete', 'Value to date', 'This claim'],
+    claim.valuation.lines.map((line: any) => [
+      claim.number,
+      line.source,
+      line.reference,
+      line.description,
+      line.scheduled_value,
+      line.previous_percent,
+      line.percent_complete,
+      line.value_to_date,
+      line.this_period,
+    ])
+  );
+}
+
+function formatSiteDiaryCsv(data: any) {
+  const rows = data.data.projects.flatMap((diary: any) => diary.entries.map((entry: any) => [
+    diary.projectName,
+    entry.entry_date,
+    entry.status,
+    entry.signed_off_at,
+    entry.weather ? `${entry.weather.condition} ${entry.weather.temperature}°` : null,
+    entry.crews.reduce((sum: number, crew: any) => sum + crew.headcount, 0),
+    entry.work_performed,
+    entry.delays.map((delay: any) => delay.description).join('; '),
+    entry.delays.reduce((sum: number, delay: any) => sum + (delay.hours_lost || 0), 0),
+    entry.visitors.map((visitor: any) => visitor.name).join('; '),
+    entry.files.map((file: any) => file.originalName).join('; '),
+  ]));
+
+  return toCsv(
+    ['Project', 'Date', 'Status', 'Signed off at', 'Weather', 'Headcount', 'Work performed', 'Delays', 'Hours lost', 'Visitors', 'Files'],
+    rows
+  );
+}
+
 async function formatReport(data: any, format: string, includeCharts: boolean) {
   switch (format) {
     case 'pdf':
+      if (data.type === 'progress_claim') {
+        return renderClaimPdf(data.data);
+      }
       return JSON.stringify({ message: 'PDF generation not implemented in demo', data });
     case 'excel':
       return JSON.stringify({ message: 'Excel generation not implemented in demo', data });
     case 'csv':
+      if (data.type === 'site_diary') {
+        return formatSiteDiaryCsv(data);
+      }
+      if (data.type === 'progress_claim') {
+        return formatProgressClaimCsv(data);
+      }
       return 'Project,Status,Progress\nDemo Project,Active,75%';
     default:
       return JSON.stringify(data, null, 2);
   }
 }
 
-function calculateUserPerformance(projects: any[]) {
+function calculateUserPerformance(projects: any[], variance: VarianceHistory[]) {
+  // Variance as a fraction of the original budget, either direction
+  const budgetVariance = variance
+    .filter(history => history.cost_variance_percent !== null)
+    .map(history => Math.abs(history.cost_variance_percent!) / 100);
+
   return {
     averageCPI: projects.reduce((sum, p) => sum + p.cpi, 0) / projects.length,
     averageSPI: projects.reduce((sum, p) => sum + p.spi, 0) / projects.length,
     averageQuality: projects.reduce((sum, p) => sum + p.quality_score, 0) / projects.length,
-    averageSafety: projects.reduce((sum, p) => sum + p.safety_score, 0) / projects.length
+    averageSafety: projects.reduce((sum, p) => sum + p.safety_score, 0) / projects.length,
+    averageBudgetVariance: budgetVariance.length > 0
+      ? budgetVariance.reduce((sum, v) => sum + v, 0) / budgetVariance.length
+      : 0
   };
 }
 
@@ -499,6 +738,12 @@ function compareToBenchmarks(userPerformance: any, benchmarks: any) {
       user: userPerformance.averageSafety,
       benchmark: benchmarks.averageSafetyScore,
       performance: userPerformance.averageSafety > benchmarks.averageSafetyScore ? 'above' : 'below'
+    },
+    budgetVariance: {
+      user: userPerformance.averageBudgetVariance,
+      benchmark: benchmarks.averageBudgetVariance,
+      // Less movement from the original budget is better
+      performance: userPerformance.averageBudgetVariance < benchmarks.averageBudgetVariance ? 'above' : 'below'
     }
   };
 }
@@ -517,11 +762,26 @@ async function getTeamUtilization(userId: string) {
   return 0.87; // Mock utilization
 }
 
+// Unresolved RFIs flagged with a cost or schedule impact, most severe first
 async function getActiveRiskAlerts(userId: string) {
-  return [
-    { id: 1, project: 'Demo Project', risk: 'Weather delay', severity: 'medium' },
-    { id: 2, project: 'Another Project', risk: 'Material shortage', severity: 'high' }
-  ];
+  const projects = await ProjectsService.getUserProjects(userId);
+  const rfis = await RfiService.getImpactRfis(projects.map(p => p.id));
+  const rank = { high: 0, medium: 1, low: 2 };
+
+  return rfis
+    .map(rfi => {
+      const impacts = [rfi.cost_impact && 'cost', rfi.schedule_impact && 'schedule'].filter(Boolean).join(' and ');
+      return {
+        id: rfi.id,
+        projectId: rfi.project_id,
+        project: projects.find(p => p.id === rfi.project_id)?.name,
+        risk: `RFI #${rfi.number}: ${rfi.subject} (${impacts} impact)`,
+        severity: rfiRiskSeverity(rfi),
+        source: 'rfi' as const,
+      };
+    })
+    .filter((alert): alert is typeof alert & { severity: 'high' | 'medium' | 'low' } => alert.severity !== null)
+    .sort((a, b) => rank[a.severity] - rank[b.severity]);
 }
 
 async function getQualityIssues(userId: string) {
@@ -1,6 +1,9 @@
 import { RequestHandler } from "express";
 import { z } from "zod";
 import { authenticateToken } from "./auth";
+import { ProjectsService } from "../lib/projects-service";
+import { RiskRegisterService } from "../lib/risk-register-service";
+import { calculateProjectRiskLevel } from "../lib/risks";
 
 // Validation schemas
 const aiAnalysisSchema = z.object({
@@ -177,11 +180,13 @@ export const handleAIRiskAssessment: RequestHandler = async (req, res) => {
     const userId = req.userId!;
     const { projectId } = req.query;
     
-    // Mock AI risk assessment
     const riskAssessment = await generateAIRiskAssessment(
       userId,
       projectId ? parseInt(projectId as string) : undefined
     );
+    if (!riskAssessment) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
     
     res.json({
       assessmentId: `risk_${Date.now()}`,
@@ -189,7 +194,6 @@ export const handleAIRiskAssessment: RequestHandler = async (req, res) => {
       riskLevel: riskAssessment.overallRisk,
       risks: riskAssessment.risks,
       mitigationStrategies: riskAssessment.mitigationStrategies,
-      confidence: 0.89,
       timestamp: new Date().toISOString()
     });
 
@@ -389,38 +393,33 @@ async function generateResourceOptimization(userId: string, projectId?: number,
   };
 }
 
+// Assessment drawn from the risk registers of the user's projects
 async function generateAIRiskAssessment(userId: string, projectId?: number) {
+  const projects = await ProjectsService.getUserProjects(userId);
+  if (projectId !== undefined && !projects.some(p => p.id === projectId)) {
+    return null;
+  }
+
+  const projectIds = projectId !== undefined ? [projectId] : projects.map(p => p.id);
+  const risks = await RiskRegisterService.getRisksForProjects(projectIds);
+  const live = risks.filter(r => r.status !== 'closed');
+
   return {
-    overallRisk: 'medium',
-    risks: [
-      {
-        category: 'weather',
-        probability: 0.6,
-        impact: 'medium',
-        description: 'Heavy rain forecast for next week',
-        mitigation: 'Implement weather contingency plan'
-      },
-      {
-        category: 'supply_chain',
-        probability: 0.3,
-        impact: 'high',
-        description: 'Steel supplier experiencing delays',
-        mitigation: 'Identify backup suppliers'
-      },
-      {
-        category: 'labor',
-        probability: 0.4,
-        impact: 'medium',
-        description: 'Skilled labor shortage in area',
-        mitigation: 'Cross-train existing workers'
-      }
-    ],
-    mitigationStrategies: [
-      'Implement daily weather monitoring',
-      'Establish backup supplier relationships',
-      'Create cross-training program',
-      'Increase project buffer time by 10%'
-    ]
+    overallRisk: calculateProjectRiskLevel(risks),
+    risks: live.map(risk => ({
+      id: risk.id,
+      projectId: risk.project_id,
+      category: risk.category,
+      probability: risk.probability / 5,
+      impact: risk.impact >= 4 ? 'high' : risk.impact === 3 ? 'medium' : 'low',
+      level: RiskRegisterService.withScore(risk).level,
+      description: risk.title,
+      mitigation: risk.mitigation_actions.find(action => !action.completed_at)?.description ?? null
+    })),
+    // Outstanding actions across the register, highest-scoring risks first
+    mitigationStrategies: live.flatMap(risk => risk.mitigation_actions
+      .filter(action => !action.completed_at)
+      .map(action => action.description))
   };
 }
 
@@ -0,0 +1,43 @@
+/**
+ * Audit Routes
+ * The change history of a project and its materials, newest first. Entries
+ * are written by the project, material and user data routes and can't be
+ * edited or removed.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { AuditService } from "../lib/audit-service";
+import { parseId, validationErrors } from "../lib/validation";
+
+const historyQuerySchema = z.object({
+  entity_type: z.enum(['project', 'material']).optional(),
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const handleGetProjectHistory: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseId(req.params.id);
+    if (projectId === null) {
+      return res.status(400).json({ message: 'Invalid project ID' });
+    }
+
+    const validation = historyQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const filters = validation.data;
+    const entries = await AuditService.getProjectHistory(projectId, filters);
+    const hasMore = entries.length === filters.limit;
+
+    res.json({
+      entries,
+      next_before: hasMore ? entries[entries.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Error fetching project history:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { authenticateToken, handleLogin } from "./auth";
+import { AuthService } from "../lib/auth-service";
+import { callHandler } from "../test-utils";
+
+describe("authenticateToken", () => {
+  it("should reject a token issued before the account was deactivated", async () => {
+    const user = await AuthService.createUser({ email: "leaver@example.com", password: "secret123", name: "Leaver" });
+    const login = await callHandler(handleLogin, { body: { email: "leaver@example.com", password: "secret123" } });
+    const headers = { authorization: `Bearer ${login.body.token}` };
+
+    const before = await callHandler(authenticateToken, { headers });
+    expect(before.nextCalled).toBe(true);
+    expect(before.req.userId).toBe(user!.id);
+
+    await AuthService.adminUpdateUser(user!.id, { isActive: false });
+    const after = await callHandler(authenticateToken, { headers });
+    expect(after.nextCalled).toBe(false);
+    expect(after.status).toBe(401);
+  });
+});
@@ -25,7 +25,7 @@ const generateToken = (userId: string): string => {
 };
 
 // Auth middleware
-export const authenticateToken: RequestHandler = (req, res, next) => {
+export const authenticateToken: RequestHandler = async (req, res, next) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -33,13 +33,29 @@ export const authenticateToken: RequestHandler = (req, res, next) => {
     return res.status(401).json({ message: 'Access token required' });
   }
 
-  jwt.verify(token, JWT_SECRET, (err: any, decoded: any) => {
-    if (err) {
-      return res.status(403).json({ message: 'Invalid or expired token' });
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, JWT_SECRET);
+  } catch (error) {
+    return res.status(403).json({ message: 'Invalid or expired token' });
+  }
+
+  try {
+    // Tokens outlive deactivation and deletion, so check the account on every request
+    const user = await AuthService.findUserById(decoded.userId);
+    if (!user) {
+      return res.status(401).json({ message: 'Account not found' });
+    }
+    if (!AuthService.isUserActive(user)) {
+      return res.status(401).json({ message: 'This account has been deactivated' });
     }
-    req.userId = decoded.userId;
-    next();
-  });
+  } catch (error) {
+    console.error('Authentication error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+
+  req.userId = decoded.userId;
+  next();
 };
 
 // Routes
@@ -62,6 +78,10 @@ export const handleLogin: RequestHandler = async (req, res) => {
       return res.status(401).json({ message: 'Invalid email or password' });
     }
 
+    if (!AuthService.isUserActive(dbUser)) {
+      return res.status(403).json({ message: 'This account has been deactivated' });
+    }
+
     // Generate token
     const token = generateToken(dbUser.id);
 
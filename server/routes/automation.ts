@@ -1,6 +1,11 @@
 import { RequestHandler } from "express";
 import { z } from "zod";
 import { authenticateToken } from "./auth";
+import { scheduleTaskSchema, scheduleSettingsSchema, toSettingsUpdate } from "./schedule";
+import { ProjectsService } from "../lib/projects-service";
+import { ProjectMembersService, canPerformProjectAction } from "../lib/project-members-service";
+import { ScheduleService, toScheduleOptions } from "../lib/schedule-service";
+import { validateScheduleInput } from "../lib/scheduler";
 
 // Validation schemas
 const workflowSchema = z.object({
@@ -36,24 +41,8 @@ const automationRuleSchema = z.object({
 
 const smartSchedulingSchema = z.object({
   projectId: z.number(),
-  tasks: z.array(z.object({
-    id: z.string(),
-    name: z.string(),
-    duration: z.number(),
-    dependencies: z.array(z.string()).optional(),
-    resources: z.array(z.string()).optional(),
-    constraints: z.record(z.string(), z.any()).optional()
-  })),
-  constraints: z.object({
-    startDate: z.string().optional(),
-    endDate: z.string().optional(),
-    workingHours: z.object({
-      start: z.string(),
-      end: z.string(),
-      days: z.array(z.number()).optional()
-    }).optional(),
-    resourceLimits: z.record(z.string(), z.number()).optional()
-  }).optional()
+  tasks: z.array(scheduleTaskSchema),
+  constraints: scheduleSettingsSchema.optional()
 });
 
 // Workflow Engine Management
@@ -134,9 +123,30 @@ export const handleSmartScheduling: RequestHandler = async (req, res) => {
     }
 
     const schedulingData = validation.data;
-    
-    // Mock smart scheduling
-    const schedule = await generateSmartSchedule(userId, schedulingData);
+
+    const role = await ProjectMembersService.getMemberRole(schedulingData.projectId, userId);
+    if (!role) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+    if (!canPerformProjectAction(role, 'edit')) {
+      return res.status(403).json({ message: 'Insufficient project permissions', required: 'edit', current: role });
+    }
+
+    const project = await ProjectsService.getProjectById(schedulingData.projectId, userId);
+    const current = await ScheduleService.getSettings(schedulingData.projectId);
+    const settings = { ...current, ...toSettingsUpdate(schedulingData.constraints || {}) };
+    const problem = validateScheduleInput(
+      schedulingData.tasks,
+      toScheduleOptions(settings, project?.start_date)
+    );
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const schedule = await generateSmartSchedule(userId, schedulingData, project?.start_date);
+    if (!schedule) {
+      return res.status(500).json({ message: 'Failed to save project schedule' });
+    }
     
     res.status(201).json({
       schedule,
@@ -338,36 +348,75 @@ async function createAutomationRule(userId: string, ruleData: any) {
   return rule;
 }
 
-async function generateSmartSchedule(userId: string, schedulingData: any) {
-  const schedule = {
-    id: `schedule_${Date.now()}`,
-    projectId: schedulingData.projectId,
+async function generateSmartSchedule(
+  userId: string,
+  schedulingData: z.infer<typeof smartSchedulingSchema>,
+  projectStartDate?: string | null
+) {
+  const { projectId, tasks, constraints } = schedulingData;
+
+  // The submitted tasks become the project's stored network
+  const settings = await ScheduleService.saveSettings(projectId, toSettingsUpdate(constraints || {}));
+  const saved = await ScheduleService.replaceTasks(projectId, tasks.map(task => ({
+    task_key: task.id,
+    name: task.name,
+    duration: task.duration,
+    dependencies: task.dependencies || [],
+    resources: task.resources || [],
+    constraints: task.constraints || {},
+    kind: task.kind || 'task',
+  })));
+  if (!settings || !saved) {
+    return null;
+  }
+
+  const result = await ScheduleService.recalculate(projectId, projectStartDate);
+
+  const limitedResources = Object.entries(result.resourceUsage).filter(([, usage]) => usage.utilization !== null);
+  const delayed = result.tasks.filter(task => task.resourceDelay > 0);
+  const recommendations: string[] = [];
+
+  if (result.deadlineVariance !== null && result.deadlineVariance < 0) {
+    recommendations.push(`Schedule finishes ${-result.deadlineVariance} working day(s) after the requested end date`);
+  }
+  if (result.leveledDuration > result.cpmDuration) {
+    const busiest = limitedResources.sort(([, a], [, b]) => (b.utilization || 0) - (a.utilization || 0))[0];
+    recommendations.push(
+      `Resource limits delay ${delayed.length} task(s) and add ${result.leveledDuration - result.cpmDuration} working day(s)` +
+      (busiest ? `; "${busiest[0]}" is the most constrained resource` : '')
+    );
+  }
+  if (result.criticalPath.length > 0) {
+    recommendations.push(`Protect the critical path: ${result.criticalPath.join(' → ')}`);
+  }
+
+  console.log(`Generated schedule for project ${projectId}: ${result.tasks.length} tasks, ${result.leveledDuration} working days`);
+
+  return {
+    id: `schedule_${projectId}_${Date.now()}`,
+    projectId,
     userId,
     generatedAt: new Date().toISOString(),
-    tasks: schedulingData.tasks.map((task: any) => ({
+    startDate: result.startDate,
+    finishDate: result.finishDate,
+    tasks: result.tasks.map(task => ({
       ...task,
-      scheduledStart: new Date(Date.now() + Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-      scheduledEnd: new Date(Date.now() + Math.random() * 60 * 24 * 60 * 60 * 1000).toISOString(),
       assignedResources: task.resources || [],
       status: 'scheduled'
     })),
     optimization: {
-      totalDuration: Math.floor(Math.random() * 90 + 30), // 30-120 days
-      resourceUtilization: 0.87,
-      criticalPath: ['foundation', 'structure', 'roofing', 'finishing'],
-      bufferTime: 0.15
+      totalDuration: result.leveledDuration,
+      unconstrainedDuration: result.cpmDuration,
+      resourceUtilization: limitedResources.length > 0
+        ? Math.round(limitedResources.reduce((sum, [, usage]) => sum + (usage.utilization || 0), 0) / limitedResources.length * 100) / 100
+        : null,
+      criticalPath: result.criticalPath,
+      deadlineVariance: result.deadlineVariance
     },
-    constraints: schedulingData.constraints,
-    recommendations: [
-      'Consider parallel execution of independent tasks',
-      'Allocate additional resources for critical path activities',
-      'Implement buffer time for weather-dependent tasks'
-    ]
+    resourceUsage: result.resourceUsage,
+    constraints: settings,
+    recommendations
   };
-
-  console.log(`Generating smart schedule for project ${schedulingData.projectId}`);
-  
-  return schedule;
 }
 
 async function generateAutomatedQualityControl(userId: string, projectId?: number, qualityType?: string) {
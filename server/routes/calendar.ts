@@ -0,0 +1,80 @@
+/**
+ * Calendar Feed Routes
+ * Each user can publish their projects' milestones, inspections and
+ * deliveries as an ICS subscription URL. The URL carries a secret token in
+ * place of a login, so it is shown once and can be reset or revoked.
+ */
+
+import { RequestHandler } from "express";
+import { randomBytes } from "crypto";
+import { CalendarService, hashFeedToken, toIcsEvent } from "../lib/calendar-service";
+import { buildIcs } from "../lib/ics";
+
+const FEED_PATH = '/api/calendar/feeds';
+
+// How far back a subscribed calendar keeps events
+const FEED_HISTORY_DAYS = 90;
+
+export const handleGetCalendarFeed: RequestHandler = async (req, res) => {
+  try {
+    const feed = await CalendarService.getFeed(req.userId!);
+    res.json({ enabled: !!feed, createdAt: feed?.created_at ?? null });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateCalendarFeed: RequestHandler = async (req, res) => {
+  try {
+    const token = randomBytes(24).toString('hex');
+    const feed = await CalendarService.saveFeed(req.userId!, hashFeedToken(token));
+    if (!feed) {
+      return res.status(500).json({ message: 'Failed to create calendar feed' });
+    }
+
+    res.status(201).json({
+      enabled: true,
+      createdAt: feed.created_at,
+      url: `${req.protocol}://${req.get('host')}${FEED_PATH}/${token}.ics`,
+    });
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteCalendarFeed: RequestHandler = async (req, res) => {
+  try {
+    const success = await CalendarService.deleteFeed(req.userId!);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to revoke calendar feed' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Public: calendar clients can't send a bearer token, so the URL is the credential
+export const handleServeCalendarFeed: RequestHandler = async (req, res) => {
+  try {
+    const token = req.params.token.replace(/\.ics$/, '');
+    const feed = token ? await CalendarService.getFeedByHash(hashFeedToken(token)) : null;
+    if (!feed) {
+      return res.status(404).json({ message: 'Calendar feed not found' });
+    }
+
+    const from = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const events = await CalendarService.getUserEvents(feed.user_id, { from });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename=projects.ics');
+    res.send(buildIcs('Project milestones, inspections and deliveries', events.map(toIcsEvent)));
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,307 @@
+/**
+ * Change Order Routes
+ * Priced and timed scope changes. A change order is drafted, submitted to an
+ * approval chain of project manager and (for larger changes) owner, and once
+ * approved moves the project budget, end date and active baseline. The list
+ * carries the budget and schedule variance history the changes add up to.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ChangeOrdersService } from "../lib/change-orders-service";
+import { ProjectsService } from "../lib/projects-service";
+import { ProjectMembersService } from "../lib/project-members-service";
+import { AuditService } from "../lib/audit-service";
+import { auditMetadata, diffFields, PROJECT_AUDIT_FIELDS } from "../lib/audit";
+import {
+  approvalChain,
+  buildVarianceHistory,
+  canApprove,
+  canTransitionChangeOrder,
+  decideStep,
+  isIndependentApprover,
+  pendingStep,
+} from "../lib/change-orders";
+import { parseId, validationErrors } from "../lib/validation";
+
+// Validation schemas
+const changeOrderFields = {
+  title: z.string().min(1, "Title is required").max(255),
+  description: z.string().nullable().optional(),
+  cost_impact: z.number(),
+  time_impact_days: z.number().int("Time impact must be whole days"),
+};
+
+const createChangeOrderSchema = z.object(changeOrderFields);
+const updateChangeOrderSchema = z.object(changeOrderFields).partial();
+const statusSchema = z.object({ status: z.enum(['draft', 'submitted']) });
+const decisionSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  comment: z.string().max(2000).nullable().optional(),
+});
+
+export const handleGetChangeOrders: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const [project, changeOrders] = await Promise.all([
+      ProjectsService.getProjectById(projectId, userId),
+      ChangeOrdersService.getChangeOrders([projectId]),
+    ]);
+    if (!project) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+
+    res.json({ changeOrders, history: buildVarianceHistory(project, changeOrders) });
+  } catch (error) {
+    console.error('Error fetching change orders:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetChangeOrder: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const changeOrderId = parseId(req.params.changeOrderId);
+    if (changeOrderId === null) {
+      return res.status(400).json({ message: 'Invalid change order ID' });
+    }
+
+    const changeOrder = await ChangeOrdersService.getChangeOrder(projectId, changeOrderId);
+    if (!changeOrder) {
+      return res.status(404).json({ message: 'Change order not found' });
+    }
+
+    res.json({ changeOrder });
+  } catch (error) {
+    console.error('Error fetching change order:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateChangeOrder: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createChangeOrderSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const orderData = validation.data;
+    const changeOrder = await ChangeOrdersService.createChangeOrder(projectId, {
+      ...orderData,
+      description: orderData.description ?? null,
+    }, userId);
+
+    if (!changeOrder) {
+      return res.status(500).json({ message: 'Failed to create change order' });
+    }
+
+    res.status(201).json({ changeOrder });
+  } catch (error) {
+    console.error('Error creating change order:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateChangeOrder: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const changeOrderId = parseId(req.params.changeOrderId);
+    if (changeOrderId === null) {
+      return res.status(400).json({ message: 'Invalid change order ID' });
+    }
+
+    const validation = updateChangeOrderSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await ChangeOrdersService.getChangeOrder(projectId, changeOrderId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Change order not found' });
+    }
+
+    if (existing.status !== 'draft') {
+      return res.status(409).json({ message: 'Only a draft change order can be edited' });
+    }
+
+    const changeOrder = await ChangeOrdersService.updateChangeOrder(projectId, changeOrderId, validation.data);
+    if (!changeOrder) {
+      return res.status(500).json({ message: 'Failed to update change order' });
+    }
+
+    res.json({ changeOrder });
+  } catch (error) {
+    console.error('Error updating change order:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateChangeOrderStatus: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const changeOrderId = parseId(req.params.changeOrderId);
+    if (changeOrderId === null) {
+      return res.status(400).json({ message: 'Invalid change order ID' });
+    }
+
+    const validation = statusSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await ChangeOrdersService.getChangeOrder(projectId, changeOrderId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Change order not found' });
+    }
+
+    const { status } = validation.data;
+    if (!canTransitionChangeOrder(existing.status, status)) {
+      return res.status(409).json({ message: `Cannot move a change order from ${existing.status} to ${status}` });
+    }
+
+    let updates;
+    if (status === 'submitted') {
+      const now = new Date().toISOString();
+      const project = await ProjectsService.getProjectById(projectId, userId);
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      if (Number(project.budget) + Number(existing.cost_impact) <= 0) {
+        return res.status(400).json({ errors: [{ message: 'The change would leave the project without a budget', field: 'cost_impact' }] });
+      }
+      // The chain is fixed against the budget as it stands at submission
+      updates = {
+        status,
+        approval_chain: approvalChain(
+          Number(existing.cost_impact),
+          existing.time_impact_days,
+          Number(project.budget),
+          { id: userId, role: req.projectRole, at: now }
+        ),
+        submitted_by: userId,
+        submitted_at: now,
+      };
+    } else {
+      updates = { status, approval_chain: [], submitted_by: null, submitted_at: null };
+    }
+
+    const changeOrder = await ChangeOrdersService.updateChangeOrder(projectId, changeOrderId, updates);
+    if (!changeOrder) {
+      return res.status(500).json({ message: 'Failed to update change order status' });
+    }
+
+    res.json({ changeOrder });
+  } catch (error) {
+    console.error('Error updating change order status:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDecideChangeOrder: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const changeOrderId = parseId(req.params.changeOrderId);
+    if (changeOrderId === null) {
+      return res.status(400).json({ message: 'Invalid change order ID' });
+    }
+
+    const validation = decisionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await ChangeOrdersService.getChangeOrder(projectId, changeOrderId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Change order not found' });
+    }
+
+    const index = existing.status === 'submitted' ? pendingStep(existing.approval_chain) : -1;
+    const step = existing.approval_chain[index];
+    if (!step) {
+      return res.status(409).json({ message: 'This change order is not awaiting approval' });
+    }
+
+    const role = await ProjectMembersService.getMemberRole(projectId, userId);
+    if (!canApprove(role, existing.approval_chain, index)) {
+      return res.status(403).json({ message: `Waiting on the project ${step.role} to approve` });
+    }
+    if (!isIndependentApprover(existing.approval_chain, existing.submitted_by, userId)) {
+      return res.status(403).json({ message: 'Change orders must be approved by someone else' });
+    }
+
+    const now = new Date().toISOString();
+    const { decision, comment } = validation.data;
+    const decided = decideStep(existing.approval_chain, decision, userId, comment ?? null, now);
+
+    let updates = { status: decided.status, approval_chain: decided.chain };
+    if (decided.status === 'approved') {
+      const before = await ProjectsService.getProjectById(projectId, userId);
+      if (!before) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      if (Number(before.budget) + Number(existing.cost_impact) <= 0) {
+        return res.status(409).json({ message: 'The change would now leave the project without a budget' });
+      }
+
+      const applied = await ChangeOrdersService.applyApproval(projectId, existing, userId, now);
+      if (!applied) {
+        return res.status(500).json({ message: 'Failed to apply change order' });
+      }
+
+      await AuditService.record(
+        userId,
+        { type: 'project', id: projectId, project_id: projectId },
+        'update',
+        diffFields(before, applied.project, PROJECT_AUDIT_FIELDS),
+        auditMetadata(req)
+      );
+      updates = { ...updates, ...applied.updates };
+    }
+
+    const changeOrder = await ChangeOrdersService.updateChangeOrder(projectId, changeOrderId, updates);
+    if (!changeOrder) {
+      return res.status(500).json({ message: 'Failed to record decision' });
+    }
+
+    res.json({ changeOrder });
+  } catch (error) {
+    console.error('Error deciding change order:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteChangeOrder: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const changeOrderId = parseId(req.params.changeOrderId);
+    if (changeOrderId === null) {
+      return res.status(400).json({ message: 'Invalid change order ID' });
+    }
+
+    const existing = await ChangeOrdersService.getChangeOrder(projectId, changeOrderId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Change order not found' });
+    }
+
+    if (existing.status !== 'draft') {
+      return res.status(409).json({ message: 'Only a draft change order can be deleted' });
+    }
+
+    const success = await ChangeOrdersService.deleteChangeOrder(projectId, changeOrderId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete change order' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting change order:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
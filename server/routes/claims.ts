@@ -0,0 +1,576 @@
+/**
+ * Progress Claim Routes
+ * The schedule of values a project's contract is broken down into,
+ * variations to it, and the progress claims billed against both. Drafts are
+ * valued live; a claim's figures are frozen when it is submitted, and
+ * certified claims feed cash-flow analytics.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ClaimsService, ProgressClaim, ValuedClaim } from "../lib/claims-service";
+import { ProjectMembersService } from "../lib/project-members-service";
+import {
+  CLAIM_STATUSES,
+  ClaimLine,
+  DEFAULT_RETENTION_RATE,
+  VARIATION_STATUSES,
+  canTransitionClaim,
+  canTransitionVariation,
+} from "../lib/claims";
+import { parseId, validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const toDateString = (value: string) => new Date(value).toISOString().split('T')[0];
+
+// Validation schemas
+const scheduleItemFields = {
+  item_number: z.string().min(1, "Item number is required").max(50),
+  description: z.string().min(1, "Description is required"),
+  scheduled_value: z.number().min(0, "Scheduled value must be non-negative"),
+  position: z.number().int().optional(),
+};
+
+const createScheduleItemSchema = z.object(scheduleItemFields);
+const updateScheduleItemSchema = z.object(scheduleItemFields).partial();
+
+const variationFields = {
+  reference: z.string().min(1, "Reference is required").max(50),
+  description: z.string().min(1, "Description is required"),
+  amount: z.number(),
+};
+
+const createVariationSchema = z.object(variationFields);
+const updateVariationSchema = z.object(variationFields).partial();
+const variationStatusSchema = z.object({ status: z.enum(VARIATION_STATUSES) });
+
+const retentionRate = z.number().min(0, "Retention rate must be between 0 and 100").max(100, "Retention rate must be between 0 and 100");
+
+const createClaimSchema = z.object({
+  period_end: z.string().refine(isValidDate, "Invalid date"),
+  retention_rate: retentionRate.optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const updateClaimSchema = z.object({
+  period_end: z.string().refine(isValidDate, "Invalid date").optional(),
+  retention_rate: retentionRate.optional(),
+  retention_released: z.number().min(0, "Retention released must be non-negative").optional(),
+  notes: z.string().nullable().optional(),
+  lines: z.array(z.object({
+    source: z.enum(['item', 'variation']),
+    source_id: z.number().int().positive(),
+    percent_complete: z.number().min(0, "Percent complete must be between 0 and 100").max(100, "Percent complete must be between 0 and 100"),
+  })).optional(),
+});
+
+const claimStatusSchema = z.object({ status: z.enum(CLAIM_STATUSES) });
+
+const toClaimLine = (line: ClaimLine): ClaimLine => ({
+  source: line.source,
+  source_id: line.source_id,
+  reference: line.reference,
+  description: line.description,
+  scheduled_value: line.scheduled_value,
+  percent_complete: line.percent_complete,
+});
+
+// Problems that stop a draft being saved or submitted, as validation errors
+const draftErrors = (claim: ValuedClaim) => {
+  const errors = claim.valuation.lines
+    .filter(line => line.percent_complete < line.previous_percent)
+    .map(line => ({
+      message: `Line ${line.reference} can't go below the ${line.previous_percent}% already claimed`,
+      field: 'lines',
+    }));
+  if (claim.valuation.retention_released > claim.valuation.retention_releasable) {
+    errors.push({
+      message: `Only ${claim.valuation.retention_releasable.toFixed(2)} of retention can be released`,
+      field: 'retention_released',
+    });
+  }
+  return errors;
+};
+
+// Schedule of values
+export const handleGetScheduleOfValues: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const items = await ClaimsService.getScheduleOfValues(projectId);
+    res.json({ items });
+  } catch (error) {
+    console.error('Error fetching schedule of values:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateScheduleOfValuesItem: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+
+    const validation = createScheduleItemSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const itemData = validation.data;
+    const position = itemData.position ?? (await ClaimsService.getScheduleOfValues(projectId)).length;
+    const item = await ClaimsService.createScheduleOfValuesItem(projectId, { ...itemData, position });
+    if (!item) {
+      return res.status(500).json({ message: 'Failed to create schedule of values item' });
+    }
+
+    res.status(201).json({ item });
+  } catch (error) {
+    console.error('Error creating schedule of values item:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateScheduleOfValuesItem: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const itemId = parseId(req.params.itemId);
+    if (itemId === null) {
+      return res.status(400).json({ message: 'Invalid item ID' });
+    }
+
+    const validation = updateScheduleItemSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await ClaimsService.getScheduleOfValuesItem(projectId, itemId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Schedule of values item not found' });
+    }
+
+    const updates = validation.data;
+    if (updates.scheduled_value !== undefined && updates.scheduled_value !== Number(existing.scheduled_value) &&
+        await ClaimsService.isClaimed(projectId, 'item', itemId)) {
+      return res.status(409).json({ message: 'This item has been claimed, so its value can no longer change' });
+    }
+
+    const item = await ClaimsService.updateScheduleOfValuesItem(projectId, itemId, updates);
+    if (!item) {
+      return res.status(500).json({ message: 'Failed to update schedule of values item' });
+    }
+
+    res.json({ item });
+  } catch (error) {
+    console.error('Error updating schedule of values item:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteScheduleOfValuesItem: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const itemId = parseId(req.params.itemId);
+    if (itemId === null) {
+      return res.status(400).json({ message: 'Invalid item ID' });
+    }
+
+    const existing = await ClaimsService.getScheduleOfValuesItem(projectId, itemId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Schedule of values item not found' });
+    }
+
+    if (await ClaimsService.isClaimed(projectId, 'item', itemId)) {
+      return res.status(409).json({ message: 'This item has been claimed and cannot be deleted' });
+    }
+
+    const success = await ClaimsService.deleteScheduleOfValuesItem(projectId, itemId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete schedule of values item' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting schedule of values item:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Variations
+export const handleGetVariations: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const variations = await ClaimsService.getVariations(projectId);
+    res.json({ variations });
+  } catch (error) {
+    console.error('Error fetching variations:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateVariation: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createVariationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const variation = await ClaimsService.createVariation(projectId, validation.data, userId);
+    if (!variation) {
+      return res.status(500).json({ message: 'Failed to create variation' });
+    }
+
+    res.status(201).json({ variation });
+  } catch (error) {
+    console.error('Error creating variation:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateVariation: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const variationId = parseId(req.params.variationId);
+    if (variationId === null) {
+      return res.status(400).json({ message: 'Invalid variation ID' });
+    }
+
+    const validation = updateVariationSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await ClaimsService.getVariation(projectId, variationId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Variation not found' });
+    }
+
+    if (existing.status !== 'pending') {
+      return res.status(409).json({ message: `A ${existing.status} variation cannot be edited` });
+    }
+
+    const variation = await ClaimsService.updateVariation(projectId, variationId, validation.data);
+    if (!variation) {
+      return res.status(500).json({ message: 'Failed to update variation' });
+    }
+
+    res.json({ variation });
+  } catch (error) {
+    console.error('Error updating variation:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateVariationStatus: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const variationId = parseId(req.params.variationId);
+    if (variationId === null) {
+      return res.status(400).json({ message: 'Invalid variation ID' });
+    }
+
+    const validation = variationStatusSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await ClaimsService.getVariation(projectId, variationId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Variation not found' });
+    }
+
+    const { status } = validation.data;
+    if (!canTransitionVariation(existing.status, status)) {
+      return res.status(409).json({ message: `Cannot move a variation from ${existing.status} to ${status}` });
+    }
+
+    const approved = status === 'approved';
+    const variation = await ClaimsService.updateVariation(projectId, variationId, {
+      status,
+      approved_by: approved ? userId : null,
+      approved_at: approved ? new Date().toISOString() : null,
+    });
+    if (!variation) {
+      return res.status(500).json({ message: 'Failed to update variation status' });
+    }
+
+    res.json({ variation });
+  } catch (error) {
+    console.error('Error updating variation status:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteVariation: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const variationId = parseId(req.params.variationId);
+    if (variationId === null) {
+      return res.status(400).json({ message: 'Invalid variation ID' });
+    }
+
+    const existing = await ClaimsService.getVariation(projectId, variationId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Variation not found' });
+    }
+
+    if (existing.status === 'approved') {
+      return res.status(409).json({ message: 'An approved variation cannot be deleted' });
+    }
+
+    const success = await ClaimsService.deleteVariation(projectId, variationId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete variation' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting variation:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Progress claims
+export const handleGetClaims: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const claims = await ClaimsService.getValuedClaims(projectId);
+    res.json({ claims });
+  } catch (error) {
+    console.error('Error fetching progress claims:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetClaim: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const claimId = parseId(req.params.claimId);
+    if (claimId === null) {
+      return res.status(400).json({ message: 'Invalid claim ID' });
+    }
+
+    const claim = await ClaimsService.getValuedClaim(projectId, claimId);
+    if (!claim) {
+      return res.status(404).json({ message: 'Claim not found' });
+    }
+
+    res.json({ claim });
+  } catch (error) {
+    console.error('Error fetching progress claim:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateClaim: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createClaimSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    // One claim in progress at a time, so each is valued against certified ones
+    const claims = await ClaimsService.getClaims([projectId]);
+    const open = claims.find(claim => claim.status === 'draft' || claim.status === 'submitted');
+    if (open) {
+      return res.status(409).json({ message: `Claim ${open.number} is still ${open.status}` });
+    }
+
+    const claimData = validation.data;
+    const last = claims[claims.length - 1];
+    const created = await ClaimsService.createClaim(projectId, {
+      period_end: toDateString(claimData.period_end),
+      retention_rate: claimData.retention_rate ?? (last ? Number(last.retention_rate) : DEFAULT_RETENTION_RATE),
+      notes: claimData.notes ?? null,
+      lines: [],
+    }, userId);
+
+    if (!created) {
+      return res.status(500).json({ message: 'Failed to create claim' });
+    }
+
+    res.status(201).json({ claim: await ClaimsService.getValuedClaim(projectId, created.id) });
+  } catch (error) {
+    console.error('Error creating progress claim:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateClaim: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const claimId = parseId(req.params.claimId);
+    if (claimId === null) {
+      return res.status(400).json({ message: 'Invalid claim ID' });
+    }
+
+    const validation = updateClaimSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await ClaimsService.getValuedClaim(projectId, claimId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Claim not found' });
+    }
+
+    if (existing.status !== 'draft') {
+      return res.status(409).json({ message: 'Only a draft claim can be edited' });
+    }
+
+    const { lines: entered, period_end, ...fields } = validation.data;
+    const current = existing.valuation.lines;
+    const unknown = (entered ?? []).filter(line =>
+      !current.some(other => other.source === line.source && other.source_id === line.source_id));
+    if (unknown.length > 0) {
+      return res.status(400).json({ errors: [{ message: 'Claim lines must be schedule items or approved variations', field: 'lines' }] });
+    }
+
+    const { valuation, ...stored } = existing;
+    const revised: ProgressClaim = {
+      ...stored,
+      ...fields,
+      ...(period_end !== undefined && { period_end: toDateString(period_end) }),
+      lines: current.map(line => ({
+        ...toClaimLine(line),
+        percent_complete: entered?.find(other => other.source === line.source && other.source_id === line.source_id)
+          ?.percent_complete ?? line.percent_complete,
+      })),
+    };
+
+    const valued = await ClaimsService.getValuedClaim(projectId, claimId, revised);
+    const errors = valued ? draftErrors(valued) : [];
+    if (errors.length > 0) {
+      return res.status(400).json({ errors });
+    }
+
+    const claim = await ClaimsService.updateClaim(projectId, claimId, {
+      ...fields,
+      period_end: revised.period_end,
+      lines: revised.lines,
+    });
+    if (!claim) {
+      return res.status(500).json({ message: 'Failed to update claim' });
+    }
+
+    res.json({ claim: await ClaimsService.getValuedClaim(projectId, claimId) });
+  } catch (error) {
+    console.error('Error updating progress claim:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateClaimStatus: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const claimId = parseId(req.params.claimId);
+    if (claimId === null) {
+      return res.status(400).json({ message: 'Invalid claim ID' });
+    }
+
+    const validation = claimStatusSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await ClaimsService.getValuedClaim(projectId, claimId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Claim not found' });
+    }
+
+    const { status } = validation.data;
+    if (!canTransitionClaim(existing.status, status)) {
+      return res.status(409).json({ message: `Cannot move a claim from ${existing.status} to ${status}` });
+    }
+
+    // Certifying and recording payment are the client's side of the claim
+    if ((status === 'certified' || status === 'paid') &&
+        !(await ProjectMembersService.hasAccess(projectId, userId, 'manage'))) {
+      return res.status(403).json({ message: `Only project managers can mark a claim ${status}` });
+    }
+
+    const now = new Date().toISOString();
+    const { valuation } = existing;
+    let updates;
+    switch (status) {
+      case 'submitted': {
+        if (valuation.lines.length === 0) {
+          return res.status(400).json({ errors: [{ message: 'Add schedule of values items before submitting a claim', field: 'lines' }] });
+        }
+        const errors = draftErrors(existing);
+        if (errors.length > 0) {
+          return res.status(400).json({ errors });
+        }
+        updates = {
+          status,
+          lines: valuation.lines.map(toClaimLine),
+          gross_to_date: valuation.gross_to_date,
+          retention_held: valuation.retention_held,
+          previous_certified: valuation.previous_certified,
+          amount_due: valuation.amount_due,
+          submitted_at: now,
+        };
+        break;
+      }
+      case 'draft':
+        updates = {
+          status,
+          gross_to_date: null,
+          retention_held: null,
+          previous_certified: null,
+          amount_due: null,
+          submitted_at: null,
+        };
+        break;
+      case 'certified':
+        updates = { status, certified_at: now, certified_by: userId };
+        break;
+      case 'paid':
+        updates = { status, paid_at: now };
+        break;
+    }
+
+    const claim = await ClaimsService.updateClaim(projectId, claimId, updates);
+    if (!claim) {
+      return res.status(500).json({ message: 'Failed to update claim status' });
+    }
+
+    res.json({ claim: await ClaimsService.getValuedClaim(projectId, claimId) });
+  } catch (error) {
+    console.error('Error updating progress claim status:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteClaim: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const claimId = parseId(req.params.claimId);
+    if (claimId === null) {
+      return res.status(400).json({ message: 'Invalid claim ID' });
+    }
+
+    const existing = await ClaimsService.getClaim(projectId, claimId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Claim not found' });
+    }
+
+    if (existing.status !== 'draft') {
+      return res.status(409).json({ message: 'Only a draft claim can be deleted' });
+    }
+
+    const success = await ClaimsService.deleteClaim(projectId, claimId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete claim' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting progress claim:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,146 @@
+/**
+ * Cost Control Routes
+ * Subcontracts let against a project's cost codes, and the activity-based
+ * cost report: budget, commitments, actuals, cost to complete and variance
+ * per code, built from purchase orders, goods received, subcontracts and
+ * approved labour.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { CostControlService } from "../lib/cost-control-service";
+import { TimesheetService } from "../lib/timesheets-service";
+import { SUBCONTRACT_STATUSES } from "../lib/cost-control";
+import { parseId, validationErrors } from "../lib/validation";
+
+// Validation schemas
+const subcontractFields = {
+  cost_code_id: z.number().int().positive(),
+  contractor: z.string().min(1, "Contractor is required").max(255),
+  description: z.string().nullable().optional(),
+  contract_value: z.number().min(0, "Contract value must be non-negative"),
+  invoiced_to_date: z.number().min(0, "Invoiced to date must be non-negative").optional(),
+  status: z.enum(SUBCONTRACT_STATUSES).optional(),
+};
+
+const createSubcontractSchema = z.object(subcontractFields);
+const updateSubcontractSchema = z.object(subcontractFields).partial();
+
+const unknownCostCode = { errors: [{ message: 'Unknown cost code', field: 'cost_code_id' }] };
+
+export const handleGetCostReport: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const report = await CostControlService.getCostReport(projectId);
+    res.json({ report });
+  } catch (error) {
+    console.error('Error building cost report:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetSubcontracts: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const subcontracts = await CostControlService.getSubcontracts(projectId);
+    res.json({ subcontracts });
+  } catch (error) {
+    console.error('Error fetching subcontracts:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateSubcontract: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createSubcontractSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const subcontractData = validation.data;
+    if (!(await TimesheetService.getCostCode(projectId, subcontractData.cost_code_id))) {
+      return res.status(400).json(unknownCostCode);
+    }
+
+    const subcontract = await CostControlService.createSubcontract(projectId, {
+      cost_code_id: subcontractData.cost_code_id,
+      contractor: subcontractData.contractor,
+      description: subcontractData.description ?? null,
+      contract_value: subcontractData.contract_value,
+      invoiced_to_date: subcontractData.invoiced_to_date ?? 0,
+      status: subcontractData.status ?? 'awarded',
+    }, userId);
+
+    if (!subcontract) {
+      return res.status(500).json({ message: 'Failed to create subcontract' });
+    }
+
+    res.status(201).json({ subcontract });
+  } catch (error) {
+    console.error('Error creating subcontract:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateSubcontract: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const subcontractId = parseId(req.params.subcontractId);
+    if (subcontractId === null) {
+      return res.status(400).json({ message: 'Invalid subcontract ID' });
+    }
+
+    const validation = updateSubcontractSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await CostControlService.getSubcontract(projectId, subcontractId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Subcontract not found' });
+    }
+
+    const updates = validation.data;
+    if (updates.cost_code_id !== undefined && !(await TimesheetService.getCostCode(projectId, updates.cost_code_id))) {
+      return res.status(400).json(unknownCostCode);
+    }
+
+    const subcontract = await CostControlService.updateSubcontract(projectId, subcontractId, updates);
+    if (!subcontract) {
+      return res.status(500).json({ message: 'Failed to update subcontract' });
+    }
+
+    res.json({ subcontract });
+  } catch (error) {
+    console.error('Error updating subcontract:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteSubcontract: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const subcontractId = parseId(req.params.subcontractId);
+    if (subcontractId === null) {
+      return res.status(400).json({ message: 'Invalid subcontract ID' });
+    }
+
+    const existing = await CostControlService.getSubcontract(projectId, subcontractId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Subcontract not found' });
+    }
+
+    const success = await CostControlService.deleteSubcontract(projectId, subcontractId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete subcontract' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting subcontract:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
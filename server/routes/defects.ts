@@ -0,0 +1,330 @@
+/**
+ * Defect Routes
+ * Punch list per project: each defect has a location (optionally pinned on a
+ * drawing or photo), trade, severity, photos, an assignee and a due date. A
+ * fixed defect stays on the list until it is verified; the project's quality
+ * score is recomputed from the list on every change.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ProjectMembersService } from "../lib/project-members-service";
+import { FileStorageService } from "../lib/file-storage";
+import { Defect, DefectsService, DefectUpdate } from "../lib/defects-service";
+import { canTransitionDefect, DefectSeverity, DefectStatus, isDefectOverdue } from "../lib/defects";
+import { validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const toDate = (value: string) => value.split('T')[0];
+
+// Validation schemas
+const pinSchema = z.object({
+  file_id: z.string().min(1, "Pin must reference a drawing or photo"),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+});
+
+const defectFields = {
+  title: z.string().min(1, "Title is required").max(255),
+  description: z.string().optional(),
+  location: z.string().min(1, "Location is required").max(255),
+  pin: pinSchema.nullable().optional(),
+  trade: z.string().min(1, "Trade is required").max(100),
+  severity: z.enum(['minor', 'major', 'critical']).optional(),
+  photo_ids: z.array(z.string().min(1)).optional(),
+  assigned_to: z.string().min(1).nullable().optional(),
+  due_date: z.string().refine(isValidDate, "Invalid date").nullable().optional(),
+};
+
+const createDefectSchema = z.object(defectFields);
+const updateDefectSchema = z.object(defectFields).partial();
+
+const statusSchema = z.object({
+  status: z.enum(['open', 'in_progress', 'fixed']),
+});
+
+const verifySchema = z.object({
+  accepted: z.boolean(),
+  notes: z.string().optional(),
+}).refine(v => v.accepted || !!v.notes, {
+  message: "Say why the fix was rejected",
+  path: ['notes'],
+});
+
+const parseDefectId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+const toResponse = (defect: Defect) => ({ ...DefectsService.withPhotos(defect), is_overdue: isDefectOverdue(defect) });
+
+// Photos and pinned drawings must already be stored against this project
+const findForeignFiles = (projectId: number, fileIds: string[]) =>
+  fileIds.filter(fileId => FileStorageService.getFileMetadata(fileId)?.projectId !== projectId);
+
+const findNonImages = (fileIds: string[]) =>
+  fileIds.filter(fileId => !FileStorageService.getFileMetadata(fileId)?.mimeType.startsWith('image/'));
+
+const isProjectMember = async (projectId: number, userId: string) =>
+  (await ProjectMembersService.getMemberRole(projectId, userId)) !== null;
+
+// Shared checks for the assignee and attachments on create and update
+async function checkReferences(
+  projectId: number,
+  data: { assigned_to?: string | null; photo_ids?: string[]; pin?: { file_id: string } | null }
+) {
+  if (data.assigned_to && !(await isProjectMember(projectId, data.assigned_to))) {
+    return { errors: [{ message: 'Assignee must be a project member', field: 'assigned_to' }] };
+  }
+
+  const fileIds = [...(data.photo_ids || []), ...(data.pin ? [data.pin.file_id] : [])];
+  const foreignFiles = findForeignFiles(projectId, fileIds);
+  if (foreignFiles.length > 0) {
+    return { message: `Files not found on this project: ${foreignFiles.join(', ')}` };
+  }
+
+  const nonImages = findNonImages(data.photo_ids || []);
+  if (nonImages.length > 0) {
+    return { message: `Photos must be images: ${nonImages.join(', ')}` };
+  }
+
+  return null;
+}
+
+export const handleGetDefects: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const { status, severity, trade } = req.query;
+
+    if (typeof status === 'string' && !['open', 'in_progress', 'fixed', 'verified'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+    if (typeof severity === 'string' && !['minor', 'major', 'critical'].includes(severity)) {
+      return res.status(400).json({ message: 'Invalid severity filter' });
+    }
+
+    const [defects, summary] = await Promise.all([
+      DefectsService.getDefects(projectId, {
+        status: typeof status === 'string' ? status as DefectStatus : undefined,
+        severity: typeof severity === 'string' ? severity as DefectSeverity : undefined,
+        trade: typeof trade === 'string' ? trade : undefined,
+        assignedTo: req.query.assigned_to === 'me' ? userId : undefined,
+      }),
+      DefectsService.getSummary(projectId),
+    ]);
+
+    res.json({ defects: defects.map(toResponse), summary });
+  } catch (error) {
+    console.error('Error fetching defects:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetDefect: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const defectId = parseDefectId(req.params.defectId);
+    if (defectId === null) {
+      return res.status(400).json({ message: 'Invalid defect ID' });
+    }
+
+    const defect = await DefectsService.getDefect(projectId, defectId);
+    if (!defect) {
+      return res.status(404).json({ message: 'Defect not found' });
+    }
+
+    res.json({ defect: toResponse(defect) });
+  } catch (error) {
+    console.error('Error fetching defect:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateDefect: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createDefectSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const defectData = validation.data;
+    const referenceError = await checkReferences(projectId, defectData);
+    if (referenceError) {
+      return res.status(400).json(referenceError);
+    }
+
+    const defect = await DefectsService.createDefect(projectId, {
+      title: defectData.title,
+      description: defectData.description ?? null,
+      location: defectData.location,
+      pin: defectData.pin ?? null,
+      trade: defectData.trade,
+      severity: defectData.severity ?? 'minor',
+      photo_ids: defectData.photo_ids ?? [],
+      assigned_to: defectData.assigned_to ?? null,
+      due_date: defectData.due_date ? toDate(defectData.due_date) : null,
+      raised_by: userId,
+    });
+    if (!defect) {
+      return res.status(500).json({ message: 'Failed to create defect' });
+    }
+
+    const summary = await DefectsService.syncQualityScore(projectId);
+
+    res.status(201).json({ defect: toResponse(defect), summary });
+  } catch (error) {
+    console.error('Error creating defect:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateDefect: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const defectId = parseDefectId(req.params.defectId);
+    if (defectId === null) {
+      return res.status(400).json({ message: 'Invalid defect ID' });
+    }
+
+    const validation = updateDefectSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await DefectsService.getDefect(projectId, defectId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Defect not found' });
+    }
+    if (existing.status === 'verified') {
+      return res.status(409).json({ message: 'Defect is verified and closed' });
+    }
+
+    const referenceError = await checkReferences(projectId, validation.data);
+    if (referenceError) {
+      return res.status(400).json(referenceError);
+    }
+
+    const updates: DefectUpdate = { ...validation.data };
+    if (updates.due_date) {
+      updates.due_date = toDate(updates.due_date);
+    }
+
+    const defect = await DefectsService.updateDefect(projectId, defectId, updates);
+    if (!defect) {
+      return res.status(500).json({ message: 'Failed to update defect' });
+    }
+
+    const summary = await DefectsService.syncQualityScore(projectId);
+
+    res.json({ defect: toResponse(defect), summary });
+  } catch (error) {
+    console.error('Error updating defect:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateDefectStatus: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const defectId = parseDefectId(req.params.defectId);
+    if (defectId === null) {
+      return res.status(400).json({ message: 'Invalid defect ID' });
+    }
+
+    const validation = statusSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await DefectsService.getDefect(projectId, defectId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Defect not found' });
+    }
+
+    const { status } = validation.data;
+    if (!canTransitionDefect(existing.status, status)) {
+      return res.status(409).json({ message: `Cannot move a defect from ${existing.status} to ${status}` });
+    }
+
+    const defect = await DefectsService.updateDefect(projectId, defectId, {
+      status,
+      fixed_at: status === 'fixed' ? new Date().toISOString() : null,
+    });
+    if (!defect) {
+      return res.status(500).json({ message: 'Failed to update defect status' });
+    }
+
+    const summary = await DefectsService.syncQualityScore(projectId);
+
+    res.json({ defect: toResponse(defect), summary });
+  } catch (error) {
+    console.error('Error updating defect status:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleVerifyDefect: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const defectId = parseDefectId(req.params.defectId);
+    if (defectId === null) {
+      return res.status(400).json({ message: 'Invalid defect ID' });
+    }
+
+    const validation = verifySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await DefectsService.getDefect(projectId, defectId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Defect not found' });
+    }
+    if (existing.status !== 'fixed') {
+      return res.status(409).json({ message: 'Only fixed defects can be verified' });
+    }
+
+    // A rejected fix goes back on the list with the inspector's notes
+    const { accepted, notes } = validation.data;
+    const defect = await DefectsService.updateDefect(projectId, defectId, accepted
+      ? { status: 'verified', verified_by: userId, verified_at: new Date().toISOString(), verification_notes: notes ?? null }
+      : { status: 'open', fixed_at: null, verification_notes: notes ?? null });
+    if (!defect) {
+      return res.status(500).json({ message: 'Failed to verify defect' });
+    }
+
+    const summary = await DefectsService.syncQualityScore(projectId);
+
+    res.json({ defect: toResponse(defect), summary });
+  } catch (error) {
+    console.error('Error verifying defect:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteDefect: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const defectId = parseDefectId(req.params.defectId);
+    if (defectId === null) {
+      return res.status(400).json({ message: 'Invalid defect ID' });
+    }
+
+    const success = await DefectsService.deleteDefect(projectId, defectId);
+    if (!success) {
+      return res.status(404).json({ message: 'Defect not found' });
+    }
+
+    await DefectsService.syncQualityScore(projectId);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting defect:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
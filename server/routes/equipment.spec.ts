@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AuthService } from "../lib/auth-service";
+import { startTestApi, TestApi } from "../test-utils";
+
+describe("equipment register permissions", () => {
+  let api: TestApi;
+  let admin: string;
+  let operator: string;
+
+  beforeAll(async () => {
+    api = await startTestApi();
+    admin = await api.login("admin@example.com", "password");
+    await AuthService.createUser({ email: "plant.operator@example.com", password: "secret123", name: "Plant Operator" });
+    operator = await api.login("plant.operator@example.com", "secret123");
+  });
+
+  afterAll(() => api.close());
+
+  it("should let editors of the assigned project record readings but keep the register with admins and managers", async () => {
+    expect((await api.request('POST', '/equipment', { asset_tag: 'EX-99', name: 'Rogue excavator' }, operator)).status).toBe(403);
+
+    const created = await api.request('POST', '/equipment', { asset_tag: 'EX-01', name: '20t excavator' }, admin);
+    expect(created.status).toBe(201);
+    const equipmentId = created.body.equipment.id;
+
+    // Unassigned, so only the register's keepers can touch it
+    expect((await api.request('POST', `/equipment/${equipmentId}/readings`, { hours: 50 }, operator)).status).toBe(403);
+    expect((await api.request('PUT', `/equipment/${equipmentId}`, { name: 'Renamed' }, operator)).status).toBe(403);
+
+    const project = (await api.request('POST', '/projects', { name: 'Bypass', budget: 1000 }, admin)).body.project;
+    await api.request('POST', `/projects/${project.id}/members`, { email: 'plant.operator@example.com', role: 'editor' }, admin);
+    expect((await api.request('PUT', `/equipment/${equipmentId}`, { project_id: project.id }, admin)).status).toBe(200);
+
+    expect((await api.request('POST', `/equipment/${equipmentId}/readings`, { hours: 50 }, operator)).status).toBe(201);
+    const certificate = await api.request('POST', `/equipment/${equipmentId}/certificates`, { certificate_type: 'LOLER' }, operator);
+    expect(certificate.status).toBe(201);
+    expect((await api.request('DELETE', `/equipment/${equipmentId}/certificates/${certificate.body.certificate.id}`, undefined, operator)).status).toBe(403);
+  });
+});
@@ -0,0 +1,485 @@
+/**
+ * Equipment Register Routes
+ * Company-wide plant and equipment with project assignment, hour-meter
+ * readings, service intervals, inspection certificates and utilization.
+ * Equipment linked to an IoT device picks up runtime hours from telemetry.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { EquipmentRegisterService, EquipmentUpdate } from "../lib/equipment-service";
+import { ProjectMembersService } from "../lib/project-members-service";
+import { AuthService } from "../lib/auth-service";
+import { FileStorageService } from "../lib/file-storage";
+import { calculateUtilization, certificateStatus, EquipmentStatus } from "../lib/equipment";
+import { parseId, validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const toDate = (value: string) => value.split('T')[0];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validation schemas
+const equipmentFields = {
+  asset_tag: z.string().trim().min(1, "Asset tag is required").max(50),
+  name: z.string().trim().min(1, "Name is required").max(255),
+  category: z.string().max(100).nullable().optional(),
+  make: z.string().max(100).nullable().optional(),
+  model: z.string().max(100).nullable().optional(),
+  serial_number: z.string().max(100).nullable().optional(),
+  status: z.enum(['available', 'in_use', 'maintenance', 'retired']).optional(),
+  project_id: z.number().int().positive().nullable().optional(),
+  iot_device_id: z.string().min(1).nullable().optional(),
+  service_interval_hours: z.number().int().positive().nullable().optional(),
+  service_interval_days: z.number().int().positive().nullable().optional(),
+  last_service_date: z.string().refine(isValidDate, "Invalid date").nullable().optional(),
+  notes: z.string().nullable().optional(),
+};
+
+const createEquipmentSchema = z.object({
+  ...equipmentFields,
+  hour_meter: z.number().min(0).optional(),
+});
+const updateEquipmentSchema = z.object(equipmentFields).partial();
+
+const meterReadingSchema = z.object({
+  hours: z.number().min(0, "Hours must be non-negative"),
+});
+
+const serviceSchema = z.object({
+  description: z.string().min(1, "Description is required"),
+  performed_at: z.string().refine(isValidDate, "Invalid date").optional(),
+  hours: z.number().min(0).optional(),
+});
+
+const certificateSchema = z.object({
+  certificate_type: z.string().min(1, "Certificate type is required").max(100),
+  certificate_number: z.string().max(100).nullable().optional(),
+  issued_date: z.string().refine(isValidDate, "Invalid date").nullable().optional(),
+  expiry_date: z.string().refine(isValidDate, "Invalid date").nullable().optional(),
+  file_id: z.string().min(1).nullable().optional(),
+});
+
+/**
+ * Guard for changes to a single piece of equipment: its details, meter,
+ * service history and certificates. Admins and managers look after the whole
+ * register; anyone else needs edit access to the project it is assigned to.
+ */
+export const requireEquipmentAccess: RequestHandler = async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const user = await AuthService.findUserById(userId);
+    if (user && (user.role === 'admin' || user.role === 'manager')) {
+      return next();
+    }
+
+    const equipmentId = parseId(req.params.equipmentId);
+    if (equipmentId === null) {
+      return res.status(400).json({ message: 'Invalid equipment ID' });
+    }
+
+    const item = await EquipmentRegisterService.getEquipment(equipmentId);
+    if (!item) {
+      return res.status(404).json({ message: 'Equipment not found' });
+    }
+
+    if (!item.project_id || !(await ProjectMembersService.hasAccess(item.project_id, userId, 'edit'))) {
+      return res.status(403).json({ message: 'Only admins, managers and editors of the assigned project can change this equipment' });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Equipment access check error:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+const equipmentStatuses: EquipmentStatus[] = ['available', 'in_use', 'maintenance', 'retired'];
+
+// Assigning equipment to a project needs edit access to that project, and a
+// device can only drive one piece of equipment
+async function checkLinks(
+  userId: string,
+  data: { project_id?: number | null; iot_device_id?: string | null },
+  equipmentId?: number
+): Promise<{ status: number; message: string } | null> {
+  if (data.project_id && !(await ProjectMembersService.hasAccess(data.project_id, userId, 'edit'))) {
+    return { status: 403, message: 'You cannot assign equipment to this project' };
+  }
+  if (data.iot_device_id) {
+    if (!(await EquipmentRegisterService.getIotDevice(data.iot_device_id))) {
+      return { status: 400, message: 'IoT device is not registered' };
+    }
+    const linked = await EquipmentRegisterService.getEquipmentByDevice(data.iot_device_id);
+    if (linked && linked.id !== equipmentId) {
+      return { status: 409, message: `IoT device is already linked to ${linked.asset_tag}` };
+    }
+  }
+  return null;
+}
+
+export const handleGetEquipmentList: RequestHandler = async (req, res) => {
+  try {
+    const { status, project_id } = req.query;
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : undefined;
+
+    if (typeof status === 'string' && !equipmentStatuses.includes(status as EquipmentStatus)) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+
+    const items = await EquipmentRegisterService.getEquipmentList({
+      status: typeof status === 'string' ? status as EquipmentStatus : undefined,
+      projectId: typeof project_id === 'string' ? parseInt(project_id) : undefined,
+      search: search || undefined,
+    });
+
+    res.json({ equipment: items.map(item => EquipmentRegisterService.withService(item)) });
+  } catch (error) {
+    console.error('Error fetching equipment:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetProjectEquipment: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const items = await EquipmentRegisterService.getEquipmentList({ projectId });
+
+    res.json({ equipment: items.map(item => EquipmentRegisterService.withService(item)) });
+  } catch (error) {
+    console.error('Error fetching project equipment:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetEquipment: RequestHandler = async (req, res) => {
+  try {
+    const equipmentId = parseId(req.params.equipmentId);
+    if (equipmentId === null) {
+      return res.status(400).json({ message: 'Invalid equipment ID' });
+    }
+
+    const item = await EquipmentRegisterService.getEquipment(equipmentId);
+    if (!item) {
+      return res.status(404).json({ message: 'Equipment not found' });
+    }
+
+    const today = new Date().toISOString();
+    const [readings, services, certificates] = await Promise.all([
+      EquipmentRegisterService.getMeterReadings(equipmentId),
+      EquipmentRegisterService.getServices(equipmentId),
+      EquipmentRegisterService.getCertificates(equipmentId),
+    ]);
+    const daysAgo = (days: number) => new Date(Date.now() - (days - 1) * DAY_MS).toISOString();
+
+    res.json({
+      equipment: EquipmentRegisterService.withService(item),
+      readings: readings.slice(-50),
+      services,
+      certificates: certificates.map(c => ({ ...c, state: certificateStatus(c.expiry_date) })),
+      utilization: {
+        last7Days: calculateUtilization(readings, daysAgo(7), today),
+        last30Days: calculateUtilization(readings, daysAgo(30), today),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching equipment:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateEquipment: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+
+    const validation = createEquipmentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const equipmentData = validation.data;
+    const existing = await EquipmentRegisterService.getEquipmentList({ search: equipmentData.asset_tag });
+    if (existing.some(e => e.asset_tag === equipmentData.asset_tag)) {
+      return res.status(409).json({ message: `Asset tag ${equipmentData.asset_tag} is already registered` });
+    }
+
+    const linkError = await checkLinks(userId, equipmentData);
+    if (linkError) {
+      return res.status(linkError.status).json({ message: linkError.message });
+    }
+
+    const hourMeter = equipmentData.hour_meter ?? 0;
+    const item = await EquipmentRegisterService.createEquipment({
+      asset_tag: equipmentData.asset_tag,
+      name: equipmentData.name,
+      category: equipmentData.category ?? null,
+      make: equipmentData.make ?? null,
+      model: equipmentData.model ?? null,
+      serial_number: equipmentData.serial_number ?? null,
+      status: equipmentData.status ?? (equipmentData.project_id ? 'in_use' : 'available'),
+      project_id: equipmentData.project_id ?? null,
+      assigned_at: equipmentData.project_id ? new Date().toISOString() : null,
+      iot_device_id: equipmentData.iot_device_id ?? null,
+      hour_meter: hourMeter,
+      service_interval_hours: equipmentData.service_interval_hours ?? null,
+      service_interval_days: equipmentData.service_interval_days ?? null,
+      // Intervals count from when the equipment joins the register
+      last_service_hours: hourMeter,
+      last_service_date: equipmentData.last_service_date ? toDate(equipmentData.last_service_date) : toDate(new Date().toISOString()),
+      notes: equipmentData.notes ?? null,
+      created_by: userId,
+    });
+    if (!item) {
+      return res.status(500).json({ message: 'Failed to create equipment' });
+    }
+
+    // The opening meter value is the baseline for utilization
+    await EquipmentRegisterService.recordHours(item, hourMeter, 'manual', userId, null);
+
+    res.status(201).json({ equipment: EquipmentRegisterService.withService(item) });
+  } catch (error) {
+    console.error('Error creating equipment:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateEquipment: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const equipmentId = parseId(req.params.equipmentId);
+    if (equipmentId === null) {
+      return res.status(400).json({ message: 'Invalid equipment ID' });
+    }
+
+    const validation = updateEquipmentSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await EquipmentRegisterService.getEquipment(equipmentId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Equipment not found' });
+    }
+
+    const { last_service_date, ...rest } = validation.data;
+    if (rest.asset_tag && rest.asset_tag !== existing.asset_tag) {
+      const clashes = await EquipmentRegisterService.getEquipmentList({ search: rest.asset_tag });
+      if (clashes.some(e => e.asset_tag === rest.asset_tag)) {
+        return res.status(409).json({ message: `Asset tag ${rest.asset_tag} is already registered` });
+      }
+    }
+
+    // Moving equipment off a project needs edit access to where it was
+    if (rest.project_id !== undefined && existing.project_id && rest.project_id !== existing.project_id &&
+        !(await ProjectMembersService.hasAccess(existing.project_id, userId, 'edit'))) {
+      return res.status(403).json({ message: 'You cannot reassign equipment from its current project' });
+    }
+    const linkError = await checkLinks(userId, {
+      project_id: rest.project_id !== existing.project_id ? rest.project_id : undefined,
+      iot_device_id: rest.iot_device_id,
+    }, equipmentId);
+    if (linkError) {
+      return res.status(linkError.status).json({ message: linkError.message });
+    }
+
+    const updates: EquipmentUpdate = { ...rest };
+    if (last_service_date !== undefined) {
+      updates.last_service_date = last_service_date ? toDate(last_service_date) : null;
+    }
+    if (rest.project_id !== undefined && rest.project_id !== existing.project_id) {
+      updates.assigned_at = rest.project_id ? new Date().toISOString() : null;
+      if (!rest.status && existing.status !== 'maintenance' && existing.status !== 'retired') {
+        updates.status = rest.project_id ? 'in_use' : 'available';
+      }
+    }
+    // A new schedule gets its own reminder
+    if (rest.service_interval_hours !== undefined || rest.service_interval_days !== undefined || last_service_date !== undefined) {
+      updates.maintenance_notified_at = null;
+    }
+
+    const item = await EquipmentRegisterService.updateEquipment(equipmentId, updates);
+    if (!item) {
+      return res.status(500).json({ message: 'Failed to update equipment' });
+    }
+
+    const notificationService = req.app.locals.notificationService;
+    if (notificationService) {
+      await EquipmentRegisterService.checkMaintenance(item, notificationService);
+    }
+
+    res.json({ equipment: EquipmentRegisterService.withService(item) });
+  } catch (error) {
+    console.error('Error updating equipment:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteEquipment: RequestHandler = async (req, res) => {
+  try {
+    const equipmentId = parseId(req.params.equipmentId);
+    if (equipmentId === null) {
+      return res.status(400).json({ message: 'Invalid equipment ID' });
+    }
+
+    const success = await EquipmentRegisterService.deleteEquipment(equipmentId);
+    if (!success) {
+      return res.status(404).json({ message: 'Equipment not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting equipment:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleRecordMeterReading: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const equipmentId = parseId(req.params.equipmentId);
+    if (equipmentId === null) {
+      return res.status(400).json({ message: 'Invalid equipment ID' });
+    }
+
+    const validation = meterReadingSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await EquipmentRegisterService.getEquipment(equipmentId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Equipment not found' });
+    }
+
+    const { hours } = validation.data;
+    if (hours < existing.hour_meter) {
+      return res.status(400).json({ message: `Hour meter cannot go backwards (currently ${existing.hour_meter})` });
+    }
+
+    const item = await EquipmentRegisterService.recordHours(existing, hours, 'manual', userId, req.app.locals.notificationService ?? null);
+    if (!item) {
+      return res.status(500).json({ message: 'Failed to record meter reading' });
+    }
+
+    res.status(201).json({ equipment: EquipmentRegisterService.withService(item) });
+  } catch (error) {
+    console.error('Error recording meter reading:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// A service resets both intervals from the hours and date it was done at
+export const handleRecordService: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const equipmentId = parseId(req.params.equipmentId);
+    if (equipmentId === null) {
+      return res.status(400).json({ message: 'Invalid equipment ID' });
+    }
+
+    const validation = serviceSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await EquipmentRegisterService.getEquipment(equipmentId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Equipment not found' });
+    }
+
+    const { description, performed_at, hours } = validation.data;
+    if (hours !== undefined && hours > existing.hour_meter) {
+      await EquipmentRegisterService.recordHours(existing, hours, 'service', userId, null);
+    }
+
+    const serviceHours = hours ?? existing.hour_meter;
+    const performedAt = performed_at ? toDate(performed_at) : toDate(new Date().toISOString());
+    const service = await EquipmentRegisterService.createService(equipmentId, {
+      description,
+      performed_at: performedAt,
+      hours: serviceHours,
+      performed_by: userId,
+    });
+    if (!service) {
+      return res.status(500).json({ message: 'Failed to record service' });
+    }
+
+    const item = await EquipmentRegisterService.updateEquipment(equipmentId, {
+      last_service_hours: serviceHours,
+      last_service_date: performedAt,
+      maintenance_notified_at: null,
+      status: existing.status === 'maintenance' ? (existing.project_id ? 'in_use' : 'available') : existing.status,
+    });
+
+    res.status(201).json({ service, equipment: item && EquipmentRegisterService.withService(item) });
+  } catch (error) {
+    console.error('Error recording service:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateCertificate: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const equipmentId = parseId(req.params.equipmentId);
+    if (equipmentId === null) {
+      return res.status(400).json({ message: 'Invalid equipment ID' });
+    }
+
+    const validation = certificateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    if (!(await EquipmentRegisterService.getEquipment(equipmentId))) {
+      return res.status(404).json({ message: 'Equipment not found' });
+    }
+
+    const certificateData = validation.data;
+    if (certificateData.file_id && !FileStorageService.getFileMetadata(certificateData.file_id)) {
+      return res.status(400).json({ message: 'Certificate file not found' });
+    }
+
+    const certificate = await EquipmentRegisterService.createCertificate(equipmentId, {
+      certificate_type: certificateData.certificate_type,
+      certificate_number: certificateData.certificate_number ?? null,
+      issued_date: certificateData.issued_date ? toDate(certificateData.issued_date) : null,
+      expiry_date: certificateData.expiry_date ? toDate(certificateData.expiry_date) : null,
+      file_id: certificateData.file_id ?? null,
+      created_by: userId,
+    });
+    if (!certificate) {
+      return res.status(500).json({ message: 'Failed to add certificate' });
+    }
+
+    res.status(201).json({ certificate: { ...certificate, state: certificateStatus(certificate.expiry_date) } });
+  } catch (error) {
+    console.error('Error adding certificate:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteCertificate: RequestHandler = async (req, res) => {
+  try {
+    const equipmentId = parseId(req.params.equipmentId);
+    const certificateId = parseId(req.params.certificateId);
+    if (equipmentId === null || certificateId === null) {
+      return res.status(400).json({ message: 'Invalid certificate ID' });
+    }
+
+    const certificates = await EquipmentRegisterService.getCertificates(equipmentId);
+    if (!certificates.some(c => c.id === certificateId)) {
+      return res.status(404).json({ message: 'Certificate not found' });
+    }
+
+    const success = await EquipmentRegisterService.deleteCertificate(equipmentId, certificateId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete certificate' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting certificate:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
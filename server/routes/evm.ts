@@ -0,0 +1,182 @@
+/**
+ * Earned Value Routes
+ * Time-phased baselines, actual-cost/progress snapshots and the derived
+ * PV/EV/AC indices for a project
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ProjectsService } from "../lib/projects-service";
+import { ScheduleService } from "../lib/schedule-service";
+import { EvmService } from "../lib/evm-service";
+import { BaselinePeriod, generateBaselinePeriods } from "../lib/evm";
+import { validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+
+// Validation schemas
+const createBaselineSchema = z.object({
+  name: z.string().min(1, "Baseline name is required"),
+  budget_at_completion: z.number().positive("Budget at completion must be positive").optional(),
+  periods: z.array(z.object({
+    date: z.string().refine(isValidDate, "Invalid date"),
+    plannedValue: z.number().min(0, "Planned value must be non-negative"),
+  })).min(2, "A baseline needs at least two periods").optional(),
+});
+
+const snapshotSchema = z.object({
+  snapshot_date: z.string().refine(isValidDate, "Invalid date").optional(),
+  actual_cost: z.number().min(0, "Actual cost must be non-negative"),
+  percent_complete: z.number().min(0).max(100, "Percent complete must be between 0 and 100"),
+  notes: z.string().optional(),
+});
+
+export const handleGetProjectEarnedValue: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const earnedValue = await EvmService.getProjectEarnedValue(projectId);
+    res.json({ earnedValue });
+  } catch (error) {
+    console.error('Error calculating earned value:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetBaselines: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const baselines = await EvmService.getBaselines(projectId);
+    res.json({ baselines });
+  } catch (error) {
+    console.error('Error fetching baselines:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateBaseline: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createBaselineSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const project = await ProjectsService.getProjectById(projectId, userId);
+    if (!project) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+
+    const { name } = validation.data;
+    const bac = validation.data.budget_at_completion ?? Number(project.budget);
+    let periods: BaselinePeriod[];
+
+    if (validation.data.periods) {
+      periods = [...validation.data.periods].sort((a, b) => a.date.localeCompare(b.date));
+      const decreasing = periods.some((period, i) => i > 0 && period.plannedValue < periods[i - 1].plannedValue);
+      if (decreasing) {
+        return res.status(400).json({ message: 'Planned value must be cumulative and never decrease' });
+      }
+      if (periods[periods.length - 1].plannedValue > bac) {
+        return res.status(400).json({ message: 'Planned value cannot exceed the budget at completion' });
+      }
+    } else {
+      // Spread the budget over the persisted schedule, or the project dates
+      const tasks = await ScheduleService.getTasks(projectId);
+      if (tasks.some(task => task.scheduled_start && task.duration > 0)) {
+        periods = generateBaselinePeriods(bac, { tasks });
+      } else if (project.start_date && project.end_date) {
+        periods = generateBaselinePeriods(bac, { startDate: project.start_date, endDate: project.end_date });
+      } else {
+        return res.status(400).json({
+          message: 'Provide baseline periods, or give the project a schedule or start and end dates first'
+        });
+      }
+    }
+
+    const baseline = await EvmService.createBaseline(projectId, {
+      name,
+      budget_at_completion: bac,
+      periods,
+      created_by: userId,
+    });
+    if (!baseline) {
+      return res.status(500).json({ message: 'Failed to create baseline' });
+    }
+
+    await EvmService.syncProjectIndices(projectId);
+
+    res.status(201).json({ baseline });
+  } catch (error) {
+    console.error('Error creating baseline:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetSnapshots: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const snapshots = await EvmService.getSnapshots(projectId);
+    res.json({ snapshots });
+  } catch (error) {
+    console.error('Error fetching EVM snapshots:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleRecordSnapshot: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = snapshotSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const { snapshot_date, actual_cost, percent_complete, notes } = validation.data;
+
+    // Recording a second snapshot for the same date replaces the first
+    const snapshot = await EvmService.recordSnapshot(projectId, {
+      snapshot_date: (snapshot_date || new Date().toISOString()).split('T')[0],
+      actual_cost,
+      percent_complete,
+      notes: notes || null,
+      recorded_by: userId,
+    });
+    if (!snapshot) {
+      return res.status(500).json({ message: 'Failed to record snapshot' });
+    }
+
+    const metrics = await EvmService.syncProjectIndices(projectId);
+
+    res.status(201).json({ snapshot, metrics });
+  } catch (error) {
+    console.error('Error recording EVM snapshot:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteSnapshot: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const snapshotId = parseInt(req.params.snapshotId);
+
+    if (isNaN(snapshotId)) {
+      return res.status(400).json({ message: 'Invalid snapshot ID' });
+    }
+
+    const success = await EvmService.deleteSnapshot(projectId, snapshotId);
+    if (!success) {
+      return res.status(404).json({ message: 'Snapshot not found' });
+    }
+
+    await EvmService.syncProjectIndices(projectId);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting EVM snapshot:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
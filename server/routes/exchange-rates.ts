@@ -0,0 +1,170 @@
+/**
+ * Exchange Rate Routes
+ * A locally maintained, company-wide table of exchange rates. Each rate takes
+ * effect on its date and holds until a later one for the same pair; reports
+ * convert at the rate in effect on the day they value.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ExchangeRatesService } from "../lib/exchange-rates-service";
+import { CURRENCIES, rateOn } from "../lib/currency";
+import { parseId, validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const toDate = (value: string) => value.split('T')[0];
+
+// Validation schemas
+const createRateSchema = z.object({
+  base_currency: z.enum(CURRENCIES),
+  quote_currency: z.enum(CURRENCIES),
+  rate: z.number().positive("Rate must be positive"),
+  effective_date: z.string().refine(isValidDate, "Invalid date"),
+}).refine(data => data.base_currency !== data.quote_currency, {
+  message: "Quote currency must differ from the base currency",
+  path: ['quote_currency'],
+});
+
+const updateRateSchema = z.object({
+  rate: z.number().positive("Rate must be positive").optional(),
+  effective_date: z.string().refine(isValidDate, "Invalid date").optional(),
+});
+
+const rateQuerySchema = z.object({
+  base: z.enum(CURRENCIES).optional(),
+  quote: z.enum(CURRENCIES).optional(),
+});
+
+const convertQuerySchema = z.object({
+  amount: z.coerce.number(),
+  from: z.enum(CURRENCIES),
+  to: z.enum(CURRENCIES),
+  date: z.string().refine(isValidDate, "Invalid date").optional(),
+});
+
+const DUPLICATE_RATE = 'There is already a rate for this pair on that date';
+
+export const handleGetExchangeRates: RequestHandler = async (req, res) => {
+  try {
+    const validation = rateQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const rates = await ExchangeRatesService.getExchangeRates(validation.data);
+    res.json({ rates, currencies: CURRENCIES });
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleConvertCurrency: RequestHandler = async (req, res) => {
+  try {
+    const validation = convertQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const { amount, from, to } = validation.data;
+    const date = toDate(validation.data.date ?? new Date().toISOString());
+    const rate = rateOn(await ExchangeRatesService.getExchangeRates(), from, to, date);
+    if (rate === null) {
+      return res.status(404).json({ message: `No exchange rate from ${from} to ${to} on ${date}` });
+    }
+
+    res.json({ amount, from, to, date, rate, converted: Math.round(amount * rate * 100) / 100 });
+  } catch (error) {
+    console.error('Error converting currency:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateExchangeRate: RequestHandler = async (req, res) => {
+  try {
+    const validation = createRateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const rateData = { ...validation.data, effective_date: toDate(validation.data.effective_date) };
+    const existing = await ExchangeRatesService.getExchangeRates({ base: rateData.base_currency, quote: rateData.quote_currency });
+    if (existing.some(r => toDate(r.effective_date) === rateData.effective_date)) {
+      return res.status(409).json({ message: DUPLICATE_RATE });
+    }
+
+    const rate = await ExchangeRatesService.createExchangeRate({ ...rateData, created_by: req.userId! });
+    if (!rate) {
+      return res.status(500).json({ message: 'Failed to create exchange rate' });
+    }
+
+    res.status(201).json({ rate });
+  } catch (error) {
+    console.error('Error creating exchange rate:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateExchangeRate: RequestHandler = async (req, res) => {
+  try {
+    const rateId = parseId(req.params.rateId);
+    if (rateId === null) {
+      return res.status(400).json({ message: 'Invalid exchange rate ID' });
+    }
+
+    const validation = updateRateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await ExchangeRatesService.getExchangeRate(rateId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Exchange rate not found' });
+    }
+
+    const updates = {
+      ...validation.data,
+      ...(validation.data.effective_date && { effective_date: toDate(validation.data.effective_date) }),
+    };
+    if (updates.effective_date && updates.effective_date !== toDate(existing.effective_date)) {
+      const pair = await ExchangeRatesService.getExchangeRates({ base: existing.base_currency, quote: existing.quote_currency });
+      if (pair.some(r => r.id !== rateId && toDate(r.effective_date) === updates.effective_date)) {
+        return res.status(409).json({ message: DUPLICATE_RATE });
+      }
+    }
+
+    const rate = await ExchangeRatesService.updateExchangeRate(rateId, updates);
+    if (!rate) {
+      return res.status(500).json({ message: 'Failed to update exchange rate' });
+    }
+
+    res.json({ rate });
+  } catch (error) {
+    console.error('Error updating exchange rate:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteExchangeRate: RequestHandler = async (req, res) => {
+  try {
+    const rateId = parseId(req.params.rateId);
+    if (rateId === null) {
+      return res.status(400).json({ message: 'Invalid exchange rate ID' });
+    }
+
+    const existing = await ExchangeRatesService.getExchangeRate(rateId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Exchange rate not found' });
+    }
+
+    const success = await ExchangeRatesService.deleteExchangeRate(rateId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete exchange rate' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -1,6 +1,9 @@
 import { RequestHandler } from "express";
 import multer from "multer";
 import { FileStorageService, FileMetadata } from "../lib/file-storage";
+import { ProjectMembersService } from "../lib/project-members-service";
+import { ProjectFoldersService } from "../lib/project-folders-service";
+import { normalizeFolderPath } from "../lib/templates";
 import { authenticateToken } from "./auth";
 import { z } from "zod";
 
@@ -15,8 +18,17 @@ const upload = multer({
 // Validation schema
 const getFilesSchema = z.object({
   projectId: z.string().optional(),
+  folder: z.string().optional(),
 });
 
+const createFolderSchema = z.object({
+  path: z.string().min(1, "Folder path is required").max(900),
+});
+
+// Inside the folder itself or any of its subfolders
+const isWithinFolder = (path: string | undefined, folder: string) =>
+  path !== undefined && (path === folder || path.startsWith(`${folder}/`));
+
 export const handleUploadFile: RequestHandler = async (req, res) => {
   try {
     const userId = req.userId!;
@@ -26,12 +38,32 @@ export const handleUploadFile: RequestHandler = async (req, res) => {
       return res.status(400).json({ message: 'No file provided' });
     }
 
+    if (projectId !== undefined) {
+      if (isNaN(projectId)) {
+        return res.status(400).json({ message: 'Invalid project ID' });
+      }
+      if (!(await ProjectMembersService.hasAccess(projectId, userId, 'edit'))) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+    }
+
+    // Folders belong to a project and have to be created before files go in them
+    let folder: string | undefined;
+    if (req.body.folder) {
+      folder = normalizeFolderPath(String(req.body.folder)) ?? undefined;
+      const folders = projectId !== undefined ? await ProjectFoldersService.getFolders(projectId) : [];
+      if (!folder || !folders.some(f => f.path === folder)) {
+        return res.status(400).json({ message: 'Unknown folder' });
+      }
+    }
+
     const metadata = await FileStorageService.uploadFile(
       req.file.buffer,
       req.file.originalname,
       req.file.mimetype,
       userId,
-      projectId
+      projectId,
+      folder
     );
 
     res.status(201).json({ file: metadata });
@@ -54,10 +86,20 @@ export const handleGetFiles: RequestHandler = async (req, res) => {
       return res.status(400).json({ message: 'Invalid query parameters' });
     }
 
-    const { projectId } = validation.data;
+    const { projectId, folder } = validation.data;
     const projectIdNumber = projectId ? parseInt(projectId) : undefined;
 
-    const files = FileStorageService.getUserFiles(userId, projectIdNumber);
+    if (projectIdNumber !== undefined) {
+      // Project members see every file on the project, not just their own uploads
+      if (isNaN(projectIdNumber) || !(await ProjectMembersService.hasAccess(projectIdNumber, userId, 'view'))) {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+      const files = FileStorageService.getProjectFiles(projectIdNumber);
+      const folderPath = folder ? normalizeFolderPath(folder) : null;
+      return res.json({ files: folderPath ? files.filter(f => f.folder === folderPath) : files });
+    }
+
+    const files = FileStorageService.getUserFiles(userId);
     res.json({ files });
   } catch (error) {
     console.error('Error fetching files:', error);
@@ -75,8 +117,11 @@ export const handleGetFile: RequestHandler = async (req, res) => {
       return res.status(404).json({ message: 'File not found' });
     }
 
-    // Check if user owns the file
-    if (fileData.metadata.userId !== userId) {
+    // Uploaders can always read their files; project files are readable by project members
+    const { metadata } = fileData;
+    const canRead = metadata.userId === userId ||
+      (metadata.projectId !== undefined && await ProjectMembersService.hasAccess(metadata.projectId, userId, 'view'));
+    if (!canRead) {
       return res.status(403).json({ message: 'Access denied' });
     }
 
@@ -97,7 +142,19 @@ export const handleDeleteFile: RequestHandler = async (req, res) => {
     const userId = req.userId!;
     const fileId = req.params.id;
 
-    const success = await FileStorageService.deleteFile(fileId, userId);
+    const metadata = FileStorageService.getFileMetadata(fileId);
+    if (!metadata) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    // Project owners and managers may remove files uploaded by other members
+    const canDelete = metadata.userId === userId ||
+      (metadata.projectId !== undefined && await ProjectMembersService.hasAccess(metadata.projectId, userId, 'manage'));
+    if (!canDelete) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const success = await FileStorageService.deleteFile(fileId);
     if (!success) {
       return res.status(404).json({ message: 'File not found' });
     }
@@ -118,7 +175,7 @@ export const handleGetProjectFiles: RequestHandler = async (req, res) => {
       return res.status(400).json({ message: 'Invalid project ID' });
     }
 
-    const files = FileStorageService.getProjectFiles(projectId, userId);
+    const files = FileStorageService.getProjectFiles(projectId);
     res.json({ files });
   } catch (error) {
     console.error('Error fetching project files:', error);
@@ -126,5 +183,83 @@ export const handleGetProjectFiles: RequestHandler = async (req, res) => {
   }
 };
 
+export const handleGetProjectFolders: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId);
+
+    if (isNaN(projectId)) {
+      return res.status(400).json({ message: 'Invalid project ID' });
+    }
+
+    const folders = await ProjectFoldersService.getFolders(projectId);
+    res.json({ folders });
+  } catch (error) {
+    console.error('Error fetching project folders:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateProjectFolder: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.projectId);
+
+    if (isNaN(projectId)) {
+      return res.status(400).json({ message: 'Invalid project ID' });
+    }
+
+    const validation = createFolderSchema.safeParse(req.body);
+    const path = validation.success ? normalizeFolderPath(validation.data.path) : null;
+    if (!path) {
+      return res.status(400).json({ errors: [{ message: 'Invalid folder path', field: 'path' }] });
+    }
+
+    // Missing parent folders are created along the way
+    const created = await ProjectFoldersService.createFolders(projectId, [path], userId);
+    if (!created) {
+      return res.status(500).json({ message: 'Failed to create folder' });
+    }
+
+    const folders = await ProjectFoldersService.getFolders(projectId);
+    res.status(201).json({ folder: folders.find(f => f.path === path), folders });
+  } catch (error) {
+    console.error('Error creating project folder:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteProjectFolder: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.projectId);
+    const folderId = parseInt(req.params.folderId);
+
+    if (isNaN(projectId) || isNaN(folderId)) {
+      return res.status(400).json({ message: 'Invalid folder ID' });
+    }
+
+    const folders = await ProjectFoldersService.getFolders(projectId);
+    const folder = folders.find(f => f.id === folderId);
+    if (!folder) {
+      return res.status(404).json({ message: 'Folder not found' });
+    }
+
+    const hasSubfolders = folders.some(f => f.id !== folderId && isWithinFolder(f.path, folder.path));
+    const hasFiles = FileStorageService.getProjectFiles(projectId).some(f => isWithinFolder(f.folder, folder.path));
+    if (hasSubfolders || hasFiles) {
+      return res.status(409).json({ message: 'Folder is not empty' });
+    }
+
+    const success = await ProjectFoldersService.deleteFolder(projectId, folderId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete folder' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting project folder:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
 // Export multer middleware
 export { upload };
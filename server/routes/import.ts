@@ -0,0 +1,260 @@
+/**
+ * Import Routes
+ * Bulk-create projects, or materials in a project, from a CSV or XLSX file.
+ * The preview suggests a column mapping and reports per-row errors; the
+ * commit takes the same file and mapping and creates every row or none.
+ */
+
+import { RequestHandler, Request, Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { createMaterialSchema, createProjectSchema } from "./projects";
+import { ImportService, MaterialImportRow, ProjectImportRow } from "../lib/import-service";
+import { SuppliersService } from "../lib/suppliers-service";
+import { AuditService } from "../lib/audit-service";
+import { auditMetadata, diffFields, MATERIAL_AUDIT_FIELDS, PROJECT_AUDIT_FIELDS } from "../lib/audit";
+import {
+  IMPORT_FIELDS,
+  ImportEntity,
+  ImportError,
+  ImportMapping,
+  mapRows,
+  mappingErrors,
+  parseSpreadsheet,
+  RowError,
+  Spreadsheet,
+  suggestMapping,
+} from "../lib/import";
+import { parseId } from "../lib/validation";
+
+const PREVIEW_ROWS = 20;
+
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+});
+
+const importProjectSchema = createProjectSchema.omit({ template_id: true });
+
+const mappingSchema = z.record(z.string(), z.number().int().nullable());
+
+interface ValidatedRow<T> {
+  row: number;
+  data: Partial<T>;
+  errors: RowError[];
+}
+
+interface ImportRequest {
+  sheet: Spreadsheet;
+  mapping: ImportMapping;
+}
+
+// Reads the uploaded file and the mapping form field, or answers the request with a 400
+const readImportRequest = (req: Request, res: Response, entity: ImportEntity, mappingRequired: boolean): ImportRequest | null => {
+  if (!req.file) {
+    res.status(400).json({ message: 'No file provided' });
+    return null;
+  }
+
+  let sheet: Spreadsheet;
+  try {
+    sheet = parseSpreadsheet(req.file.buffer, req.file.originalname);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      res.status(400).json({ message: error.message });
+      return null;
+    }
+    throw error;
+  }
+
+  let mapping = suggestMapping(entity, sheet.headers);
+  if (req.body.mapping) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(req.body.mapping);
+    } catch {
+      parsed = null;
+    }
+    const validation = mappingSchema.safeParse(parsed);
+    if (!validation.success) {
+      res.status(400).json({ errors: [{ message: 'Mapping must map field names to column numbers', field: 'mapping' }] });
+      return null;
+    }
+    mapping = validation.data;
+  } else if (mappingRequired) {
+    res.status(400).json({ errors: [{ message: 'Mapping is required', field: 'mapping' }] });
+    return null;
+  }
+
+  const errors = mappingErrors(entity, mapping, sheet.headers.length);
+  if (mappingRequired && errors.length > 0) {
+    res.status(400).json({ errors: errors.map(message => ({ message, field: 'mapping' })) });
+    return null;
+  }
+
+  return { sheet, mapping };
+};
+
+// Schema errors for fields that didn't already fail to parse
+const schemaErrors = (row: number, issues: z.core.$ZodIssue[], existing: RowError[]): RowError[] =>
+  issues
+    .map(issue => ({ row, field: String(issue.path[0] ?? ''), message: issue.message }))
+    .filter(error => !existing.some(e => e.field === error.field));
+
+const validateProjects = ({ sheet, mapping }: ImportRequest): ValidatedRow<ProjectImportRow>[] =>
+  mapRows('projects', sheet.rows, mapping).map(({ row, data, errors }) => {
+    const validation = importProjectSchema.safeParse(data);
+    return validation.success && errors.length === 0
+      ? { row, data: validation.data, errors }
+      : { row, data, errors: [...errors, ...(validation.success ? [] : schemaErrors(row, validation.error.issues, errors))] };
+  });
+
+// Suppliers can be given by ID or by name; each is looked up once
+const validateMaterials = async ({ sheet, mapping }: ImportRequest): Promise<ValidatedRow<MaterialImportRow>[]> => {
+  const suppliers = new Map<string, number | null>();
+  const resolveSupplier = async (value: string) => {
+    const key = value.toLowerCase();
+    if (!suppliers.has(key)) {
+      const supplier = /^\d+$/.test(value)
+        ? await SuppliersService.getSupplier(parseInt(value))
+        : await SuppliersService.findSupplierByName(value);
+      suppliers.set(key, supplier && supplier.is_active ? supplier.id : null);
+    }
+    return suppliers.get(key)!;
+  };
+
+  const validated: ValidatedRow<MaterialImportRow>[] = [];
+  for (const { row, data, errors } of mapRows('materials', sheet.rows, mapping)) {
+    const { supplier, ...fields } = data;
+    const input: Record<string, unknown> = { ...fields };
+    if (supplier !== undefined) {
+      const supplierId = await resolveSupplier(String(supplier));
+      if (supplierId === null) {
+        errors.push({ row, field: 'supplier', message: `Unknown or inactive supplier "${supplier}"` });
+      } else {
+        input.supplier_id = supplierId;
+      }
+    }
+
+    const validation = createMaterialSchema.safeParse(input);
+    const issues = validation.success ? [] : schemaErrors(row, validation.error.issues, errors)
+      .filter(error => error.field !== 'supplier_id');
+    validated.push(validation.success && errors.length === 0
+      ? { row, data: validation.data, errors }
+      : { row, data: input as Partial<MaterialImportRow>, errors: [...errors, ...issues] });
+  }
+  return validated;
+};
+
+const previewResponse = <T>(entity: ImportEntity, { sheet, mapping }: ImportRequest, rows: ValidatedRow<T>[]) => ({
+  entity,
+  headers: sheet.headers,
+  fields: IMPORT_FIELDS[entity].map(({ key, label, type, required }) => ({ key, label, type, required })),
+  mapping,
+  mapping_errors: mappingErrors(entity, mapping, sheet.headers.length),
+  total_rows: rows.length,
+  valid_rows: rows.filter(r => r.errors.length === 0).length,
+  errors: rows.flatMap(r => r.errors),
+  preview: rows.slice(0, PREVIEW_ROWS),
+});
+
+export const handlePreviewProjectImport: RequestHandler = async (req, res) => {
+  try {
+    const request = readImportRequest(req, res, 'projects', false);
+    if (!request) return;
+
+    res.json(previewResponse('projects', request, validateProjects(request)));
+  } catch (error) {
+    console.error('Error previewing project import:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCommitProjectImport: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const request = readImportRequest(req, res, 'projects', true);
+    if (!request) return;
+
+    const rows = validateProjects(request);
+    const errors = rows.flatMap(r => r.errors);
+    if (rows.length === 0 || errors.length > 0) {
+      return res.status(422).json({ message: 'Nothing was imported; fix the errors and try again', errors });
+    }
+
+    const projects = await ImportService.importProjects(rows.map(r => r.data as ProjectImportRow), userId);
+    if (!projects) {
+      return res.status(500).json({ message: 'Import failed and was rolled back' });
+    }
+
+    const metadata = auditMetadata(req);
+    for (const project of projects) {
+      await AuditService.record(
+        userId,
+        { type: 'project', id: project.id, project_id: project.id },
+        'create',
+        diffFields(null, project, PROJECT_AUDIT_FIELDS),
+        metadata
+      );
+    }
+
+    res.status(201).json({ imported: projects.length, projects });
+  } catch (error) {
+    console.error('Error importing projects:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handlePreviewMaterialImport: RequestHandler = async (req, res) => {
+  try {
+    const request = readImportRequest(req, res, 'materials', false);
+    if (!request) return;
+
+    res.json(previewResponse('materials', request, await validateMaterials(request)));
+  } catch (error) {
+    console.error('Error previewing material import:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCommitMaterialImport: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseId(req.params.id);
+    if (projectId === null) {
+      return res.status(400).json({ message: 'Invalid project ID' });
+    }
+
+    const request = readImportRequest(req, res, 'materials', true);
+    if (!request) return;
+
+    const rows = await validateMaterials(request);
+    const errors = rows.flatMap(r => r.errors);
+    if (rows.length === 0 || errors.length > 0) {
+      return res.status(422).json({ message: 'Nothing was imported; fix the errors and try again', errors });
+    }
+
+    const materials = await ImportService.importMaterials(projectId, rows.map(r => r.data as MaterialImportRow), userId);
+    if (!materials) {
+      return res.status(500).json({ message: 'Import failed and was rolled back' });
+    }
+
+    const metadata = auditMetadata(req);
+    for (const material of materials) {
+      await AuditService.record(
+        userId,
+        { type: 'material', id: material.id, project_id: projectId },
+        'create',
+        diffFields(null, material, MATERIAL_AUDIT_FIELDS),
+        metadata
+      );
+    }
+
+    res.status(201).json({ imported: materials.length, materials });
+  } catch (error) {
+    console.error('Error importing materials:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
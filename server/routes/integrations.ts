@@ -1,10 +1,8 @@
 import { RequestHandler } from "express";
 import { z } from "zod";
 import { authenticateToken } from "./auth";
-
-// Weather API Integration
-const WEATHER_API_KEY = process.env.WEATHER_API_KEY || 'demo-key';
-const WEATHER_BASE_URL = 'https://api.openweathermap.org/data/2.5';
+import { fetchWeather, isDemoWeather } from "../lib/weather";
+import { CalendarService } from "../lib/calendar-service";
 
 // Email Service Integration (using Resend as example)
 const EMAIL_API_KEY = process.env.EMAIL_API_KEY || 'demo-key';
@@ -49,40 +47,7 @@ export const handleGetWeather: RequestHandler = async (req, res) => {
 
     const { lat, lon, units } = validation.data;
 
-    // In production, use real API
-    if (WEATHER_API_KEY === 'demo-key') {
-      // Mock weather data for development
-      const mockWeather = {
-        location: { lat, lon },
-        current: {
-          temperature: Math.round(Math.random() * 30 + 10),
-          humidity: Math.round(Math.random() * 40 + 30),
-          windSpeed: Math.round(Math.random() * 20 + 5),
-          condition: ['Clear', 'Cloudy', 'Rain', 'Sunny'][Math.floor(Math.random() * 4)],
-          icon: '01d'
-        },
-        forecast: Array.from({ length: 5 }, (_, i) => ({
-          date: new Date(Date.now() + i * 24 * 60 * 60 * 1000).toISOString(),
-          temperature: Math.round(Math.random() * 30 + 10),
-          condition: ['Clear', 'Cloudy', 'Rain', 'Sunny'][Math.floor(Math.random() * 4)],
-          precipitation: Math.round(Math.random() * 100)
-        })),
-        alerts: []
-      };
-
-      return res.json(mockWeather);
-    }
-
-    // Real API call
-    const weatherResponse = await fetch(
-      `${WEATHER_BASE_URL}/weather?lat=${lat}&lon=${lon}&units=${units}&appid=${WEATHER_API_KEY}`
-    );
-
-    if (!weatherResponse.ok) {
-      throw new Error('Weather API request failed');
-    }
-
-    const weatherData = await weatherResponse.json();
+    const weatherData = await fetchWeather({ lat, lon }, units);
     res.json(weatherData);
 
   } catch (error) {
@@ -234,33 +199,26 @@ export const handleGetLocation: RequestHandler = async (req, res) => {
 };
 
 // Calendar Integration
+const calendarQuerySchema = z.object({
+  startDate: z.string().refine(value => !isNaN(new Date(value).getTime()), "Invalid start date").optional(),
+  endDate: z.string().refine(value => !isNaN(new Date(value).getTime()), "Invalid end date").optional(),
+});
+
 export const handleGetCalendarEvents: RequestHandler = async (req, res) => {
   try {
-    const { startDate, endDate } = req.query;
-    
-    // Mock calendar events
-    const mockEvents = [
-      {
-        id: '1',
-        title: 'Project Review Meeting',
-        start: new Date().toISOString(),
-        end: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
-        type: 'meeting',
-        location: 'Conference Room A',
-        attendees: ['john@example.com', 'jane@example.com']
-      },
-      {
-        id: '2',
-        title: 'Material Delivery',
-        start: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-        end: new Date(Date.now() + 24 * 60 * 60 * 1000 + 60 * 60 * 1000).toISOString(),
-        type: 'delivery',
-        location: 'Construction Site',
-        attendees: ['supplier@example.com']
-      }
-    ];
+    const validation = calendarQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        errors: validation.error.issues.map(err => ({
+          message: err.message,
+          field: err.path[0] as string,
+        }))
+      });
+    }
 
-    res.json({ events: mockEvents });
+    const { startDate, endDate } = validation.data;
+    const events = await CalendarService.getUserEvents(req.userId!, { from: startDate, to: endDate });
+    res.json({ events });
 
   } catch (error) {
     console.error('Calendar API error:', error);
@@ -315,7 +273,7 @@ export const handleSystemHealth: RequestHandler = async (req, res) => {
         database: 'connected',
         email: EMAIL_API_KEY !== 'demo-key' ? 'connected' : 'demo',
         sms: SMS_API_KEY !== 'demo-key' ? 'connected' : 'demo',
-        weather: WEATHER_API_KEY !== 'demo-key' ? 'connected' : 'demo'
+        weather: isDemoWeather() ? 'demo' : 'connected'
       },
       uptime: process.uptime(),
       memory: process.memoryUsage(),
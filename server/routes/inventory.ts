@@ -0,0 +1,339 @@
+/**
+ * Inventory Routes
+ * Material stock ledger, purchase orders and goods received. Stock on hand
+ * and material status are derived from the ledger, never sent by clients.
+ */
+
+import { Request, RequestHandler } from "express";
+import { z } from "zod";
+import { ProjectsService } from "../lib/projects-service";
+import { ProjectMembersService, canPerformProjectAction } from "../lib/project-members-service";
+import { InventoryService, StockChange } from "../lib/inventory-service";
+import { SuppliersService } from "../lib/suppliers-service";
+import { TimesheetService } from "../lib/timesheets-service";
+import { PURCHASE_ORDER_STATUSES, stockAlert, stockEffect } from "../lib/inventory";
+import { parseId, validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const today = () => new Date().toISOString().split('T')[0];
+
+// Validation schemas
+const purchaseOrderQuerySchema = z.object({
+  status: z.enum(PURCHASE_ORDER_STATUSES).optional(),
+});
+
+const transactionSchema = z.object({
+  type: z.enum(['received', 'consumed', 'returned', 'adjusted']),
+  quantity: z.number().refine(q => q !== 0, "Quantity cannot be zero"),
+  unit_cost: z.number().min(0).optional(),
+  reference: z.string().max(255).optional(),
+  notes: z.string().optional(),
+}).refine(t => t.type === 'adjusted' || t.quantity > 0, {
+  message: "Quantity must be positive; use an adjustment to correct stock downwards",
+  path: ['quantity'],
+});
+
+const createPurchaseOrderSchema = z.object({
+  material_id: z.number().int(),
+  supplier_id: z.number().int().optional(),
+  cost_code_id: z.number().int().nullable().optional(),
+  quantity_ordered: z.number().positive("Quantity must be positive"),
+  unit_cost: z.number().min(0, "Unit cost must be non-negative"),
+  order_date: z.string().refine(isValidDate, "Invalid date").optional(),
+  expected_delivery_date: z.string().refine(isValidDate, "Invalid date"),
+  notes: z.string().optional(),
+});
+
+const updatePurchaseOrderSchema = z.object({
+  supplier_id: z.number().int().optional(),
+  cost_code_id: z.number().int().nullable().optional(),
+  unit_cost: z.number().min(0).optional(),
+  expected_delivery_date: z.string().refine(isValidDate, "Invalid date").optional(),
+  notes: z.string().optional(),
+  status: z.literal('cancelled').optional(),
+});
+
+const receiveGoodsSchema = z.object({
+  quantity: z.number().positive("Quantity must be positive"),
+  received_date: z.string().refine(isValidDate, "Invalid date").optional(),
+  delivery_note: z.string().max(255).optional(),
+});
+
+const isActiveSupplier = async (supplierId: number) => {
+  const supplier = await SuppliersService.getSupplier(supplierId);
+  return !!supplier && supplier.is_active;
+};
+
+/**
+ * Alert the project's owner and managers when a stock movement pushes a
+ * material into the low or critical band.
+ */
+export async function notifyStockThreshold(req: Request, change: StockChange) {
+  const alert = stockAlert(change.previousStatus, change.material.status);
+
+  const notificationService = req.app.locals.notificationService;
+  if (!alert || !notificationService) return;
+
+  const { material } = change;
+  const [project, members] = await Promise.all([
+    ProjectsService.getProjectById(material.project_id, req.userId!),
+    ProjectMembersService.getProjectMembers(material.project_id),
+  ]);
+  const projectName = project?.name || 'a project';
+
+  for (const member of members.filter(m => canPerformProjectAction(m.role, 'manage'))) {
+    if (alert === 'critical') {
+      notificationService.notifyMaterialCriticalStock(member.user_id, material.name, projectName, material.project_id, material.id);
+    } else {
+      notificationService.notifyMaterialLowStock(member.user_id, material.name, projectName, material.project_id, material.id);
+    }
+  }
+}
+
+// Stock ledger
+export const handleGetMaterialTransactions: RequestHandler = async (req, res) => {
+  try {
+    const materialId = parseId(req.params.materialId);
+    if (materialId === null) {
+      return res.status(400).json({ message: 'Invalid material ID' });
+    }
+    const [material, transactions] = await Promise.all([
+      InventoryService.getMaterial(materialId),
+      InventoryService.getTransactions(materialId),
+    ]);
+
+    res.json({ material, transactions });
+  } catch (error) {
+    console.error('Error fetching material transactions:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleRecordMaterialTransaction: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const materialId = parseId(req.params.materialId);
+    if (materialId === null) {
+      return res.status(400).json({ message: 'Invalid material ID' });
+    }
+
+    const validation = transactionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const material = await InventoryService.getMaterial(materialId);
+    if (!material) {
+      return res.status(404).json({ message: 'Material not found' });
+    }
+
+    const { type, quantity } = validation.data;
+    const onHand = Number(material.current_stock);
+    if (onHand + stockEffect(type, quantity) < 0) {
+      return res.status(400).json({ message: `Insufficient stock: only ${onHand} on hand` });
+    }
+
+    const result = await InventoryService.recordTransaction(material, validation.data, userId);
+    if (!result) {
+      return res.status(500).json({ message: 'Failed to record transaction' });
+    }
+
+    await notifyStockThreshold(req, result);
+
+    res.status(201).json({ transaction: result.transaction, material: result.material });
+  } catch (error) {
+    console.error('Error recording material transaction:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Purchase orders
+export const handleGetPurchaseOrders: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const query = purchaseOrderQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+
+    const purchaseOrders = await InventoryService.getPurchaseOrders(projectId, query.data.status);
+    res.json({ purchaseOrders });
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetPurchaseOrder: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const orderId = parseId(req.params.orderId);
+    if (orderId === null) {
+      return res.status(400).json({ message: 'Invalid purchase order ID' });
+    }
+
+    const purchaseOrder = await InventoryService.getPurchaseOrder(projectId, orderId);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+
+    res.json({ purchaseOrder });
+  } catch (error) {
+    console.error('Error fetching purchase order:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreatePurchaseOrder: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createPurchaseOrderSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const orderData = validation.data;
+    const material = await InventoryService.getMaterial(orderData.material_id);
+    if (!material || material.project_id !== projectId) {
+      return res.status(404).json({ message: 'Material not found in this project' });
+    }
+
+    const orderDate = (orderData.order_date || today()).split('T')[0];
+    const expectedDate = orderData.expected_delivery_date.split('T')[0];
+    if (expectedDate < orderDate) {
+      return res.status(400).json({ message: 'Expected delivery date cannot be before the order date' });
+    }
+
+    // Orders go to the material's usual supplier unless another is named
+    const supplierId = orderData.supplier_id ?? material.supplier_id;
+    if (!supplierId || !(await isActiveSupplier(supplierId))) {
+      return res.status(400).json({ errors: [{ message: 'Unknown or inactive supplier', field: 'supplier_id' }] });
+    }
+
+    // Charged to the material's cost code unless the order names another
+    const costCodeId = orderData.cost_code_id !== undefined ? orderData.cost_code_id : material.cost_code_id;
+    if (costCodeId !== null && !(await TimesheetService.getCostCode(projectId, costCodeId))) {
+      return res.status(400).json({ errors: [{ message: 'Unknown cost code', field: 'cost_code_id' }] });
+    }
+
+    const purchaseOrder = await InventoryService.createPurchaseOrder(projectId, {
+      material_id: material.id,
+      supplier_id: supplierId,
+      cost_code_id: costCodeId,
+      quantity_ordered: orderData.quantity_ordered,
+      unit_cost: orderData.unit_cost,
+      order_date: orderDate,
+      expected_delivery_date: expectedDate,
+      notes: orderData.notes || null,
+    }, userId);
+
+    if (!purchaseOrder) {
+      return res.status(500).json({ message: 'Failed to create purchase order' });
+    }
+
+    res.status(201).json({ purchaseOrder });
+  } catch (error) {
+    console.error('Error creating purchase order:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdatePurchaseOrder: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const orderId = parseId(req.params.orderId);
+    if (orderId === null) {
+      return res.status(400).json({ message: 'Invalid purchase order ID' });
+    }
+
+    const validation = updatePurchaseOrderSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await InventoryService.getPurchaseOrder(projectId, orderId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+    if (existing.status === 'received' || existing.status === 'cancelled') {
+      return res.status(409).json({ message: `Purchase order is already ${existing.status}` });
+    }
+
+    const updates = { ...validation.data };
+    if (updates.supplier_id !== undefined && !(await isActiveSupplier(updates.supplier_id))) {
+      return res.status(400).json({ errors: [{ message: 'Unknown or inactive supplier', field: 'supplier_id' }] });
+    }
+    if (updates.cost_code_id && !(await TimesheetService.getCostCode(projectId, updates.cost_code_id))) {
+      return res.status(400).json({ errors: [{ message: 'Unknown cost code', field: 'cost_code_id' }] });
+    }
+    if (updates.expected_delivery_date) {
+      updates.expected_delivery_date = updates.expected_delivery_date.split('T')[0];
+      if (updates.expected_delivery_date < existing.order_date) {
+        return res.status(400).json({ message: 'Expected delivery date cannot be before the order date' });
+      }
+    }
+
+    const purchaseOrder = await InventoryService.updatePurchaseOrder(orderId, updates);
+    if (!purchaseOrder) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+
+    res.json({ purchaseOrder });
+  } catch (error) {
+    console.error('Error updating purchase order:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleReceiveGoods: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const orderId = parseId(req.params.orderId);
+    if (orderId === null) {
+      return res.status(400).json({ message: 'Invalid purchase order ID' });
+    }
+
+    const validation = receiveGoodsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const order = await InventoryService.getPurchaseOrder(projectId, orderId);
+    if (!order) {
+      return res.status(404).json({ message: 'Purchase order not found' });
+    }
+    if (order.status === 'received' || order.status === 'cancelled') {
+      return res.status(409).json({ message: `Purchase order is already ${order.status}` });
+    }
+
+    const { quantity, received_date, delivery_note } = validation.data;
+    const outstanding = Number(order.quantity_ordered) - Number(order.quantity_received);
+    if (quantity > outstanding) {
+      return res.status(400).json({ message: `Quantity exceeds the ${outstanding} still outstanding on this order` });
+    }
+
+    const result = await InventoryService.receiveGoods(order, {
+      quantity,
+      received_date: (received_date || today()).split('T')[0],
+      delivery_note: delivery_note || null,
+    }, userId);
+
+    if (!result) {
+      return res.status(500).json({ message: 'Failed to record goods received' });
+    }
+
+    await notifyStockThreshold(req, result);
+
+    res.status(201).json({
+      receipt: result.receipt,
+      purchaseOrder: result.purchaseOrder,
+      material: result.material,
+    });
+  } catch (error) {
+    console.error('Error recording goods received:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
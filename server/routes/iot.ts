@@ -1,6 +1,12 @@
 import { RequestHandler } from "express";
+import { randomBytes } from "crypto";
 import { z } from "zod";
 import { authenticateToken } from "./auth";
+import { Equipment, EquipmentRegisterService, hashIngestKey } from "../lib/equipment-service";
+import { calculateUtilization, serviceStatus } from "../lib/equipment";
+import { NotificationService } from "../lib/notifications";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // Validation schemas
 const iotDeviceSchema = z.object({
@@ -50,21 +56,36 @@ export const handleRegisterIoTDevice: RequestHandler = async (req, res) => {
     }
 
     const deviceData = validation.data;
-    
-    // Register IoT device
+    if (await EquipmentRegisterService.getIotDevice(deviceData.deviceId)) {
+      return res.status(409).json({ message: 'Device is already registered' });
+    }
+
+    // The ingest key is only shown once; telemetry must send it as X-Device-Key
+    const ingestKey = randomBytes(24).toString('hex');
+    const registered = await EquipmentRegisterService.createIotDevice({
+      device_id: deviceData.deviceId,
+      device_type: deviceData.deviceType,
+      location: deviceData.location,
+      capabilities: deviceData.capabilities,
+      status: deviceData.status,
+      ingest_key_hash: hashIngestKey(ingestKey),
+      registered_by: userId,
+    });
+    if (!registered) {
+      return res.status(500).json({ message: 'Device registration failed' });
+    }
+
     const device = {
-      id: `device_${Date.now()}`,
+      id: registered.device_id,
       userId,
       ...deviceData,
-      registeredAt: new Date().toISOString(),
-      lastSeen: new Date().toISOString(),
-      firmwareVersion: '2.1.3',
-      batteryLevel: 100,
-      signalStrength: 100
+      registeredAt: registered.created_at,
+      lastSeen: registered.last_seen_at,
     };
     
     res.status(201).json({
       device,
+      ingestKey,
       message: 'IoT device registered successfully'
     });
 
@@ -89,8 +110,19 @@ export const handleIoTDataIngestion: RequestHandler = async (req, res) => {
     }
 
     const { deviceId, timestamp, data, quality } = validation.data;
+
+    // Registered devices must authenticate; their telemetry drives linked equipment
+    const device = await EquipmentRegisterService.getIotDevice(deviceId);
+    let equipment = null;
+    if (device) {
+      const key = req.get('X-Device-Key');
+      if (!key || hashIngestKey(key) !== device.ingest_key_hash) {
+        return res.status(401).json({ message: 'Invalid device key' });
+      }
+      await EquipmentRegisterService.touchIotDevice(deviceId);
+      equipment = await applyEquipmentTelemetry(deviceId, data, timestamp, req.app.locals.notificationService ?? null);
+    }
     
-    // Mock IoT data processing
     const processedData = await processIoTData(deviceId, data, quality);
     
     res.json({
@@ -98,6 +130,7 @@ export const handleIoTDataIngestion: RequestHandler = async (req, res) => {
       deviceId,
       processed: processedData,
       alerts: processedData.alerts || [],
+      equipment,
       timestamp: new Date().toISOString()
     });
 
@@ -175,20 +208,22 @@ export const handleIoTDashboard: RequestHandler = async (req, res) => {
 // Smart Equipment Monitoring
 export const handleEquipmentMonitoring: RequestHandler = async (req, res) => {
   try {
-    const userId = req.userId!;
-    const { equipmentId } = req.params;
-    
-    // Mock equipment monitoring data
-    const equipmentData = await generateEquipmentMonitoring(userId, equipmentId);
+    const equipmentId = parseInt(req.params.equipmentId);
+    const item = isNaN(equipmentId) ? null : await EquipmentRegisterService.getEquipment(equipmentId);
+    if (!item) {
+      return res.status(404).json({ message: 'Equipment not found' });
+    }
+
+    const equipmentData = await generateEquipmentMonitoring(item);
     
     res.json({
-      equipmentId,
+      equipmentId: item.id,
       status: equipmentData.status,
       metrics: equipmentData.metrics,
       maintenance: equipmentData.maintenance,
       utilization: equipmentData.utilization,
       alerts: equipmentData.alerts,
-      lastUpdated: new Date().toISOString()
+      lastUpdated: item.updated_at
     });
 
   } catch (error) {
@@ -387,39 +422,62 @@ async function generateIoTDashboard(userId: string, projectId?: string, timeRang
   };
 }
 
-async function generateEquipmentMonitoring(userId: string, equipmentId: string) {
+/**
+ * Telemetry reports either a cumulative `hourMeter` reading or the
+ * `runtimeHours` run since the last message.
+ */
+async function applyEquipmentTelemetry(deviceId: string, data: Record<string, any>, timestamp: string, notificationService: NotificationService | null) {
+  const item = await EquipmentRegisterService.getEquipmentByDevice(deviceId);
+  if (!item) return null;
+
+  const hours = typeof data.hourMeter === 'number' ? data.hourMeter
+    : typeof data.runtimeHours === 'number' && data.runtimeHours > 0 ? item.hour_meter + data.runtimeHours
+    : null;
+  if (hours === null || hours <= item.hour_meter) {
+    return { id: item.id, hourMeter: item.hour_meter, service: serviceStatus(item) };
+  }
+
+  const updated = await EquipmentRegisterService.recordHours(item, Math.round(hours * 10) / 10, 'telemetry', null, notificationService, timestamp);
+  const current = updated || item;
+  return { id: current.id, hourMeter: current.hour_meter, service: serviceStatus(current) };
+}
+
+async function generateEquipmentMonitoring(item: Equipment) {
+  const readings = await EquipmentRegisterService.getMeterReadings(item.id);
+  const service = serviceStatus(item);
+  const today = new Date().toISOString();
+  const daysAgo = (days: number) => new Date(Date.now() - (days - 1) * DAY_MS).toISOString();
+
+  const alerts = service.state === 'ok' ? [] : [{
+    type: 'maintenance',
+    severity: service.state === 'overdue' ? 'high' : 'low',
+    message: service.state === 'overdue'
+      ? 'Service interval exceeded'
+      : service.hoursRemaining !== null
+        ? `Scheduled maintenance in ${service.hoursRemaining} hours`
+        : `Scheduled maintenance on ${service.nextServiceDate}`,
+    timestamp: today
+  }];
+
   return {
-    status: 'operational',
+    status: item.status,
     metrics: {
-      operatingHours: 1247,
-      utilization: 0.82,
-      efficiency: 0.91,
-      fuelLevel: 0.75,
-      temperature: 68,
-      vibration: 0.3,
-      pressure: 0.45
+      operatingHours: item.hour_meter,
+      utilization: calculateUtilization(readings, daysAgo(7), today),
     },
     maintenance: {
-      lastService: '2024-01-10',
-      nextService: '2024-02-10',
-      serviceInterval: 200,
-      hoursRemaining: 76,
-      issues: []
+      lastService: item.last_service_date,
+      nextService: service.nextServiceDate,
+      serviceInterval: item.service_interval_hours,
+      hoursRemaining: service.hoursRemaining,
+      state: service.state,
     },
     utilization: {
-      daily: 0.85,
-      weekly: 0.82,
-      monthly: 0.78,
-      peakHours: ['09:00-11:00', '14:00-16:00']
+      daily: calculateUtilization(readings, today, today),
+      weekly: calculateUtilization(readings, daysAgo(7), today),
+      monthly: calculateUtilization(readings, daysAgo(30), today),
     },
-    alerts: [
-      {
-        type: 'maintenance',
-        severity: 'low',
-        message: 'Scheduled maintenance in 76 hours',
-        timestamp: '2024-01-15T10:30:00Z'
-      }
-    ]
+    alerts
   };
 }
 
@@ -0,0 +1,151 @@
+/**
+ * Project Membership Routes
+ * Invite, re-role and remove people on a shared project
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { AuthService } from "../lib/auth-service";
+import { ProjectsService } from "../lib/projects-service";
+import { ProjectMembersService } from "../lib/project-members-service";
+import { validationErrors } from "../lib/validation";
+
+// Validation schemas
+const inviteMemberSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.enum(['manager', 'editor', 'viewer']).default('viewer'),
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(['manager', 'editor', 'viewer']),
+});
+
+export const handleGetProjectMembers: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const members = await ProjectMembersService.getProjectMembers(projectId);
+    res.json({ members });
+  } catch (error) {
+    console.error('Error fetching project members:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleInviteProjectMember: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = inviteMemberSchema.safeParse(req.body);
+    if (!validation.success) {
+      const errors = validationErrors(validation.error);
+      return res.status(400).json({ errors });
+    }
+
+    const { email, role } = validation.data;
+
+    // Only owners can hand out manager rights
+    if (role === 'manager' && req.projectRole !== 'owner') {
+      return res.status(403).json({ message: 'Only the project owner can add managers' });
+    }
+
+    const invitee = await AuthService.findUserByEmail(email);
+    if (!invitee) {
+      return res.status(404).json({ message: 'No user with this email address' });
+    }
+
+    const existingRole = await ProjectMembersService.getMemberRole(projectId, invitee.id);
+    if (existingRole) {
+      return res.status(409).json({ message: 'User is already a member of this project' });
+    }
+
+    const member = await ProjectMembersService.addMember(projectId, invitee.id, role, userId);
+    if (!member) {
+      return res.status(500).json({ message: 'Failed to add project member' });
+    }
+
+    const notificationService = req.app.locals.notificationService;
+    if (notificationService) {
+      const project = await ProjectsService.getProjectById(projectId, userId);
+      notificationService.notifyProjectShared(invitee.id, project?.name || 'a project', projectId, role);
+    }
+
+    res.status(201).json({ member });
+  } catch (error) {
+    console.error('Error inviting project member:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateProjectMember: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const memberId = req.params.userId;
+
+    const validation = updateMemberSchema.safeParse(req.body);
+    if (!validation.success) {
+      const errors = validationErrors(validation.error);
+      return res.status(400).json({ errors });
+    }
+
+    const { role } = validation.data;
+
+    const currentRole = await ProjectMembersService.getMemberRole(projectId, memberId);
+    if (!currentRole) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (currentRole === 'owner') {
+      return res.status(400).json({ message: "The project owner's role cannot be changed" });
+    }
+    if ((role === 'manager' || currentRole === 'manager') && req.projectRole !== 'owner') {
+      return res.status(403).json({ message: 'Only the project owner can change manager roles' });
+    }
+
+    const member = await ProjectMembersService.updateMemberRole(projectId, memberId, role);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    res.json({ member });
+  } catch (error) {
+    console.error('Error updating project member:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleRemoveProjectMember: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const memberId = req.params.userId;
+
+    const currentRole = await ProjectMembersService.getMemberRole(projectId, memberId);
+    if (!currentRole) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+    if (currentRole === 'owner') {
+      return res.status(400).json({ message: 'The project owner cannot be removed' });
+    }
+
+    // Anyone may leave a project; removing others needs manage rights
+    const isSelf = memberId === userId;
+    if (!isSelf) {
+      if (req.projectRole !== 'owner' && req.projectRole !== 'manager') {
+        return res.status(403).json({ message: 'Insufficient project permissions' });
+      }
+      if (currentRole === 'manager' && req.projectRole !== 'owner') {
+        return res.status(403).json({ message: 'Only the project owner can remove managers' });
+      }
+    }
+
+    const success = await ProjectMembersService.removeMember(projectId, memberId);
+    if (!success) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error removing project member:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
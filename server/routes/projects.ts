@@ -2,9 +2,20 @@ import { RequestHandler } from "express";
 import { z } from "zod";
 import { ProjectsService } from "../lib/projects-service";
 import { authenticateToken } from "./auth";
+import { notifyStockThreshold } from "./inventory";
+import { InventoryService } from "../lib/inventory-service";
+import { SuppliersService } from "../lib/suppliers-service";
+import { TimesheetService } from "../lib/timesheets-service";
+import { ProjectTemplatesService } from "../lib/templates-service";
+import { AuditService } from "../lib/audit-service";
+import { projectListQuerySchema } from "../lib/project-query";
+import { CURRENCIES } from "../lib/currency";
+import { auditMetadata, diffFields, MATERIAL_AUDIT_FIELDS, PROJECT_AUDIT_FIELDS } from "../lib/audit";
+import { parseIfMatch, VersionConflictError } from "../lib/concurrency";
+import { validationErrors } from "../lib/validation";
 
 // Validation schemas
-const createProjectSchema = z.object({
+export const createProjectSchema = z.object({
   name: z.string().min(1, "Project name is required"),
   budget: z.number().positive("Budget must be positive"),
   client: z.string().optional(),
@@ -12,6 +23,8 @@ const createProjectSchema = z.object({
   start_date: z.string().optional(),
   end_date: z.string().optional(),
   contractor: z.string().optional(),
+  currency: z.enum(CURRENCIES).optional(),
+  template_id: z.number().int().positive().optional(),
 });
 
 const updateProjectSchema = z.object({
@@ -20,43 +33,52 @@ const updateProjectSchema = z.object({
   progress: z.number().min(0).max(100).optional(),
   budget: z.number().positive().optional(),
   spent: z.number().min(0).optional(),
-  cpi: z.number().positive().optional(),
-  spi: z.number().positive().optional(),
-  quality_score: z.number().min(0).max(100).optional(),
   safety_score: z.number().min(0).max(100).optional(),
-  acceptance_criteria_complete: z.number().min(0).max(100).optional(),
-  risk_level: z.enum(['low', 'medium', 'high']).optional(),
   client: z.string().optional(),
   location: z.string().optional(),
   start_date: z.string().optional(),
   end_date: z.string().optional(),
   team_size: z.number().positive().optional(),
   contractor: z.string().optional(),
+  currency: z.enum(CURRENCIES).optional(),
 });
 
-const createMaterialSchema = z.object({
+export const createMaterialSchema = z.object({
   name: z.string().min(1, "Material name is required"),
   current_stock: z.number().min(0, "Current stock must be non-negative"),
   total_required: z.number().positive("Total required must be positive"),
   cost: z.number().positive("Cost must be positive"),
-  supplier: z.string().min(1, "Supplier is required"),
+  supplier_id: z.number({ error: "Supplier is required" }).int(),
+  cost_code_id: z.number().int().nullable().optional(),
+  // Defaults to the project's currency
+  currency: z.enum(CURRENCIES).optional(),
 });
 
+// Stock and status come from the material ledger, see routes/inventory.ts
 const updateMaterialSchema = z.object({
   name: z.string().min(1).optional(),
-  current_stock: z.number().min(0).optional(),
   total_required: z.number().positive().optional(),
-  status: z.enum(['adequate', 'low', 'critical']).optional(),
   cost: z.number().positive().optional(),
-  supplier: z.string().min(1).optional(),
+  supplier_id: z.number().int().optional(),
+  cost_code_id: z.number().int().nullable().optional(),
+  currency: z.enum(CURRENCIES).optional(),
 });
 
+// Updates are conditional when they send the version they were made against
+const IF_MATCH_ERROR = 'If-Match must be the version being updated, e.g. "3"';
+
 // Project routes
 export const handleGetProjects: RequestHandler = async (req, res) => {
   try {
     const userId = req.userId!;
-    const projects = await ProjectsService.getUserProjects(userId);
-    res.json({ projects });
+    const validation = projectListQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      const errors = validationErrors(validation.error);
+      return res.status(400).json({ errors });
+    }
+
+    const { projects, next_cursor } = await ProjectsService.listUserProjects(userId, validation.data);
+    res.json({ projects, next_cursor });
   } catch (error) {
     console.error('Error fetching projects:', error);
     res.status(500).json({ message: 'Internal server error' });
@@ -90,20 +112,39 @@ export const handleCreateProject: RequestHandler = async (req, res) => {
     const validation = createProjectSchema.safeParse(req.body);
     
     if (!validation.success) {
-      const errors = validation.error.issues.map(err => ({
-        message: err.message,
-        field: err.path[0] as string,
-      }));
+      const errors = validationErrors(validation.error);
       return res.status(400).json({ errors });
     }
 
-    const projectData = validation.data;
-    const project = await ProjectsService.createProject(projectData, userId);
+    const { template_id, ...projectData } = validation.data;
+    let project;
+    if (template_id !== undefined) {
+      const template = await ProjectTemplatesService.getTemplate(template_id);
+      if (!template) {
+        return res.status(400).json({ errors: [{ message: 'Unknown template', field: 'template_id' }] });
+      }
+      project = await ProjectTemplatesService.createProjectFromTemplate(
+        projectData,
+        template.content,
+        { budget: template.source_budget, start_date: template.source_start_date },
+        userId
+      );
+    } else {
+      project = await ProjectsService.createProject(projectData, userId);
+    }
     
     if (!project) {
       return res.status(500).json({ message: 'Failed to create project' });
     }
 
+    await AuditService.record(
+      userId,
+      { type: 'project', id: project.id, project_id: project.id },
+      'create',
+      diffFields(null, project, PROJECT_AUDIT_FIELDS),
+      auditMetadata(req)
+    );
+
     // Send notification
     const notificationService = req.app.locals.notificationService;
     if (notificationService) {
@@ -128,20 +169,47 @@ export const handleUpdateProject: RequestHandler = async (req, res) => {
 
     const validation = updateProjectSchema.safeParse(req.body);
     if (!validation.success) {
-      const errors = validation.error.issues.map(err => ({
-        message: err.message,
-        field: err.path[0] as string,
-      }));
+      const errors = validationErrors(validation.error);
       return res.status(400).json({ errors });
     }
 
+    const expectedVersion = parseIfMatch(req.get('If-Match'));
+    if (expectedVersion === null) {
+      return res.status(400).json({ message: IF_MATCH_ERROR });
+    }
+
     const updates = validation.data;
-    const project = await ProjectsService.updateProject(projectId, updates, userId);
+    const before = await ProjectsService.getProjectById(projectId, userId);
+    // Changing the currency would relabel the amounts already recorded
+    if (before && updates.currency && updates.currency !== before.currency &&
+        (Number(before.spent) > 0 || await ProjectsService.countMoneyRecords(projectId) > 0)) {
+      return res.status(400).json({
+        message: 'The currency cannot be changed once costs, claims or change orders are recorded'
+      });
+    }
+    let project;
+    try {
+      project = await ProjectsService.updateProject(projectId, updates, userId, expectedVersion);
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) throw error;
+      const current = await ProjectsService.getProjectById(projectId, userId);
+      return current
+        ? res.status(409).json({ message: 'The project was changed by someone else', current })
+        : res.status(404).json({ message: 'Project not found' });
+    }
     
     if (!project) {
       return res.status(404).json({ message: 'Project not found' });
     }
 
+    await AuditService.record(
+      userId,
+      { type: 'project', id: projectId, project_id: projectId },
+      'update',
+      diffFields(before, project, PROJECT_AUDIT_FIELDS),
+      auditMetadata(req)
+    );
+
     res.json({ project });
   } catch (error) {
     console.error('Error updating project:', error);
@@ -163,6 +231,14 @@ export const handleDeleteProject: RequestHandler = async (req, res) => {
       return res.status(404).json({ message: 'Project not found' });
     }
 
+    await AuditService.record(
+      userId,
+      { type: 'project', id: projectId, project_id: projectId },
+      'delete',
+      [],
+      auditMetadata(req)
+    );
+
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting project:', error);
@@ -199,20 +275,33 @@ export const handleCreateMaterial: RequestHandler = async (req, res) => {
 
     const validation = createMaterialSchema.safeParse(req.body);
     if (!validation.success) {
-      const errors = validation.error.issues.map(err => ({
-        message: err.message,
-        field: err.path[0] as string,
-      }));
+      const errors = validationErrors(validation.error);
       return res.status(400).json({ errors });
     }
 
     const materialData = validation.data;
+    const supplier = await SuppliersService.getSupplier(materialData.supplier_id);
+    if (!supplier || !supplier.is_active) {
+      return res.status(400).json({ errors: [{ message: 'Unknown or inactive supplier', field: 'supplier_id' }] });
+    }
+    if (materialData.cost_code_id && !(await TimesheetService.getCostCode(projectId, materialData.cost_code_id))) {
+      return res.status(400).json({ errors: [{ message: 'Unknown cost code', field: 'cost_code_id' }] });
+    }
+
     const material = await ProjectsService.createMaterial(materialData, projectId, userId);
     
     if (!material) {
       return res.status(500).json({ message: 'Failed to create material' });
     }
 
+    await AuditService.record(
+      userId,
+      { type: 'material', id: material.id, project_id: projectId },
+      'create',
+      diffFields(null, material, MATERIAL_AUDIT_FIELDS),
+      auditMetadata(req)
+    );
+
     res.status(201).json({ material });
   } catch (error) {
     console.error('Error creating material:', error);
@@ -231,20 +320,61 @@ export const handleUpdateMaterial: RequestHandler = async (req, res) => {
 
     const validation = updateMaterialSchema.safeParse(req.body);
     if (!validation.success) {
-      const errors = validation.error.issues.map(err => ({
-        message: err.message,
-        field: err.path[0] as string,
-      }));
+      const errors = validationErrors(validation.error);
       return res.status(400).json({ errors });
     }
 
+    const expectedVersion = parseIfMatch(req.get('If-Match'));
+    if (expectedVersion === null) {
+      return res.status(400).json({ message: IF_MATCH_ERROR });
+    }
+
     const updates = validation.data;
-    const material = await ProjectsService.updateMaterial(materialId, updates, userId);
+    if (updates.supplier_id !== undefined) {
+      const supplier = await SuppliersService.getSupplier(updates.supplier_id);
+      if (!supplier || !supplier.is_active) {
+        return res.status(400).json({ errors: [{ message: 'Unknown or inactive supplier', field: 'supplier_id' }] });
+      }
+    }
+
+    // Copied, as the in-memory store updates materials in place
+    const stored = await InventoryService.getMaterial(materialId);
+    const before = stored ? { ...stored } : null;
+    if (stored && updates.cost_code_id && !(await TimesheetService.getCostCode(stored.project_id, updates.cost_code_id))) {
+      return res.status(400).json({ errors: [{ message: 'Unknown cost code', field: 'cost_code_id' }] });
+    }
+    let material;
+    try {
+      material = await ProjectsService.updateMaterial(materialId, updates, userId, expectedVersion);
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) throw error;
+      const current = await InventoryService.getMaterial(materialId);
+      return current
+        ? res.status(409).json({ message: 'The material was changed by someone else', current })
+        : res.status(404).json({ message: 'Material not found' });
+    }
     
     if (!material) {
       return res.status(404).json({ message: 'Material not found' });
     }
 
+    // A new requirement moves the low/critical thresholds
+    if (updates.total_required !== undefined) {
+      const change = await InventoryService.refreshMaterialStock(materialId);
+      if (change) {
+        material = change.material;
+        await notifyStockThreshold(req, change);
+      }
+    }
+
+    await AuditService.record(
+      userId,
+      { type: 'material', id: materialId, project_id: material.project_id },
+      'update',
+      diffFields(before, material, MATERIAL_AUDIT_FIELDS),
+      auditMetadata(req)
+    );
+
     res.json({ material });
   } catch (error) {
     console.error('Error updating material:', error);
@@ -261,11 +391,20 @@ export const handleDeleteMaterial: RequestHandler = async (req, res) => {
       return res.status(400).json({ message: 'Invalid material ID' });
     }
 
+    const projectId = await ProjectsService.getMaterialProjectId(materialId);
     const success = await ProjectsService.deleteMaterial(materialId, userId);
     if (!success) {
       return res.status(404).json({ message: 'Material not found' });
     }
 
+    await AuditService.record(
+      userId,
+      { type: 'material', id: materialId, project_id: projectId },
+      'delete',
+      [],
+      auditMetadata(req)
+    );
+
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting material:', error);
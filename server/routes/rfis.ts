@@ -0,0 +1,399 @@
+/**
+ * RFI Routes
+ * Requests for information per project: draft → open → answered → closed,
+ * with threaded responses, attachments and cost/schedule impact flags
+ */
+
+import { Request, RequestHandler } from "express";
+import { z } from "zod";
+import { ProjectsService } from "../lib/projects-service";
+import { ProjectMembersService } from "../lib/project-members-service";
+import { FileStorageService } from "../lib/file-storage";
+import { Rfi, RfiService, RfiUpdate, threadResponses } from "../lib/rfi-service";
+import { canTransitionRfi, isRfiOverdue, RfiStatus } from "../lib/rfi";
+import { validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const toDate = (value: string) => value.split('T')[0];
+
+// Validation schemas
+const createRfiSchema = z.object({
+  subject: z.string().min(1, "Subject is required").max(255),
+  question: z.string().min(1, "Question is required"),
+  assigned_to: z.string().min(1).optional(),
+  due_date: z.string().refine(isValidDate, "Invalid date").optional(),
+  cost_impact: z.boolean().optional(),
+  schedule_impact: z.boolean().optional(),
+  file_ids: z.array(z.string().min(1)).optional(),
+  // Raise straight to open instead of saving a draft
+  submit: z.boolean().optional(),
+});
+
+const updateRfiSchema = z.object({
+  subject: z.string().min(1).max(255).optional(),
+  question: z.string().min(1).optional(),
+  assigned_to: z.string().min(1).nullable().optional(),
+  due_date: z.string().refine(isValidDate, "Invalid date").nullable().optional(),
+  cost_impact: z.boolean().optional(),
+  schedule_impact: z.boolean().optional(),
+  file_ids: z.array(z.string().min(1)).optional(),
+});
+
+const statusSchema = z.object({
+  status: z.enum(['open', 'answered', 'closed']),
+});
+
+const responseSchema = z.object({
+  body: z.string().min(1, "Response text is required"),
+  parent_id: z.number().int().optional(),
+  is_answer: z.boolean().optional(),
+  file_ids: z.array(z.string().min(1)).optional(),
+});
+
+const parseRfiId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+const withOverdue = (rfi: Rfi) => ({ ...rfi, is_overdue: isRfiOverdue(rfi) });
+
+// Attachments must already be stored against this project
+const findForeignFiles = (projectId: number, fileIds: string[]) =>
+  fileIds.filter(fileId => FileStorageService.getFileMetadata(fileId)?.projectId !== projectId);
+
+const isProjectMember = async (projectId: number, userId: string) =>
+  (await ProjectMembersService.getMemberRole(projectId, userId)) !== null;
+
+// An RFI can only be opened once someone is answerable for it by a date
+const missingForOpen = (rfi: Pick<Rfi, 'assigned_to' | 'due_date'>) =>
+  !rfi.assigned_to ? 'an assignee' : !rfi.due_date ? 'a due date' : null;
+
+async function notifyAssignee(req: Request, rfi: Rfi) {
+  const notificationService = req.app.locals.notificationService;
+  if (!notificationService || !rfi.assigned_to || rfi.assigned_to === req.userId) return;
+
+  const project = await ProjectsService.getProjectById(rfi.project_id, req.userId!);
+  notificationService.notifyRfiAssigned(
+    rfi.assigned_to, rfi.number, rfi.subject, project?.name || 'a project', rfi.project_id, rfi.id, rfi.due_date
+  );
+}
+
+export const handleGetRfis: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+
+    if (status && !['draft', 'open', 'answered', 'closed'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+
+    const rfis = await RfiService.getRfis(projectId, {
+      status: status as RfiStatus | undefined,
+      assignedTo: req.query.assigned_to === 'me' ? userId : undefined,
+    });
+
+    res.json({ rfis: rfis.map(withOverdue) });
+  } catch (error) {
+    console.error('Error fetching RFIs:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetRfi: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const rfiId = parseRfiId(req.params.rfiId);
+    if (rfiId === null) {
+      return res.status(400).json({ message: 'Invalid RFI ID' });
+    }
+
+    const rfi = await RfiService.getRfi(projectId, rfiId);
+    if (!rfi) {
+      return res.status(404).json({ message: 'RFI not found' });
+    }
+
+    const responses = await RfiService.getResponses(rfiId);
+    res.json({ rfi: withOverdue(rfi), responses: threadResponses(responses) });
+  } catch (error) {
+    console.error('Error fetching RFI:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateRfi: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createRfiSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const { submit, ...rfiData } = validation.data;
+    if (rfiData.assigned_to && !(await isProjectMember(projectId, rfiData.assigned_to))) {
+      return res.status(400).json({ errors: [{ message: 'Assignee must be a project member', field: 'assigned_to' }] });
+    }
+
+    const foreignFiles = findForeignFiles(projectId, rfiData.file_ids || []);
+    if (foreignFiles.length > 0) {
+      return res.status(400).json({ message: `Files not found on this project: ${foreignFiles.join(', ')}` });
+    }
+
+    const record = {
+      subject: rfiData.subject,
+      question: rfiData.question,
+      assigned_to: rfiData.assigned_to ?? null,
+      due_date: rfiData.due_date ? toDate(rfiData.due_date) : null,
+      cost_impact: rfiData.cost_impact ?? false,
+      schedule_impact: rfiData.schedule_impact ?? false,
+      file_ids: rfiData.file_ids ?? [],
+      raised_by: userId,
+    };
+
+    if (submit) {
+      const missing = missingForOpen(record);
+      if (missing) {
+        return res.status(400).json({ message: `An RFI needs ${missing} before it can be opened` });
+      }
+    }
+
+    const rfi = await RfiService.createRfi(projectId, submit
+      ? { ...record, status: 'open', opened_at: new Date().toISOString() }
+      : record);
+    if (!rfi) {
+      return res.status(500).json({ message: 'Failed to create RFI' });
+    }
+
+    if (rfi.status === 'open') {
+      await notifyAssignee(req, rfi);
+    }
+
+    res.status(201).json({ rfi: withOverdue(rfi) });
+  } catch (error) {
+    console.error('Error creating RFI:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateRfi: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const rfiId = parseRfiId(req.params.rfiId);
+    if (rfiId === null) {
+      return res.status(400).json({ message: 'Invalid RFI ID' });
+    }
+
+    const validation = updateRfiSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await RfiService.getRfi(projectId, rfiId);
+    if (!existing) {
+      return res.status(404).json({ message: 'RFI not found' });
+    }
+    if (existing.status === 'closed') {
+      return res.status(409).json({ message: 'RFI is closed' });
+    }
+
+    const updates: RfiUpdate = { ...validation.data };
+    // The question is fixed once others have been asked to answer it
+    if (existing.status !== 'draft' && (updates.subject !== undefined || updates.question !== undefined)) {
+      return res.status(409).json({ message: 'The subject and question can only be edited while the RFI is a draft' });
+    }
+    if (updates.assigned_to && !(await isProjectMember(projectId, updates.assigned_to))) {
+      return res.status(400).json({ errors: [{ message: 'Assignee must be a project member', field: 'assigned_to' }] });
+    }
+    if (existing.status !== 'draft' && (updates.assigned_to === null || updates.due_date === null)) {
+      return res.status(400).json({ message: 'An open RFI must keep an assignee and a due date' });
+    }
+
+    const foreignFiles = findForeignFiles(projectId, updates.file_ids || []);
+    if (foreignFiles.length > 0) {
+      return res.status(400).json({ message: `Files not found on this project: ${foreignFiles.join(', ')}` });
+    }
+
+    if (updates.due_date) {
+      updates.due_date = toDate(updates.due_date);
+    }
+    // A new due date earns a new overdue reminder
+    if (updates.due_date !== undefined && updates.due_date !== existing.due_date) {
+      updates.overdue_notified_at = null;
+    }
+
+    const previousAssignee = existing.assigned_to;
+    const rfi = await RfiService.updateRfi(projectId, rfiId, updates);
+    if (!rfi) {
+      return res.status(500).json({ message: 'Failed to update RFI' });
+    }
+
+    if (rfi.status === 'open' && rfi.assigned_to !== previousAssignee) {
+      await notifyAssignee(req, rfi);
+    }
+
+    res.json({ rfi: withOverdue(rfi) });
+  } catch (error) {
+    console.error('Error updating RFI:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateRfiStatus: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const rfiId = parseRfiId(req.params.rfiId);
+    if (rfiId === null) {
+      return res.status(400).json({ message: 'Invalid RFI ID' });
+    }
+
+    const validation = statusSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await RfiService.getRfi(projectId, rfiId);
+    if (!existing) {
+      return res.status(404).json({ message: 'RFI not found' });
+    }
+
+    const { status } = validation.data;
+    if (!canTransitionRfi(existing.status, status)) {
+      return res.status(409).json({ message: `Cannot move an RFI from ${existing.status} to ${status}` });
+    }
+
+    const now = new Date().toISOString();
+    const updates: RfiUpdate = { status };
+    if (status === 'open') {
+      const missing = missingForOpen(existing);
+      if (missing) {
+        return res.status(400).json({ message: `An RFI needs ${missing} before it can be opened` });
+      }
+      updates.opened_at = existing.opened_at ?? now;
+      updates.answered_at = null;
+    } else if (status === 'answered') {
+      const responses = await RfiService.getResponses(rfiId);
+      if (!responses.some(response => response.is_answer)) {
+        return res.status(400).json({ message: 'Post an answer before marking the RFI answered' });
+      }
+      updates.answered_at = now;
+    } else {
+      updates.closed_at = now;
+    }
+
+    const wasDraft = existing.status === 'draft';
+    const rfi = await RfiService.updateRfi(projectId, rfiId, updates);
+    if (!rfi) {
+      return res.status(500).json({ message: 'Failed to update RFI status' });
+    }
+
+    if (status === 'open' && wasDraft) {
+      await notifyAssignee(req, rfi);
+    }
+
+    res.json({ rfi: withOverdue(rfi) });
+  } catch (error) {
+    console.error('Error updating RFI status:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteRfi: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const rfiId = parseRfiId(req.params.rfiId);
+    if (rfiId === null) {
+      return res.status(400).json({ message: 'Invalid RFI ID' });
+    }
+
+    const existing = await RfiService.getRfi(projectId, rfiId);
+    if (!existing) {
+      return res.status(404).json({ message: 'RFI not found' });
+    }
+    if (existing.status !== 'draft') {
+      return res.status(409).json({ message: 'Only draft RFIs can be deleted' });
+    }
+
+    const success = await RfiService.deleteRfi(projectId, rfiId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete RFI' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting RFI:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleAddRfiResponse: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const rfiId = parseRfiId(req.params.rfiId);
+    if (rfiId === null) {
+      return res.status(400).json({ message: 'Invalid RFI ID' });
+    }
+
+    const validation = responseSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const rfi = await RfiService.getRfi(projectId, rfiId);
+    if (!rfi) {
+      return res.status(404).json({ message: 'RFI not found' });
+    }
+    if (rfi.status === 'draft' || rfi.status === 'closed') {
+      return res.status(409).json({ message: `Cannot respond to a ${rfi.status} RFI` });
+    }
+
+    const { body, parent_id, is_answer, file_ids } = validation.data;
+    if (parent_id !== undefined) {
+      const responses = await RfiService.getResponses(rfiId);
+      if (!responses.some(response => response.id === parent_id)) {
+        return res.status(400).json({ errors: [{ message: 'Parent response not found on this RFI', field: 'parent_id' }] });
+      }
+    }
+
+    const foreignFiles = findForeignFiles(projectId, file_ids || []);
+    if (foreignFiles.length > 0) {
+      return res.status(400).json({ message: `Files not found on this project: ${foreignFiles.join(', ')}` });
+    }
+
+    const response = await RfiService.addResponse({
+      rfi_id: rfiId,
+      parent_id: parent_id ?? null,
+      body,
+      is_answer: is_answer ?? false,
+      file_ids: file_ids ?? [],
+      author_id: userId,
+    });
+    if (!response) {
+      return res.status(500).json({ message: 'Failed to add response' });
+    }
+
+    // An answer on an open RFI moves it to answered and tells whoever raised it
+    let updated = rfi;
+    if (response.is_answer) {
+      if (rfi.status === 'open') {
+        updated = await RfiService.updateRfi(projectId, rfiId, {
+          status: 'answered',
+          answered_at: response.created_at,
+        }) ?? rfi;
+      }
+
+      const notificationService = req.app.locals.notificationService;
+      if (notificationService && rfi.raised_by && rfi.raised_by !== userId) {
+        const project = await ProjectsService.getProjectById(projectId, userId);
+        notificationService.notifyRfiAnswered(rfi.raised_by, rfi.number, rfi.subject, project?.name || 'a project', projectId, rfiId);
+      }
+    }
+
+    res.status(201).json({ response, rfi: withOverdue(updated) });
+  } catch (error) {
+    console.error('Error adding RFI response:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
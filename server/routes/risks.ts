@@ -0,0 +1,274 @@
+/**
+ * Risk Register Routes
+ * Per-project risks scored on a 5×5 probability/impact matrix. The project's
+ * risk_level is recomputed from the register on every change, and the heat
+ * map endpoints feed the analytics page.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ProjectsService } from "../lib/projects-service";
+import { ProjectMembersService } from "../lib/project-members-service";
+import { ProjectRisk, RiskRegisterService, ProjectRiskUpdate } from "../lib/risk-register-service";
+import { buildRiskHeatMap, calculateProjectRiskLevel, RiskStatus } from "../lib/risks";
+import { validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const toDate = (value: string) => value.split('T')[0];
+
+// Validation schemas
+const mitigationActionSchema = z.object({
+  description: z.string().min(1, "Action description is required"),
+  owner_id: z.string().min(1).nullable().optional(),
+  due_date: z.string().refine(isValidDate, "Invalid date").nullable().optional(),
+  completed_at: z.string().refine(isValidDate, "Invalid date").nullable().optional(),
+});
+
+const riskFields = {
+  title: z.string().min(1, "Title is required").max(255),
+  description: z.string().nullable().optional(),
+  category: z.string().max(50).nullable().optional(),
+  probability: z.number().int().min(1).max(5),
+  impact: z.number().int().min(1).max(5),
+  owner_id: z.string().min(1).nullable().optional(),
+  response_strategy: z.enum(['avoid', 'mitigate', 'transfer', 'accept']).optional(),
+  mitigation_actions: z.array(mitigationActionSchema).optional(),
+  review_date: z.string().refine(isValidDate, "Invalid date").nullable().optional(),
+};
+
+const createRiskSchema = z.object(riskFields);
+const updateRiskSchema = z.object({
+  ...riskFields,
+  status: z.enum(['open', 'monitoring', 'closed']),
+}).partial();
+
+const parseRiskId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+const normalizeActions = (actions: z.infer<typeof mitigationActionSchema>[]) => actions.map(action => ({
+  description: action.description,
+  owner_id: action.owner_id ?? null,
+  due_date: action.due_date ? toDate(action.due_date) : null,
+  completed_at: action.completed_at ?? null,
+}));
+
+// Risk and action owners must be able to see the project
+async function findNonMembers(projectId: number, userIds: (string | null | undefined)[]) {
+  const unique = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+  const roles = await Promise.all(unique.map(userId => ProjectMembersService.getMemberRole(projectId, userId)));
+  return unique.filter((_, i) => roles[i] === null);
+}
+
+const ownerIds = (data: { owner_id?: string | null; mitigation_actions?: { owner_id?: string | null }[] }) =>
+  [data.owner_id, ...(data.mitigation_actions || []).map(action => action.owner_id)];
+
+const summarize = (risks: ProjectRisk[]) => ({
+  riskLevel: calculateProjectRiskLevel(risks),
+  open: risks.filter(r => r.status === 'open').length,
+  monitoring: risks.filter(r => r.status === 'monitoring').length,
+  closed: risks.filter(r => r.status === 'closed').length,
+  reviewsOverdue: risks.filter(r => RiskRegisterService.withScore(r).review_overdue).length,
+});
+
+export const handleGetRisks: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+
+    if (status && !['open', 'monitoring', 'closed'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+
+    const risks = await RiskRegisterService.getRisks(projectId);
+    const filtered = status ? risks.filter(r => r.status === status as RiskStatus) : risks;
+
+    res.json({
+      risks: filtered.map(risk => RiskRegisterService.withScore(risk)),
+      summary: summarize(risks),
+    });
+  } catch (error) {
+    console.error('Error fetching risk register:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetRisk: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const riskId = parseRiskId(req.params.riskId);
+    if (riskId === null) {
+      return res.status(400).json({ message: 'Invalid risk ID' });
+    }
+
+    const risk = await RiskRegisterService.getRisk(projectId, riskId);
+    if (!risk) {
+      return res.status(404).json({ message: 'Risk not found' });
+    }
+
+    res.json({ risk: RiskRegisterService.withScore(risk) });
+  } catch (error) {
+    console.error('Error fetching risk:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateRisk: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createRiskSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const riskData = validation.data;
+    const nonMembers = await findNonMembers(projectId, ownerIds(riskData));
+    if (nonMembers.length > 0) {
+      return res.status(400).json({ message: `Owners must be project members: ${nonMembers.join(', ')}` });
+    }
+
+    const risk = await RiskRegisterService.createRisk(projectId, {
+      title: riskData.title,
+      description: riskData.description ?? null,
+      category: riskData.category ?? null,
+      probability: riskData.probability,
+      impact: riskData.impact,
+      owner_id: riskData.owner_id ?? null,
+      response_strategy: riskData.response_strategy ?? 'mitigate',
+      mitigation_actions: normalizeActions(riskData.mitigation_actions || []),
+      review_date: riskData.review_date ? toDate(riskData.review_date) : null,
+      created_by: userId,
+    });
+    if (!risk) {
+      return res.status(500).json({ message: 'Failed to create risk' });
+    }
+
+    const riskLevel = await RiskRegisterService.syncProjectRiskLevel(projectId);
+
+    res.status(201).json({ risk: RiskRegisterService.withScore(risk), riskLevel });
+  } catch (error) {
+    console.error('Error creating risk:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateRisk: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const riskId = parseRiskId(req.params.riskId);
+    if (riskId === null) {
+      return res.status(400).json({ message: 'Invalid risk ID' });
+    }
+
+    const validation = updateRiskSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await RiskRegisterService.getRisk(projectId, riskId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Risk not found' });
+    }
+
+    const { mitigation_actions, review_date, ...rest } = validation.data;
+    const nonMembers = await findNonMembers(projectId, ownerIds(validation.data));
+    if (nonMembers.length > 0) {
+      return res.status(400).json({ message: `Owners must be project members: ${nonMembers.join(', ')}` });
+    }
+
+    const updates: ProjectRiskUpdate = { ...rest };
+    if (mitigation_actions !== undefined) {
+      updates.mitigation_actions = normalizeActions(mitigation_actions);
+    }
+    if (review_date !== undefined) {
+      updates.review_date = review_date ? toDate(review_date) : null;
+    }
+    if (rest.status && rest.status !== existing.status) {
+      updates.closed_at = rest.status === 'closed' ? new Date().toISOString() : null;
+    }
+
+    const risk = await RiskRegisterService.updateRisk(projectId, riskId, updates);
+    if (!risk) {
+      return res.status(500).json({ message: 'Failed to update risk' });
+    }
+
+    const riskLevel = await RiskRegisterService.syncProjectRiskLevel(projectId);
+
+    res.json({ risk: RiskRegisterService.withScore(risk), riskLevel });
+  } catch (error) {
+    console.error('Error updating risk:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteRisk: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const riskId = parseRiskId(req.params.riskId);
+    if (riskId === null) {
+      return res.status(400).json({ message: 'Invalid risk ID' });
+    }
+
+    const success = await RiskRegisterService.deleteRisk(projectId, riskId);
+    if (!success) {
+      return res.status(404).json({ message: 'Risk not found' });
+    }
+
+    await RiskRegisterService.syncProjectRiskLevel(projectId);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting risk:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetProjectRiskHeatMap: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const risks = await RiskRegisterService.getRisks(projectId);
+
+    res.json({
+      cells: buildRiskHeatMap(risks),
+      risks: risks.filter(r => r.status !== 'closed').map(risk => RiskRegisterService.withScore(risk)),
+      riskLevel: calculateProjectRiskLevel(risks),
+    });
+  } catch (error) {
+    console.error('Error building risk heat map:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Portfolio heat map across every project the user can see, or one of them
+export const handleGetRiskHeatMap: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projects = await ProjectsService.getUserProjects(userId);
+
+    let projectIds = projects.map(p => p.id);
+    if (typeof req.query.projectId === 'string') {
+      const projectId = parseInt(req.query.projectId);
+      if (!projectIds.includes(projectId)) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      projectIds = [projectId];
+    }
+
+    const risks = await RiskRegisterService.getRisksForProjects(projectIds);
+    const live = risks.filter(r => r.status !== 'closed');
+
+    res.json({
+      cells: buildRiskHeatMap(risks),
+      risks: live.map(risk => ({
+        ...RiskRegisterService.withScore(risk),
+        project_name: projects.find(p => p.id === risk.project_id)?.name,
+      })),
+    });
+  } catch (error) {
+    console.error('Error building risk heat map:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
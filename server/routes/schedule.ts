@@ -0,0 +1,393 @@
+/**
+ * Project Schedule Routes
+ * Persisted task network per project, recalculated whenever it changes. The
+ * project's working calendar is its working hours, shifts and closures
+ * (public holidays and site shutdowns); closures can be imported from ICS files.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ProjectsService } from "../lib/projects-service";
+import {
+  ScheduleService,
+  ProjectScheduleSettings,
+  toScheduleInput,
+  toScheduleOptions,
+} from "../lib/schedule-service";
+import { calculateSchedule, validateScheduleInput } from "../lib/scheduler";
+import { IcsError, parseIcs } from "../lib/ics";
+import { parseId, validationErrors } from "../lib/validation";
+
+// Validation schemas
+export const scheduleTaskSchema = z.object({
+  id: z.string().min(1, "Task id is required").max(100),
+  name: z.string().min(1, "Task name is required"),
+  duration: z.number().int().min(0, "Duration must be non-negative"),
+  dependencies: z.array(z.string()).optional(),
+  resources: z.array(z.string()).optional(),
+  constraints: z.record(z.string(), z.any()).optional(),
+  kind: z.enum(['task', 'inspection']).optional(),
+});
+
+const updateTaskSchema = scheduleTaskSchema.omit({ id: true }).partial();
+
+export const scheduleSettingsSchema = z.object({
+  startDate: z.string().optional(),
+  endDate: z.string().nullable().optional(),
+  workingHours: z.object({
+    start: z.string(),
+    end: z.string(),
+    days: z.array(z.number()).optional()
+  }).nullable().optional(),
+  shifts: z.array(z.object({
+    name: z.string().min(1, "Shift name is required").max(50),
+    start: z.string(),
+    end: z.string(),
+  })).max(3, "A project can work at most 3 shifts").optional(),
+  resourceLimits: z.record(z.string(), z.number()).optional()
+});
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+
+const closureSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  kind: z.enum(['holiday', 'shutdown']).default('holiday'),
+  startDate: z.string().refine(isValidDate, "Invalid start date"),
+  endDate: z.string().refine(isValidDate, "Invalid end date").optional(),
+});
+
+const toDate = (value: string) => value.split('T')[0];
+
+export const toSettingsUpdate = (settings: z.infer<typeof scheduleSettingsSchema>): Partial<ProjectScheduleSettings> => {
+  const update: Partial<ProjectScheduleSettings> = {};
+  if (settings.startDate !== undefined) update.start_date = settings.startDate;
+  if (settings.endDate !== undefined) update.end_date = settings.endDate;
+  if (settings.workingHours !== undefined) update.working_hours = settings.workingHours;
+  if (settings.shifts !== undefined) update.shifts = settings.shifts;
+  if (settings.resourceLimits !== undefined) update.resource_limits = settings.resourceLimits;
+  return update;
+};
+
+export const handleGetProjectSchedule: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const [project, settings, tasks, closures] = await Promise.all([
+      ProjectsService.getProjectById(projectId, userId),
+      ScheduleService.getSettings(projectId),
+      ScheduleService.getTasks(projectId),
+      ScheduleService.getClosures(projectId),
+    ]);
+
+    const schedule = calculateSchedule(tasks.map(toScheduleInput), toScheduleOptions(settings, project?.start_date, closures));
+    res.json({ settings, closures, schedule });
+  } catch (error) {
+    console.error('Error fetching project schedule:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateScheduleSettings: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = scheduleSettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const [project, current, tasks] = await Promise.all([
+      ProjectsService.getProjectById(projectId, userId),
+      ScheduleService.getSettings(projectId),
+      ScheduleService.getTasks(projectId),
+    ]);
+
+    const update = toSettingsUpdate(validation.data);
+    const problem = validateScheduleInput(
+      tasks.map(toScheduleInput),
+      toScheduleOptions({ ...current, ...update }, project?.start_date)
+    );
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const settings = await ScheduleService.saveSettings(projectId, update);
+    if (!settings) {
+      return res.status(500).json({ message: 'Failed to save schedule settings' });
+    }
+
+    const schedule = await ScheduleService.recalculate(projectId, project?.start_date);
+    res.json({ settings, schedule });
+  } catch (error) {
+    console.error('Error updating schedule settings:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateProjectTask: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = scheduleTaskSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const { id, ...taskData } = validation.data;
+    const [project, settings, tasks] = await Promise.all([
+      ProjectsService.getProjectById(projectId, userId),
+      ScheduleService.getSettings(projectId),
+      ScheduleService.getTasks(projectId),
+    ]);
+
+    if (tasks.some(task => task.task_key === id)) {
+      return res.status(409).json({ message: 'A task with this id already exists' });
+    }
+
+    const newTask = {
+      task_key: id,
+      name: taskData.name,
+      duration: taskData.duration,
+      dependencies: taskData.dependencies || [],
+      resources: taskData.resources || [],
+      constraints: taskData.constraints || {},
+      kind: taskData.kind || 'task',
+    };
+
+    const problem = validateScheduleInput(
+      [...tasks, newTask].map(toScheduleInput),
+      toScheduleOptions(settings, project?.start_date)
+    );
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const created = await ScheduleService.createTask(projectId, newTask);
+    if (!created) {
+      return res.status(500).json({ message: 'Failed to create task' });
+    }
+
+    const schedule = await ScheduleService.recalculate(projectId, project?.start_date);
+    const task = schedule.tasks.find(t => t.id === id);
+    res.status(201).json({ task, schedule });
+  } catch (error) {
+    console.error('Error creating project task:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateProjectTask: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const taskKey = req.params.taskId;
+
+    const validation = updateTaskSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const [project, settings, tasks] = await Promise.all([
+      ProjectsService.getProjectById(projectId, userId),
+      ScheduleService.getSettings(projectId),
+      ScheduleService.getTasks(projectId),
+    ]);
+
+    if (!tasks.some(task => task.task_key === taskKey)) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    const updates = validation.data;
+    const problem = validateScheduleInput(
+      tasks.map(task => toScheduleInput(task.task_key === taskKey ? { ...task, ...updates } : task)),
+      toScheduleOptions(settings, project?.start_date)
+    );
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const updated = await ScheduleService.updateTask(projectId, taskKey, updates);
+    if (!updated) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    const schedule = await ScheduleService.recalculate(projectId, project?.start_date);
+    const task = schedule.tasks.find(t => t.id === taskKey);
+    res.json({ task, schedule });
+  } catch (error) {
+    console.error('Error updating project task:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteProjectTask: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const taskKey = req.params.taskId;
+
+    const success = await ScheduleService.deleteTask(projectId, taskKey);
+    if (!success) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    const project = await ProjectsService.getProjectById(projectId, userId);
+    await ScheduleService.recalculate(projectId, project?.start_date);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting project task:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetProjectClosures: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const closures = await ScheduleService.getClosures(projectId);
+    res.json({ closures });
+  } catch (error) {
+    console.error('Error fetching project closures:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateProjectClosure: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = closureSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const { name, kind, startDate, endDate } = validation.data;
+    const closureData = {
+      name,
+      kind,
+      start_date: toDate(startDate),
+      end_date: toDate(endDate ?? startDate),
+      uid: null,
+      created_by: userId,
+    };
+
+    const [project, settings] = await Promise.all([
+      ProjectsService.getProjectById(projectId, userId),
+      ScheduleService.getSettings(projectId),
+    ]);
+    const problem = validateScheduleInput([], toScheduleOptions(settings, project?.start_date, [closureData]));
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const closure = await ScheduleService.createClosure(projectId, closureData);
+    if (!closure) {
+      return res.status(500).json({ message: 'Failed to create closure' });
+    }
+
+    const schedule = await ScheduleService.recalculate(projectId, project?.start_date);
+    res.status(201).json({ closure, schedule });
+  } catch (error) {
+    console.error('Error creating project closure:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+/**
+ * Import public holidays from an uploaded ICS file. Events already imported
+ * (matched on their UID) and events the calendar can't hold are skipped.
+ */
+export const handleImportProjectClosures: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    if (!req.file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    let events;
+    try {
+      events = parseIcs(req.file.buffer.toString('utf8'));
+    } catch (error) {
+      if (error instanceof IcsError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+
+    const [project, settings, existing] = await Promise.all([
+      ProjectsService.getProjectById(projectId, userId),
+      ScheduleService.getSettings(projectId),
+      ScheduleService.getClosures(projectId),
+    ]);
+    const knownUids = new Set(existing.map(closure => closure.uid).filter(Boolean));
+
+    const imported = [];
+    let skipped = 0;
+    for (const event of events) {
+      const closureData = {
+        name: event.summary || 'Holiday',
+        kind: 'holiday' as const,
+        start_date: event.start_date,
+        end_date: event.end_date,
+        uid: event.uid,
+        created_by: userId,
+      };
+      if ((event.uid && knownUids.has(event.uid)) ||
+          validateScheduleInput([], toScheduleOptions(settings, project?.start_date, [closureData]))) {
+        skipped++;
+        continue;
+      }
+
+      const closure = await ScheduleService.createClosure(projectId, closureData);
+      if (!closure) {
+        skipped++;
+        continue;
+      }
+      if (event.uid) knownUids.add(event.uid);
+      imported.push(closure);
+    }
+
+    const schedule = imported.length > 0
+      ? await ScheduleService.recalculate(projectId, project?.start_date)
+      : undefined;
+    res.status(imported.length > 0 ? 201 : 200).json({ imported: imported.length, skipped, closures: imported, schedule });
+  } catch (error) {
+    console.error('Error importing project closures:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteProjectClosure: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const closureId = parseId(req.params.closureId);
+    if (closureId === null) {
+      return res.status(400).json({ message: 'Invalid closure ID' });
+    }
+
+    const existing = await ScheduleService.getClosure(projectId, closureId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Closure not found' });
+    }
+
+    const success = await ScheduleService.deleteClosure(projectId, closureId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete closure' });
+    }
+
+    const project = await ProjectsService.getProjectById(projectId, userId);
+    await ScheduleService.recalculate(projectId, project?.start_date);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting project closure:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
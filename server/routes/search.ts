@@ -0,0 +1,27 @@
+/**
+ * Search Routes
+ * Global search across the projects a user belongs to: project details,
+ * materials, file names and document text, and RFI comments. Results carry
+ * highlight segments rather than markup.
+ */
+
+import { RequestHandler } from "express";
+import { SearchService } from "../lib/search-service";
+import { searchQuerySchema } from "../lib/search";
+import { validationErrors } from "../lib/validation";
+
+export const handleSearch: RequestHandler = async (req, res) => {
+  try {
+    const validation = searchQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const query = validation.data;
+    const results = await SearchService.search(req.userId!, query);
+    res.json({ query: query.q, results });
+  } catch (error) {
+    console.error('Error searching:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -0,0 +1,263 @@
+/**
+ * Site Diary Routes
+ * One log per project per day: crews, work performed, delays, visitors and
+ * linked photos. Weather is captured on creation; sign-off locks the entry.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ProjectsService } from "../lib/projects-service";
+import { FileStorageService } from "../lib/file-storage";
+import { SiteDiaryService } from "../lib/site-diary-service";
+import { captureSiteConditions, WeatherLocation } from "../lib/weather";
+import { validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const today = () => new Date().toISOString().split('T')[0];
+
+// Validation schemas
+const crewSchema = z.object({
+  trade: z.string().min(1, "Trade is required"),
+  company: z.string().optional(),
+  headcount: z.number().int().min(0, "Headcount must be non-negative"),
+  hours: z.number().min(0).max(24).optional(),
+});
+
+const delaySchema = z.object({
+  description: z.string().min(1, "Delay description is required"),
+  cause: z.enum(['weather', 'materials', 'labour', 'equipment', 'design', 'client', 'other']).optional(),
+  hours_lost: z.number().min(0).optional(),
+});
+
+const visitorSchema = z.object({
+  name: z.string().min(1, "Visitor name is required"),
+  company: z.string().optional(),
+  purpose: z.string().optional(),
+  time_in: z.string().optional(),
+  time_out: z.string().optional(),
+});
+
+const diaryContentFields = {
+  crews: z.array(crewSchema).optional(),
+  work_performed: z.string().optional(),
+  delays: z.array(delaySchema).optional(),
+  visitors: z.array(visitorSchema).optional(),
+  notes: z.string().optional(),
+  file_ids: z.array(z.string().min(1)).optional(),
+};
+
+const createEntrySchema = z.object({
+  ...diaryContentFields,
+  entry_date: z.string().refine(isValidDate, "Invalid date").optional(),
+  // Site coordinates for the weather lookup; defaults to the project location
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+}).refine(e => (e.latitude === undefined) === (e.longitude === undefined), {
+  message: "Provide both latitude and longitude",
+  path: ['latitude'],
+});
+
+const updateEntrySchema = z.object(diaryContentFields);
+
+const parseEntryId = (value: string) => {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+};
+
+// Linked files must already be stored against this project
+const findForeignFiles = (projectId: number, fileIds: string[]) =>
+  fileIds.filter(fileId => FileStorageService.getFileMetadata(fileId)?.projectId !== projectId);
+
+export const handleGetDiaryEntries: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const from = typeof req.query.from === 'string' ? req.query.from : undefined;
+    const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+
+    if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+      return res.status(400).json({ message: 'Invalid date range' });
+    }
+
+    const entries = await SiteDiaryService.getEntries(projectId, {
+      from: from?.split('T')[0],
+      to: to?.split('T')[0],
+    });
+    res.json({ entries: entries.map(entry => SiteDiaryService.withFiles(entry)) });
+  } catch (error) {
+    console.error('Error fetching site diary:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetDiaryEntry: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const entryId = parseEntryId(req.params.entryId);
+    if (entryId === null) {
+      return res.status(400).json({ message: 'Invalid diary entry ID' });
+    }
+
+    const entry = await SiteDiaryService.getEntry(projectId, entryId);
+    if (!entry) {
+      return res.status(404).json({ message: 'Diary entry not found' });
+    }
+
+    res.json({ entry: SiteDiaryService.withFiles(entry) });
+  } catch (error) {
+    console.error('Error fetching site diary entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateDiaryEntry: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = createEntrySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const { entry_date, latitude, longitude, ...content } = validation.data;
+    const entryDate = (entry_date || today()).split('T')[0];
+    if (entryDate > today()) {
+      return res.status(400).json({ message: 'Diary entries cannot be written for future dates' });
+    }
+
+    if (await SiteDiaryService.getEntryByDate(projectId, entryDate)) {
+      return res.status(409).json({ message: `A diary entry for ${entryDate} already exists` });
+    }
+
+    const foreignFiles = findForeignFiles(projectId, content.file_ids || []);
+    if (foreignFiles.length > 0) {
+      return res.status(400).json({ message: `Files not found on this project: ${foreignFiles.join(', ')}` });
+    }
+
+    // Only today's conditions can be observed; back-dated entries go without
+    let weather = null;
+    if (entryDate === today()) {
+      const project = await ProjectsService.getProjectById(projectId, userId);
+      const location: WeatherLocation | null = latitude !== undefined && longitude !== undefined
+        ? { lat: latitude, lon: longitude }
+        : project?.location ? { query: project.location } : null;
+      weather = location ? await captureSiteConditions(location) : null;
+    }
+
+    const entry = await SiteDiaryService.createEntry(projectId, {
+      entry_date: entryDate,
+      crews: content.crews ?? [],
+      work_performed: content.work_performed ?? null,
+      delays: content.delays ?? [],
+      visitors: content.visitors ?? [],
+      notes: content.notes ?? null,
+      file_ids: content.file_ids ?? [],
+      weather,
+      created_by: userId,
+    });
+
+    if (!entry) {
+      return res.status(500).json({ message: 'Failed to create diary entry' });
+    }
+
+    res.status(201).json({ entry: SiteDiaryService.withFiles(entry) });
+  } catch (error) {
+    console.error('Error creating site diary entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateDiaryEntry: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const entryId = parseEntryId(req.params.entryId);
+    if (entryId === null) {
+      return res.status(400).json({ message: 'Invalid diary entry ID' });
+    }
+
+    const validation = updateEntrySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await SiteDiaryService.getEntry(projectId, entryId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Diary entry not found' });
+    }
+    if (existing.status === 'signed_off') {
+      return res.status(409).json({ message: 'Diary entry is signed off and locked' });
+    }
+
+    const foreignFiles = findForeignFiles(projectId, validation.data.file_ids || []);
+    if (foreignFiles.length > 0) {
+      return res.status(400).json({ message: `Files not found on this project: ${foreignFiles.join(', ')}` });
+    }
+
+    const entry = await SiteDiaryService.updateEntry(projectId, entryId, validation.data);
+    if (!entry) {
+      return res.status(409).json({ message: 'Diary entry is signed off and locked' });
+    }
+
+    res.json({ entry: SiteDiaryService.withFiles(entry) });
+  } catch (error) {
+    console.error('Error updating site diary entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteDiaryEntry: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const entryId = parseEntryId(req.params.entryId);
+    if (entryId === null) {
+      return res.status(400).json({ message: 'Invalid diary entry ID' });
+    }
+
+    const existing = await SiteDiaryService.getEntry(projectId, entryId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Diary entry not found' });
+    }
+    if (existing.status === 'signed_off') {
+      return res.status(409).json({ message: 'Diary entry is signed off and locked' });
+    }
+
+    const success = await SiteDiaryService.deleteEntry(projectId, entryId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete diary entry' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting site diary entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleSignOffDiaryEntry: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const entryId = parseEntryId(req.params.entryId);
+    if (entryId === null) {
+      return res.status(400).json({ message: 'Invalid diary entry ID' });
+    }
+
+    const existing = await SiteDiaryService.getEntry(projectId, entryId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Diary entry not found' });
+    }
+    if (existing.status === 'signed_off') {
+      return res.status(409).json({ message: 'Diary entry is already signed off' });
+    }
+
+    const entry = await SiteDiaryService.signOff(projectId, entryId, userId);
+    if (!entry) {
+      return res.status(409).json({ message: 'Diary entry is already signed off' });
+    }
+
+    res.json({ entry: SiteDiaryService.withFiles(entry) });
+  } catch (error) {
+    console.error('Error signing off site diary entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
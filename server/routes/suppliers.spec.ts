@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { AuthService } from "../lib/auth-service";
+import { startTestApi, TestApi } from "../test-utils";
+
+describe("supplier directory permissions", () => {
+  let api: TestApi;
+  let admin: string;
+  let member: string;
+
+  beforeAll(async () => {
+    api = await startTestApi();
+    admin = await api.login("admin@example.com", "password");
+    await AuthService.createUser({ email: "site.user@example.com", password: "secret123", name: "Site User" });
+    member = await api.login("site.user@example.com", "secret123");
+  });
+
+  afterAll(() => api.close());
+
+  it("should only let admins and managers change the company-wide directory", async () => {
+    const created = await api.request('POST', '/suppliers', { name: 'Northern Aggregates' }, admin);
+    expect(created.status).toBe(201);
+    const supplierId = created.body.supplier.id;
+
+    expect((await api.request('POST', '/suppliers', { name: 'Rogue Ltd' }, member)).status).toBe(403);
+    expect((await api.request('PUT', `/suppliers/${supplierId}`, { is_active: false }, member)).status).toBe(403);
+    expect((await api.request('POST', `/suppliers/${supplierId}/prices`, { item_name: 'Type 1', unit_price: 10 }, member)).status).toBe(403);
+
+    const supplier = await api.request('GET', `/suppliers/${supplierId}`, undefined, member);
+    expect(supplier.status).toBe(200);
+    expect(supplier.body.supplier.is_active).toBe(true);
+  });
+});
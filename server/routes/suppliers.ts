@@ -0,0 +1,344 @@
+/**
+ * Supplier Routes
+ * Company-wide supplier directory with contacts, lead times, price lists and
+ * delivery performance derived from purchase orders
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { SuppliersService } from "../lib/suppliers-service";
+import { ExchangeRatesService } from "../lib/exchange-rates-service";
+import { CURRENCIES, DEFAULT_CURRENCY } from "../lib/currency";
+import { parseId, validationErrors } from "../lib/validation";
+import { getUserPreferences } from "./user-data";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const toDate = (value: string) => value.split('T')[0];
+
+// Validation schemas
+const contactSchema = z.object({
+  name: z.string().min(1, "Contact name is required"),
+  role: z.string().max(100).optional(),
+  email: z.string().email("Invalid email address").optional(),
+  phone: z.string().max(50).optional(),
+  is_primary: z.boolean().optional(),
+});
+
+const supplierFields = {
+  name: z.string().trim().min(1, "Supplier name is required").max(255),
+  email: z.string().email("Invalid email address").nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  address: z.string().nullable().optional(),
+  website: z.string().max(255).nullable().optional(),
+  contacts: z.array(contactSchema)
+    .refine(contacts => contacts.filter(c => c.is_primary).length <= 1, "Only one contact can be primary")
+    .optional(),
+  lead_time_days: z.number().int().min(0, "Lead time must be non-negative").optional(),
+  notes: z.string().nullable().optional(),
+};
+
+const createSupplierSchema = z.object(supplierFields);
+
+const updateSupplierSchema = z.object({
+  ...supplierFields,
+  name: supplierFields.name.optional(),
+  is_active: z.boolean().optional(),
+});
+
+const priceFields = {
+  item_name: z.string().min(1, "Item name is required").max(255),
+  unit: z.string().max(50).nullable().optional(),
+  unit_price: z.number().min(0, "Unit price must be non-negative"),
+  currency: z.enum(CURRENCIES).optional(),
+  min_quantity: z.number().min(0, "Minimum quantity must be non-negative").optional(),
+  lead_time_days: z.number().int().min(0, "Lead time must be non-negative").nullable().optional(),
+  valid_from: z.string().refine(isValidDate, "Invalid date").optional(),
+  valid_to: z.string().refine(isValidDate, "Invalid date").nullable().optional(),
+};
+
+const validityRange = (price: { valid_from?: string; valid_to?: string | null }) =>
+  !price.valid_from || !price.valid_to || toDate(price.valid_to) >= toDate(price.valid_from);
+
+const createPriceSchema = z.object(priceFields)
+  .refine(validityRange, { message: "Valid to cannot be before valid from", path: ['valid_to'] });
+
+const updatePriceSchema = z.object({
+  ...priceFields,
+  item_name: priceFields.item_name.optional(),
+  unit_price: priceFields.unit_price.optional(),
+}).refine(validityRange, { message: "Valid to cannot be before valid from", path: ['valid_to'] });
+
+// Suppliers serve every project, so their spend is totalled in the reader's reporting currency
+const spendConverter = async (userId: string) =>
+  ExchangeRatesService.getConverter((await getUserPreferences(userId)).reportingCurrency);
+
+// Suppliers
+export const handleGetSuppliers: RequestHandler = async (req, res) => {
+  try {
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : undefined;
+    const includeInactive = req.query.include_inactive === 'true';
+
+    const [suppliers, converter] = await Promise.all([
+      SuppliersService.getSuppliers({ search, includeInactive }),
+      spendConverter(req.userId!),
+    ]);
+    res.json({
+      suppliers: await Promise.all(suppliers.map(supplier => SuppliersService.withPerformance(supplier, converter))),
+    });
+  } catch (error) {
+    console.error('Error fetching suppliers:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetSupplier: RequestHandler = async (req, res) => {
+  try {
+    const supplierId = parseId(req.params.supplierId);
+    if (supplierId === null) {
+      return res.status(400).json({ message: 'Invalid supplier ID' });
+    }
+
+    const supplier = await SuppliersService.getSupplier(supplierId);
+    if (!supplier) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    const [withPerformance, prices] = await Promise.all([
+      SuppliersService.withPerformance(supplier, await spendConverter(req.userId!)),
+      SuppliersService.getPrices(supplierId),
+    ]);
+
+    res.json({ supplier: withPerformance, prices });
+  } catch (error) {
+    console.error('Error fetching supplier:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateSupplier: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+
+    const validation = createSupplierSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const supplierData = validation.data;
+    if (await SuppliersService.findSupplierByName(supplierData.name)) {
+      return res.status(409).json({ message: 'A supplier with this name already exists' });
+    }
+
+    const supplier = await SuppliersService.createSupplier({
+      name: supplierData.name,
+      email: supplierData.email ?? null,
+      phone: supplierData.phone ?? null,
+      address: supplierData.address ?? null,
+      website: supplierData.website ?? null,
+      contacts: supplierData.contacts ?? [],
+      lead_time_days: supplierData.lead_time_days ?? 7,
+      notes: supplierData.notes ?? null,
+      created_by: userId,
+    });
+
+    if (!supplier) {
+      return res.status(500).json({ message: 'Failed to create supplier' });
+    }
+
+    res.status(201).json({ supplier });
+  } catch (error) {
+    console.error('Error creating supplier:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateSupplier: RequestHandler = async (req, res) => {
+  try {
+    const supplierId = parseId(req.params.supplierId);
+    if (supplierId === null) {
+      return res.status(400).json({ message: 'Invalid supplier ID' });
+    }
+
+    const validation = updateSupplierSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await SuppliersService.getSupplier(supplierId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    const updates = validation.data;
+    if (updates.name) {
+      const duplicate = await SuppliersService.findSupplierByName(updates.name);
+      if (duplicate && duplicate.id !== supplierId) {
+        return res.status(409).json({ message: 'A supplier with this name already exists' });
+      }
+    }
+
+    const supplier = await SuppliersService.updateSupplier(supplierId, updates);
+    if (!supplier) {
+      return res.status(500).json({ message: 'Failed to update supplier' });
+    }
+
+    res.json({ supplier });
+  } catch (error) {
+    console.error('Error updating supplier:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteSupplier: RequestHandler = async (req, res) => {
+  try {
+    const supplierId = parseId(req.params.supplierId);
+    if (supplierId === null) {
+      return res.status(400).json({ message: 'Invalid supplier ID' });
+    }
+
+    const supplier = await SuppliersService.getSupplier(supplierId);
+    if (!supplier) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    const references = await SuppliersService.countReferences(supplierId);
+    if (references > 0) {
+      return res.status(409).json({
+        message: 'Supplier is used by materials or purchase orders; deactivate it instead'
+      });
+    }
+
+    const success = await SuppliersService.deleteSupplier(supplierId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete supplier' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting supplier:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Price lists
+export const handleGetSupplierPrices: RequestHandler = async (req, res) => {
+  try {
+    const supplierId = parseId(req.params.supplierId);
+    if (supplierId === null) {
+      return res.status(400).json({ message: 'Invalid supplier ID' });
+    }
+
+    if (!(await SuppliersService.getSupplier(supplierId))) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    const prices = await SuppliersService.getPrices(supplierId);
+    res.json({ prices });
+  } catch (error) {
+    console.error('Error fetching supplier prices:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateSupplierPrice: RequestHandler = async (req, res) => {
+  try {
+    const supplierId = parseId(req.params.supplierId);
+    if (supplierId === null) {
+      return res.status(400).json({ message: 'Invalid supplier ID' });
+    }
+
+    const validation = createPriceSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    if (!(await SuppliersService.getSupplier(supplierId))) {
+      return res.status(404).json({ message: 'Supplier not found' });
+    }
+
+    const priceData = validation.data;
+    const price = await SuppliersService.createPrice(supplierId, {
+      item_name: priceData.item_name,
+      unit: priceData.unit ?? null,
+      unit_price: priceData.unit_price,
+      currency: priceData.currency ?? DEFAULT_CURRENCY,
+      min_quantity: priceData.min_quantity ?? 0,
+      lead_time_days: priceData.lead_time_days ?? null,
+      valid_from: toDate(priceData.valid_from || new Date().toISOString()),
+      valid_to: priceData.valid_to ? toDate(priceData.valid_to) : null,
+    });
+
+    if (!price) {
+      return res.status(500).json({ message: 'Failed to create price' });
+    }
+
+    res.status(201).json({ price });
+  } catch (error) {
+    console.error('Error creating supplier price:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleUpdateSupplierPrice: RequestHandler = async (req, res) => {
+  try {
+    const supplierId = parseId(req.params.supplierId);
+    const priceId = parseId(req.params.priceId);
+    if (supplierId === null || priceId === null) {
+      return res.status(400).json({ message: 'Invalid supplier or price ID' });
+    }
+
+    const validation = updatePriceSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = (await SuppliersService.getPrices(supplierId)).find(p => p.id === priceId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Price not found' });
+    }
+
+    const updates = { ...validation.data };
+    if (updates.valid_from) updates.valid_from = toDate(updates.valid_from);
+    if (updates.valid_to) updates.valid_to = toDate(updates.valid_to);
+
+    const validTo = updates.valid_to !== undefined ? updates.valid_to : existing.valid_to;
+    if (validTo && validTo < (updates.valid_from || existing.valid_from)) {
+      return res.status(400).json({ message: 'Valid to cannot be before valid from' });
+    }
+
+    const price = await SuppliersService.updatePrice(supplierId, priceId, updates);
+    if (!price) {
+      return res.status(500).json({ message: 'Failed to update price' });
+    }
+
+    res.json({ price });
+  } catch (error) {
+    console.error('Error updating supplier price:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteSupplierPrice: RequestHandler = async (req, res) => {
+  try {
+    const supplierId = parseId(req.params.supplierId);
+    const priceId = parseId(req.params.priceId);
+    if (supplierId === null || priceId === null) {
+      return res.status(400).json({ message: 'Invalid supplier or price ID' });
+    }
+
+    const existing = (await SuppliersService.getPrices(supplierId)).find(p => p.id === priceId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Price not found' });
+    }
+
+    const success = await SuppliersService.deletePrice(supplierId, priceId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete price' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting supplier price:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
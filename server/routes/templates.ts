@@ -0,0 +1,178 @@
+/**
+ * Project Template Routes
+ * Save a project's materials, acceptance criteria, schedule and folder
+ * structure as a reusable template, and deep-clone projects. New projects
+ * created from either get quantities and dates rescaled to their own budget
+ * and start date.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ProjectsService } from "../lib/projects-service";
+import { ProjectTemplatesService } from "../lib/templates-service";
+import { daysBetween, shiftDate } from "../lib/templates";
+import { parseId, validationErrors } from "../lib/validation";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+
+// Validation schemas
+const createTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(255),
+  description: z.string().nullable().optional(),
+});
+
+const cloneProjectSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required"),
+  budget: z.number().positive("Budget must be positive").optional(),
+  client: z.string().optional(),
+  location: z.string().optional(),
+  start_date: z.string().refine(isValidDate, "Invalid date").optional(),
+  end_date: z.string().refine(isValidDate, "Invalid date").optional(),
+  contractor: z.string().optional(),
+});
+
+export const handleGetTemplates: RequestHandler = async (req, res) => {
+  try {
+    const templates = await ProjectTemplatesService.getTemplates();
+    res.json({ templates });
+  } catch (error) {
+    console.error('Error fetching project templates:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleGetTemplate: RequestHandler = async (req, res) => {
+  try {
+    const templateId = parseId(req.params.templateId);
+    if (templateId === null) {
+      return res.status(400).json({ message: 'Invalid template ID' });
+    }
+
+    const template = await ProjectTemplatesService.getTemplate(templateId);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    res.json({ template });
+  } catch (error) {
+    console.error('Error fetching project template:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleSaveProjectAsTemplate: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseId(req.params.id);
+    if (projectId === null) {
+      return res.status(400).json({ message: 'Invalid project ID' });
+    }
+
+    const validation = createTemplateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const project = await ProjectsService.getProjectById(projectId, userId);
+    if (!project) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+
+    const template = await ProjectTemplatesService.createTemplate({
+      name: validation.data.name,
+      description: validation.data.description ?? null,
+      source_project_id: projectId,
+      source_budget: project.budget,
+      source_start_date: project.start_date,
+      content: await ProjectTemplatesService.snapshotProject(projectId, userId),
+      created_by: userId,
+    });
+    if (!template) {
+      return res.status(500).json({ message: 'Failed to save template' });
+    }
+
+    res.status(201).json({ template });
+  } catch (error) {
+    console.error('Error saving project template:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteTemplate: RequestHandler = async (req, res) => {
+  try {
+    const templateId = parseId(req.params.templateId);
+    if (templateId === null) {
+      return res.status(400).json({ message: 'Invalid template ID' });
+    }
+
+    if (!(await ProjectTemplatesService.getTemplate(templateId))) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    const success = await ProjectTemplatesService.deleteTemplate(templateId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete template' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting project template:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Deep clone: the same copy a template makes, straight into a new project
+export const handleCloneProject: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseId(req.params.id);
+    if (projectId === null) {
+      return res.status(400).json({ message: 'Invalid project ID' });
+    }
+
+    const validation = cloneProjectSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const source = await ProjectsService.getProjectById(projectId, userId);
+    if (!source) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+
+    const data = validation.data;
+    const startDate = data.start_date ?? source.start_date;
+    // Keep the original project length unless a new end date is given
+    const endDate = data.end_date ?? (source.end_date && source.start_date && startDate
+      ? shiftDate(source.end_date, daysBetween(source.start_date, startDate))
+      : source.end_date);
+
+    const project = await ProjectTemplatesService.createProjectFromTemplate(
+      {
+        name: data.name,
+        budget: data.budget ?? source.budget,
+        client: data.client ?? source.client,
+        location: data.location ?? source.location,
+        start_date: startDate,
+        end_date: endDate,
+        contractor: data.contractor ?? source.contractor,
+      },
+      await ProjectTemplatesService.snapshotProject(projectId, userId),
+      { budget: source.budget, start_date: source.start_date },
+      userId
+    );
+    if (!project) {
+      return res.status(500).json({ message: 'Failed to clone project' });
+    }
+
+    const notificationService = req.app.locals.notificationService;
+    if (notificationService) {
+      notificationService.notifyProjectCreated(userId, project.name, project.id);
+    }
+
+    res.status(201).json({ project });
+  } catch (error) {
+    console.error('Error cloning project:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
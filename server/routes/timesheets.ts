@@ -0,0 +1,650 @@
+/**
+ * Timesheet Routes
+ * Workers clock in and out against a project cost code, optionally with a
+ * location, and record breaks. Hours are split into regular and overtime at
+ * clock-out; a supervisor approves each entry, which charges its labour cost
+ * to the project's spent. The weekly export is one CSV row per worker.
+ */
+
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { toCsv } from "../lib/csv";
+import { CostControlService } from "../lib/cost-control-service";
+import { ProjectMembersService } from "../lib/project-members-service";
+import { TimeEntry, TimesheetService, TimeEntryUpdate } from "../lib/timesheets-service";
+import {
+  addDays,
+  BreakPeriod,
+  buildWeeklyTimesheet,
+  labourCost,
+  splitOvertime,
+  TimeEntryStatus,
+  toDateString,
+  weekStart,
+  workedHours,
+} from "../lib/timesheets";
+import { parseId, validationErrors } from "../lib/validation";
+import { VersionConflictError } from "../lib/concurrency";
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+const toTimestamp = (value: string) => new Date(value).toISOString();
+
+// Validation schemas
+const costCodeFields = {
+  code: z.string().min(1, "Code is required").max(50),
+  name: z.string().min(1, "Name is required").max(255),
+  labour_rate: z.number().min(0),
+  budget: z.number().min(0),
+};
+
+const createCostCodeSchema = z.object({
+  ...costCodeFields,
+  labour_rate: costCodeFields.labour_rate.optional(),
+  budget: costCodeFields.budget.optional(),
+});
+const updateCostCodeSchema = z.object(costCodeFields).partial();
+
+const locationFields = {
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  notes: z.string().max(1000).optional(),
+};
+
+const clockInSchema = z.object({
+  cost_code_id: z.number().int().positive(),
+  ...locationFields,
+});
+const clockOutSchema = z.object(locationFields);
+
+const breakSchema = z.object({
+  start: z.string().refine(isValidDate, "Invalid time"),
+  end: z.string().refine(isValidDate, "Invalid time"),
+}).refine(b => new Date(b.end) > new Date(b.start), { message: "Break must end after it starts", path: ['end'] });
+
+const updateTimeEntrySchema = z.object({
+  cost_code_id: z.number().int().positive(),
+  clock_in: z.string().refine(isValidDate, "Invalid time"),
+  clock_out: z.string().refine(isValidDate, "Invalid time"),
+  breaks: z.array(breakSchema),
+  notes: z.string().max(1000).nullable(),
+}).partial();
+
+const rejectSchema = z.object({
+  reason: z.string().min(1, "A reason is required when rejecting time"),
+});
+
+const timeEntryStatuses: TimeEntryStatus[] = ['open', 'submitted', 'approved', 'rejected'];
+
+/**
+ * Hours, overtime and cost for a finished shift. Overtime depends on what
+ * the worker has already logged that day and week on any project, so the
+ * shift is priced after every earlier shift that hasn't been rejected.
+ */
+async function priceShift(
+  entry: Pick<TimeEntry, 'id' | 'user_id' | 'clock_in'>,
+  clockOut: string,
+  breaks: BreakPeriod[],
+  hourlyRate: number
+) {
+  const from = weekStart(entry.clock_in);
+  const earlier = (await TimesheetService.getTimeEntries({
+    userId: entry.user_id,
+    from: `${from}T00:00:00.000Z`,
+    to: entry.clock_in,
+  })).filter(e => e.id !== entry.id && (e.status === 'submitted' || e.status === 'approved'));
+
+  const day = toDateString(entry.clock_in);
+  const priorDayHours = earlier
+    .filter(e => toDateString(e.clock_in) === day)
+    .reduce((sum, e) => sum + e.regular_hours + e.overtime_hours, 0);
+  const priorWeekRegularHours = earlier.reduce((sum, e) => sum + e.regular_hours, 0);
+
+  const split = splitOvertime(workedHours(entry.clock_in, clockOut, breaks), priorDayHours, priorWeekRegularHours);
+  return {
+    regular_hours: split.regular,
+    overtime_hours: split.overtime,
+    hourly_rate: hourlyRate,
+    cost: labourCost(split, hourlyRate),
+  };
+}
+
+// Cost codes
+export const handleGetCostCodes: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const [costCodes, entries] = await Promise.all([
+      TimesheetService.getCostCodes(projectId),
+      TimesheetService.getTimeEntries({ projectId, status: 'approved' }),
+    ]);
+
+    res.json({ costCodes: costCodes.map(code => TimesheetService.withActuals(code, entries)) });
+  } catch (error) {
+    console.error('Error fetching cost codes:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleCreateCostCode: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+
+    const validation = createCostCodeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const codeData = validation.data;
+    const existing = await TimesheetService.getCostCodes(projectId);
+    if (existing.some(c => c.code === codeData.code)) {
+      return res.status(409).json({ message: `Cost code ${codeData.code} already exists on this project` });
+    }
+
+    const costCode = await TimesheetService.createCostCode(projectId, {
+      code: codeData.code,
+      name: codeData.name,
+      labour_rate: codeData.labour_rate ?? 0,
+      budget: codeData.budget ?? 0,
+    });
+    if (!costCode) {
+      return res.status(500).json({ message: 'Failed to create cost code' });
+    }
+
+    res.status(201).json({ costCode });
+  } catch (error) {
+    console.error('Error creating cost code:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Rate changes apply to shifts clocked out afterwards; priced entries keep their rate
+export const handleUpdateCostCode: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const costCodeId = parseId(req.params.costCodeId);
+    if (costCodeId === null) {
+      return res.status(400).json({ message: 'Invalid cost code ID' });
+    }
+
+    const validation = updateCostCodeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await TimesheetService.getCostCodes(projectId);
+    if (!existing.some(c => c.id === costCodeId)) {
+      return res.status(404).json({ message: 'Cost code not found' });
+    }
+    const { code } = validation.data;
+    if (code && existing.some(c => c.code === code && c.id !== costCodeId)) {
+      return res.status(409).json({ message: `Cost code ${code} already exists on this project` });
+    }
+
+    const costCode = await TimesheetService.updateCostCode(projectId, costCodeId, validation.data);
+    if (!costCode) {
+      return res.status(500).json({ message: 'Failed to update cost code' });
+    }
+
+    res.json({ costCode });
+  } catch (error) {
+    console.error('Error updating cost code:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteCostCode: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const costCodeId = parseId(req.params.costCodeId);
+    if (costCodeId === null) {
+      return res.status(400).json({ message: 'Invalid cost code ID' });
+    }
+
+    const costCode = await TimesheetService.getCostCode(projectId, costCodeId);
+    if (!costCode) {
+      return res.status(404).json({ message: 'Cost code not found' });
+    }
+
+    const entries = await TimesheetService.getTimeEntries({ projectId });
+    if (entries.some(e => e.cost_code_id === costCodeId)) {
+      return res.status(409).json({ message: 'Cost code has time booked against it' });
+    }
+
+    const subcontracts = await CostControlService.getSubcontracts(projectId);
+    if (subcontracts.some(s => s.cost_code_id === costCodeId)) {
+      return res.status(409).json({ message: 'Cost code has subcontracts let against it' });
+    }
+
+    const success = await TimesheetService.deleteCostCode(projectId, costCodeId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete cost code' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting cost code:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Clocking
+export const handleGetCurrentTimeEntry: RequestHandler = async (req, res) => {
+  try {
+    const entry = await TimesheetService.getOpenEntry(req.userId!);
+    res.json({ entry });
+  } catch (error) {
+    console.error('Error fetching current time entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleClockIn: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+
+    const validation = clockInSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const { cost_code_id, latitude, longitude, notes } = validation.data;
+    const costCode = await TimesheetService.getCostCode(projectId, cost_code_id);
+    if (!costCode) {
+      return res.status(400).json({ message: 'Cost code does not belong to this project' });
+    }
+
+    const open = await TimesheetService.getOpenEntry(userId);
+    if (open) {
+      return res.status(409).json({ message: 'Already clocked in', entry: open });
+    }
+
+    const entry = await TimesheetService.createTimeEntry(projectId, {
+      user_id: userId,
+      cost_code_id,
+      clock_in: new Date().toISOString(),
+      clock_in_latitude: latitude ?? null,
+      clock_in_longitude: longitude ?? null,
+      notes: notes ?? null,
+    });
+    if (!entry) {
+      return res.status(500).json({ message: 'Failed to clock in' });
+    }
+
+    res.status(201).json({ entry });
+  } catch (error) {
+    console.error('Error clocking in:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+const getOpenEntryOnProject = async (userId: string, projectId: number) => {
+  const entry = await TimesheetService.getOpenEntry(userId);
+  return entry && entry.project_id === projectId ? entry : null;
+};
+
+export const handleStartBreak: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const entry = await getOpenEntryOnProject(req.userId!, projectId);
+    if (!entry) {
+      return res.status(409).json({ message: 'Not clocked in to this project' });
+    }
+    if (entry.breaks.some(b => !b.end)) {
+      return res.status(409).json({ message: 'Already on a break' });
+    }
+
+    const updated = await TimesheetService.updateTimeEntry(projectId, entry.id, {
+      breaks: [...entry.breaks, { start: new Date().toISOString(), end: null }],
+    });
+    if (!updated) {
+      return res.status(500).json({ message: 'Failed to start break' });
+    }
+
+    res.json({ entry: updated });
+  } catch (error) {
+    console.error('Error starting break:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleEndBreak: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const entry = await getOpenEntryOnProject(req.userId!, projectId);
+    if (!entry) {
+      return res.status(409).json({ message: 'Not clocked in to this project' });
+    }
+    if (!entry.breaks.some(b => !b.end)) {
+      return res.status(409).json({ message: 'Not on a break' });
+    }
+
+    const now = new Date().toISOString();
+    const updated = await TimesheetService.updateTimeEntry(projectId, entry.id, {
+      breaks: entry.breaks.map(b => b.end ? b : { ...b, end: now }),
+    });
+    if (!updated) {
+      return res.status(500).json({ message: 'Failed to end break' });
+    }
+
+    res.json({ entry: updated });
+  } catch (error) {
+    console.error('Error ending break:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleClockOut: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+
+    const validation = clockOutSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const entry = await getOpenEntryOnProject(req.userId!, projectId);
+    if (!entry) {
+      return res.status(409).json({ message: 'Not clocked in to this project' });
+    }
+
+    const costCode = await TimesheetService.getCostCode(projectId, entry.cost_code_id);
+    const { latitude, longitude, notes } = validation.data;
+    const clockOut = new Date().toISOString();
+    // Clocking out ends a break that is still running
+    const breaks = entry.breaks.map(b => b.end ? b : { ...b, end: clockOut });
+
+    const updated = await TimesheetService.updateTimeEntry(projectId, entry.id, {
+      clock_out: clockOut,
+      breaks,
+      clock_out_latitude: latitude ?? null,
+      clock_out_longitude: longitude ?? null,
+      notes: notes ?? entry.notes,
+      status: 'submitted',
+      ...(await priceShift(entry, clockOut, breaks, costCode?.labour_rate ?? 0)),
+    });
+    if (!updated) {
+      return res.status(500).json({ message: 'Failed to clock out' });
+    }
+
+    res.json({ entry: updated });
+  } catch (error) {
+    console.error('Error clocking out:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Entries
+export const handleGetTimeEntries: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const { status, user_id, week } = req.query;
+
+    if (typeof status === 'string' && !timeEntryStatuses.includes(status as TimeEntryStatus)) {
+      return res.status(400).json({ message: 'Invalid status filter' });
+    }
+    if (typeof week === 'string' && !isValidDate(week)) {
+      return res.status(400).json({ message: 'Invalid week' });
+    }
+
+    const from = typeof week === 'string' ? weekStart(week) : undefined;
+    const entries = await TimesheetService.getTimeEntries({
+      projectId,
+      status: typeof status === 'string' ? status as TimeEntryStatus : undefined,
+      userId: user_id === 'me' ? userId : typeof user_id === 'string' ? user_id : undefined,
+      from: from ? `${from}T00:00:00.000Z` : undefined,
+      to: from ? `${addDays(from, 7)}T00:00:00.000Z` : undefined,
+    });
+
+    res.json({
+      entries,
+      summary: {
+        regularHours: Math.round(entries.reduce((sum, e) => sum + e.regular_hours, 0) * 100) / 100,
+        overtimeHours: Math.round(entries.reduce((sum, e) => sum + e.overtime_hours, 0) * 100) / 100,
+        pendingApproval: entries.filter(e => e.status === 'submitted').length,
+        approvedCost: Math.round(entries.filter(e => e.status === 'approved').reduce((sum, e) => sum + e.cost, 0) * 100) / 100,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching time entries:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+// Workers correct their own unapproved time; supervisors can correct anyone's
+export const handleUpdateTimeEntry: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const entryId = parseId(req.params.entryId);
+    if (entryId === null) {
+      return res.status(400).json({ message: 'Invalid time entry ID' });
+    }
+
+    const validation = updateTimeEntrySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await TimesheetService.getTimeEntry(projectId, entryId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Time entry not found' });
+    }
+    if (existing.user_id !== userId && !(await ProjectMembersService.hasAccess(projectId, userId, 'manage'))) {
+      return res.status(403).json({ message: 'You can only edit your own time' });
+    }
+    if (existing.status === 'open') {
+      return res.status(409).json({ message: 'Clock out before editing this entry' });
+    }
+    if (existing.status === 'approved') {
+      return res.status(409).json({ message: 'Approved time cannot be edited' });
+    }
+
+    const { cost_code_id, clock_in, clock_out, breaks, notes } = validation.data;
+    const clockIn = clock_in ? toTimestamp(clock_in) : existing.clock_in;
+    const clockOut = clock_out ? toTimestamp(clock_out) : existing.clock_out!;
+    if (new Date(clockOut) <= new Date(clockIn)) {
+      return res.status(400).json({ errors: [{ message: 'Clock-out must be after clock-in', field: 'clock_out' }] });
+    }
+
+    const costCode = await TimesheetService.getCostCode(projectId, cost_code_id ?? existing.cost_code_id);
+    if (!costCode) {
+      return res.status(400).json({ message: 'Cost code does not belong to this project' });
+    }
+
+    const shiftBreaks = breaks
+      ? breaks.map(b => ({ start: toTimestamp(b.start), end: toTimestamp(b.end) }))
+      : existing.breaks;
+    // A corrected entry goes back to the supervisor
+    const updates: TimeEntryUpdate = {
+      cost_code_id: costCode.id,
+      clock_in: clockIn,
+      clock_out: clockOut,
+      breaks: shiftBreaks,
+      status: 'submitted',
+      rejection_reason: null,
+      ...(await priceShift({ ...existing, clock_in: clockIn }, clockOut, shiftBreaks, costCode.labour_rate)),
+    };
+    if (notes !== undefined) {
+      updates.notes = notes;
+    }
+
+    const entry = await TimesheetService.updateTimeEntry(projectId, entryId, updates);
+    if (!entry) {
+      return res.status(500).json({ message: 'Failed to update time entry' });
+    }
+
+    res.json({ entry });
+  } catch (error) {
+    console.error('Error updating time entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleApproveTimeEntry: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseInt(req.params.id);
+    const entryId = parseId(req.params.entryId);
+    if (entryId === null) {
+      return res.status(400).json({ message: 'Invalid time entry ID' });
+    }
+
+    const existing = await TimesheetService.getTimeEntry(projectId, entryId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Time entry not found' });
+    }
+    if (existing.user_id === userId) {
+      return res.status(403).json({ message: 'Time must be approved by someone else' });
+    }
+    if (existing.status !== 'submitted') {
+      return res.status(409).json({ message: `Cannot approve ${existing.status} time` });
+    }
+
+    // Only one decision lands if the entry is approved or rejected twice at once
+    let entry;
+    try {
+      entry = await TimesheetService.updateTimeEntry(projectId, entryId, {
+        status: 'approved',
+        approved_by: userId,
+        approved_at: new Date().toISOString(),
+        rejection_reason: null,
+      }, 'submitted');
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) throw error;
+      return res.status(409).json({ message: 'This time was already approved or rejected' });
+    }
+    if (!entry) {
+      return res.status(500).json({ message: 'Failed to approve time entry' });
+    }
+
+    const spent = await TimesheetService.addLabourToProjectSpent(projectId, entry.cost);
+
+    res.json({ entry, spent });
+  } catch (error) {
+    console.error('Error approving time entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleRejectTimeEntry: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const entryId = parseId(req.params.entryId);
+    if (entryId === null) {
+      return res.status(400).json({ message: 'Invalid time entry ID' });
+    }
+
+    const validation = rejectSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ errors: validationErrors(validation.error) });
+    }
+
+    const existing = await TimesheetService.getTimeEntry(projectId, entryId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Time entry not found' });
+    }
+    if (existing.status !== 'submitted') {
+      return res.status(409).json({ message: `Cannot reject ${existing.status} time` });
+    }
+
+    let entry;
+    try {
+      entry = await TimesheetService.updateTimeEntry(projectId, entryId, {
+        status: 'rejected',
+        rejection_reason: validation.data.reason,
+      }, 'submitted');
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) throw error;
+      return res.status(409).json({ message: 'This time was already approved or rejected' });
+    }
+    if (!entry) {
+      return res.status(500).json({ message: 'Failed to reject time entry' });
+    }
+
+    res.json({ entry });
+  } catch (error) {
+    console.error('Error rejecting time entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleDeleteTimeEntry: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const entryId = parseId(req.params.entryId);
+    if (entryId === null) {
+      return res.status(400).json({ message: 'Invalid time entry ID' });
+    }
+
+    const existing = await TimesheetService.getTimeEntry(projectId, entryId);
+    if (!existing) {
+      return res.status(404).json({ message: 'Time entry not found' });
+    }
+    if (existing.status === 'approved') {
+      return res.status(409).json({ message: 'Approved time cannot be deleted' });
+    }
+
+    const success = await TimesheetService.deleteTimeEntry(projectId, entryId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete time entry' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting time entry:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleExportTimesheet: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseInt(req.params.id);
+    const week = typeof req.query.week === 'string' ? req.query.week : new Date().toISOString();
+    if (!isValidDate(week)) {
+      return res.status(400).json({ message: 'Invalid week' });
+    }
+
+    const from = weekStart(week);
+    const [entries, members, costCodes] = await Promise.all([
+      TimesheetService.getTimeEntries({
+        projectId,
+        from: `${from}T00:00:00.000Z`,
+        to: `${addDays(from, 7)}T00:00:00.000Z`,
+      }),
+      ProjectMembersService.getProjectMembers(projectId),
+      TimesheetService.getCostCodes(projectId),
+    ]);
+
+    // Open shifts have no hours yet and rejected ones don't count
+    const counted = entries.filter(e => e.status === 'submitted' || e.status === 'approved');
+    const dates = Array.from({ length: 7 }, (_, i) => addDays(from, i));
+    const nameOf = (id: string) => members.find(m => m.user_id === id)?.user?.name ?? id;
+    const codesOf = (id: string) => Array.from(new Set(counted
+      .filter(e => e.user_id === id)
+      .map(e => costCodes.find(c => c.id === e.cost_code_id)?.code)
+      .filter(Boolean))).join('; ');
+    const pendingOf = (id: string) => counted.filter(e => e.user_id === id && e.status === 'submitted').length;
+
+    const csv = toCsv(
+      ['Worker', 'Cost codes', ...dates, 'Regular hours', 'Overtime hours', 'Total hours', 'Labour cost', 'Awaiting approval'],
+      buildWeeklyTimesheet(counted, from).map(row => [
+        nameOf(row.user_id),
+        codesOf(row.user_id),
+        ...dates.map(date => row.days[date]),
+        row.regular,
+        row.overtime,
+        row.total,
+        row.cost,
+        pendingOf(row.user_id),
+      ])
+    );
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="timesheet-${projectId}-${from}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error('Error exporting timesheet:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
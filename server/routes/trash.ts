@@ -0,0 +1,167 @@
+/**
+ * Trash Routes
+ * Deleted projects and materials can be restored until the retention period
+ * runs out and they are purged. Only admins can delete them permanently
+ * before then.
+ */
+
+import { RequestHandler } from "express";
+import { TrashService } from "../lib/trash-service";
+import { AuthService } from "../lib/auth-service";
+import { canPerformProjectAction, ProjectMembersService, ProjectRole } from "../lib/project-members-service";
+import { trashRetentionDays } from "../lib/config";
+import { purgeAt } from "../lib/trash";
+import { parseId } from "../lib/validation";
+
+const withPurgeDate = <T extends { deleted_at?: string | null }>(item: T) => ({
+  ...item,
+  purge_at: purgeAt(item.deleted_at!, trashRetentionDays),
+});
+
+// Project owners see their deleted projects, editors the materials they could
+// have deleted; admins see the whole trash
+export const handleGetTrash: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const user = await AuthService.findUserById(userId);
+    const isAdmin = !!user && 'role' in user && user.role === 'admin';
+
+    const [projects, materials] = await Promise.all([
+      TrashService.getTrashedProjects(),
+      TrashService.getTrashedMaterials(),
+    ]);
+
+    const roles = new Map<number, ProjectRole | null>();
+    const roleFor = async (projectId: number) => {
+      if (!roles.has(projectId)) {
+        roles.set(projectId, await ProjectMembersService.getMemberRole(projectId, userId, true));
+      }
+      return roles.get(projectId)!;
+    };
+
+    const visibleProjects = [];
+    for (const project of projects) {
+      if (isAdmin || canPerformProjectAction(await roleFor(project.id), 'delete')) {
+        visibleProjects.push(withPurgeDate(project));
+      }
+    }
+    const visibleMaterials = [];
+    for (const material of materials) {
+      if (isAdmin || canPerformProjectAction(await roleFor(material.project_id), 'edit')) {
+        visibleMaterials.push(withPurgeDate(material));
+      }
+    }
+
+    res.json({ projects: visibleProjects, materials: visibleMaterials, retention_days: trashRetentionDays });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleRestoreProject: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const projectId = parseId(req.params.id);
+    if (projectId === null) {
+      return res.status(400).json({ message: 'Invalid project ID' });
+    }
+
+    const project = await TrashService.getTrashedProject(projectId);
+    const role = project ? await ProjectMembersService.getMemberRole(projectId, userId, true) : null;
+    if (!project || !role) {
+      return res.status(404).json({ message: 'Project not found in trash' });
+    }
+    if (!canPerformProjectAction(role, 'delete')) {
+      return res.status(403).json({ message: 'Only the project owner can restore it' });
+    }
+
+    const restored = await TrashService.restoreProject(projectId);
+    if (!restored) {
+      return res.status(500).json({ message: 'Failed to restore project' });
+    }
+
+    res.json({ project: { ...restored, member_role: role } });
+  } catch (error) {
+    console.error('Error restoring project:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handleRestoreMaterial: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.userId!;
+    const materialId = parseId(req.params.materialId);
+    if (materialId === null) {
+      return res.status(400).json({ message: 'Invalid material ID' });
+    }
+
+    const material = await TrashService.getTrashedMaterial(materialId);
+    if (!material) {
+      return res.status(404).json({ message: 'Material not found in trash' });
+    }
+    if (await TrashService.getTrashedProject(material.project_id)) {
+      return res.status(409).json({ message: 'Restore the project first' });
+    }
+    if (!(await ProjectMembersService.hasAccess(material.project_id, userId, 'edit'))) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const restored = await TrashService.restoreMaterial(materialId);
+    if (!restored) {
+      return res.status(500).json({ message: 'Failed to restore material' });
+    }
+
+    res.json({ material: restored });
+  } catch (error) {
+    console.error('Error restoring material:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handlePurgeProject: RequestHandler = async (req, res) => {
+  try {
+    const projectId = parseId(req.params.id);
+    if (projectId === null) {
+      return res.status(400).json({ message: 'Invalid project ID' });
+    }
+
+    // Only items already in the trash can be purged
+    if (!(await TrashService.getTrashedProject(projectId))) {
+      return res.status(404).json({ message: 'Project not found in trash' });
+    }
+
+    const success = await TrashService.purgeProject(projectId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete project' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error purging project:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
+
+export const handlePurgeMaterial: RequestHandler = async (req, res) => {
+  try {
+    const materialId = parseId(req.params.materialId);
+    if (materialId === null) {
+      return res.status(400).json({ message: 'Invalid material ID' });
+    }
+
+    if (!(await TrashService.getTrashedMaterial(materialId))) {
+      return res.status(404).json({ message: 'Material not found in trash' });
+    }
+
+    const success = await TrashService.purgeMaterial(materialId);
+    if (!success) {
+      return res.status(500).json({ message: 'Failed to delete material' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error purging material:', error);
+    res.status(500).json({ message: 'Internal server error' });
+  }
+};
@@ -8,6 +8,9 @@ import { z } from "zod";
 import { AuthService } from "../lib/auth-service";
 import { ProjectsService } from "../lib/projects-service";
 import { NotificationService } from "../lib/notifications";
+import { AuditService } from "../lib/audit-service";
+import { auditMetadata, diffFields, USER_AUDIT_FIELDS } from "../lib/audit";
+import { CURRENCIES, DEFAULT_CURRENCY } from "../lib/currency";
 
 // Extended user data interface
 export interface UserDataResponse {
@@ -89,6 +92,84 @@ const updateUserSchema = z.object({
   }).optional(),
 });
 
+const preferencesSchema = z.object({
+  theme: z.enum(['light', 'dark', 'auto']).optional(),
+  language: z.string().optional(),
+  timezone: z.string().optional(),
+  dateFormat: z.string().optional(),
+  // Portfolio roll-ups are converted into this currency
+  reportingCurrency: z.enum(CURRENCIES).optional(),
+  notifications: z.object({
+    email: z.boolean().optional(),
+    push: z.boolean().optional(),
+    sms: z.boolean().optional(),
+    projectUpdates: z.boolean().optional(),
+    materialAlerts: z.boolean().optional(),
+    systemNotifications: z.boolean().optional(),
+  }).optional(),
+  dashboard: z.object({
+    layout: z.enum(['grid', 'list']).optional(),
+    widgets: z.array(z.string()).optional(),
+    refreshInterval: z.number().min(10000).max(300000).optional(),
+  }).optional(),
+  privacy: z.object({
+    profileVisibility: z.enum(['public', 'team', 'private']).optional(),
+    activitySharing: z.boolean().optional(),
+    dataExport: z.boolean().optional(),
+  }).optional(),
+  accessibility: z.object({
+    highContrast: z.boolean().optional(),
+    fontSize: z.enum(['small', 'medium', 'large']).optional(),
+    screenReader: z.boolean().optional(),
+  }).optional(),
+});
+
+const DEFAULT_PREFERENCES = {
+  theme: 'light' as const,
+  language: 'en',
+  timezone: 'UTC',
+  dateFormat: 'MM/DD/YYYY',
+  reportingCurrency: DEFAULT_CURRENCY,
+  notifications: {
+    email: true,
+    push: true,
+    sms: false,
+    projectUpdates: true,
+    materialAlerts: true,
+    systemNotifications: false,
+  },
+  dashboard: {
+    layout: 'grid' as const,
+    widgets: ['projects', 'materials', 'notifications', 'analytics'],
+    refreshInterval: 30000, // 30 seconds
+  },
+  privacy: {
+    profileVisibility: 'team' as const,
+    activitySharing: true,
+    dataExport: true,
+  },
+  accessibility: {
+    highContrast: false,
+    fontSize: 'medium',
+    screenReader: false,
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Sections such as `notifications` merge key by key rather than being replaced
+const mergePreferences = (base: Record<string, unknown>, changes: Record<string, unknown>) =>
+  Object.fromEntries([...new Set([...Object.keys(base), ...Object.keys(changes)])].map(key => {
+    const value = changes[key];
+    if (value === undefined) return [key, base[key]];
+    return [key, isPlainObject(base[key]) && isPlainObject(value) ? { ...base[key], ...value } : value];
+  }));
+
+/** A user's saved preferences over the defaults. */
+export const getUserPreferences = async (userId: string) =>
+  mergePreferences(DEFAULT_PREFERENCES, await AuthService.getPreferences(userId)) as typeof DEFAULT_PREFERENCES;
+
 const getUserActivitySchema = z.object({
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0),
@@ -258,12 +339,24 @@ export const handleUpdateUserData: RequestHandler = async (req, res) => {
 
     const updateData = validation.data;
 
+    // Copied, as the in-memory store updates users in place
+    const stored = await AuthService.findUserById(userId);
+    const before = stored ? { ...stored } : null;
+
     // Update user in database
     const updatedUser = await AuthService.updateUser(userId, updateData);
     if (!updatedUser) {
       return res.status(404).json({ message: 'User not found' });
     }
 
+    await AuditService.record(
+      userId,
+      { type: 'user', id: userId, project_id: null },
+      'update',
+      diffFields(before, updatedUser, USER_AUDIT_FIELDS),
+      auditMetadata(req)
+    );
+
     // Transform to response format
     const user = AuthService.transformDbUserToUser(updatedUser);
     res.json({ user, message: 'User data updated successfully' });
@@ -460,36 +553,7 @@ export const handleGetUserPreferences: RequestHandler = async (req, res) => {
       return res.status(401).json({ message: 'Unauthorized' });
     }
 
-    // Mock preferences (in real implementation, this would come from database)
-    const preferences = {
-      theme: 'light' as const,
-      language: 'en',
-      timezone: 'UTC',
-      dateFormat: 'MM/DD/YYYY',
-      notifications: {
-        email: true,
-        push: true,
-        sms: false,
-        projectUpdates: true,
-        materialAlerts: true,
-        systemNotifications: false,
-      },
-      dashboard: {
-        layout: 'grid' as const,
-        widgets: ['projects', 'materials', 'notifications', 'analytics'],
-        refreshInterval: 30000, // 30 seconds
-      },
-      privacy: {
-        profileVisibility: 'team' as const,
-        activitySharing: true,
-        dataExport: true,
-      },
-      accessibility: {
-        highContrast: false,
-        fontSize: 'medium',
-        screenReader: false,
-      },
-    };
+    const preferences = await getUserPreferences(userId);
 
     res.json(preferences);
   } catch (error) {
@@ -508,36 +572,6 @@ export const handleUpdateUserPreferences: RequestHandler = async (req, res) => {
       return res.status(401).json({ message: 'Unauthorized' });
     }
 
-    const preferencesSchema = z.object({
-      theme: z.enum(['light', 'dark', 'auto']).optional(),
-      language: z.string().optional(),
-      timezone: z.string().optional(),
-      dateFormat: z.string().optional(),
-      notifications: z.object({
-        email: z.boolean().optional(),
-        push: z.boolean().optional(),
-        sms: z.boolean().optional(),
-        projectUpdates: z.boolean().optional(),
-        materialAlerts: z.boolean().optional(),
-        systemNotifications: z.boolean().optional(),
-      }).optional(),
-      dashboard: z.object({
-        layout: z.enum(['grid', 'list']).optional(),
-        widgets: z.array(z.string()).optional(),
-        refreshInterval: z.number().min(10000).max(300000).optional(),
-      }).optional(),
-      privacy: z.object({
-        profileVisibility: z.enum(['public', 'team', 'private']).optional(),
-        activitySharing: z.boolean().optional(),
-        dataExport: z.boolean().optional(),
-      }).optional(),
-      accessibility: z.object({
-        highContrast: z.boolean().optional(),
-        fontSize: z.enum(['small', 'medium', 'large']).optional(),
-        screenReader: z.boolean().optional(),
-      }).optional(),
-    });
-
     const validation = preferencesSchema.safeParse(req.body);
     if (!validation.success) {
       return res.status(400).json({ 
@@ -548,11 +582,23 @@ export const handleUpdateUserPreferences: RequestHandler = async (req, res) => {
       });
     }
 
-    // In real implementation, save preferences to database
-    // For now, just return success
+    const before = await AuthService.getPreferences(userId);
+    const saved = await AuthService.savePreferences(userId, mergePreferences(before, validation.data));
+    if (!saved) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    await AuditService.record(
+      userId,
+      { type: 'user', id: userId, project_id: null },
+      'update',
+      diffFields({ preferences: before }, { preferences: saved }, USER_AUDIT_FIELDS),
+      auditMetadata(req)
+    );
+
     res.json({ 
       message: 'Preferences updated successfully',
-      preferences: validation.data 
+      preferences: mergePreferences(DEFAULT_PREFERENCES, saved)
     });
   } catch (error) {
     console.error('Update user preferences error:', error);
@@ -0,0 +1,71 @@
+/**
+ * Process Startup
+ * Real-time notifications and the timed jobs every way of running the API
+ * needs: the production server (node-build.ts), the Vite dev server and the
+ * serverless entry (server.ts).
+ */
+
+import type { Server as HttpServer } from "http";
+import type { Express } from "express";
+import { Server as SocketIOServer } from "socket.io";
+import { socketOrigins, trashRetentionDays } from "./lib/config";
+import { NotificationService } from "./lib/notifications";
+import { FileStorageService } from "./lib/file-storage";
+import { TrashService } from "./lib/trash-service";
+import { RfiService } from "./lib/rfi-service";
+import { EquipmentRegisterService } from "./lib/equipment-service";
+
+const TRASH_PURGE_MS = 24 * 60 * 60 * 1000;
+// Reminder checks run on startup and hourly after that
+const REMINDER_CHECK_MS = 60 * 60 * 1000;
+
+let jobsStarted = false;
+// Reminders go through whichever service the latest startup created
+let notifications: NotificationService;
+
+/**
+ * Attach Socket.IO to the HTTP server, make the notification service
+ * available to routes and start the background jobs.
+ */
+export function startServices(app: Express, httpServer: HttpServer): NotificationService {
+  const io = new SocketIOServer(httpServer, {
+    cors: {
+      origin: socketOrigins,
+      methods: ["GET", "POST"],
+    },
+  });
+
+  const notificationService = new NotificationService(io);
+  FileStorageService.initialize();
+
+  app.locals.notificationService = notificationService;
+  app.set('notificationService', notificationService);
+  notifications = notificationService;
+
+  startBackgroundJobs();
+  return notificationService;
+}
+
+// Timers are per process; the dev server can build the app more than once
+function startBackgroundJobs() {
+  if (jobsStarted) return;
+  jobsStarted = true;
+
+  // Purge deleted projects and materials once their retention period is up
+  const purgeTrash = () => TrashService.purgeExpired(trashRetentionDays)
+    .catch(error => console.error('Error purging trash:', error));
+  purgeTrash();
+  setInterval(purgeTrash, TRASH_PURGE_MS).unref();
+
+  // Remind assignees about overdue RFIs
+  const checkOverdueRfis = () => RfiService.notifyOverdue(notifications)
+    .catch(error => console.error('Error checking overdue RFIs:', error));
+  checkOverdueRfis();
+  setInterval(checkOverdueRfis, REMINDER_CHECK_MS).unref();
+
+  // Calendar-based service intervals fall due without new meter readings
+  const checkMaintenanceDue = () => EquipmentRegisterService.notifyMaintenanceDue(notifications)
+    .catch(error => console.error('Error checking equipment maintenance:', error));
+  checkMaintenanceDue();
+  setInterval(checkMaintenanceDue, REMINDER_CHECK_MS).unref();
+}
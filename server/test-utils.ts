@@ -0,0 +1,91 @@
+/**
+ * Test helpers
+ * Record fixtures, running an Express handler or middleware against a plain
+ * request object, and starting the whole API on a local port.
+ */
+
+import { RequestHandler } from "express";
+
+// A record builder with sensible defaults; each call overrides what it needs
+export const fixture = <T>(defaults: T) => (overrides: Partial<T> = {}): T => ({ ...defaults, ...overrides });
+
+export interface HandlerResult {
+  req: any;
+  status: number;
+  body: any;
+  nextCalled: boolean;
+}
+
+export async function callHandler(
+  handler: RequestHandler,
+  request: { body?: any; params?: Record<string, string>; query?: Record<string, string>; headers?: Record<string, string>; userId?: string } = {}
+): Promise<HandlerResult> {
+  const req: any = { body: {}, params: {}, query: {}, headers: {}, ...request };
+  const result: HandlerResult = { req, status: 200, body: undefined, nextCalled: false };
+
+  await new Promise<void>((resolve, reject) => {
+    const res: any = {
+      status(code: number) {
+        result.status = code;
+        return res;
+      },
+      json(body: any) {
+        result.body = body;
+        resolve();
+        return res;
+      },
+      send(body?: any) {
+        result.body = body;
+        resolve();
+        return res;
+      },
+      setHeader() {
+        return res;
+      },
+    };
+
+    Promise.resolve(handler(req, res, (error?: any) => {
+      result.nextCalled = !error;
+      if (error) reject(error);
+      else resolve();
+    })).catch(reject);
+  });
+
+  return result;
+}
+
+export interface TestApi {
+  request(method: string, path: string, body?: unknown, token?: string): Promise<{ status: number; body: any }>;
+  login(email: string, password: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the full app on a free local port, so tests go through the same
+ * middleware chain (authentication, role and project checks) as real requests.
+ */
+export async function startTestApi(): Promise<TestApi> {
+  const { createServer } = await import("./index");
+  const server = createServer().listen(0, '::1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const base = `http://[::1]:${(server.address() as any).port}/api`;
+
+  const request: TestApi['request'] = async (method, path, body, token) => {
+    const response = await fetch(`${base}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept-Encoding': 'identity',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json().catch(() => null) };
+  };
+
+  return {
+    request,
+    login: async (email, password) => (await request('POST', '/auth/login', { email, password })).body.token,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -20,6 +20,7 @@ export interface User {
   name: string;
   role: 'admin' | 'manager' | 'user';
   avatar?: string;
+  isActive?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -44,3 +45,31 @@ export interface AuthError {
   message: string;
   field?: string;
 }
+
+/**
+ * Admin user management types
+ */
+export interface AdminCreateUserRequest {
+  email: string;
+  password: string;
+  name: string;
+  role: User['role'];
+}
+
+export interface AdminUpdateUserRequest {
+  email?: string;
+  password?: string;
+  name?: string;
+  role?: User['role'];
+  isActive?: boolean;
+}
+
+export interface UserListResponse {
+  users: User[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
@@ -2,6 +2,8 @@ import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { createServer } from "./server";
+import { startServices } from "./server/startup";
+import type { Server as HttpServer } from "http";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -47,6 +49,11 @@ function expressPlugin(): Plugin {
 
       // Add Express app as middleware to Vite dev server
       server.middlewares.use(app);
+
+      // Notifications and background jobs, as in production
+      if (server.httpServer) {
+        startServices(app, server.httpServer as HttpServer);
+      }
     },
   };
 }